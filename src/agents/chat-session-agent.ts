@@ -30,9 +30,13 @@ import {
 } from '../utils/jwt';
 import { isValidNpmPackageName } from '../utils/validate-npm-package';
 import {
+  SandboxManager,
   collectProjectSecrets,
-  collectUserSecrets,
+  filterUserSecrets,
+  sessionSecretSelection,
   collectGithubToken,
+  MCP_PROXY_START_CMD,
+  toolPolicyEnv,
 } from '../sandbox';
 import { assembleSandboxConfig } from '../config-assembly';
 import type { SandboxConfig } from '../sandbox';
@@ -40,9 +44,39 @@ import { getSandbox, parseSSEStream } from '@cloudflare/sandbox';
 import type { Process, Sandbox } from '@cloudflare/sandbox';
 import type { Session } from '../types';
 import { readAllOAuthTokens, refreshTokenIfExpired, writeOAuthTokens, markServerExpired } from '../api/mcp-oauth';
+import { getProviderCredentials, createEmbeddingModel } from '../services/ai-provider-factory';
+import { reindexEmbeddingsPaths } from '../services/embeddings';
+import { vectorStoreFactory } from '../services/vector-store';
+import { recordUsage, usageFromDoneEvent } from '../services/usage-ledger';
+import { checkUsageAlerts } from '../services/usage-alerts';
+import { budgetEvent, checkBudget, type BudgetVerdict } from '../services/budget';
+import { readScopedUserSecrets } from '../services/user-secrets';
+import {
+  createRedactor,
+  loadRedactor,
+  recordSecretAudit,
+  redactDelta,
+  redactSecrets,
+  secretRedactedEvent,
+  type SecretRedactor,
+} from '../services/secret-audit';
+import type { SessionAccess } from '../services/orgs';
+import { completeJobRun, type JobRunRef } from '../services/scheduled-jobs';
+import { completeGithubTask, type GithubTaskRef } from '../services/github-triggers';
+import { MCP_PROXY_CONFIG_PATH, recordRelayUser } from '../services/mcp-policy';
+import {
+  MAX_QUEUE_LENGTH,
+  canDrive,
+  parseViewerMessage,
+  presenceList,
+  removeQueued,
+  type QueuedPrompt,
+  type ViewerInfo,
+  type WatchFrame,
+} from '../services/session-presence';
 
 /** Resolve frontend model IDs to CLI aliases (e.g. sonnet1m -> sonnet[1m]) */
-const MODEL_ALIASES: Record<string, string> = {
+export const MODEL_ALIASES: Record<string, string> = {
   sonnet: 'claude-sonnet-4-6',
   haiku: 'claude-haiku-4-5-20251001',
   opus: 'claude-opus-4-6',
@@ -50,6 +84,26 @@ const MODEL_ALIASES: Record<string, string> = {
   sonnet1m: 'claude-sonnet-4-6',
 };
 
+/** The run in flight — persisted so the `done` event can be attributed in the usage ledger. */
+interface RunInfo {
+  executionId: string;
+  userId: string;
+  sessionId: string;
+  model?: string;
+  gitRepo?: string;
+  startedAt?: string;
+  endedAt?: string;
+  /** Dispatched from the prompt queue — the DO persists the reply since no browser drives it */
+  queued?: boolean;
+  /** Started by a scheduled job — the outcome is reported back when the run ends */
+  jobRun?: JobRunRef;
+  /** Started by a GitHub webhook trigger — results are posted back to the issue or PR */
+  githubTask?: GithubTaskRef;
+}
+
+/** What started a run with no browser attached; recorded on its RunInfo. */
+type RunOrigin = Pick<RunInfo, 'queued' | 'jobRun' | 'githubTask'>;
+
 /** HTTP passthrough bridge — forwards container NDJSON to browser as-is. */
 interface HttpBridge {
   writer: WritableStreamDefaultWriter<Uint8Array>;
@@ -71,9 +125,23 @@ const SENTINEL_INTERVAL_MS = 8 * 60 * 1000;
  */
 const MAX_BUFFER_LINES = 2000;
 
+/**
+ * A run with no end recorded after this long is treated as dead, so a lost
+ * container callback cannot hold the prompt queue forever.
+ */
+const RUN_STALE_MS = 30 * 60 * 1000;
+
 /** Max time to wait for a tool approval before auto-denying (5 min). */
 const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
 
+/** SDK tools that write to disk, mapped to the input field holding the path. */
+const FILE_WRITE_TOOLS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
 export class ChatSessionAgent {
   private state: DurableObjectState;
   private env: Env;
@@ -87,6 +155,15 @@ export class ChatSessionAgent {
   private bufferGen = 0;
   private pendingApprovals = new Map<string, (approved: boolean) => void>();
   private approvalPollCounts = new Map<string, { lastMinute: number; count: number }>();
+  /** Files written by Write/Edit tools during the current run — re-embedded on `done`. */
+  private changedPaths = new Set<string>();
+  /** Masks stored secret values in container output. Rebuilt lazily after eviction. */
+  private redactor: SecretRedactor | null = null;
+  private redactorLoad: Promise<void> | null = null;
+  /** Secrets already reported via `secret-redacted` this run (one event per name). */
+  private runRedacted = new Set<string>();
+  /** Redacted text-delta tail not yet emitted (may be the start of a secret). */
+  private deltaHeld = '';
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
@@ -152,6 +229,7 @@ export class ChatSessionAgent {
   private storeLine(line: string): void {
     const key = `buf:${this.bufferGen}:` + String(this.bufferSeq++).padStart(10, '0');
     this.state.storage.put(key, line);
+    this.broadcastWatch({ type: 'line', line });
     // Prune the oldest line once the buffer exceeds the cap (rolling window).
     // Prevents storage.list() from hitting CF's ~128KB result size limit on long sessions.
     if (this.bufferSeq > MAX_BUFFER_LINES) {
@@ -160,6 +238,72 @@ export class ChatSessionAgent {
     }
   }
 
+  /**
+   * Load the redactor for the run in flight if this instance doesn't have one
+   * (DO evicted mid-run). Failures leave output unmasked rather than break the stream.
+   */
+  private ensureRedactor(): Promise<void> {
+    if (this.redactor) return Promise.resolve();
+    this.redactorLoad ??= (async () => {
+      try {
+        const run = await this.state.storage.get<RunInfo>('run');
+        if (!run) return;
+        const githubTokenEnv = await collectGithubToken(this.env.AUTH_KV, run.userId, this.env);
+        this.redactor = await loadRedactor(this.env, run.userId, githubTokenEnv);
+      } catch (err) {
+        console.error('[ChatSessionAgent] redactor load failed:', err);
+      } finally {
+        this.redactorLoad = null;
+      }
+    })();
+    return this.redactorLoad;
+  }
+
+  /**
+   * Mask stored secret values in an NDJSON line before it is buffered or
+   * forwarded. Returns the lines to emit: the masked line, then a
+   * `secret-redacted` event the first time each secret is caught this run.
+   * Text deltas hold back a tail long enough to finish any secret split
+   * across them; the tail goes out ahead of the next non-delta event.
+   */
+  private redactLine(line: string): string[] {
+    if (!this.redactor) return [line];
+
+    const delta = parseTextDelta(line);
+    if (delta) {
+      const { text, held, names } = redactDelta(this.redactor, this.deltaHeld, String(delta.text));
+      this.deltaHeld = held;
+      return [...(text ? [JSON.stringify({ ...delta, text })] : []), ...this.reportRedacted(names)];
+    }
+
+    const lines: string[] = [];
+    if (this.deltaHeld) {
+      lines.push(JSON.stringify({ type: 'text-delta', text: this.deltaHeld }));
+      this.deltaHeld = '';
+    }
+    const { text, names } = redactSecrets(this.redactor, line);
+    lines.push(names.length > 0 ? text : line);
+    return [...lines, ...this.reportRedacted(names)];
+  }
+
+  /** Audit secrets caught for the first time this run; returns their `secret-redacted` event. */
+  private reportRedacted(names: string[]): string[] {
+    const fresh = names.filter((name) => !this.runRedacted.has(name));
+    if (fresh.length === 0) return [];
+    for (const name of fresh) this.runRedacted.add(name);
+    this.state.storage.get<RunInfo>('run').then((run) => {
+      if (!run) return;
+      return recordSecretAudit(this.env.SESSIONS_KV, {
+        userId: run.userId,
+        sessionId: run.sessionId,
+        kind: 'redacted',
+        source: 'chat-output',
+        names: fresh,
+      });
+    }).catch(() => {});
+    return [JSON.stringify(secretRedactedEvent(fresh, 'chat-output'))];
+  }
+
   /**
    * Clear the stream buffer from the previous generation and advance the generation counter.
    * Called at the start of each new chat request. Awaited so new storeLine() calls cannot
@@ -237,6 +381,23 @@ export class ChatSessionAgent {
       return new Response('OK', { status: 200 });
     }
 
+    // Trust model: same as /sentinel/start — internal Worker→DO route only.
+    // Checkpoints read the live sdkSessionId on save and rewind it on restore.
+    if (url.pathname === '/sdk-session') {
+      if (request.method === 'GET') {
+        const sdkSessionId = (await this.state.storage.get<string>('sdkSessionId')) || '';
+        return new Response(JSON.stringify({ sdkSessionId }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      if (request.method === 'POST') {
+        const body = (await request.json()) as { sdkSessionId?: string };
+        await this.state.storage.put('sdkSessionId', body.sdkSessionId || '');
+        return new Response('OK', { status: 200 });
+      }
+    }
+
     // Resume: serve buffered NDJSON lines from a given offset (reconnect after disconnect)
     if (request.method === 'GET' && url.pathname === '/chat/resume') {
       return this.handleResume(url);
@@ -298,7 +459,7 @@ export class ChatSessionAgent {
 
     // Browser submits approve/deny for a pending tool permission request
     if (request.method === 'POST' && url.pathname === '/approve') {
-      const body = (await request.json()) as { approvalId: string; approved: boolean };
+      const body = (await request.json()) as { approvalId: string; approved: boolean; userId?: string };
       const resolver = this.pendingApprovals.get(body.approvalId);
       if (resolver) {
         this.pendingApprovals.delete(body.approvalId);
@@ -311,6 +472,13 @@ export class ChatSessionAgent {
           this.state.storage.delete(`approval:${body.approvalId}`).catch(() => {});
         }, 30_000);
         resolver(body.approved);
+        // Any collaborator may answer — tell the other viewers it's been handled
+        this.broadcastWatch({
+          type: 'approval-resolved',
+          approvalId: body.approvalId,
+          approved: body.approved,
+          userId: body.userId,
+        });
       }
       return new Response(JSON.stringify({ ok: true }), {
         status: 200,
@@ -318,6 +486,18 @@ export class ChatSessionAgent {
       });
     }
 
+    // Scheduled jobs queue their prompt like any collaborator would.
+    // Trust model: internal Worker→DO route, called from the cron handler.
+    if (request.method === 'POST' && url.pathname === '/enqueue') {
+      return this.handleEnqueue(request);
+    }
+
+    // Watch socket — presence, live output and the prompt queue for every viewer.
+    // Trust model: internal Worker→DO route; the Worker checks session access.
+    if (request.headers.get('Upgrade') === 'websocket' && url.pathname === '/watch') {
+      return this.handleWatchUpgrade(url);
+    }
+
     // V1.5 WebSocket streaming — browser upgrades to WS for real-time chat
     if (request.headers.get('Upgrade') === 'websocket' && url.pathname === '/ws') {
       return this.handleWsUpgrade(request, url);
@@ -420,6 +600,7 @@ export class ChatSessionAgent {
     const decoder = new TextDecoder();
     let buffer = '';
     const FLUSH_PAD = ' '.repeat(1024) + '\n';
+    await this.ensureRedactor();
 
     try {
       while (true) {
@@ -430,8 +611,19 @@ export class ChatSessionAgent {
         const lines = buffer.split('\n');
         buffer = lines.pop() || '';
 
-        for (const line of lines) {
-          if (!line.trim()) continue;
+        for (const raw of lines) {
+          if (!raw.trim()) continue;
+          for (const line of this.redactLine(raw)) {
+            await bridge.writer.write(bridge.encoder.encode(line + '\n' + FLUSH_PAD));
+            this.storeLine(line);
+            this.extractMetadata(line);
+            this.maybeRegisterApproval(line);
+          }
+        }
+      }
+
+      if (buffer.trim()) {
+        for (const line of this.redactLine(buffer)) {
           await bridge.writer.write(bridge.encoder.encode(line + '\n' + FLUSH_PAD));
           this.storeLine(line);
           this.extractMetadata(line);
@@ -439,13 +631,6 @@ export class ChatSessionAgent {
         }
       }
 
-      if (buffer.trim()) {
-        await bridge.writer.write(bridge.encoder.encode(buffer + '\n' + FLUSH_PAD));
-        this.storeLine(buffer);
-        this.extractMetadata(buffer);
-        this.maybeRegisterApproval(buffer);
-      }
-
       bridge.resolve();
     } catch (err) {
       console.error('[ChatSessionAgent] HTTP stream pipe error:', err);
@@ -453,6 +638,7 @@ export class ChatSessionAgent {
     } finally {
       this.httpBridges.delete(executionId);
       this.state.storage.delete(`exec:${executionId}`).catch(() => {});
+      await this.endRun(executionId);
     }
 
     return new Response('OK', { status: 200 });
@@ -478,6 +664,7 @@ export class ChatSessionAgent {
     const reader = request.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
+    await this.ensureRedactor();
 
     try {
       while (true) {
@@ -488,8 +675,20 @@ export class ChatSessionAgent {
         const lines = buffer.split('\n');
         buffer = lines.pop() || '';
 
-        for (const line of lines) {
-          if (!line.trim()) continue;
+        for (const raw of lines) {
+          if (!raw.trim()) continue;
+          for (const line of this.redactLine(raw)) {
+            this.storeLine(line);
+            this.extractMetadata(line);
+            this.maybeRegisterApproval(line);
+            const frame = ndjsonToUIStreamFrame(line);
+            if (frame !== null) ws.send(frame);
+          }
+        }
+      }
+
+      if (buffer.trim()) {
+        for (const line of this.redactLine(buffer)) {
           this.storeLine(line);
           this.extractMetadata(line);
           this.maybeRegisterApproval(line);
@@ -498,14 +697,6 @@ export class ChatSessionAgent {
         }
       }
 
-      if (buffer.trim()) {
-        this.storeLine(buffer);
-        this.extractMetadata(buffer);
-        this.maybeRegisterApproval(buffer);
-        const frame = ndjsonToUIStreamFrame(buffer);
-        if (frame !== null) ws.send(frame);
-      }
-
       ws.close(1000, 'done');
     } catch (err) {
       console.error('[ChatSessionAgent] WS stream pipe error:', err);
@@ -517,6 +708,7 @@ export class ChatSessionAgent {
       this.wsBridges.delete(executionId);
       this.state.storage.delete(`exec:${executionId}`).catch(() => {});
       this.state.storage.delete(`ws-meta:${executionId}`).catch(() => {});
+      await this.endRun(executionId);
     }
 
     return new Response('OK', { status: 200 });
@@ -527,6 +719,7 @@ export class ChatSessionAgent {
    * the executionId is known (persisted in SQLite). Buffer the container's remaining
    * output to the replay buffer so the browser can recover it via /chat/resume.
    * The browser connection is already dropped, so we buffer only (no pipe).
+   * Queued runs take this path by design — watch sockets see it via storeLine.
    */
   private async handleOrphanedStream(
     request: Request,
@@ -540,6 +733,7 @@ export class ChatSessionAgent {
     const reader = request.body.getReader();
     const decoder = new TextDecoder();
     let buf = '';
+    await this.ensureRedactor();
     try {
       while (true) {
         const { done, value } = await reader.read();
@@ -547,18 +741,25 @@ export class ChatSessionAgent {
         buf += decoder.decode(value, { stream: true });
         const lines = buf.split('\n');
         buf = lines.pop() || '';
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          this.storeLine(line);
-          this.extractMetadata(line);
+        for (const raw of lines) {
+          if (!raw.trim()) continue;
+          for (const line of this.redactLine(raw)) {
+            this.storeLine(line);
+            this.extractMetadata(line);
+            this.maybeRegisterApproval(line);
+          }
         }
       }
       if (buf.trim()) {
-        this.storeLine(buf);
-        this.extractMetadata(buf);
+        for (const line of this.redactLine(buf)) {
+          this.storeLine(line);
+          this.extractMetadata(line);
+          this.maybeRegisterApproval(line);
+        }
       }
     } finally {
       await this.state.storage.delete(`exec:${executionId}`);
+      await this.endRun(executionId);
     }
     return new Response('OK', { status: 200 });
   }
@@ -591,6 +792,14 @@ export class ChatSessionAgent {
         { status: 409, headers: { 'Content-Type': 'application/json' } }
       );
     }
+    // Another member's run (or a queued one) is in flight — queue instead of clobbering it
+    const activeRun = await this.activeRun();
+    if (activeRun && activeRun.userId !== body.userId) {
+      return new Response(
+        JSON.stringify({ error: 'Another member is driving this session. Queue your prompt instead.', code: 'run-in-progress' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
     // Clear buffer from previous execution before starting a new one.
     // Awaited to prevent delete from racing with new storeLine() calls.
@@ -617,6 +826,18 @@ export class ChatSessionAgent {
 
     console.log(`[ChatSessionAgent] handleChatHttp: sessionId=${sessionId.slice(0, 8)}, userId=${userId.slice(0, 8)}, promptLen=${body.prompt.length}`);
 
+    const budget = await this.checkRunBudget(userId, sessionId, body.model);
+    if (budget?.action === 'refuse') {
+      const lines = [
+        JSON.stringify({ type: 'error', error: budget.message, code: 'budget-exceeded' }),
+        JSON.stringify({ type: 'done', sessionId: '', fullText: '' }),
+      ];
+      return new Response(lines.join('\n') + '\n', {
+        headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+      });
+    }
+    const model = budget?.model ?? body.model;
+
     const { readable, writable } = new TransformStream<Uint8Array>();
     const writer = writable.getWriter();
     const encoder = new TextEncoder();
@@ -653,6 +874,9 @@ export class ChatSessionAgent {
     // This resets the frontend's 5-min AbortController timeout, which is critical
     // when the container is sleeping and needs 20-60s to wake before responding.
     writer.write(encoder.encode(JSON.stringify({ type: 'connected' }) + '\n')).catch(() => {});
+    if (budget) {
+      writer.write(encoder.encode(JSON.stringify(budgetEvent(budget)) + '\n')).catch(() => {});
+    }
 
     bridgeTimeoutId = setTimeout(() => {
       const bridge = this.httpBridges.get(executionId);
@@ -661,6 +885,7 @@ export class ChatSessionAgent {
         bridge.writer.write(bridge.encoder.encode(line)).catch(() => {});
         bridge.resolve();
         this.httpBridges.delete(executionId);
+        void this.endRun(executionId);
       }
     }, BRIDGE_TIMEOUT_MS);
     promise.finally(cancelBridgeTimeout);
@@ -689,7 +914,7 @@ export class ChatSessionAgent {
       body.prompt,
       userId,
       body.mode,
-      body.model,
+      model,
       body.autonomy,
       body.nativeStream === true,
       body.debugStream === true,
@@ -699,6 +924,7 @@ export class ChatSessionAgent {
       writer.write(encoder.encode(line)).catch(() => {});
       writer.close().catch(() => {});
       this.httpBridges.delete(executionId);
+      void this.endRun(executionId);
       reject(err instanceof Error ? err : new Error(String(err)));
     });
 
@@ -728,25 +954,7 @@ export class ChatSessionAgent {
     }
     const offset = rawOffset;
 
-    // Paginate to avoid CF's ~128KB storage.list() result size cap.
-    // Each page fetches 200 entries; we loop until a page returns fewer than 200.
-    // Use generation-prefixed keys so only the current execution's lines are returned
-    // (Issue #102: stale prior-generation keys have a different prefix and are ignored).
-    const allLines: string[] = [];
-    let lastKey: string | undefined;
-    while (true) {
-      const page = await this.state.storage.list<string>({
-        prefix: `buf:${this.bufferGen}:`,
-        limit: 200,
-        ...(lastKey ? { startAfter: lastKey } : {}),
-      });
-      for (const [k, v] of page) {
-        allLines.push(v);
-        lastKey = k;
-      }
-      if (page.size < 200) break;
-    }
-
+    const allLines = await this.readBufferedLines();
     const fromOffset = allLines.slice(offset);
     if (fromOffset.length === 0) {
       return new Response('', {
@@ -762,6 +970,30 @@ export class ChatSessionAgent {
     });
   }
 
+  /**
+   * Read every buffered line of the current generation, in order.
+   * Paginates to avoid CF's ~128KB storage.list() result size cap.
+   * Generation-prefixed keys mean only the current execution's lines are returned
+   * (Issue #102: stale prior-generation keys have a different prefix and are ignored).
+   */
+  private async readBufferedLines(): Promise<string[]> {
+    const lines: string[] = [];
+    let lastKey: string | undefined;
+    while (true) {
+      const page = await this.state.storage.list<string>({
+        prefix: `buf:${this.bufferGen}:`,
+        limit: 200,
+        ...(lastKey ? { startAfter: lastKey } : {}),
+      });
+      for (const [k, v] of page) {
+        lines.push(v);
+        lastKey = k;
+      }
+      if (page.size < 200) break;
+    }
+    return lines;
+  }
+
   /**
    * Accept a WebSocket upgrade from the browser.
    * Generates an executionId, tags the WS with it for hibernation recovery,
@@ -789,6 +1021,44 @@ export class ChatSessionAgent {
     return new Response(null, { status: 101, webSocket: client });
   }
 
+  /**
+   * Accept a watch socket from a viewer. Tagged `viewer` and carrying its
+   * ViewerInfo as the attachment, so presence survives DO hibernation.
+   * A viewer joining mid-run gets the buffered output replayed first.
+   */
+  private async handleWatchUpgrade(url: URL): Promise<Response> {
+    const userId = url.searchParams.get('userId') || '';
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const access = url.searchParams.get('access') as SessionAccess | null;
+    if (!userId || !sessionId || !access) {
+      return new Response('Missing userId, sessionId or access', { status: 400 });
+    }
+    // The queue drains without a browser request, so it needs the sessionId up front
+    await this.state.storage.put('sessionId', sessionId);
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.state.acceptWebSocket(server, ['viewer']);
+    const viewer: ViewerInfo = {
+      userId,
+      email: url.searchParams.get('email') || '',
+      access,
+      typing: false,
+      joinedAt: new Date().toISOString(),
+    };
+    server.serializeAttachment(viewer);
+
+    const send = (frame: WatchFrame) => server.send(JSON.stringify(frame));
+    send({ type: 'queue', items: await this.loadQueue() });
+    const run = await this.activeRun();
+    if (run) {
+      send({ type: 'run', state: 'started', executionId: run.executionId, userId: run.userId });
+      for (const line of await this.readBufferedLines()) send({ type: 'line', line });
+    }
+    this.broadcastPresence();
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
   /**
    * Accept a WebSocket upgrade from the container (real-time NDJSON stream).
    * Token is already validated by the Worker. We extract executionId from the
@@ -826,7 +1096,8 @@ export class ChatSessionAgent {
 
   /**
    * Process a single NDJSON line received from the container via WebSocket.
-   * Stores to replay buffer, translates to UIMessageStream, sends to browser WS.
+   * Masks secrets, stores to replay buffer, translates to UIMessageStream,
+   * sends to browser WS. Callers await ensureRedactor() first.
    */
   private handleContainerWsMessage(
     executionId: string,
@@ -837,6 +1108,12 @@ export class ChatSessionAgent {
       : new TextDecoder().decode(message).trim();
     if (!text) return;
 
+    for (const line of this.redactLine(text)) {
+      this.forwardContainerLine(executionId, line);
+    }
+  }
+
+  private forwardContainerLine(executionId: string, text: string): void {
     this.storeLine(text);
     this.extractMetadata(text);
     this.maybeRegisterApproval(text);
@@ -875,11 +1152,16 @@ export class ChatSessionAgent {
     const tags = this.state.getTags(ws);
     const containerTag = tags.find((t) => t.startsWith('container:'));
     if (containerTag) {
+      await this.ensureRedactor();
       this.handleContainerWsMessage(containerTag.slice(10), message);
       return;
     }
 
     const text = typeof message === 'string' ? message : new TextDecoder().decode(message);
+    if (tags.includes('viewer')) {
+      await this.handleViewerMessage(ws, text);
+      return;
+    }
     let data: Record<string, unknown>;
     try {
       data = JSON.parse(text) as Record<string, unknown>;
@@ -906,6 +1188,13 @@ export class ChatSessionAgent {
     const prompt = String(data.prompt || '');
     if (!prompt) return;
 
+    const activeRun = await this.activeRun();
+    if (activeRun && activeRun.userId !== meta.userId) {
+      ws.send('3:' + JSON.stringify('Another member is driving this session. Queue your prompt instead.') + '\n');
+      ws.close(1000, 'done');
+      return;
+    }
+
     // Persist user message to KV so chat history survives refresh
     const userMsgId = crypto.randomUUID();
     this.env.SESSIONS_KV.put(
@@ -927,6 +1216,18 @@ export class ChatSessionAgent {
       return;
     }
 
+    const requestedModel = data.model as string | undefined;
+    const budget = await this.checkRunBudget(meta.userId, meta.sessionId, requestedModel);
+    if (budget?.action === 'refuse') {
+      ws.send('3:' + JSON.stringify(budget.message) + '\n');
+      ws.close(1000, 'done');
+      return;
+    }
+    if (budget) {
+      const frame = ndjsonToUIStreamFrame(JSON.stringify(budgetEvent(budget)));
+      if (frame !== null) ws.send(frame);
+    }
+
     // Register in-memory bridge so pipeToWsBridge can find the socket immediately
     this.wsBridges.set(executionId, ws);
 
@@ -945,7 +1246,7 @@ export class ChatSessionAgent {
         prompt,
         meta.userId,
         data.mode as string | undefined,
-        data.model as string | undefined,
+        budget?.model ?? requestedModel,
         data.autonomy as string | undefined,
         data.nativeStream === true,
         data.debugStream === true,
@@ -954,9 +1255,267 @@ export class ChatSessionAgent {
       ws.send('3:' + JSON.stringify(String(err instanceof Error ? err.message : err)) + '\n');
       ws.close(1011, 'Dispatch error');
       this.wsBridges.delete(executionId);
+      await this.endRun(executionId);
+    }
+  }
+
+  /* ── Presence & prompt queue ────────────────── */
+
+  /** Send a frame to every open watch socket. */
+  private broadcastWatch(frame: WatchFrame): void {
+    const viewers = this.state.getWebSockets('viewer');
+    if (viewers.length === 0) return;
+    const payload = JSON.stringify(frame);
+    for (const ws of viewers) {
+      try {
+        ws.send(payload);
+      } catch {
+        // Socket is closing — its close handler updates presence
+      }
+    }
+  }
+
+  /** Broadcast who is watching. `closing` is excluded while its close is in flight. */
+  private broadcastPresence(closing?: WebSocket): void {
+    const viewers = this.state.getWebSockets('viewer')
+      .filter((ws) => ws !== closing)
+      .map((ws) => ws.deserializeAttachment() as ViewerInfo | null)
+      .filter((v): v is ViewerInfo => v !== null);
+    this.broadcastWatch({ type: 'presence', viewers: presenceList(viewers) });
+  }
+
+  private async handleViewerMessage(ws: WebSocket, text: string): Promise<void> {
+    const msg = parseViewerMessage(text);
+    const viewer = ws.deserializeAttachment() as ViewerInfo | null;
+    if (!msg || !viewer) return;
+
+    switch (msg.type) {
+      case 'typing': {
+        if (viewer.typing === msg.typing) return;
+        ws.serializeAttachment({ ...viewer, typing: msg.typing });
+        this.broadcastPresence();
+        return;
+      }
+      case 'enqueue': {
+        if (!canDrive(viewer.access)) {
+          ws.send(JSON.stringify({ type: 'error', error: 'View-only access cannot send prompts' } satisfies WatchFrame));
+          return;
+        }
+        const queue = await this.loadQueue();
+        if (queue.length >= MAX_QUEUE_LENGTH) {
+          ws.send(JSON.stringify({ type: 'error', error: `The queue is full (${MAX_QUEUE_LENGTH} prompts)` } satisfies WatchFrame));
+          return;
+        }
+        queue.push({
+          id: crypto.randomUUID(),
+          userId: viewer.userId,
+          email: viewer.email,
+          prompt: msg.prompt,
+          mode: msg.mode,
+          model: msg.model,
+          autonomy: msg.autonomy,
+          queuedAt: new Date().toISOString(),
+        });
+        await this.saveQueue(queue);
+        // Typing stops once the prompt is sent
+        if (viewer.typing) ws.serializeAttachment({ ...viewer, typing: false });
+        this.broadcastPresence();
+        await this.drainQueue();
+        return;
+      }
+      case 'cancel': {
+        const next = removeQueued(await this.loadQueue(), msg.id, viewer);
+        if (next) await this.saveQueue(next);
+        return;
+      }
+    }
+  }
+
+  private async handleEnqueue(request: Request): Promise<Response> {
+    const body = (await request.json()) as Omit<QueuedPrompt, 'id' | 'queuedAt'> & { sessionId: string };
+    const queue = await this.loadQueue();
+    if (queue.length >= MAX_QUEUE_LENGTH) {
+      return new Response(JSON.stringify({ error: `The queue is full (${MAX_QUEUE_LENGTH} prompts)` }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    await this.state.storage.put('sessionId', body.sessionId);
+    queue.push({
+      id: crypto.randomUUID(),
+      userId: body.userId,
+      email: body.email,
+      prompt: body.prompt,
+      mode: body.mode,
+      model: body.model,
+      autonomy: body.autonomy,
+      ...(body.jobRun ? { jobRun: body.jobRun } : {}),
+      ...(body.githubTask ? { githubTask: body.githubTask } : {}),
+      queuedAt: new Date().toISOString(),
+    });
+    await this.saveQueue(queue);
+    this.state.waitUntil(this.drainQueue());
+    return new Response(JSON.stringify({ ok: true, position: queue.length }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private async loadQueue(): Promise<QueuedPrompt[]> {
+    return (await this.state.storage.get<QueuedPrompt[]>('queue')) ?? [];
+  }
+
+  private async saveQueue(queue: QueuedPrompt[]): Promise<void> {
+    await this.state.storage.put('queue', queue);
+    this.broadcastWatch({ type: 'queue', items: queue });
+  }
+
+  /** The in-flight run, if any. Runs with no recorded end past RUN_STALE_MS are ignored. */
+  private async activeRun(): Promise<RunInfo | null> {
+    const run = await this.state.storage.get<RunInfo>('run');
+    if (!run || run.endedAt || !run.startedAt) return null;
+    if (Date.now() - Date.parse(run.startedAt) > RUN_STALE_MS) return null;
+    return run;
+  }
+
+  /**
+   * Mark a run finished, tell viewers, and start the next queued prompt.
+   * Idempotent — every exit path of a run calls it.
+   */
+  private async endRun(executionId: string): Promise<void> {
+    const run = await this.state.storage.get<RunInfo>('run');
+    if (!run || run.executionId !== executionId || run.endedAt) return;
+    await this.state.storage.put('run', { ...run, endedAt: new Date().toISOString() });
+    this.broadcastWatch({ type: 'run', state: 'ended', executionId, userId: run.userId });
+    if (run.jobRun || run.githubTask) this.state.waitUntil(this.reportRunOutcome(run));
+    this.state.waitUntil(this.drainQueue());
+  }
+
+  /**
+   * Report the outcome of a run started by a scheduled job or GitHub trigger.
+   * The buffer still holds the run's stream, so the last `done` event carries
+   * the reply. The agent follows every failure with an `error` then an empty
+   * `done`, so only a `done` with text and no earlier error is a success.
+   */
+  private async reportRunOutcome(run: RunInfo): Promise<void> {
+    let done: Record<string, unknown> | undefined;
+    let error: string | undefined;
+    for (const line of await this.readBufferedLines()) {
+      try {
+        const event = JSON.parse(line) as Record<string, unknown>;
+        if (event.type === 'done') done = event;
+        if (event.type === 'error') error = typeof event.error === 'string' ? event.error : 'The run failed';
+      } catch {
+        // Skip parse errors
+      }
+    }
+    const resultText = typeof done?.fullText === 'string' ? done.fullText : '';
+    const outcome = done && !error && resultText.trim()
+      ? {
+          status: 'succeeded' as const,
+          sessionId: run.sessionId,
+          resultText,
+          costUsd: typeof done.costUsd === 'number' ? done.costUsd : undefined,
+        }
+      : { status: 'failed' as const, sessionId: run.sessionId, error: error ?? 'The run ended without a reply' };
+    if (run.jobRun) await completeJobRun(this.env, run.jobRun, outcome);
+    if (run.githubTask) await completeGithubTask(this.env, run.githubTask, outcome);
+  }
+
+  /**
+   * Dispatch the next queued prompt if the session is idle. Queued runs have
+   * no browser bridge: output reaches viewers through storeLine and the reply
+   * is persisted by persistQueuedReply.
+   */
+  private async drainQueue(): Promise<void> {
+    while (this.httpBridges.size === 0 && this.wsBridges.size === 0 && !(await this.activeRun())) {
+      const queue = await this.loadQueue();
+      const next = queue.shift();
+      if (!next) return;
+      await this.saveQueue(queue);
+
+      const sessionId = await this.state.storage.get<string>('sessionId');
+      if (!sessionId) return;
+
+      const userMsgId = crypto.randomUUID();
+      this.env.SESSIONS_KV.put(
+        `message:${sessionId}:${userMsgId}`,
+        JSON.stringify({
+          id: userMsgId,
+          sessionId,
+          role: 'user',
+          content: next.prompt,
+          timestamp: new Date().toISOString(),
+        }),
+        { expirationTtl: 7 * 24 * 60 * 60 }
+      ).catch(() => {});
+
+      const budget = await this.checkRunBudget(next.userId, sessionId, next.model);
+      if (budget?.action === 'refuse') {
+        this.broadcastWatch({ type: 'error', error: `${next.email}: ${budget.message}` });
+        const refused = { status: 'failed' as const, sessionId, error: budget.message };
+        if (next.jobRun) this.state.waitUntil(completeJobRun(this.env, next.jobRun, refused));
+        if (next.githubTask) this.state.waitUntil(completeGithubTask(this.env, next.githubTask, refused));
+        continue;
+      }
+
+      await this.clearBuffer();
+      const executionId = crypto.randomUUID();
+      await this.state.storage.put(`exec:${executionId}`, sessionId);
+      if (budget) this.storeLine(JSON.stringify(budgetEvent(budget)));
+
+      try {
+        await this.dispatchContainer(
+          executionId,
+          sessionId,
+          next.prompt,
+          next.userId,
+          next.mode,
+          budget?.model ?? next.model,
+          next.autonomy,
+          undefined,
+          undefined,
+          { queued: true, jobRun: next.jobRun, githubTask: next.githubTask },
+        );
+        return;
+      } catch (err) {
+        const message = String(err instanceof Error ? err.message : err);
+        this.broadcastWatch({ type: 'error', error: message });
+        // Report with the real error here — the run may not even be recorded —
+        // and strip the refs so endRun doesn't report it a second time
+        const failed = { status: 'failed' as const, sessionId, error: message };
+        if (next.jobRun) this.state.waitUntil(completeJobRun(this.env, next.jobRun, failed));
+        if (next.githubTask) this.state.waitUntil(completeGithubTask(this.env, next.githubTask, failed));
+        const run = await this.state.storage.get<RunInfo>('run');
+        if (run?.executionId === executionId) {
+          await this.state.storage.put('run', { ...run, jobRun: undefined, githubTask: undefined });
+        }
+        this.state.storage.delete(`exec:${executionId}`).catch(() => {});
+        await this.endRun(executionId);
+        return;
+      }
     }
   }
 
+  /** Persist the assistant reply of a queued run — no browser is there to call /sdk/persist. */
+  private async persistQueuedReply(event: Record<string, unknown>): Promise<void> {
+    const run = await this.state.storage.get<RunInfo>('run');
+    const content = typeof event.fullText === 'string' ? event.fullText : '';
+    if (!run?.queued || !content) return;
+    const msgId = crypto.randomUUID();
+    await this.env.SESSIONS_KV.put(
+      `message:${run.sessionId}:${msgId}`,
+      JSON.stringify({
+        id: msgId,
+        sessionId: run.sessionId,
+        role: 'assistant',
+        content,
+        timestamp: new Date().toISOString(),
+      }),
+      { expirationTtl: 7 * 24 * 60 * 60 }
+    );
+  }
+
   /**
    * Remove a WebSocket entry from wsBridges by socket reference.
    * Safe to call when the socket may be either a browser or container WS.
@@ -1004,6 +1563,12 @@ export class ChatSessionAgent {
       this.wsBridges.delete(executionId);
       this.state.storage.delete(`exec:${executionId}`).catch(() => {});
       this.state.storage.delete(`ws-meta:${executionId}`).catch(() => {});
+      this.state.waitUntil(this.endRun(executionId));
+      return;
+    }
+
+    if (tags.includes('viewer')) {
+      this.broadcastPresence(ws);
       return;
     }
 
@@ -1025,6 +1590,11 @@ export class ChatSessionAgent {
       return;
     }
 
+    if (tags.includes('viewer')) {
+      this.broadcastPresence(ws);
+      return;
+    }
+
     // Browser WS error — clean up bridge reference and storage keys
     this.removeBridgeBySocket(ws);
   }
@@ -1049,11 +1619,111 @@ export class ChatSessionAgent {
       if (event.type === 'session-reset') {
         this.state.storage.put('sdkSessionId', '').catch(() => {});
       }
+      if (event.type === 'done') {
+        this.state.waitUntil(this.recordRunUsage(event));
+        this.state.waitUntil(this.persistQueuedReply(event));
+      }
+      this.trackFileChange(event);
     } catch {
       // Skip parse errors
     }
   }
 
+  /**
+   * Collect paths from file-writing tool calls and, once the run is done,
+   * re-embed just those files. Tool-start is used rather than tool-result
+   * because the SDK does not always surface results for built-in tools;
+   * the content-hash check makes a denied or no-op write free.
+   */
+  private trackFileChange(event: Record<string, unknown>): void {
+    if (event.type === 'tool-start') {
+      const field = FILE_WRITE_TOOLS[String(event.name)];
+      const input = event.input as Record<string, unknown> | undefined;
+      const raw = field && input ? input[field] : undefined;
+      if (typeof raw === 'string' && raw) {
+        this.changedPaths.add(raw.startsWith('/') ? raw : `/workspace/${raw}`);
+      }
+      return;
+    }
+    if (event.type === 'done' && this.changedPaths.size > 0) {
+      const paths = [...this.changedPaths];
+      this.changedPaths.clear();
+      this.state.waitUntil(this.reindexChangedFiles(paths));
+    }
+  }
+
+  /** Incrementally update the session's embeddings index. Non-fatal on failure. */
+  private async reindexChangedFiles(paths: string[]): Promise<void> {
+    try {
+      const [userId, sessionId] = await Promise.all([
+        this.state.storage.get<string>('userId'),
+        this.state.storage.get<string>('sessionId'),
+      ]);
+      if (!userId || !sessionId) return;
+
+      const session = await this.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+      if (!session?.sandboxId) return;
+
+      const creds = await getProviderCredentials(this.env, userId);
+      const embeddingModel = createEmbeddingModel(creds);
+      if (!embeddingModel) return;
+
+      const sandboxManager = new SandboxManager(
+        this.env.Sandbox,
+        this.env.SESSIONS_KV,
+        this.env.FILES_BUCKET
+      );
+      const index = await reindexEmbeddingsPaths(
+        sandboxManager,
+        sessionId,
+        userId,
+        embeddingModel,
+        this.env.SESSIONS_KV,
+        vectorStoreFactory(this.env),
+        paths
+      );
+      console.log(`[ChatSessionAgent] re-indexed ${paths.length} changed path(s), ${index?.fileCount ?? 0} files in index`);
+    } catch (err) {
+      console.warn('[ChatSessionAgent] incremental re-index failed (non-fatal):', err);
+    }
+  }
+
+  /** Check a new run against the user's budget policy. Lookup failures never block a run. */
+  private async checkRunBudget(
+    userId: string,
+    sessionId: string,
+    model?: string
+  ): Promise<BudgetVerdict | null> {
+    try {
+      return await checkBudget(this.env.SESSIONS_KV, this.env.AUTH_KV, userId, sessionId, model);
+    } catch (err) {
+      console.warn('[ChatSessionAgent] budget check failed (non-fatal):', err);
+      return null;
+    }
+  }
+
+  /** Append the finished run's tokens and cost to the usage ledger. Non-fatal. */
+  private async recordRunUsage(event: Record<string, unknown>): Promise<void> {
+    try {
+      const run = await this.state.storage.get<RunInfo>('run');
+      if (!run?.userId) return;
+
+      const entry = usageFromDoneEvent(event, {
+        promptId: run.executionId,
+        userId: run.userId,
+        sessionId: run.sessionId,
+        model: run.model,
+        gitRepo: run.gitRepo,
+      });
+      if (!entry) return;
+      await recordUsage(this.env.AUTH_KV, entry);
+      // Queued, scheduled and webhook runs have no browser to persist them — alert from here
+      await checkUsageAlerts(this.env, this.state, run.userId, run.sessionId);
+    } catch (err) {
+      console.warn('[ChatSessionAgent] usage ledger write or alert check failed (non-fatal):', err);
+    }
+  }
+
   /** Registers a pending approval promise when a confirmation chunk flows through the stream. */
   private maybeRegisterApproval(line: string): void {
     try {
@@ -1132,6 +1802,7 @@ export class ChatSessionAgent {
 
       const logStream = await sandbox.streamProcessLogs(processId);
       console.error(`[native-stream] got logStream for processId=${processId}`);
+      await this.ensureRedactor();
 
       // Debug: send confirmation that streamProcessLogs connected
       if (debugWs) {
@@ -1195,6 +1866,9 @@ export class ChatSessionAgent {
 
   /** Emit an error to the active bridge (HTTP or WS) and clean up. */
   private emitBridgeError(executionId: string, errMsg: string): void {
+    this.broadcastWatch({ type: 'line', line: JSON.stringify({ type: 'error', error: errMsg }) });
+    this.state.waitUntil(this.endRun(executionId));
+
     const httpBridge = this.httpBridges.get(executionId);
     if (httpBridge) {
       const line = JSON.stringify({ type: 'error', error: errMsg }) + '\n';
@@ -1233,10 +1907,14 @@ export class ChatSessionAgent {
     autonomy?: string,
     nativeStream?: boolean,
     debugStream?: boolean,
+    origin: RunOrigin = {},
   ): Promise<void> {
     const sid = sessionId.slice(0, 8);
     console.log(`[ChatSessionAgent] dispatchContainer: sid=${sid} exec=${executionId.slice(0, 8)}`);
 
+    // Persisted for post-run work (embeddings re-index) — stream callbacks don't carry it
+    this.state.storage.put('sessionId', sessionId).catch(() => {});
+
     const sdkSessionId =
       (await this.state.storage.get<string>('sdkSessionId')) || '';
     const storedBuild =
@@ -1259,6 +1937,20 @@ export class ChatSessionAgent {
     }
     console.log(`[ChatSessionAgent] session found: sandboxId=${session.sandboxId.slice(0, 8)} status=${session.status}`);
 
+    const run: RunInfo = {
+      executionId,
+      userId,
+      sessionId,
+      ...(model ? { model: MODEL_ALIASES[model] || model } : {}),
+      ...(session.gitRepo ? { gitRepo: session.gitRepo } : {}),
+      startedAt: new Date().toISOString(),
+      ...(origin.queued ? { queued: true } : {}),
+      ...(origin.jobRun ? { jobRun: origin.jobRun } : {}),
+      ...(origin.githubTask ? { githubTask: origin.githubTask } : {}),
+    };
+    this.state.storage.put('run', run).catch(() => {});
+    this.broadcastWatch({ type: 'run', state: 'started', executionId, userId });
+
     // Get sandbox reference (returns immediately — no container wake yet)
     const sandbox = getSandbox(
       this.env.Sandbox,
@@ -1283,12 +1975,26 @@ export class ChatSessionAgent {
 
     // Collect env vars + config in parallel (all KV reads)
     const projectSecrets = collectProjectSecrets(this.env);
-    const [sandboxConfig, userSecrets, userRecord, githubTokenEnv] = await Promise.all([
-      assembleSandboxConfig(this.env.SESSIONS_KV, userId),
-      collectUserSecrets(this.env.SESSIONS_KV, userId),
+    const [sandboxConfig, scopedSecrets, userRecord, githubTokenEnv] = await Promise.all([
+      assembleSandboxConfig(this.env, userId, { gitRepo: session.gitRepo }),
+      readScopedUserSecrets(this.env, userId),
       this.env.AUTH_KV.get<{ claudeToken?: string }>(`user:${userId}`, 'json'),
       collectGithubToken(this.env.AUTH_KV, userId, this.env),
+      // The proxy table below is this user's, so relay lookups must be too
+      recordRelayUser(this.env.SESSIONS_KV, sessionId, userId),
     ]);
+    const userSecrets = filterUserSecrets(scopedSecrets, sessionSecretSelection(session));
+    // Mask every stored secret in output, not just the ones this session received
+    this.redactor = createRedactor({ ...scopedSecrets.secrets, ...githubTokenEnv });
+    this.runRedacted.clear();
+    this.deltaHeld = '';
+    void recordSecretAudit(this.env.SESSIONS_KV, {
+      userId,
+      sessionId,
+      kind: 'injected',
+      source: 'agent',
+      names: [...Object.keys(githubTokenEnv), ...Object.keys(userSecrets)],
+    });
     const oauthToken = userRecord?.claudeToken || '';
     if (!oauthToken) {
       throw new Error('No Claude token found — please re-authenticate');
@@ -1302,7 +2008,7 @@ export class ChatSessionAgent {
     // which Claude CLI does not read for HTTP MCP server auth.
     const oauthTokensByName = new Map<string, string>();
     try {
-      const allTokens = await readAllOAuthTokens(this.env.SESSIONS_KV, userId);
+      const allTokens = await readAllOAuthTokens(this.env, userId);
       if (allTokens.length > 0) {
         await Promise.all(
           allTokens.map(async (t) => {
@@ -1312,7 +2018,7 @@ export class ChatSessionAgent {
               return;
             }
             if (updated !== t) {
-              await writeOAuthTokens(this.env.SESSIONS_KV, userId, t.serverName, updated);
+              await writeOAuthTokens(this.env, userId, t.serverName, updated);
             }
             oauthTokensByName.set(t.serverName, updated.accessToken);
           })
@@ -1431,6 +2137,7 @@ export class ChatSessionAgent {
           ...(mcpConfigStr ? { CLAUDE_MCP_SERVERS: mcpConfigStr } : {}),
           VF_AUTO_CONTEXT: sandboxConfig.autoContext === false ? '0' : '1',
           ...(sandboxConfig.maxBudgetUsd ? { VF_MAX_BUDGET_USD: String(sandboxConfig.maxBudgetUsd) } : {}),
+          ...toolPolicyEnv(sandboxConfig),
         },
       }
     );
@@ -1591,6 +2298,12 @@ export class ChatSessionAgent {
     if (Object.keys(mergedMcp).length > 0) {
       await sandbox.writeFile('/root/.claude.json', JSON.stringify({ mcpServers: mergedMcp }, null, 2));
     }
+    // Proxy routing table (relay, rate-limited and on-demand servers). The proxy
+    // process doesn't survive a container sleep, and a second start is a no-op.
+    if (config.startRelayProxy) {
+      await sandbox.writeFile(MCP_PROXY_CONFIG_PATH, JSON.stringify(config.mcpProxy ?? {}));
+      await sandbox.exec(MCP_PROXY_START_CMD, { timeout: 5000 });
+    }
     if (config.credentialFiles?.length) {
       for (const cred of config.credentialFiles) {
         // Validate path to prevent directory traversal attacks.
@@ -1625,6 +2338,17 @@ export class ChatSessionAgent {
   }
 }
 
+/** The parsed event when an NDJSON line is a `text-delta`, else null. */
+function parseTextDelta(line: string): Record<string, unknown> | null {
+  if (!line.includes('"text-delta"')) return null;
+  try {
+    const event = JSON.parse(line) as Record<string, unknown>;
+    return event.type === 'text-delta' && typeof event.text === 'string' ? event : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Translate a container NDJSON line to the AI SDK UIMessageStream wire format.
  *
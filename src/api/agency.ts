@@ -560,7 +560,7 @@ agencyRoutes.post('/sites/:id/debug', async (c) => {
     context?: string;
   };
 
-  const creds = await getProviderCredentials(c.env.SESSIONS_KV, user.id);
+  const creds = await getProviderCredentials(c.env, user.id);
   const provider = creds.claude ? 'claude' : creds.gemini ? 'gemini' : null;
 
   if (!provider) {
@@ -657,7 +657,7 @@ agencyRoutes.post('/sites/:id/inline-ai', async (c) => {
     return c.json({ success: false, error: 'Site not found' }, 404);
   }
 
-  const creds = await getProviderCredentials(c.env.SESSIONS_KV, user.id);
+  const creds = await getProviderCredentials(c.env, user.id);
 
   let aiModel;
   try {
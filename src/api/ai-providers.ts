@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { User, ApiResponse, AIProviderConfig } from '../types';
+import { userSecretNames } from '../services/user-secrets';
 
 type Variables = {
   user: User;
@@ -205,15 +206,7 @@ export async function isClaudeAiSdkAvailable(
   const config = await readConfig(kv, userId);
   if (!config.claude?.enabled) return false;
 
-  const secretsRaw = await kv.get(`user-secrets:${userId}`);
-  if (!secretsRaw) return false;
-
-  try {
-    const secrets = JSON.parse(secretsRaw);
-    return !!secrets.ANTHROPIC_API_KEY;
-  } catch {
-    return false;
-  }
+  return (await userSecretNames(kv, userId)).includes('ANTHROPIC_API_KEY');
 }
 
 /**
@@ -227,16 +220,8 @@ export async function collectGeminiMcpConfig(
   const config = await readConfig(kv, userId);
   if (!config.gemini?.enabled) return null;
 
-  // Check if GEMINI_API_KEY exists in user secrets
-  const secretsRaw = await kv.get(`user-secrets:${userId}`);
-  if (!secretsRaw) return null;
-
-  try {
-    const secrets = JSON.parse(secretsRaw);
-    if (!secrets.GEMINI_API_KEY) return null;
-  } catch {
-    return null;
-  }
+  // Check if GEMINI_API_KEY exists in user secrets (names are readable without decrypting)
+  if (!(await userSecretNames(kv, userId)).includes('GEMINI_API_KEY')) return null;
 
   return {
     gemini: {
@@ -1,6 +1,24 @@
 import { Hono } from 'hono';
 import Stripe from 'stripe';
 import type { User } from '../types';
+import {
+  MAX_RANGE_DAYS,
+  listUsage,
+  summarizeUsage,
+  type SpendWindow,
+  type UsageGroupBy,
+  type UsageReport,
+} from '../services/usage-ledger';
+import { SPEND_WINDOWS, getMaxBudgetUsd } from '../services/budget';
+import {
+  deliverAlert,
+  generateWebhookSecret,
+  listDeliveries,
+  retryDelivery,
+  validateDelivery,
+  type AlertChannel,
+  type AlertDeliveryConfig,
+} from '../services/alert-delivery';
 
 type Variables = { user: User };
 
@@ -155,8 +173,12 @@ export interface AlertConfig {
   id: string;
   label: string;
   thresholdPct: number; // 0-100
+  /** Spend period the threshold is measured over — absent on older alerts (= session) */
+  window?: SpendWindow;
   enabled: boolean;
-  channels: Array<'in-app'>;
+  channels: AlertChannel[];
+  /** Webhook/email targets — required for each external channel in `channels` */
+  delivery?: AlertDeliveryConfig;
   triggeredAt: string | null;
   triggeredCount: number;
   createdAt: string;
@@ -180,6 +202,39 @@ async function saveAlerts(kv: KVNamespace, userId: string, alerts: AlertConfig[]
   await kv.put(alertsKey(userId), JSON.stringify(alerts));
 }
 
+interface DeliveryBody {
+  channels?: AlertChannel[];
+  webhookUrl?: string;
+  emailTo?: string[];
+}
+
+/**
+ * Build the delivery config for a create/update body. An existing webhook
+ * keeps its signing secret while the URL is unchanged, so receivers don't
+ * need reconfiguring on every edit.
+ */
+function buildDelivery(body: DeliveryBody, channels: AlertChannel[], previous?: AlertDeliveryConfig): AlertDeliveryConfig {
+  const delivery: AlertDeliveryConfig = {};
+  if (channels.includes('webhook') && body.webhookUrl) {
+    const url = body.webhookUrl.trim();
+    delivery.webhook = {
+      url,
+      secret: previous?.webhook?.url === url ? previous.webhook.secret : generateWebhookSecret(),
+    };
+  }
+  if (channels.includes('email') && body.emailTo) {
+    delivery.email = { to: body.emailTo.map((addr) => addr.trim()).filter(Boolean) };
+  }
+  return delivery;
+}
+
+function deliveryError(body: DeliveryBody, channels: AlertChannel[]): string | null {
+  return validateDelivery(channels, {
+    webhookUrl: body.webhookUrl?.trim(),
+    emailTo: body.emailTo?.map((addr) => addr.trim()).filter(Boolean),
+  });
+}
+
 // GET /api/billing/alerts
 billingRoutes.get('/alerts', async (c) => {
   const user = c.get('user');
@@ -190,19 +245,31 @@ billingRoutes.get('/alerts', async (c) => {
 // POST /api/billing/alerts
 billingRoutes.post('/alerts', async (c) => {
   const user = c.get('user');
-  const body = await c.req.json<{ label?: string; thresholdPct: number; channels?: Array<'in-app'> }>();
+  const body = await c.req.json<{
+    label?: string;
+    thresholdPct: number;
+    window?: SpendWindow;
+  } & DeliveryBody>();
 
   if (typeof body.thresholdPct !== 'number' || body.thresholdPct < 1 || body.thresholdPct > 99) {
     return c.json({ success: false, error: 'thresholdPct must be between 1 and 99' }, 400);
   }
+  if (body.window !== undefined && !SPEND_WINDOWS.includes(body.window)) {
+    return c.json({ success: false, error: `window must be one of ${SPEND_WINDOWS.join(', ')}` }, 400);
+  }
+  const channels = body.channels ?? ['in-app'];
+  const invalid = deliveryError(body, channels);
+  if (invalid) return c.json({ success: false, error: invalid }, 400);
 
   const alerts = await getAlerts(c.env.AUTH_KV, user.id);
   const newAlert: AlertConfig = {
     id: crypto.randomUUID(),
     label: body.label?.trim() || `Alert at ${body.thresholdPct}%`,
     thresholdPct: body.thresholdPct,
+    window: body.window ?? 'session',
     enabled: true,
-    channels: body.channels ?? ['in-app'],
+    channels,
+    delivery: buildDelivery(body, channels),
     triggeredAt: null,
     triggeredCount: 0,
     createdAt: new Date().toISOString(),
@@ -226,6 +293,70 @@ billingRoutes.patch('/alerts/:id/toggle', async (c) => {
   return c.json({ success: true, data: { alert: alerts[idx] } });
 });
 
+// PUT /api/billing/alerts/:id/delivery — replace channels and their targets
+billingRoutes.put('/alerts/:id/delivery', async (c) => {
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const body = await c.req.json<DeliveryBody>();
+  const alerts = await getAlerts(c.env.AUTH_KV, user.id);
+  const idx = alerts.findIndex((a) => a.id === id);
+  if (idx === -1) return c.json({ success: false, error: 'Alert not found' }, 404);
+
+  const channels = body.channels ?? alerts[idx].channels;
+  const invalid = deliveryError(body, channels);
+  if (invalid) return c.json({ success: false, error: invalid }, 400);
+
+  alerts[idx] = { ...alerts[idx], channels, delivery: buildDelivery(body, channels, alerts[idx].delivery) };
+  await saveAlerts(c.env.AUTH_KV, user.id, alerts);
+  return c.json({ success: true, data: { alert: alerts[idx] } });
+});
+
+// POST /api/billing/alerts/:id/test — send a sample notice to the alert's external channels
+billingRoutes.post('/alerts/:id/test', async (c) => {
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const alert = (await getAlerts(c.env.AUTH_KV, user.id)).find((a) => a.id === id);
+  if (!alert) return c.json({ success: false, error: 'Alert not found' }, 404);
+  if (!alert.channels.some((ch) => ch !== 'in-app')) {
+    return c.json({ success: false, error: 'Alert has no webhook or email channel' }, 400);
+  }
+
+  // Sample figures at the threshold; $10 stands in when no budget is set
+  const capUsd = (await getMaxBudgetUsd(c.env.SESSIONS_KV, user.id)) ?? 10;
+  const deliveries = await deliverAlert(c.env, user.id, alert.channels, alert.delivery ?? {}, {
+    alertId: alert.id,
+    label: alert.label,
+    thresholdPct: alert.thresholdPct,
+    window: alert.window ?? 'session',
+    spentUsd: (capUsd * alert.thresholdPct) / 100,
+    capUsd,
+    firedAt: new Date().toISOString(),
+    test: true,
+  });
+  return c.json({ success: true, data: { deliveries } });
+});
+
+// GET /api/billing/alerts/deliveries — recent webhook/email attempts, newest first
+billingRoutes.get('/alerts/deliveries', async (c) => {
+  const user = c.get('user');
+  const deliveries = await listDeliveries(c.env.AUTH_KV, user.id);
+  return c.json({ success: true, data: { deliveries } });
+});
+
+// POST /api/billing/alerts/deliveries/:id/retry
+billingRoutes.post('/alerts/deliveries/:id/retry', async (c) => {
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const record = (await listDeliveries(c.env.AUTH_KV, user.id)).find((d) => d.id === id);
+  if (!record) return c.json({ success: false, error: 'Delivery not found' }, 404);
+
+  const alert = (await getAlerts(c.env.AUTH_KV, user.id)).find((a) => a.id === record.alertId);
+  if (!alert) return c.json({ success: false, error: 'Alert no longer exists' }, 404);
+
+  const delivery = await retryDelivery(c.env, user.id, record, alert.delivery ?? {});
+  return c.json({ success: true, data: { delivery } });
+});
+
 // DELETE /api/billing/alerts/:id
 billingRoutes.delete('/alerts/:id', async (c) => {
   const user = c.get('user');
@@ -239,6 +370,56 @@ billingRoutes.delete('/alerts/:id', async (c) => {
   return c.json({ success: true });
 });
 
+// ─── Usage Ledger ────────────────────────────────────────────────────────────
+
+const GROUP_BY: UsageGroupBy[] = ['model', 'session', 'day', 'repo'];
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Parse a `from`/`to` query value. A bare date for `to` means the end of that day. */
+function parseRangeBound(value: string, endOfDay: boolean): Date | null {
+  const iso = DATE_ONLY.test(value)
+    ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`
+    : value;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/billing/usage?from=&to=&groupBy=model|session|day|repo
+billingRoutes.get('/usage', async (c) => {
+  const user = c.get('user');
+  const groupBy = (c.req.query('groupBy') || 'day') as UsageGroupBy;
+  if (!GROUP_BY.includes(groupBy)) {
+    return c.json({ success: false, error: `groupBy must be one of ${GROUP_BY.join(', ')}` }, 400);
+  }
+
+  // Default window: start of the current month (UTC) until now
+  const now = new Date();
+  const fromRaw = c.req.query('from');
+  const toRaw = c.req.query('to');
+  const from = fromRaw
+    ? parseRangeBound(fromRaw, false)
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const to = toRaw ? parseRangeBound(toRaw, true) : now;
+  if (!from || !to) {
+    return c.json({ success: false, error: 'from and to must be ISO dates' }, 400);
+  }
+  if (from > to) {
+    return c.json({ success: false, error: 'from must be before to' }, 400);
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return c.json({ success: false, error: `Range may span at most ${MAX_RANGE_DAYS} days` }, 400);
+  }
+
+  const entries = await listUsage(c.env.AUTH_KV, user.id, from, to);
+  const report: UsageReport = {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    groupBy,
+    ...summarizeUsage(entries, groupBy),
+  };
+  return c.json({ success: true, data: report });
+});
+
 // Public webhook handler — registered directly on app (no JWT auth)
 export async function handleBillingWebhook(c: { req: Request; env: Env }) {
   const stripe = getStripe(c.env);
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { User, Message, ApiResponse, Session } from '../types';
+import { canAccessSession } from '../services/orgs';
 
 type Variables = {
   user: User;
@@ -38,7 +39,7 @@ chatRoutes.post('/send', async (c) => {
 
   // Verify session belongs to user
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -117,7 +118,7 @@ chatRoutes.get('/history/:sessionId', async (c) => {
 
   // Verify session belongs to user via direct KV read (no sandbox wake needed)
   const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -186,7 +187,7 @@ chatRoutes.post('/stream', async (c) => {
 
   // Verify session belongs to user
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import type { User, Session } from '../types';
+import type { SandboxManager } from '../sandbox';
+import { checkpointsRoutes, type Checkpoint } from './checkpoints';
+import { memoryKv } from '../test-utils/memory-kv';
+
+const user = { id: 'u1', email: 'u1@example.com' } as User;
+const session = { id: 's1', userId: 'u1', sandboxId: 'sb1', status: 'active' } as Session;
+
+function checkpoint(id: string): Checkpoint {
+  return { id, name: id, sessionId: 's1', timestamp: '2026-03-10T12:00:00Z', summary: '', snapshotCommit: 'a'.repeat(40) };
+}
+
+function app(sandboxManager: Partial<SandboxManager>) {
+  const root = new Hono<{ Bindings: Env; Variables: { user: User; sandboxManager: SandboxManager } }>();
+  root.use('*', async (c, next) => {
+    c.set('user', user);
+    c.set('sandboxManager', sandboxManager as SandboxManager);
+    await next();
+  });
+  root.route('/', checkpointsRoutes);
+  return root;
+}
+
+describe('DELETE /:id', () => {
+  it('drops the snapshot ref and transcript along with the record', async () => {
+    const store = new Map([['session-checkpoints:u1', JSON.stringify([checkpoint('cp-1'), checkpoint('cp-2')])]]);
+    const env = { SESSIONS_KV: memoryKv(store), AUTH_KV: memoryKv() } as unknown as Env;
+    const deleteCheckpoint = vi.fn(async () => true);
+    const res = await app({ getOrWakeSandbox: async () => session, deleteCheckpoint }).request('/cp-1', { method: 'DELETE' }, env);
+
+    expect(res.status).toBe(200);
+    expect(deleteCheckpoint).toHaveBeenCalledWith('sb1', 'cp-1');
+    expect(JSON.parse(store.get('session-checkpoints:u1')!).map((cp: Checkpoint) => cp.id)).toEqual(['cp-2']);
+  });
+
+  it('keeps the record when the snapshot could not be deleted', async () => {
+    const store = new Map([['session-checkpoints:u1', JSON.stringify([checkpoint('cp-1')])]]);
+    const env = { SESSIONS_KV: memoryKv(store), AUTH_KV: memoryKv() } as unknown as Env;
+    const res = await app({ getOrWakeSandbox: async () => session, deleteCheckpoint: async () => false })
+      .request('/cp-1', { method: 'DELETE' }, env);
+
+    expect(res.status).toBe(500);
+    expect(JSON.parse(store.get('session-checkpoints:u1')!)).toHaveLength(1);
+  });
+});
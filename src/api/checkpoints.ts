@@ -1,5 +1,8 @@
 import { Hono } from 'hono';
-import type { User, ApiResponse } from '../types';
+import type { User, ApiResponse, Session, Message } from '../types';
+import type { SandboxManager } from '../sandbox';
+import { assembleSandboxConfig } from '../config-assembly';
+import { canAccessSession } from '../services/orgs';
 
 export interface Checkpoint {
   id: string;
@@ -7,15 +10,32 @@ export interface Checkpoint {
   sessionId: string;
   timestamp: string;
   summary: string;
+  /** Shadow-repo commit holding the /workspace snapshot (absent on legacy note-only checkpoints) */
+  snapshotCommit?: string;
+  /** HEAD of the workspace git repo when the snapshot was taken */
+  gitHead?: string;
+  /** Claude SDK session ID at snapshot time — restored so the conversation rewinds too */
+  sdkSessionId?: string;
 }
 
-type Variables = { user: User };
+export interface CheckpointDiff {
+  from: string;
+  /** Checkpoint ID, or 'live' for the current workspace */
+  to: string;
+  diff: string;
+  truncated: boolean;
+}
+
+type Variables = { user: User; sandboxManager: SandboxManager };
 
 export const checkpointsRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 const MAX_CHECKPOINTS = 20;
 const MAX_NAME_LENGTH = 80;
 const KV_KEY = (userId: string) => `session-checkpoints:${userId}`;
+/** Diff target meaning "the current /workspace" rather than a checkpoint */
+const LIVE_TREE = 'live';
+const MAX_DIFF_CHARS = 1_000_000;
 
 async function getCheckpoints(kv: KVNamespace, userId: string): Promise<Checkpoint[]> {
   const raw = await kv.get(KV_KEY(userId));
@@ -27,6 +47,71 @@ async function getCheckpoints(kv: KVNamespace, userId: string): Promise<Checkpoi
   }
 }
 
+function chatSessionStub(env: Env, sessionId: string): DurableObjectStub {
+  return env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(sessionId));
+}
+
+/**
+ * Read the live sdkSessionId. The ChatSessionAgent DO is authoritative for
+ * V1.5 sessions; the KV session record covers the legacy SDK stream path.
+ */
+async function readSdkSessionId(env: Env, session: Session): Promise<string> {
+  try {
+    const res = await chatSessionStub(env, session.id).fetch(
+      new Request('https://do/sdk-session')
+    );
+    if (res.ok) {
+      const body = (await res.json()) as { sdkSessionId?: string };
+      if (body.sdkSessionId) return body.sdkSessionId;
+    }
+  } catch (err) {
+    console.warn('[checkpoints] DO sdkSessionId read failed (non-fatal):', err);
+  }
+  return session.sdkSessionId || '';
+}
+
+/** Point both the DO and the KV session record at the given sdkSessionId. */
+async function writeSdkSessionId(
+  env: Env,
+  session: Session,
+  sdkSessionId: string
+): Promise<void> {
+  await chatSessionStub(env, session.id).fetch(
+    new Request('https://do/sdk-session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sdkSessionId }),
+    })
+  );
+  await env.SESSIONS_KV.put(
+    `session:${session.id}`,
+    JSON.stringify({ ...session, sdkSessionId: sdkSessionId || undefined })
+  );
+}
+
+/** Delete chat history entries written after the checkpoint. Returns count removed. */
+async function pruneMessagesAfter(
+  kv: KVNamespace,
+  sessionId: string,
+  timestamp: string
+): Promise<number> {
+  const cutoff = new Date(timestamp).getTime();
+  let removed = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: `message:${sessionId}:`, ...(cursor ? { cursor } : {}) });
+    for (const key of page.keys) {
+      const msg = await kv.get<Message>(key.name, 'json');
+      if (msg && new Date(msg.timestamp).getTime() > cutoff) {
+        await kv.delete(key.name);
+        removed++;
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return removed;
+}
+
 // GET /api/checkpoints — return last 10, newest first
 checkpointsRoutes.get('/', async (c) => {
   const user = c.get('user');
@@ -35,9 +120,10 @@ checkpointsRoutes.get('/', async (c) => {
   return c.json<ApiResponse<Checkpoint[]>>({ success: true, data: recent });
 });
 
-// POST /api/checkpoints — save a new checkpoint
+// POST /api/checkpoints — snapshot the workspace and save a new checkpoint
 checkpointsRoutes.post('/', async (c) => {
   const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
   const body = await c.req.json<{ name: string; sessionId: string; summary?: string }>();
 
   const name = typeof body.name === 'string' ? body.name.trim() : '';
@@ -56,12 +142,37 @@ checkpointsRoutes.post('/', async (c) => {
     );
   }
 
+  const session = await sandboxManager.getOrWakeSandbox(sessionId);
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Session not found' }, 404);
+  }
+  if (!session.sandboxId) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Sandbox not active' }, 400);
+  }
+
+  const id = crypto.randomUUID();
+  const sdkSessionId = await readSdkSessionId(c.env, session);
+  const snapshot = await sandboxManager.snapshotWorkspace(
+    session.sandboxId,
+    id,
+    sdkSessionId || undefined
+  );
+  if (!snapshot) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Failed to snapshot workspace' },
+      500,
+    );
+  }
+
   const checkpoint: Checkpoint = {
-    id: crypto.randomUUID(),
+    id,
     name,
     sessionId,
     timestamp: new Date().toISOString(),
     summary: typeof body.summary === 'string' ? body.summary.trim() : '',
+    snapshotCommit: snapshot.commit,
+    ...(snapshot.gitHead ? { gitHead: snapshot.gitHead } : {}),
+    ...(sdkSessionId ? { sdkSessionId } : {}),
   };
 
   const existing = await getCheckpoints(c.env.SESSIONS_KV, user.id);
@@ -76,14 +187,138 @@ checkpointsRoutes.post('/', async (c) => {
   return c.json<ApiResponse<Checkpoint>>({ success: true, data: checkpoint });
 });
 
-// DELETE /api/checkpoints/:id — remove a checkpoint
+// POST /api/checkpoints/:id/restore — roll workspace files and conversation back
+checkpointsRoutes.post('/:id/restore', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
+  const id = c.req.param('id');
+
+  const existing = await getCheckpoints(c.env.SESSIONS_KV, user.id);
+  const checkpoint = existing.find((cp) => cp.id === id);
+  if (!checkpoint) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Checkpoint not found' }, 404);
+  }
+  if (!checkpoint.snapshotCommit) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Checkpoint has no workspace snapshot' },
+      400,
+    );
+  }
+
+  // Pass config so a recycled container gets its config (and stamp) back
+  // before the restore — otherwise the next chat would drop sdkSessionId.
+  const sandboxConfig = await assembleSandboxConfig(c.env, user.id, { sessionId: checkpoint.sessionId });
+  const session = await sandboxManager.getOrWakeSandbox(checkpoint.sessionId, sandboxConfig);
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Session not found' }, 404);
+  }
+  if (!session.sandboxId) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Sandbox not active' }, 400);
+  }
+
+  const restored = await sandboxManager.restoreWorkspace(session.sandboxId, checkpoint.id, {
+    gitHead: checkpoint.gitHead,
+    sdkSessionId: checkpoint.sdkSessionId,
+  });
+  if (!restored) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Failed to restore workspace snapshot' },
+      500,
+    );
+  }
+
+  await writeSdkSessionId(c.env, session, checkpoint.sdkSessionId || '');
+  const removedMessages = await pruneMessagesAfter(
+    c.env.SESSIONS_KV,
+    session.id,
+    checkpoint.timestamp
+  );
+
+  return c.json<ApiResponse<{ checkpoint: Checkpoint; removedMessages: number }>>({
+    success: true,
+    data: { checkpoint, removedMessages },
+  });
+});
+
+// GET /api/checkpoints/:a/diff/:b — unified diff from checkpoint a to checkpoint b.
+// Pass `live` as b to compare against the current workspace.
+checkpointsRoutes.get('/:a/diff/:b', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
+  const fromId = c.req.param('a');
+  const toId = c.req.param('b');
+
+  const existing = await getCheckpoints(c.env.SESSIONS_KV, user.id);
+  const from = existing.find((cp) => cp.id === fromId);
+  const to = toId === LIVE_TREE ? undefined : existing.find((cp) => cp.id === toId);
+  if (!from || (toId !== LIVE_TREE && !to)) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Checkpoint not found' }, 404);
+  }
+  if (!from.snapshotCommit || (to && !to.snapshotCommit)) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Checkpoint has no workspace snapshot' },
+      400,
+    );
+  }
+  if (to && to.sessionId !== from.sessionId) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Checkpoints belong to different sessions' },
+      400,
+    );
+  }
+
+  const session = await sandboxManager.getOrWakeSandbox(from.sessionId);
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Session not found' }, 404);
+  }
+  if (!session.sandboxId) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Sandbox not active' }, 400);
+  }
+
+  const diff = await sandboxManager.diffCheckpoints(session.sandboxId, from.id, to?.id);
+  if (diff === null) {
+    return c.json<ApiResponse<never>>(
+      { success: false, error: 'Failed to diff checkpoints' },
+      500,
+    );
+  }
+
+  const truncated = diff.length > MAX_DIFF_CHARS;
+  return c.json<ApiResponse<CheckpointDiff>>({
+    success: true,
+    data: {
+      from: from.id,
+      to: to ? to.id : LIVE_TREE,
+      diff: truncated ? diff.slice(0, MAX_DIFF_CHARS) : diff,
+      truncated,
+    },
+  });
+});
+
+// DELETE /api/checkpoints/:id — remove a checkpoint and its snapshot in the shadow repo
 checkpointsRoutes.delete('/:id', async (c) => {
   const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
   const id = c.req.param('id');
 
   const existing = await getCheckpoints(c.env.SESSIONS_KV, user.id);
-  const filtered = existing.filter((cp) => cp.id !== id);
+  const checkpoint = existing.find((cp) => cp.id === id);
+
+  // A terminated session has no sandbox left to clean — only the record remains
+  if (checkpoint?.snapshotCommit) {
+    const session = await sandboxManager.getOrWakeSandbox(checkpoint.sessionId);
+    if (session?.sandboxId && (await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+      const deleted = await sandboxManager.deleteCheckpoint(session.sandboxId, checkpoint.id);
+      if (!deleted) {
+        return c.json<ApiResponse<never>>(
+          { success: false, error: 'Failed to delete workspace snapshot' },
+          500,
+        );
+      }
+    }
+  }
 
+  const filtered = existing.filter((cp) => cp.id !== id);
   await c.env.SESSIONS_KV.put(KV_KEY(user.id), JSON.stringify(filtered));
   return c.json<ApiResponse<{ id: string }>>({ success: true, data: { id } });
 });
@@ -1,12 +1,12 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
-import type { User, ApiResponse } from '../types';
+import type { User, ApiResponse, Session } from '../types';
 import type { SandboxManager } from '../sandbox';
 import {
   getProviderCredentials,
   createEmbeddingModel,
 } from '../services/ai-provider-factory';
-import { assertSessionOwnership } from '../utils/assert-session-ownership';
+import { canAccessSession } from '../services/orgs';
 import {
   buildEmbeddingsIndex,
   searchEmbeddings as searchEmbeddingsService,
@@ -14,6 +14,8 @@ import {
   type EmbeddingsIndex,
   type SemanticSearchResult,
 } from '../services/embeddings';
+import { hybridSearch, type HybridSearchResult } from '../services/code-search';
+import { vectorStoreFactory } from '../services/vector-store';
 
 type Variables = {
   user: User;
@@ -46,16 +48,14 @@ embeddingsRoutes.post('/index', async (c) => {
 
   const { sessionId } = parsed.data;
 
-  // Verify session ownership before indexing
-  try {
-    await assertSessionOwnership(c.env.SESSIONS_KV, sessionId, user.id);
-  } catch (err) {
-    if (err instanceof Response) return err;
-    throw err;
+  // Verify session access before indexing — it runs commands in the sandbox
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Session not found' }, 404);
   }
 
   const creds = await getProviderCredentials(
-    c.env.SESSIONS_KV,
+    c.env,
     user.id,
     user.claudeToken
   );
@@ -74,19 +74,26 @@ embeddingsRoutes.post('/index', async (c) => {
       sessionId,
       user.id,
       embeddingModel,
-      c.env.SESSIONS_KV
+      c.env.SESSIONS_KV,
+      vectorStoreFactory(c.env)
     );
 
     return c.json<ApiResponse<{
       fileCount: number;
+      chunkCount: number;
       duration: number;
       model: string;
+      commitSha?: string;
+      baseSha?: string;
     }>>({
       success: true,
       data: {
         fileCount: index.fileCount,
+        chunkCount: index.chunkCount,
         duration: Date.now() - t0,
         model: index.model,
+        commitSha: index.commitSha,
+        baseSha: index.baseSha,
       },
     });
   } catch (err) {
@@ -145,6 +152,7 @@ embeddingsRoutes.get('/status', async (c) => {
     fileCount: number;
     lastIndexedAt: string | null;
     indexing: boolean;
+    commitSha?: string;
   }>>({
     success: true,
     data: {
@@ -152,6 +160,7 @@ embeddingsRoutes.get('/status', async (c) => {
       fileCount: index.fileCount,
       lastIndexedAt: index.updatedAt,
       indexing: false,
+      commitSha: index.commitSha,
     },
   });
 });
@@ -162,10 +171,15 @@ const SearchRequestSchema = z.object({
   sessionId: z.string().min(1).max(100),
   query: z.string().min(1).max(1000),
   topK: z.number().min(1).max(20).optional().default(5),
+  /** Blend in grep hits from the live workspace (default on) */
+  hybrid: z.boolean().optional().default(true),
+  /** Grep pattern for hybrid mode — derived from the query when omitted */
+  pattern: z.string().min(1).max(200).optional(),
 });
 
 embeddingsRoutes.post('/search', async (c) => {
   const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
 
   const body = await c.req.json();
   const parsed = SearchRequestSchema.safeParse(body);
@@ -176,18 +190,16 @@ embeddingsRoutes.post('/search', async (c) => {
     );
   }
 
-  const { sessionId, query, topK } = parsed.data;
+  const { sessionId, query, topK, hybrid, pattern } = parsed.data;
 
-  // Verify session ownership before searching
-  try {
-    await assertSessionOwnership(c.env.SESSIONS_KV, sessionId, user.id);
-  } catch (err) {
-    if (err instanceof Response) return err;
-    throw err;
+  // Verify session access before searching
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Session not found' }, 404);
   }
 
   const creds = await getProviderCredentials(
-    c.env.SESSIONS_KV,
+    c.env,
     user.id,
     user.claudeToken
   );
@@ -201,18 +213,32 @@ embeddingsRoutes.post('/search', async (c) => {
 
   try {
     const t0 = Date.now();
-    const results = await searchEmbeddingsService(
-      c.env.SESSIONS_KV,
-      user.id,
-      sessionId,
-      query,
-      embeddingModel,
-      topK
-    );
+    const stores = vectorStoreFactory(c.env);
+    const results: Array<SemanticSearchResult | HybridSearchResult> | null = hybrid
+      ? await hybridSearch(
+          c.env.SESSIONS_KV,
+          stores,
+          sandboxManager,
+          user.id,
+          sessionId,
+          query,
+          embeddingModel,
+          topK,
+          pattern
+        )
+      : await searchEmbeddingsService(
+          c.env.SESSIONS_KV,
+          stores,
+          user.id,
+          sessionId,
+          query,
+          embeddingModel,
+          topK
+        );
 
     if (!results) {
       return c.json<ApiResponse<{
-        results: SemanticSearchResult[];
+        results: Array<SemanticSearchResult | HybridSearchResult>;
         queryTime: number;
       }>>({
         success: true,
@@ -221,7 +247,7 @@ embeddingsRoutes.post('/search', async (c) => {
     }
 
     return c.json<ApiResponse<{
-      results: SemanticSearchResult[];
+      results: Array<SemanticSearchResult | HybridSearchResult>;
       queryTime: number;
     }>>({
       success: true,
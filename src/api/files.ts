@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { User, FileInfo, ApiResponse } from '../types';
+import { canAccessSession } from '../services/orgs';
 
 type Variables = {
   user: User;
@@ -34,7 +35,7 @@ fileRoutes.get('/list/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -79,7 +80,7 @@ fileRoutes.get('/read/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -133,7 +134,7 @@ fileRoutes.post('/write/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -186,7 +187,7 @@ fileRoutes.delete('/delete/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -239,7 +240,7 @@ fileRoutes.post('/mkdir/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -293,7 +294,7 @@ fileRoutes.post('/move/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -346,7 +347,7 @@ fileRoutes.get('/search/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -405,7 +406,7 @@ fileRoutes.get('/diff/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -470,7 +471,7 @@ fileRoutes.post('/upload-base64/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -579,7 +580,7 @@ fileRoutes.post('/download-archive/:sessionId', async (c) => {
   }
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
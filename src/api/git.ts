@@ -1,6 +1,25 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
-import type { User, GitStatus, GitCommit, ApiResponse } from '../types';
+import type { User, Session, GitStatus, GitCommit, ApiResponse } from '../types';
+import { collectGithubToken } from '../sandbox';
+import { loadRedactor, recordSecretAudit, redactSecrets } from '../services/secret-audit';
+import { canAccessSession } from '../services/orgs';
+import { getGithubToken } from './github';
+import { githubApi } from '../services/github-client';
+import { createModel, getProviderCredentials, type ProviderName } from '../services/ai-provider-factory';
+import type { SessionSummary } from '../services/transcript-export';
+import {
+  describePullRequest,
+  fetchPullRequestStatus,
+  getPullRequest,
+  parseGithubRemote,
+  postSessionNote,
+  renderPullRequestBody,
+  savePullRequest,
+  statusNote,
+  type PullRequestRecord,
+  type PullRequestStatus,
+} from '../services/pull-requests';
 
 type Variables = {
   user: User;
@@ -17,7 +36,7 @@ gitRoutes.get('/status/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -95,7 +114,7 @@ gitRoutes.get('/log/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -154,7 +173,7 @@ gitRoutes.get('/diff/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -176,9 +195,21 @@ gitRoutes.get('/diff/:sessionId', async (c) => {
 
   const result = await sandboxManager.execInSandbox(session.sandboxId, args);
 
-  return c.json<ApiResponse<{ diff: string }>>({
+  const redactor = await loadRedactor(c.env, user.id, await collectGithubToken(c.env.AUTH_KV, user.id, c.env));
+  const { text: diff, names } = redactSecrets(redactor, result.stdout);
+  if (names.length > 0) {
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'redacted',
+      source: 'git-diff',
+      names,
+    }));
+  }
+
+  return c.json<ApiResponse<{ diff: string; redactedSecrets?: string[] }>>({
     success: true,
-    data: { diff: result.stdout },
+    data: { diff, ...(names.length > 0 ? { redactedSecrets: names } : {}) },
   });
 });
 
@@ -204,7 +235,7 @@ gitRoutes.post('/stage/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -256,7 +287,7 @@ gitRoutes.post('/unstage/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -312,7 +343,7 @@ gitRoutes.post('/commit/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -328,9 +359,41 @@ gitRoutes.post('/commit/:sessionId', async (c) => {
 
   const cwd = session.projectPath || '/workspace';
 
+  // Refuse to commit staged changes that contain a stored secret value, and
+  // mask any that slipped into the message
+  const redactor = await loadRedactor(c.env, user.id, await collectGithubToken(c.env.AUTH_KV, user.id, c.env));
+  const staged = await sandboxManager.execInSandbox(
+    session.sandboxId,
+    ['git', '-C', cwd, 'diff', '--cached']
+  );
+  const leaked = redactSecrets(redactor, staged.stdout).names;
+  if (leaked.length > 0) {
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'blocked',
+      source: 'git-commit',
+      names: leaked,
+    }));
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `Staged changes contain the value of ${leaked.join(', ')}. Remove it before committing.`,
+    }, 422);
+  }
+  const { text: message, names: redactedSecrets } = redactSecrets(redactor, parsed.data.message);
+  if (redactedSecrets.length > 0) {
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'redacted',
+      source: 'git-commit',
+      names: redactedSecrets,
+    }));
+  }
+
   const result = await sandboxManager.execInSandbox(
     session.sandboxId,
-    ['git', '-C', cwd, 'commit', '-m', parsed.data.message]
+    ['git', '-C', cwd, 'commit', '-m', message]
   );
 
   if (result.exitCode !== 0) {
@@ -346,11 +409,12 @@ gitRoutes.post('/commit/:sessionId', async (c) => {
     ['git', '-C', cwd, 'rev-parse', 'HEAD']
   );
 
-  return c.json<ApiResponse<{ hash: string; message: string }>>({
+  return c.json<ApiResponse<{ hash: string; message: string; redactedSecrets?: string[] }>>({
     success: true,
     data: {
       hash: hashResult.stdout.trim(),
-      message: parsed.data.message,
+      message,
+      ...(redactedSecrets.length > 0 ? { redactedSecrets } : {}),
     },
   });
 });
@@ -369,7 +433,7 @@ gitRoutes.post('/push/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -423,7 +487,7 @@ gitRoutes.post('/pull/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -471,7 +535,7 @@ gitRoutes.get('/branches/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -530,7 +594,7 @@ gitRoutes.post('/checkout/:sessionId', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -564,3 +628,257 @@ gitRoutes.post('/checkout/:sessionId', async (c) => {
     data: { branch: body.branch },
   });
 });
+
+const PullRequestSchema = z.object({
+  base: z.string().min(1).max(255).optional(),
+  title: z.string().min(1).max(256).optional(),
+  body: z.string().max(60_000).optional(),
+  draft: z.boolean().optional(),
+  provider: z.enum(['claude', 'gemini', 'openai']).default('claude'),
+  model: z.string().max(50).optional(),
+});
+
+// Push the current branch and open a GitHub pull request for it
+gitRoutes.post('/pr/:sessionId', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
+  const sessionId = c.req.param('sessionId');
+
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = PullRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  const session = await sandboxManager.getOrWakeSandbox(sessionId);
+
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  if (!session.sandboxId) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Sandbox not active',
+    }, 400);
+  }
+
+  const sandboxId = session.sandboxId;
+  const cwd = session.projectPath || '/workspace';
+  const git = (args: string[], timeout?: number) =>
+    sandboxManager.execInSandbox(sandboxId, ['git', '-C', cwd, ...args], timeout ? { timeout } : undefined);
+
+  const remote = await git(['remote', 'get-url', 'origin']);
+  const repo = remote.exitCode === 0 ? parseGithubRemote(remote.stdout) : null;
+  if (!repo) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'The origin remote is not a GitHub repository',
+    }, 400);
+  }
+
+  const token = await getGithubToken(c.env, user.id);
+  if (!token) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'GitHub not connected',
+    }, 400);
+  }
+
+  const branch = (await git(['branch', '--show-current'])).stdout.trim();
+  if (!branch) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'HEAD is detached. Check out a branch first.',
+    }, 409);
+  }
+
+  let base = parsed.data.base;
+  if (!base) {
+    const info = await githubApi<{ default_branch: string }>(token, 'GET', `/repos/${repo}`);
+    base = info.data?.default_branch || 'main';
+  }
+  if (branch === base) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `${branch} is the base branch. Create a feature branch for the pull request.`,
+    }, 409);
+  }
+
+  await git(['fetch', 'origin', base], 60000);
+  const range = `origin/${base}`;
+  const log = (await git(['log', '--format=%s', `${range}..HEAD`])).stdout.trim();
+  if (!log) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `${branch} has no commits ahead of ${base}`,
+    }, 409);
+  }
+  const diff = (await git(['diff', `${range}...HEAD`])).stdout;
+
+  // Same guard as commit: never publish a stored secret value
+  const redactor = await loadRedactor(c.env, user.id, await collectGithubToken(c.env.AUTH_KV, user.id, c.env));
+  const leaked = redactSecrets(redactor, diff).names;
+  if (leaked.length > 0) {
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'blocked',
+      source: 'git-pr',
+      names: leaked,
+    }));
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `The branch contains the value of ${leaked.join(', ')}. Remove it before opening a pull request.`,
+    }, 422);
+  }
+
+  const push = await git(['push', '-u', 'origin', branch], 60000);
+  if (push.exitCode !== 0) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: push.stderr || 'Failed to push',
+    }, 500);
+  }
+
+  // Explicit title/body win; otherwise describe the branch, falling back to
+  // the commit subjects if the model is unavailable
+  const subjects = log.split('\n');
+  let title = parsed.data.title ?? subjects[subjects.length - 1];
+  let prBody = parsed.data.body ?? subjects.map((s) => `- ${s}`).join('\n');
+  if (!parsed.data.title || parsed.data.body === undefined) {
+    try {
+      const creds = await getProviderCredentials(c.env, user.id, user.claudeToken);
+      const summary = await c.env.SESSIONS_KV.get<SessionSummary>(`summary:${sessionId}`, 'json');
+      const description = await describePullRequest(
+        createModel(parsed.data.provider as ProviderName, creds, parsed.data.model),
+        { summary: summary?.text, log, diff }
+      );
+      if (description) {
+        title = parsed.data.title ?? description.title;
+        prBody = parsed.data.body ?? renderPullRequestBody(description, sessionId);
+      }
+    } catch (err) {
+      console.warn('[git/pr] description generation failed:', err);
+    }
+  }
+
+  const redactedTitle = redactSecrets(redactor, title);
+  const redactedBody = redactSecrets(redactor, prBody);
+  const redactedSecrets = [...new Set([...redactedTitle.names, ...redactedBody.names])];
+  if (redactedSecrets.length > 0) {
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'redacted',
+      source: 'git-pr',
+      names: redactedSecrets,
+    }));
+  }
+
+  type GithubPull = { number: number; html_url: string; title: string };
+  let created = true;
+  let pull = await githubApi<GithubPull | { message?: string; errors?: { message?: string }[] }>(
+    token, 'POST', `/repos/${repo}/pulls`,
+    { title: redactedTitle.text, body: redactedBody.text, head: branch, base, draft: parsed.data.draft ?? false }
+  );
+  if (pull.status === 422) {
+    // Most often a PR for this branch is already open — return that one
+    const owner = repo.split('/')[0];
+    const existing = await githubApi<GithubPull[]>(
+      token, 'GET', `/repos/${repo}/pulls?state=open&head=${encodeURIComponent(`${owner}:${branch}`)}`
+    );
+    if (existing.ok && existing.data?.[0]) {
+      pull = { ok: true, status: 200, data: existing.data[0] };
+      created = false;
+    }
+  }
+  if (!pull.ok || !pull.data || !('number' in pull.data)) {
+    const err = pull.data && 'message' in pull.data ? pull.data : null;
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: err?.errors?.[0]?.message || err?.message || `GitHub returned HTTP ${pull.status}`,
+    }, 502);
+  }
+
+  const record: PullRequestRecord = {
+    repo,
+    number: pull.data.number,
+    url: pull.data.html_url,
+    title: pull.data.title,
+    branch,
+    base,
+    createdAt: new Date().toISOString(),
+  };
+  await savePullRequest(c.env.SESSIONS_KV, sessionId, record);
+  if (created) {
+    c.executionCtx.waitUntil(postSessionNote(
+      c.env.SESSIONS_KV,
+      sessionId,
+      `Opened pull request #${record.number} on ${repo}: ${record.title}\n${record.url}`
+    ));
+  }
+
+  return c.json<ApiResponse<{ pullRequest: PullRequestRecord; created: boolean; redactedSecrets?: string[] }>>({
+    success: true,
+    data: {
+      pullRequest: record,
+      created,
+      ...(redactedSecrets.length > 0 ? { redactedSecrets } : {}),
+    },
+  });
+});
+
+// State and checks of the session's pull request; settled changes are
+// posted into the session once
+gitRoutes.get('/pr/:sessionId', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  const record = await getPullRequest(c.env.SESSIONS_KV, sessionId);
+  if (!record) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'No pull request for this session',
+    }, 404);
+  }
+
+  const token = await getGithubToken(c.env, user.id);
+  const status = token ? await fetchPullRequestStatus(token, record.repo, record.number) : null;
+  if (!status) {
+    return c.json<ApiResponse<{ pullRequest: PullRequestRecord; status: PullRequestStatus | null }>>({
+      success: true,
+      data: { pullRequest: record, status: null },
+    });
+  }
+
+  const note = statusNote(record, status);
+  if (note) {
+    record.reported = { sha: status.headSha, state: status.state, checks: status.checks.state };
+    c.executionCtx.waitUntil(Promise.all([
+      savePullRequest(c.env.SESSIONS_KV, sessionId, record),
+      postSessionNote(c.env.SESSIONS_KV, sessionId, note),
+    ]));
+  }
+
+  return c.json<ApiResponse<{ pullRequest: PullRequestRecord; status: PullRequestStatus | null }>>({
+    success: true,
+    data: { pullRequest: record, status },
+  });
+});
@@ -9,6 +9,7 @@ import {
   disconnectGithub,
   githubAuthRedirect,
 } from './github';
+import { listGithubTriggers, createGithubTrigger, deleteGithubTrigger } from './github-webhooks';
 import type { User } from '../types';
 
 type Variables = {
@@ -38,6 +39,16 @@ githubRoutes.post('/repos/sync', syncGithubRepos);
 // GET /api/github/repos/:owner/:repo/branches — list branches
 githubRoutes.get('/repos/:owner/:repo/branches', getGithubBranches);
 
+// ── Webhook triggers ────────────────────────────────────────────────────
+// GET /api/github/triggers — repos that start sessions from issues and comments
+githubRoutes.get('/triggers', listGithubTriggers);
+
+// POST /api/github/triggers — register a repo and install its webhook
+githubRoutes.post('/triggers', createGithubTrigger);
+
+// DELETE /api/github/triggers/:id — remove a trigger and its webhook
+githubRoutes.delete('/triggers/:id', deleteGithubTrigger);
+
 // ── Legacy (backward compat) ────────────────────────────────────────────
 // GET /api/github/username
 githubRoutes.get('/username', getGithubUsername);
@@ -0,0 +1,199 @@
+import type { Context } from 'hono';
+import type { User } from '../types';
+import { SandboxManager } from '../sandbox';
+import { provisionSession } from './sessions';
+import { getGithubToken } from './github';
+import {
+  GithubTriggerError,
+  buildTaskPrompt,
+  claimDelivery,
+  completeGithubTask,
+  createTrigger,
+  deleteTrigger,
+  fetchPullBranches,
+  getTrigger,
+  listTriggers,
+  matchTrigger,
+  postComment,
+  triggerSecret,
+  verifySignature,
+  type GithubTaskRef,
+  type GithubTrigger,
+  type TriggerMatch,
+} from '../services/github-triggers';
+
+type Variables = {
+  user: User;
+};
+
+type GHCtx = Context<{ Bindings: Env; Variables: Variables }>;
+
+// ── Trigger management ─────────────────────────────────────────────────
+
+/** GET /api/github/triggers */
+export async function listGithubTriggers(c: GHCtx) {
+  const user = c.get('user');
+  const triggers = await listTriggers(c.env, user.id);
+  return c.json({ success: true, data: { triggers } });
+}
+
+/** POST /api/github/triggers — body: { repo, label?, command? } */
+export async function createGithubTrigger(c: GHCtx) {
+  const user = c.get('user');
+  const body = await c.req.json<{ repo?: unknown; label?: unknown; command?: unknown }>().catch(() => null);
+  if (!body || typeof body.repo !== 'string') {
+    return c.json({ success: false, error: 'repo is required' }, 400);
+  }
+
+  try {
+    const result = await createTrigger(c.env, user.id, {
+      repo: body.repo,
+      label: typeof body.label === 'string' ? body.label : undefined,
+      command: typeof body.command === 'string' ? body.command : undefined,
+    });
+    return c.json({ success: true, data: result });
+  } catch (err) {
+    if (err instanceof GithubTriggerError) return c.json({ success: false, error: err.message }, err.status);
+    throw err;
+  }
+}
+
+/** DELETE /api/github/triggers/:id */
+export async function deleteGithubTrigger(c: GHCtx) {
+  const user = c.get('user');
+  try {
+    await deleteTrigger(c.env, user.id, c.req.param('id') ?? '');
+    return c.json({ success: true, data: { deleted: true } });
+  } catch (err) {
+    if (err instanceof GithubTriggerError) return c.json({ success: false, error: err.message }, err.status);
+    throw err;
+  }
+}
+
+// ── Inbound webhook ─────────────────────────────────────────────────────
+
+/**
+ * POST /api/github/webhook/:triggerId — public; GitHub calls this directly.
+ * Verifies the signature, acknowledges fast, and starts the run in waitUntil
+ * (GitHub times out deliveries after 10 seconds).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function handleGithubWebhook(c: Context<any>) {
+  const env = c.env as Env;
+  const trigger = await getTrigger(env.AUTH_KV, c.req.param('triggerId') ?? '');
+  if (!trigger) return new Response('Unknown trigger', { status: 404 });
+
+  const body = await c.req.text();
+  const valid = await verifySignature(
+    await triggerSecret(env, trigger),
+    body,
+    c.req.header('X-Hub-Signature-256') ?? null
+  );
+  if (!valid) return new Response('Invalid signature', { status: 401 });
+
+  const event = c.req.header('X-GitHub-Event') ?? '';
+  if (event === 'ping') return new Response('pong', { status: 200 });
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response('Invalid JSON', { status: 400 });
+  }
+
+  const match = matchTrigger(event, payload, trigger);
+  if (!match) return new Response('Ignored', { status: 202 });
+
+  const deliveryId = c.req.header('X-GitHub-Delivery');
+  if (deliveryId && !(await claimDelivery(env.AUTH_KV, deliveryId))) {
+    return new Response('Duplicate delivery', { status: 202 });
+  }
+
+  const defaultBranch = (payload as { repository?: { default_branch?: string } }).repository?.default_branch || 'main';
+  c.executionCtx.waitUntil(startGithubTask(env, c.executionCtx, trigger, match, defaultBranch));
+  return new Response('Accepted', { status: 202 });
+}
+
+/**
+ * Resolve branches, provision a session on the repo and queue the prompt on
+ * its ChatSessionAgent. Failures before the run starts are posted back as a
+ * comment, since no run exists to report them.
+ */
+async function startGithubTask(
+  env: Env,
+  ctx: ExecutionContext,
+  trigger: GithubTrigger,
+  match: TriggerMatch,
+  defaultBranch: string
+): Promise<void> {
+  const token = await getGithubToken(env, trigger.userId);
+  if (!token) {
+    console.warn(`[github-triggers] ${trigger.repo}: owner has no GitHub token`);
+    return;
+  }
+
+  let ref: GithubTaskRef = {
+    triggerId: trigger.id,
+    userId: trigger.userId,
+    repo: trigger.repo,
+    kind: match.kind,
+    number: match.number,
+    title: match.title,
+    branch: `vf/issue-${match.number}`,
+    baseBranch: defaultBranch,
+  };
+
+  try {
+    if (match.kind === 'pull') {
+      const pull = match.headRef
+        ? { headRef: match.headRef, headRepo: match.headRepo ?? '', baseRef: defaultBranch }
+        : await fetchPullBranches(token, trigger.repo, match.number);
+      if (!pull) throw new Error('Could not load the pull request');
+      // The agent pushes with the owner's token — it can't push to someone else's fork
+      if (pull.headRepo.toLowerCase() !== trigger.repo.toLowerCase()) {
+        throw new Error('Pull requests from forks are not supported');
+      }
+      ref = { ...ref, branch: pull.headRef, baseBranch: pull.baseRef };
+    }
+
+    const user = await env.AUTH_KV.get<User>(`user:${trigger.userId}`, 'json');
+    if (!user) throw new Error('The trigger owner\'s VaporForge account was not found');
+
+    const sandboxManager = new SandboxManager(env.Sandbox, env.SESSIONS_KV, env.FILES_BUCKET);
+    const session = await provisionSession(env, sandboxManager, user, {
+      name: `${trigger.repo}#${match.number}`,
+      gitRepo: `https://github.com/${trigger.repo}`,
+      branch: match.kind === 'pull' ? ref.branch : ref.baseBranch,
+    }, ctx, env.WORKER_BASE_URL);
+
+    const stub = env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(session.id));
+    const res = await stub.fetch(new Request('https://do/enqueue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId: session.id,
+        userId: user.id,
+        email: user.email,
+        prompt: buildTaskPrompt(match, ref),
+        autonomy: 'autonomous',
+        githubTask: ref,
+      }),
+    }));
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(body.error || `Queueing the prompt failed (HTTP ${res.status})`);
+    }
+
+    await postComment(
+      token,
+      trigger.repo,
+      match.number,
+      `VaporForge is on it. Results will be posted here.\n\n<sub>VaporForge session \`${session.id.slice(0, 8)}\`</sub>`
+    );
+  } catch (err) {
+    await completeGithubTask(env, ref, {
+      status: 'failed',
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import type { Context } from 'hono';
 import type { User } from '../types';
+import { needsReseal, openSecret, sealSecret } from '../services/secret-vault';
 
 type Variables = {
   user: User;
@@ -32,6 +33,8 @@ const ghRepoCacheKey = (userId: string) => `github-repos:${userId}`;
 // Legacy key (read-only for migration)
 const ghUsernameKey = (userId: string) => `github-username:${userId}`;
 
+const GITHUB_TOKEN_TTL = 365 * 24 * 60 * 60;
+
 // ── OAuth flow ──────────────────────────────────────────────────────────
 
 /** GET /api/github/auth — public version, authenticates via ?token= query param */
@@ -149,9 +152,9 @@ export async function githubCallback(c: Context<any>) {
     avatarUrl = profile.avatar_url;
   }
 
-  // Store token and connection info in KV
-  await c.env.AUTH_KV.put(ghTokenKey(userId), tokenData.access_token, {
-    expirationTtl: 365 * 24 * 60 * 60, // GitHub tokens don't expire unless revoked
+  // Store token (sealed) and connection info in KV
+  await c.env.AUTH_KV.put(ghTokenKey(userId), await sealSecret(c.env, userId, tokenData.access_token), {
+    expirationTtl: GITHUB_TOKEN_TTL, // GitHub tokens don't expire unless revoked
   });
 
   const connection: GitHubConnectionData = {
@@ -225,7 +228,7 @@ export async function getGithubRepos(c: GHCtx) {
   const user = c.get('user');
   if (!user) return c.json({ error: 'Unauthorized' }, 401);
 
-  const token = await c.env.AUTH_KV.get(ghTokenKey(user.id));
+  const token = await getGithubToken(c.env, user.id);
   if (!token) {
     return c.json({ error: 'GitHub not connected. Connect via Integrations.' }, 403);
   }
@@ -244,7 +247,7 @@ export async function syncGithubRepos(c: GHCtx) {
   const user = c.get('user');
   if (!user) return c.json({ error: 'Unauthorized' }, 401);
 
-  const token = await c.env.AUTH_KV.get(ghTokenKey(user.id));
+  const token = await getGithubToken(c.env, user.id);
   if (!token) {
     return c.json({ error: 'GitHub not connected' }, 403);
   }
@@ -293,7 +296,7 @@ export async function getGithubBranches(c: GHCtx) {
     return c.json({ error: 'Missing owner or repo parameter' }, 400);
   }
 
-  const token = await c.env.AUTH_KV.get(ghTokenKey(user.id));
+  const token = await getGithubToken(c.env, user.id);
   if (!token) {
     return c.json({ error: 'GitHub not connected' }, 403);
   }
@@ -350,9 +353,29 @@ export async function getGithubBranches(c: GHCtx) {
   return c.json({ success: true, data: { branches, defaultBranch } });
 }
 
-/** Get the raw GitHub token for container injection */
-export async function getGithubToken(kv: KVNamespace, userId: string): Promise<string | null> {
-  return kv.get(ghTokenKey(userId));
+/** Get the decrypted GitHub token for API calls and container injection */
+export async function getGithubToken(env: Env, userId: string): Promise<string | null> {
+  const stored = await env.AUTH_KV.get(ghTokenKey(userId));
+  return stored ? openSecret(env, userId, stored) : null;
+}
+
+/**
+ * Seal a legacy plaintext token, or reseal one under a retired data key.
+ * Keeps the remaining TTL so a reseal never extends the connection.
+ */
+export async function resealGithubToken(env: Env, userId: string): Promise<boolean> {
+  const stored = await env.AUTH_KV.get(ghTokenKey(userId));
+  if (!stored || !(await needsReseal(env, userId, stored))) return false;
+
+  const { keys } = await env.AUTH_KV.list({ prefix: ghTokenKey(userId), limit: 1 });
+  const expiration = keys.find((k) => k.name === ghTokenKey(userId))?.expiration;
+  const sealed = await sealSecret(env, userId, await openSecret(env, userId, stored));
+  await env.AUTH_KV.put(
+    ghTokenKey(userId),
+    sealed,
+    expiration ? { expiration } : { expirationTtl: GITHUB_TOKEN_TTL }
+  );
+  return true;
 }
 
 // ── Internal helpers ────────────────────────────────────────────────────
@@ -5,12 +5,13 @@
  * Tokens stored in SESSIONS_KV, injected as ~/.claude/.credentials.json at session start.
  *
  * KV keys (all in SESSIONS_KV):
- *   mcp:oauth:{userId}:{serverName}  — access/refresh tokens
+ *   mcp:oauth:{userId}:{serverName}  — access/refresh tokens (sealed, see services/secret-vault)
  *   mcp:oauth:state:{state}          — PKCE state (30-min TTL)
  *   mcp:oauth:client:{userId}:{name} — registered client_id (DCR)
  */
 import { Hono } from 'hono';
 import type { User } from '../types';
+import { needsReseal, openJson, sealJson } from '../services/secret-vault';
 
 function uint8ArrayToBase64Url(bytes: Uint8Array): string {
   let binary = '';
@@ -106,21 +107,25 @@ export const oauthClientKey = (userId: string, name: string) =>
 export const oauthClientSecretKey = (userId: string, name: string) =>
   `mcp:oauth:client-secret:${userId}:${name}`;
 
+// Token records live in SESSIONS_KV sealed by the secret vault; legacy
+// plaintext JSON still opens until resealOAuthTokens() rewrites it.
+
 export async function readOAuthTokens(
-  kv: KVNamespace,
+  env: Env,
   userId: string,
   name: string,
 ): Promise<McpOAuthTokens | null> {
-  return kv.get<McpOAuthTokens>(oauthTokenKey(userId, name), 'json');
+  const raw = await env.SESSIONS_KV.get(oauthTokenKey(userId, name));
+  return raw ? openJson<McpOAuthTokens>(env, userId, raw) : null;
 }
 
 export async function writeOAuthTokens(
-  kv: KVNamespace,
+  env: Env,
   userId: string,
   name: string,
   tokens: McpOAuthTokens,
 ): Promise<void> {
-  await kv.put(oauthTokenKey(userId, name), JSON.stringify(tokens));
+  await env.SESSIONS_KV.put(oauthTokenKey(userId, name), await sealJson(env, userId, tokens));
 }
 
 export async function deleteOAuthTokens(
@@ -131,29 +136,65 @@ export async function deleteOAuthTokens(
   await kv.delete(oauthTokenKey(userId, name));
 }
 
-export async function readAllOAuthTokens(
-  kv: KVNamespace,
-  userId: string,
-): Promise<McpOAuthTokensWithName[]> {
+async function listOAuthTokenKeys(kv: KVNamespace, userId: string): Promise<string[]> {
   const prefix = `mcp:oauth:${userId}:`;
-  const allKeys: KVNamespaceListKey<unknown>[] = [];
+  const names: string[] = [];
   let cursor: string | undefined;
   do {
     const page = await kv.list({ prefix, cursor } as KVNamespaceListOptions);
-    allKeys.push(...page.keys);
+    names.push(...page.keys.map((k) => k.name));
     cursor = page.list_complete ? undefined : (page as { cursor?: string }).cursor;
   } while (cursor);
-  if (!allKeys.length) return [];
+  return names;
+}
+
+/** Open one stored token record; a record that can't be opened is skipped, not fatal. */
+async function openTokenRecord(
+  env: Env,
+  userId: string,
+  key: string,
+  raw: string,
+): Promise<McpOAuthTokens | null> {
+  try {
+    return await openJson<McpOAuthTokens>(env, userId, raw);
+  } catch (err) {
+    console.error('[mcp-oauth] token record could not be opened:', key, String(err));
+    return null;
+  }
+}
+
+export async function readAllOAuthTokens(
+  env: Env,
+  userId: string,
+): Promise<McpOAuthTokensWithName[]> {
+  const prefix = `mcp:oauth:${userId}:`;
+  const keys = await listOAuthTokenKeys(env.SESSIONS_KV, userId);
+  if (!keys.length) return [];
   const results = await Promise.all(
-    allKeys.map(async (key) => {
-      const serverName = key.name.slice(prefix.length);
-      const tokens = await kv.get<McpOAuthTokens>(key.name, 'json');
+    keys.map(async (key) => {
+      const serverName = key.slice(prefix.length);
+      const raw = await env.SESSIONS_KV.get(key);
+      const tokens = raw ? await openTokenRecord(env, userId, key, raw) : null;
       return tokens ? { ...tokens, serverName } : null;
     }),
   );
   return results.filter((t): t is McpOAuthTokensWithName => t !== null);
 }
 
+/** Seal legacy plaintext token records and reseal ones under a retired data key. */
+export async function resealOAuthTokens(env: Env, userId: string): Promise<number> {
+  let resealed = 0;
+  for (const key of await listOAuthTokenKeys(env.SESSIONS_KV, userId)) {
+    const raw = await env.SESSIONS_KV.get(key);
+    if (!raw || !(await needsReseal(env, userId, raw))) continue;
+    const tokens = await openTokenRecord(env, userId, key, raw);
+    if (!tokens) continue;
+    await env.SESSIONS_KV.put(key, await sealJson(env, userId, tokens));
+    resealed++;
+  }
+  return resealed;
+}
+
 // ─── PKCE utilities ────────────────────────────────────────────────────────
 
 export function generateCodeVerifier(): string {
@@ -519,7 +560,7 @@ async function acquireLock(kv: KVNamespace, key: string): Promise<boolean> {
  * or 4xx response), writes oauthStatus:'expired' to the server's KV config.
  */
 export async function injectOAuthToken(
-  kv: KVNamespace,
+  env: Env,
   userId: string,
   serverName: string,
   options?: {
@@ -527,7 +568,8 @@ export async function injectOAuthToken(
     markExpired?: boolean;
   },
 ): Promise<{ accessToken: string | null; refreshed: boolean; expired: boolean }> {
-  const tokens = await readOAuthTokens(kv, userId, serverName);
+  const kv = env.SESSIONS_KV;
+  const tokens = await readOAuthTokens(env, userId, serverName);
   if (!tokens) return { accessToken: null, refreshed: false, expired: false };
 
   const lockKey = `mcp-refresh-lock:${userId}:${serverName}`;
@@ -549,7 +591,7 @@ export async function injectOAuthToken(
       return { accessToken: null, refreshed: false, expired: true };
     }
     if (refreshed !== tokens) {
-      await writeOAuthTokens(kv, userId, serverName, refreshed);
+      await writeOAuthTokens(env, userId, serverName, refreshed);
       return { accessToken: refreshed.accessToken, refreshed: true, expired: false };
     }
     return { accessToken: tokens.accessToken, refreshed: false, expired: false };
@@ -664,7 +706,7 @@ mcpOAuthPublicRoutes.get('/callback', async (c) => {
 
   try {
     await writeOAuthTokens(
-      c.env.SESSIONS_KV,
+      c.env,
       pkceState.userId,
       pkceState.serverName,
       tokens,
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { McpServerConfig, Session } from '../types';
+import { mcpRelayRoutes } from './mcp-relay';
+import { relayUserKey } from '../services/mcp-policy';
+import { memoryKv } from '../test-utils/memory-kv';
+
+const session: Session = {
+  id: 's1',
+  userId: 'owner',
+  status: 'active',
+  createdAt: '2026-03-01T00:00:00.000Z',
+  lastActiveAt: '2026-03-01T00:00:00.000Z',
+  sharing: { orgId: 'o1', access: 'collaborate', sharedAt: '2026-03-01T00:00:00.000Z' },
+  metadata: { relayToken: 'relay-secret' },
+};
+
+const server: McpServerConfig = {
+  name: 'browser',
+  transport: 'relay',
+  localUrl: 'http://localhost:9222',
+  enabled: true,
+  addedAt: '2026-03-01T00:00:00.000Z',
+};
+
+function reportTools(env: Env) {
+  return mcpRelayRoutes.request('/s1/browser/tools', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer relay-secret', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tools: [{ name: 'screenshot' }] }),
+  }, env);
+}
+
+function cachedTools(store: Map<string, string>, userId: string): string[] | undefined {
+  return (JSON.parse(store.get(`user-mcp:${userId}`)!) as McpServerConfig[])[0].tools;
+}
+
+describe('POST /:sessionId/:serverName/tools', () => {
+  it('caches tools for the member whose run the container is serving', async () => {
+    const sessions = new Map([
+      ['session:s1', JSON.stringify(session)],
+      [relayUserKey('s1'), 'member'],
+      ['user-mcp:owner', JSON.stringify([server])],
+      ['user-mcp:member', JSON.stringify([server])],
+    ]);
+    const auth = new Map([['org:o1', JSON.stringify({ id: 'o1', members: [{ userId: 'member', role: 'member' }] })]]);
+    const env = { SESSIONS_KV: memoryKv(sessions), AUTH_KV: memoryKv(auth) } as unknown as Env;
+
+    const res = await reportTools(env);
+
+    expect(res.status).toBe(200);
+    expect(cachedTools(sessions, 'member')).toEqual(['screenshot']);
+    expect(cachedTools(sessions, 'owner')).toBeUndefined();
+  });
+
+  it("doesn't fall back to the owner's servers once the member loses access", async () => {
+    const sessions = new Map([
+      ['session:s1', JSON.stringify(session)],
+      [relayUserKey('s1'), 'member'],
+      ['user-mcp:owner', JSON.stringify([server])],
+    ]);
+    const env = { SESSIONS_KV: memoryKv(sessions), AUTH_KV: memoryKv() } as unknown as Env;
+
+    expect((await reportTools(env)).status).toBe(404);
+    expect(cachedTools(sessions, 'owner')).toBeUndefined();
+  });
+});
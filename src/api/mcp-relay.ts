@@ -1,18 +1,31 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import type { Session } from '../types';
+import { cacheMcpTools, findMcpServer } from './mcp';
+import { appliesToRepo, calledToolName, deniedToolResult, relayUserKey } from '../services/mcp-policy';
+import { canAccessSession } from '../services/orgs';
+import { readResponse, toToolSchemas, type JsonRpcMessage, type McpToolSchema } from '../services/mcp-client';
 
 /**
  * MCP Relay Route — bridges HTTP requests from the in-container proxy
  * to the SessionDurableObject, which relays them via WebSocket to the browser.
  *
  * Auth: Uses a session-scoped relay token (not the user's JWT).
- * Route: POST /api/mcp-relay/:sessionId/:serverName
+ * Routes:
+ *   POST /api/mcp-relay/:sessionId/:serverName        — relay a JSON-RPC message
+ *   POST /api/mcp-relay/:sessionId/:serverName/tools  — proxy reports a server's tool list
+ *
+ * Only enabled relay servers that apply to the session's repo are reachable,
+ * looked up for the member whose run the container is serving (the owner
+ * until a collaborator runs), denied tools are refused, and the server's rate limit
+ * is enforced by the DO. The DO answers with JSON, or with an event stream
+ * when the local server sends notifications (progress) ahead of its response.
+ * Complete tools/list answers refresh the server's cached tool list.
  */
 export const mcpRelayRoutes = new Hono<{ Bindings: Env }>();
 
-mcpRelayRoutes.post('/:sessionId/:serverName', async (c) => {
+/** The session whose relay token the request carries, or an error response */
+async function relaySession(c: Context<{ Bindings: Env }>): Promise<Session | Response> {
   const sessionId = c.req.param('sessionId');
-  const serverName = c.req.param('serverName');
 
   // Validate relay token from Authorization header
   const authHeader = c.req.header('Authorization');
@@ -39,8 +52,47 @@ mcpRelayRoutes.post('/:sessionId/:serverName', async (c) => {
     return c.json({ error: 'Invalid relay token' }, 403);
   }
 
+  return session;
+}
+
+/**
+ * The member whose servers the container's proxy was configured with. A
+ * collaborator who has since lost write access gets nothing, not the owner's.
+ */
+async function relayUser(env: Env, session: Session): Promise<string | null> {
+  const userId = await env.SESSIONS_KV.get(relayUserKey(session.id));
+  if (!userId) return session.userId;
+  return (await canAccessSession(env.AUTH_KV, session, userId, 'write')) ? userId : null;
+}
+
+/** The complete tool list in a tools/list answer; null for other requests and partial pages */
+async function listedTools(response: Response, request: JsonRpcMessage): Promise<McpToolSchema[] | null> {
+  if (request.method !== 'tools/list' || request.params?.cursor || request.id == null) return null;
+  const message = await readResponse(response, request.id);
+  if (!message?.result || message.result.nextCursor) return null;
+  return toToolSchemas(message.result.tools);
+}
+
+mcpRelayRoutes.post('/:sessionId/:serverName', async (c) => {
+  const sessionId = c.req.param('sessionId');
+  const serverName = c.req.param('serverName');
+
+  const session = await relaySession(c);
+  if (session instanceof Response) return session;
+
+  const userId = await relayUser(c.env, session);
+  const server = userId ? await findMcpServer(c.env.SESSIONS_KV, userId, serverName) : null;
+  if (!userId || !server || !server.enabled || server.transport !== 'relay' || !appliesToRepo(server, session.gitRepo)) {
+    return c.json({ error: `MCP server "${serverName}" is not available in this session` }, 404);
+  }
+
   // Read the JSON-RPC request body
-  const body = await c.req.json();
+  const body = await c.req.json<JsonRpcMessage>();
+
+  const toolName = calledToolName(body);
+  if (toolName && server.toolPolicy?.[toolName] === 'deny') {
+    return c.json(deniedToolResult(body.id, serverName, toolName));
+  }
 
   // Forward to SessionDurableObject
   const doId = c.env.SESSIONS.idFromName(sessionId);
@@ -54,11 +106,48 @@ mcpRelayRoutes.post('/:sessionId/:serverName', async (c) => {
         sessionId,
         serverName,
         body,
+        maxPerMinute: server.rateLimit?.maxPerMinute,
       }),
     })
   );
 
-  // Return the DO's response directly
-  const result = await doResponse.json();
-  return c.json(result, doResponse.status as 200);
+  if (body.method === 'tools/list') {
+    const copy = doResponse.clone();
+    c.executionCtx.waitUntil(
+      listedTools(copy, body).then((tools) =>
+        tools ? cacheMcpTools(c.env.SESSIONS_KV, userId, serverName, tools) : false
+      ).catch(() => false)
+    );
+  }
+
+  // Return the DO's response directly (JSON, or a stream ending in the response)
+  return new Response(doResponse.body, {
+    status: doResponse.status,
+    headers: {
+      'Content-Type': doResponse.headers.get('Content-Type') ?? 'application/json',
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
+
+mcpRelayRoutes.post('/:sessionId/:serverName/tools', async (c) => {
+  const serverName = c.req.param('serverName');
+
+  const session = await relaySession(c);
+  if (session instanceof Response) return session;
+
+  const userId = await relayUser(c.env, session);
+  const server = userId ? await findMcpServer(c.env.SESSIONS_KV, userId, serverName) : null;
+  if (!userId || !server || !server.enabled || !appliesToRepo(server, session.gitRepo)) {
+    return c.json({ error: `MCP server "${serverName}" is not available in this session` }, 404);
+  }
+
+  const body = await c.req.json<{ tools?: unknown }>();
+  const tools = toToolSchemas(body.tools);
+  if (!tools) {
+    return c.json({ error: 'Expected a tools array' }, 400);
+  }
+
+  await cacheMcpTools(c.env.SESSIONS_KV, userId, serverName, tools);
+  return c.json({ success: true, toolCount: tools.length });
 });
@@ -1,4 +1,5 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
+import { z } from 'zod';
 import { McpServerConfigSchema } from '../types';
 import type { User, ApiResponse, McpServerConfig } from '../types';
 import { validateExternalUrl } from '../utils/validate-url';
@@ -13,6 +14,27 @@ import {
   deleteOAuthTokens,
   injectOAuthToken,
 } from './mcp-oauth';
+import {
+  MCP_CATALOG_SERVER,
+  appliesToRepo,
+  isOnDemand,
+  proxyUrl,
+  restrictedTools,
+  sdkToolName,
+  type McpProxyTarget,
+  type RestrictedToolPolicy,
+} from '../services/mcp-policy';
+import {
+  McpRequestError,
+  exchangeMcpServer,
+  probeMcpServer,
+  requestMcpServer,
+  type McpExchange,
+  type McpPrompt,
+  type McpProbeTarget,
+  type McpResource,
+  type McpToolSchema,
+} from '../services/mcp-client';
 
 type Variables = {
   user: User;
@@ -49,6 +71,11 @@ async function readServers(
   }
 }
 
+/** Transports that reach a remote server at `url` */
+function isUrlTransport(transport: McpServerConfig['transport']): transport is 'http' | 'sse' {
+  return transport === 'http' || transport === 'sse';
+}
+
 /** Write MCP servers to KV */
 async function writeServers(
   kv: KVNamespace,
@@ -87,17 +114,17 @@ mcpRoutes.post('/', async (c) => {
     }, 400);
   }
 
-  const { name, transport, url, command, args, localUrl, headers, env, credentialFiles } = parsed.data;
+  const { name, transport, url, command, args, localUrl, localTransport, headers, env, credentialFiles } = parsed.data;
 
   // Transport-specific validation
-  if (transport === 'http' && !url) {
+  if (isUrlTransport(transport) && !url) {
     return c.json<ApiResponse<never>>({
       success: false,
-      error: 'URL is required for HTTP transport',
+      error: `URL is required for ${transport.toUpperCase()} transport`,
     }, 400);
   }
 
-  if (transport === 'http' && url) {
+  if (isUrlTransport(transport) && url) {
     const urlError = validateExternalUrl(url);
     if (urlError) {
       return c.json<ApiResponse<never>>({ success: false, error: urlError }, 400);
@@ -152,6 +179,7 @@ mcpRoutes.post('/', async (c) => {
     command,
     args,
     localUrl,
+    localTransport: transport === 'relay' ? localTransport : undefined,
     headers,
     env,
     credentialFiles,
@@ -225,12 +253,12 @@ mcpRoutes.put('/:name', async (c) => {
     }, 400);
   }
 
-  const { transport, url, command, args, localUrl, headers, env, credentialFiles, mode, scope } = parsed.data;
+  const { transport, url, command, args, localUrl, localTransport, headers, env, credentialFiles, mode, scope } = parsed.data;
 
-  if (transport === 'http' && !url) {
-    return c.json<ApiResponse<never>>({ success: false, error: 'URL is required for HTTP transport' }, 400);
+  if (isUrlTransport(transport) && !url) {
+    return c.json<ApiResponse<never>>({ success: false, error: `URL is required for ${transport.toUpperCase()} transport` }, 400);
   }
-  if (transport === 'http' && url) {
+  if (isUrlTransport(transport) && url) {
     const urlError = validateExternalUrl(url);
     if (urlError) {
       return c.json<ApiResponse<never>>({ success: false, error: urlError }, 400);
@@ -250,6 +278,7 @@ mcpRoutes.put('/:name', async (c) => {
     command,
     args,
     localUrl,
+    localTransport: transport === 'relay' ? localTransport : undefined,
     headers,
     env,
     credentialFiles,
@@ -266,7 +295,7 @@ mcpRoutes.put('/:name', async (c) => {
   });
 });
 
-// PATCH /:name — partial update (mode, scope)
+// PATCH /:name — partial update (mode, scope, gitRepo, rateLimit, toolPolicy)
 mcpRoutes.patch('/:name', async (c) => {
   const user = c.get('user');
   const name = c.req.param('name');
@@ -279,7 +308,13 @@ mcpRoutes.patch('/:name', async (c) => {
   }
 
   const body = await c.req.json();
-  const patchSchema = McpServerConfigSchema.pick({ mode: true, scope: true });
+  const patchSchema = McpServerConfigSchema.pick({ mode: true, scope: true, toolPolicy: true }).extend({
+    gitRepo: z.string().trim().max(500).nullable(),
+    // null clears the limit
+    rateLimit: z.object({
+      maxPerMinute: z.number().int().min(1, 'Rate limit must be at least 1 call per minute').max(600),
+    }).nullable(),
+  });
   const parsed = patchSchema.partial().safeParse(body);
 
   if (!parsed.success) {
@@ -289,7 +324,15 @@ mcpRoutes.patch('/:name', async (c) => {
     }, 400);
   }
 
-  const updatedServer: McpServerConfig = { ...servers[index], ...parsed.data };
+  const { gitRepo, rateLimit, toolPolicy, ...rest } = parsed.data;
+  const updatedServer: McpServerConfig = { ...servers[index], ...rest };
+  if (gitRepo !== undefined) updatedServer.gitRepo = gitRepo || undefined;
+  if (rateLimit !== undefined) updatedServer.rateLimit = rateLimit ?? undefined;
+  if (toolPolicy !== undefined) {
+    // Replaces the whole map; 'allow' is the default and isn't stored
+    const restricted = restrictedTools({ ...updatedServer, toolPolicy });
+    updatedServer.toolPolicy = Object.keys(restricted).length > 0 ? restricted : undefined;
+  }
   const updated = servers.map((s) => (s.name === name ? updatedServer : s));
   await writeServers(c.env.SESSIONS_KV, user.id, updated);
 
@@ -433,37 +476,54 @@ mcpRoutes.delete('/:name/oauth', async (c) => {
   return c.json<ApiResponse<{ revoked: boolean }>>({ success: true, data: { revoked: true } });
 });
 
+/** MCP entries for ~/.claude.json, the in-container proxy's routing table and per-tool policy */
+export interface McpSetup {
+  mcpServers: Record<string, Record<string, unknown>>;
+  proxyTargets: Record<string, McpProxyTarget>;
+  /** 'deny' and 'ask' tools keyed by SDK tool name (mcp__server__tool) */
+  toolPolicy: Record<string, RestrictedToolPolicy>;
+}
+
 /**
- * Collect enabled MCP servers for a user, returning them in the
- * ~/.claude.json mcpServers format.
+ * Collect the enabled MCP servers that apply to a session, in the
+ * ~/.claude.json mcpServers format, plus where the in-container proxy on
+ * localhost:9788 should send the servers routed through it.
  *
- * Relay transport servers are transformed to HTTP pointing at the
- * in-container mcp-relay-proxy on localhost:9788.
+ * Relay servers always go through the proxy, which tunnels to the browser;
+ * they are per-member, so org-shared config passes `includeRelay: false`.
+ * Rate-limited servers go through the proxy too, and on-demand servers only
+ * exist there, behind the mcp-catalog server.
  */
-export async function collectMcpConfig(
-  kv: KVNamespace,
-  userId: string
-): Promise<Record<string, Record<string, unknown>>> {
-  const servers = await readServers(kv, userId);
-  const result: Record<string, Record<string, unknown>> = {};
+export async function collectMcpSetup(
+  env: Env,
+  userId: string,
+  options: { includeRelay?: boolean; gitRepo?: string } = {}
+): Promise<McpSetup> {
+  const servers = await readServers(env.SESSIONS_KV, userId);
+  const mcpServers: Record<string, Record<string, unknown>> = {};
+  const proxyTargets: Record<string, McpProxyTarget> = {};
+  const toolPolicy: Record<string, RestrictedToolPolicy> = {};
 
   for (const server of servers) {
-    if (!server.enabled) continue;
-
-    if (server.transport === 'http' && server.url) {
-      const config: Record<string, unknown> = {
-        type: 'http',
+    if (!server.enabled || !appliesToRepo(server, options.gitRepo)) continue;
+
+    let config: Record<string, unknown>;
+    let target: McpProxyTarget;
+    if (isUrlTransport(server.transport) && server.url) {
+      // 'sse' is the legacy HTTP+SSE transport, which the SDK speaks natively
+      config = {
+        type: server.transport,
         url: server.url,
       };
       if (server.headers && Object.keys(server.headers).length > 0) {
         config.headers = server.headers;
       }
       // Inject stored OAuth Bearer token if available (lock-free; marks expired on refresh failure)
-      const { accessToken: oauthAccessToken } = await injectOAuthToken(kv, userId, server.name, { markExpired: true });
+      const { accessToken: oauthAccessToken } = await injectOAuthToken(env, userId, server.name, { markExpired: true });
       if (oauthAccessToken) {
         config.headers = { ...((config.headers as Record<string, string>) ?? {}), Authorization: `Bearer ${oauthAccessToken}` };
       }
-      result[server.name] = config;
+      target = { transport: server.transport, url: server.url, headers: config.headers as Record<string, string> | undefined };
     } else if (server.transport === 'stdio' && server.command) {
       // Parse command field: user may enter "npx @package/name --flag"
       // but the SDK expects command="npx", args=["@package/name","--flag"].
@@ -471,113 +531,127 @@ export async function collectMcpConfig(
       const parts = server.command.trim().split(/\s+/);
       const executable = parts[0];
       const inlineArgs = parts.slice(1);
-      const config: Record<string, unknown> = {
+      config = {
         command: executable,
         args: [...inlineArgs, ...(server.args || [])],
       };
       if (server.env && Object.keys(server.env).length > 0) {
         config.env = server.env;
       }
-      result[server.name] = config;
-    } else if (server.transport === 'relay' && server.localUrl) {
+      target = { transport: 'stdio', command: executable, args: config.args as string[], env: server.env };
+    } else if (server.transport === 'relay' && server.localUrl && options.includeRelay !== false) {
       // Relay: SDK talks to the in-container proxy which tunnels to the browser
-      result[server.name] = {
-        type: 'http',
-        url: `http://127.0.0.1:9788/mcp/${server.name}`,
-      };
+      config = { type: 'http', url: proxyUrl(server.name) };
+      target = { transport: 'relay' };
+    } else {
+      continue;
     }
-  }
 
-  return result;
-}
+    const maxPerMinute = server.rateLimit?.maxPerMinute;
+    if (maxPerMinute) target.maxPerMinute = maxPerMinute;
+    const restricted = restrictedTools(server);
+    if (Object.keys(restricted).length > 0) target.toolPolicy = restricted;
+    for (const [tool, policy] of Object.entries(restricted)) {
+      toolPolicy[sdkToolName(server.name, tool)] = policy;
+    }
 
-/** Query an MCP server for its available tools via JSON-RPC */
-async function discoverTools(
-  url: string,
-  headers?: Record<string, string>
-): Promise<{
-  tools: string[];
-  toolCount: number;
-  toolSchemas: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }>;
-  pingMs: number;
-} | null> {
-  try {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 8000);
-    const start = Date.now();
-
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...headers,
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'tools/list',
-        params: {},
-      }),
-      signal: controller.signal,
-    });
-    const pingMs = Date.now() - start;
-    clearTimeout(timer);
+    if (isOnDemand(server)) {
+      proxyTargets[server.name] = { ...target, onDemand: true, tools: server.tools };
+    } else if (target.transport === 'relay' || maxPerMinute) {
+      mcpServers[server.name] = { type: 'http', url: proxyUrl(server.name) };
+      proxyTargets[server.name] = target;
+    } else {
+      mcpServers[server.name] = config;
+    }
+  }
 
-    if (!res.ok) return null;
+  if (Object.values(proxyTargets).some((t) => t.onDemand)) {
+    mcpServers[MCP_CATALOG_SERVER] = { command: 'node', args: ['/opt/claude-agent/mcp-catalog.js'] };
+  }
 
-    const data = await res.json() as {
-      result?: { tools?: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }> };
-    };
+  return { mcpServers, proxyTargets, toolPolicy };
+}
 
-    const toolList = data?.result?.tools;
-    if (!Array.isArray(toolList)) return null;
+/** The ~/.claude.json half of collectMcpSetup */
+export async function collectMcpConfig(
+  env: Env,
+  userId: string,
+  options: { includeRelay?: boolean; gitRepo?: string } = {}
+): Promise<Record<string, Record<string, unknown>>> {
+  return (await collectMcpSetup(env, userId, options)).mcpServers;
+}
 
-    const names = toolList.map((t) => t.name).filter(Boolean);
-    const toolSchemas = toolList.map((t) => ({
-      name: t.name,
-      ...(t.description ? { description: t.description } : {}),
-      ...(t.inputSchema ? { inputSchema: t.inputSchema } : {}),
-    }));
-    return { tools: names, toolCount: names.length, toolSchemas, pingMs };
-  } catch {
-    return null;
+/** Base headers plus the stored OAuth Bearer token, if any */
+async function effectiveHeaders(
+  env: Env,
+  userId: string,
+  server: McpServerConfig
+): Promise<{ headers: Record<string, string>; tokenExpired: boolean }> {
+  let headers: Record<string, string> = server.headers || {};
+  const { accessToken: oauthAccessToken, expired: tokenExpired } = await injectOAuthToken(
+    env, userId, server.name,
+    { lockKv: env.AUTH_KV, markExpired: true },
+  );
+  if (oauthAccessToken) {
+    headers = { ...headers, Authorization: `Bearer ${oauthAccessToken}` };
   }
+  return { headers, tokenExpired: !!tokenExpired };
 }
 
-// POST /ping — batch health-check all enabled HTTP servers
+function pingStatus(httpStatus: number, tokenExpired: boolean): string {
+  if (httpStatus === 401 || httpStatus === 403) return tokenExpired ? 'auth-expired' : 'auth-required';
+  return 'online';
+}
+
+/**
+ * Replace a server's cached tool list — from a ping, or from a tools/list
+ * seen during a session (the server's tools may have changed since).
+ * A ping also replaces the cached resources and prompts.
+ * Returns false when the user has no server by that name.
+ */
+export async function cacheMcpTools(
+  kv: KVNamespace,
+  userId: string,
+  name: string,
+  toolSchemas: McpToolSchema[],
+  ping?: { at: string; ms: number; resources?: McpResource[]; prompts?: McpPrompt[] }
+): Promise<boolean> {
+  const servers = await readServers(kv, userId);
+  if (!servers.some((s) => s.name === name)) return false;
+
+  const tools = toolSchemas.map((t) => t.name);
+  const updated = servers.map((s) =>
+    s.name === name
+      ? {
+        ...s,
+        tools,
+        toolCount: tools.length,
+        toolSchemas,
+        ...(ping ? { lastPingAt: ping.at, lastPingMs: ping.ms, resources: ping.resources, prompts: ping.prompts } : {}),
+      }
+      : s
+  );
+  await writeServers(kv, userId, updated);
+  return true;
+}
+
+// POST /ping — batch health-check all enabled HTTP and SSE servers
 mcpRoutes.post('/ping', async (c) => {
   const user = c.get('user');
   const servers = await readServers(c.env.SESSIONS_KV, user.id);
 
   const results: Record<string, { status: string; httpStatus?: number }> = {};
-  const httpServers = servers.filter((s) => s.enabled && s.transport === 'http' && s.url);
+  const urlServers = servers.filter((s) => s.enabled && isUrlTransport(s.transport) && s.url);
 
   await Promise.all(
-    httpServers.map(async (server) => {
+    urlServers.map(async (server) => {
       try {
-        let effectiveHeaders: Record<string, string> = server.headers || {};
-        const { accessToken: oauthAccessToken, expired: tokenExpired } = await injectOAuthToken(
-          c.env.SESSIONS_KV, user.id, server.name,
-          { lockKv: c.env.AUTH_KV, markExpired: true },
+        const { headers, tokenExpired } = await effectiveHeaders(c.env, user.id, server);
+        const probe = await probeMcpServer(
+          { transport: server.transport as 'http' | 'sse', url: server.url!, headers },
+          5000
         );
-        if (oauthAccessToken) {
-          effectiveHeaders = { ...effectiveHeaders, Authorization: `Bearer ${oauthAccessToken}` };
-        }
-        const controller = new AbortController();
-        const timer = setTimeout(() => controller.abort(), 5000);
-        const res = await fetch(server.url!, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...effectiveHeaders },
-          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
-          signal: controller.signal,
-        });
-        clearTimeout(timer);
-
-        if (res.status === 401 || res.status === 403) {
-          results[server.name] = { status: tokenExpired ? 'auth-expired' : 'auth-required', httpStatus: res.status };
-        } else {
-          results[server.name] = { status: 'online', httpStatus: res.status };
-        }
+        results[server.name] = { status: pingStatus(probe.httpStatus, tokenExpired), httpStatus: probe.httpStatus };
       } catch (err) {
         console.error(`[mcp-batch-ping] ${server.name} threw:`, String(err));
         results[server.name] = { status: 'offline' };
@@ -585,7 +659,7 @@ mcpRoutes.post('/ping', async (c) => {
     })
   );
 
-  // Mark non-HTTP / disabled servers
+  // Mark relay / stdio / disabled servers
   for (const server of servers) {
     if (results[server.name]) continue;
     if (!server.enabled) {
@@ -603,18 +677,17 @@ mcpRoutes.post('/ping', async (c) => {
   });
 });
 
-// POST /:name/ping — single server health-check
+// POST /:name/ping — single server health-check, refreshing the cached tool list
 mcpRoutes.post('/:name/ping', async (c) => {
   const user = c.get('user');
   const name = c.req.param('name');
-  const servers = await readServers(c.env.SESSIONS_KV, user.id);
-  const server = servers.find((s) => s.name === name);
+  const server = await findMcpServer(c.env.SESSIONS_KV, user.id, name);
 
   if (!server) {
     return c.json<ApiResponse<never>>({ success: false, error: 'Not found' }, 404);
   }
 
-  if (server.transport !== 'http' || !server.url) {
+  if (!isUrlTransport(server.transport) || !server.url) {
     return c.json<ApiResponse<{ status: string }>>({
       success: true,
       data: { status: server.transport === 'relay' ? 'relay' : 'unknown' },
@@ -622,59 +695,18 @@ mcpRoutes.post('/:name/ping', async (c) => {
   }
 
   try {
-    // Build effective headers: base headers + OAuth Bearer token if stored in KV
-    let effectiveHeaders: Record<string, string> = server.headers || {};
-    const { accessToken: oauthAccessToken, expired: tokenExpired } = await injectOAuthToken(
-      c.env.SESSIONS_KV, user.id, name,
-      { lockKv: c.env.AUTH_KV, markExpired: true },
-    );
-    if (oauthAccessToken) {
-      effectiveHeaders = { ...effectiveHeaders, Authorization: `Bearer ${oauthAccessToken}` };
-    }
-
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 8000);
-    const start = Date.now();
-    const res = await fetch(server.url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...effectiveHeaders },
-      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
-      signal: controller.signal,
-    });
-    const pingMs = Date.now() - start;
-    clearTimeout(timer);
-
-    const status = res.status === 401 || res.status === 403
-      ? (tokenExpired ? 'auth-expired' : 'auth-required')
-      : 'online';
-
-    // Parse tools from the POST response inline (avoids a second network request)
-    let tools: string[] | undefined;
-    let toolCount: number | undefined;
-    let toolSchemas: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }> | undefined;
-    if (status === 'online' && res.ok) {
-      try {
-        const data = await res.json() as {
-          result?: { tools?: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }> };
-        };
-        const toolList = data?.result?.tools;
-        if (Array.isArray(toolList)) {
-          tools = toolList.map((t) => t.name).filter(Boolean);
-          toolCount = tools.length;
-          toolSchemas = toolList.map((t) => ({
-            name: t.name,
-            ...(t.description ? { description: t.description } : {}),
-            ...(t.inputSchema ? { inputSchema: t.inputSchema } : {}),
-          }));
-          const now = new Date().toISOString();
-          const updated = servers.map((s) =>
-            s.name === name ? { ...s, tools, toolCount, toolSchemas, lastPingAt: now, lastPingMs: pingMs } : s
-          );
-          await writeServers(c.env.SESSIONS_KV, user.id, updated);
-        }
-      } catch {
-        // Body parse failed — server is reachable but didn't return valid JSON-RPC
-      }
+    const { headers, tokenExpired } = await effectiveHeaders(c.env, user.id, server);
+    const probe = await probeMcpServer({ transport: server.transport, url: server.url, headers }, 8000);
+    const status = pingStatus(probe.httpStatus, tokenExpired);
+
+    const toolSchemas = status === 'online' ? probe.toolSchemas : undefined;
+    if (toolSchemas) {
+      await cacheMcpTools(c.env.SESSIONS_KV, user.id, name, toolSchemas, {
+        at: new Date().toISOString(),
+        ms: probe.pingMs,
+        resources: probe.resources,
+        prompts: probe.prompts,
+      });
     }
 
     return c.json<ApiResponse<{
@@ -682,11 +714,22 @@ mcpRoutes.post('/:name/ping', async (c) => {
       httpStatus: number;
       tools?: string[];
       toolCount?: number;
-      toolSchemas?: typeof toolSchemas;
+      toolSchemas?: McpToolSchema[];
+      resources?: McpResource[];
+      prompts?: McpPrompt[];
       pingMs?: number;
     }>>({
       success: true,
-      data: { status, httpStatus: res.status, tools, toolCount, toolSchemas, pingMs },
+      data: {
+        status,
+        httpStatus: probe.httpStatus,
+        tools: toolSchemas?.map((t) => t.name),
+        toolCount: toolSchemas?.length,
+        toolSchemas,
+        resources: toolSchemas ? probe.resources : undefined,
+        prompts: toolSchemas ? probe.prompts : undefined,
+        pingMs: probe.pingMs,
+      },
     });
   } catch (err) {
     console.error(`[mcp-single-ping] ${name} threw:`, String(err));
@@ -697,19 +740,175 @@ mcpRoutes.post('/:name/ping', async (c) => {
   }
 });
 
+// PUT /:name/tools — cache a tool list the browser read from a local relay server
+mcpRoutes.put('/:name/tools', async (c) => {
+  const user = c.get('user');
+  const name = c.req.param('name');
+
+  const parsed = z.object({
+    tools: McpServerConfigSchema.shape.toolSchemas.unwrap().max(500),
+  }).safeParse(await c.req.json());
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  const cached = await cacheMcpTools(c.env.SESSIONS_KV, user.id, name, parsed.data.tools);
+  if (!cached) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'MCP server not found' }, 404);
+  }
+  return c.json<ApiResponse<{ toolCount: number }>>({ success: true, data: { toolCount: parsed.data.tools.length } });
+});
+
+/** Where the Worker reaches a server directly — HTTP and SSE servers only */
+async function requestTarget(
+  env: Env,
+  userId: string,
+  server: McpServerConfig
+): Promise<McpProbeTarget | null> {
+  if (!isUrlTransport(server.transport) || !server.url) return null;
+  const { headers } = await effectiveHeaders(env, userId, server);
+  return { transport: server.transport, url: server.url, headers };
+}
+
+/** A user's server the Worker can reach, or the error response to return instead */
+async function directServer(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  name: string,
+  method: string
+): Promise<{ server: McpServerConfig; target: McpProbeTarget } | Response> {
+  const user = c.get('user');
+  const server = await findMcpServer(c.env.SESSIONS_KV, user.id, name);
+  if (!server) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Not found' }, 404);
+  }
+  if (!server.enabled) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'MCP server is disabled' }, 400);
+  }
+  const target = await requestTarget(c.env, user.id, server);
+  if (!target) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `${method} is only available for HTTP and SSE servers`,
+    }, 400);
+  }
+  return { server, target };
+}
+
+function mcpRequestFailed(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  name: string,
+  method: string,
+  err: unknown
+) {
+  if (err instanceof McpRequestError) {
+    return c.json<ApiResponse<never>>({ success: false, error: err.message }, err.status);
+  }
+  if ((err as { name?: string } | null)?.name === 'AbortError') {
+    return c.json<ApiResponse<never>>({ success: false, error: 'MCP server timed out' }, 504);
+  }
+  console.error(`[mcp-request] ${name} ${method} threw:`, String(err));
+  return c.json<ApiResponse<never>>({ success: false, error: 'MCP server unreachable' }, 502);
+}
+
+/** Run one MCP request against a user's server, mapped to an API response */
+async function relayMcpRequest(
+  c: Context<{ Bindings: Env; Variables: Variables }>,
+  name: string,
+  method: string,
+  params: Record<string, unknown>
+) {
+  const direct = await directServer(c, name, method);
+  if (direct instanceof Response) return direct;
+
+  try {
+    const result = await requestMcpServer(direct.target, method, params, 15000);
+    return c.json<ApiResponse<Record<string, unknown>>>({ success: true, data: result });
+  } catch (err) {
+    return mcpRequestFailed(c, name, method, err);
+  }
+}
+
+// POST /:name/resources/read — read a resource so it can be attached to a message
+mcpRoutes.post('/:name/resources/read', async (c) => {
+  const parsed = z.object({
+    uri: z.string().min(1, 'Resource URI is required').max(2048),
+  }).safeParse(await c.req.json());
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+  return relayMcpRequest(c, c.req.param('name'), 'resources/read', { uri: parsed.data.uri });
+});
+
+// POST /:name/prompts/get — render a prompt template for use as a slash command
+mcpRoutes.post('/:name/prompts/get', async (c) => {
+  const parsed = z.object({
+    name: z.string().min(1, 'Prompt name is required').max(200),
+    arguments: z.record(z.string().max(10000)).optional(),
+  }).safeParse(await c.req.json());
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+  return relayMcpRequest(c, c.req.param('name'), 'prompts/get', {
+    name: parsed.data.name,
+    arguments: parsed.data.arguments ?? {},
+  });
+});
+
+// POST /:name/tools/call — inspector: call one tool by hand and return the raw exchange
+mcpRoutes.post('/:name/tools/call', async (c) => {
+  const name = c.req.param('name');
+  const parsed = z.object({
+    tool: z.string().min(1, 'Tool name is required').max(200),
+    arguments: z.record(z.unknown()).optional(),
+  }).safeParse(await c.req.json());
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  const direct = await directServer(c, name, 'tools/call');
+  if (direct instanceof Response) return direct;
+  // The sandbox would refuse the call too; 'ask' passes — calling by hand is the approval
+  if (direct.server.toolPolicy?.[parsed.data.tool] === 'deny') {
+    return c.json<ApiResponse<never>>({ success: false, error: `${parsed.data.tool} is denied by this server's tool policy` }, 403);
+  }
+
+  try {
+    const exchange = await exchangeMcpServer(direct.target, 'tools/call', {
+      name: parsed.data.tool,
+      arguments: parsed.data.arguments ?? {},
+    }, 30000);
+    return c.json<ApiResponse<McpExchange>>({ success: true, data: exchange });
+  } catch (err) {
+    return mcpRequestFailed(c, name, 'tools/call', err);
+  }
+});
+
 /**
  * Collect credential files from enabled MCP servers for container injection.
  * Returns an array of { path, content } pairs to write into the container filesystem.
  */
 export async function collectCredentialFiles(
   kv: KVNamespace,
-  userId: string
+  userId: string,
+  gitRepo?: string
 ): Promise<Array<{ path: string; content: string }>> {
   const servers = await readServers(kv, userId);
   const files: Array<{ path: string; content: string }> = [];
 
   for (const server of servers) {
-    if (!server.enabled) continue;
+    if (!server.enabled || !appliesToRepo(server, gitRepo)) continue;
     if (server.credentialFiles && server.credentialFiles.length > 0) {
       for (const cred of server.credentialFiles) {
         files.push({ path: cred.path, content: cred.content });
@@ -720,11 +919,12 @@ export async function collectCredentialFiles(
   return files;
 }
 
-/** Check if a user has any enabled relay-transport MCP servers */
-export async function hasRelayServers(
+/** Look up one of a user's MCP servers by name */
+export async function findMcpServer(
   kv: KVNamespace,
-  userId: string
-): Promise<boolean> {
+  userId: string,
+  name: string
+): Promise<McpServerConfig | undefined> {
   const servers = await readServers(kv, userId);
-  return servers.some((s) => s.transport === 'relay' && s.enabled && s.localUrl);
+  return servers.find((s) => s.name === name);
 }
@@ -0,0 +1,219 @@
+import { Hono } from 'hono';
+import type { Context, Next } from 'hono';
+import { z } from 'zod';
+import type { User, ApiResponse } from '../types';
+import { mcpRoutes } from './mcp';
+import { pluginsRoutes } from './plugins';
+import { configRoutes } from './config';
+import {
+  ORG_ROLES,
+  OrgError,
+  createInvite,
+  createOrg,
+  deleteOrg,
+  getOrg,
+  hasOrgRole,
+  listUserOrgs,
+  memberRole,
+  orgPrincipal,
+  redeemInvite,
+  removeMember,
+  renameOrg,
+  setMemberRole,
+  type Org,
+  type OrgInvite,
+} from '../services/orgs';
+
+type Variables = {
+  user: User;
+};
+
+export const orgRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const OrgNameSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+const InviteSchema = z.object({
+  role: z.enum(['admin', 'member']).default('member'),
+});
+
+const JoinSchema = z.object({
+  code: z.string().min(1).max(64),
+});
+
+const RoleSchema = z.object({
+  role: z.enum(ORG_ROLES),
+});
+
+function orgError(c: Context, err: unknown) {
+  if (err instanceof OrgError) {
+    return c.json<ApiResponse<never>>({ success: false, error: err.message }, err.status);
+  }
+  throw err;
+}
+
+/** Load the org if the caller belongs to it — non-members get the same 404 as a missing org. */
+async function loadMemberOrg(c: Context<{ Bindings: Env; Variables: Variables }>): Promise<Org | null> {
+  const org = await getOrg(c.env.AUTH_KV, c.req.param('orgId') ?? '');
+  return org && memberRole(org, c.get('user').id) ? org : null;
+}
+
+const notFound = { success: false, error: 'Organization not found' } as const;
+const forbidden = { success: false, error: 'Only org admins can change this' } as const;
+
+// GET / — orgs the user belongs to
+orgRoutes.get('/', async (c) => {
+  const orgs = await listUserOrgs(c.env.AUTH_KV, c.get('user').id);
+  return c.json<ApiResponse<Org[]>>({ success: true, data: orgs });
+});
+
+// POST / — create an org; the creator becomes its owner
+orgRoutes.post('/', async (c) => {
+  const parsed = OrgNameSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: parsed.error.issues[0]?.message || 'Invalid input' }, 400);
+  }
+  try {
+    const org = await createOrg(c.env.AUTH_KV, c.get('user'), parsed.data.name);
+    return c.json<ApiResponse<Org>>({ success: true, data: org }, 201);
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// POST /join — redeem an invite code
+orgRoutes.post('/join', async (c) => {
+  const parsed = JoinSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Invite code required' }, 400);
+  }
+  try {
+    const org = await redeemInvite(c.env.AUTH_KV, parsed.data.code.trim(), c.get('user'));
+    return c.json<ApiResponse<Org>>({ success: true, data: org });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// GET /:orgId
+orgRoutes.get('/:orgId', async (c) => {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  return c.json<ApiResponse<Org>>({ success: true, data: org });
+});
+
+// PATCH /:orgId — rename (admin)
+orgRoutes.patch('/:orgId', async (c) => {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  if (!hasOrgRole(org, c.get('user').id, 'admin')) return c.json<ApiResponse<never>>(forbidden, 403);
+
+  const parsed = OrgNameSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: parsed.error.issues[0]?.message || 'Invalid input' }, 400);
+  }
+  const updated = await renameOrg(c.env.AUTH_KV, org, parsed.data.name);
+  return c.json<ApiResponse<Org>>({ success: true, data: updated });
+});
+
+// DELETE /:orgId — owner only. Shared config under the org principal is left
+// to expire with the org; sessions shared with it simply stop resolving.
+orgRoutes.delete('/:orgId', async (c) => {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  if (!hasOrgRole(org, c.get('user').id, 'owner')) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Only org owners can delete it' }, 403);
+  }
+  await deleteOrg(c.env.AUTH_KV, org);
+  return c.json<ApiResponse<{ deleted: boolean }>>({ success: true, data: { deleted: true } });
+});
+
+// POST /:orgId/invites — single-use invite code (admin)
+orgRoutes.post('/:orgId/invites', async (c) => {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  const user = c.get('user');
+  if (!hasOrgRole(org, user.id, 'admin')) return c.json<ApiResponse<never>>(forbidden, 403);
+
+  const parsed = InviteSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Invalid role' }, 400);
+  }
+  const invite = await createInvite(c.env.AUTH_KV, org, parsed.data.role, user.id);
+  return c.json<ApiResponse<OrgInvite>>({ success: true, data: invite }, 201);
+});
+
+// PATCH /:orgId/members/:userId — change a member's role. Only owners grant
+// or revoke ownership; admins manage everyone else.
+orgRoutes.patch('/:orgId/members/:userId', async (c) => {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  const user = c.get('user');
+  const targetId = c.req.param('userId');
+
+  const parsed = RoleSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Invalid role' }, 400);
+  }
+  const touchesOwner = parsed.data.role === 'owner' || memberRole(org, targetId) === 'owner';
+  if (!hasOrgRole(org, user.id, touchesOwner ? 'owner' : 'admin')) {
+    return c.json<ApiResponse<never>>(forbidden, 403);
+  }
+
+  try {
+    const updated = await setMemberRole(c.env.AUTH_KV, org, targetId, parsed.data.role);
+    return c.json<ApiResponse<Org>>({ success: true, data: updated });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// DELETE /:orgId/members/:userId — remove a member (admin), or leave (self)
+orgRoutes.delete('/:orgId/members/:userId', async (c) => {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  const user = c.get('user');
+  const targetId = c.req.param('userId');
+
+  const isSelf = targetId === user.id;
+  const needed = memberRole(org, targetId) === 'owner' ? 'owner' : 'admin';
+  if (!isSelf && !hasOrgRole(org, user.id, needed)) {
+    return c.json<ApiResponse<never>>(forbidden, 403);
+  }
+
+  try {
+    const updated = await removeMember(c.env.AUTH_KV, org, targetId);
+    return c.json<ApiResponse<Org>>({ success: true, data: updated });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+/* ── Shared config ────────────────────────────── */
+
+/**
+ * Run the user-scoped MCP, plugin and config routes against the org principal.
+ * Members can read; only admins can change what every member inherits.
+ */
+async function asOrgPrincipal(c: Context<{ Bindings: Env; Variables: Variables }>, next: Next) {
+  const org = await loadMemberOrg(c);
+  if (!org) return c.json<ApiResponse<never>>(notFound, 404);
+  const user = c.get('user');
+
+  // OAuth start is a GET but stores tokens every member's sessions will use
+  const isRead = c.req.method === 'GET' && !c.req.path.includes('/oauth/');
+  if (!isRead && !hasOrgRole(org, user.id, 'admin')) {
+    return c.json<ApiResponse<never>>(forbidden, 403);
+  }
+
+  c.set('user', { ...user, id: orgPrincipal(org.id) });
+  await next();
+}
+
+orgRoutes.use('/:orgId/mcp/*', asOrgPrincipal);
+orgRoutes.use('/:orgId/plugins/*', asOrgPrincipal);
+orgRoutes.use('/:orgId/config/*', asOrgPrincipal);
+orgRoutes.route('/:orgId/mcp', mcpRoutes);
+orgRoutes.route('/:orgId/plugins', pluginsRoutes);
+orgRoutes.route('/:orgId/config', configRoutes);
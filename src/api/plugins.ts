@@ -5,6 +5,7 @@ import { PluginSchema, PluginItemSchema, McpServerConfigSchema } from '../types'
 import type { SandboxManager } from '../sandbox';
 import { collectUserConfigs } from './config';
 import { collectMcpConfig } from './mcp';
+import { canAccessSession } from '../services/orgs';
 
 type Variables = {
   user: User;
@@ -1023,7 +1024,7 @@ pluginsRoutes.post('/sync/:sessionId', async (c) => {
 
   // Verify session ownership + ensure sandbox is alive
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -1040,7 +1041,7 @@ pluginsRoutes.post('/sync/:sessionId', async (c) => {
     await sandboxManager.injectUserConfigs(sessionId, userConfigs);
 
     // Update KV MCP config so future SDK calls pick up the latest servers
-    const userMcpServers = await collectMcpConfig(c.env.SESSIONS_KV, user.id);
+    const userMcpServers = await collectMcpConfig(c.env, user.id);
     const allMcpServers = {
       ...(userMcpServers || {}),
       ...(pluginConfigs.mcpServers || {}),
@@ -1069,11 +1070,13 @@ pluginsRoutes.post('/sync/:sessionId', async (c) => {
 /**
  * Collect all enabled plugin configs for sandbox injection.
  * Returns flat merged lists of agents, commands, rules, and MCP servers
- * from all enabled plugins with enabled items.
+ * from all enabled plugins with enabled items. Built-ins are skipped for
+ * org principals, whose plugins are layered under a member's own.
  */
 export async function collectPluginConfigs(
   kv: KVNamespace,
-  userId: string
+  userId: string,
+  options: { includeBuiltIns?: boolean } = {}
 ): Promise<{
   agents: Array<{ filename: string; content: string }>;
   commands: Array<{ filename: string; content: string }>;
@@ -1081,7 +1084,7 @@ export async function collectPluginConfigs(
   mcpServers: Record<string, Record<string, unknown>>;
 }> {
   const userPlugins = await readPlugins(kv, userId);
-  const all = mergeWithBuiltIns(userPlugins);
+  const all = options.includeBuiltIns === false ? userPlugins : mergeWithBuiltIns(userPlugins);
   const enabled = all.filter((p) => p.enabled);
 
   const agents: Array<{ filename: string; content: string }> = [];
@@ -0,0 +1,281 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { User, Session, ApiResponse } from '../types';
+import { collectGithubToken } from '../sandbox';
+import { discardSession, provisionSession, SessionProvisionError } from './sessions';
+import { getGithubToken } from './github';
+import { canAccessSession } from '../services/orgs';
+import { loadRedactor, recordSecretAudit, redactSecrets } from '../services/secret-audit';
+import { createModel, getProviderCredentials, type ProviderName } from '../services/ai-provider-factory';
+import {
+  buildGithubReview,
+  fetchPullRequest,
+  getReview,
+  parsePullRequestUrl,
+  postGithubReview,
+  reviewPullRequest,
+  saveReview,
+  type PrReviewRecord,
+} from '../services/pr-review';
+
+type Variables = {
+  user: User;
+  sandboxManager: import('../sandbox').SandboxManager;
+};
+
+export const prReviewRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/* ── Schema ─────────────────────────────────── */
+
+const StartReviewSchema = z.object({
+  url: z.string().min(1).max(500),
+});
+
+const RunReviewSchema = z.object({
+  provider: z.enum(['claude', 'gemini', 'openai']).default('claude'),
+  model: z.string().max(50).optional(),
+});
+
+const PostReviewSchema = z.object({
+  event: z.enum(['COMMENT', 'APPROVE', 'REQUEST_CHANGES']).default('COMMENT'),
+  /** Indices into review.issues; omitted = all */
+  issues: z.array(z.number().int().min(0)).max(500).optional(),
+});
+
+/* ── Routes ─────────────────────────────────── */
+
+// Start a review session: clone at the base and check out the PR head
+prReviewRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
+
+  const parsed = StartReviewSchema.safeParse(await c.req.json().catch(() => ({})));
+  const ref = parsed.success ? parsePullRequestUrl(parsed.data.url) : null;
+  if (!ref) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Enter a GitHub pull request URL, e.g. https://github.com/owner/repo/pull/123',
+    }, 400);
+  }
+
+  const token = await getGithubToken(c.env, user.id);
+  if (!token) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'GitHub not connected' }, 400);
+  }
+
+  const pull = await fetchPullRequest(token, ref.repo, ref.number);
+  if (!pull) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Pull request not found' }, 404);
+  }
+
+  let session: Session;
+  try {
+    session = await provisionSession(c.env, sandboxManager, user, {
+      name: `Review ${ref.repo}#${ref.number}`,
+      gitRepo: `https://github.com/${ref.repo}`,
+      branch: pull.base.ref,
+    }, c.executionCtx, new URL(c.req.url).origin);
+  } catch (error) {
+    if (error instanceof SessionProvisionError) {
+      return c.json<ApiResponse<never>>({ success: false, error: error.message }, error.status);
+    }
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create session',
+    }, 500);
+  }
+
+  // pull/N/head also resolves PRs from forks
+  const cwd = session.projectPath || '/workspace';
+  const branch = `vf/pr-${ref.number}`;
+  if (session.sandboxId) {
+    const fetched = await sandboxManager.execInSandbox(
+      session.sandboxId,
+      ['git', '-C', cwd, 'fetch', 'origin', `pull/${ref.number}/head:${branch}`],
+      { timeout: 60000 }
+    );
+    const checkout = fetched.exitCode === 0
+      ? await sandboxManager.execInSandbox(session.sandboxId, ['git', '-C', cwd, 'checkout', branch])
+      : fetched;
+    if (checkout.exitCode !== 0) {
+      // A review of the base branch would be misleading — drop the session
+      console.error(`[pr-review] checking out ${ref.repo}#${ref.number} failed: ${checkout.stderr}`);
+      await discardSession(c.env, sandboxManager, session.id, c.executionCtx);
+      return c.json<ApiResponse<never>>({
+        success: false,
+        error: `Could not check out ${ref.repo}#${ref.number}: ${checkout.stderr.trim() || `git exited with ${checkout.exitCode}`}`,
+      }, 502);
+    }
+  }
+
+  session.metadata = { ...(session.metadata ?? {}), pullRequest: { repo: ref.repo, number: ref.number } };
+  await c.env.SESSIONS_KV.put(`session:${session.id}`, JSON.stringify(session));
+
+  const record: PrReviewRecord = {
+    sessionId: session.id,
+    repo: ref.repo,
+    number: ref.number,
+    title: pull.title,
+    url: pull.html_url,
+    author: pull.user?.login ?? '',
+    base: pull.base.ref,
+    head: pull.head.ref,
+    headSha: pull.head.sha,
+    createdAt: new Date().toISOString(),
+  };
+  await saveReview(c.env.SESSIONS_KV, record);
+
+  return c.json<ApiResponse<{ session: Session; review: PrReviewRecord }>>({
+    success: true,
+    data: { session, review: record },
+  });
+});
+
+// Get the review for a session
+prReviewRoutes.get('/:sessionId', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  const record = await getReview(c.env.SESSIONS_KV, sessionId);
+  if (!session || !record || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Review not found' }, 404);
+  }
+
+  return c.json<ApiResponse<PrReviewRecord>>({ success: true, data: record });
+});
+
+// Diff the checked-out head against its base and run the structured review
+prReviewRoutes.post('/:sessionId/run', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
+  const sessionId = c.req.param('sessionId');
+
+  const parsed = RunReviewSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  const session = await sandboxManager.getOrWakeSandbox(sessionId);
+  const record = await getReview(c.env.SESSIONS_KV, sessionId);
+  if (!session || !record || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Review not found' }, 404);
+  }
+
+  if (!session.sandboxId) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Sandbox not active' }, 400);
+  }
+
+  const sandboxId = session.sandboxId;
+  const cwd = session.projectPath || '/workspace';
+  const git = (args: string[], timeout?: number) =>
+    sandboxManager.execInSandbox(sandboxId, ['git', '-C', cwd, ...args], timeout ? { timeout } : undefined);
+
+  await git(['fetch', 'origin', record.base], 60000);
+  const diffResult = await git(['diff', `origin/${record.base}...HEAD`]);
+  if (diffResult.exitCode !== 0) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: diffResult.stderr || 'Failed to diff the pull request',
+    }, 500);
+  }
+  if (!diffResult.stdout.trim()) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'The pull request has no changes' }, 409);
+  }
+
+  // The diff leaves the sandbox for the model provider and the browser
+  const redactor = await loadRedactor(c.env, user.id, await collectGithubToken(c.env.AUTH_KV, user.id, c.env));
+  const { text: diff, names } = redactSecrets(redactor, diffResult.stdout);
+  if (names.length > 0) {
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'redacted',
+      source: 'pr-review',
+      names,
+    }));
+  }
+
+  const creds = await getProviderCredentials(c.env, user.id, user.claudeToken);
+  let aiModel;
+  try {
+    aiModel = createModel(parsed.data.provider as ProviderName, creds, parsed.data.model);
+  } catch (err) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to create AI model',
+    }, 400);
+  }
+
+  const token = await getGithubToken(c.env, user.id);
+  const pull = token ? await fetchPullRequest(token, record.repo, record.number) : null;
+
+  try {
+    const review = await reviewPullRequest(aiModel, { title: record.title, body: pull?.body, diff });
+    if (!review) {
+      return c.json<ApiResponse<never>>({ success: false, error: 'Failed to parse the review' }, 500);
+    }
+
+    const headSha = (await git(['rev-parse', 'HEAD'])).stdout.trim();
+    const updated: PrReviewRecord = {
+      ...record,
+      ...(headSha ? { headSha } : {}),
+      diff,
+      review,
+      reviewedAt: new Date().toISOString(),
+    };
+    await saveReview(c.env.SESSIONS_KV, updated);
+    return c.json<ApiResponse<PrReviewRecord>>({ success: true, data: updated });
+  } catch (err) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: err instanceof Error ? err.message : 'Review failed',
+    }, 500);
+  }
+});
+
+// Post the selected issues to GitHub as a pull request review
+prReviewRoutes.post('/:sessionId/post', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const parsed = PostReviewSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  const record = await getReview(c.env.SESSIONS_KV, sessionId);
+  if (!session || !record || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Review not found' }, 404);
+  }
+
+  if (!record.review) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'Run the review first' }, 409);
+  }
+
+  const token = await getGithubToken(c.env, user.id);
+  if (!token) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'GitHub not connected' }, 400);
+  }
+
+  const include = parsed.data.issues ?? record.review.issues.map((_, i) => i);
+  const payload = buildGithubReview({ ...record, review: record.review }, include, parsed.data.event);
+  const result = await postGithubReview(token, record, payload);
+  if (!result.ok) {
+    return c.json<ApiResponse<never>>({ success: false, error: result.error }, 502);
+  }
+
+  const updated: PrReviewRecord = {
+    ...record,
+    posted: { at: new Date().toISOString(), url: result.url, event: parsed.data.event },
+  };
+  await saveReview(c.env.SESSIONS_KV, updated);
+  return c.json<ApiResponse<PrReviewRecord>>({ success: true, data: updated });
+});
@@ -1,7 +1,7 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { streamText, smoothStream, tool, stepCountIs, convertToModelMessages } from 'ai';
-import type { User, ApiResponse } from '../types';
+import type { User, ApiResponse, Session } from '../types';
 import type { SandboxManager } from '../sandbox';
 import {
   createModel,
@@ -11,8 +11,9 @@ import {
   type ProviderName,
   type ProviderCredentials,
 } from '../services/ai-provider-factory';
-import { searchEmbeddings } from '../services/embeddings';
-import { assertSessionOwnership } from '../utils/assert-session-ownership';
+import { grepCommand, hybridSearch } from '../services/code-search';
+import { vectorStoreFactory } from '../services/vector-store';
+import { canAccessSession } from '../services/orgs';
 
 type Variables = { user: User; sandboxManager: SandboxManager };
 
@@ -199,9 +200,7 @@ function createSandboxTools(
       }),
       execute: async ({ pattern, path }) => {
         const dir = path || '/workspace';
-        const glob = '*.{ts,tsx,js,jsx,json,md,css,html,py,rs,go}';
-        const cmd = `grep -rn --include=${shellEscape(glob)} ${shellEscape(pattern)} ${shellEscape(dir)} | head -50`;
-        const result = await sandboxManager.execInSandbox(sessionId, cmd);
+        const result = await sandboxManager.execInSandbox(sessionId, grepCommand(pattern, dir));
         return result.stdout || result.stderr || 'No matches found';
       },
     }),
@@ -322,20 +321,25 @@ function createSandboxTools(
   return {
     ...baseTools,
     semanticSearch: tool({
-      description: 'Search workspace files by meaning/concept. Use for architecture, functionality, or "where is X?" questions. More powerful than grep for conceptual queries.',
+      description: 'Search workspace code by meaning/concept, blended with grep matches. Returns matching sections as path:startLine-endLine. Use for architecture, functionality, or "where is X?" questions. More powerful than grep for conceptual queries.',
       inputSchema: z.object({
         query: z.string().describe('Natural language description of what to find'),
         topK: z.number().min(1).max(20).default(5).describe('Number of results'),
+        pattern: z.string().optional().describe('Optional grep regex to blend in (defaults to terms from the query)'),
       }),
-      execute: async ({ query, topK }) => {
-        const results = await searchEmbeddings(
-          env.SESSIONS_KV, userId, sessionId, query, embeddingModel, topK
+      execute: async ({ query, topK, pattern }) => {
+        const results = await hybridSearch(
+          env.SESSIONS_KV, vectorStoreFactory(env), sandboxManager,
+          userId, sessionId, query, embeddingModel, topK, pattern
         );
-        if (!results || results.length === 0) {
+        if (!results) {
           return 'No embeddings index found. The workspace needs to be indexed first (happens automatically on session create, or use the Re-index button).';
         }
+        if (results.length === 0) {
+          return 'No matches found';
+        }
         return results
-          .map((r) => `[${(r.score * 100).toFixed(0)}%] ${r.path}\n  ${r.snippet}`)
+          .map((r) => `[${(r.score * 100).toFixed(0)}%] ${r.path}:${r.startLine}-${r.endLine}\n  ${r.snippet}`)
           .join('\n\n');
       },
     }),
@@ -434,7 +438,7 @@ quickchatRoutes.post('/stream', async (c) => {
 
   // Get credentials
   const creds = await getProviderCredentials(
-    c.env.SESSIONS_KV,
+    c.env,
     user.id,
     user.claudeToken
   );
@@ -453,13 +457,11 @@ quickchatRoutes.post('/stream', async (c) => {
     );
   }
 
-  // Verify session ownership before granting sandbox tool access
+  // Verify session access before granting sandbox tool access (the tools can run commands)
   if (sessionId) {
-    try {
-      await assertSessionOwnership(c.env.SESSIONS_KV, sessionId, user.id);
-    } catch (err) {
-      if (err instanceof Response) return err;
-      throw err;
+    const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+    if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
+      return c.json<ApiResponse<never>>({ success: false, error: 'Session not found' }, 404);
     }
   }
 
@@ -482,11 +484,11 @@ quickchatRoutes.post('/stream', async (c) => {
   ];
   if (hasSemanticSearch) {
     systemParts.push(
-      'You have access to a semanticSearch tool that finds files by meaning.',
+      'You have access to a semanticSearch tool that finds code sections by meaning.',
       'Use it proactively when the user asks about code architecture,',
       'functionality, or "where is X?" questions.',
-      'After using semanticSearch, reference the specific files you found',
-      'in your response with full paths.'
+      'Results are path:startLine-endLine ranges. After using semanticSearch,',
+      'reference the specific files and line ranges you found with full paths.'
     );
   }
 
@@ -709,7 +711,7 @@ quickchatRoutes.get('/list', async (c) => {
   const user = c.get('user');
   const [chatList, availableProviders] = await Promise.all([
     readChatList(c.env.SESSIONS_KV, user.id),
-    getAvailableProviders(c.env.SESSIONS_KV, user.id, user.claudeToken),
+    getAvailableProviders(c.env, user.id, user.claudeToken),
   ]);
 
   return c.json<
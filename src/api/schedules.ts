@@ -0,0 +1,346 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { User, Session, ApiResponse } from '../types';
+import { SandboxManager } from '../sandbox';
+import { canAccessSession } from '../services/orgs';
+import {
+  generateWebhookSecret,
+  validateDelivery,
+  type AlertChannel,
+  type AlertDeliveryConfig,
+} from '../services/alert-delivery';
+import {
+  MAX_JOBS_PER_USER,
+  ScheduleError,
+  assertMinInterval,
+  completeJobRun,
+  computeNextRun,
+  deleteJob,
+  expireStaleRuns,
+  getJob,
+  isValidTimezone,
+  listDueJobs,
+  listJobs,
+  listRuns,
+  parseCron,
+  recordRun,
+  saveJob,
+  type JobRun,
+  type JobRunRef,
+  type ScheduledJob,
+} from '../services/scheduled-jobs';
+import { provisionSession } from './sessions';
+
+type Variables = {
+  user: User;
+  sandboxManager: SandboxManager;
+};
+
+export const scheduleRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const JobSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  /** Five-field cron, e.g. "0 7 * * 1-5" for weekdays at 7am */
+  schedule: z.string().trim().min(1),
+  timezone: z.string().default('UTC'),
+  prompt: z.string().trim().min(1).max(50_000),
+  /** Reuse this session for every run; omit to start a fresh session per run */
+  sessionId: z.string().optional(),
+  gitRepo: z.string().url().refine(
+    (url) => url.startsWith('https://'),
+    { message: 'gitRepo must use https://' }
+  ).optional(),
+  branch: z.string().optional(),
+  model: z.string().optional(),
+  enabled: z.boolean().default(true),
+  channels: z.array(z.enum(['in-app', 'webhook', 'email'])).default(['in-app']),
+  webhookUrl: z.string().optional(),
+  emailTo: z.array(z.string()).optional(),
+});
+
+type JobInput = z.infer<typeof JobSchema>;
+
+/* ── Validation ───────────────────────────────── */
+
+async function assertTarget(env: Env, userId: string, sessionId: string): Promise<void> {
+  const session = await env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (
+    !session
+    || session.status === 'terminated'
+    || session.status === 'pending-delete'
+    || !(await canAccessSession(env.AUTH_KV, session, userId, 'write'))
+  ) {
+    throw new ScheduleError('Target session not found', 404);
+  }
+}
+
+/**
+ * Build a job from validated input, checking everything zod can't: the cron
+ * expression, timezone, target session and notification targets. An existing
+ * webhook keeps its signing secret while the URL is unchanged.
+ */
+async function buildJob(
+  env: Env,
+  userId: string,
+  input: JobInput,
+  previous?: ScheduledJob
+): Promise<ScheduledJob> {
+  assertMinInterval(parseCron(input.schedule));
+  if (!isValidTimezone(input.timezone)) throw new ScheduleError(`Unknown timezone: ${input.timezone}`);
+  if (!computeNextRun(input)) throw new ScheduleError('Schedule never fires');
+  if (input.sessionId && input.gitRepo) throw new ScheduleError('Pick either sessionId or gitRepo, not both');
+  if (input.sessionId) await assertTarget(env, userId, input.sessionId);
+
+  const channels = input.channels as AlertChannel[];
+  const webhookUrl = input.webhookUrl?.trim();
+  const emailTo = input.emailTo?.map((addr) => addr.trim()).filter(Boolean);
+  const invalid = validateDelivery(channels, { webhookUrl, emailTo });
+  if (invalid) throw new ScheduleError(invalid);
+
+  const delivery: AlertDeliveryConfig = {};
+  if (channels.includes('webhook') && webhookUrl) {
+    const prior = previous?.notify.delivery.webhook;
+    delivery.webhook = { url: webhookUrl, secret: prior?.url === webhookUrl ? prior.secret : generateWebhookSecret() };
+  }
+  if (channels.includes('email') && emailTo) delivery.email = { to: emailTo };
+
+  const now = new Date().toISOString();
+  return {
+    ...previous,
+    id: previous?.id ?? crypto.randomUUID(),
+    userId,
+    name: input.name,
+    schedule: input.schedule,
+    timezone: input.timezone,
+    prompt: input.prompt,
+    sessionId: input.sessionId,
+    gitRepo: input.sessionId ? undefined : input.gitRepo,
+    branch: input.sessionId ? undefined : input.branch,
+    model: input.model,
+    enabled: input.enabled,
+    notify: { channels, delivery },
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/** The editable fields of a stored job, in JobSchema's shape. */
+function jobInput(job: ScheduledJob): JobInput {
+  return {
+    name: job.name,
+    schedule: job.schedule,
+    timezone: job.timezone,
+    prompt: job.prompt,
+    sessionId: job.sessionId,
+    gitRepo: job.gitRepo,
+    branch: job.branch,
+    model: job.model,
+    enabled: job.enabled,
+    channels: job.notify.channels,
+    webhookUrl: job.notify.delivery.webhook?.url,
+    emailTo: job.notify.delivery.email?.to,
+  };
+}
+
+function errorResponse(error: unknown): { message: string; status: 400 | 404 | 409 | 500 } {
+  if (error instanceof ScheduleError) return { message: error.message, status: error.status };
+  return { message: error instanceof Error ? error.message : 'Request failed', status: 500 };
+}
+
+/* ── Running ──────────────────────────────────── */
+
+/**
+ * Start one run: resolve (or create) the session, then queue the prompt on
+ * its ChatSessionAgent in autonomous mode. The agent reports the outcome
+ * when the run ends; failures before that point are reported here.
+ */
+export async function startJobRun(
+  env: Env,
+  ctx: ExecutionContext,
+  job: ScheduledJob,
+  trigger: JobRun['trigger']
+): Promise<JobRun> {
+  const run: JobRun = {
+    id: crypto.randomUUID(),
+    jobId: job.id,
+    trigger,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+  };
+  await recordRun(env.SESSIONS_KV, run);
+  const ref: JobRunRef = { userId: job.userId, jobId: job.id, runId: run.id };
+
+  try {
+    const user = await env.AUTH_KV.get<User>(`user:${job.userId}`, 'json');
+    if (!user) throw new ScheduleError('Job owner account not found', 404);
+
+    if (job.sessionId) {
+      await assertTarget(env, user.id, job.sessionId);
+      run.sessionId = job.sessionId;
+    } else {
+      const sandboxManager = new SandboxManager(env.Sandbox, env.SESSIONS_KV, env.FILES_BUCKET);
+      const session = await provisionSession(env, sandboxManager, user, {
+        name: `${job.name} (${run.startedAt.slice(0, 16).replace('T', ' ')})`,
+        gitRepo: job.gitRepo,
+        branch: job.branch,
+      }, ctx, env.WORKER_BASE_URL);
+      run.sessionId = session.id;
+    }
+    await recordRun(env.SESSIONS_KV, run);
+
+    const stub = env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(run.sessionId));
+    const res = await stub.fetch(new Request('https://do/enqueue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId: run.sessionId,
+        userId: user.id,
+        email: user.email,
+        prompt: job.prompt,
+        model: job.model,
+        autonomy: 'autonomous',
+        jobRun: ref,
+      }),
+    }));
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(body.error || `Queueing the prompt failed (HTTP ${res.status})`);
+    }
+    return run;
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await completeJobRun(env, ref, { status: 'failed', error, sessionId: run.sessionId });
+    return { ...run, status: 'failed', error, endedAt: new Date().toISOString() };
+  }
+}
+
+/**
+ * Cron entry point: start every job whose next run has passed. Each job is
+ * advanced to its following slot before starting, so a slow or failing run
+ * is never picked up twice. A slot that comes due while the previous run is
+ * still going is skipped, as the manual run route refuses it.
+ */
+export async function runDueJobs(env: Env, ctx: ExecutionContext): Promise<number> {
+  const now = new Date();
+  const due = await listDueJobs(env.SESSIONS_KV, now);
+  let started = 0;
+
+  for (const entry of due) {
+    await env.SESSIONS_KV.delete(entry.key);
+    const job = await getJob(env.SESSIONS_KV, entry.userId, entry.jobId);
+    // KV lists lag deletes — skip index entries the job has already moved past
+    if (!job || !job.enabled || job.nextRunAt !== entry.nextRunAt) continue;
+
+    try {
+      const running = expireStaleRuns(await listRuns(env.SESSIONS_KV, job.id)).some((r) => r.status === 'running');
+      if (running) {
+        await saveJob(env.SESSIONS_KV, job, job);
+        console.log(`[schedules] job ${job.id.slice(0, 8)} still running, skipping this slot`);
+        continue;
+      }
+      const saved = await saveJob(env.SESSIONS_KV, { ...job, lastRunAt: now.toISOString() }, job);
+      ctx.waitUntil(startJobRun(env, ctx, saved, 'schedule'));
+      started++;
+    } catch (err) {
+      console.error(`[schedules] job ${job.id.slice(0, 8)} failed to start:`, err);
+    }
+  }
+  return started;
+}
+
+/* ── Routes ───────────────────────────────────── */
+
+// GET /api/schedules
+scheduleRoutes.get('/', async (c) => {
+  const user = c.get('user');
+  const jobs = await listJobs(c.env.SESSIONS_KV, user.id);
+  return c.json<ApiResponse<{ jobs: ScheduledJob[] }>>({ success: true, data: { jobs } });
+});
+
+// POST /api/schedules
+scheduleRoutes.post('/', async (c) => {
+  const user = c.get('user');
+  const parsed = JobSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: parsed.error.message }, 400);
+  }
+
+  const existing = await listJobs(c.env.SESSIONS_KV, user.id);
+  if (existing.length >= MAX_JOBS_PER_USER) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `You can have at most ${MAX_JOBS_PER_USER} scheduled jobs`,
+    }, 409);
+  }
+
+  try {
+    const job = await saveJob(c.env.SESSIONS_KV, await buildJob(c.env, user.id, parsed.data));
+    return c.json<ApiResponse<{ job: ScheduledJob }>>({ success: true, data: { job } });
+  } catch (error) {
+    const { message, status } = errorResponse(error);
+    return c.json<ApiResponse<never>>({ success: false, error: message }, status);
+  }
+});
+
+// GET /api/schedules/:jobId
+scheduleRoutes.get('/:jobId', async (c) => {
+  const user = c.get('user');
+  const job = await getJob(c.env.SESSIONS_KV, user.id, c.req.param('jobId'));
+  if (!job) return c.json<ApiResponse<never>>({ success: false, error: 'Job not found' }, 404);
+  return c.json<ApiResponse<{ job: ScheduledJob }>>({ success: true, data: { job } });
+});
+
+// PATCH /api/schedules/:jobId — any subset of the create fields
+scheduleRoutes.patch('/:jobId', async (c) => {
+  const user = c.get('user');
+  const job = await getJob(c.env.SESSIONS_KV, user.id, c.req.param('jobId'));
+  if (!job) return c.json<ApiResponse<never>>({ success: false, error: 'Job not found' }, 404);
+
+  const parsed = JobSchema.partial().safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({ success: false, error: parsed.error.message }, 400);
+  }
+  const patch = Object.fromEntries(Object.entries(parsed.data).filter(([, v]) => v !== undefined));
+
+  try {
+    const updated = await buildJob(c.env, user.id, { ...jobInput(job), ...patch }, job);
+    const saved = await saveJob(c.env.SESSIONS_KV, updated, job);
+    return c.json<ApiResponse<{ job: ScheduledJob }>>({ success: true, data: { job: saved } });
+  } catch (error) {
+    const { message, status } = errorResponse(error);
+    return c.json<ApiResponse<never>>({ success: false, error: message }, status);
+  }
+});
+
+// DELETE /api/schedules/:jobId
+scheduleRoutes.delete('/:jobId', async (c) => {
+  const user = c.get('user');
+  const job = await getJob(c.env.SESSIONS_KV, user.id, c.req.param('jobId'));
+  if (!job) return c.json<ApiResponse<never>>({ success: false, error: 'Job not found' }, 404);
+  await deleteJob(c.env.SESSIONS_KV, job);
+  return c.json<ApiResponse<{ deleted: true }>>({ success: true, data: { deleted: true } });
+});
+
+// GET /api/schedules/:jobId/runs — newest first
+scheduleRoutes.get('/:jobId/runs', async (c) => {
+  const user = c.get('user');
+  const job = await getJob(c.env.SESSIONS_KV, user.id, c.req.param('jobId'));
+  if (!job) return c.json<ApiResponse<never>>({ success: false, error: 'Job not found' }, 404);
+  const runs = expireStaleRuns(await listRuns(c.env.SESSIONS_KV, job.id));
+  return c.json<ApiResponse<{ runs: JobRun[] }>>({ success: true, data: { runs } });
+});
+
+// POST /api/schedules/:jobId/run — run now, outside the schedule
+scheduleRoutes.post('/:jobId/run', async (c) => {
+  const user = c.get('user');
+  const job = await getJob(c.env.SESSIONS_KV, user.id, c.req.param('jobId'));
+  if (!job) return c.json<ApiResponse<never>>({ success: false, error: 'Job not found' }, 404);
+
+  const running = expireStaleRuns(await listRuns(c.env.SESSIONS_KV, job.id)).some((r) => r.status === 'running');
+  if (running) {
+    return c.json<ApiResponse<never>>({ success: false, error: 'This job already has a run in progress' }, 409);
+  }
+
+  const run = await startJobRun(c.env, c.executionCtx, job, 'manual');
+  return c.json<ApiResponse<{ run: JobRun }>>({ success: true, data: { run } });
+});
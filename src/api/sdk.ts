@@ -1,10 +1,19 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { User, Session, Message, ApiResponse } from '../types';
-import { collectProjectSecrets, collectUserSecrets } from '../sandbox';
+import { collectProjectSecrets, collectUserSecrets, filterUserSecrets, sessionSecretSelection, toolPolicyEnv } from '../sandbox';
 import type { SandboxManager } from '../sandbox';
 import { summarizeSession } from '../services/session-summarizer';
+import { readScopedUserSecrets } from '../services/user-secrets';
+import { recordSecretAudit } from '../services/secret-audit';
+import { recordUsage, usageFromDoneEvent } from '../services/usage-ledger';
+import { budgetEvent, checkBudget, type BudgetVerdict } from '../services/budget';
+import { MODEL_ALIASES } from '../agents/chat-session-agent';
+import type { AlertConfig } from './billing';
+import { checkUsageAlerts, takeAlertNotices } from '../services/usage-alerts';
 import { assembleSandboxConfig, assembleSandboxConfigWithHashes } from '../config-assembly';
+import { recordRelayUser } from '../services/mcp-policy';
+import { canAccessSession } from '../services/orgs';
 
 type Variables = {
   user: User;
@@ -25,6 +34,35 @@ function shellEscape(s: string): string {
   return `'${s.replace(/'/g, "'\\''")}'`;
 }
 
+/** Append a `done` event's usage to the ledger and fire crossed alerts. Never fails the stream. */
+async function recordStreamUsage(
+  env: Env,
+  ctx: Pick<ExecutionContext, 'waitUntil'>,
+  msg: Record<string, unknown>,
+  promptId: string,
+  userId: string,
+  session: Session
+): Promise<void> {
+  const entry = usageFromDoneEvent(msg, {
+    promptId,
+    userId,
+    sessionId: session.id,
+    gitRepo: session.gitRepo,
+  });
+  if (!entry) return;
+  try {
+    await recordUsage(env.AUTH_KV, entry);
+  } catch (err) {
+    console.error('[sdk/stream] usage ledger write failed:', err);
+    return;
+  }
+  try {
+    await checkUsageAlerts(env, ctx, userId, session.id);
+  } catch (err) {
+    console.error('[sdk/stream] alert check failed:', err);
+  }
+}
+
 // POST /api/sdk/stream - True progressive streaming via SDK in container
 sdkRoutes.post('/stream', async (c) => {
   const user = c.get('user');
@@ -58,13 +96,13 @@ sdkRoutes.post('/stream', async (c) => {
   const { sessionId, prompt, cwd: requestCwd, mode } = parsed.data;
 
   // Assemble config from KV so we can re-inject on container wake
-  const sandboxConfig = await assembleSandboxConfig(c.env.SESSIONS_KV, user.id);
+  const sandboxConfig = await assembleSandboxConfig(c.env, user.id, { sessionId });
 
   // Verify session ownership + ensure sandbox is awake and healthy
   // Pass config so ensureConfigInjected can restore files after recycle
   const session = await sandboxManager.getOrWakeSandbox(sessionId, sandboxConfig);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found or sandbox terminated. Create a new session.',
@@ -77,6 +115,24 @@ sdkRoutes.post('/stream', async (c) => {
       error: 'Sandbox not active',
     }, 400);
   }
+  await recordRelayUser(c.env.SESSIONS_KV, sessionId, user.id);
+
+  let budget: BudgetVerdict | null = null;
+  try {
+    budget = await checkBudget(c.env.SESSIONS_KV, c.env.AUTH_KV, user.id, sessionId);
+  } catch (err) {
+    console.error('[sdk/stream] budget check failed (non-fatal):', err);
+  }
+  if (budget?.action === 'refuse') {
+    const events = [
+      { type: 'error', content: budget.message, code: 'budget-exceeded' },
+      { type: 'done', sessionId: session.sdkSessionId || '', fullText: '' },
+    ];
+    return new Response(
+      events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n',
+      { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache, no-transform' } }
+    );
+  }
 
   const sdkSessionId = session.sdkSessionId || '';
   const cwd = requestCwd || session.projectPath || '/workspace';
@@ -132,6 +188,15 @@ sdkRoutes.post('/stream', async (c) => {
       ? JSON.stringify(freshMcpConfig)
       : null;
 
+    const userSecrets = await collectUserSecrets(c.env, user.id, sessionSecretSelection(session));
+    c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+      userId: user.id,
+      sessionId,
+      kind: 'injected',
+      source: 'sdk-stream',
+      names: Object.keys(userSecrets),
+    }));
+
     // Get streaming output from sandbox
     const stream = await sandboxManager.execStreamInSandbox(
       session.sandboxId,
@@ -143,11 +208,12 @@ sdkRoutes.post('/stream', async (c) => {
           NODE_PATH: '/usr/local/lib/node_modules',
           CLAUDE_CONFIG_DIR: '/root/.claude',
           ...collectProjectSecrets(c.env),
-          ...await collectUserSecrets(c.env.SESSIONS_KV, user.id),
+          ...userSecrets,
           ...(mcpConfigStr ? { CLAUDE_MCP_SERVERS: mcpConfigStr } : {}),
           VF_SESSION_MODE: mode,
           VF_AUTO_CONTEXT: sandboxConfig.autoContext === false ? '0' : '1',
           VF_STORED_BUILD: session.containerBuild || '',
+          ...(budget?.model ? { VF_MODEL: MODEL_ALIASES[budget.model] || budget.model } : {}),
         },
         timeout: 300000,
       }
@@ -177,6 +243,7 @@ sdkRoutes.post('/stream', async (c) => {
 
       // Send initial event so frontend knows the stream is connected
       await writeEvent({ type: 'connected' });
+      if (budget) await writeEvent(budgetEvent(budget));
 
       // Notify frontend if config was restored after container recycle
       const meta = (session.metadata ?? {}) as Record<string, unknown>;
@@ -288,6 +355,7 @@ sdkRoutes.post('/stream', async (c) => {
                     fullText = (msg.fullText as string) || fullText;
                     newSdkSessionId = (msg.sessionId as string) || newSdkSessionId;
                     if (msg.containerBuild) newContainerBuild = msg.containerBuild as string;
+                    await recordStreamUsage(c.env, c.executionCtx, msg, userMessageId, user.id, session);
                     await writeEvent({
                       type: 'done',
                       sessionId: newSdkSessionId,
@@ -461,7 +529,7 @@ sdkRoutes.post('/persist', async (c) => {
     costUsd?: number;
   }>();
 
-  const { sessionId, content, sdkSessionId, containerBuild, costUsd } = body;
+  const { sessionId, content, sdkSessionId, containerBuild } = body;
   if (!sessionId) {
     return c.json<ApiResponse<never>>({ success: false, error: 'Missing sessionId' }, 400);
   }
@@ -527,7 +595,7 @@ sdkRoutes.post('/persist', async (c) => {
     .then((r) => r.keys.length)
     .catch(() => 0);
   if (messageCount > 0 && messageCount % 10 === 0) {
-    summarizeSession(c.env.SESSIONS_KV, user.id, sessionId)
+    summarizeSession(c.env, user.id, sessionId)
       .then(async (summary) => {
         if (!summary) return;
         // Store in KV for UI retrieval
@@ -547,77 +615,17 @@ sdkRoutes.post('/persist', async (c) => {
       .catch(() => {});
   }
 
-  // Check usage alerts if cost data available
-  let triggeredAlerts: import('./billing').AlertConfig[] = [];
-  if (typeof costUsd === 'number' && costUsd > 0) {
-    try {
-      triggeredAlerts = await checkUsageAlerts(c.env, user.id, sessionId, costUsd);
-    } catch (e) {
-      console.error('[persist] alert check failed:', e);
-    }
+  // Alerts are checked where usage hits the ledger; hand back any fired since the last persist
+  let triggeredAlerts: AlertConfig[] = [];
+  try {
+    triggeredAlerts = await takeAlertNotices(c.env.SESSIONS_KV, user.id, sessionId);
+  } catch (e) {
+    console.error('[persist] alert notice read failed:', e);
   }
 
   return c.json({ success: true, triggeredAlerts });
 });
 
-// ─── Alert Triggering ─────────────────────────────────────────────────────────
-
-async function checkUsageAlerts(
-  env: Env,
-  userId: string,
-  sessionId: string,
-  costUsd: number
-): Promise<import('./billing').AlertConfig[]> {
-  // Read max budget (user-config:{userId}:max-budget-usd)
-  const maxBudgetRaw = await env.AUTH_KV.get(`user-config:${userId}:max-budget-usd`);
-  const maxBudgetUsd = maxBudgetRaw ? parseFloat(maxBudgetRaw) : null;
-  if (!maxBudgetUsd || maxBudgetUsd <= 0) return [];
-
-  // Accumulate session spend
-  const spendKey = `session-spend:${sessionId}`;
-  const prevRaw = await env.SESSIONS_KV.get(spendKey);
-  const prevSpend = prevRaw ? parseFloat(prevRaw) : 0;
-  const newSpend = prevSpend + costUsd;
-  await env.SESSIONS_KV.put(spendKey, String(newSpend), { expirationTtl: 7 * 24 * 60 * 60 });
-
-  // Read which alerts have already fired this session
-  const firedKey = `session-alert-fired:${sessionId}`;
-  const firedRaw = await env.SESSIONS_KV.get(firedKey);
-  const firedIds: string[] = firedRaw ? (JSON.parse(firedRaw) as string[]) : [];
-
-  // Load user's billing alerts
-  const alertsRaw = await env.AUTH_KV.get(`billing-alerts:${userId}`);
-  if (!alertsRaw) return [];
-  const alerts = JSON.parse(alertsRaw) as import('./billing').AlertConfig[];
-
-  const spendPct = (newSpend / maxBudgetUsd) * 100;
-  const nowIso = new Date().toISOString();
-  const newlyTriggered: import('./billing').AlertConfig[] = [];
-  const newFiredIds = [...firedIds];
-
-  for (const alert of alerts) {
-    if (!alert.enabled) continue;
-    if (firedIds.includes(alert.id)) continue;
-    if (spendPct < alert.thresholdPct) continue;
-
-    // Threshold crossed — mark as triggered
-    alert.triggeredAt = nowIso;
-    alert.triggeredCount += 1;
-    newlyTriggered.push({ ...alert });
-    newFiredIds.push(alert.id);
-  }
-
-  if (newlyTriggered.length === 0) return [];
-
-  // Persist updated alert records and fired set
-  await Promise.all([
-    env.AUTH_KV.put(`billing-alerts:${userId}`, JSON.stringify(alerts)),
-    env.SESSIONS_KV.put(firedKey, JSON.stringify(newFiredIds), { expirationTtl: 7 * 24 * 60 * 60 }),
-  ]);
-
-  return newlyTriggered;
-}
-
 // GET /api/sdk/replay/:sessionId?msgId=&offset= — serve buffered chunks for reconnect
 sdkRoutes.get('/replay/:sessionId', async (c) => {
   const user = c.get('user');
@@ -641,7 +649,7 @@ sdkRoutes.get('/replay/:sessionId', async (c) => {
     return c.json({ error: 'Session not found' }, 404);
   }
   const session = JSON.parse(raw);
-  if (session.userId !== user.id) {
+  if (!(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json({ error: 'Unauthorized' }, 403);
   }
 
@@ -673,7 +681,7 @@ sdkRoutes.get('/summary/:sessionId', async (c) => {
   const sessionId = c.req.param('sessionId');
 
   const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json({ success: false, error: 'Not found' }, 404);
   }
 
@@ -692,7 +700,8 @@ export async function handleSdkWs(
   env: Env,
   request: Request,
   user: User,
-  sandboxManager: SandboxManager
+  sandboxManager: SandboxManager,
+  ctx: Pick<ExecutionContext, 'waitUntil'>
 ): Promise<Response> {
   const url = new URL(request.url);
   const sessionId = url.searchParams.get('sessionId') || '';
@@ -724,9 +733,9 @@ export async function handleSdkWs(
   const t0 = Date.now();
 
   // --- Phase 1: Config assembly + user secrets in parallel (both are KV reads) ---
-  const [{ config: sandboxConfig, hashes }, userSecrets] = await Promise.all([
-    assembleSandboxConfigWithHashes(env.SESSIONS_KV, user.id),
-    collectUserSecrets(env.SESSIONS_KV, user.id),
+  const [{ config: sandboxConfig, hashes }, scopedSecrets] = await Promise.all([
+    assembleSandboxConfigWithHashes(env, user.id, { sessionId }),
+    readScopedUserSecrets(env, user.id),
   ]);
   const t1 = Date.now();
   console.log(`[sdk/ws] Phase 1 (config+secrets): ${t1 - t0}ms`);
@@ -734,14 +743,23 @@ export async function handleSdkWs(
   // --- Phase 2: Wake sandbox (needs config for restore path) ---
   const session = await sandboxManager.getOrWakeSandbox(sessionId, sandboxConfig);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(env.AUTH_KV, session, user.id, 'write'))) {
     return new Response('Session not found', { status: 404 });
   }
   if (!session.sandboxId) {
     return new Response('Sandbox not active', { status: 400 });
   }
+  await recordRelayUser(env.SESSIONS_KV, sessionId, user.id);
   const t2 = Date.now();
   console.log(`[sdk/ws] Phase 2 (wake): ${t2 - t1}ms`);
+  const userSecrets = filterUserSecrets(scopedSecrets, sessionSecretSelection(session));
+  ctx.waitUntil(recordSecretAudit(env.SESSIONS_KV, {
+    userId: user.id,
+    sessionId,
+    kind: 'injected',
+    source: 'sdk-ws',
+    names: Object.keys(userSecrets),
+  }));
 
   // Strip command/agent prefix — content is embedded in prompt (1code pattern).
   // Frontend sends [command:/name]\n<content> or [agent:/name]\n<content>.
@@ -817,6 +835,7 @@ export async function handleSdkWs(
         VF_AUTONOMY_MODE: autonomyParam,
         ...(msgId ? { VF_MSG_ID: msgId } : {}),
         ...(sandboxConfig.maxBudgetUsd ? { VF_MAX_BUDGET_USD: String(sandboxConfig.maxBudgetUsd) } : {}),
+        ...toolPolicyEnv(sandboxConfig),
       },
     });
 
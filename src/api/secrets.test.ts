@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import type { User } from '../types';
+import { secretsRoutes } from './secrets';
+import { readUserSecrets, userSecretsKey } from '../services/user-secrets';
+import { memoryKv } from '../test-utils/memory-kv';
+
+const admin = { id: 'admin', email: 'admin@example.com', role: 'admin' } as User;
+
+function app() {
+  const root = new Hono<{ Bindings: Env; Variables: { user: User } }>();
+  root.use('*', async (c, next) => {
+    c.set('user', admin);
+    await next();
+  });
+  root.route('/', secretsRoutes);
+  return root;
+}
+
+describe('POST /admin/migrate', () => {
+  it('seals records whose owner has no user record left', async () => {
+    const sessions = new Map([
+      [userSecretsKey('u-lapsed'), JSON.stringify({ API_KEY: 'plain' })],
+      ['mcp:oauth:state:abc', JSON.stringify({ userId: 'u-lapsed' })],
+    ]);
+    const env = { AUTH_KV: memoryKv(), SESSIONS_KV: memoryKv(sessions), SECRETS_MASTER_KEY: 'master-one' } as unknown as Env;
+
+    const owners: number[] = [];
+    let cursor: string | null = '';
+    do {
+      const res = await app().request(`/admin/migrate?cursor=${encodeURIComponent(cursor)}`, { method: 'POST' }, env);
+      const body = (await res.json()) as { data: { users: number; cursor: string | null } };
+      owners.push(body.data.users);
+      cursor = body.data.cursor;
+    } while (cursor);
+
+    // The secrets record names its owner; the PKCE state key doesn't count as one
+    expect(owners).toEqual([0, 1, 0, 0]);
+    expect(JSON.parse(sessions.get(userSecretsKey('u-lapsed'))!).sealed).toBeTruthy();
+    expect(await readUserSecrets(env, 'u-lapsed')).toEqual({ API_KEY: 'plain' });
+  });
+});
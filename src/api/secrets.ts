@@ -1,6 +1,23 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { User, ApiResponse } from '../types';
+import { requireAdmin } from '../auth';
+import {
+  dropPreviousDataKey,
+  readKeyring,
+  rewrapKeyring,
+  rotateDataKey,
+} from '../services/secret-vault';
+import {
+  readScopedUserSecrets,
+  resealUserSecrets,
+  scopeMatches,
+  writeUserSecrets,
+  type SecretScope,
+  type SecretScopeKind,
+} from '../services/user-secrets';
+import { resealOAuthTokens } from './mcp-oauth';
+import { resealGithubToken } from './github';
 
 type Variables = {
   user: User;
@@ -31,14 +48,59 @@ const SecretNameSchema = z
   .max(100)
   .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be a valid env var name');
 
+const ScopeFields = {
+  scope: z.enum(['global', 'project', 'manual']).optional(),
+  /** Repo pattern for 'project' scope, e.g. github.com/acme/* */
+  gitRepo: z.string().min(1).max(300).optional(),
+};
+
+const projectNeedsRepo = (data: { scope?: SecretScopeKind; gitRepo?: string }) =>
+  data.scope !== 'project' || !!data.gitRepo;
+const projectNeedsRepoMessage = { message: 'Project-scoped secrets need a repo pattern' };
+
 const AddSecretSchema = z.object({
   name: SecretNameSchema,
   value: z.string().min(1).max(MAX_VALUE_SIZE),
-});
+  ...ScopeFields,
+}).refine(projectNeedsRepo, projectNeedsRepoMessage);
+
+const UpdateScopeSchema = z.object({
+  scope: ScopeFields.scope.unwrap(),
+  gitRepo: ScopeFields.gitRepo,
+}).refine(projectNeedsRepo, projectNeedsRepoMessage);
+
+interface SecretEntry {
+  name: string;
+  hint: string;
+  scope: SecretScopeKind;
+  gitRepo?: string;
+  /** Injected by default for the `gitRepo` query (only when one is given) */
+  matches?: boolean;
+}
+
+/** Keys listed per admin migration call (keeps each request well under limits) */
+const MIGRATE_BATCH = 100;
 
-/** KV key for a user's secrets map */
-function kvKey(userId: string): string {
-  return `user-secrets:${userId}`;
+/**
+ * Every record the migration touches, walked in order. Owners come from the
+ * record keys themselves — `user:` records expire after 30 days, so a user
+ * who hasn't signed in lately would otherwise keep the old encryption.
+ */
+const MIGRATE_SOURCES: Array<{ kv: 'AUTH_KV' | 'SESSIONS_KV'; prefix: string }> = [
+  { kv: 'AUTH_KV', prefix: 'user-dek:' },
+  { kv: 'SESSIONS_KV', prefix: 'user-secrets:' },
+  { kv: 'SESSIONS_KV', prefix: 'mcp:oauth:' },
+  { kv: 'AUTH_KV', prefix: 'github-token:' },
+];
+
+/** `mcp:oauth:` also holds PKCE state and DCR clients, which aren't per-user tokens */
+const OAUTH_SIDE_RECORDS = new Set(['state', 'client', 'client-secret']);
+
+function migrateOwner(prefix: string, key: string): string | null {
+  const rest = key.slice(prefix.length);
+  if (prefix !== 'mcp:oauth:') return rest || null;
+  const owner = rest.slice(0, rest.indexOf(':'));
+  return owner && !OAUTH_SIDE_RECORDS.has(owner) ? owner : null;
 }
 
 /** Generate a masked hint from a secret value */
@@ -46,49 +108,32 @@ function makeHint(value: string): string {
   return value.length >= 5 ? '...' + value.slice(-4) : '****';
 }
 
-/** Read secrets map from KV (returns empty object on missing/invalid) */
-async function readSecrets(
-  kv: KVNamespace,
-  userId: string
-): Promise<Record<string, string>> {
-  const raw = await kv.get(kvKey(userId));
-  if (!raw) return {};
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed !== 'object' || parsed === null) return {};
-    // Filter to string-only values
-    const result: Record<string, string> = {};
-    for (const [k, v] of Object.entries(parsed)) {
-      if (typeof v === 'string') {
-        result[k] = v;
-      }
-    }
-    return result;
-  } catch {
-    return {};
-  }
+function toScope(data: { scope?: SecretScopeKind; gitRepo?: string }): SecretScope {
+  const scope = data.scope ?? 'global';
+  return scope === 'project' ? { scope, gitRepo: data.gitRepo } : { scope };
 }
 
-/** Write secrets map to KV */
-async function writeSecrets(
-  kv: KVNamespace,
-  userId: string,
-  secrets: Record<string, string>
-): Promise<void> {
-  await kv.put(kvKey(userId), JSON.stringify(secrets));
+function toEntry(name: string, value: string, scope: SecretScope | undefined, repo?: string): SecretEntry {
+  return {
+    name,
+    hint: makeHint(value),
+    scope: scope?.scope ?? 'global',
+    ...(scope?.gitRepo ? { gitRepo: scope.gitRepo } : {}),
+    ...(repo !== undefined ? { matches: scopeMatches(scope, repo) } : {}),
+  };
 }
 
-// GET / — list secrets (name + hint only, never full values)
+// GET /?gitRepo= — list secrets (name + hint + scope, never full values).
+// With gitRepo, each entry also says whether a session on that repo gets it
+// by default — the session-creation picker pre-selects from this.
 secretsRoutes.get('/', async (c) => {
   const user = c.get('user');
-  const secrets = await readSecrets(c.env.SESSIONS_KV, user.id);
+  const repo = c.req.query('gitRepo');
+  const { secrets, scopes } = await readScopedUserSecrets(c.env, user.id);
 
-  const list = Object.entries(secrets).map(([name, value]) => ({
-    name,
-    hint: makeHint(value),
-  }));
+  const list = Object.entries(secrets).map(([name, value]) => toEntry(name, value, scopes[name], repo));
 
-  return c.json<ApiResponse<Array<{ name: string; hint: string }>>>({
+  return c.json<ApiResponse<SecretEntry[]>>({
     success: true,
     data: list,
   });
@@ -116,7 +161,7 @@ secretsRoutes.post('/', async (c) => {
     }, 400);
   }
 
-  const secrets = await readSecrets(c.env.SESSIONS_KV, user.id);
+  const { secrets, scopes } = await readScopedUserSecrets(c.env, user.id);
 
   // Check limit (only if adding a new key, not updating existing)
   if (!(name in secrets) && Object.keys(secrets).length >= MAX_SECRETS) {
@@ -126,12 +171,43 @@ secretsRoutes.post('/', async (c) => {
     }, 400);
   }
 
+  // Updating a value without a scope keeps the existing one
+  const scope = parsed.data.scope ? toScope(parsed.data) : scopes[name];
   const updated = { ...secrets, [name]: value };
-  await writeSecrets(c.env.SESSIONS_KV, user.id, updated);
+  await writeUserSecrets(c.env, user.id, updated, { ...scopes, ...(scope ? { [name]: scope } : {}) });
 
-  return c.json<ApiResponse<{ name: string; hint: string }>>({
+  return c.json<ApiResponse<SecretEntry>>({
     success: true,
-    data: { name, hint: makeHint(value) },
+    data: toEntry(name, value, scope),
+  });
+});
+
+// PATCH /:name — change a secret's scope
+secretsRoutes.patch('/:name', async (c) => {
+  const user = c.get('user');
+  const name = c.req.param('name');
+  const parsed = UpdateScopeSchema.safeParse(await c.req.json());
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  const { secrets, scopes } = await readScopedUserSecrets(c.env, user.id);
+  if (!(name in secrets)) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Secret not found',
+    }, 404);
+  }
+
+  const scope = toScope(parsed.data);
+  await writeUserSecrets(c.env, user.id, secrets, { ...scopes, [name]: scope });
+
+  return c.json<ApiResponse<SecretEntry>>({
+    success: true,
+    data: toEntry(name, secrets[name], scope),
   });
 });
 
@@ -140,7 +216,7 @@ secretsRoutes.delete('/:name', async (c) => {
   const user = c.get('user');
   const name = c.req.param('name');
 
-  const secrets = await readSecrets(c.env.SESSIONS_KV, user.id);
+  const { secrets, scopes } = await readScopedUserSecrets(c.env, user.id);
 
   if (!(name in secrets)) {
     return c.json<ApiResponse<never>>({
@@ -150,10 +226,99 @@ secretsRoutes.delete('/:name', async (c) => {
   }
 
   const { [name]: _, ...remaining } = secrets;
-  await writeSecrets(c.env.SESSIONS_KV, user.id, remaining);
+  await writeUserSecrets(c.env, user.id, remaining, scopes);
 
   return c.json<ApiResponse<{ deleted: boolean }>>({
     success: true,
     data: { deleted: true },
   });
 });
+
+/**
+ * Seal or reseal every encrypted record a user owns: the secrets map,
+ * MCP OAuth tokens and the GitHub token. Returns how many were rewritten.
+ */
+async function resealAll(env: Env, userId: string): Promise<number> {
+  const secrets = (await resealUserSecrets(env, userId)) ? 1 : 0;
+  const oauth = await resealOAuthTokens(env, userId);
+  const github = (await resealGithubToken(env, userId)) ? 1 : 0;
+  return secrets + oauth + github;
+}
+
+// POST /rotate — mint a new data key and reseal everything under it.
+// An interrupted rotation leaves the old key as `previous`; calling again
+// finishes resealing instead of minting another key.
+secretsRoutes.post('/rotate', async (c) => {
+  const user = c.get('user');
+  const existing = await readKeyring(c.env, user.id);
+  const keyring = existing?.previous ? existing : await rotateDataKey(c.env, user.id);
+  const resealed = await resealAll(c.env, user.id);
+  await dropPreviousDataKey(c.env, user.id);
+
+  return c.json<ApiResponse<{ keyId: string; resealed: number }>>({
+    success: true,
+    data: { keyId: keyring.current.id, resealed },
+  });
+});
+
+// POST /admin/migrate?cursor= — rewrap data keys under the current master
+// key and seal legacy plaintext for the owners of one batch of keys per
+// call. Repeat with the returned cursor until it is null.
+secretsRoutes.post('/admin/migrate', requireAdmin, async (c) => {
+  // Cursor is `{source index}:{KV cursor}` so one walk spans both namespaces
+  const raw = c.req.query('cursor') || '0:';
+  const split = raw.indexOf(':');
+  const sourceIndex = Number(raw.slice(0, split));
+  const source = MIGRATE_SOURCES[sourceIndex];
+  if (split < 0 || !source) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Invalid cursor',
+    }, 400);
+  }
+  const page = await c.env[source.kv].list({
+    prefix: source.prefix,
+    limit: MIGRATE_BATCH,
+    cursor: raw.slice(split + 1) || undefined,
+  });
+
+  const owners = new Set<string>();
+  for (const key of page.keys) {
+    const owner = migrateOwner(source.prefix, key.name);
+    if (owner) owners.add(owner);
+  }
+
+  let rewrapped = 0;
+  let resealed = 0;
+  const failed: string[] = [];
+  for (const userId of owners) {
+    try {
+      if (await rewrapKeyring(c.env, userId)) rewrapped++;
+      resealed += await resealAll(c.env, userId);
+    } catch (err) {
+      console.error(`[secrets] migrate failed for ${userId}:`, err);
+      failed.push(userId);
+    }
+  }
+
+  let cursor: string | null = null;
+  if (!page.list_complete) cursor = `${sourceIndex}:${page.cursor}`;
+  else if (sourceIndex + 1 < MIGRATE_SOURCES.length) cursor = `${sourceIndex + 1}:`;
+
+  return c.json<ApiResponse<{
+    users: number;
+    rewrapped: number;
+    resealed: number;
+    failed: string[];
+    cursor: string | null;
+  }>>({
+    success: true,
+    data: {
+      users: owners.size,
+      rewrapped,
+      resealed,
+      failed,
+      cursor,
+    },
+  });
+});
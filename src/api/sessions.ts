@@ -1,20 +1,36 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import type { User, Session, ApiResponse } from '../types';
-import { collectProjectSecrets, collectUserSecrets, collectGithubToken } from '../sandbox';
+import { collectProjectSecrets, collectUserSecrets, collectGithubToken, sessionSecretSelection, type SandboxManager } from '../sandbox';
 import { isValidNpmPackageName } from '../utils/validate-npm-package';
-import { collectMcpConfig, hasRelayServers, collectCredentialFiles } from './mcp';
-import { collectPluginConfigs } from './plugins';
-import { collectUserConfigs } from './config';
-import { getVfRules } from './user';
-import { collectGeminiMcpConfig } from './ai-providers';
 import { assembleSandboxConfig } from '../config-assembly';
 import { getProviderCredentials, createEmbeddingModel } from '../services/ai-provider-factory';
-import { buildEmbeddingsIndex } from '../services/embeddings';
+import { buildEmbeddingsIndex, deleteEmbeddingsIndex } from '../services/embeddings';
+import { listSecretAudit, loadRedactor, recordSecretAudit, redactSecrets, type SecretAuditEntry } from '../services/secret-audit';
+import {
+  DEFAULT_SHARE_TTL_HOURS,
+  MAX_SHARE_TTL_HOURS,
+  ShareLinkError,
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  type ShareLinkInfo,
+} from '../services/share-links';
+import { vectorStoreFactory } from '../services/vector-store';
+import { canAccessSession, getOrg, listUserOrgIds, memberRole } from '../services/orgs';
+import { deletePullRequest } from '../services/pull-requests';
+import { deleteReview } from '../services/pr-review';
+import {
+  TRANSCRIPT_CONTENT_TYPES,
+  TRANSCRIPT_FORMATS,
+  buildTranscript,
+  renderTranscript,
+  type TranscriptFormat,
+} from '../services/transcript-export';
 
 type Variables = {
   user: User;
-  sandboxManager: import('../sandbox').SandboxManager;
+  sandboxManager: SandboxManager;
 };
 
 export const sessionRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
@@ -77,206 +93,248 @@ const CreateSessionSchema = z.object({
     { message: 'gitRepo must use https://' }
   ).optional(),
   branch: z.string().optional(),
+  /** Explicit secret pick; omitted = each secret's scope decides */
+  secrets: z.array(z.string()).max(100).optional(),
 });
 
-// Create new session
-sessionRoutes.post('/create', async (c) => {
-  const user = c.get('user');
-  const sandboxManager = c.get('sandboxManager');
+export class SessionProvisionError extends Error {
+  constructor(message: string, public status: 401 | 403) {
+    super(message);
+    this.name = 'SessionProvisionError';
+  }
+}
 
-  const body = await c.req.json();
-  const parsed = CreateSessionSchema.safeParse(body);
+export type CreateSessionInput = z.infer<typeof CreateSessionSchema>;
 
-  if (!parsed.success) {
-    return c.json<ApiResponse<never>>({
-      success: false,
-      error: parsed.error.message,
-    }, 400);
+/**
+ * Create a session's sandbox with the user's config, secrets and credentials,
+ * and kick off the background warm-up work. Shared by POST /create and
+ * scheduled jobs.
+ */
+export async function provisionSession(
+  env: Env,
+  sandboxManager: SandboxManager,
+  user: User,
+  input: CreateSessionInput,
+  ctx: ExecutionContext,
+  origin: string
+): Promise<Session> {
+  const sessionId = crypto.randomUUID();
+
+  // Create sandbox with Claude token injected as persistent env var
+  // This makes `claude` CLI work in both chat and terminal
+  const claudeToken = user.claudeToken;
+  if (!claudeToken) {
+    throw new SessionProvisionError('No Claude token available. Please re-authenticate.', 401);
   }
 
-  const sessionId = crypto.randomUUID();
+  // SECURITY: Only accept OAuth tokens (MANDATORY per CLAUDE.md)
+  if (!claudeToken.startsWith('sk-ant-oat01-')) {
+    throw new SessionProvisionError('Only Claude OAuth tokens accepted. Run `claude setup-token` to obtain one.', 403);
+  }
 
-  try {
-    // Create sandbox with Claude token injected as persistent env var
-    // This makes `claude` CLI work in both chat and terminal
-    const claudeToken = user.claudeToken;
-    if (!claudeToken) {
-      return c.json<ApiResponse<never>>({
-        success: false,
-        error: 'No Claude token available. Please re-authenticate.',
-      }, 401);
-    }
+  const githubTokenEnv = await collectGithubToken(env.AUTH_KV, user.id, env);
+  const userSecrets = await collectUserSecrets(env, user.id, {
+    gitRepo: input.gitRepo,
+    names: input.secrets,
+  });
+  ctx.waitUntil(recordSecretAudit(env.SESSIONS_KV, {
+    userId: user.id,
+    sessionId,
+    kind: 'injected',
+    source: 'session-create',
+    names: [...Object.keys(githubTokenEnv), ...Object.keys(userSecrets)],
+  }));
+
+  const sandboxEnv: Record<string, string> = {
+    CLAUDE_CODE_OAUTH_TOKEN: claudeToken,
+    ...collectProjectSecrets(env),
+    ...githubTokenEnv,
+    ...userSecrets,
+  };
 
-    // SECURITY: Only accept OAuth tokens (MANDATORY per CLAUDE.md)
-    if (!claudeToken.startsWith('sk-ant-oat01-')) {
-      return c.json<ApiResponse<never>>({
-        success: false,
-        error: 'Only Claude OAuth tokens accepted. Run `claude setup-token` to obtain one.',
-      }, 403);
-    }
+  // CLAUDE.md, MCP servers, plugin + user configs (layered over org-shared
+  // config), VF rules, Gemini MCP and credential files for sandbox injection
+  const sandboxConfig = await assembleSandboxConfig(env, user.id, { gitRepo: input.gitRepo });
+  const { mcpServers, pluginConfigs, geminiMcpServers: geminiMcp } = sandboxConfig;
 
-    const sandboxEnv: Record<string, string> = {
-      CLAUDE_CODE_OAUTH_TOKEN: claudeToken,
-      ...collectProjectSecrets(c.env),
-      ...await collectGithubToken(c.env.AUTH_KV, user.id, c.env),
-      ...await collectUserSecrets(c.env.SESSIONS_KV, user.id),
-    };
-
-    // Generate relay token if user has relay MCP servers
-    const needsRelay = await hasRelayServers(c.env.SESSIONS_KV, user.id);
-    const relayToken = needsRelay ? crypto.randomUUID() : undefined;
-
-    if (needsRelay && relayToken) {
-      const origin = new URL(c.req.url).origin;
-      const relayUrl = `${origin}/api/mcp-relay/${sessionId}`;
-      sandboxEnv.RELAY_TOKEN = relayToken;
-      sandboxEnv.RELAY_URL = relayUrl;
-    }
+  // Generate relay token if the session gets MCP servers behind the proxy —
+  // relay servers tunnel through it, and the proxy reports tool list changes
+  const needsRelay = Object.keys(sandboxConfig.mcpProxy ?? {}).length > 0;
+  const relayToken = needsRelay ? crypto.randomUUID() : undefined;
 
-    // Fetch user's global CLAUDE.md for injection into sandbox
-    const claudeMd = await c.env.SESSIONS_KV.get(
-      `user-config:${user.id}:claude-md`
+  if (needsRelay && relayToken) {
+    const relayUrl = `${origin}/api/mcp-relay/${sessionId}`;
+    sandboxEnv.RELAY_TOKEN = relayToken;
+    sandboxEnv.RELAY_URL = relayUrl;
+  }
+
+  const session = await sandboxManager.createSandbox(sessionId, user.id, {
+    gitRepo: input.gitRepo,
+    branch: input.branch,
+    env: sandboxEnv,
+    claudeMd: sandboxConfig.claudeMd,
+    mcpServers,
+    pluginConfigs,
+    userConfigs: sandboxConfig.userConfigs,
+    vfRules: sandboxConfig.vfRules,
+    mcpProxy: sandboxConfig.mcpProxy,
+    startRelayProxy: sandboxConfig.startRelayProxy,
+    injectGeminiAgent: sandboxConfig.injectGeminiAgent,
+    credentialFiles: sandboxConfig.credentialFiles,
+  });
+
+  // Pre-start WS server in background so first message doesn't wait for it
+  if (session.sandboxId) {
+    ctx.waitUntil(
+      sandboxManager.startWsServer(session.sandboxId).catch((err: unknown) => {
+        console.warn('[sessions/create] WS server pre-start failed (non-fatal):', err);
+      })
     );
+  }
 
-    // Collect MCP servers + plugin configs + user configs + VF rules for sandbox injection
-    const mcpServers = await collectMcpConfig(c.env.SESSIONS_KV, user.id);
-    const pluginConfigs = await collectPluginConfigs(c.env.SESSIONS_KV, user.id);
-    const userConfigs = await collectUserConfigs(c.env.SESSIONS_KV, user.id);
-    const vfRules = await getVfRules(c.env.SESSIONS_KV, user.id);
-
-    // Collect Gemini MCP config if enabled and API key exists
-    const geminiMcp = await collectGeminiMcpConfig(c.env.SESSIONS_KV, user.id);
-
-    // Collect credential files for stdio MCP servers (e.g. OAuth credentials.json)
-    const credentialFiles = await collectCredentialFiles(c.env.SESSIONS_KV, user.id);
-
-    const session = await sandboxManager.createSandbox(sessionId, user.id, {
-      gitRepo: parsed.data.gitRepo,
-      branch: parsed.data.branch,
-      env: sandboxEnv,
-      claudeMd: claudeMd || undefined,
-      mcpServers,
-      pluginConfigs,
-      userConfigs,
-      vfRules,
-      startRelayProxy: needsRelay,
-      injectGeminiAgent: !!geminiMcp,
-      credentialFiles,
-    });
+  // V1.5: Initialize ChatSessionAgent DO with userId for stream bridge
+  ctx.waitUntil(
+    (async () => {
+      try {
+        const doId = env.CHAT_SESSIONS.idFromName(sessionId);
+        const stub = env.CHAT_SESSIONS.get(doId);
+        await stub.fetch(new Request('https://do/init', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ userId: user.id }),
+        }));
+      } catch (err) {
+        console.warn('[sessions/create] ChatSessionAgent init failed (non-fatal):', err);
+      }
+    })()
+  );
 
-    // Pre-start WS server in background so first message doesn't wait for it
-    if (session.sandboxId) {
-      c.executionCtx.waitUntil(
-        sandboxManager.startWsServer(session.sandboxId).catch((err: unknown) => {
-          console.warn('[sessions/create] WS server pre-start failed (non-fatal):', err);
-        })
-      );
-    }
+  // Start workspace keepalive sentinel to prevent container idle eviction
+  if (session.sandboxId) {
+    startSentinel(env, sessionId, session.sandboxId, ctx);
+  }
 
-    // V1.5: Initialize ChatSessionAgent DO with userId for stream bridge
-    c.executionCtx.waitUntil(
+  // Pre-install npx packages in background so first message doesn't wait for npm
+  const allMcpServers: Record<string, Record<string, unknown>> = {
+    ...(mcpServers || {}),
+    ...(pluginConfigs?.mcpServers || {}),
+    ...(geminiMcp || {}),
+  };
+  const npxPkgs: string[] = [];
+  for (const [, cfg] of Object.entries(allMcpServers)) {
+    const mc = cfg as Record<string, unknown>;
+    if (mc.command === 'npx' && Array.isArray(mc.args)) {
+      const pkg = (mc.args as string[]).find((a: string) => !a.startsWith('-'));
+      if (pkg) {
+        if (!isValidNpmPackageName(pkg)) {
+          console.warn(`[sessions/create] rejected invalid npm package name "${pkg}" — skipping install`);
+        } else {
+          npxPkgs.push(pkg);
+        }
+      }
+    }
+  }
+  if (npxPkgs.length > 0 && session.sandboxId) {
+    ctx.waitUntil(
       (async () => {
         try {
-          const doId = c.env.CHAT_SESSIONS.idFromName(sessionId);
-          const stub = c.env.CHAT_SESSIONS.get(doId);
-          await stub.fetch(new Request('https://do/init', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ userId: user.id }),
-          }));
+          // Wait briefly for container to finish booting
+          await new Promise((r) => setTimeout(r, 2000));
+          const installCmd = `npm install -g ${npxPkgs.join(' ')} --prefer-offline 2>&1 || true`;
+          await sandboxManager.execInSandbox(session.sandboxId!, installCmd, { timeout: 60_000 });
+          console.log(`[sessions/create] pre-installed ${npxPkgs.length} npx packages`);
         } catch (err) {
-          console.warn('[sessions/create] ChatSessionAgent init failed (non-fatal):', err);
+          console.warn('[sessions/create] npx pre-install failed (non-fatal):', err);
         }
       })()
     );
+  }
 
-    // Start workspace keepalive sentinel to prevent container idle eviction
-    if (session.sandboxId) {
-      startSentinel(c.env, sessionId, session.sandboxId, c.executionCtx);
-    }
+  // Persist merged MCP config in KV so SDK stream can pass it via options.mcpServers
+  if (Object.keys(allMcpServers).length > 0) {
+    await env.SESSIONS_KV.put(
+      `session-mcp:${sessionId}`,
+      JSON.stringify(allMcpServers),
+      { expirationTtl: 7 * 24 * 60 * 60 }
+    );
+  }
 
-    // Pre-install npx packages in background so first message doesn't wait for npm
-    const allMcpServers: Record<string, Record<string, unknown>> = {
-      ...(mcpServers || {}),
-      ...(pluginConfigs?.mcpServers || {}),
-      ...(geminiMcp || {}),
-    };
-    const npxPkgs: string[] = [];
-    for (const [, cfg] of Object.entries(allMcpServers)) {
-      const mc = cfg as Record<string, unknown>;
-      if (mc.command === 'npx' && Array.isArray(mc.args)) {
-        const pkg = (mc.args as string[]).find((a: string) => !a.startsWith('-'));
-        if (pkg) {
-          if (!isValidNpmPackageName(pkg)) {
-            console.warn(`[sessions/create] rejected invalid npm package name "${pkg}" — skipping install`);
-          } else {
-            npxPkgs.push(pkg);
-          }
+  // Persist session name and relay token to KV metadata
+  const extraMeta: Record<string, unknown> = {};
+  if (input.name) extraMeta.name = input.name;
+  if (relayToken) extraMeta.relayToken = relayToken;
+  if (input.secrets) extraMeta.secretNames = input.secrets;
+
+  if (Object.keys(extraMeta).length > 0) {
+    session.metadata = { ...(session.metadata ?? {}), ...extraMeta };
+    await env.SESSIONS_KV.put(
+      `session:${sessionId}`,
+      JSON.stringify(session)
+    );
+  }
+
+  // Background: auto-index workspace for semantic search if Gemini key exists
+  ctx.waitUntil(
+    (async () => {
+      try {
+        const creds = await getProviderCredentials(env, user.id);
+        const embModel = createEmbeddingModel(creds);
+        if (embModel) {
+          // Wait a few seconds for container filesystem to settle
+          await new Promise((r) => setTimeout(r, 3000));
+          await buildEmbeddingsIndex(
+            sandboxManager, sessionId, user.id, embModel, env.SESSIONS_KV,
+            vectorStoreFactory(env)
+          );
         }
+      } catch (err) {
+        console.error('[sessions/create] background indexing error:', err);
       }
-    }
-    if (npxPkgs.length > 0 && session.sandboxId) {
-      c.executionCtx.waitUntil(
-        (async () => {
-          try {
-            // Wait briefly for container to finish booting
-            await new Promise((r) => setTimeout(r, 2000));
-            const installCmd = `npm install -g ${npxPkgs.join(' ')} --prefer-offline 2>&1 || true`;
-            await sandboxManager.execInSandbox(session.sandboxId!, installCmd, { timeout: 60_000 });
-            console.log(`[sessions/create] pre-installed ${npxPkgs.length} npx packages`);
-          } catch (err) {
-            console.warn('[sessions/create] npx pre-install failed (non-fatal):', err);
-          }
-        })()
-      );
-    }
+    })()
+  );
 
-    // Persist merged MCP config in KV so SDK stream can pass it via options.mcpServers
-    if (Object.keys(allMcpServers).length > 0) {
-      await c.env.SESSIONS_KV.put(
-        `session-mcp:${sessionId}`,
-        JSON.stringify(allMcpServers),
-        { expirationTtl: 7 * 24 * 60 * 60 }
-      );
-    }
+  return session;
+}
 
-    // Persist session name and relay token to KV metadata
-    const extraMeta: Record<string, unknown> = {};
-    if (parsed.data.name) extraMeta.name = parsed.data.name;
-    if (relayToken) extraMeta.relayToken = relayToken;
+/** Tear down a session provisioned for a request that then failed. */
+export async function discardSession(
+  env: Env,
+  sandboxManager: SandboxManager,
+  sessionId: string,
+  ctx: ExecutionContext
+): Promise<void> {
+  stopSentinel(env, sessionId, ctx);
+  await sandboxManager.terminateSandbox(sessionId);
+}
 
-    if (Object.keys(extraMeta).length > 0) {
-      session.metadata = { ...(session.metadata ?? {}), ...extraMeta };
-      await c.env.SESSIONS_KV.put(
-        `session:${sessionId}`,
-        JSON.stringify(session)
-      );
-    }
+// Create new session
+sessionRoutes.post('/create', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
 
-    // Background: auto-index workspace for semantic search if Gemini key exists
-    c.executionCtx.waitUntil(
-      (async () => {
-        try {
-          const creds = await getProviderCredentials(c.env.SESSIONS_KV, user.id);
-          const embModel = createEmbeddingModel(creds);
-          if (embModel) {
-            // Wait a few seconds for container filesystem to settle
-            await new Promise((r) => setTimeout(r, 3000));
-            await buildEmbeddingsIndex(
-              sandboxManager, sessionId, user.id, embModel, c.env.SESSIONS_KV
-            );
-          }
-        } catch (err) {
-          console.error('[sessions/create] background indexing error:', err);
-        }
-      })()
-    );
+  const body = await c.req.json();
+  const parsed = CreateSessionSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.message,
+    }, 400);
+  }
 
+  try {
+    const session = await provisionSession(
+      c.env, sandboxManager, user, parsed.data, c.executionCtx, new URL(c.req.url).origin
+    );
     return c.json<ApiResponse<Session>>({
       success: true,
       data: session,
     });
   } catch (error) {
+    if (error instanceof SessionProvisionError) {
+      return c.json<ApiResponse<never>>({ success: false, error: error.message }, error.status);
+    }
     return c.json<ApiResponse<never>>({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to create session',
@@ -293,12 +351,16 @@ sessionRoutes.get('/list', async (c) => {
   const sessions: Session[] = [];
 
   const list = await c.env.SESSIONS_KV.list({ prefix });
+  // Sessions shared with any of the user's orgs are listed alongside their own
+  const orgIds = new Set(await listUserOrgIds(c.env.AUTH_KV, user.id));
 
   for (const key of list.keys) {
     try {
       const session = await c.env.SESSIONS_KV.get<Session>(key.name, 'json');
       if (session && session.userId === user.id) {
         sessions.push(session);
+      } else if (session?.sharing && orgIds.has(session.sharing.orgId)) {
+        sessions.push(sharedView(session));
       }
     } catch {
       // Skip corrupted session entries
@@ -319,16 +381,23 @@ sessionRoutes.get('/list', async (c) => {
   });
 });
 
+/** A shared session as members see it — the owner's relay token stays private. */
+function sharedView(session: Session): Session {
+  if (!session.metadata?.relayToken) return session;
+  const { relayToken: _relayToken, ...metadata } = session.metadata;
+  return { ...session, metadata };
+}
+
 // Get session details — re-injects config after container recycle
 sessionRoutes.get('/:sessionId', async (c) => {
   const user = c.get('user');
   const sandboxManager = c.get('sandboxManager');
   const sessionId = c.req.param('sessionId');
 
-  const sandboxConfig = await assembleSandboxConfig(c.env.SESSIONS_KV, user.id);
+  const sandboxConfig = await assembleSandboxConfig(c.env, user.id, { sessionId });
   const session = await sandboxManager.getOrWakeSandbox(sessionId, sandboxConfig);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -337,7 +406,7 @@ sessionRoutes.get('/:sessionId', async (c) => {
 
   return c.json<ApiResponse<Session>>({
     success: true,
-    data: session,
+    data: session.userId === user.id ? session : sharedView(session),
   });
 });
 
@@ -348,10 +417,10 @@ sessionRoutes.post('/:sessionId/resume', async (c) => {
   const sessionId = c.req.param('sessionId');
 
   // Assemble config so it can be re-injected if container recycled
-  const sandboxConfig = await assembleSandboxConfig(c.env.SESSIONS_KV, user.id);
+  const sandboxConfig = await assembleSandboxConfig(c.env, user.id, { sessionId });
   const session = await sandboxManager.getOrWakeSandbox(sessionId, sandboxConfig);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -365,7 +434,7 @@ sessionRoutes.post('/:sessionId/resume', async (c) => {
 
   return c.json<ApiResponse<Session>>({
     success: true,
-    data: session,
+    data: session.userId === user.id ? session : sharedView(session),
   });
 });
 
@@ -381,7 +450,7 @@ sessionRoutes.post('/:sessionId/sleep', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -411,7 +480,7 @@ sessionRoutes.delete('/:sessionId', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -457,7 +526,7 @@ sessionRoutes.post('/:sessionId/restore', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -503,7 +572,7 @@ sessionRoutes.post('/:sessionId/purge', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -523,6 +592,14 @@ sessionRoutes.post('/:sessionId/purge', async (c) => {
     await c.env.SESSIONS_KV.delete(msgKey.name);
   }
 
+  // Drop the embeddings manifest and its vectors (no TTL on either)
+  await deleteEmbeddingsIndex(
+    c.env.SESSIONS_KV, vectorStoreFactory(c.env), user.id, sessionId
+  ).catch((err) => console.warn('[sessions/purge] embeddings cleanup failed:', err));
+
+  await deletePullRequest(c.env.SESSIONS_KV, sessionId);
+  await deleteReview(c.env.SESSIONS_KV, sessionId);
+
   // Delete the session record
   await c.env.SESSIONS_KV.delete(`session:${sessionId}`);
 
@@ -553,7 +630,7 @@ sessionRoutes.post('/:sessionId/exec', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -568,12 +645,21 @@ sessionRoutes.post('/:sessionId/exec', async (c) => {
   }
 
   // Inject Claude token + NODE_PATH + project secrets + user secrets
+  const githubTokenEnv = await collectGithubToken(c.env.AUTH_KV, user.id, c.env);
+  const userSecrets = await collectUserSecrets(c.env, user.id, sessionSecretSelection(session));
+  c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+    userId: user.id,
+    sessionId,
+    kind: 'injected',
+    source: 'exec',
+    names: [...Object.keys(githubTokenEnv), ...Object.keys(userSecrets)],
+  }));
   const execEnv: Record<string, string> = {
     NODE_PATH: '/usr/local/lib/node_modules',
     CLAUDE_CONFIG_DIR: '/root/.claude',
     ...collectProjectSecrets(c.env),
-    ...await collectGithubToken(c.env.AUTH_KV, user.id, c.env),
-    ...await collectUserSecrets(c.env.SESSIONS_KV, user.id),
+    ...githubTokenEnv,
+    ...userSecrets,
   };
   const claudeToken = user.claudeToken;
   if (claudeToken) {
@@ -617,7 +703,7 @@ sessionRoutes.post('/:sessionId/exec-stream', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -632,12 +718,21 @@ sessionRoutes.post('/:sessionId/exec-stream', async (c) => {
   }
 
   // Inject Claude token + NODE_PATH + project secrets + user secrets
+  const githubTokenEnv = await collectGithubToken(c.env.AUTH_KV, user.id, c.env);
+  const userSecrets = await collectUserSecrets(c.env, user.id, sessionSecretSelection(session));
+  c.executionCtx.waitUntil(recordSecretAudit(c.env.SESSIONS_KV, {
+    userId: user.id,
+    sessionId,
+    kind: 'injected',
+    source: 'exec-stream',
+    names: [...Object.keys(githubTokenEnv), ...Object.keys(userSecrets)],
+  }));
   const streamEnv: Record<string, string> = {
     NODE_PATH: '/usr/local/lib/node_modules',
     CLAUDE_CONFIG_DIR: '/root/.claude',
     ...collectProjectSecrets(c.env),
-    ...await collectGithubToken(c.env.AUTH_KV, user.id, c.env),
-    ...await collectUserSecrets(c.env.SESSIONS_KV, user.id),
+    ...githubTokenEnv,
+    ...userSecrets,
   };
   const claudeToken = user.claudeToken;
   if (claudeToken) {
@@ -766,7 +861,7 @@ sessionRoutes.post('/:sessionId/clone', async (c) => {
 
   const session = await sandboxManager.getOrWakeSandbox(sessionId);
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -855,8 +950,8 @@ sessionRoutes.get('/debug/error/:sessionId', async (c) => {
     return c.json({ success: false, error: 'Session not found' }, 404);
   }
 
-  // SECURITY: Verify session belongs to user (fix IDOR vulnerability)
-  if (session.userId !== user.id) {
+  // SECURITY: Verify session is visible to user (fix IDOR vulnerability)
+  if (!(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json({ success: false, error: 'Unauthorized' }, 403);
   }
 
@@ -865,7 +960,7 @@ sessionRoutes.get('/debug/error/:sessionId', async (c) => {
     data: {
       id: session.id,
       status: session.status,
-      metadata: session.metadata ?? {},
+      metadata: (session.userId === user.id ? session : sharedView(session)).metadata ?? {},
       createdAt: session.createdAt,
       lastActiveAt: session.lastActiveAt,
     },
@@ -1009,7 +1104,7 @@ sessionRoutes.patch('/:sessionId', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -1035,6 +1130,225 @@ sessionRoutes.patch('/:sessionId', async (c) => {
   });
 });
 
+const ShareSessionSchema = z.object({
+  orgId: z.string().min(1),
+  access: z.enum(['read', 'collaborate']),
+});
+
+// Share a session with one of the owner's orgs (replaces any previous share)
+sessionRoutes.put('/:sessionId/sharing', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const parsed = ShareSessionSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.message,
+    }, 400);
+  }
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  const org = await getOrg(c.env.AUTH_KV, parsed.data.orgId);
+  if (!org || !memberRole(org, user.id)) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Organization not found',
+    }, 404);
+  }
+
+  session.sharing = { ...parsed.data, sharedAt: new Date().toISOString() };
+  await c.env.SESSIONS_KV.put(`session:${sessionId}`, JSON.stringify(session));
+
+  return c.json<ApiResponse<Session>>({
+    success: true,
+    data: session,
+  });
+});
+
+// Stop sharing a session
+sessionRoutes.delete('/:sessionId/sharing', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  delete session.sharing;
+  await c.env.SESSIONS_KV.put(`session:${sessionId}`, JSON.stringify(session));
+
+  return c.json<ApiResponse<Session>>({
+    success: true,
+    data: session,
+  });
+});
+
+// Export the full transcript (messages, tool calls, summary, costs) as a download
+sessionRoutes.get('/:sessionId/export', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+  const format = (c.req.query('format') || 'md') as TranscriptFormat;
+
+  if (!TRANSCRIPT_FORMATS.includes(format)) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: `format must be one of ${TRANSCRIPT_FORMATS.join(', ')}`,
+    }, 400);
+  }
+
+  // Direct KV read — exporting should not wake the sandbox
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  const transcript = await buildTranscript(c.env.SESSIONS_KV, c.env.AUTH_KV, session);
+  return c.body(renderTranscript(transcript, format), 200, {
+    'Content-Type': TRANSCRIPT_CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="session-${sessionId.slice(0, 8)}.${format}"`,
+  });
+});
+
+// Secret audit trail — which secrets were injected and which were masked in output
+sessionRoutes.get('/:sessionId/secret-audit', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  return c.json<ApiResponse<SecretAuditEntry[]>>({
+    success: true,
+    data: await listSecretAudit(c.env.SESSIONS_KV, sessionId),
+  });
+});
+
+const CreateShareLinkSchema = z.object({
+  expiresInHours: z.number().min(1).max(MAX_SHARE_TTL_HOURS).default(DEFAULT_SHARE_TTL_HOURS),
+  includeFileContents: z.boolean().default(false),
+  includeDiff: z.boolean().default(true),
+});
+
+// Mint a read-only share link — anyone with the URL can view the transcript
+// until it expires or is revoked. Owner only.
+sessionRoutes.post('/:sessionId/share', async (c) => {
+  const user = c.get('user');
+  const sandboxManager = c.get('sandboxManager');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  const parsed = CreateShareLinkSchema.safeParse(await c.req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: parsed.error.issues[0]?.message || 'Invalid input',
+    }, 400);
+  }
+
+  // Snapshot the diff now — the sandbox may be gone by the time the link is
+  // opened. A sleeping sandbox just means a link without a Changes section.
+  let diff: string | undefined;
+  if (parsed.data.includeDiff && session.sandboxId) {
+    try {
+      const result = await sandboxManager.execInSandbox(
+        session.sandboxId,
+        ['git', '-C', session.projectPath || '/workspace', 'diff', 'HEAD']
+      );
+      if (result.exitCode === 0 && result.stdout.trim()) {
+        const redactor = await loadRedactor(c.env, user.id, await collectGithubToken(c.env.AUTH_KV, user.id, c.env));
+        diff = redactSecrets(redactor, result.stdout).text;
+      }
+    } catch {
+      // Non-fatal
+    }
+  }
+
+  try {
+    const { link, token } = await createShareLink(c.env.SESSIONS_KV, c.env.JWT_SECRET, session, user.id, {
+      ttlHours: parsed.data.expiresInHours,
+      includeFileContents: parsed.data.includeFileContents,
+      diff,
+    });
+    const url = `${new URL(c.req.url).origin}/api/share/${token}`;
+    return c.json<ApiResponse<ShareLinkInfo & { url: string }>>({ success: true, data: { ...link, url } }, 201);
+  } catch (err) {
+    if (err instanceof ShareLinkError) {
+      return c.json<ApiResponse<never>>({ success: false, error: err.message }, err.status);
+    }
+    throw err;
+  }
+});
+
+// List active share links. Tokens are not stored, so URLs cannot be re-shown.
+sessionRoutes.get('/:sessionId/shares', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  return c.json<ApiResponse<ShareLinkInfo[]>>({
+    success: true,
+    data: await listShareLinks(c.env.SESSIONS_KV, sessionId),
+  });
+});
+
+// Revoke a share link — the URL stops working immediately
+sessionRoutes.delete('/:sessionId/shares/:shareId', async (c) => {
+  const user = c.get('user');
+  const sessionId = c.req.param('sessionId');
+
+  const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'owner'))) {
+    return c.json<ApiResponse<never>>({
+      success: false,
+      error: 'Session not found',
+    }, 404);
+  }
+
+  try {
+    await revokeShareLink(c.env.SESSIONS_KV, sessionId, c.req.param('shareId'));
+  } catch (err) {
+    if (err instanceof ShareLinkError) {
+      return c.json<ApiResponse<never>>({ success: false, error: err.message }, err.status);
+    }
+    throw err;
+  }
+  return c.json<ApiResponse<{ revoked: boolean }>>({ success: true, data: { revoked: true } });
+});
+
 // Get config sync status for a session
 sessionRoutes.get('/:sessionId/config-status', async (c) => {
   const user = c.get('user');
@@ -1046,7 +1360,7 @@ sessionRoutes.get('/:sessionId/config-status', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -1096,7 +1410,7 @@ sessionRoutes.post('/:sessionId/sync-config', async (c) => {
     'json'
   );
 
-  if (!session || session.userId !== user.id) {
+  if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'write'))) {
     return c.json<ApiResponse<never>>({
       success: false,
       error: 'Session not found',
@@ -1110,7 +1424,7 @@ sessionRoutes.post('/:sessionId/sync-config', async (c) => {
     }, 400);
   }
 
-  const sandboxConfig = await assembleSandboxConfig(c.env.SESSIONS_KV, user.id);
+  const sandboxConfig = await assembleSandboxConfig(c.env, user.id, { gitRepo: session.gitRepo });
 
   // Force injection (bypasses sentinel check)
   try {
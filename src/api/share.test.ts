@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Session } from '../types';
+import { shareRoutes } from './share';
+import { createShareLink } from '../services/share-links';
+import { memoryKv } from '../test-utils/memory-kv';
+
+// The owner's GitHub token is sealed under a master key this deployment no longer has
+vi.mock('../sandbox', () => ({
+  collectGithubToken: async () => {
+    throw new Error('No master key can open this value');
+  },
+}));
+
+const session: Session = {
+  id: 's1',
+  userId: 'u1',
+  status: 'active',
+  createdAt: '2026-03-01T00:00:00.000Z',
+  lastActiveAt: '2026-03-01T01:00:00.000Z',
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('GET /:token', () => {
+  it("refuses the share instead of failing when the owner's secrets can't be opened", async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sessionsKv = memoryKv(new Map([['session:s1', JSON.stringify(session)]]));
+    const env = { SESSIONS_KV: sessionsKv, AUTH_KV: memoryKv(), JWT_SECRET: 'jwt-secret' } as unknown as Env;
+    const { token } = await createShareLink(sessionsKv, env.JWT_SECRET, session, 'u1', {
+      ttlHours: 1,
+      includeFileContents: false,
+    });
+
+    const res = await shareRoutes.request(`/${token}`, {}, env);
+
+    expect(res.status).toBe(503);
+    expect(res.headers.get('Cache-Control')).toBe('no-store');
+    expect(await res.text()).toBe('This transcript is temporarily unavailable.');
+  });
+});
@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+import type { Session } from '../types';
+import { collectGithubToken } from '../sandbox';
+import { loadRedactor, type SecretRedactor } from '../services/secret-audit';
+import { redactSharedTranscript, resolveShareLink } from '../services/share-links';
+import {
+  TRANSCRIPT_CONTENT_TYPES,
+  TRANSCRIPT_FORMATS,
+  buildTranscript,
+  renderTranscript,
+  type TranscriptFormat,
+} from '../services/transcript-export';
+
+/**
+ * Public, read-only session transcripts behind signed share links.
+ * No login — the token is the credential, so every failure looks the same.
+ */
+export const shareRoutes = new Hono<{ Bindings: Env }>();
+
+const NOT_FOUND = 'This link has expired or been revoked.';
+const UNAVAILABLE = 'This transcript is temporarily unavailable.';
+
+/**
+ * Masks the owner's secrets, or null when they can't be opened (e.g. a
+ * rotated master key). Nothing could be masked then, so the share is refused.
+ */
+async function ownerRedactor(env: Env, userId: string): Promise<SecretRedactor | null> {
+  try {
+    return await loadRedactor(env, userId, await collectGithubToken(env.AUTH_KV, userId, env));
+  } catch (err) {
+    console.error(`[share] could not load secrets to redact for ${userId}:`, err);
+    return null;
+  }
+}
+
+shareRoutes.get('/:token', async (c) => {
+  const format = (c.req.query('format') || 'html') as TranscriptFormat;
+  if (!TRANSCRIPT_FORMATS.includes(format)) {
+    return c.text(`format must be one of ${TRANSCRIPT_FORMATS.join(', ')}`, 400);
+  }
+
+  const link = await resolveShareLink(c.env.SESSIONS_KV, c.env.JWT_SECRET, c.req.param('token'));
+  const session = link
+    ? await c.env.SESSIONS_KV.get<Session>(`session:${link.sessionId}`, 'json')
+    : null;
+  if (!link || !session) return c.text(NOT_FOUND, 404);
+
+  const [transcript, redactor] = await Promise.all([
+    buildTranscript(c.env.SESSIONS_KV, c.env.AUTH_KV, session),
+    ownerRedactor(c.env, session.userId),
+  ]);
+  if (!redactor) return c.text(UNAVAILABLE, 503, { 'Cache-Control': 'no-store' });
+
+  return c.body(renderTranscript(redactSharedTranscript(transcript, redactor, link), format), 200, {
+    'Content-Type': TRANSCRIPT_CONTENT_TYPES[format],
+    // Revocation must take effect immediately — never let a proxy keep a copy
+    'Cache-Control': 'private, no-store',
+    'X-Robots-Tag': 'noindex, nofollow',
+    'Referrer-Policy': 'no-referrer',
+    'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+  });
+});
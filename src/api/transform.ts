@@ -70,7 +70,7 @@ transformRoutes.post('/stream', async (c) => {
 
   // Get credentials
   const creds = await getProviderCredentials(
-    c.env.SESSIONS_KV,
+    c.env,
     user.id,
     user.claudeToken
   );
@@ -152,7 +152,7 @@ userComponentsRoutes.post('/generate', async (c) => {
     return c.json<ApiResponse<never>>({ success: false, error: 'prompt is required' }, 400);
   }
 
-  const creds = await getProviderCredentials(c.env.AUTH_KV, user.id);
+  const creds = await getProviderCredentials(c.env, user.id);
   const model = createModel('claude', creds, 'claude-haiku-4-5-20251001');
 
   const systemPrompt = [
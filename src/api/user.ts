@@ -1,6 +1,13 @@
 import { Hono } from 'hono';
 import type { User } from '../types';
 import type { ApiResponse } from '../types';
+import {
+  getBudgetPolicy,
+  getMaxBudgetUsd,
+  saveBudgetPolicy,
+  validateBudgetPolicy,
+  type BudgetPolicy,
+} from '../services/budget';
 
 type Variables = {
   user: User;
@@ -76,17 +83,6 @@ Your responses stream to the user's browser in real-time. Keep responses focused
 **After any task involving tool use** (writing files, running commands, making edits, etc.), always follow up with a brief text summary of what was done. The user cannot see individual tool calls — without a text response they have no way to know if the work is complete or if you need input to continue.
 `;
 
-/** Fetch per-session budget ceiling for a user. Returns undefined (no limit) when not set. */
-export async function getMaxBudgetUsd(
-  kv: KVNamespace,
-  userId: string
-): Promise<number | undefined> {
-  const raw = await kv.get(`user-config:${userId}:max-budget-usd`);
-  if (raw === null) return undefined;
-  const n = parseFloat(raw);
-  return isFinite(n) && n > 0 ? n : undefined;
-}
-
 /** Fetch auto-context preference for a user. Default: true (enabled). */
 export async function getAutoContextPref(
   kv: KVNamespace,
@@ -219,20 +215,23 @@ userRoutes.put('/auto-context', async (c) => {
   });
 });
 
-// Get per-session budget ceiling
+// Get budget ceiling and the policy applied once it is reached
 userRoutes.get('/max-budget', async (c) => {
   const user = c.get('user');
-  const value = await getMaxBudgetUsd(c.env.SESSIONS_KV, user.id);
-  return c.json<ApiResponse<{ maxBudgetUsd: number | null }>>({
+  const [value, policy] = await Promise.all([
+    getMaxBudgetUsd(c.env.SESSIONS_KV, user.id),
+    getBudgetPolicy(c.env.SESSIONS_KV, user.id),
+  ]);
+  return c.json<ApiResponse<{ maxBudgetUsd: number | null; policy: BudgetPolicy }>>({
     success: true,
-    data: { maxBudgetUsd: value ?? null },
+    data: { maxBudgetUsd: value ?? null, policy },
   });
 });
 
-// Set per-session budget ceiling (null or 0 = no limit)
+// Set budget ceiling (null or 0 = no limit) and optionally its policy
 userRoutes.put('/max-budget', async (c) => {
   const user = c.get('user');
-  const body = await c.req.json<{ maxBudgetUsd: number | null }>();
+  const body = await c.req.json<{ maxBudgetUsd: number | null; policy?: Partial<BudgetPolicy> }>();
 
   if (body.maxBudgetUsd !== null && (typeof body.maxBudgetUsd !== 'number' || body.maxBudgetUsd < 0)) {
     return c.json<ApiResponse<never>>({
@@ -240,22 +239,31 @@ userRoutes.put('/max-budget', async (c) => {
       error: 'maxBudgetUsd must be a positive number or null',
     }, 400);
   }
+  const policyError = body.policy ? validateBudgetPolicy(body.policy) : null;
+  if (policyError) {
+    return c.json<ApiResponse<never>>({ success: false, error: policyError }, 400);
+  }
 
   const kv = c.env.SESSIONS_KV;
   const key = `user-config:${user.id}:max-budget-usd`;
 
+  const policy = { ...(await getBudgetPolicy(kv, user.id)), ...(body.policy ?? {}) };
+  if (body.policy) {
+    await saveBudgetPolicy(kv, user.id, policy);
+  }
+
   if (!body.maxBudgetUsd || body.maxBudgetUsd <= 0) {
     await kv.delete(key);
-    return c.json<ApiResponse<{ maxBudgetUsd: null }>>({
+    return c.json<ApiResponse<{ maxBudgetUsd: null; policy: BudgetPolicy }>>({
       success: true,
-      data: { maxBudgetUsd: null },
+      data: { maxBudgetUsd: null, policy },
     });
   }
 
   await kv.put(key, String(body.maxBudgetUsd));
-  return c.json<ApiResponse<{ maxBudgetUsd: number }>>({
+  return c.json<ApiResponse<{ maxBudgetUsd: number; policy: BudgetPolicy }>>({
     success: true,
-    data: { maxBudgetUsd: body.maxBudgetUsd },
+    data: { maxBudgetUsd: body.maxBudgetUsd, policy },
   });
 });
 
@@ -1,47 +1,136 @@
 /**
  * Shared helper to assemble SandboxConfig from KV for session wake/resume.
  * Used by both the session resume endpoint and the SDK stream endpoint
- * to re-inject config after a container recycle.
+ * to re-inject config after a container recycle. Config shared by the
+ * user's orgs is layered underneath their own.
  */
 import type { SandboxConfig } from './sandbox';
-import { collectMcpConfig, hasRelayServers, collectCredentialFiles } from './api/mcp';
+import type { Session } from './types';
+import { collectMcpSetup, collectCredentialFiles, type McpSetup } from './api/mcp';
 import { collectPluginConfigs } from './api/plugins';
 import { collectUserConfigs } from './api/config';
-import { getVfRules, getAutoContextPref, getMaxBudgetUsd } from './api/user';
+import { getVfRules, getAutoContextPref } from './api/user';
+import { getMaxBudgetUsd } from './services/budget';
 import { collectGeminiMcpConfig } from './api/ai-providers';
 import { configHash } from './lib/config-hash';
+import { listUserOrgIds, orgPrincipal } from './services/orgs';
 
 export interface ConfigWithHashes {
   config: SandboxConfig;
   hashes: { mcpConfigHash: string; credFilesHash: string };
 }
 
+type ConfigFiles = Array<{ filename: string; content: string }>;
+type PluginConfigs = Awaited<ReturnType<typeof collectPluginConfigs>>;
+type UserConfigs = Awaited<ReturnType<typeof collectUserConfigs>>;
+
+/** Later layers win on filename collisions, so a member's own file shadows the org's. */
+function layerFiles(...layers: ConfigFiles[]): ConfigFiles {
+  const byName = new Map<string, { filename: string; content: string }>();
+  for (const layer of layers) for (const f of layer) byName.set(f.filename, f);
+  return [...byName.values()];
+}
+
+/**
+ * MCP servers, plugins and config rules shared by the user's orgs, merged in
+ * membership order. Relay servers and built-in plugins are per-user only.
+ */
+async function collectOrgConfig(env: Env, userId: string, gitRepo?: string): Promise<{
+  mcp: McpSetup;
+  pluginConfigs: PluginConfigs;
+  userConfigs: UserConfigs;
+}> {
+  const kv = env.SESSIONS_KV;
+  const orgIds = await listUserOrgIds(env.AUTH_KV, userId);
+  const layers = await Promise.all(orgIds.map(async (orgId) => {
+    const principal = orgPrincipal(orgId);
+    const [mcp, pluginConfigs, userConfigs] = await Promise.all([
+      collectMcpSetup(env, principal, { includeRelay: false, gitRepo }),
+      collectPluginConfigs(kv, principal, { includeBuiltIns: false }),
+      collectUserConfigs(kv, principal),
+    ]);
+    return { mcp, pluginConfigs, userConfigs };
+  }));
+
+  return {
+    mcp: {
+      mcpServers: Object.assign({}, ...layers.map((l) => l.mcp.mcpServers)),
+      proxyTargets: Object.assign({}, ...layers.map((l) => l.mcp.proxyTargets)),
+      toolPolicy: Object.assign({}, ...layers.map((l) => l.mcp.toolPolicy)),
+    },
+    pluginConfigs: {
+      agents: layerFiles(...layers.map((l) => l.pluginConfigs.agents)),
+      commands: layerFiles(...layers.map((l) => l.pluginConfigs.commands)),
+      rules: layerFiles(...layers.map((l) => l.pluginConfigs.rules)),
+      mcpServers: Object.assign({}, ...layers.map((l) => l.pluginConfigs.mcpServers)),
+    },
+    userConfigs: {
+      rules: layerFiles(...layers.map((l) => l.userConfigs.rules)),
+      commands: layerFiles(...layers.map((l) => l.userConfigs.commands)),
+      agents: layerFiles(...layers.map((l) => l.userConfigs.agents)),
+    },
+  };
+}
+
+/**
+ * Which session the config is for. Its repo decides which project-scoped MCP
+ * servers apply: pass `gitRepo` for a session that isn't stored yet, or
+ * `sessionId` to look it up.
+ */
+export interface SessionTarget {
+  sessionId?: string;
+  gitRepo?: string;
+}
+
+async function resolveGitRepo(kv: KVNamespace, target: SessionTarget): Promise<string | undefined> {
+  if (target.gitRepo || !target.sessionId) return target.gitRepo;
+  const session = await kv.get<Session>(`session:${target.sessionId}`, 'json');
+  return session?.gitRepo;
+}
+
 export async function assembleSandboxConfig(
-  kv: KVNamespace,
-  userId: string
+  env: Env,
+  userId: string,
+  target: SessionTarget = {}
 ): Promise<SandboxConfig> {
-  const [claudeMd, mcpServers, pluginConfigs, userConfigs, vfRules, geminiMcp, credentialFiles, autoContext, maxBudgetUsd] =
+  const kv = env.SESSIONS_KV;
+  const gitRepo = await resolveGitRepo(kv, target);
+  const [claudeMd, mcp, pluginConfigs, userConfigs, org, vfRules, geminiMcp, credentialFiles, autoContext, maxBudgetUsd] =
     await Promise.all([
       kv.get(`user-config:${userId}:claude-md`),
-      collectMcpConfig(kv, userId),
+      collectMcpSetup(env, userId, { gitRepo }),
       collectPluginConfigs(kv, userId),
       collectUserConfigs(kv, userId),
+      collectOrgConfig(env, userId, gitRepo),
       getVfRules(kv, userId),
       collectGeminiMcpConfig(kv, userId),
-      collectCredentialFiles(kv, userId),
+      collectCredentialFiles(kv, userId, gitRepo),
       getAutoContextPref(kv, userId),
       getMaxBudgetUsd(kv, userId),
     ]);
 
+  const mcpProxy = { ...org.mcp.proxyTargets, ...mcp.proxyTargets };
+
   return {
     claudeMd: claudeMd || undefined,
-    mcpServers,
-    pluginConfigs,
-    userConfigs,
+    mcpServers: { ...org.mcp.mcpServers, ...mcp.mcpServers },
+    mcpProxy,
+    mcpToolPolicy: { ...org.mcp.toolPolicy, ...mcp.toolPolicy },
+    pluginConfigs: {
+      agents: layerFiles(org.pluginConfigs.agents, pluginConfigs.agents),
+      commands: layerFiles(org.pluginConfigs.commands, pluginConfigs.commands),
+      rules: layerFiles(org.pluginConfigs.rules, pluginConfigs.rules),
+      mcpServers: { ...org.pluginConfigs.mcpServers, ...pluginConfigs.mcpServers },
+    },
+    userConfigs: {
+      rules: layerFiles(org.userConfigs.rules, userConfigs.rules),
+      commands: layerFiles(org.userConfigs.commands, userConfigs.commands),
+      agents: layerFiles(org.userConfigs.agents, userConfigs.agents),
+    },
     vfRules,
     injectGeminiAgent: !!geminiMcp,
     geminiMcpServers: geminiMcp || undefined,
-    startRelayProxy: await hasRelayServers(kv, userId),
+    startRelayProxy: Object.keys(mcpProxy).length > 0,
     credentialFiles,
     autoContext,
     maxBudgetUsd,
@@ -49,10 +138,11 @@ export async function assembleSandboxConfig(
 }
 
 export async function assembleSandboxConfigWithHashes(
-  kv: KVNamespace,
-  userId: string
+  env: Env,
+  userId: string,
+  target: SessionTarget = {}
 ): Promise<ConfigWithHashes> {
-  const config = await assembleSandboxConfig(kv, userId);
+  const config = await assembleSandboxConfig(env, userId, target);
 
   const mergedMcp = {
     ...(config.mcpServers || {}),
@@ -61,7 +151,7 @@ export async function assembleSandboxConfigWithHashes(
   };
 
   const [mcpConfigHash, credFilesHash] = await Promise.all([
-    configHash(mergedMcp as Record<string, unknown>),
+    configHash({ mcpServers: mergedMcp, mcpProxy: config.mcpProxy ?? {} }),
     configHash(config.credentialFiles as unknown as Record<string, unknown>),
   ]);
 
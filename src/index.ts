@@ -6,11 +6,43 @@ export { Sandbox } from '@cloudflare/sandbox';
 import { proxyToSandbox } from '@cloudflare/sandbox';
 import { verifyExecutionToken } from './utils/jwt';
 import { AuthService, extractAuth } from './auth';
-import type { Session } from './types';
+import type { Session, User } from './types';
 import { nanoid } from 'nanoid';
+import { deleteEmbeddingsIndex } from './services/embeddings';
+import { vectorStoreFactory } from './services/vector-store';
+import { canAccessSession, sessionAccess } from './services/orgs';
+import { runDueJobs } from './api/schedules';
 
 export { SessionDurableObject, ChatSessionAgent };
 
+/** Must match the daily trigger in wrangler.jsonc */
+const CLEANUP_CRON = '0 4 * * *';
+
+/**
+ * Resolve the user of a browser WS upgrade. Prefers the short-lived ticket over
+ * a long-lived JWT in the URL — tickets avoid the session token appearing in CF
+ * access logs and browser history.
+ */
+async function resolveWsUser(url: URL, env: Env, authService: AuthService): Promise<User | null> {
+  const wsTicket = url.searchParams.get('ticket');
+  const wsToken = url.searchParams.get('token');
+
+  if (wsTicket) {
+    // Burn the ticket immediately (single-use).
+    // TOCTOU note: KV does not support atomic get-and-delete. A race window exists
+    // between the get and delete where the same ticket could theoretically be used
+    // twice. In practice this is mitigated by: (1) 60s TTL on the ticket key,
+    // (2) nanoid entropy making ticket values unguessable, and (3) the window
+    // being microseconds in a single-region deployment. No additional locking needed.
+    const ticketUserId = await env.AUTH_KV.get(`ws-ticket:${wsTicket}`);
+    if (!ticketUserId) return null;
+    await env.AUTH_KV.delete(`ws-ticket:${wsTicket}`);
+    return env.AUTH_KV.get<User>(`user:${ticketUserId}`, 'json');
+  }
+  if (wsToken) return authService.getUserFromToken(wsToken);
+  return null;
+}
+
 export default {
   async fetch(
     request: Request,
@@ -111,9 +143,9 @@ export default {
         });
       }
 
-      // Verify session ownership — prevents IDOR prompt injection into other users' sessions
+      // Verify session access — prevents IDOR prompt injection into other users' sessions
       const chatSession = await env.SESSIONS_KV.get<Session>(`session:${body.sessionId}`, 'json');
-      if (!chatSession || chatSession.userId !== user.id) {
+      if (!chatSession || !(await canAccessSession(env.AUTH_KV, chatSession, user.id, 'write'))) {
         return new Response('Forbidden', { status: 403 });
       }
 
@@ -168,9 +200,9 @@ export default {
         return new Response('Missing sessionId, approvalId, or approved', { status: 400 });
       }
 
-      // Verify session ownership — prevents IDOR tool approval on other users' sessions
+      // Verify session access — prevents IDOR tool approval on other users' sessions
       const approveSession = await env.SESSIONS_KV.get<Session>(`session:${body.sessionId}`, 'json');
-      if (!approveSession || approveSession.userId !== user.id) {
+      if (!approveSession || !(await canAccessSession(env.AUTH_KV, approveSession, user.id, 'write'))) {
         return new Response('Forbidden', { status: 403 });
       }
 
@@ -180,7 +212,7 @@ export default {
         new Request('https://do/approve', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ approvalId: body.approvalId, approved: body.approved }),
+          body: JSON.stringify({ approvalId: body.approvalId, approved: body.approved, userId: user.id }),
         })
       );
     }
@@ -211,37 +243,15 @@ export default {
       url.pathname === '/api/v15/ws'
     ) {
       const authService = new AuthService(env.AUTH_KV, env.JWT_SECRET);
-
-      // Prefer short-lived ticket over long-lived JWT in URL — tickets avoid
-      // the session token appearing in CF access logs and browser history.
-      const wsTicket = url.searchParams.get('ticket');
-      const wsToken = url.searchParams.get('token');
-
-      let wsUser = null;
-      if (wsTicket) {
-        // Burn the ticket immediately (single-use).
-        // TOCTOU note: KV does not support atomic get-and-delete. A race window exists
-        // between the get and delete where the same ticket could theoretically be used
-        // twice. In practice this is mitigated by: (1) 60s TTL on the ticket key,
-        // (2) nanoid entropy making ticket values unguessable, and (3) the window
-        // being microseconds in a single-region deployment. No additional locking needed.
-        const ticketUserId = await env.AUTH_KV.get(`ws-ticket:${wsTicket}`);
-        if (ticketUserId) {
-          await env.AUTH_KV.delete(`ws-ticket:${wsTicket}`);
-          wsUser = await env.AUTH_KV.get<import('./types').User>(`user:${ticketUserId}`, 'json');
-        }
-      } else if (wsToken) {
-        wsUser = await authService.getUserFromToken(wsToken);
-      }
-
+      const wsUser = await resolveWsUser(url, env, authService);
       if (!wsUser) return new Response('Unauthorized', { status: 401 });
 
       const wsSessionId = url.searchParams.get('sessionId');
       if (!wsSessionId) return new Response('Missing sessionId', { status: 400 });
 
-      // Verify session ownership — prevents IDOR WS injection into other users' sessions
+      // Verify session access — prevents IDOR WS injection into other users' sessions
       const wsSession = await env.SESSIONS_KV.get<Session>(`session:${wsSessionId}`, 'json');
-      if (!wsSession || wsSession.userId !== wsUser.id) {
+      if (!wsSession || !(await canAccessSession(env.AUTH_KV, wsSession, wsUser.id, 'write'))) {
         return new Response('Forbidden', { status: 403 });
       }
 
@@ -253,6 +263,33 @@ export default {
       return wsStub.fetch(new Request(wsDoUrl, { headers: request.headers }));
     }
 
+    // Watch socket — presence, live output, prompt queue and shared approvals.
+    // Open to every member who can read the session; the DO enforces what
+    // each access level may send.
+    if (
+      request.headers.get('Upgrade') === 'websocket' &&
+      url.pathname === '/api/v15/watch'
+    ) {
+      const authService = new AuthService(env.AUTH_KV, env.JWT_SECRET);
+      const watchUser = await resolveWsUser(url, env, authService);
+      if (!watchUser) return new Response('Unauthorized', { status: 401 });
+
+      const watchSessionId = url.searchParams.get('sessionId');
+      if (!watchSessionId) return new Response('Missing sessionId', { status: 400 });
+
+      const watchSession = await env.SESSIONS_KV.get<Session>(`session:${watchSessionId}`, 'json');
+      const access = watchSession ? await sessionAccess(env.AUTH_KV, watchSession, watchUser.id) : null;
+      if (!access) return new Response('Forbidden', { status: 403 });
+
+      const watchStub = env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(watchSessionId));
+      const watchDoUrl = new URL('https://do/watch');
+      watchDoUrl.searchParams.set('userId', watchUser.id);
+      watchDoUrl.searchParams.set('email', watchUser.email);
+      watchDoUrl.searchParams.set('access', access);
+      watchDoUrl.searchParams.set('sessionId', watchSessionId);
+      return watchStub.fetch(new Request(watchDoUrl, { headers: request.headers }));
+    }
+
     // V1.5: Resume endpoint — serves buffered NDJSON from a given offset after disconnect
     if (
       request.method === 'GET' &&
@@ -269,9 +306,9 @@ export default {
         return new Response('Missing sessionId', { status: 400 });
       }
 
-      // Verify session ownership — prevents IDOR replay buffer read across users
+      // Verify session access — prevents IDOR replay buffer read across users
       const resumeSession = await env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
-      if (!resumeSession || resumeSession.userId !== user.id) {
+      if (!resumeSession || !(await canAccessSession(env.AUTH_KV, resumeSession, user.id, 'read'))) {
         return new Response('Forbidden', { status: 403 });
       }
 
@@ -320,12 +357,19 @@ export default {
     return routerResponse;
   },
 
-  // Scheduled handler: purge pending-delete sessions after 5 days
+  // Scheduled handler: the daily trigger purges pending-delete sessions after
+  // 5 days; the 5-minute trigger starts due scheduled jobs
   async scheduled(
     event: ScheduledEvent,
     env: Env,
     ctx: ExecutionContext
   ): Promise<void> {
+    if (event.cron !== CLEANUP_CRON) {
+      const started = await runDueJobs(env, ctx);
+      if (started > 0) console.log(`[schedules] Started ${started} due jobs`);
+      return;
+    }
+
     console.log('[cleanup] Scheduled cleanup triggered at:', new Date().toISOString());
 
     const FIVE_DAYS_MS = 5 * 24 * 60 * 60 * 1000;
@@ -338,6 +382,7 @@ export default {
     for (const key of list.keys) {
       const session = await env.SESSIONS_KV.get<{
         id: string;
+        userId: string;
         status: string;
         metadata?: Record<string, unknown>;
       }>(key.name, 'json');
@@ -358,6 +403,11 @@ export default {
         await env.SESSIONS_KV.delete(msgKey.name);
       }
 
+      // Drop the embeddings manifest and its vectors (no TTL on either)
+      await deleteEmbeddingsIndex(
+        env.SESSIONS_KV, vectorStoreFactory(env), session.userId, sessionId
+      ).catch((err) => console.warn('[cleanup] embeddings cleanup failed:', err));
+
       // Delete the session itself
       await env.SESSIONS_KV.delete(key.name);
       purged++;
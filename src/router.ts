@@ -6,17 +6,22 @@ import { SandboxManager } from './sandbox';
 import { chatRoutes } from './api/chat';
 import { fileRoutes } from './api/files';
 import { sessionRoutes } from './api/sessions';
+import { scheduleRoutes } from './api/schedules';
 import { gitRoutes } from './api/git';
+import { prReviewRoutes } from './api/pr-review';
 import { sdkRoutes, handleSdkWs } from './api/sdk';
 import { userRoutes } from './api/user';
 import { secretsRoutes } from './api/secrets';
 import { mcpRoutes } from './api/mcp';
 import { mcpRelayRoutes } from './api/mcp-relay';
 import { mcpOAuthPublicRoutes } from './api/mcp-oauth';
+import { shareRoutes } from './api/share';
 import { githubCallback, githubAuthRedirectPublic } from './api/github';
+import { handleGithubWebhook } from './api/github-webhooks';
 import { pluginsRoutes } from './api/plugins';
 import { pluginSourcesRoutes } from './api/plugin-sources';
 import { configRoutes } from './api/config';
+import { orgRoutes } from './api/orgs';
 import { issuesRoutes } from './api/issues-routes';
 import { favoritesRoutes } from './api/favorites-routes';
 import { githubRoutes } from './api/github-routes';
@@ -39,6 +44,8 @@ import { getSandbox } from '@cloudflare/sandbox';
 import { SetupTokenRequestSchema } from './types';
 import type { User, Session } from './types';
 import { authRateLimit, aiRateLimit } from './utils/rate-limit';
+import { readScopedUserSecrets, userSecretsKey, writeUserSecrets } from './services/user-secrets';
+import { canAccessSession } from './services/orgs';
 
 // Extend Hono context
 type Variables = {
@@ -185,7 +192,6 @@ export function createRouter(env: Env) {
 
   function userSessionsKvKeys(userId: string): string[] {
     return [
-      `user-secrets:${userId}`,
       `user-ai-providers:${userId}`,
       `user-plugins:${userId}`,
       `user-mcp:${userId}`,
@@ -198,11 +204,21 @@ export function createRouter(env: Env) {
 
   /** Migrate KV data from oldUserId to newUserId. Returns count of migrated keys. */
   async function migrateUserData(
-    authKv: KVNamespace, sessionsKv: KVNamespace,
+    env: Env,
     oldUserId: string, newUserId: string
   ): Promise<number> {
+    const { AUTH_KV: authKv, SESSIONS_KV: sessionsKv } = env;
     let recovered = 0;
 
+    // Secrets are sealed under the old user's data key — reseal rather than copy
+    if (!(await sessionsKv.get(userSecretsKey(newUserId)))) {
+      const { secrets, scopes } = await readScopedUserSecrets(env, oldUserId);
+      if (Object.keys(secrets).length > 0) {
+        await writeUserSecrets(env, newUserId, secrets, scopes);
+        recovered++;
+      }
+    }
+
     const oldAuthKeys = userAuthKvKeys(oldUserId);
     const newAuthKeys = userAuthKvKeys(newUserId);
     for (let i = 0; i < oldAuthKeys.length; i++) {
@@ -255,7 +271,7 @@ export function createRouter(env: Env) {
       return c.json({ success: false, error: 'No account found for that token. The data may have expired (KV TTL is 30 days).' }, 404);
     }
 
-    const recovered = await migrateUserData(env.AUTH_KV, env.SESSIONS_KV, oldUserId, user.id);
+    const recovered = await migrateUserData(env, oldUserId, user.id);
 
     // Write alias so future logins with the old token resolve here.
     // Only write if no alias exists yet or it already points to this user,
@@ -283,10 +299,16 @@ export function createRouter(env: Env) {
   // MCP OAuth callback — public (auth server redirects here, no JWT)
   app.route('/api/mcp-oauth', mcpOAuthPublicRoutes);
 
+  // Session share links — public (the signed token is the credential)
+  app.route('/api/share', shareRoutes);
+
   // GitHub OAuth — public routes (browser redirects can't carry Authorization headers)
   app.get('/api/github/auth', (c) => githubAuthRedirectPublic(c));
   app.get('/api/github/callback', (c) => githubCallback(c));
 
+  // GitHub webhook triggers — public (GitHub calls this directly; signed per trigger)
+  app.post('/api/github/webhook/:triggerId', (c) => handleGithubWebhook(c));
+
   // Stripe webhook — must be public (Stripe calls this directly, no JWT)
   app.post('/api/billing/webhook', (c) =>
     handleBillingWebhook({ req: c.req.raw, env: c.env })
@@ -330,7 +352,7 @@ export function createRouter(env: Env) {
       return new Response('Unauthorized', { status: 401 });
     }
     const sandboxManager = c.get('sandboxManager');
-    return handleSdkWs(c.env, c.req.raw, user, sandboxManager);
+    return handleSdkWs(c.env, c.req.raw, user, sandboxManager, c.executionCtx);
   });
 
   // File watcher SSE — inline auth (EventSource can't use Authorization header)
@@ -343,7 +365,7 @@ export function createRouter(env: Env) {
 
     const sessionId = c.req.param('sessionId');
     const session = await c.env.SESSIONS_KV.get<Session>(`session:${sessionId}`, 'json');
-    if (!session || session.userId !== user.id) {
+    if (!session || !(await canAccessSession(c.env.AUTH_KV, session, user.id, 'read'))) {
       return new Response('Session not found', { status: 404 });
     }
     if (!session.sandboxId) {
@@ -410,7 +432,9 @@ export function createRouter(env: Env) {
   protectedRoutes.route('/chat', chatRoutes);
   protectedRoutes.route('/files', fileRoutes);
   protectedRoutes.route('/sessions', sessionRoutes);
+  protectedRoutes.route('/schedules', scheduleRoutes);
   protectedRoutes.route('/git', gitRoutes);
+  protectedRoutes.route('/pr-review', prReviewRoutes);
   protectedRoutes.route('/sdk', sdkRoutes);
   protectedRoutes.route('/user', userRoutes);
   protectedRoutes.route('/secrets', secretsRoutes);
@@ -418,6 +442,7 @@ export function createRouter(env: Env) {
   protectedRoutes.route('/plugins', pluginsRoutes);
   protectedRoutes.route('/plugin-sources', pluginSourcesRoutes);
   protectedRoutes.route('/config', configRoutes);
+  protectedRoutes.route('/orgs', orgRoutes);
   protectedRoutes.route('/issues', issuesRoutes);
   protectedRoutes.route('/favorites', favoritesRoutes);
   protectedRoutes.route('/github', githubRoutes);
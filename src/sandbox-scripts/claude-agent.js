@@ -9,7 +9,7 @@
 //   { type: "text-delta", text: "..." }
 //   { type: "tool-start", name: "...", input: {...} }
 //   { type: "tool-result", name: "...", output: "..." }
-//   { type: "done", sessionId: "...", fullText: "...", usage?: {inputTokens, outputTokens} }
+//   { type: "done", sessionId: "...", fullText: "...", model?: "...", usage?: {inputTokens, outputTokens}, costUsd?: n }
 //   { type: "error", error: "..." }
 
 let query;
@@ -169,11 +169,32 @@ const STRIP_FROM_SDK_ENV = new Set([
   'VF_AUTO_CONTEXT',           // VF internal (read in buildOptions to control auto-context injection)
   'VF_AUTONOMY_MODE',          // VF internal (read in buildOptions to set permissionMode)
   'VF_MAX_BUDGET_USD',         // VF internal (read in buildOptions to set maxBudgetUsd)
+  'VF_MCP_TOOL_POLICY',        // VF internal (read in buildOptions for per-tool MCP policy)
 ]);
 
 // VF display-only tools — always auto-allowed (no side effects, no approval needed).
 const VF_AUTO_ALLOW_TOOLS = new Set(['create_plan', 'ask_user_questions']);
 
+// Per-tool MCP policy from the VF Worker: { "mcp__server__tool": "deny" | "ask" }.
+// Tools not listed are allowed.
+function readMcpToolPolicy() {
+  try {
+    return JSON.parse(process.env.VF_MCP_TOOL_POLICY || '{}') || {};
+  } catch (err) {
+    console.error(`[claude-agent] Failed to parse VF_MCP_TOOL_POLICY: ${err.message}`);
+    return {};
+  }
+}
+
+// Calls routed through the mcp-catalog server (on-demand MCP servers) are
+// judged as the tool they reach, not as call_tool.
+function effectiveToolName(toolName, input) {
+  if (toolName === 'mcp__mcp-catalog__call_tool' && input && input.server && input.tool) {
+    return `mcp__${input.server}__${input.tool}`;
+  }
+  return toolName;
+}
+
 // Tools blocked in plan mode (read-only research mode).
 // Plan mode allows reading, searching, and web browsing but blocks mutations.
 const PLAN_MODE_BLOCKED_TOOLS = new Set([
@@ -442,12 +463,25 @@ function buildOptions(prompt, sessionId, cwd, useResume, modelOverride, agents)
   // Autonomy mode: conservative=ask, standard=auto-accept edits, autonomous=bypass all
   // Plan mode always wins regardless of autonomy setting.
   const autonomy = process.env.VF_AUTONOMY_MODE || 'autonomous';
+
+  // MCP tools marked 'ask' pause for approval in every autonomy mode. Only the
+  // callback/native paths can poll for approval, so elsewhere they're denied.
+  // bypassPermissions skips canUseTool, so autonomous mode drops to 'default'
+  // when any tool needs asking and canUseTool allows everything else.
+  const canApprove = IS_CALLBACK_MODE || NATIVE_STREAM;
+  const mcpToolPolicy = readMcpToolPolicy();
+  const hasAskTools = canApprove && Object.values(mcpToolPolicy).includes('ask');
+  const disallowedTools = Object.keys(mcpToolPolicy)
+    .filter((name) => mcpToolPolicy[name] === 'deny' || !canApprove);
+
   const permissionMode = isPlan ? 'plan'
     : autonomy === 'conservative' ? 'default'
     : autonomy === 'standard' ? 'acceptEdits'
+    : hasAskTools ? 'default'
     : 'bypassPermissions';
-  const allowDangerouslySkipPermissions = !isPlan && autonomy === 'autonomous';
+  const allowDangerouslySkipPermissions = permissionMode === 'bypassPermissions';
   if (!isPlan) console.error(`[claude-agent] Autonomy: ${autonomy} -> permissionMode: ${permissionMode}`);
+  if (disallowedTools.length) console.error(`[claude-agent] MCP tools disabled: ${disallowedTools.join(', ')}`);
 
   const pluginDir = process.env.CLAUDE_CONFIG_DIR || '/root/.claude';
   console.error(`[claude-agent] Plugin dir: ${pluginDir} (exists: ${fs.existsSync(pluginDir)})`);
@@ -567,6 +601,7 @@ function buildOptions(prompt, sessionId, cwd, useResume, modelOverride, agents)
     agents,
     tools: vfTools,
     ...(mcpServers ? { mcpServers } : {}),
+    ...(disallowedTools.length ? { disallowedTools } : {}),
     ...(maxBudgetUsd && maxBudgetUsd > 0 ? { maxBudgetUsd } : {}),
     includePartialMessages: true,
     permissionMode,
@@ -577,21 +612,28 @@ function buildOptions(prompt, sessionId, cwd, useResume, modelOverride, agents)
     // route. Users on V1.0 WS mode with standard/conservative autonomy will have tools
     // execute without waiting for approval — upgrade to V1.5 for full approval support.
     // The startup warning below is emitted when this limitation is active.
-    ...((isPlan || ((IS_CALLBACK_MODE || NATIVE_STREAM) && (autonomy === 'standard' || autonomy === 'conservative'))) ? {
-      canUseTool: async (toolName, input) => {
+    ...((isPlan || (canApprove && (autonomy === 'standard' || autonomy === 'conservative' || hasAskTools))) ? {
+      canUseTool: async (sdkToolName, input) => {
+        const toolName = effectiveToolName(sdkToolName, input);
+        const policy = mcpToolPolicy[toolName];
+        if (policy === 'deny' || (policy === 'ask' && !canApprove)) {
+          console.error(`[claude-agent] MCP tool policy: blocked ${toolName}`);
+          return { behavior: 'deny', message: 'This MCP tool is disabled in its server settings.' };
+        }
         // Plan mode: block destructive tools
-        if (isPlan) {
-          if (PLAN_MODE_BLOCKED_TOOLS.has(toolName)) {
-            console.error(`[claude-agent] Plan mode: blocked ${toolName}`);
-            return { behavior: 'deny', message: 'This tool is not available in plan mode.' };
-          }
-          return { behavior: 'allow', updatedInput: input };
+        if (isPlan && PLAN_MODE_BLOCKED_TOOLS.has(toolName)) {
+          console.error(`[claude-agent] Plan mode: blocked ${toolName}`);
+          return { behavior: 'deny', message: 'This tool is not available in plan mode.' };
         }
         // VF display tools are always auto-allowed (no side effects)
         if (VF_AUTO_ALLOW_TOOLS.has(toolName)) {
           return { behavior: 'allow', updatedInput: input };
         }
-        // Standard/conservative: pause and wait for user approval
+        // Plan and autonomous modes only stop for MCP tools marked ask-every-time
+        if (policy !== 'ask' && (isPlan || autonomy === 'autonomous')) {
+          return { behavior: 'allow', updatedInput: input };
+        }
+        // Standard/conservative (or an 'ask' tool): pause and wait for user approval
         const approvalId = crypto.randomUUID();
         emit({ type: 'confirmation', toolName, input, approvalId });
         console.error(`[claude-agent] Awaiting approval for ${toolName} (${approvalId})`);
@@ -831,7 +873,7 @@ async function runStream(prompt, sessionId, cwd, useResume, modelOverride) {
 
   clearInterval(inactivityChecker);
   console.error(`[claude-agent] stream complete: ${eventCount} events in ${Date.now() - t0}ms`);
-  return { newSessionId, responseText, usage: resultUsage, costUsd: resultCostUsd };
+  return { newSessionId, responseText, usage: resultUsage, costUsd: resultCostUsd, model: options.model };
 }
 
 async function handleQuery(prompt, sessionId, cwd) {
@@ -937,6 +979,7 @@ async function handleQuery(prompt, sessionId, cwd) {
               type: 'done',
               sessionId: result.newSessionId,
               fullText: result.responseText,
+              ...(result.model ? { model: result.model } : {}),
               ...(result.usage ? { usage: result.usage } : {}),
               ...(result.costUsd !== null ? { costUsd: result.costUsd } : {}),
             });
@@ -983,6 +1026,7 @@ async function handleQuery(prompt, sessionId, cwd) {
     sessionId: result.newSessionId,
     fullText: result.responseText,
     containerBuild: currentBuild,
+    ...(result.model ? { model: result.model } : {}),
     ...(result.usage ? { usage: result.usage } : {}),
     ...(result.costUsd !== null ? { costUsd: result.costUsd } : {}),
   });
@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+
+// MCP Catalog — runs inside the container as a stdio MCP server.
+// Fronts the user's on-demand MCP servers, whose tools are not loaded into
+// the session up front: the agent lists the servers, inspects one server's
+// tools and calls them, all through the MCP proxy on localhost:9788 (which
+// also applies the server's rate limit).
+
+const http = require('http');
+const fs = require('fs');
+
+const PROXY_ORIGIN = 'http://127.0.0.1:9788';
+const CONFIG_PATH = '/root/.vf-mcp-proxy.json';
+const TIMEOUT_MS = 120000;
+
+function onDemandServers() {
+  let targets = {};
+  try { targets = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8')) || {}; }
+  catch { /* no routing table yet */ }
+  return Object.entries(targets)
+    .filter(([, target]) => target.onDemand)
+    .map(([name, target]) => {
+      const policy = target.toolPolicy || {};
+      return { name, policy, tools: (target.tools || []).filter((t) => policy[t] !== 'deny') };
+    });
+}
+
+function tools() {
+  const names = onDemandServers().map((s) => s.name);
+  return [
+    {
+      name: 'list_servers',
+      description: `List the MCP servers available on demand${names.length ? ` (${names.join(', ')})` : ''}. Their tools are not loaded until you ask for them with list_tools.`,
+      inputSchema: { type: 'object', properties: {} },
+    },
+    {
+      name: 'list_tools',
+      description: 'List the tools of an on-demand MCP server, with descriptions and input schemas.',
+      inputSchema: {
+        type: 'object',
+        properties: { server: { type: 'string', description: 'Server name from list_servers' } },
+        required: ['server'],
+      },
+    },
+    {
+      name: 'call_tool',
+      description: 'Call a tool on an on-demand MCP server. Use list_tools first to see the arguments it takes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          server: { type: 'string', description: 'Server name from list_servers' },
+          tool: { type: 'string', description: 'Tool name from list_tools' },
+          arguments: { type: 'object', description: 'Tool arguments' },
+        },
+        required: ['server', 'tool'],
+      },
+    },
+  ];
+}
+
+// ── Proxy client ──────────────────────────────────────────────────────
+
+let nextId = 1;
+const sessions = new Map();
+
+// The proxy streams notifications ahead of the response — keep only the response
+function fromEventStream(raw, id) {
+  for (const event of raw.split(/\r?\n\r?\n/)) {
+    const data = event.split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) continue;
+    try {
+      const message = JSON.parse(data);
+      if (message.id === id && !message.method) return message;
+    } catch { /* not JSON — skip */ }
+  }
+  return null;
+}
+
+function post(server, message, sessionId) {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify(message);
+    const req = http.request(`${PROXY_ORIGIN}/mcp/${server}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(payload),
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+      },
+      timeout: TIMEOUT_MS,
+    }, (res) => {
+      const chunks = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => {
+        const raw = Buffer.concat(chunks).toString();
+        let body = null;
+        if (String(res.headers['content-type'] || '').includes('text/event-stream')) body = fromEventStream(raw, message.id);
+        else {
+          try { body = raw ? JSON.parse(raw) : null; } catch { body = { error: { message: raw } }; }
+        }
+        resolve({ status: res.statusCode, sessionId: res.headers['mcp-session-id'], body });
+      });
+    });
+    req.on('error', reject);
+    req.on('timeout', () => { req.destroy(); reject(new Error(`${server} timed out`)); });
+    req.write(payload);
+    req.end();
+  });
+}
+
+async function connect(server) {
+  if (sessions.has(server)) return sessions.get(server);
+  const init = await post(server, {
+    jsonrpc: '2.0',
+    id: nextId++,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'vf-mcp-catalog', version: '1.0.0' },
+    },
+  });
+  if (init.body?.error) throw new Error(init.body.error.message || 'initialize failed');
+  const sessionId = init.sessionId || '';
+  await post(server, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+  sessions.set(server, sessionId);
+  return sessionId;
+}
+
+async function request(server, method, params) {
+  let res = await post(server, { jsonrpc: '2.0', id: nextId++, method, params }, await connect(server));
+  // Upstream dropped our session — handshake again once
+  if (res.status === 404 && sessions.get(server)) {
+    sessions.delete(server);
+    res = await post(server, { jsonrpc: '2.0', id: nextId++, method, params }, await connect(server));
+  }
+  if (res.body?.error) throw new Error(res.body.error.message || `${method} failed`);
+  return res.body?.result;
+}
+
+// ── Tools ─────────────────────────────────────────────────────────────
+
+function text(value) {
+  return { content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value, null, 2) }] };
+}
+
+async function handleToolCall(name, args) {
+  const servers = onDemandServers();
+  if (name === 'list_servers') {
+    if (servers.length === 0) return text('No on-demand MCP servers are configured.');
+    return text(servers.map((s) => `${s.name}${s.tools.length ? ` — ${s.tools.join(', ')}` : ''}`).join('\n'));
+  }
+
+  if (name !== 'list_tools' && name !== 'call_tool') {
+    return { isError: true, content: [{ type: 'text', text: `Unknown tool: ${name}` }] };
+  }
+  const server = servers.find((s) => s.name === args.server);
+  if (!server) {
+    return { isError: true, content: [{ type: 'text', text: `Unknown on-demand MCP server: ${args.server}` }] };
+  }
+
+  if (name === 'list_tools') {
+    const result = await request(args.server, 'tools/list', {});
+    return text((result?.tools || [])
+      .filter((t) => server.policy[t.name] !== 'deny')
+      .map((t) => ({ name: t.name, description: t.description, inputSchema: t.inputSchema })));
+  }
+  // The server's own CallToolResult, including rate-limit errors from the proxy
+  return await request(args.server, 'tools/call', { name: args.tool, arguments: args.arguments || {} });
+}
+
+function makeResponse(id, result) { return JSON.stringify({ jsonrpc: '2.0', id, result }); }
+function makeError(id, code, msg) { return JSON.stringify({ jsonrpc: '2.0', id, error: { code, message: msg } }); }
+
+async function handleMessage(msg) {
+  const { id, method, params } = msg;
+  switch (method) {
+    case 'initialize':
+      return makeResponse(id, { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'mcp-catalog', version: '1.0.0' } });
+    case 'notifications/initialized': return null;
+    case 'tools/list': return makeResponse(id, { tools: tools() });
+    case 'tools/call': {
+      try { return makeResponse(id, await handleToolCall(params?.name, params?.arguments || {})); }
+      catch (e) { return makeResponse(id, { isError: true, content: [{ type: 'text', text: `MCP error: ${e.message || e}` }] }); }
+    }
+    case 'ping': return makeResponse(id, {});
+    default: return makeError(id, -32601, `Method not found: ${method}`);
+  }
+}
+
+let buffer = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', async (chunk) => {
+  buffer += chunk;
+  const lines = buffer.split('\n');
+  buffer = lines.pop() || '';
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const response = await handleMessage(JSON.parse(trimmed));
+      if (response) process.stdout.write(response + '\n');
+    } catch (e) { process.stderr.write(`[mcp-catalog] Parse error: ${e.message || e}\n`); }
+  }
+});
+process.stdin.on('end', () => process.exit(0));
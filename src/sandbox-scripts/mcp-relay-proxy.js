@@ -1,61 +1,480 @@
 #!/usr/bin/env node
 
-// MCP Relay Proxy — runs inside the container on port 9788.
-// Forwards JSON-RPC from SDK to Worker relay endpoint.
+// MCP Proxy — runs inside the container on port 9788.
+// Routes JSON-RPC from the SDK (and the mcp-catalog server) per MCP server,
+// as listed in /root/.vf-mcp-proxy.json (re-read on every request):
+//   relay — Worker relay endpoint, which tunnels to the browser
+//   http  — the upstream server directly (rate-limited / on-demand servers)
+//   sse   — a legacy HTTP+SSE upstream, over one shared event stream
+//   stdio — a child process, spawned on first use
+// Servers with maxPerMinute get a sliding one-minute window on tools/call;
+// calls over the limit get an isError tool result instead of being sent, as
+// do calls to tools the server's toolPolicy denies.
+//
+// Notifications the upstream sends while a request is open (progress) are
+// streamed back to that request's client ahead of the response; the rest
+// (tools/list_changed, logging) go to clients holding a GET stream open.
+// Complete tool lists — seen in a tools/list answer, or fetched after
+// tools/list_changed — are reported to the Worker, which caches them.
 
 const http = require('http');
 const https = require('https');
+const fs = require('fs');
+const { spawn } = require('child_process');
 
 const PORT = 9788;
 const TIMEOUT_MS = 30000;
+const UPSTREAM_TIMEOUT_MS = 120000;
+const RATE_WINDOW_MS = 60000;
+const REFRESH_DELAY_MS = 1000;
+const REFRESH_INTERVAL_MS = 30000;
+const CONFIG_PATH = '/root/.vf-mcp-proxy.json';
 const RELAY_URL = process.env.RELAY_URL || '';
 const RELAY_TOKEN = process.env.RELAY_TOKEN || '';
+const LIST_CHANGED = 'notifications/tools/list_changed';
 
-if (!RELAY_URL || !RELAY_TOKEN) {
-  console.error('[mcp-relay-proxy] Missing RELAY_URL or RELAY_TOKEN, exiting.');
-  process.exit(1);
+function readTargets() {
+  try { return JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8')) || {}; }
+  catch { return {}; }
 }
 
-function forwardRequest(serverName, body) {
+// Relay servers predate the routing table — unlisted names still go to the relay
+function targetFor(serverName) {
+  return readTargets()[serverName] || { transport: 'relay' };
+}
+
+// ── Rate limits ───────────────────────────────────────────────────────
+
+const callTimes = new Map();
+
+/** Returns 0 and records the call when allowed, otherwise ms until a slot frees. */
+function takeCallSlot(serverName, maxPerMinute, now) {
+  const calls = callTimes.get(serverName) || [];
+  callTimes.set(serverName, calls);
+  while (calls.length > 0 && calls[0] <= now - RATE_WINDOW_MS) calls.shift();
+  if (calls.length >= maxPerMinute) return calls[0] + RATE_WINDOW_MS - now;
+  calls.push(now);
+  return 0;
+}
+
+function toolError(id, text) {
+  return { jsonrpc: '2.0', id: id === undefined ? null : id, result: { isError: true, content: [{ type: 'text', text }] } };
+}
+
+function rateLimited(id, serverName, maxPerMinute, retryMs) {
+  const retry = Math.max(1, Math.ceil(retryMs / 1000));
+  return toolError(id, `Rate limit exceeded for MCP server "${serverName}": ${maxPerMinute} call${maxPerMinute === 1 ? '' : 's'} per minute. Retry in ${retry}s.`);
+}
+
+// ── Event streams ─────────────────────────────────────────────────────
+
+/** Incremental text/event-stream parser — returns a feed(chunk) function */
+function eventParser(onEvent) {
+  let buffer = '';
+  let event = '';
+  let data = [];
+  return (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) onEvent({ event: event || 'message', data: data.join('\n') });
+        event = '';
+        data = [];
+      } else if (!line.startsWith(':')) {
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+      }
+    }
+  };
+}
+
+function eventFrame(message) {
+  return `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+function isResponse(message) {
+  return message && !message.method && message.id !== undefined && (message.result !== undefined || message.error !== undefined);
+}
+
+// Clients holding a GET stream open, per server
+const listeners = new Map();
+
+function broadcast(serverName, message) {
+  for (const res of listeners.get(serverName) || []) res.write(eventFrame(message));
+}
+
+// ── Upstreams ─────────────────────────────────────────────────────────
+
+/**
+ * POST one JSON-RPC message. An event-stream answer is read as it arrives:
+ * the response to `body.id` resolves the promise, anything else before it
+ * goes to onMessage(message, responseHeaders).
+ */
+function post(target, body, headers, timeoutMs, onMessage) {
   return new Promise((resolve, reject) => {
-    const url = new URL(`${RELAY_URL}/${serverName}`);
+    const url = new URL(target);
     const payload = JSON.stringify(body);
     const mod = url.protocol === 'https:' ? https : http;
 
     const req = mod.request(url, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${RELAY_TOKEN}`,
-        'Content-Length': Buffer.byteLength(payload),
+        ...headers,
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(payload),
       },
-      timeout: TIMEOUT_MS,
+      timeout: timeoutMs,
     }, (res) => {
-      const chunks = [];
-      res.on('data', (chunk) => chunks.push(chunk));
-      res.on('end', () => {
-        const raw = Buffer.concat(chunks).toString();
-        try { resolve(JSON.parse(raw)); }
-        catch { resolve({ jsonrpc: '2.0', error: { code: -32603, message: raw } }); }
-      });
+      const status = res.statusCode || 502;
+      res.setEncoding('utf8');
+
+      if (String(res.headers['content-type'] || '').includes('text/event-stream')) {
+        let answer = null;
+        const feed = eventParser((event) => {
+          if (event.event !== 'message') return;
+          let message;
+          try { message = JSON.parse(event.data); } catch { return; }
+          if (isResponse(message) && message.id === body.id) answer = message;
+          else if (!answer && onMessage) onMessage(message, res.headers);
+        });
+        res.on('data', feed);
+        res.on('end', () => resolve({
+          status,
+          headers: res.headers,
+          body: answer || (body.id === undefined ? null : { jsonrpc: '2.0', id: body.id, error: { code: -32603, message: 'Event stream ended without a response' } }),
+        }));
+        return;
+      }
+
+      let raw = '';
+      res.on('data', (chunk) => { raw += chunk; });
+      res.on('end', () => resolve({ status, headers: res.headers, body: raw.trim() ? parseJson(raw) : null }));
     });
 
     req.on('error', (err) => reject(err));
-    req.on('timeout', () => { req.destroy(); reject(new Error('Relay request timed out')); });
+    req.on('timeout', () => { req.destroy(); reject(new Error('Upstream request timed out')); });
     req.write(payload);
     req.end();
   });
 }
 
+function parseJson(raw) {
+  try { return JSON.parse(raw); }
+  catch { return { jsonrpc: '2.0', error: { code: -32603, message: raw } }; }
+}
+
+async function forwardRelay(serverName, body, notify) {
+  if (!RELAY_URL || !RELAY_TOKEN) throw new Error('Relay is not configured for this session');
+  const res = await post(`${RELAY_URL}/${serverName}`, body, { authorization: `Bearer ${RELAY_TOKEN}` }, TIMEOUT_MS, (message) => notify(message));
+  return { status: 200, body: res.body || {} };
+}
+
+// Last Mcp-Session-Id per http server, so tool refreshes join the SDK's session
+const httpSessionIds = new Map();
+
+async function forwardHttp(serverName, target, body, incoming, notify) {
+  const headers = { accept: 'application/json, text/event-stream' };
+  for (const [key, value] of Object.entries(target.headers || {})) headers[key.toLowerCase()] = value;
+  // The agent's config carries the freshest OAuth token
+  for (const key of ['authorization', 'mcp-session-id', 'mcp-protocol-version']) {
+    if (incoming[key]) headers[key] = incoming[key];
+  }
+
+  const res = await post(target.url, body, headers, UPSTREAM_TIMEOUT_MS, (message, resHeaders) => {
+    notify(message, resHeaders['mcp-session-id']);
+  });
+  const sessionId = res.headers['mcp-session-id'];
+  if (sessionId) httpSessionIds.set(serverName, sessionId);
+  return { status: res.status, sessionId, body: res.body };
+}
+
+// stdio children and legacy SSE connections, per server. Both carry one
+// upstream session shared by every client, so request ids are remapped.
+const sessions = new Map();
+
+/** The server's session, reopened through start(session) when its config changed */
+function openSession(serverName, key, start) {
+  const existing = sessions.get(serverName);
+  if (existing && existing.key === key) return existing;
+  if (existing) {
+    failSession(serverName, existing, 'configuration changed');
+    existing.close();
+  }
+
+  const session = { key, pending: new Map(), nextId: 1, initResult: null, initialized: false, send: null, close: () => {} };
+  sessions.set(serverName, session);
+  start(session);
+  return session;
+}
+
+function failSession(serverName, session, reason) {
+  if (sessions.get(serverName) === session) sessions.delete(serverName);
+  for (const entry of session.pending.values()) {
+    entry.settle({ jsonrpc: '2.0', error: { code: -32603, message: `${serverName}: ${reason}` } });
+  }
+  session.pending.clear();
+}
+
+/** A message read from a session's upstream */
+function dispatch(serverName, session, message) {
+  if (isResponse(message)) {
+    const entry = session.pending.get(message.id);
+    if (entry) { session.pending.delete(message.id); entry.settle(message); }
+    return;
+  }
+  if (!message || !message.method) return;
+
+  if (message.id !== undefined) {
+    // Server-to-client requests (sampling, roots) have no client to answer them here
+    const reply = message.method === 'ping'
+      ? { jsonrpc: '2.0', id: message.id, result: {} }
+      : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `${message.method} is not supported` } };
+    Promise.resolve(session.send(reply)).catch(() => {});
+    return;
+  }
+
+  const token = message.params && message.params.progressToken;
+  if (token !== undefined) {
+    for (const entry of session.pending.values()) {
+      if (entry.progressToken === token) { entry.notify(message); return; }
+    }
+  }
+  if (message.method === LIST_CHANGED) scheduleToolsRefresh(serverName);
+  broadcast(serverName, message);
+}
+
+function stdioSession(serverName, target) {
+  const key = JSON.stringify(['stdio', target.command, target.args, target.env]);
+  return openSession(serverName, key, (session) => startStdio(serverName, target, session));
+}
+
+function startStdio(serverName, target, session) {
+  const proc = spawn(target.command, target.args || [], {
+    env: { ...process.env, ...(target.env || {}) },
+    stdio: ['pipe', 'pipe', 'inherit'],
+  });
+  session.send = (message) => { proc.stdin.write(JSON.stringify(message) + '\n'); };
+  session.close = () => proc.kill();
+
+  let buffer = '';
+  proc.stdout.setEncoding('utf8');
+  proc.stdout.on('data', (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let message;
+      try { message = JSON.parse(line); } catch { continue; /* log noise on stdout */ }
+      dispatch(serverName, session, message);
+    }
+  });
+  proc.on('exit', (code) => failSession(serverName, session, `server exited (code ${code})`));
+  proc.on('error', (err) => failSession(serverName, session, err.message || 'failed to start'));
+}
+
+// Legacy HTTP+SSE: a GET stream announces the POST endpoint, then carries every answer
+function sseSession(serverName, target) {
+  const key = JSON.stringify(['sse', target.url, target.headers]);
+  return openSession(serverName, key, (session) => startSse(serverName, target, session));
+}
+
+function startSse(serverName, target, session) {
+  const headers = {};
+  for (const [name, value] of Object.entries(target.headers || {})) headers[name.toLowerCase()] = value;
+
+  const ready = new Promise((resolve, reject) => {
+    const url = new URL(target.url);
+    const mod = url.protocol === 'https:' ? https : http;
+    const req = mod.request(url, { method: 'GET', headers: { ...headers, accept: 'text/event-stream' } }, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        reject(new Error(`${serverName}: event stream returned HTTP ${res.statusCode}`));
+        failSession(serverName, session, `event stream returned HTTP ${res.statusCode}`);
+        return;
+      }
+      res.setEncoding('utf8');
+      res.on('data', eventParser((event) => {
+        if (event.event === 'endpoint') {
+          const endpoint = new URL(event.data.trim(), target.url);
+          // The stream decides where requests go — never let it point elsewhere
+          if (endpoint.origin !== url.origin) reject(new Error(`${serverName}: endpoint on another origin`));
+          else resolve(endpoint.href);
+        } else if (event.event === 'message') {
+          try { dispatch(serverName, session, JSON.parse(event.data)); } catch { /* not JSON — skip */ }
+        }
+      }));
+      res.on('close', () => failSession(serverName, session, 'event stream closed'));
+    });
+    req.on('error', (err) => {
+      reject(err);
+      failSession(serverName, session, err.message || 'event stream failed');
+    });
+    req.end();
+    session.close = () => req.destroy();
+  });
+  ready.catch(() => {});
+
+  session.send = async (message) => {
+    const endpoint = await ready;
+    const res = await post(endpoint, message, headers, UPSTREAM_TIMEOUT_MS);
+    if (res.status >= 400) throw new Error(`${serverName} rejected the message (HTTP ${res.status})`);
+  };
+}
+
+// One upstream may serve both the SDK and the catalog, and the SDK reconnects
+// on every query — answer repeat handshakes from cache instead of re-sending them.
+async function forwardSession(serverName, session, body, notify) {
+  if (body.id === undefined) {
+    if (body.method === 'notifications/initialized') {
+      if (session.initialized) return { status: 202, body: null };
+      session.initialized = true;
+    }
+    await session.send(body);
+    return { status: 202, body: null };
+  }
+
+  if (body.method === 'initialize' && session.initResult) {
+    return { status: 200, body: { jsonrpc: '2.0', id: body.id, result: session.initResult } };
+  }
+
+  return new Promise((resolve) => {
+    const id = session.nextId++;
+    const settle = (message) => {
+      clearTimeout(timer);
+      session.pending.delete(id);
+      if (body.method === 'initialize' && message.result) session.initResult = message.result;
+      resolve({ status: 200, body: { ...message, id: body.id } });
+    };
+    const timer = setTimeout(() => {
+      settle({ jsonrpc: '2.0', error: { code: -32603, message: `${serverName} did not answer in time` } });
+    }, UPSTREAM_TIMEOUT_MS);
+
+    const progressToken = body.params && body.params._meta && body.params._meta.progressToken;
+    session.pending.set(id, { settle, notify, progressToken });
+    Promise.resolve(session.send({ ...body, id })).catch((err) => {
+      settle({ jsonrpc: '2.0', error: { code: -32603, message: err.message || `${serverName} is unreachable` } });
+    });
+  });
+}
+
+function route(serverName, target, body, incoming, notify) {
+  if (target.transport === 'http' && target.url) return forwardHttp(serverName, target, body, incoming, notify);
+  if (target.transport === 'sse' && target.url) return forwardSession(serverName, sseSession(serverName, target), body, notify);
+  if (target.transport === 'stdio' && target.command) return forwardSession(serverName, stdioSession(serverName, target), body, notify);
+  return forwardRelay(serverName, body, notify);
+}
+
+// ── Tool list reports ─────────────────────────────────────────────────
+
+const reportedTools = new Map();
+const refreshTimers = new Map();
+const lastRefreshAt = new Map();
+
+// The Worker caches relay servers' lists itself, from the relay route
+function reportTools(serverName, target, request, response) {
+  if (target.transport === 'relay' || !RELAY_URL || !RELAY_TOKEN) return;
+  if (request.method !== 'tools/list' || (request.params && request.params.cursor)) return;
+  const result = response && response.result;
+  if (!result || !Array.isArray(result.tools) || result.nextCursor) return;
+
+  const tools = result.tools.map((t) => ({ name: t.name, description: t.description, inputSchema: t.inputSchema }));
+  const key = JSON.stringify(tools);
+  if (reportedTools.get(serverName) === key) return;
+  reportedTools.set(serverName, key);
+
+  post(`${RELAY_URL}/${serverName}/tools`, { tools }, { authorization: `Bearer ${RELAY_TOKEN}` }, TIMEOUT_MS)
+    .catch((err) => console.log(`[mcp-relay-proxy] ${serverName}: tool list report failed: ${err.message}`));
+}
+
+async function forward(serverName, target, body, incoming, notify) {
+  const result = await route(serverName, target, body, incoming, notify);
+  reportTools(serverName, target, body, result.body);
+  return result;
+}
+
+// Several list_changed in a row (a server reloading plugins) cost one
+// tools/list, and a server that keeps sending them gets one every 30s
+function scheduleToolsRefresh(serverName) {
+  if (refreshTimers.has(serverName)) return;
+  const wait = Math.max(REFRESH_DELAY_MS, (lastRefreshAt.get(serverName) || 0) + REFRESH_INTERVAL_MS - Date.now());
+  refreshTimers.set(serverName, setTimeout(() => {
+    refreshTimers.delete(serverName);
+    lastRefreshAt.set(serverName, Date.now());
+    const target = targetFor(serverName);
+    if (target.transport === 'relay') return;
+    const sessionId = httpSessionIds.get(serverName);
+    const request = { jsonrpc: '2.0', id: `vf-tools-${Date.now()}`, method: 'tools/list', params: {} };
+    forward(serverName, target, request, sessionId ? { 'mcp-session-id': sessionId } : {}, () => {})
+      .catch((err) => console.log(`[mcp-relay-proxy] ${serverName}: tool refresh failed: ${err.message}`));
+  }, wait));
+}
+
+// ── Server ────────────────────────────────────────────────────────────
+
+/** Answers one client request: JSON, or an event stream once a notification needs to go out first */
+function replyTo(res) {
+  let streaming = false;
+  return {
+    event(message, sessionId) {
+      if (res.writableEnded) return;
+      if (!streaming) {
+        res.writeHead(200, {
+          ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        });
+        streaming = true;
+      }
+      res.write(eventFrame(message));
+    },
+    end(status, message, headers = {}) {
+      if (streaming) {
+        if (message) res.write(eventFrame(message));
+        res.end();
+        return;
+      }
+      if (!message) {
+        res.writeHead(status, headers);
+        res.end();
+        return;
+      }
+      res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(message));
+    },
+  };
+}
+
 const server = http.createServer(async (req, res) => {
   const match = req.url?.match(/^\/mcp\/([a-zA-Z0-9_-]+)\/?$/);
-  if (!match || req.method !== 'POST') {
+  if (!match) {
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ error: 'Not found' }));
     return;
   }
-
   const serverName = match[1];
+
+  // Server-initiated stream: notifications that arrive outside any request
+  if (req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.write(': connected\n\n');
+    const set = listeners.get(serverName) || new Set();
+    set.add(res);
+    listeners.set(serverName, set);
+    req.on('close', () => set.delete(res));
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, { Allow: 'GET, POST' });
+    res.end();
+    return;
+  }
+
   const chunks = [];
   for await (const chunk of req) { chunks.push(chunk); }
 
@@ -67,16 +486,44 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
+  const reply = replyTo(res);
+  const target = targetFor(serverName);
+  const toolName = body && body.method === 'tools/call' ? body.params?.name : undefined;
+  if (toolName && target.toolPolicy?.[toolName] === 'deny') {
+    reply.end(200, toolError(body.id, `Tool "${toolName}" on MCP server "${serverName}" is disabled in its settings.`));
+    return;
+  }
+  if (target.maxPerMinute && toolName) {
+    const retryMs = takeCallSlot(serverName, target.maxPerMinute, Date.now());
+    if (retryMs > 0) {
+      console.log(`[mcp-relay-proxy] ${serverName}: rate limited (${target.maxPerMinute}/min)`);
+      reply.end(200, rateLimited(body.id, serverName, target.maxPerMinute, retryMs));
+      return;
+    }
+  }
+
+  const notify = (message, sessionId) => {
+    if (message.method === LIST_CHANGED) scheduleToolsRefresh(serverName);
+    reply.event(message, sessionId);
+  };
+
   try {
-    const result = await forwardRequest(serverName, body);
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify(result));
+    const result = await forward(serverName, target, body, req.headers, notify);
+    reply.end(result.status, result.body, result.sessionId ? { 'Mcp-Session-Id': result.sessionId } : {});
   } catch (err) {
-    res.writeHead(502, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32603, message: err.message || 'Relay error' } }));
+    reply.end(502, { jsonrpc: '2.0', id: body?.id ?? null, error: { code: -32603, message: err.message || 'Relay error' } });
+  }
+});
+
+server.on('error', (err) => {
+  // Started again on config refresh — the first copy keeps serving
+  if (err.code === 'EADDRINUSE') {
+    console.log(`[mcp-relay-proxy] Port ${PORT} already in use, exiting.`);
+    process.exit(0);
   }
+  throw err;
 });
 
 server.listen(PORT, '127.0.0.1', () => {
   console.log(`[mcp-relay-proxy] Listening on http://127.0.0.1:${PORT}`);
-});
\ No newline at end of file
+});
@@ -5,6 +5,14 @@ import {
   getInjectionScript,
 } from './services/agency-inspector';
 import { isValidNpmPackageName } from './utils/validate-npm-package';
+import { MCP_PROXY_CONFIG_PATH, type McpProxyTarget, type RestrictedToolPolicy } from './services/mcp-policy';
+import { openSecret } from './services/secret-vault';
+import {
+  readScopedUserSecrets,
+  selectSecretNames,
+  type ScopedUserSecrets,
+  type SecretSelection,
+} from './services/user-secrets';
 
 const WORKSPACE_PATH = '/workspace';
 const HEALTH_CHECK_TIMEOUT = 5000;
@@ -12,6 +20,15 @@ const READY_POLL_DELAY = 2000;
 const READY_MAX_ATTEMPTS = 5;
 const CONFIG_STAMP_PATH = '/root/.claude/.vf-config-stamp';
 const INJECTED_CLAUDE_MD_PATH = '/root/.claude/.vf-injected-claude-md';
+/** Shadow repo for workspace checkpoints — never touches the user's own .git */
+const CHECKPOINT_GIT_DIR = '/workspace/.vaporforge/checkpoints.git';
+const CHECKPOINT_GIT = `git -c user.name=VaporForge -c user.email=checkpoints@vaporforge.dev --git-dir=${CHECKPOINT_GIT_DIR} --work-tree=${WORKSPACE_PATH}`;
+const CHECKPOINT_SCRIPT_PATH = '/tmp/vf-checkpoint.sh';
+/** Where the Claude SDK keeps session transcripts (CLAUDE_CONFIG_DIR/projects) */
+const SDK_TRANSCRIPTS_PATH = '/root/.claude/projects';
+/** Checkpoint and SDK session IDs are interpolated into shell — allow UUID-ish only */
+const SAFE_ID_RE = /^[a-zA-Z0-9-]{1,64}$/;
+const GIT_SHA_RE = /^[0-9a-f]{40}$/;
 
 /**
  * Inject a GitHub token into an HTTPS git URL for private repo cloning.
@@ -69,9 +86,9 @@ export async function collectGithubToken(
   env: Env
 ): Promise<Record<string, string>> {
   // Per-user OAuth token takes priority
-  const userToken = await authKv.get(`github-token:${userId}`);
-  if (userToken) {
-    return { GITHUB_TOKEN: userToken };
+  const stored = await authKv.get(`github-token:${userId}`);
+  if (stored) {
+    return { GITHUB_TOKEN: await openSecret(env, userId, stored) };
   }
   // Fallback to global PAT from Worker secrets
   if (env.GITHUB_TOKEN) {
@@ -91,26 +108,51 @@ const RESERVED_ENV_NAMES = new Set([
   'SHELL',
 ]);
 
-/** Collect per-user secrets from KV. Returns empty object on missing/invalid. */
-export async function collectUserSecrets(
-  kv: KVNamespace,
-  userId: string
-): Promise<Record<string, string>> {
-  const raw = await kv.get(`user-secrets:${userId}`);
-  if (!raw) return {};
-  try {
-    const parsed = JSON.parse(raw);
-    if (typeof parsed !== 'object' || parsed === null) return {};
-    const result: Record<string, string> = {};
-    for (const [k, v] of Object.entries(parsed)) {
-      if (typeof v === 'string' && !RESERVED_ENV_NAMES.has(k)) {
-        result[k] = v;
-      }
+/**
+ * Narrow a user's secrets to the ones a session should receive (by scope or
+ * its explicit pick) and drop reserved names.
+ */
+export function filterUserSecrets(
+  scoped: ScopedUserSecrets,
+  selection: SecretSelection
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const name of selectSecretNames(scoped, selection)) {
+    if (!RESERVED_ENV_NAMES.has(name)) {
+      result[name] = scoped.secrets[name];
     }
-    return result;
-  } catch {
-    return {};
   }
+  return result;
+}
+
+/** Collect the per-user secrets a session should receive. Returns empty object on missing/invalid. */
+export async function collectUserSecrets(
+  env: Env,
+  userId: string,
+  selection: SecretSelection
+): Promise<Record<string, string>> {
+  return filterUserSecrets(await readScopedUserSecrets(env, userId), selection);
+}
+
+/** A stored session's secret selection: its repo plus any pick made at creation. */
+export function sessionSecretSelection(session: Pick<Session, 'gitRepo' | 'metadata'>): SecretSelection {
+  const names = session.metadata?.secretNames;
+  return {
+    gitRepo: session.gitRepo,
+    ...(Array.isArray(names) ? { names: names.filter((n): n is string => typeof n === 'string') } : {}),
+  };
+}
+
+/**
+ * Start the in-container MCP proxy. Fixed string (no user input) — safe for
+ * sandbox.exec. A second copy exits on EADDRINUSE, so it's safe to repeat.
+ */
+export const MCP_PROXY_START_CMD = 'nohup node /opt/claude-agent/mcp-relay-proxy.js >> /tmp/mcp-relay.log 2>&1 &';
+
+/** Env for claude-agent.js carrying per-tool MCP policy (empty when every tool is allowed) */
+export function toolPolicyEnv(config: Pick<SandboxConfig, 'mcpToolPolicy'>): Record<string, string> {
+  const policy = config.mcpToolPolicy ?? {};
+  return Object.keys(policy).length > 0 ? { VF_MCP_TOOL_POLICY: JSON.stringify(policy) } : {};
 }
 
 export interface SandboxConfig {
@@ -136,7 +178,11 @@ export interface SandboxConfig {
   };
   /** VaporForge internal rules — prepended to CLAUDE.md in container */
   vfRules?: string;
-  /** Start the MCP relay proxy in the container (for relay transport servers) */
+  /** Where the in-container MCP proxy routes relay, rate-limited and on-demand servers */
+  mcpProxy?: Record<string, McpProxyTarget>;
+  /** 'deny' / 'ask' MCP tools by SDK tool name — passed to claude-agent.js as VF_MCP_TOOL_POLICY */
+  mcpToolPolicy?: Record<string, RestrictedToolPolicy>;
+  /** Start the MCP proxy in the container (any mcpProxy targets) */
   startRelayProxy?: boolean;
   /** Inject gemini-expert agent into the container */
   injectGeminiAgent?: boolean;
@@ -150,6 +196,14 @@ export interface SandboxConfig {
   maxBudgetUsd?: number;
 }
 
+/** Pointer to a /workspace snapshot in the shadow checkpoint repo. */
+export interface WorkspaceSnapshot {
+  /** Shadow-repo commit pinned at refs/checkpoints/{checkpointId} */
+  commit: string;
+  /** HEAD of the user's workspace repo at snapshot time (absent if not a git repo) */
+  gitHead?: string;
+}
+
 export class SandboxManager {
   constructor(
     private sandboxNamespace: DurableObjectNamespace<Sandbox>,
@@ -285,13 +339,11 @@ export class SandboxManager {
       step = 'createVaporforgeDir';
       await sandbox.mkdir('/workspace/.vaporforge/knowledge', { recursive: true });
 
-      // Start MCP relay proxy if relay servers are configured
-      // Command is a fixed string (no user input) — safe for sandbox.exec
+      // Start the MCP proxy if relay, rate-limited or on-demand servers are configured
       if (config?.startRelayProxy) {
         step = 'startRelayProxy';
-        const proxyCmd = 'nohup node /opt/claude-agent/mcp-relay-proxy.js > /tmp/mcp-relay.log 2>&1 &';
         console.log(`[createSandbox] ${sessionId.slice(0, 8)}: starting MCP relay proxy`);
-        await sandbox.exec(proxyCmd, { timeout: 5000 });
+        await sandbox.exec(MCP_PROXY_START_CMD, { timeout: 5000 });
         // Give the relay proxy time to bind to port 9788 before dispatching any
         // tool calls. Without this, the first MCP call arriving during container
         // startup may fail because the proxy is not yet listening.
@@ -601,6 +653,10 @@ export class SandboxManager {
     } else if (skipMcpWrite) {
       console.log(`[refreshMcpConfig] ${sid}: MCP config unchanged, skipping write`);
     }
+    if (!skipMcpWrite && config.startRelayProxy) {
+      await sandbox.writeFile(MCP_PROXY_CONFIG_PATH, JSON.stringify(config.mcpProxy ?? {}));
+      await sandbox.exec(MCP_PROXY_START_CMD, { timeout: 5000 });
+    }
 
     // Pre-install npx packages — SKIP if MCP config hash matches (packages already installed)
     if (!skipMcpWrite) {
@@ -1172,6 +1228,183 @@ if(fs.existsSync(p)){
     }
   }
 
+  /**
+   * Snapshot /workspace into the shadow checkpoint repo and pin it at
+   * refs/checkpoints/{checkpointId}. node_modules and .vaporforge/ are
+   * excluded; the user's index, refs and stash are left alone. When
+   * sdkSessionId is given, the SDK transcript is copied alongside so a
+   * restore can rewind the conversation too. Returns null on failure.
+   */
+  async snapshotWorkspace(
+    sessionId: string,
+    checkpointId: string,
+    sdkSessionId?: string
+  ): Promise<WorkspaceSnapshot | null> {
+    const sid = sessionId.slice(0, 8);
+    if (!SAFE_ID_RE.test(checkpointId)) return null;
+    const transcriptId = sdkSessionId && SAFE_ID_RE.test(sdkSessionId) ? sdkSessionId : '';
+
+    // Only fixed paths and validated IDs are interpolated — no user input.
+    const script = [
+      'set -e',
+      `if [ ! -d ${CHECKPOINT_GIT_DIR} ]; then`,
+      `  mkdir -p ${CHECKPOINT_GIT_DIR}`,
+      `  git --git-dir=${CHECKPOINT_GIT_DIR} init -q`,
+      `  printf '.git/\\nnode_modules/\\n.vaporforge/\\n' > ${CHECKPOINT_GIT_DIR}/info/exclude`,
+      'fi',
+      `${CHECKPOINT_GIT} add -A`,
+      `TREE=$(${CHECKPOINT_GIT} write-tree)`,
+      `COMMIT=$(echo 'checkpoint ${checkpointId}' | ${CHECKPOINT_GIT} commit-tree "$TREE")`,
+      `${CHECKPOINT_GIT} update-ref refs/checkpoints/${checkpointId} "$COMMIT"`,
+      ...(transcriptId
+        ? [
+            `T=$(find ${SDK_TRANSCRIPTS_PATH} -name '${transcriptId}.jsonl' 2>/dev/null | head -n 1)`,
+            `if [ -n "$T" ]; then mkdir -p ${CHECKPOINT_GIT_DIR}/transcripts && cp "$T" ${CHECKPOINT_GIT_DIR}/transcripts/${checkpointId}.jsonl; fi`,
+          ]
+        : []),
+      `echo "$COMMIT $(git -C ${WORKSPACE_PATH} rev-parse HEAD 2>/dev/null || true)"`,
+    ].join('\n');
+
+    const result = await this.runCheckpointScript(sessionId, script, 'snapshotWorkspace');
+    if (!result) return null;
+
+    const lastLine = result.stdout.trim().split('\n').pop() || '';
+    const [commit, gitHead] = lastLine.split(' ');
+    if (!GIT_SHA_RE.test(commit)) {
+      console.error(`[snapshotWorkspace] ${sid}: unexpected output: ${lastLine.slice(0, 200)}`);
+      return null;
+    }
+    console.log(`[snapshotWorkspace] ${sid}: checkpoint ${checkpointId.slice(0, 8)} -> ${commit.slice(0, 8)}`);
+    return {
+      commit,
+      ...(gitHead && GIT_SHA_RE.test(gitHead) ? { gitHead } : {}),
+    };
+  }
+
+  /**
+   * Roll /workspace back to a snapshot taken by snapshotWorkspace().
+   * Files added since the snapshot are removed (ignored files and
+   * node_modules are kept), the user's repo is reset --mixed to the
+   * recorded HEAD, and the saved SDK transcript is written back.
+   */
+  async restoreWorkspace(
+    sessionId: string,
+    checkpointId: string,
+    options?: { gitHead?: string; sdkSessionId?: string }
+  ): Promise<boolean> {
+    const sid = sessionId.slice(0, 8);
+    if (!SAFE_ID_RE.test(checkpointId)) return false;
+    const gitHead = options?.gitHead && GIT_SHA_RE.test(options.gitHead) ? options.gitHead : '';
+    const transcriptId = options?.sdkSessionId && SAFE_ID_RE.test(options.sdkSessionId)
+      ? options.sdkSessionId
+      : '';
+    const savedTranscript = `${CHECKPOINT_GIT_DIR}/transcripts/${checkpointId}.jsonl`;
+
+    const script = [
+      'set -e',
+      `${CHECKPOINT_GIT} rev-parse -q --verify refs/checkpoints/${checkpointId} > /dev/null`,
+      `${CHECKPOINT_GIT} read-tree refs/checkpoints/${checkpointId}`,
+      `${CHECKPOINT_GIT} checkout-index -a -f`,
+      `${CHECKPOINT_GIT} clean -fdq`,
+      ...(gitHead ? [`git -C ${WORKSPACE_PATH} reset -q --mixed ${gitHead}`] : []),
+      ...(transcriptId
+        ? [
+            `if [ -f ${savedTranscript} ]; then`,
+            `  T=$(find ${SDK_TRANSCRIPTS_PATH} -name '${transcriptId}.jsonl' 2>/dev/null | head -n 1)`,
+            `  [ -n "$T" ] || T=${SDK_TRANSCRIPTS_PATH}/-workspace/${transcriptId}.jsonl`,
+            '  mkdir -p "$(dirname "$T")"',
+            `  cp ${savedTranscript} "$T"`,
+            'fi',
+          ]
+        : []),
+    ].join('\n');
+
+    const result = await this.runCheckpointScript(sessionId, script, 'restoreWorkspace');
+    if (!result) return false;
+    console.log(`[restoreWorkspace] ${sid}: restored checkpoint ${checkpointId.slice(0, 8)}`);
+    return true;
+  }
+
+  /**
+   * Unified diff between two checkpoint snapshots, or between a snapshot and
+   * the live /workspace when toCheckpointId is omitted. The live side is
+   * staged into the shadow index so new untracked files show up too.
+   * Returns null if either snapshot is missing.
+   */
+  async diffCheckpoints(
+    sessionId: string,
+    fromCheckpointId: string,
+    toCheckpointId?: string
+  ): Promise<string | null> {
+    if (!SAFE_ID_RE.test(fromCheckpointId)) return null;
+    if (toCheckpointId !== undefined && !SAFE_ID_RE.test(toCheckpointId)) return null;
+
+    const script = [
+      'set -e',
+      `${CHECKPOINT_GIT} rev-parse -q --verify refs/checkpoints/${fromCheckpointId} > /dev/null`,
+      ...(toCheckpointId
+        ? [
+            `${CHECKPOINT_GIT} rev-parse -q --verify refs/checkpoints/${toCheckpointId} > /dev/null`,
+            `TO=refs/checkpoints/${toCheckpointId}`,
+          ]
+        : [
+            `${CHECKPOINT_GIT} add -A`,
+            `TO=$(${CHECKPOINT_GIT} write-tree)`,
+          ]),
+      `${CHECKPOINT_GIT} diff --no-color --no-ext-diff refs/checkpoints/${fromCheckpointId} "$TO"`,
+    ].join('\n');
+
+    const result = await this.runCheckpointScript(sessionId, script, 'diffCheckpoints');
+    return result ? result.stdout : null;
+  }
+
+  /**
+   * Drop a snapshot taken by snapshotWorkspace(): its ref and saved SDK
+   * transcript. Objects left unreachable are pruned by git's own gc.
+   * A checkpoint that is already gone counts as deleted.
+   */
+  async deleteCheckpoint(sessionId: string, checkpointId: string): Promise<boolean> {
+    if (!SAFE_ID_RE.test(checkpointId)) return false;
+
+    const script = [
+      'set -e',
+      `[ -d ${CHECKPOINT_GIT_DIR} ] || exit 0`,
+      `if ${CHECKPOINT_GIT} rev-parse -q --verify refs/checkpoints/${checkpointId} > /dev/null; then`,
+      `  ${CHECKPOINT_GIT} update-ref -d refs/checkpoints/${checkpointId}`,
+      'fi',
+      `rm -f ${CHECKPOINT_GIT_DIR}/transcripts/${checkpointId}.jsonl`,
+    ].join('\n');
+
+    return (await this.runCheckpointScript(sessionId, script, 'deleteCheckpoint')) !== null;
+  }
+
+  /**
+   * Write a checkpoint shell script to /tmp and run it with bash.
+   * Scripts go through a file because sandbox.exec takes a single command
+   * line. Returns null (and logs) on a non-zero exit.
+   */
+  private async runCheckpointScript(
+    sessionId: string,
+    script: string,
+    tag: string
+  ): Promise<ExecResult | null> {
+    const sid = sessionId.slice(0, 8);
+    if (!(await this.writeFile(sessionId, CHECKPOINT_SCRIPT_PATH, script))) {
+      console.error(`[${tag}] ${sid}: failed to write script`);
+      return null;
+    }
+    const result = await this.execInSandbox(
+      sessionId,
+      `bash ${CHECKPOINT_SCRIPT_PATH}; rc=$?; rm -f ${CHECKPOINT_SCRIPT_PATH}; exit $rc`,
+      { timeout: 120000 }
+    );
+    if (result.exitCode !== 0) {
+      console.error(`[${tag}] ${sid}: FAILED ${result.stderr.slice(0, 300)}`);
+      return null;
+    }
+    return result;
+  }
+
   /**
    * Inject all config into a sandbox container:
    * CLAUDE.md, MCP servers, plugin files, user configs, Gemini agent.
@@ -1218,6 +1451,9 @@ if(fs.existsSync(p)){
       const claudeJson = JSON.stringify({ mcpServers: mergedMcp }, null, 2);
       await sandbox.writeFile('/root/.claude.json', claudeJson);
     }
+    if (config.mcpProxy && Object.keys(config.mcpProxy).length > 0) {
+      await sandbox.writeFile(MCP_PROXY_CONFIG_PATH, JSON.stringify(config.mcpProxy));
+    }
 
     // Plugin files (agents, commands, rules)
     if (config.pluginConfigs) {
@@ -1335,6 +1571,10 @@ if(fs.existsSync(p)){
 
     console.log(`[ensureConfigInjected] ${sid}: stamp missing/stale, re-injecting`);
     await this.injectAllConfig(sessionId, config);
+    // A recycled container lost the proxy process along with the files
+    if (config.startRelayProxy) {
+      await this.getSandboxInstance(sessionId).exec(MCP_PROXY_START_CMD, { timeout: 5000 });
+    }
     return true;
   }
 
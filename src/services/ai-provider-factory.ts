@@ -2,6 +2,7 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import type { EmbeddingModel, LanguageModel } from 'ai';
+import { readUserSecrets } from './user-secrets';
 
 /** Supported provider names */
 export type ProviderName = 'claude' | 'gemini' | 'openai';
@@ -117,14 +118,11 @@ export function createModel(
  * here — it only works through the Claude SDK in sandbox containers.
  */
 export async function getProviderCredentials(
-  kv: KVNamespace,
+  env: Env,
   userId: string,
   _claudeToken?: string
 ): Promise<ProviderCredentials> {
-  const raw = await kv.get(`user-secrets:${userId}`);
-  const secrets: Record<string, string> = raw
-    ? (() => { try { return JSON.parse(raw); } catch { return {}; } })()
-    : {};
+  const secrets = await readUserSecrets(env, userId);
 
   // Only use explicit API keys — never OAuth tokens
   const claudeApiKey = secrets.ANTHROPIC_API_KEY;
@@ -170,11 +168,11 @@ export function createEmbeddingModel(
 
 /** Check which providers a user has credentials for (direct API only) */
 export async function getAvailableProviders(
-  kv: KVNamespace,
+  env: Env,
   userId: string,
   claudeToken?: string
 ): Promise<ProviderName[]> {
-  const creds = await getProviderCredentials(kv, userId, claudeToken);
+  const creds = await getProviderCredentials(env, userId, claudeToken);
   const available: ProviderName[] = [];
   if (creds.claude) available.push('claude');
   if (creds.gemini || creds.geminiPro) available.push('gemini');
@@ -49,3 +49,30 @@ export const CommitMessageSchema = z.object({
 });
 
 export type CommitMessage = z.infer<typeof CommitMessageSchema>;
+
+/* ── Pull Request ──────────────────────────── */
+
+export const PullRequestDescriptionSchema = z.object({
+  title: z.string().describe('Short imperative title, under 72 characters'),
+  summary: z.string().describe('What the change does and why, one paragraph'),
+  changes: z.array(z.string()).describe('Notable changes, one per item'),
+  testing: z.string().optional().describe('How the change was verified, if known'),
+  breaking: z.boolean().describe('Whether this is a breaking change'),
+});
+
+export type PullRequestDescription = z.infer<typeof PullRequestDescriptionSchema>;
+
+/* ── Pull Request Review ───────────────────── */
+
+/** A code analysis of a PR diff, with every issue anchored to a changed file. */
+export const PullRequestReviewSchema = CodeAnalysisSchema.extend({
+  verdict: z.enum(['approve', 'comment', 'request_changes']).describe('Overall recommendation'),
+  issues: z.array(
+    CodeAnalysisSchema.shape.issues.element.extend({
+      file: z.string().describe('Path of the changed file, as in the diff header'),
+      line: z.number().optional().describe('Line number in the new version of the file'),
+    })
+  ),
+});
+
+export type PullRequestReview = z.infer<typeof PullRequestReviewSchema>;
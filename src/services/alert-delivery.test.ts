@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  SIGNATURE_HEADER,
+  deliverAlert,
+  listDeliveries,
+  signPayload,
+  validateDelivery,
+  type AlertNotice,
+} from './alert-delivery';
+import { memoryKv } from '../test-utils/memory-kv';
+
+const notice: AlertNotice = {
+  alertId: 'a1',
+  label: 'Overnight 80%',
+  thresholdPct: 80,
+  window: 'day',
+  spentUsd: 8.4,
+  capUsd: 10,
+  firedAt: '2026-03-10T03:00:00.000Z',
+};
+
+const webhook = { url: 'https://hooks.slack.com/services/T0/B0/xyz', secret: 'whsec_test' };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('validateDelivery', () => {
+  it('requires https webhooks and well-formed recipients', () => {
+    expect(validateDelivery(['webhook'], { webhookUrl: 'http://example.com/hook' })).toMatch(/https/);
+    expect(validateDelivery(['webhook'], { webhookUrl: 'https://169.254.169.254/latest' })).toMatch(/Private/);
+    expect(validateDelivery(['webhook'], { webhookUrl: 'https://metadata.google.internal/' })).toMatch(/Internal/);
+    expect(validateDelivery(['email'], { emailTo: ['not-an-email'] })).toMatch(/Invalid email/);
+    expect(validateDelivery(['in-app', 'webhook'], { webhookUrl: webhook.url })).toBeNull();
+  });
+});
+
+describe('deliverAlert', () => {
+  it('posts a signed Slack-compatible body and logs the delivery', async () => {
+    const fetchMock = vi.fn(async () => new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const env = { AUTH_KV: memoryKv() } as unknown as Env;
+
+    const [record] = await deliverAlert(env, 'u1', ['in-app', 'webhook'], { webhook }, notice);
+
+    expect(record).toMatchObject({ channel: 'webhook', status: 'delivered', attempts: 1, target: 'hooks.slack.com' });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = init.body as string;
+    expect(JSON.parse(body).text).toContain('$8.40 of $10.00 today');
+    const header = (init.headers as Record<string, string>)[SIGNATURE_HEADER];
+    const [, t, v1] = header.match(/^t=(\d+),v1=([0-9a-f]+)$/)!;
+    expect(v1).toBe(await signPayload(webhook.secret, Number(t), body));
+    expect(await listDeliveries(env.AUTH_KV, 'u1')).toHaveLength(1);
+  });
+
+  it('retries server errors but not client errors', async () => {
+    // Skip the backoff waits
+    vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 502 }))
+      .mockResolvedValueOnce(new Response('', { status: 200 }))
+      .mockResolvedValueOnce(new Response('', { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const env = { AUTH_KV: memoryKv() } as unknown as Env;
+
+    const retried = await deliverAlert(env, 'u1', ['webhook'], { webhook }, notice);
+    expect(retried[0]).toMatchObject({ status: 'delivered', attempts: 2 });
+
+    const rejected = await deliverAlert(env, 'u1', ['webhook'], { webhook }, notice);
+    expect(rejected[0]).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 404 });
+  });
+
+  it('refuses to post to an internal webhook saved before validation', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const env = { AUTH_KV: memoryKv() } as unknown as Env;
+    const internal = { url: 'https://10.0.0.5/hook', secret: 'whsec_test' };
+
+    const [record] = await deliverAlert(env, 'u1', ['webhook'], { webhook: internal }, notice);
+
+    expect(record).toMatchObject({ status: 'failed', attempts: 0 });
+    expect(record.error).toMatch(/Private/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails email without a provider key instead of throwing', async () => {
+    const env = { AUTH_KV: memoryKv() } as unknown as Env;
+    const [record] = await deliverAlert(env, 'u1', ['email'], { email: { to: ['lead@acme.dev'] } }, notice);
+    expect(record).toMatchObject({ status: 'failed', error: 'Email delivery is not configured' });
+  });
+});
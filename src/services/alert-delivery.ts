@@ -0,0 +1,357 @@
+import type { SpendWindow } from './usage-ledger';
+import { validateExternalUrl } from '../utils/validate-url';
+
+/* ── Types ────────────────────────────────────── */
+
+export type AlertChannel = 'in-app' | 'webhook' | 'email';
+/** Channels delivered from the worker — in-app alerts ride the persist response */
+export type ExternalChannel = Exclude<AlertChannel, 'in-app'>;
+
+export interface AlertWebhookConfig {
+  /** HTTPS endpoint — a Slack incoming-webhook URL works as-is */
+  url: string;
+  /** HMAC-SHA256 key for the X-VaporForge-Signature header */
+  secret: string;
+}
+
+/** Per-alert targets for the external channels. */
+export interface AlertDeliveryConfig {
+  webhook?: AlertWebhookConfig;
+  email?: { to: string[] };
+}
+
+/** What an alert reports when it fires (or is test-fired). */
+export interface AlertNotice {
+  alertId: string;
+  label: string;
+  thresholdPct: number;
+  window: SpendWindow;
+  spentUsd: number;
+  capUsd: number;
+  sessionId?: string;
+  firedAt: string;
+  test?: boolean;
+}
+
+export interface DeliveryRecord {
+  id: string;
+  alertId: string;
+  channel: ExternalChannel;
+  /** Webhook host or comma-joined recipients — never the full URL (it may embed a token) */
+  target: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  notice: AlertNotice;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/* ── Constants ────────────────────────────────── */
+
+export const EXTERNAL_CHANNELS: ExternalChannel[] = ['webhook', 'email'];
+export const MAX_EMAIL_RECIPIENTS = 5;
+/** Delivery log entries kept per user, newest first */
+const MAX_LOG_ENTRIES = 50;
+/** Wait before each attempt — three tries inside one waitUntil budget */
+export const RETRY_DELAYS_MS = [0, 1_000, 4_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+const RESEND_URL = 'https://api.resend.com/emails';
+const DEFAULT_EMAIL_FROM = 'VaporForge <alerts@vaporforge.dev>';
+export const SIGNATURE_HEADER = 'X-VaporForge-Signature';
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const WINDOW_LABEL: Record<SpendWindow, string> = {
+  session: 'in one session',
+  day: 'today',
+  month: 'this month',
+};
+
+/* ── KV keys ──────────────────────────────────── */
+
+function logKey(userId: string): string {
+  return `billing-alert-deliveries:${userId}`;
+}
+
+/* ── Config ───────────────────────────────────── */
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Webhook targets must be public HTTPS endpoints — the worker POSTs to them,
+ * so private ranges and internal hostnames are refused like MCP server URLs.
+ */
+function webhookUrlError(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return 'webhookUrl must be a valid URL';
+  }
+  if (url.protocol !== 'https:') return 'webhookUrl must use https';
+  const unsafe = validateExternalUrl(raw);
+  return unsafe ? `webhookUrl: ${unsafe}` : null;
+}
+
+/**
+ * Validate channels plus their targets from an untrusted body. Returns an
+ * error message, or null when every selected channel has a usable target.
+ */
+export function validateDelivery(
+  channels: AlertChannel[],
+  delivery: { webhookUrl?: string; emailTo?: string[] }
+): string | null {
+  const allowed: AlertChannel[] = ['in-app', ...EXTERNAL_CHANNELS];
+  if (!Array.isArray(channels) || channels.length === 0) return 'At least one channel is required';
+  const unknown = channels.find((ch) => !allowed.includes(ch));
+  if (unknown) return `Unknown channel: ${unknown}`;
+
+  if (channels.includes('webhook')) {
+    const urlError = webhookUrlError(delivery.webhookUrl ?? '');
+    if (urlError) return urlError;
+  }
+  if (channels.includes('email')) {
+    const to = delivery.emailTo ?? [];
+    if (to.length === 0) return 'emailTo needs at least one address';
+    if (to.length > MAX_EMAIL_RECIPIENTS) return `emailTo is limited to ${MAX_EMAIL_RECIPIENTS} addresses`;
+    const bad = to.find((addr) => !EMAIL_RE.test(addr));
+    if (bad) return `Invalid email address: ${bad}`;
+  }
+  return null;
+}
+
+/* ── Payloads ─────────────────────────────────── */
+
+export function noticeText(notice: AlertNotice): string {
+  const pct = notice.capUsd > 0 ? Math.round((notice.spentUsd / notice.capUsd) * 100) : 0;
+  const prefix = notice.test ? '[Test] ' : '';
+  return `${prefix}VaporForge usage alert "${notice.label}": spent $${notice.spentUsd.toFixed(2)} `
+    + `of $${notice.capUsd.toFixed(2)} ${WINDOW_LABEL[notice.window]} (${pct}%, threshold ${notice.thresholdPct}%).`;
+}
+
+/**
+ * Slack reads `text` and ignores the other top-level fields, so the same
+ * body works for Slack incoming webhooks and custom receivers.
+ */
+export function webhookBody(notice: AlertNotice): string {
+  return JSON.stringify({ text: noticeText(notice), event: 'usage.alert', alert: notice });
+}
+
+/** Hex HMAC-SHA256 over `{timestamp}.{body}`, Stripe-style to block replays. */
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(sig)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/* ── Sending ──────────────────────────────────── */
+
+type AttemptResult = { ok: boolean; status?: number; error?: string; retryable?: boolean };
+
+/** One notification rendered for every external channel. */
+export interface OutboundMessage {
+  subject: string;
+  text: string;
+  /** JSON webhook body — include a `text` field so Slack can show it */
+  body: string;
+}
+
+function alertMessage(notice: AlertNotice): OutboundMessage {
+  return {
+    subject: `${notice.test ? '[Test] ' : ''}Usage alert: ${notice.label}`,
+    text: noticeText(notice),
+    body: webhookBody(notice),
+  };
+}
+
+/** 4xx (other than 429) means the request itself is wrong — retrying won't help. */
+function httpResult(res: Response): AttemptResult {
+  if (res.ok) return { ok: true, status: res.status };
+  const retryable = res.status >= 500 || res.status === 429;
+  return { ok: false, status: res.status, error: `HTTP ${res.status}`, retryable };
+}
+
+async function postWebhook(webhook: AlertWebhookConfig, body: string): Promise<AttemptResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signPayload(webhook.secret, timestamp, body);
+  const res = await fetch(webhook.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+    },
+    body,
+    // A redirect could point the signed POST at an internal host the URL check refused
+    redirect: 'manual',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  return httpResult(res);
+}
+
+async function sendEmail(env: Env, to: string[], message: OutboundMessage): Promise<AttemptResult> {
+  if (!env.RESEND_API_KEY) return { ok: false, error: 'Email delivery is not configured', retryable: false };
+  const res = await fetch(RESEND_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${env.RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: env.ALERT_EMAIL_FROM || DEFAULT_EMAIL_FROM,
+      to,
+      subject: message.subject,
+      text: message.text,
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  return httpResult(res);
+}
+
+function targetLabel(channel: ExternalChannel, delivery: AlertDeliveryConfig): string {
+  if (channel === 'email') return (delivery.email?.to ?? []).join(', ');
+  try {
+    return new URL(delivery.webhook?.url ?? '').host;
+  } catch {
+    return '';
+  }
+}
+
+/** Run one channel through the retry schedule, stopping early on non-retryable failures. */
+async function attemptChannel(
+  env: Env,
+  channel: ExternalChannel,
+  delivery: AlertDeliveryConfig,
+  message: OutboundMessage
+): Promise<AttemptResult & { attempts: number }> {
+  let last: AttemptResult = { ok: false, error: `No ${channel} target configured` };
+  const target = channel === 'webhook' ? delivery.webhook : delivery.email?.to.length;
+  if (!target) return { ...last, attempts: 0 };
+  // Re-check at send time: targets saved before the URL rules tightened skip validateDelivery
+  const urlError = channel === 'webhook' ? webhookUrlError(delivery.webhook!.url) : null;
+  if (urlError) return { ok: false, error: urlError, retryable: false, attempts: 0 };
+  let attempts = 0;
+  for (const delay of RETRY_DELAYS_MS) {
+    if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+    attempts++;
+    try {
+      last = channel === 'webhook'
+        ? await postWebhook(delivery.webhook!, message.body)
+        : await sendEmail(env, delivery.email!.to, message);
+    } catch (err) {
+      // Network errors and timeouts are worth another try
+      last = { ok: false, error: err instanceof Error ? err.message : String(err), retryable: true };
+    }
+    if (last.ok || last.retryable === false) break;
+  }
+  return { ...last, attempts };
+}
+
+/* ── Delivery log ─────────────────────────────── */
+
+export async function listDeliveries(kv: KVNamespace, userId: string): Promise<DeliveryRecord[]> {
+  return (await kv.get<DeliveryRecord[]>(logKey(userId), 'json')) ?? [];
+}
+
+/** Insert or replace records by id, newest first, capped at MAX_LOG_ENTRIES. */
+async function writeDeliveries(kv: KVNamespace, userId: string, records: DeliveryRecord[]): Promise<void> {
+  const existing = await listDeliveries(kv, userId);
+  const ids = new Set(records.map((r) => r.id));
+  const merged = [...records, ...existing.filter((r) => !ids.has(r.id))]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_LOG_ENTRIES);
+  await kv.put(logKey(userId), JSON.stringify(merged));
+}
+
+/**
+ * Send a notice to every external channel the alert has enabled and log
+ * one record per channel. Never throws — callers run this in waitUntil.
+ */
+export async function deliverAlert(
+  env: Env,
+  userId: string,
+  channels: AlertChannel[],
+  delivery: AlertDeliveryConfig,
+  notice: AlertNotice
+): Promise<DeliveryRecord[]> {
+  const external = EXTERNAL_CHANNELS.filter((ch) => channels.includes(ch));
+  if (external.length === 0) return [];
+
+  const records = await Promise.all(external.map(async (channel): Promise<DeliveryRecord> => {
+    const result = await attemptChannel(env, channel, delivery, alertMessage(notice));
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      alertId: notice.alertId,
+      channel,
+      target: targetLabel(channel, delivery),
+      status: result.ok ? 'delivered' : 'failed',
+      attempts: result.attempts,
+      ...(result.status ? { responseStatus: result.status } : {}),
+      ...(!result.ok && result.error ? { error: result.error } : {}),
+      notice,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }));
+
+  try {
+    await writeDeliveries(env.AUTH_KV, userId, records);
+  } catch (err) {
+    console.error('[alerts] delivery log write failed:', err);
+  }
+  return records;
+}
+
+/**
+ * Re-send a logged delivery against the alert's current targets, so fixing
+ * a webhook URL and retrying works. Attempts accumulate on the record.
+ */
+export async function retryDelivery(
+  env: Env,
+  userId: string,
+  record: DeliveryRecord,
+  delivery: AlertDeliveryConfig
+): Promise<DeliveryRecord> {
+  const result = await attemptChannel(env, record.channel, delivery, alertMessage(record.notice));
+  const updated: DeliveryRecord = {
+    ...record,
+    target: targetLabel(record.channel, delivery),
+    status: result.ok ? 'delivered' : 'failed',
+    attempts: record.attempts + result.attempts,
+    responseStatus: result.status,
+    error: result.ok ? undefined : result.error,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeDeliveries(env.AUTH_KV, userId, [updated]);
+  return updated;
+}
+
+/**
+ * Send a non-alert notification (e.g. a scheduled job finishing) through the
+ * same signed-webhook and email path. Not logged; never throws.
+ */
+export async function deliverMessage(
+  env: Env,
+  channels: AlertChannel[],
+  delivery: AlertDeliveryConfig,
+  message: OutboundMessage
+): Promise<Array<{ channel: ExternalChannel; ok: boolean; error?: string }>> {
+  const external = EXTERNAL_CHANNELS.filter((ch) => channels.includes(ch));
+  return Promise.all(external.map(async (channel) => {
+    const result = await attemptChannel(env, channel, delivery, message);
+    if (!result.ok) console.error(`[notify] ${channel} delivery failed:`, result.error);
+    return { channel, ok: result.ok, ...(result.error && !result.ok ? { error: result.error } : {}) };
+  }));
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { checkBudget, saveBudgetPolicy } from './budget';
+import { recordUsage } from './usage-ledger';
+import { memoryKv } from '../test-utils/memory-kv';
+
+async function spend(authKv: KVNamespace, sessionId: string, costUsd: number): Promise<void> {
+  await recordUsage(authKv, {
+    promptId: crypto.randomUUID(),
+    userId: 'u1',
+    sessionId,
+    model: 'claude-opus-4-6',
+    inputTokens: 1,
+    outputTokens: 1,
+    costUsd,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+describe('checkBudget', () => {
+  it('does nothing without a cap', async () => {
+    const authKv = memoryKv();
+    await spend(authKv, 's1', 100);
+    expect(await checkBudget(memoryKv(), authKv, 'u1', 's1')).toBeNull();
+  });
+
+  it('measures spend over the policy window', async () => {
+    const sessionsKv = memoryKv();
+    const authKv = memoryKv();
+    await sessionsKv.put('user-config:u1:max-budget-usd', '1');
+    await spend(authKv, 's1', 0.6);
+    await spend(authKv, 's2', 0.6);
+
+    // Per session: neither session has reached $1
+    expect(await checkBudget(sessionsKv, authKv, 'u1', 's1')).toBeNull();
+
+    await saveBudgetPolicy(sessionsKv, 'u1', { action: 'refuse', window: 'day', downgradeModel: 'haiku' });
+    const verdict = await checkBudget(sessionsKv, authKv, 'u1', 's3');
+    expect(verdict).toMatchObject({ action: 'refuse', window: 'day', capUsd: 1 });
+    expect(verdict?.spentUsd).toBeCloseTo(1.2);
+  });
+
+  it('downgrades to the configured alias', async () => {
+    const sessionsKv = memoryKv();
+    const authKv = memoryKv();
+    await sessionsKv.put('user-config:u1:max-budget-usd', '0.5');
+    await saveBudgetPolicy(sessionsKv, 'u1', { action: 'downgrade', window: 'month', downgradeModel: 'sonnet' });
+    await spend(authKv, 's1', 0.5);
+
+    const verdict = await checkBudget(sessionsKv, authKv, 'u1', 's1', 'opus');
+    expect(verdict?.model).toBe('sonnet');
+    expect(verdict?.message).toContain('Switched to sonnet');
+  });
+});
@@ -0,0 +1,148 @@
+import { getWindowSpend, type SpendWindow } from './usage-ledger';
+
+/* ── Types ────────────────────────────────────── */
+
+/** What happens to a new run once the window's spend has reached the cap. */
+export type BudgetAction = 'warn' | 'downgrade' | 'refuse';
+
+export interface BudgetPolicy {
+  action: BudgetAction;
+  window: SpendWindow;
+  /** Model alias (a MODEL_ALIASES key) used for runs past the cap when action is 'downgrade' */
+  downgradeModel: DowngradeModel;
+}
+
+/** Result of checking a run against the policy. Null from checkBudget = under cap or no cap. */
+export interface BudgetVerdict {
+  action: BudgetAction;
+  window: SpendWindow;
+  spentUsd: number;
+  capUsd: number;
+  /** Alias the run should use instead of the requested model ('downgrade' only) */
+  model?: string;
+  message: string;
+}
+
+/* ── Constants ────────────────────────────────── */
+
+export const BUDGET_ACTIONS: BudgetAction[] = ['warn', 'downgrade', 'refuse'];
+export const SPEND_WINDOWS: SpendWindow[] = ['session', 'day', 'month'];
+/** Cheaper aliases a capped run may fall back to, cheapest first */
+export const DOWNGRADE_MODELS = ['haiku', 'sonnet'] as const;
+export type DowngradeModel = (typeof DOWNGRADE_MODELS)[number];
+
+/** Matches the pre-policy behavior: a per-session cap that only notifies. */
+export const DEFAULT_BUDGET_POLICY: BudgetPolicy = {
+  action: 'warn',
+  window: 'session',
+  downgradeModel: 'haiku',
+};
+
+const WINDOW_LABEL: Record<SpendWindow, string> = {
+  session: 'this session',
+  day: 'today',
+  month: 'this month',
+};
+
+/* ── Policy storage ───────────────────────────── */
+
+/** Fetch the budget ceiling for a user. Returns undefined (no limit) when not set. */
+export async function getMaxBudgetUsd(
+  kv: KVNamespace,
+  userId: string
+): Promise<number | undefined> {
+  const raw = await kv.get(`user-config:${userId}:max-budget-usd`);
+  if (raw === null) return undefined;
+  const n = parseFloat(raw);
+  return isFinite(n) && n > 0 ? n : undefined;
+}
+
+function policyKey(userId: string): string {
+  return `user-config:${userId}:budget-policy`;
+}
+
+export async function getBudgetPolicy(kv: KVNamespace, userId: string): Promise<BudgetPolicy> {
+  const stored = await kv.get<Partial<BudgetPolicy>>(policyKey(userId), 'json');
+  return { ...DEFAULT_BUDGET_POLICY, ...(stored ?? {}) };
+}
+
+export async function saveBudgetPolicy(
+  kv: KVNamespace,
+  userId: string,
+  policy: BudgetPolicy
+): Promise<void> {
+  await kv.put(policyKey(userId), JSON.stringify(policy));
+}
+
+/** Validate an untrusted policy body. Returns an error message, or null when valid. */
+export function validateBudgetPolicy(policy: Partial<BudgetPolicy>): string | null {
+  if (policy.action !== undefined && !BUDGET_ACTIONS.includes(policy.action)) {
+    return `action must be one of ${BUDGET_ACTIONS.join(', ')}`;
+  }
+  if (policy.window !== undefined && !SPEND_WINDOWS.includes(policy.window)) {
+    return `window must be one of ${SPEND_WINDOWS.join(', ')}`;
+  }
+  if (
+    policy.downgradeModel !== undefined &&
+    !(DOWNGRADE_MODELS as readonly string[]).includes(policy.downgradeModel)
+  ) {
+    return `downgradeModel must be one of ${DOWNGRADE_MODELS.join(', ')}`;
+  }
+  return null;
+}
+
+/* ── Enforcement ──────────────────────────────── */
+
+/**
+ * Check a new run against the user's cap. The cap and policy live in
+ * SESSIONS_KV next to the other user-config keys; spend counters live with
+ * the usage ledger in AUTH_KV. A downgrade that would not change the model
+ * (already on the fallback alias) still reports, so the user sees the warning.
+ */
+export async function checkBudget(
+  sessionsKv: KVNamespace,
+  authKv: KVNamespace,
+  userId: string,
+  sessionId: string,
+  requestedModel?: string
+): Promise<BudgetVerdict | null> {
+  const capUsd = await getMaxBudgetUsd(sessionsKv, userId);
+  if (!capUsd) return null;
+
+  const policy = await getBudgetPolicy(sessionsKv, userId);
+  const spentUsd = await getWindowSpend(authKv, userId, policy.window, sessionId);
+  if (spentUsd < capUsd) return null;
+
+  const base = { action: policy.action, window: policy.window, spentUsd, capUsd };
+  const spent = `$${spentUsd.toFixed(2)} of your $${capUsd.toFixed(2)} budget ${WINDOW_LABEL[policy.window]}`;
+  switch (policy.action) {
+    case 'refuse':
+      return {
+        ...base,
+        message: `Budget exceeded: ${spent}. Raise or clear the limit in Settings → Command Center to continue.`,
+      };
+    case 'downgrade':
+      return {
+        ...base,
+        model: policy.downgradeModel,
+        message: requestedModel === policy.downgradeModel
+          ? `Budget reached: ${spent}.`
+          : `Budget reached: ${spent}. Switched to ${policy.downgradeModel} for this run.`,
+      };
+    case 'warn':
+      return { ...base, message: `Budget reached: ${spent}.` };
+  }
+}
+
+/** Stream event announcing a budget verdict — the UI shows it as a warning toast. */
+export function budgetEvent(verdict: BudgetVerdict): Record<string, unknown> {
+  return {
+    type: 'budget',
+    action: verdict.action,
+    window: verdict.window,
+    spentUsd: verdict.spentUsd,
+    capUsd: verdict.capUsd,
+    ...(verdict.model ? { model: verdict.model } : {}),
+    message: verdict.message,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { grepPatternFromQuery, mergeHybridResults, parseGrepOutput } from './code-search';
+import type { SemanticSearchResult } from './embeddings';
+
+function semantic(path: string, score: number, startLine: number, endLine: number): SemanticSearchResult {
+  return { path, score, snippet: '', language: 'ts', startLine, endLine };
+}
+
+describe('grepPatternFromQuery', () => {
+  it('keeps identifier-like terms and drops stopwords', () => {
+    expect(grepPatternFromQuery('where is the refreshToken handled')).toBe('refreshToken\\|handled');
+  });
+
+  it('returns null when nothing is left', () => {
+    expect(grepPatternFromQuery('how is it')).toBeNull();
+  });
+});
+
+describe('parseGrepOutput', () => {
+  it('parses path:line:text rows, including colons in the text', () => {
+    expect(parseGrepOutput('/workspace/a.ts:12:const x = { a: 1 };\n\n')).toEqual([
+      { path: '/workspace/a.ts', line: 12, text: 'const x = { a: 1 };' },
+    ]);
+  });
+});
+
+describe('mergeHybridResults', () => {
+  it('boosts semantic chunks that contain grep hits', () => {
+    const results = mergeHybridResults(
+      [semantic('/workspace/a.ts', 0.8, 1, 20), semantic('/workspace/b.ts', 0.75, 1, 20)],
+      [
+        { path: '/workspace/b.ts', line: 5, text: 'token' },
+        { path: '/workspace/b.ts', line: 6, text: 'token' },
+      ],
+      5
+    );
+    expect(results[0].path).toBe('/workspace/b.ts');
+    expect(results[0].matchedBy).toEqual(['semantic', 'grep']);
+    expect(results[0].grepHits).toBe(2);
+    expect(results[1].matchedBy).toEqual(['semantic']);
+  });
+
+  it('surfaces grep-only hits as clustered line ranges', () => {
+    const results = mergeHybridResults(
+      [semantic('/workspace/a.ts', 0.9, 1, 10)],
+      [
+        { path: '/workspace/c.ts', line: 100, text: 'x' },
+        { path: '/workspace/c.ts', line: 110, text: 'y' },
+        { path: '/workspace/c.ts', line: 400, text: 'z' },
+      ],
+      5
+    );
+    const grepOnly = results.filter((r) => r.matchedBy[0] === 'grep');
+    expect(grepOnly.map((r) => [r.startLine, r.endLine])).toEqual([[100, 110], [400, 400]]);
+    expect(results[0].path).toBe('/workspace/a.ts');
+  });
+});
@@ -0,0 +1,176 @@
+import type { EmbeddingModel } from 'ai';
+import type { SandboxManager } from '../sandbox';
+import { getLanguage, searchEmbeddings, type SemanticSearchResult } from './embeddings';
+import type { VectorStoreFactory } from './vector-store';
+
+/* ── Types ────────────────────────────────────── */
+
+export interface GrepHit {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export interface HybridSearchResult extends SemanticSearchResult {
+  matchedBy: Array<'semantic' | 'grep'>;
+  /** Grep hits that fall inside [startLine, endLine] */
+  grepHits: number;
+}
+
+/* ── Constants ────────────────────────────────── */
+
+const SOURCE_GLOB = '*.{ts,tsx,js,jsx,json,md,css,html,py,rs,go}';
+const SEMANTIC_WEIGHT = 0.7;
+const GREP_WEIGHT = 0.3;
+/** Hits in one chunk beyond this add nothing — avoids rewarding boilerplate */
+const GREP_SATURATION = 3;
+/** Grep-only hits closer than this many lines are reported as one range */
+const GREP_CLUSTER_LINES = 40;
+const GREP_HIT_LIMIT = 200;
+const MAX_QUERY_TERMS = 5;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'how', 'where', 'what', 'which', 'does', 'with', 'this',
+  'that', 'from', 'into', 'are', 'is', 'was', 'who', 'why', 'when', 'code',
+  'file', 'files', 'find', 'show', 'use', 'used', 'uses', 'using', 'all', 'any',
+]);
+
+function shellEscape(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/* ── Grep ─────────────────────────────────────── */
+
+/** The grep invocation shared by the searchCode tool and hybrid search. */
+export function grepCommand(
+  pattern: string,
+  dir: string,
+  options: { limit?: number; ignoreCase?: boolean } = {}
+): string {
+  const flags = options.ignoreCase ? '-rni' : '-rn';
+  return `grep ${flags} --include=${shellEscape(SOURCE_GLOB)} ${shellEscape(pattern)} ${shellEscape(dir)} | head -${options.limit ?? 50}`;
+}
+
+/** Parse `path:line:text` grep output. */
+export function parseGrepOutput(stdout: string): GrepHit[] {
+  const hits: GrepHit[] = [];
+  for (const raw of stdout.split('\n')) {
+    const match = raw.match(/^(.+?):(\d+):(.*)$/);
+    if (match) {
+      hits.push({ path: match[1], line: parseInt(match[2], 10), text: match[3] });
+    }
+  }
+  return hits;
+}
+
+/**
+ * Turn a natural-language query into a GNU grep alternation of its
+ * identifier-like terms, e.g. "where is the auth token refreshed" →
+ * `auth\|token\|refreshed`. Returns null when nothing is worth grepping.
+ */
+export function grepPatternFromQuery(query: string): string | null {
+  const terms = (query.match(/[A-Za-z_][A-Za-z0-9_]{2,}/g) ?? [])
+    .filter((t) => !STOPWORDS.has(t.toLowerCase()));
+  const unique = [...new Set(terms)].slice(0, MAX_QUERY_TERMS);
+  return unique.length > 0 ? unique.join('\\|') : null;
+}
+
+/* ── Ranking ──────────────────────────────────── */
+
+/**
+ * Blend semantic chunks with grep hits. Each chunk's cosine score is boosted
+ * by the grep hits inside its line range; hits outside every chunk surface as
+ * grep-only results, clustered into line ranges.
+ */
+export function mergeHybridResults(
+  semantic: SemanticSearchResult[],
+  hits: GrepHit[],
+  topK: number
+): HybridSearchResult[] {
+  const claimed = new Set<GrepHit>();
+
+  const results: HybridSearchResult[] = semantic.map((r) => {
+    const inRange = hits.filter(
+      (h) => h.path === r.path && h.line >= r.startLine && h.line <= r.endLine
+    );
+    inRange.forEach((h) => claimed.add(h));
+    return {
+      ...r,
+      score: SEMANTIC_WEIGHT * r.score + GREP_WEIGHT * Math.min(1, inRange.length / GREP_SATURATION),
+      matchedBy: inRange.length > 0 ? ['semantic', 'grep'] : ['semantic'],
+      grepHits: inRange.length,
+    };
+  });
+
+  const unclaimed = hits
+    .filter((h) => !claimed.has(h))
+    .sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+
+  let cluster: GrepHit[] = [];
+  const flush = () => {
+    if (cluster.length === 0) return;
+    const first = cluster[0];
+    results.push({
+      path: first.path,
+      score: GREP_WEIGHT * Math.min(1, cluster.length / GREP_SATURATION),
+      snippet: cluster.map((h) => h.text.trim()).join('\n').slice(0, 200),
+      language: getLanguage(first.path),
+      startLine: first.line,
+      endLine: cluster[cluster.length - 1].line,
+      matchedBy: ['grep'],
+      grepHits: cluster.length,
+    });
+    cluster = [];
+  };
+  for (const hit of unclaimed) {
+    const start = cluster[0];
+    if (start && (hit.path !== start.path || hit.line - start.line > GREP_CLUSTER_LINES)) {
+      flush();
+    }
+    cluster.push(hit);
+  }
+  flush();
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, topK);
+}
+
+/* ── Hybrid search ────────────────────────────── */
+
+/**
+ * Semantic search plus grep over the live workspace. `pattern` overrides the
+ * grep terms derived from the query. Returns null only when the session has
+ * no embeddings index and grep found nothing either.
+ */
+export async function hybridSearch(
+  kv: KVNamespace,
+  stores: VectorStoreFactory,
+  sandboxManager: SandboxManager,
+  userId: string,
+  sessionId: string,
+  query: string,
+  embeddingModel: EmbeddingModel,
+  topK: number = 5,
+  pattern?: string
+): Promise<HybridSearchResult[] | null> {
+  const grepPattern = pattern || grepPatternFromQuery(query);
+
+  const [semantic, grepResult] = await Promise.all([
+    // Over-fetch so grep boosts can reorder beyond the first topK
+    searchEmbeddings(kv, stores, userId, sessionId, query, embeddingModel, topK * 2),
+    grepPattern
+      ? sandboxManager
+          .execInSandbox(
+            sessionId,
+            grepCommand(grepPattern, '/workspace', { limit: GREP_HIT_LIMIT, ignoreCase: !pattern }),
+            { timeout: 15000 }
+          )
+          .catch(() => null)
+      : Promise.resolve(null),
+  ]);
+
+  const hits = grepResult?.stdout ? parseGrepOutput(grepResult.stdout) : [];
+  if (!semantic && hits.length === 0) return null;
+
+  return mergeHybridResults(semantic ?? [], hits, topK);
+}
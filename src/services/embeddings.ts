@@ -1,26 +1,47 @@
-import { embedMany, cosineSimilarity } from 'ai';
+import { embedMany } from 'ai';
 import type { EmbeddingModel } from 'ai';
 import type { SandboxManager } from '../sandbox';
+import type { Session } from '../types';
+import type { VectorRecord, VectorStore, VectorStoreFactory } from './vector-store';
 
 /* ── Types ────────────────────────────────────── */
 
+/**
+ * One embedded chunk of a file. A file contributes one or more entries.
+ * The vector itself lives in the VectorStore under `id`.
+ */
 export interface EmbeddingEntry {
+  id: string;
   path: string;
+  /** Hash of the whole file — shared by all of its chunks */
   contentHash: string;
-  embedding: number[];
   snippet: string;
   language: string;
   size: number;
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
 }
 
+/** KV manifest of what is in the vector store — small enough to parse per request. */
 export interface EmbeddingsIndex {
+  version: number;
   sessionId: string;
   userId: string;
+  /** Vector store namespace — shared per user + repo, else the session ID */
+  scope?: string;
+  /** Normalized repo URL for repo-scoped indexes */
+  repo?: string;
+  /** Workspace HEAD when the index was built */
+  commitSha?: string;
+  /** Repo snapshot this index was seeded from, if any */
+  baseSha?: string;
   createdAt: string;
   updatedAt: string;
   model: string;
   dimensions: number;
   fileCount: number;
+  chunkCount: number;
   entries: EmbeddingEntry[];
 }
 
@@ -29,6 +50,14 @@ export interface SemanticSearchResult {
   score: number;
   snippet: string;
   language: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface SourceChunk {
+  text: string;
+  startLine: number;
+  endLine: number;
 }
 
 /* ── Constants ────────────────────────────────── */
@@ -50,15 +79,27 @@ const SKIP_EXTS = new Set([
   '.bin', '.exe', '.dll', '.wasm',
 ]);
 
+const WORKSPACE_ROOT = '/workspace';
 const MAX_FILES = 500;
-const MAX_FILE_SIZE = 100 * 1024; // 100KB
-const TRUNCATE_AT = 4096;         // First 4KB
+const MAX_FILE_SIZE = 100 * 1024;  // Per-file chunking budget — text past this is not indexed
+const MAX_READ_SIZE = '2M';        // find -size guard against generated blobs
+const CHUNK_MAX_CHARS = 2000;
+const CHUNK_MAX_LINES = 80;
+const CHUNK_MIN_LINES = 5;
+/** Cap on total chunks — bounds embedding quota per full build and the manifest size. */
+const MAX_INDEX_CHUNKS = 5000;
+const INDEX_VERSION = 3;
 const EMBED_BATCH_SIZE = 50;
 const EMBED_MAX_PARALLEL = 2;
 const MODEL_NAME = 'text-embedding-004';
 const DIMENSIONS = 768;
-const INDEX_TTL = 7 * 24 * 60 * 60; // 7 days
-const LOCK_TTL = 60;                 // 60 seconds
+const LOCK_TTL = 300;                // 5 minutes — chunked runs embed many more values
+/** Paths queued while the index was locked; past this the next run does a full scan */
+const MAX_PENDING_PATHS = 1000;
+const PENDING_TTL = 7 * 24 * 60 * 60;
+/** Commit snapshots kept per repo scope — older ones are evicted with their vectors */
+const MAX_REPO_SNAPSHOTS = 5;
+const GIT_SHA_RE = /^[0-9a-f]{40}$/;
 
 /* ── KV key helpers ───────────────────────────── */
 
@@ -70,6 +111,18 @@ function lockKey(userId: string, sessionId: string): string {
   return `embeddings-indexing:${userId}:${sessionId}`;
 }
 
+function pendingKey(userId: string, sessionId: string): string {
+  return `embeddings-pending:${userId}:${sessionId}`;
+}
+
+function snapshotKey(scope: string, sha: string): string {
+  return `embeddings-repo:${scope}:${sha}`;
+}
+
+function scopeKey(scope: string): string {
+  return `embeddings-scope:${scope}`;
+}
+
 /* ── File discovery ───────────────────────────── */
 
 function shouldSkipPath(filePath: string): boolean {
@@ -87,7 +140,7 @@ export async function discoverIndexableFiles(
 ): Promise<string[]> {
   const result = await sandboxManager.execInSandbox(
     sessionId,
-    'find /workspace -type f -size -100k 2>/dev/null | head -2000',
+    `find ${WORKSPACE_ROOT} -type f -size -${MAX_READ_SIZE} 2>/dev/null | head -2000`,
     { timeout: 15000 }
   );
 
@@ -111,176 +164,752 @@ async function hashContent(text: string): Promise<string> {
   return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
 
-function getLanguage(path: string): string {
+export function getLanguage(path: string): string {
   const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
   return ext || 'unknown';
 }
 
-/* ── Index building ───────────────────────────── */
+/* ── Chunking ─────────────────────────────────── */
+
+/**
+ * Lines that usually open a new top-level unit: declarations across the
+ * common languages, decorators, and markdown headings. Only unindented
+ * lines match, so nested members stay with their parent.
+ */
+const BOUNDARY_RE =
+  /^(export\s|default\s|async\s|function[\s*]|class\s|interface\s|type\s|enum\s|const\s|let\s|var\s|def\s|fn\s|pub\s|func\s|impl\s|struct\s|trait\s|module\s|describe\(|@|#{1,3}\s)/;
+
+/**
+ * Split source into function/section-sized chunks with line ranges.
+ * Cuts at declaration boundaries once a chunk has a few lines, and
+ * force-cuts chunks that grow past CHUNK_MAX_CHARS / CHUNK_MAX_LINES.
+ */
+export function chunkSource(content: string): SourceChunk[] {
+  const lines = content.split('\n');
+  const chunks: SourceChunk[] = [];
+  let start = 0;
+  let size = 0;
+
+  const flush = (end: number) => {
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      chunks.push({ text, startLine: start + 1, endLine: end });
+    }
+    start = end;
+    size = 0;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineCount = i - start;
+    const atBoundary = lineCount >= CHUNK_MIN_LINES && BOUNDARY_RE.test(lines[i]);
+    const full =
+      lineCount > 0 &&
+      (size + lines[i].length + 1 > CHUNK_MAX_CHARS || lineCount >= CHUNK_MAX_LINES);
+    if (atBoundary || full) flush(i);
+    size += lines[i].length + 1;
+  }
+  flush(lines.length);
 
-export async function buildEmbeddingsIndex(
-  sandboxManager: SandboxManager,
-  sessionId: string,
+  return chunks;
+}
+
+/** Chunk a file within the per-file budget, cutting at a line boundary. */
+function chunkFile(content: string): SourceChunk[] {
+  if (content.length <= MAX_FILE_SIZE) return chunkSource(content);
+  const cut = content.lastIndexOf('\n', MAX_FILE_SIZE);
+  return chunkSource(content.slice(0, cut > 0 ? cut : MAX_FILE_SIZE));
+}
+
+function groupByPath(entries: EmbeddingEntry[]): Map<string, EmbeddingEntry[]> {
+  const grouped = new Map<string, EmbeddingEntry[]>();
+  for (const entry of entries) {
+    const list = grouped.get(entry.path);
+    if (list) list.push(entry);
+    else grouped.set(entry.path, [entry]);
+  }
+  return grouped;
+}
+
+/* ── Index persistence ────────────────────────── */
+
+async function loadIndexAt(kv: KVNamespace, key: string): Promise<EmbeddingsIndex | null> {
+  const raw = await kv.get(key);
+  if (!raw) return null;
+  try {
+    const index = JSON.parse(raw) as EmbeddingsIndex;
+    // Older formats (whole-file, or vectors inline in KV) are rebuilt from scratch
+    return index.version === INDEX_VERSION ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+function loadIndex(
+  kv: KVNamespace,
   userId: string,
-  embeddingModel: EmbeddingModel,
-  kv: KVNamespace
-): Promise<EmbeddingsIndex> {
-  // Acquire lock
+  sessionId: string
+): Promise<EmbeddingsIndex | null> {
+  return loadIndexAt(kv, indexKey(userId, sessionId));
+}
+
+/** Pre-repo manifests have no scope — their vectors live under the session ID. */
+function scopeOf(index: EmbeddingsIndex): string {
+  return index.scope || index.sessionId;
+}
+
+function buildManifest(
+  target: IndexTarget,
+  entries: EmbeddingEntry[],
+  extra: { createdAt?: string; commitSha?: string; baseSha?: string }
+): EmbeddingsIndex {
+  const now = new Date().toISOString();
+  return {
+    version: INDEX_VERSION,
+    sessionId: target.sessionId,
+    userId: target.userId,
+    scope: target.scope,
+    ...(target.repo ? { repo: target.repo } : {}),
+    ...(extra.commitSha ? { commitSha: extra.commitSha } : {}),
+    ...(extra.baseSha ? { baseSha: extra.baseSha } : {}),
+    createdAt: extra.createdAt || now,
+    updatedAt: now,
+    model: MODEL_NAME,
+    dimensions: DIMENSIONS,
+    fileCount: new Set(entries.map((e) => e.path)).size,
+    chunkCount: entries.length,
+    entries,
+  };
+}
+
+/** Take the index lock, or null when another run holds it */
+async function tryAcquireLock(kv: KVNamespace, userId: string, sessionId: string): Promise<string | null> {
   const lock = lockKey(userId, sessionId);
-  const existing = await kv.get(lock);
-  if (existing) {
+  if (await kv.get(lock)) return null;
+  await kv.put(lock, '1', { expirationTtl: LOCK_TTL });
+  return lock;
+}
+
+async function acquireLock(kv: KVNamespace, userId: string, sessionId: string): Promise<string> {
+  const lock = await tryAcquireLock(kv, userId, sessionId);
+  if (!lock) {
     throw new Error('Indexing already in progress');
   }
-  await kv.put(lock, '1', { expirationTtl: LOCK_TTL });
+  return lock;
+}
+
+/** Changed paths a locked-out re-index left for the next run; `full` when too many to list */
+interface PendingPaths {
+  paths: string[];
+  full?: boolean;
+}
+
+async function queuePendingPaths(
+  kv: KVNamespace,
+  userId: string,
+  sessionId: string,
+  paths: string[]
+): Promise<void> {
+  const key = pendingKey(userId, sessionId);
+  const pending = (await kv.get<PendingPaths>(key, 'json')) ?? { paths: [] };
+  const merged = [...new Set([...pending.paths, ...paths])];
+  const next: PendingPaths = pending.full || merged.length > MAX_PENDING_PATHS
+    ? { paths: [], full: true }
+    : { paths: merged };
+  await kv.put(key, JSON.stringify(next), { expirationTtl: PENDING_TTL });
+}
+
+async function takePendingPaths(
+  kv: KVNamespace,
+  userId: string,
+  sessionId: string
+): Promise<PendingPaths | null> {
+  const key = pendingKey(userId, sessionId);
+  const pending = await kv.get<PendingPaths>(key, 'json');
+  if (pending) await kv.delete(key);
+  return pending;
+}
+
+/* ── Repo scopes ──────────────────────────────── */
+
+/**
+ * Where a session's vectors live. Sessions on a git repo share one scope per
+ * user + repo, so vectors are reused across sessions and commits (chunk IDs
+ * are content-addressed within the scope). Other sessions get a private scope.
+ */
+interface IndexTarget {
+  userId: string;
+  sessionId: string;
+  scope: string;
+  repo?: string;
+}
 
+/** Sessions and commit snapshots that reference vectors in a shared repo scope. */
+interface ScopeRegistry {
+  userId: string;
+  repo: string;
+  snapshots: Array<{ sha: string; indexedAt: string }>;
+  sessions: string[];
+}
+
+/** Strip credentials, trailing slashes and `.git` so clone URL variants match. */
+export function normalizeRepoUrl(url: string): string {
   try {
-    const files = await discoverIndexableFiles(sandboxManager, sessionId);
-    if (files.length === 0) {
-      const emptyIndex: EmbeddingsIndex = {
-        sessionId,
-        userId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        model: MODEL_NAME,
-        dimensions: DIMENSIONS,
-        fileCount: 0,
-        entries: [],
-      };
-      await kv.put(indexKey(userId, sessionId), JSON.stringify(emptyIndex), {
-        expirationTtl: INDEX_TTL,
-      });
-      return emptyIndex;
+    const u = new URL(url);
+    const path = u.pathname.replace(/\/+$/, '').replace(/\.git$/, '');
+    return `${u.host.toLowerCase()}${path.toLowerCase()}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+async function resolveTarget(
+  kv: KVNamespace,
+  userId: string,
+  sessionId: string
+): Promise<IndexTarget> {
+  const session = await kv.get<Session>(`session:${sessionId}`, 'json');
+  if (!session?.gitRepo) return { userId, sessionId, scope: sessionId };
+  const repo = normalizeRepoUrl(session.gitRepo);
+  // Vectorize namespaces are capped at 64 bytes — hash user + repo down
+  const scope = `repo-${(await hashContent(`${userId}\0${repo}`)).slice(0, 40)}`;
+  return { userId, sessionId, scope, repo };
+}
+
+async function loadRegistry(kv: KVNamespace, scope: string): Promise<ScopeRegistry | null> {
+  return kv.get<ScopeRegistry>(scopeKey(scope), 'json');
+}
+
+/** Record that a session manifest references vectors in its repo scope. */
+async function registerSession(kv: KVNamespace, target: IndexTarget): Promise<void> {
+  if (!target.repo) return;
+  const registry = (await loadRegistry(kv, target.scope)) ?? {
+    userId: target.userId,
+    repo: target.repo,
+    snapshots: [],
+    sessions: [],
+  };
+  if (registry.sessions.includes(target.sessionId)) return;
+  registry.sessions.push(target.sessionId);
+  await kv.put(scopeKey(target.scope), JSON.stringify(registry));
+}
+
+/**
+ * Delete vectors that no manifest in the scope references any more. Vectors
+ * are shared between sessions and snapshots of a repo, so an ID dropped by
+ * one manifest may still be live in another.
+ */
+async function releaseVectors(
+  kv: KVNamespace,
+  store: VectorStore,
+  scope: string,
+  candidates: string[]
+): Promise<void> {
+  if (candidates.length === 0) return;
+  const registry = await loadRegistry(kv, scope);
+  const referenced = new Set<string>();
+  if (registry) {
+    const keys = [
+      ...registry.snapshots.map((s) => snapshotKey(scope, s.sha)),
+      ...registry.sessions.map((id) => indexKey(registry.userId, id)),
+    ];
+    for (const key of keys) {
+      const manifest = await loadIndexAt(kv, key);
+      manifest?.entries.forEach((e) => referenced.add(e.id));
+    }
+  }
+  const orphaned = candidates.filter((id) => !referenced.has(id));
+  if (orphaned.length > 0) await store.deleteByIds(orphaned);
+}
+
+/**
+ * Save the session manifest as the repo snapshot for `sha`, evicting the
+ * oldest snapshots beyond MAX_REPO_SNAPSHOTS.
+ */
+async function saveSnapshot(
+  kv: KVNamespace,
+  store: VectorStore,
+  target: IndexTarget,
+  sha: string,
+  index: EmbeddingsIndex
+): Promise<void> {
+  if (!target.repo) return;
+  await kv.put(snapshotKey(target.scope, sha), JSON.stringify(index));
+
+  const registry = (await loadRegistry(kv, target.scope)) ?? {
+    userId: target.userId,
+    repo: target.repo,
+    snapshots: [],
+    sessions: [],
+  };
+  const snapshots = [
+    { sha, indexedAt: index.updatedAt },
+    ...registry.snapshots.filter((s) => s.sha !== sha),
+  ];
+  const evicted = snapshots.slice(MAX_REPO_SNAPSHOTS);
+  registry.snapshots = snapshots.slice(0, MAX_REPO_SNAPSHOTS);
+  await kv.put(scopeKey(target.scope), JSON.stringify(registry));
+
+  for (const old of evicted) {
+    const manifest = await loadIndexAt(kv, snapshotKey(target.scope, old.sha));
+    await kv.delete(snapshotKey(target.scope, old.sha));
+    if (manifest) {
+      await releaseVectors(kv, store, target.scope, manifest.entries.map((e) => e.id));
     }
+  }
+}
+
+/* ── Workspace git state ──────────────────────── */
+
+interface GitState {
+  head: string;
+  clean: boolean;
+}
+
+async function readGitState(
+  sandboxManager: SandboxManager,
+  sessionId: string
+): Promise<GitState | null> {
+  const result = await sandboxManager.execInSandbox(
+    sessionId,
+    `cd ${WORKSPACE_ROOT} && git rev-parse HEAD && git status --porcelain | head -1`,
+    { timeout: 15000 }
+  );
+  if (result.exitCode !== 0) return null;
+  const [head, dirty] = result.stdout.split('\n').map((l) => l.trim());
+  if (!GIT_SHA_RE.test(head)) return null;
+  return { head, clean: !dirty };
+}
+
+/**
+ * Files that differ between `baseSha` and the working tree (committed,
+ * uncommitted and untracked). Returns null when the base commit isn't in
+ * the clone (e.g. shallow checkout), so the caller falls back to a scan.
+ */
+async function changedSince(
+  sandboxManager: SandboxManager,
+  sessionId: string,
+  baseSha: string
+): Promise<string[] | null> {
+  if (!GIT_SHA_RE.test(baseSha)) return null;
+  const result = await sandboxManager.execInSandbox(
+    sessionId,
+    `cd ${WORKSPACE_ROOT} && git cat-file -e ${baseSha}^{commit} && ` +
+      `git diff --name-only --no-renames ${baseSha} && git ls-files --others --exclude-standard`,
+    { timeout: 30000 }
+  );
+  if (result.exitCode !== 0) return null;
+  return result.stdout
+    .split('\n')
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0)
+    .map((p) => `${WORKSPACE_ROOT}/${p}`);
+}
+
+/* ── File reading + embedding ─────────────────── */
 
-    // Read files concurrently (batches of 20)
-    const fileContents: Array<{ path: string; content: string }> = [];
-    const readBatchSize = 20;
-
-    for (let i = 0; i < files.length; i += readBatchSize) {
-      const batch = files.slice(i, i + readBatchSize);
-      const results = await Promise.allSettled(
-        batch.map(async (path) => {
-          const content = await sandboxManager.readFile(sessionId, path);
-          if (!content || content.length === 0) return null;
-          const truncated = content.length > TRUNCATE_AT
-            ? content.slice(0, TRUNCATE_AT)
-            : content;
-          return { path, content: truncated };
-        })
-      );
-
-      for (const r of results) {
-        if (r.status === 'fulfilled' && r.value) {
-          fileContents.push(r.value);
-        }
+export interface HashedFile {
+  path: string;
+  content: string;
+  contentHash: string;
+}
+
+/**
+ * Read files concurrently (batches of 20) and hash their content.
+ * Missing or empty files come back in `missing` so callers can drop them.
+ */
+async function readAndHashFiles(
+  sandboxManager: SandboxManager,
+  sessionId: string,
+  paths: string[]
+): Promise<{ files: HashedFile[]; missing: string[] }> {
+  const files: HashedFile[] = [];
+  const missing: string[] = [];
+  const readBatchSize = 20;
+
+  for (let i = 0; i < paths.length; i += readBatchSize) {
+    const batch = paths.slice(i, i + readBatchSize);
+    const results = await Promise.allSettled(
+      batch.map(async (path) => {
+        const content = await sandboxManager.readFile(sessionId, path);
+        if (!content || content.length === 0) return null;
+        return { path, content, contentHash: await hashContent(content) };
+      })
+    );
+
+    results.forEach((r, j) => {
+      if (r.status === 'fulfilled' && r.value) {
+        files.push(r.value);
+      } else {
+        missing.push(batch[j]);
       }
+    });
+  }
+
+  return { files, missing };
+}
+
+/**
+ * Vector IDs must be unique across the whole Vectorize index (namespaces
+ * don't scope them), so the scope is part of the hash. Content-addressing
+ * means identical files share vectors across sessions and commits of a repo,
+ * while edited files get fresh IDs instead of overwriting in place.
+ */
+async function chunkId(scope: string, file: HashedFile, chunkIndex: number): Promise<string> {
+  const hash = await hashContent(`${scope}\0${file.path}\0${file.contentHash}\0${chunkIndex}`);
+  return hash.slice(0, 40);
+}
+
+/** Chunk and embed files, stopping once `budget` chunks have been produced. */
+async function embedFiles(
+  scope: string,
+  files: HashedFile[],
+  embeddingModel: EmbeddingModel,
+  budget: number
+): Promise<{ entries: EmbeddingEntry[]; records: VectorRecord[] }> {
+  const pending: Array<{ file: HashedFile; chunk: SourceChunk; id: string }> = [];
+  for (const file of files) {
+    const chunks = chunkFile(file.content);
+    for (let c = 0; c < chunks.length && pending.length < budget; c++) {
+      pending.push({ file, chunk: chunks[c], id: await chunkId(scope, file, c) });
     }
+  }
+
+  const entries: EmbeddingEntry[] = [];
+  const records: VectorRecord[] = [];
 
-    if (fileContents.length === 0) {
-      const emptyIndex: EmbeddingsIndex = {
-        sessionId,
-        userId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        model: MODEL_NAME,
-        dimensions: DIMENSIONS,
-        fileCount: 0,
-        entries: [],
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+
+    const { embeddings } = await embedMany({
+      model: embeddingModel,
+      // A single minified line can blow past the chunk size — clip it
+      values: batch.map((p) => p.chunk.text.slice(0, CHUNK_MAX_CHARS)),
+      maxParallelCalls: EMBED_MAX_PARALLEL,
+    });
+
+    for (let j = 0; j < batch.length; j++) {
+      const { file, chunk, id } = batch[j];
+      const entry: EmbeddingEntry = {
+        id,
+        path: file.path,
+        contentHash: file.contentHash,
+        snippet: chunk.text.slice(0, 200),
+        language: getLanguage(file.path),
+        size: chunk.text.length,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
       };
-      await kv.put(indexKey(userId, sessionId), JSON.stringify(emptyIndex), {
-        expirationTtl: INDEX_TTL,
+      entries.push(entry);
+      records.push({
+        id,
+        values: embeddings[j],
+        metadata: {
+          path: entry.path,
+          startLine: entry.startLine,
+          endLine: entry.endLine,
+          snippet: entry.snippet,
+          language: entry.language,
+        },
       });
-      return emptyIndex;
     }
+  }
 
-    // Generate embeddings in batches
-    const entries: EmbeddingEntry[] = [];
+  return { entries, records };
+}
 
-    for (let i = 0; i < fileContents.length; i += EMBED_BATCH_SIZE) {
-      const batch = fileContents.slice(i, i + EMBED_BATCH_SIZE);
-      const values = batch.map((f) => f.content);
+/**
+ * Split hashed files into chunk entries that can be reused as-is (file hash
+ * unchanged) and files that need fresh embeddings.
+ */
+export function partitionByHash(
+  files: HashedFile[],
+  previous: EmbeddingEntry[]
+): { reused: EmbeddingEntry[]; stale: HashedFile[] } {
+  const byPath = groupByPath(previous);
+  const reused: EmbeddingEntry[] = [];
+  const stale: HashedFile[] = [];
+
+  for (const file of files) {
+    const prev = byPath.get(file.path);
+    if (prev && prev[0].contentHash === file.contentHash) {
+      reused.push(...prev);
+    } else {
+      stale.push(file);
+    }
+  }
 
-      const { embeddings } = await embedMany({
-        model: embeddingModel,
-        values,
-        maxParallelCalls: EMBED_MAX_PARALLEL,
-      });
+  return { reused, stale };
+}
 
-      for (let j = 0; j < batch.length; j++) {
-        const file = batch[j];
-        const contentHash = await hashContent(file.content);
-        entries.push({
-          path: file.path,
-          contentHash,
-          embedding: embeddings[j],
-          snippet: file.content.slice(0, 200),
-          language: getLanguage(file.path),
-          size: file.content.length,
-        });
-      }
-    }
+/* ── Scans ────────────────────────────────────── */
 
-    const now = new Date().toISOString();
-    const index: EmbeddingsIndex = {
-      sessionId,
-      userId,
-      createdAt: now,
-      updatedAt: now,
-      model: MODEL_NAME,
-      dimensions: DIMENSIONS,
-      fileCount: entries.length,
-      entries,
-    };
-
-    await kv.put(indexKey(userId, sessionId), JSON.stringify(index), {
-      expirationTtl: INDEX_TTL,
-    });
+interface ScanResult {
+  entries: EmbeddingEntry[];
+  records: VectorRecord[];
+}
+
+/** Whole-workspace scan, reusing `base` entries whose file hash is unchanged. */
+async function scanWorkspace(
+  sandboxManager: SandboxManager,
+  target: IndexTarget,
+  embeddingModel: EmbeddingModel,
+  base: EmbeddingEntry[]
+): Promise<ScanResult> {
+  const paths = await discoverIndexableFiles(sandboxManager, target.sessionId);
+  const { files } = await readAndHashFiles(sandboxManager, target.sessionId, paths);
+
+  const { reused, stale } = partitionByHash(files, base);
+  const reusedKept = reused.slice(0, MAX_INDEX_CHUNKS);
+  const embedded = await embedFiles(
+    target.scope,
+    stale,
+    embeddingModel,
+    MAX_INDEX_CHUNKS - reusedKept.length
+  );
+
+  // Keep discovery order so the index is stable across rebuilds
+  const byPath = groupByPath([...reusedKept, ...embedded.entries]);
+  const entries = files.flatMap((f) => byPath.get(f.path) ?? []);
+  return { entries, records: embedded.records };
+}
+
+/**
+ * Re-scan only `paths` on top of `base`. Unchanged hashes are skipped,
+ * deleted or now-excluded paths are dropped. Returns null if nothing changed.
+ */
+async function scanPaths(
+  sandboxManager: SandboxManager,
+  target: IndexTarget,
+  embeddingModel: EmbeddingModel,
+  base: EmbeddingEntry[],
+  paths: string[]
+): Promise<ScanResult | null> {
+  const unique = [...new Set(paths)];
+  const indexable = unique.filter(
+    (p) => p.startsWith(`${WORKSPACE_ROOT}/`) && !shouldSkipPath(p)
+  );
+  const { files, missing } = await readAndHashFiles(sandboxManager, target.sessionId, indexable);
+
+  const { stale } = partitionByHash(files, base);
+  const removed = new Set([
+    ...missing,
+    ...unique.filter((p) => !indexable.includes(p)),
+  ]);
+  if (stale.length === 0 && !base.some((e) => removed.has(e.path))) {
+    return null;
+  }
+
+  const byPath = groupByPath(base);
+  for (const path of removed) byPath.delete(path);
+  for (const file of stale) byPath.delete(file.path);
+  const kept = [...byPath.values()].reduce((n, list) => n + list.length, 0);
+
+  const embedded = await embedFiles(
+    target.scope,
+    stale,
+    embeddingModel,
+    Math.max(0, MAX_INDEX_CHUNKS - kept)
+  );
+  // Edited and newly created files go at the end, within the chunk budget
+  for (const [path, list] of groupByPath(embedded.entries)) {
+    byPath.set(path, list);
+  }
+  return { entries: [...byPath.values()].flat(), records: embedded.records };
+}
+
+/**
+ * Write new vectors, persist the session manifest, then release vectors
+ * the previous manifest referenced that nothing references any more.
+ * Upserting first means a failed run never leaves a manifest pointing at
+ * missing vectors.
+ */
+async function commitIndex(
+  kv: KVNamespace,
+  store: VectorStore,
+  target: IndexTarget,
+  scan: ScanResult,
+  previous: EmbeddingsIndex | null,
+  extra: { commitSha?: string; baseSha?: string } = {}
+): Promise<EmbeddingsIndex> {
+  const live = new Set(scan.entries.map((e) => e.id));
+  await store.upsert(scan.records.filter((r) => live.has(r.id)));
+
+  const index = buildManifest(target, scan.entries, {
+    createdAt: previous?.createdAt,
+    ...extra,
+  });
+  await kv.put(indexKey(target.userId, target.sessionId), JSON.stringify(index));
+  await registerSession(kv, target);
+
+  const dropped = (previous?.entries ?? []).map((e) => e.id).filter((id) => !live.has(id));
+  await releaseVectors(kv, store, target.scope, dropped);
+  return index;
+}
 
-    return index;
+/* ── Index building ───────────────────────────── */
+
+/**
+ * Build or refresh a session's index. For repo sessions with no index yet,
+ * the nearest commit snapshot is reused: an exact HEAD match costs nothing,
+ * otherwise only files in `git diff <snapshot>` are re-embedded. Everything
+ * else is a full scan that still skips files whose hash is unchanged.
+ * A clean checkout's result is saved as the snapshot for its HEAD.
+ */
+export async function buildEmbeddingsIndex(
+  sandboxManager: SandboxManager,
+  sessionId: string,
+  userId: string,
+  embeddingModel: EmbeddingModel,
+  kv: KVNamespace,
+  stores: VectorStoreFactory
+): Promise<EmbeddingsIndex> {
+  const lock = await acquireLock(kv, userId, sessionId);
+
+  try {
+    // A full scan covers anything a locked-out re-index queued
+    await takePendingPaths(kv, userId, sessionId);
+    return await buildIndexLocked(sandboxManager, sessionId, userId, embeddingModel, kv, stores);
   } finally {
     await kv.delete(lock);
   }
 }
 
-/* ── Semantic search ──────────────────────────── */
+/** buildEmbeddingsIndex's work, for a caller that already holds the lock */
+async function buildIndexLocked(
+  sandboxManager: SandboxManager,
+  sessionId: string,
+  userId: string,
+  embeddingModel: EmbeddingModel,
+  kv: KVNamespace,
+  stores: VectorStoreFactory
+): Promise<EmbeddingsIndex> {
+  const previous = await loadIndex(kv, userId, sessionId);
+  const target = previous
+    ? { userId, sessionId, scope: scopeOf(previous), repo: previous.repo }
+    : await resolveTarget(kv, userId, sessionId);
+  const store = stores(target.scope);
+
+  const git = target.repo ? await readGitState(sandboxManager, sessionId) : null;
+
+  let scan: ScanResult | null = null;
+  let baseSha: string | undefined;
+  if (!previous && git) {
+    const registry = await loadRegistry(kv, target.scope);
+    const exact = registry?.snapshots.find((s) => s.sha === git.head);
+    const nearest = exact ?? registry?.snapshots[0];
+    const snapshot = nearest
+      ? await loadIndexAt(kv, snapshotKey(target.scope, nearest.sha))
+      : null;
+
+    if (snapshot && nearest) {
+      baseSha = nearest.sha;
+      const changed = exact && git.clean
+        ? []
+        : await changedSince(sandboxManager, sessionId, nearest.sha);
+      if (changed) {
+        scan = (await scanPaths(sandboxManager, target, embeddingModel, snapshot.entries, changed))
+          ?? { entries: snapshot.entries, records: [] };
+      } else {
+        scan = await scanWorkspace(sandboxManager, target, embeddingModel, snapshot.entries);
+      }
+    }
+  }
 
-export function semanticSearch(
-  queryEmbedding: number[],
-  index: EmbeddingsIndex,
-  topK: number
-): SemanticSearchResult[] {
-  if (index.entries.length === 0) return [];
+  if (!scan) {
+    scan = await scanWorkspace(sandboxManager, target, embeddingModel, previous?.entries ?? []);
+  }
+
+  const index = await commitIndex(kv, store, target, scan, previous, {
+    commitSha: git?.head,
+    baseSha,
+  });
+  if (git?.clean) {
+    await saveSnapshot(kv, store, target, git.head, index);
+  }
+  return index;
+}
 
-  const scored = index.entries.map((entry) => ({
-    path: entry.path,
-    score: cosineSimilarity(queryEmbedding, entry.embedding),
-    snippet: entry.snippet,
-    language: entry.language,
-  }));
+/**
+ * Re-index only the given paths (e.g. files touched by Write/Edit tool calls).
+ * Unchanged hashes are skipped, deleted or now-excluded paths are dropped.
+ * Falls back to a full build when the session has no index yet.
+ * When another run holds the index the paths are queued for the next run
+ * instead, and the current index (null if none yet) is returned.
+ */
+export async function reindexEmbeddingsPaths(
+  sandboxManager: SandboxManager,
+  sessionId: string,
+  userId: string,
+  embeddingModel: EmbeddingModel,
+  kv: KVNamespace,
+  stores: VectorStoreFactory,
+  paths: string[]
+): Promise<EmbeddingsIndex | null> {
+  const lock = await tryAcquireLock(kv, userId, sessionId);
+  if (!lock) {
+    await queuePendingPaths(kv, userId, sessionId, paths);
+    return loadIndex(kv, userId, sessionId);
+  }
+
+  try {
+    const pending = await takePendingPaths(kv, userId, sessionId);
+    const previous = await loadIndex(kv, userId, sessionId);
+    if (!previous || pending?.full) {
+      return await buildIndexLocked(sandboxManager, sessionId, userId, embeddingModel, kv, stores);
+    }
 
-  scored.sort((a, b) => b.score - a.score);
-  return scored.slice(0, topK);
+    const target = { userId, sessionId, scope: scopeOf(previous), repo: previous.repo };
+    const changed = [...(pending?.paths ?? []), ...paths];
+    const scan = await scanPaths(sandboxManager, target, embeddingModel, previous.entries, changed);
+    if (!scan) return previous;
+    return await commitIndex(kv, stores(target.scope), target, scan, previous, {
+      commitSha: previous.commitSha,
+      baseSha: previous.baseSha,
+    });
+  } finally {
+    await kv.delete(lock);
+  }
 }
 
-/* ── Helper: search with auto-embed query ─────── */
+/** Remove a session's manifest and every vector only it references. */
+export async function deleteEmbeddingsIndex(
+  kv: KVNamespace,
+  stores: VectorStoreFactory,
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  const index = await loadIndex(kv, userId, sessionId);
+  await kv.delete(indexKey(userId, sessionId));
+  if (!index) return;
+
+  const scope = scopeOf(index);
+  if (index.repo) {
+    const registry = await loadRegistry(kv, scope);
+    if (registry) {
+      registry.sessions = registry.sessions.filter((id) => id !== sessionId);
+      await kv.put(scopeKey(scope), JSON.stringify(registry));
+    }
+  }
+  await releaseVectors(kv, stores(scope), scope, index.entries.map((e) => e.id));
+}
+
+/* ── Semantic search ──────────────────────────── */
 
+/**
+ * Embed the query and return the closest chunks. Returns null when the
+ * session has never been indexed (so callers can prompt for a re-index).
+ */
 export async function searchEmbeddings(
   kv: KVNamespace,
+  stores: VectorStoreFactory,
   userId: string,
   sessionId: string,
   query: string,
   embeddingModel: EmbeddingModel,
   topK: number = 5
 ): Promise<SemanticSearchResult[] | null> {
-  const raw = await kv.get(indexKey(userId, sessionId));
-  if (!raw) return null;
-
-  let index: EmbeddingsIndex;
-  try {
-    index = JSON.parse(raw);
-  } catch {
-    return null;
-  }
+  const index = await loadIndex(kv, userId, sessionId);
+  if (!index) return null;
 
   if (index.entries.length === 0) return [];
 
@@ -290,5 +919,17 @@ export async function searchEmbeddings(
     values: [query],
   });
 
-  return semanticSearch(embeddings[0], index, topK);
+  // The scope is shared with other sessions/commits of the repo — the
+  // store keeps only chunks in this session's manifest before taking topK.
+  const ids = new Set(index.entries.map((e) => e.id));
+  const matches = await stores(scopeOf(index)).query(embeddings[0], topK, (id) => ids.has(id));
+  return matches
+    .map((m) => ({
+      path: m.metadata.path,
+      score: m.score,
+      snippet: m.metadata.snippet,
+      language: m.metadata.language,
+      startLine: m.metadata.startLine,
+      endLine: m.metadata.endLine,
+    }));
 }
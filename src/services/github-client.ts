@@ -0,0 +1,23 @@
+/**
+ * Minimal GitHub REST client for calls made with a user's OAuth token.
+ * Returns the status instead of throwing so callers can branch on 404/422.
+ */
+export async function githubApi<T>(
+  token: string,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ ok: boolean; status: number; data: T | null }> {
+  const res = await fetch(`https://api.github.com${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'VaporForge/1.0',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  });
+  const data = res.status === 204 ? null : ((await res.json().catch(() => null)) as T | null);
+  return { ok: res.ok, status: res.status, data };
+}
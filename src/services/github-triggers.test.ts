@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaskPrompt, matchTrigger, verifySignature, type GithubTaskRef } from './github-triggers';
+
+const trigger = { repo: 'acme/app', label: 'vaporforge', command: '/vf' };
+
+async function sign(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `sha256=${Array.from(new Uint8Array(sig)).map((b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function comment(body: string, association = 'MEMBER') {
+  return {
+    action: 'created',
+    repository: { full_name: 'acme/app' },
+    issue: { number: 7, title: 'Crash on save', body: 'Stack trace…', pull_request: { url: '' } },
+    comment: { body, author_association: association, user: { type: 'User' } },
+  };
+}
+
+describe('github triggers', () => {
+  it('verifies the webhook signature over the raw body', async () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const header = await sign('s3cret', body);
+    expect(await verifySignature('s3cret', body, header)).toBe(true);
+    expect(await verifySignature('other', body, header)).toBe(false);
+    expect(await verifySignature('s3cret', `${body} `, header)).toBe(false);
+    expect(await verifySignature('s3cret', body, null)).toBe(false);
+  });
+
+  it('matches labeled issues and commands from collaborators only', () => {
+    const labeled = {
+      action: 'labeled',
+      label: { name: 'vaporforge' },
+      repository: { full_name: 'acme/app' },
+      issue: { number: 3, title: 'Typo in README', body: 'Says "teh".' },
+    };
+    expect(matchTrigger('issues', labeled, trigger)).toMatchObject({ kind: 'issue', number: 3, request: 'Says "teh".' });
+    expect(matchTrigger('issues', { ...labeled, label: { name: 'bug' } }, trigger)).toBeNull();
+    expect(matchTrigger('issues', { ...labeled, repository: { full_name: 'evil/app' } }, trigger)).toBeNull();
+
+    expect(matchTrigger('issue_comment', comment('/vf fix this'), trigger))
+      .toMatchObject({ kind: 'pull', number: 7, request: 'fix this' });
+    expect(matchTrigger('issue_comment', comment('/vf fix this', 'NONE'), trigger)).toBeNull();
+    expect(matchTrigger('issue_comment', comment('/vfx fix this'), trigger)).toBeNull();
+    expect(matchTrigger('issue_comment', comment('please /vf fix this'), trigger)).toBeNull();
+  });
+
+  it('tells the agent where to push', () => {
+    const ref: GithubTaskRef = {
+      triggerId: 't1',
+      userId: 'u1',
+      repo: 'acme/app',
+      kind: 'issue',
+      number: 3,
+      title: 'Typo in README',
+      branch: 'vf/issue-3',
+      baseBranch: 'main',
+    };
+    const prompt = buildTaskPrompt({ kind: 'issue', number: 3, title: 'Typo in README', request: 'Says "teh".' }, ref);
+    expect(prompt).toContain('acme/app#3');
+    expect(prompt).toContain('`vf/issue-3`');
+  });
+});
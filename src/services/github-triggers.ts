@@ -0,0 +1,430 @@
+/**
+ * GitHub-triggered agent sessions.
+ *
+ * A trigger ties one repository to one VaporForge user. Creating it installs
+ * a repo webhook (with the user's OAuth token) pointing at
+ * /api/github/webhook/{triggerId}. Matching events — an issue labeled with
+ * the trigger's label, or an issue/PR comment starting with its command —
+ * start a fresh session on the repo and queue the request on the
+ * ChatSessionAgent in autonomous mode. When the run ends the agent reports
+ * back here and the result is posted to GitHub as a comment, or as a pull
+ * request when the agent pushed a fix branch for an issue.
+ */
+import { getGithubToken } from '../api/github';
+import { githubApi } from './github-client';
+import { openSecret, sealSecret } from './secret-vault';
+
+/* ── Types ────────────────────────────────────── */
+
+export interface GithubTrigger {
+  id: string;
+  userId: string;
+  /** owner/name */
+  repo: string;
+  /** Issue label that starts a run */
+  label: string;
+  /** Comment prefix that starts a run, e.g. "/vf" */
+  command: string;
+  /** Webhook signing secret, sealed with the user's keyring */
+  secret: string;
+  githubHookId?: number;
+  createdAt: string;
+}
+
+export type GithubTriggerInfo = Omit<GithubTrigger, 'secret'> & { webhookUrl: string };
+
+/** What a matching event asks the agent to do. */
+export interface TriggerMatch {
+  kind: 'issue' | 'pull';
+  number: number;
+  title: string;
+  /** The issue body or the comment text after the command */
+  request: string;
+  /** Extra context: the issue body for comments, the diff hunk for review comments */
+  context?: string;
+  /** Set when the event payload already names the PR head */
+  headRef?: string;
+  headRepo?: string;
+}
+
+/** Carried through the DO queue so the agent can report back on completion. */
+export interface GithubTaskRef {
+  triggerId: string;
+  userId: string;
+  repo: string;
+  kind: 'issue' | 'pull';
+  number: number;
+  title: string;
+  /** Where the agent pushes: vf/issue-{n} for issues, the PR head for pulls */
+  branch: string;
+  baseBranch: string;
+}
+
+/* Webhook payloads — only the fields matchTrigger reads */
+
+interface WebhookIssue {
+  number: number;
+  title?: string;
+  body?: string | null;
+  /** Present when the issue is a pull request */
+  pull_request?: unknown;
+}
+
+interface WebhookComment {
+  body?: string;
+  user?: { type?: string };
+  author_association?: string;
+  path?: string;
+  line?: number | null;
+  diff_hunk?: string;
+}
+
+interface WebhookPull {
+  number: number;
+  title?: string;
+  head?: { ref?: string; repo?: { full_name?: string } | null };
+}
+
+interface IssuesPayload {
+  action?: string;
+  label?: { name?: string };
+  issue: WebhookIssue;
+}
+
+interface IssueCommentPayload {
+  action?: string;
+  issue: WebhookIssue;
+  comment: WebhookComment;
+}
+
+interface ReviewCommentPayload {
+  action?: string;
+  pull_request: WebhookPull;
+  comment: WebhookComment;
+}
+
+export class GithubTriggerError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 | 502 = 400) {
+    super(message);
+    this.name = 'GithubTriggerError';
+  }
+}
+
+/* ── Constants ────────────────────────────────── */
+
+export const DEFAULT_TRIGGER_LABEL = 'vaporforge';
+export const DEFAULT_TRIGGER_COMMAND = '/vf';
+export const TRIGGER_EVENTS = ['issues', 'issue_comment', 'pull_request_review_comment'];
+const MAX_TRIGGERS_PER_USER = 20;
+/** Only people with push access may spend the trigger owner's budget */
+const TRUSTED_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+/** GitHub rejects comment bodies over 65,536 characters */
+const MAX_COMMENT_LENGTH = 60_000;
+const DELIVERY_TTL_SECONDS = 24 * 60 * 60;
+const REPO_RE = /^[\w.-]+\/[\w.-]+$/;
+
+/* ── KV keys (AUTH_KV) ────────────────────────── */
+
+function triggerKey(id: string): string {
+  return `github-trigger:${id}`;
+}
+
+function ownerKey(userId: string, id: string): string {
+  return `github-trigger-owner:${userId}:${id}`;
+}
+
+function deliveryKey(deliveryId: string): string {
+  return `github-delivery:${deliveryId}`;
+}
+
+/* ── GitHub API ───────────────────────────────── */
+
+export async function postComment(token: string, repo: string, number: number, body: string): Promise<void> {
+  const text = body.length > MAX_COMMENT_LENGTH ? `${body.slice(0, MAX_COMMENT_LENGTH)}\n\n…(truncated)` : body;
+  const res = await githubApi(token, 'POST', `/repos/${repo}/issues/${number}/comments`, { body: text });
+  if (!res.ok) console.error(`[github-triggers] comment on ${repo}#${number} failed: HTTP ${res.status}`);
+}
+
+/** Head and base of a pull request, for comments that arrive via the issues API. */
+export async function fetchPullBranches(
+  token: string,
+  repo: string,
+  number: number
+): Promise<{ headRef: string; headRepo: string; baseRef: string } | null> {
+  const res = await githubApi<{ head: { ref: string; repo: { full_name: string } | null }; base: { ref: string } }>(
+    token, 'GET', `/repos/${repo}/pulls/${number}`
+  );
+  if (!res.ok || !res.data) return null;
+  return { headRef: res.data.head.ref, headRepo: res.data.head.repo?.full_name ?? '', baseRef: res.data.base.ref };
+}
+
+/* ── Triggers ─────────────────────────────────── */
+
+function toInfo({ secret: _secret, ...trigger }: GithubTrigger, baseUrl: string): GithubTriggerInfo {
+  return { ...trigger, webhookUrl: webhookUrl(baseUrl, trigger.id) };
+}
+
+function webhookUrl(baseUrl: string, id: string): string {
+  return new URL(`/api/github/webhook/${id}`, baseUrl).toString();
+}
+
+export async function listTriggers(env: Env, userId: string): Promise<GithubTriggerInfo[]> {
+  const page = await env.AUTH_KV.list({ prefix: `github-trigger-owner:${userId}:` });
+  const ids = page.keys.map((k) => k.name.slice(k.name.lastIndexOf(':') + 1));
+  const triggers = await Promise.all(ids.map((id) => getTrigger(env.AUTH_KV, id)));
+  return triggers
+    .filter((t): t is GithubTrigger => t !== null)
+    .map((t) => toInfo(t, env.WORKER_BASE_URL))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getTrigger(kv: KVNamespace, id: string): Promise<GithubTrigger | null> {
+  return kv.get<GithubTrigger>(triggerKey(id), 'json');
+}
+
+/**
+ * Register a trigger and install its webhook on the repo. Returns the
+ * signing secret once so it can be configured by hand if installing fails.
+ */
+export async function createTrigger(
+  env: Env,
+  userId: string,
+  input: { repo: string; label?: string; command?: string }
+): Promise<{ trigger: GithubTriggerInfo; secret: string; installed: boolean }> {
+  const repo = input.repo.trim().replace(/^https:\/\/github\.com\//, '').replace(/\.git$/, '');
+  if (!REPO_RE.test(repo)) throw new GithubTriggerError('repo must look like owner/name');
+
+  const existing = await listTriggers(env, userId);
+  if (existing.length >= MAX_TRIGGERS_PER_USER) {
+    throw new GithubTriggerError(`You can have at most ${MAX_TRIGGERS_PER_USER} GitHub triggers`, 409);
+  }
+  if (existing.some((t) => t.repo.toLowerCase() === repo.toLowerCase())) {
+    throw new GithubTriggerError(`${repo} already has a trigger`, 409);
+  }
+
+  const token = await getGithubToken(env, userId);
+  if (!token) throw new GithubTriggerError('GitHub not connected', 400);
+
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const secret = Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+  const trigger: GithubTrigger = {
+    id: crypto.randomUUID(),
+    userId,
+    repo,
+    label: input.label?.trim() || DEFAULT_TRIGGER_LABEL,
+    command: input.command?.trim() || DEFAULT_TRIGGER_COMMAND,
+    secret: await sealSecret(env, userId, secret),
+    createdAt: new Date().toISOString(),
+  };
+
+  const hook = await githubApi<{ id: number }>(token, 'POST', `/repos/${repo}/hooks`, {
+    name: 'web',
+    active: true,
+    events: TRIGGER_EVENTS,
+    config: { url: webhookUrl(env.WORKER_BASE_URL, trigger.id), content_type: 'json', secret },
+  });
+  if (hook.ok && hook.data) trigger.githubHookId = hook.data.id;
+  else console.warn(`[github-triggers] installing webhook on ${repo} failed: HTTP ${hook.status}`);
+
+  await env.AUTH_KV.put(triggerKey(trigger.id), JSON.stringify(trigger));
+  await env.AUTH_KV.put(ownerKey(userId, trigger.id), '');
+  return { trigger: toInfo(trigger, env.WORKER_BASE_URL), secret, installed: !!trigger.githubHookId };
+}
+
+/** Remove a trigger and, best effort, its webhook on GitHub. */
+export async function deleteTrigger(env: Env, userId: string, id: string): Promise<void> {
+  const trigger = await getTrigger(env.AUTH_KV, id);
+  if (!trigger || trigger.userId !== userId) throw new GithubTriggerError('Trigger not found', 404);
+
+  const token = trigger.githubHookId ? await getGithubToken(env, userId) : null;
+  if (token) {
+    await githubApi(token, 'DELETE', `/repos/${trigger.repo}/hooks/${trigger.githubHookId}`).catch(() => {});
+  }
+  await env.AUTH_KV.delete(triggerKey(id));
+  await env.AUTH_KV.delete(ownerKey(userId, id));
+}
+
+/* ── Inbound events ───────────────────────────── */
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Check `X-Hub-Signature-256: sha256=<hex>` against the raw body. */
+export async function verifySignature(secret: string, body: string, header: string | null): Promise<boolean> {
+  if (!header?.startsWith('sha256=')) return false;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const expected = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  const actual = header.slice('sha256='.length);
+  if (actual.length !== expected.length) return false;
+  // Constant-time compare
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function triggerSecret(env: Env, trigger: GithubTrigger): Promise<string> {
+  return openSecret(env, trigger.userId, trigger.secret);
+}
+
+/** True the first time a delivery id is seen — GitHub redelivers on timeouts. */
+export async function claimDelivery(kv: KVNamespace, deliveryId: string): Promise<boolean> {
+  if (await kv.get(deliveryKey(deliveryId))) return false;
+  await kv.put(deliveryKey(deliveryId), '1', { expirationTtl: DELIVERY_TTL_SECONDS });
+  return true;
+}
+
+/** The comment text after the command, or null if it doesn't start with it. */
+function commandText(body: unknown, command: string): string | null {
+  if (typeof body !== 'string') return null;
+  const trimmed = body.trim();
+  if (trimmed !== command && !trimmed.startsWith(`${command} `) && !trimmed.startsWith(`${command}\n`)) return null;
+  return trimmed.slice(command.length).trim();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function hasNumber(value: unknown): boolean {
+  return isObject(value) && typeof value.number === 'number';
+}
+
+function isIssuesPayload(payload: unknown): payload is IssuesPayload {
+  return isObject(payload) && hasNumber(payload.issue);
+}
+
+function isIssueCommentPayload(payload: unknown): payload is IssueCommentPayload {
+  return isObject(payload) && hasNumber(payload.issue) && isObject(payload.comment);
+}
+
+function isReviewCommentPayload(payload: unknown): payload is ReviewCommentPayload {
+  return isObject(payload) && hasNumber(payload.pull_request) && isObject(payload.comment);
+}
+
+/** Whether a comment may start a run, and the request text after the command. */
+function trustedCommand(action: string | undefined, comment: WebhookComment, command: string): string | null {
+  if (action !== 'created' || comment.user?.type === 'Bot') return null;
+  if (!TRUSTED_ASSOCIATIONS.includes(comment.author_association ?? '')) return null;
+  return commandText(comment.body, command);
+}
+
+/**
+ * Decide whether a webhook event should start a run. Comments only count
+ * from people with push access, and never from bots.
+ */
+export function matchTrigger(event: string, payload: unknown, trigger: Pick<GithubTrigger, 'repo' | 'label' | 'command'>): TriggerMatch | null {
+  const repository = isObject(payload) && isObject(payload.repository) ? payload.repository : {};
+  if (String(repository.full_name ?? '').toLowerCase() !== trigger.repo.toLowerCase()) return null;
+
+  if (event === 'issues') {
+    if (!isIssuesPayload(payload)) return null;
+    const { action, label, issue } = payload;
+    if (action !== 'labeled' || label?.name !== trigger.label || issue.pull_request) return null;
+    return {
+      kind: 'issue',
+      number: issue.number,
+      title: issue.title ?? '',
+      request: issue.body ?? '',
+    };
+  }
+
+  if (event === 'pull_request_review_comment') {
+    if (!isReviewCommentPayload(payload)) return null;
+    const { comment, pull_request: pr } = payload;
+    const text = trustedCommand(payload.action, comment, trigger.command);
+    if (text === null) return null;
+    return {
+      kind: 'pull',
+      number: pr.number,
+      title: pr.title ?? '',
+      request: text,
+      context: `Review comment on ${comment.path}${comment.line ? `:${comment.line}` : ''}:\n${comment.diff_hunk ?? ''}`,
+      headRef: pr.head?.ref,
+      headRepo: pr.head?.repo?.full_name,
+    };
+  }
+
+  if (event !== 'issue_comment' || !isIssueCommentPayload(payload)) return null;
+  const { comment, issue } = payload;
+  const text = trustedCommand(payload.action, comment, trigger.command);
+  if (text === null) return null;
+  return {
+    kind: issue.pull_request ? 'pull' : 'issue',
+    number: issue.number,
+    title: issue.title ?? '',
+    request: text,
+    context: issue.body ?? '',
+  };
+}
+
+/** The prompt sent to the agent, including where to push its work. */
+export function buildTaskPrompt(match: TriggerMatch, ref: GithubTaskRef): string {
+  const noun = match.kind === 'issue' ? 'issue' : 'pull request';
+  const lines = [
+    `You were asked to work on GitHub ${noun} ${ref.repo}#${match.number}: "${match.title}".`,
+    '',
+    match.request || '(no description)',
+  ];
+  if (match.context) lines.push('', `Context from the ${noun}:`, match.context);
+  lines.push(
+    '',
+    match.kind === 'issue'
+      ? `If you change files, commit them on a new branch named \`${ref.branch}\` and push it to origin. Do not open a pull request yourself.`
+      : `You are on the pull request branch \`${ref.branch}\`. If you change files, commit them and push to that branch.`,
+    'Finish with a short summary of what you found and changed — it will be posted on GitHub.',
+  );
+  return lines.join('\n');
+}
+
+/* ── Completion ───────────────────────────────── */
+
+/**
+ * Post a finished run back to GitHub. For issues, a pushed fix branch becomes
+ * a pull request; otherwise the agent's summary is posted as a comment.
+ * Never throws.
+ */
+export async function completeGithubTask(
+  env: Env,
+  ref: GithubTaskRef,
+  outcome: { status: 'succeeded' | 'failed'; resultText?: string; error?: string; sessionId?: string }
+): Promise<void> {
+  try {
+    const token = await getGithubToken(env, ref.userId);
+    if (!token) return;
+    const footer = outcome.sessionId ? `\n\n<sub>VaporForge session \`${outcome.sessionId.slice(0, 8)}\`</sub>` : '';
+
+    if (outcome.status === 'failed') {
+      await postComment(token, ref.repo, ref.number, `VaporForge couldn't finish this: ${outcome.error ?? 'unknown error'}${footer}`);
+      return;
+    }
+
+    const summary = outcome.resultText?.trim() || 'The agent finished without a summary.';
+    if (ref.kind === 'issue') {
+      const branch = await githubApi(token, 'GET', `/repos/${ref.repo}/branches/${encodeURIComponent(ref.branch)}`);
+      if (branch.ok) {
+        const pr = await githubApi<{ html_url: string }>(token, 'POST', `/repos/${ref.repo}/pulls`, {
+          title: `Fix #${ref.number}: ${ref.title}`.slice(0, 250),
+          head: ref.branch,
+          base: ref.baseBranch,
+          body: `${summary}\n\nCloses #${ref.number}${footer}`,
+        });
+        if (pr.ok && pr.data) {
+          await postComment(token, ref.repo, ref.number, `Opened ${pr.data.html_url} with a proposed fix.${footer}`);
+          return;
+        }
+        console.warn(`[github-triggers] opening PR for ${ref.repo}#${ref.number} failed: HTTP ${pr.status}`);
+      }
+    }
+    await postComment(token, ref.repo, ref.number, `${summary}${footer}`);
+  } catch (err) {
+    console.error('[github-triggers] reporting run failed:', err);
+  }
+}
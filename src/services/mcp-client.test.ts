@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { McpRequestError, SseParser, exchangeMcpServer, probeMcpServer, readResponse, requestMcpServer } from './mcp-client';
+
+function sse(...frames: string[]): Response {
+  return new Response(frames.join(''), { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function frame(message: unknown, event?: string): string {
+  return `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(message)}\n\n`;
+}
+
+const tools = [{ name: 'search', description: 'Search docs', inputSchema: { type: 'object' } }];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('mcp client', () => {
+  it('parses events split across chunks', () => {
+    const parser = new SseParser();
+    expect(parser.feed(': keepalive\r\nevent: endpoint\r\ndata: /messages')).toEqual([]);
+    expect(parser.feed('?session=1\r\n\r\ndata: {"a":\ndata: 1}\n\n')).toEqual([
+      { event: 'endpoint', data: '/messages?session=1' },
+      { event: 'message', data: '{"a":\n1}' },
+    ]);
+  });
+
+  it('reads the response out of an event stream, skipping notifications', async () => {
+    const res = sse(
+      frame({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } }),
+      frame({ jsonrpc: '2.0', id: 3, result: { ok: true } }, 'message'),
+    );
+    expect(await readResponse(res, 3)).toEqual({ jsonrpc: '2.0', id: 3, result: { ok: true } });
+  });
+
+  it('handshakes and lists tools over Streamable HTTP', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      if (body.method === 'initialize') {
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2025-03-26' } }), {
+          headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'sess-1' },
+        });
+      }
+      if (body.method === 'tools/list') return sse(frame({ jsonrpc: '2.0', id: body.id, result: { tools } }));
+      return new Response(null, { status: 202 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const probe = await probeMcpServer({ transport: 'http', url: 'https://mcp.example.com/mcp' }, 1000);
+    expect(probe.httpStatus).toBe(200);
+    expect(probe.toolSchemas).toEqual(tools);
+
+    const [, listInit] = fetchMock.mock.calls[2] as unknown as [string, RequestInit];
+    expect((listInit.headers as Record<string, string>)['Mcp-Session-Id']).toBe('sess-1');
+  });
+
+  it('reports auth failures without listing', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('unauthorized', { status: 401 })));
+    const probe = await probeMcpServer({ transport: 'http', url: 'https://mcp.example.com/mcp' }, 1000);
+    expect(probe.httpStatus).toBe(401);
+    expect(probe.toolSchemas).toBeUndefined();
+  });
+
+  it('posts to the announced endpoint and reads answers off the legacy SSE stream', async () => {
+    const encoder = new TextEncoder();
+    let push: (text: string) => void = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        push = (text) => controller.enqueue(encoder.encode(text));
+        push('event: endpoint\ndata: /messages?session=abc\n\n');
+      },
+    });
+
+    const posted: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string | URL, init?: RequestInit) => {
+      if (!init?.method) return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      posted.push(String(url));
+      const body = JSON.parse(init.body as string);
+      if (body.method === 'initialize') push(frame({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2024-11-05' } }, 'message'));
+      if (body.method === 'tools/list') push(frame({ jsonrpc: '2.0', id: body.id, result: { tools } }, 'message'));
+      return new Response('Accepted', { status: 202 });
+    }));
+
+    const probe = await probeMcpServer({ transport: 'sse', url: 'https://mcp.example.com/sse' }, 1000);
+    expect(probe.toolSchemas).toEqual(tools);
+    expect(posted).toHaveLength(3);
+    expect(posted[0]).toBe('https://mcp.example.com/messages?session=abc');
+  });
+
+  it('lists resources and prompts only when the server advertises them', async () => {
+    const methods: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      methods.push(body.method);
+      const reply = (result: unknown) => new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, result }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (body.method === 'initialize') return reply({ protocolVersion: '2025-03-26', capabilities: { tools: {}, prompts: {} } });
+      if (body.method === 'tools/list') return reply({ tools });
+      if (body.method === 'prompts/list') {
+        return reply({ prompts: [{ name: 'review', arguments: [{ name: 'file', required: true }, { name: 'tone', extra: 1 }] }] });
+      }
+      return new Response(null, { status: 202 });
+    }));
+
+    const probe = await probeMcpServer({ transport: 'http', url: 'https://mcp.example.com/mcp' }, 1000);
+    expect(methods).not.toContain('resources/list');
+    expect(probe.resources).toBeUndefined();
+    expect(probe.prompts).toEqual([{ name: 'review', arguments: [{ name: 'file', required: true }, { name: 'tone' }] }]);
+  });
+
+  it('surfaces JSON-RPC errors from a single request', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      if (body.method === 'initialize') {
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { capabilities: { resources: {} } } }));
+      }
+      if (body.method === 'resources/read') {
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, error: { code: -32002, message: 'Resource not found' } }));
+      }
+      return new Response(null, { status: 202 });
+    }));
+
+    const read = requestMcpServer({ transport: 'http', url: 'https://mcp.example.com/mcp' }, 'resources/read', { uri: 'file:///x' }, 1000);
+    await expect(read).rejects.toThrow(McpRequestError);
+    await expect(read).rejects.toThrow('Resource not found');
+  });
+
+  it('returns the raw tools/call exchange, tool errors included', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      if (body.method === 'initialize') {
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { capabilities: { tools: {} } } }));
+      }
+      if (body.method === 'tools/call') {
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, error: { code: -32602, message: 'Unknown tool' } }));
+      }
+      return new Response(null, { status: 202 });
+    }));
+
+    const exchange = await exchangeMcpServer(
+      { transport: 'http', url: 'https://mcp.example.com/mcp' },
+      'tools/call',
+      { name: 'nope', arguments: { q: 1 } },
+      1000,
+    );
+    expect(exchange.request).toEqual({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'nope', arguments: { q: 1 } } });
+    expect(exchange.response?.error?.message).toBe('Unknown tool');
+    expect(exchange.httpStatus).toBe(200);
+    expect(exchange.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+});
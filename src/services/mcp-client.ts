@@ -0,0 +1,481 @@
+/**
+ * Minimal MCP client for the Worker, used to ping servers, cache what they
+ * offer (tools, resources, prompts) and read resources and prompts. Speaks both HTTP transports:
+ *
+ * - Streamable HTTP: JSON-RPC POSTed to the server URL; the answer is either
+ *   a JSON body or an event stream that ends with it.
+ * - Legacy HTTP+SSE: a GET event stream first announces (`endpoint` event)
+ *   where to POST requests; every answer then arrives on that stream.
+ */
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+}
+
+export interface McpToolSchema {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+const PROTOCOL_VERSION = '2025-03-26';
+
+/** Incremental text/event-stream parser: feed it chunks, get complete events back */
+export class SseParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+
+  feed(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() ?? '';
+
+    const events: SseEvent[] = [];
+    for (const line of lines) {
+      if (line === '') {
+        if (this.data.length > 0) events.push({ event: this.event || 'message', data: this.data.join('\n') });
+        this.event = '';
+        this.data = [];
+      } else if (line.startsWith(':')) {
+        continue;
+      } else {
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') this.event = value;
+        else if (field === 'data') this.data.push(value);
+      }
+    }
+    return events;
+  }
+}
+
+/** The JSON-RPC message an SSE `message` event carries, if it is one */
+export function eventMessage(event: SseEvent): JsonRpcMessage | null {
+  if (event.event !== 'message') return null;
+  try {
+    const message = JSON.parse(event.data) as JsonRpcMessage;
+    return typeof message === 'object' && message !== null ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether `message` answers the request with `id` */
+export function isResponseTo(message: JsonRpcMessage, id: string | number): boolean {
+  return message.id === id && !message.method && (message.result !== undefined || message.error !== undefined);
+}
+
+/** Reads SSE events off a response body, one at a time */
+class EventReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private decoder = new TextDecoder();
+  private parser = new SseParser();
+  private queued: SseEvent[] = [];
+
+  constructor(body: ReadableStream<Uint8Array>, signal?: AbortSignal) {
+    this.reader = body.getReader();
+    // Ends a pending read (as end of stream) when the probe times out
+    signal?.addEventListener('abort', () => this.close());
+  }
+
+  async next(): Promise<SseEvent | null> {
+    while (this.queued.length === 0) {
+      const { done, value } = await this.reader.read();
+      if (done) return null;
+      this.queued.push(...this.parser.feed(this.decoder.decode(value, { stream: true })));
+    }
+    return this.queued.shift() ?? null;
+  }
+
+  /** Skip ahead to the response for `id`, ignoring notifications */
+  async response(id: string | number): Promise<JsonRpcMessage | null> {
+    for (let event = await this.next(); event; event = await this.next()) {
+      const message = eventMessage(event);
+      if (message && isResponseTo(message, id)) return message;
+    }
+    return null;
+  }
+
+  close(): void {
+    this.reader.cancel().catch(() => {});
+  }
+}
+
+/** The answer to a Streamable HTTP POST, from a JSON body or an event stream */
+export async function readResponse(res: Response, id: string | number): Promise<JsonRpcMessage | null> {
+  const contentType = res.headers.get('Content-Type') ?? '';
+  if (contentType.includes('text/event-stream') && res.body) {
+    const reader = new EventReader(res.body);
+    try {
+      return await reader.response(id);
+    } finally {
+      reader.close();
+    }
+  }
+  const text = await res.text();
+  if (!text.trim()) return null;
+  try {
+    return JSON.parse(text) as JsonRpcMessage;
+  } catch {
+    return null;
+  }
+}
+
+/** Keep only the fields the tool cache stores */
+export function toToolSchemas(tools: unknown): McpToolSchema[] | null {
+  if (!Array.isArray(tools)) return null;
+  return tools
+    .filter((t): t is McpToolSchema => typeof t === 'object' && t !== null && typeof t.name === 'string')
+    .map((t) => ({
+      name: t.name,
+      ...(t.description ? { description: t.description } : {}),
+      ...(t.inputSchema ? { inputSchema: t.inputSchema } : {}),
+    }));
+}
+
+export interface McpProbeTarget {
+  transport: 'http' | 'sse';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export interface McpProbeResult {
+  /** Status of the first request — 401/403 mean the server wants auth */
+  httpStatus: number;
+  pingMs: number;
+  /** Undefined when the server answered but the handshake or listing failed */
+  toolSchemas?: McpToolSchema[];
+  /** Only listed when the server advertises the resources capability */
+  resources?: McpResource[];
+  /** Only listed when the server advertises the prompts capability */
+  prompts?: McpPrompt[];
+}
+
+export class McpRequestError extends Error {
+  constructor(message: string, public status: 401 | 502 = 502) {
+    super(message);
+    this.name = 'McpRequestError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Keep only the fields the resource cache stores */
+export function toResources(resources: unknown): McpResource[] | null {
+  if (!Array.isArray(resources)) return null;
+  return resources
+    .filter((r): r is McpResource => isObject(r) && typeof r.uri === 'string' && typeof r.name === 'string')
+    .map((r) => ({
+      uri: r.uri,
+      name: r.name,
+      ...(r.description ? { description: r.description } : {}),
+      ...(r.mimeType ? { mimeType: r.mimeType } : {}),
+    }));
+}
+
+/** Keep only the fields the prompt cache stores */
+export function toPrompts(prompts: unknown): McpPrompt[] | null {
+  if (!Array.isArray(prompts)) return null;
+  return prompts
+    .filter((p): p is McpPrompt => isObject(p) && typeof p.name === 'string')
+    .map((p) => {
+      const args = Array.isArray(p.arguments)
+        ? p.arguments
+          .filter((a): a is McpPromptArgument => isObject(a) && typeof a.name === 'string')
+          .map((a) => ({
+            name: a.name,
+            ...(a.description ? { description: a.description } : {}),
+            ...(a.required ? { required: true } : {}),
+          }))
+        : [];
+      return {
+        name: p.name,
+        ...(p.description ? { description: p.description } : {}),
+        ...(args.length > 0 ? { arguments: args } : {}),
+      };
+    });
+}
+
+function request(id: number, method: string, params: Record<string, unknown> = {}): JsonRpcMessage {
+  return { jsonrpc: '2.0', id, method, params };
+}
+
+const INITIALIZE_PARAMS = {
+  protocolVersion: PROTOCOL_VERSION,
+  capabilities: {},
+  clientInfo: { name: 'vaporforge', version: '1.0.0' },
+};
+
+const INITIALIZED: JsonRpcMessage = { jsonrpc: '2.0', method: 'notifications/initialized' };
+
+/** One request as sent, and its response — null when the server gave none */
+export interface McpCall {
+  request: JsonRpcMessage;
+  response: JsonRpcMessage | null;
+}
+
+/** A server after the initialize handshake, taking one request at a time */
+interface McpConnection {
+  httpStatus: number;
+  pingMs: number;
+  /** From the initialize result; undefined when the handshake failed */
+  capabilities?: Record<string, unknown>;
+  call(method: string, params?: Record<string, unknown>): Promise<McpCall>;
+  close(): void;
+}
+
+function failedConnection(httpStatus: number, pingMs: number, close = () => {}): McpConnection {
+  return {
+    httpStatus,
+    pingMs,
+    call: async (method, params) => ({ request: request(0, method, params), response: null }),
+    close,
+  };
+}
+
+function capabilitiesOf(initResult: JsonRpcMessage): Record<string, unknown> {
+  const capabilities = initResult.result?.capabilities;
+  return isObject(capabilities) ? capabilities : {};
+}
+
+async function connectStreamableHttp(target: McpProbeTarget, signal: AbortSignal): Promise<McpConnection> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+    ...target.headers,
+  };
+  const post = (body: JsonRpcMessage) =>
+    fetch(target.url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+
+  const start = Date.now();
+  const init = await post(request(1, 'initialize', INITIALIZE_PARAMS));
+  const pingMs = Date.now() - start;
+  if (!init.ok) {
+    await init.body?.cancel();
+    return failedConnection(init.status, pingMs);
+  }
+
+  const initResult = await readResponse(init, 1);
+  if (!initResult?.result) return failedConnection(init.status, pingMs);
+
+  const sessionId = init.headers.get('Mcp-Session-Id');
+  if (sessionId) headers['Mcp-Session-Id'] = sessionId;
+  headers['Mcp-Protocol-Version'] = String(initResult.result.protocolVersion ?? PROTOCOL_VERSION);
+  await (await post(INITIALIZED)).body?.cancel();
+
+  let nextId = 2;
+  return {
+    httpStatus: init.status,
+    pingMs,
+    capabilities: capabilitiesOf(initResult),
+    async call(method, params) {
+      const id = nextId++;
+      const sent = request(id, method, params);
+      const res = await post(sent);
+      if (!res.ok) {
+        await res.body?.cancel();
+        return { request: sent, response: null };
+      }
+      return { request: sent, response: await readResponse(res, id) };
+    },
+    close() {},
+  };
+}
+
+async function connectLegacySse(target: McpProbeTarget, signal: AbortSignal): Promise<McpConnection> {
+  const start = Date.now();
+  const stream = await fetch(target.url, {
+    headers: { Accept: 'text/event-stream', ...target.headers },
+    signal,
+  });
+  if (!stream.ok || !stream.body) {
+    await stream.body?.cancel();
+    return failedConnection(stream.status, Date.now() - start);
+  }
+
+  const reader = new EventReader(stream.body, signal);
+  const close = () => reader.close();
+  try {
+    let endpoint: URL | null = null;
+    while (!endpoint) {
+      const event = await reader.next();
+      if (!event) break;
+      if (event.event === 'endpoint') endpoint = new URL(event.data.trim(), target.url);
+    }
+    const pingMs = Date.now() - start;
+    // The stream decides where requests go — never let it point elsewhere
+    if (!endpoint || endpoint.origin !== new URL(target.url).origin) {
+      close();
+      return failedConnection(stream.status, pingMs);
+    }
+
+    const post = async (body: JsonRpcMessage) => {
+      const res = await fetch(endpoint!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...target.headers },
+        body: JSON.stringify(body),
+        signal,
+      });
+      await res.body?.cancel();
+      return res.ok;
+    };
+
+    const initResult = (await post(request(1, 'initialize', INITIALIZE_PARAMS))) ? await reader.response(1) : null;
+    if (!initResult?.result) {
+      close();
+      return failedConnection(stream.status, pingMs);
+    }
+    await post(INITIALIZED);
+
+    let nextId = 2;
+    return {
+      httpStatus: stream.status,
+      pingMs,
+      capabilities: capabilitiesOf(initResult),
+      async call(method, params) {
+        const id = nextId++;
+        const sent = request(id, method, params);
+        return { request: sent, response: (await post(sent)) ? await reader.response(id) : null };
+      },
+      close,
+    };
+  } catch (err) {
+    close();
+    throw err;
+  }
+}
+
+/** Connect, run `use` and disconnect, all within `timeoutMs` */
+async function withConnection<T>(
+  target: McpProbeTarget,
+  timeoutMs: number,
+  use: (connection: McpConnection) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const connection = target.transport === 'sse'
+      ? await connectLegacySse(target, controller.signal)
+      : await connectStreamableHttp(target, controller.signal);
+    try {
+      return await use(connection);
+    } finally {
+      connection.close();
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Connect to an MCP server, run the initialize handshake and list its tools,
+ * plus its resources and prompts when it advertises them.
+ * Throws on network errors and when `timeoutMs` runs out.
+ */
+export async function probeMcpServer(target: McpProbeTarget, timeoutMs: number): Promise<McpProbeResult> {
+  return withConnection(target, timeoutMs, async (connection) => {
+    const { httpStatus, pingMs, capabilities } = connection;
+    if (!capabilities) return { httpStatus, pingMs };
+
+    const probe: McpProbeResult = {
+      httpStatus,
+      pingMs,
+      toolSchemas: toToolSchemas((await connection.call('tools/list')).response?.result?.tools) ?? undefined,
+    };
+    if (capabilities.resources) {
+      probe.resources = toResources((await connection.call('resources/list')).response?.result?.resources) ?? undefined;
+    }
+    if (capabilities.prompts) {
+      probe.prompts = toPrompts((await connection.call('prompts/list')).response?.result?.prompts) ?? undefined;
+    }
+    return probe;
+  });
+}
+
+export interface McpExchange extends McpCall {
+  /** Status of the initialize request */
+  httpStatus: number;
+  /** Handshake round trip */
+  pingMs: number;
+  /** Round trip of the request itself */
+  latencyMs: number;
+}
+
+/**
+ * Send one request on a fresh connection and return it with the raw
+ * response, JSON-RPC errors included. Throws McpRequestError when the
+ * server refuses the handshake.
+ */
+export async function exchangeMcpServer(
+  target: McpProbeTarget,
+  method: string,
+  params: Record<string, unknown>,
+  timeoutMs: number
+): Promise<McpExchange> {
+  return withConnection(target, timeoutMs, async (connection) => {
+    if (!connection.capabilities) {
+      if (connection.httpStatus === 401 || connection.httpStatus === 403) {
+        throw new McpRequestError('MCP server requires authentication', 401);
+      }
+      throw new McpRequestError(`MCP server handshake failed (HTTP ${connection.httpStatus})`);
+    }
+    const start = Date.now();
+    const call = await connection.call(method, params);
+    return {
+      ...call,
+      httpStatus: connection.httpStatus,
+      pingMs: connection.pingMs,
+      latencyMs: Date.now() - start,
+    };
+  });
+}
+
+/**
+ * Send one request (e.g. resources/read, prompts/get) on a fresh connection
+ * and return its result. Throws McpRequestError when the server refuses the
+ * handshake or answers with an error.
+ */
+export async function requestMcpServer(
+  target: McpProbeTarget,
+  method: string,
+  params: Record<string, unknown>,
+  timeoutMs: number
+): Promise<Record<string, unknown>> {
+  const { response } = await exchangeMcpServer(target, method, params, timeoutMs);
+  if (!response) throw new McpRequestError(`MCP server did not answer ${method}`);
+  if (response.error) throw new McpRequestError(response.error.message || `${method} failed`);
+  return response.result ?? {};
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { McpServerConfig } from '../types';
+import {
+  appliesToRepo,
+  calledToolName,
+  isOnDemand,
+  rateLimitedResult,
+  restrictedTools,
+  sdkToolName,
+  takeCallSlot,
+} from './mcp-policy';
+
+function server(overrides: Partial<McpServerConfig> = {}): McpServerConfig {
+  return { name: 'linear', transport: 'http', url: 'https://mcp.linear.app/mcp', enabled: true, addedAt: '', ...overrides };
+}
+
+describe('mcp policy', () => {
+  it('injects project-scoped servers only into matching repos', () => {
+    expect(appliesToRepo(server(), undefined)).toBe(true);
+
+    const scoped = server({ scope: 'project', gitRepo: 'github.com/acme/app' });
+    expect(appliesToRepo(scoped, 'https://github.com/acme/app.git')).toBe(true);
+    expect(appliesToRepo(scoped, 'https://github.com/acme/other')).toBe(false);
+    expect(appliesToRepo(scoped, undefined)).toBe(false);
+    expect(appliesToRepo(server({ scope: 'project' }), 'https://github.com/acme/app')).toBe(false);
+    expect(appliesToRepo(server({ scope: 'project', gitRepo: 'github.com/acme/*' }), 'https://github.com/acme/api')).toBe(true);
+  });
+
+  it('loads on-demand servers lazily and auto servers once they are large', () => {
+    expect(isOnDemand(server())).toBe(false);
+    expect(isOnDemand(server({ mode: 'on-demand' }))).toBe(true);
+    expect(isOnDemand(server({ mode: 'auto', toolCount: 4 }))).toBe(false);
+    expect(isOnDemand(server({ mode: 'auto', toolCount: 40 }))).toBe(true);
+  });
+
+  it('keeps only deny and ask tool policies', () => {
+    const db = server({ toolPolicy: { query: 'allow', delete_database: 'deny', migrate: 'ask' } });
+    expect(restrictedTools(db)).toEqual({ delete_database: 'deny', migrate: 'ask' });
+    expect(restrictedTools(server())).toEqual({});
+    expect(sdkToolName('db', 'delete_database')).toBe('mcp__db__delete_database');
+
+    expect(calledToolName({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'migrate' } })).toBe('migrate');
+    expect(calledToolName({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).toBeUndefined();
+  });
+
+  it('allows maxPerMinute calls in any sliding minute', () => {
+    const calls: number[] = [];
+    expect(takeCallSlot(calls, 2, 0)).toBe(0);
+    expect(takeCallSlot(calls, 2, 10_000)).toBe(0);
+    expect(takeCallSlot(calls, 2, 30_000)).toBe(30_000);
+    expect(takeCallSlot(calls, 2, 60_000)).toBe(0);
+    expect(calls).toEqual([10_000, 60_000]);
+
+    const result = rateLimitedResult(7, 'linear', 2, 30_000) as { id: number; result: { isError: boolean; content: Array<{ text: string }> } };
+    expect(result.id).toBe(7);
+    expect(result.result.isError).toBe(true);
+    expect(result.result.content[0].text).toContain('Retry in 30s');
+  });
+});
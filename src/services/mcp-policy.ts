@@ -0,0 +1,151 @@
+/**
+ * Which MCP servers a session gets, and how.
+ *
+ * - scope 'project' servers only reach sessions whose repo matches `gitRepo`
+ *   (same pattern syntax as project-scoped secrets).
+ * - mode 'on-demand' servers are left out of ~/.claude.json and exposed
+ *   through the mcp-catalog server, which lists and calls their tools on
+ *   request. 'auto' behaves like 'always' until the cached tool list is too
+ *   large to be worth loading up front.
+ * - rateLimit.maxPerMinute caps tools/call per server. Limited servers are
+ *   routed through the in-container proxy, which enforces the window;
+ *   the relay route enforces it again server-side.
+ * - toolPolicy marks single tools 'deny' or 'ask'. claude-agent.js enforces
+ *   it in canUseTool (keyed by SDK tool name); the proxy refuses denied
+ *   tools on the servers it routes, which covers catalog calls.
+ */
+import type { McpServerConfig } from '../types';
+import { matchesRepoPattern } from './user-secrets';
+
+/** In-container proxy (mcp-relay-proxy.js) */
+export const MCP_PROXY_ORIGIN = 'http://127.0.0.1:9788';
+
+/** Routing table the proxy re-reads on every request */
+export const MCP_PROXY_CONFIG_PATH = '/root/.vf-mcp-proxy.json';
+
+/** Name of the built-in server that fronts on-demand servers */
+export const MCP_CATALOG_SERVER = 'mcp-catalog';
+
+/** 'auto' servers with more cached tools than this are loaded on demand */
+export const AUTO_ON_DEMAND_TOOL_LIMIT = 15;
+
+const RATE_WINDOW_MS = 60_000;
+
+/** Matches the session-mcp config's lifetime; each run refreshes it */
+const RELAY_USER_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * `relay-user:{sessionId}` — the member whose proxy routing table the
+ * container was last given. In a shared session each member runs with their
+ * own servers, so the relay resolves servers against this user.
+ */
+export function relayUserKey(sessionId: string): string {
+  return `relay-user:${sessionId}`;
+}
+
+/** Record who a run belongs to before it can reach the relay. */
+export async function recordRelayUser(kv: KVNamespace, sessionId: string, userId: string): Promise<void> {
+  await kv.put(relayUserKey(sessionId), userId, { expirationTtl: RELAY_USER_TTL });
+}
+
+/** Where the proxy sends calls for one server */
+export interface McpProxyTarget {
+  transport: 'relay' | 'http' | 'sse' | 'stdio';
+  url?: string;
+  headers?: Record<string, string>;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  maxPerMinute?: number;
+  /** Only reachable through the catalog, not listed in ~/.claude.json */
+  onDemand?: boolean;
+  /** Cached tool names, so the catalog can describe the server without a call */
+  tools?: string[];
+  /** Non-default tool policies, keyed by the server's own tool name */
+  toolPolicy?: Record<string, RestrictedToolPolicy>;
+}
+
+export type RestrictedToolPolicy = 'deny' | 'ask';
+
+/** Whether a server applies to a session on `gitRepo` */
+export function appliesToRepo(server: McpServerConfig, gitRepo?: string): boolean {
+  if (server.scope !== 'project') return true;
+  return !!server.gitRepo && !!gitRepo && matchesRepoPattern(server.gitRepo, gitRepo);
+}
+
+/** Whether a server is left out of the session and loaded through the catalog */
+export function isOnDemand(server: McpServerConfig): boolean {
+  if (server.mode === 'on-demand') return true;
+  if (server.mode !== 'auto') return false;
+  const count = server.toolCount ?? server.tools?.length ?? 0;
+  return count > AUTO_ON_DEMAND_TOOL_LIMIT;
+}
+
+/** How the Agent SDK names an MCP tool */
+export function sdkToolName(serverName: string, toolName: string): string {
+  return `mcp__${serverName}__${toolName}`;
+}
+
+/** A server's 'deny' and 'ask' tools; 'allow' is the default and left out */
+export function restrictedTools(server: McpServerConfig): Record<string, RestrictedToolPolicy> {
+  const result: Record<string, RestrictedToolPolicy> = {};
+  for (const [tool, policy] of Object.entries(server.toolPolicy ?? {})) {
+    if (policy !== 'allow') result[tool] = policy;
+  }
+  return result;
+}
+
+export function proxyUrl(serverName: string): string {
+  return `${MCP_PROXY_ORIGIN}/mcp/${serverName}`;
+}
+
+/**
+ * Take a slot in a one-minute sliding window of call timestamps. Returns 0
+ * and records the call when allowed, otherwise the ms until a slot frees.
+ * Mutates `calls` in place.
+ */
+export function takeCallSlot(calls: number[], maxPerMinute: number, now: number): number {
+  while (calls.length > 0 && calls[0] <= now - RATE_WINDOW_MS) calls.shift();
+  if (calls.length >= maxPerMinute) return calls[0] + RATE_WINDOW_MS - now;
+  calls.push(now);
+  return 0;
+}
+
+/** JSON-RPC requests that count against a server's rate limit */
+export function isToolCall(body: unknown): boolean {
+  return typeof body === 'object' && body !== null && (body as { method?: unknown }).method === 'tools/call';
+}
+
+/** A tools/call result reporting `text` as a failed call */
+function toolErrorResult(id: unknown, text: string): Record<string, unknown> {
+  return { jsonrpc: '2.0', id: id ?? null, result: { isError: true, content: [{ type: 'text', text }] } };
+}
+
+/**
+ * The tool result returned instead of forwarding a call over the limit —
+ * an isError result rather than a JSON-RPC error, so the agent sees why.
+ */
+export function rateLimitedResult(
+  id: unknown,
+  serverName: string,
+  maxPerMinute: number,
+  retryMs: number
+): Record<string, unknown> {
+  const retry = Math.max(1, Math.ceil(retryMs / 1000));
+  return toolErrorResult(
+    id,
+    `Rate limit exceeded for MCP server "${serverName}": ${maxPerMinute} call${maxPerMinute === 1 ? '' : 's'} per minute. Retry in ${retry}s.`
+  );
+}
+
+/** The name of the tool a tools/call request targets, if it is one */
+export function calledToolName(body: unknown): string | undefined {
+  if (!isToolCall(body)) return undefined;
+  const name = (body as { params?: { name?: unknown } }).params?.name;
+  return typeof name === 'string' ? name : undefined;
+}
+
+/** The tool result returned for a call to a tool the server's policy denies */
+export function deniedToolResult(id: unknown, serverName: string, toolName: string): Record<string, unknown> {
+  return toolErrorResult(id, `Tool "${toolName}" on MCP server "${serverName}" is disabled in its settings.`);
+}
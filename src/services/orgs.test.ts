@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { User } from '../types';
+import {
+  canAccessSession,
+  createInvite,
+  createOrg,
+  listUserOrgIds,
+  redeemInvite,
+  removeMember,
+  setMemberRole,
+  OrgError,
+} from './orgs';
+import { memoryKv } from '../test-utils/memory-kv';
+
+const alice = { id: 'u-alice', email: 'alice@example.com' } as User;
+const bob = { id: 'u-bob', email: 'bob@example.com' } as User;
+const carol = { id: 'u-carol', email: 'carol@example.com' } as User;
+
+describe('orgs', () => {
+  it('joins by single-use invite and keeps a last owner', async () => {
+    const kv = memoryKv();
+    const org = await createOrg(kv, alice, 'Acme');
+    const invite = await createInvite(kv, org, 'member', alice.id);
+
+    const joined = await redeemInvite(kv, invite.code, bob);
+    expect(joined.members.map((m) => [m.userId, m.role])).toEqual([['u-alice', 'owner'], ['u-bob', 'member']]);
+    expect(await listUserOrgIds(kv, bob.id)).toEqual([org.id]);
+    await expect(redeemInvite(kv, invite.code, carol)).rejects.toBeInstanceOf(OrgError);
+
+    await expect(setMemberRole(kv, joined, alice.id, 'admin')).rejects.toBeInstanceOf(OrgError);
+    await expect(removeMember(kv, joined, alice.id)).rejects.toBeInstanceOf(OrgError);
+    await removeMember(kv, joined, bob.id);
+    expect(await listUserOrgIds(kv, bob.id)).toEqual([]);
+  });
+
+  it('grants session access by share level and membership', async () => {
+    const kv = memoryKv();
+    const org = await createOrg(kv, alice, 'Acme');
+    await redeemInvite(kv, (await createInvite(kv, org, 'member', alice.id)).code, bob);
+
+    const viewOnly = { userId: alice.id, sharing: { orgId: org.id, access: 'read' as const, sharedAt: '' } };
+    expect(await canAccessSession(kv, viewOnly, bob.id, 'read')).toBe(true);
+    expect(await canAccessSession(kv, viewOnly, bob.id, 'write')).toBe(false);
+    expect(await canAccessSession(kv, viewOnly, carol.id, 'read')).toBe(false);
+
+    const shared = { ...viewOnly, sharing: { ...viewOnly.sharing, access: 'collaborate' as const } };
+    expect(await canAccessSession(kv, shared, bob.id, 'write')).toBe(true);
+    expect(await canAccessSession(kv, shared, bob.id, 'owner')).toBe(false);
+    expect(await canAccessSession(kv, { userId: alice.id }, alice.id, 'owner')).toBe(true);
+  });
+});
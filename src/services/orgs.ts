@@ -0,0 +1,250 @@
+/**
+ * Organizations: teams of users that share sessions and inherit shared
+ * MCP servers, plugins and config rules.
+ *
+ * Shared config lives under the org's principal ID (`org:{orgId}`) using the
+ * same KV layouts as a user's own config, so the existing readers work
+ * unchanged and merge it in before the member's own entries. Sharing a
+ * session grants access to its workspace, never to the owner's credentials:
+ * runs always use the acting member's own secrets and config.
+ */
+import type { Session, User } from '../types';
+
+/* ── Types ────────────────────────────────────── */
+
+export const ORG_ROLES = ['owner', 'admin', 'member'] as const;
+export type OrgRole = typeof ORG_ROLES[number];
+
+export interface OrgMember {
+  userId: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: string;
+}
+
+export interface Org {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  members: OrgMember[];
+}
+
+export interface OrgInvite {
+  code: string;
+  orgId: string;
+  role: Exclude<OrgRole, 'owner'>;
+  createdBy: string;
+  expiresAt: string;
+}
+
+/** What a user may do in a session they can see. */
+export type SessionAccess = 'owner' | 'collaborator' | 'viewer';
+/** What a route needs: read (view), write (act in the workspace), owner (manage). */
+export type SessionPermission = 'read' | 'write' | 'owner';
+
+export class OrgError extends Error {
+  constructor(message: string, public status: 400 | 403 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'OrgError';
+  }
+}
+
+/* ── Constants ────────────────────────────────── */
+
+const MAX_ORGS_PER_USER = 10;
+const MAX_MEMBERS = 50;
+const INVITE_TTL = 7 * 24 * 60 * 60;
+
+const ROLE_RANK: Record<OrgRole, number> = { member: 0, admin: 1, owner: 2 };
+const ACCESS_RANK: Record<SessionAccess, number> = { viewer: 0, collaborator: 1, owner: 2 };
+const PERMISSION_NEEDS: Record<SessionPermission, SessionAccess> = {
+  read: 'viewer',
+  write: 'collaborator',
+  owner: 'owner',
+};
+
+/* ── KV keys (AUTH_KV) ────────────────────────── */
+
+function orgKey(orgId: string): string {
+  return `org:${orgId}`;
+}
+
+function userOrgsKey(userId: string): string {
+  return `user-orgs:${userId}`;
+}
+
+function inviteKey(code: string): string {
+  return `org-invite:${code}`;
+}
+
+/** The ID org-shared config is stored under, in place of a user ID. */
+export function orgPrincipal(orgId: string): string {
+  return `org:${orgId}`;
+}
+
+/* ── Reads ────────────────────────────────────── */
+
+export async function getOrg(kv: KVNamespace, orgId: string): Promise<Org | null> {
+  return kv.get<Org>(orgKey(orgId), 'json');
+}
+
+export async function listUserOrgIds(kv: KVNamespace, userId: string): Promise<string[]> {
+  return (await kv.get<string[]>(userOrgsKey(userId), 'json')) ?? [];
+}
+
+export async function listUserOrgs(kv: KVNamespace, userId: string): Promise<Org[]> {
+  const orgs = await Promise.all((await listUserOrgIds(kv, userId)).map((id) => getOrg(kv, id)));
+  return orgs.filter((o): o is Org => o !== null && memberRole(o, userId) !== null);
+}
+
+export function memberRole(org: Org, userId: string): OrgRole | null {
+  return org.members.find((m) => m.userId === userId)?.role ?? null;
+}
+
+export function hasOrgRole(org: Org, userId: string, min: OrgRole): boolean {
+  const role = memberRole(org, userId);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[min];
+}
+
+/* ── Writes ───────────────────────────────────── */
+
+async function saveOrg(kv: KVNamespace, org: Org): Promise<void> {
+  await kv.put(orgKey(org.id), JSON.stringify(org));
+}
+
+async function linkUser(kv: KVNamespace, userId: string, orgId: string): Promise<void> {
+  const ids = await listUserOrgIds(kv, userId);
+  if (ids.includes(orgId)) return;
+  if (ids.length >= MAX_ORGS_PER_USER) {
+    throw new OrgError(`A user can belong to at most ${MAX_ORGS_PER_USER} organizations`, 409);
+  }
+  await kv.put(userOrgsKey(userId), JSON.stringify([...ids, orgId]));
+}
+
+async function unlinkUser(kv: KVNamespace, userId: string, orgId: string): Promise<void> {
+  const ids = await listUserOrgIds(kv, userId);
+  await kv.put(userOrgsKey(userId), JSON.stringify(ids.filter((id) => id !== orgId)));
+}
+
+export async function createOrg(kv: KVNamespace, user: User, name: string): Promise<Org> {
+  const now = new Date().toISOString();
+  const org: Org = {
+    id: crypto.randomUUID(),
+    name,
+    createdBy: user.id,
+    createdAt: now,
+    members: [{ userId: user.id, email: user.email, role: 'owner', joinedAt: now }],
+  };
+  await linkUser(kv, user.id, org.id);
+  await saveOrg(kv, org);
+  return org;
+}
+
+export async function renameOrg(kv: KVNamespace, org: Org, name: string): Promise<Org> {
+  const updated = { ...org, name };
+  await saveOrg(kv, updated);
+  return updated;
+}
+
+export async function deleteOrg(kv: KVNamespace, org: Org): Promise<void> {
+  await Promise.all(org.members.map((m) => unlinkUser(kv, m.userId, org.id)));
+  await kv.delete(orgKey(org.id));
+}
+
+/** Change a member's role. An org always keeps at least one owner. */
+export async function setMemberRole(kv: KVNamespace, org: Org, userId: string, role: OrgRole): Promise<Org> {
+  const current = memberRole(org, userId);
+  if (!current) throw new OrgError('Member not found', 404);
+  if (current === 'owner' && role !== 'owner' && org.members.filter((m) => m.role === 'owner').length === 1) {
+    throw new OrgError('An organization needs at least one owner', 409);
+  }
+  const updated = { ...org, members: org.members.map((m) => (m.userId === userId ? { ...m, role } : m)) };
+  await saveOrg(kv, updated);
+  return updated;
+}
+
+export async function removeMember(kv: KVNamespace, org: Org, userId: string): Promise<Org> {
+  const role = memberRole(org, userId);
+  if (!role) throw new OrgError('Member not found', 404);
+  if (role === 'owner' && org.members.filter((m) => m.role === 'owner').length === 1) {
+    throw new OrgError('Transfer ownership before the last owner leaves', 409);
+  }
+  const updated = { ...org, members: org.members.filter((m) => m.userId !== userId) };
+  await saveOrg(kv, updated);
+  await unlinkUser(kv, userId, org.id);
+  return updated;
+}
+
+/* ── Invites ──────────────────────────────────── */
+
+export async function createInvite(
+  kv: KVNamespace,
+  org: Org,
+  role: OrgInvite['role'],
+  createdBy: string
+): Promise<OrgInvite> {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const invite: OrgInvite = {
+    code: Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join(''),
+    orgId: org.id,
+    role,
+    createdBy,
+    expiresAt: new Date(Date.now() + INVITE_TTL * 1000).toISOString(),
+  };
+  await kv.put(inviteKey(invite.code), JSON.stringify(invite), { expirationTtl: INVITE_TTL });
+  return invite;
+}
+
+/** Join the invite's org. Codes are single-use. */
+export async function redeemInvite(kv: KVNamespace, code: string, user: User): Promise<Org> {
+  const invite = await kv.get<OrgInvite>(inviteKey(code), 'json');
+  if (!invite) throw new OrgError('Invite not found or expired', 404);
+  const org = await getOrg(kv, invite.orgId);
+  if (!org) throw new OrgError('Organization no longer exists', 404);
+  await kv.delete(inviteKey(code));
+  if (memberRole(org, user.id)) return org;
+  if (org.members.length >= MAX_MEMBERS) {
+    throw new OrgError(`Organizations are limited to ${MAX_MEMBERS} members`, 409);
+  }
+
+  await linkUser(kv, user.id, org.id);
+  const updated: Org = {
+    ...org,
+    members: [...org.members, { userId: user.id, email: user.email, role: invite.role, joinedAt: new Date().toISOString() }],
+  };
+  await saveOrg(kv, updated);
+  return updated;
+}
+
+/* ── Session access ───────────────────────────── */
+
+/** The caller's access to a session: ownership, or membership in the org it is shared with. */
+export async function sessionAccess(
+  kv: KVNamespace,
+  session: Pick<Session, 'userId' | 'sharing'>,
+  userId: string
+): Promise<SessionAccess | null> {
+  if (session.userId === userId) return 'owner';
+  if (!session.sharing) return null;
+  const org = await getOrg(kv, session.sharing.orgId);
+  if (!org || !memberRole(org, userId)) return null;
+  return session.sharing.access === 'collaborate' ? 'collaborator' : 'viewer';
+}
+
+export function accessAllows(access: SessionAccess | null, need: SessionPermission): boolean {
+  return access !== null && ACCESS_RANK[access] >= ACCESS_RANK[PERMISSION_NEEDS[need]];
+}
+
+/** Permission check used in place of `session.userId === user.id`. */
+export async function canAccessSession(
+  kv: KVNamespace,
+  session: Pick<Session, 'userId' | 'sharing'>,
+  userId: string,
+  need: SessionPermission
+): Promise<boolean> {
+  // Owner check first — the common case costs no KV read
+  if (session.userId === userId) return true;
+  if (need === 'owner') return false;
+  return accessAllows(await sessionAccess(kv, session, userId), need);
+}
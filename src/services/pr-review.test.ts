@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildGithubReview, commentableLines, parsePullRequestUrl, type PrReviewRecord } from './pr-review';
+import type { PullRequestReview } from './ai-schemas';
+
+const diff = [
+  'diff --git a/src/save.ts b/src/save.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/save.ts',
+  '+++ b/src/save.ts',
+  '@@ -10,3 +10,4 @@ export function save() {',
+  '   const file = open();',
+  '-  file.write(data);',
+  '+  if (!file) return;',
+  '+  file.write(data);',
+  '   file.close();',
+  'diff --git a/old.ts b/old.ts',
+  'deleted file mode 100644',
+  '--- a/old.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-gone',
+].join('\n');
+
+const review: PullRequestReview = {
+  summary: 'Guards against a missing file.',
+  verdict: 'comment',
+  complexity: { score: 2, label: 'low', reasoning: 'One guard.' },
+  issues: [
+    { file: 'src/save.ts', line: 11, severity: 'warning', message: 'Silently returns; log it.' },
+    { file: 'src/save.ts', line: 40, severity: 'info', message: 'Outside the diff.' },
+    { file: 'README.md', severity: 'info', message: 'Document the change.' },
+  ],
+  suggestions: [],
+};
+
+describe('pr review', () => {
+  it('parses pull request URLs', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/app/pull/42')).toEqual({ repo: 'acme/app', number: 42 });
+    expect(parsePullRequestUrl('https://github.com/acme/app/pull/42/files#diff-1')).toEqual({ repo: 'acme/app', number: 42 });
+    expect(parsePullRequestUrl('https://github.com/acme/app/issues/42')).toBeNull();
+    expect(parsePullRequestUrl('acme/app#42')).toBeNull();
+  });
+
+  it('finds the new-side lines a review comment can anchor to', () => {
+    const lines = commentableLines(diff);
+    expect([...(lines.get('src/save.ts') ?? [])]).toEqual([10, 11, 12, 13]);
+    expect(lines.has('old.ts')).toBe(false);
+  });
+
+  it('inlines anchored issues and lists the rest in the body', () => {
+    const record = {
+      sessionId: 's1',
+      repo: 'acme/app',
+      number: 42,
+      title: 'Guard save',
+      url: '',
+      author: 'dev',
+      base: 'main',
+      head: 'fix-save',
+      headSha: 'abc123',
+      createdAt: '',
+      diff,
+      review,
+    } satisfies PrReviewRecord;
+
+    const payload = buildGithubReview(record, [0, 1, 2], 'COMMENT');
+    expect(payload.commit_id).toBe('abc123');
+    expect(payload.comments).toEqual([
+      { path: 'src/save.ts', line: 11, side: 'RIGHT', body: '**warning:** Silently returns; log it.' },
+    ]);
+    expect(payload.body).toContain('`src/save.ts:40`');
+    expect(payload.body).toContain('`README.md`');
+
+    expect(buildGithubReview(record, [2], 'APPROVE').comments).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * First-pass pull request reviews.
+ *
+ * A review session is an ordinary session cloned at the PR's base with the
+ * PR head checked out as vf/pr-{n}. Running the review diffs the head against
+ * its merge base and asks the model for a structured analysis whose issues
+ * point at files and new-side lines. Issues on lines GitHub can anchor to
+ * become inline review comments when the review is posted; the rest go in the
+ * review body.
+ */
+import { generateText, Output, type LanguageModel } from 'ai';
+import { githubApi } from './github-client';
+import { PullRequestReviewSchema, type PullRequestReview } from './ai-schemas';
+
+/* ── Types ────────────────────────────────────── */
+
+export type ReviewEvent = 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+
+export interface GithubPullRequest {
+  title: string;
+  body: string | null;
+  html_url: string;
+  user: { login: string } | null;
+  base: { ref: string };
+  head: { ref: string; sha: string };
+}
+
+/** Stored at pr-review:{sessionId} in SESSIONS_KV. */
+export interface PrReviewRecord {
+  sessionId: string;
+  /** owner/name */
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+  author: string;
+  base: string;
+  head: string;
+  headSha: string;
+  createdAt: string;
+  /** Diff the review ran against, secrets redacted */
+  diff?: string;
+  review?: PullRequestReview;
+  reviewedAt?: string;
+  posted?: { at: string; url: string; event: ReviewEvent };
+}
+
+export interface GithubReviewPayload {
+  commit_id: string;
+  event: ReviewEvent;
+  body: string;
+  comments: { path: string; line: number; side: 'RIGHT'; body: string }[];
+}
+
+/* ── Constants ────────────────────────────────── */
+
+/** Kept with the record so the diff viewer doesn't need the sandbox */
+const MAX_STORED_DIFF = 500_000;
+/** What the model sees; larger diffs are reviewed from the top */
+const MAX_REVIEWED_DIFF = 100_000;
+
+/* ── KV ───────────────────────────────────────── */
+
+function reviewKey(sessionId: string): string {
+  return `pr-review:${sessionId}`;
+}
+
+export async function getReview(kv: KVNamespace, sessionId: string): Promise<PrReviewRecord | null> {
+  return kv.get<PrReviewRecord>(reviewKey(sessionId), 'json');
+}
+
+export async function saveReview(kv: KVNamespace, record: PrReviewRecord): Promise<void> {
+  await kv.put(reviewKey(record.sessionId), JSON.stringify({
+    ...record,
+    ...(record.diff ? { diff: record.diff.slice(0, MAX_STORED_DIFF) } : {}),
+  }));
+}
+
+export async function deleteReview(kv: KVNamespace, sessionId: string): Promise<void> {
+  await kv.delete(reviewKey(sessionId));
+}
+
+/* ── GitHub ───────────────────────────────────── */
+
+/** owner/name and number from a github.com pull request URL, else null. */
+export function parsePullRequestUrl(url: string): { repo: string; number: number } | null {
+  const match = url.trim().match(/^https:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/pull\/(\d+)(?:[/?#].*)?$/);
+  return match ? { repo: match[1], number: parseInt(match[2], 10) } : null;
+}
+
+export async function fetchPullRequest(
+  token: string,
+  repo: string,
+  number: number
+): Promise<GithubPullRequest | null> {
+  const res = await githubApi<GithubPullRequest>(token, 'GET', `/repos/${repo}/pulls/${number}`);
+  return res.ok ? res.data : null;
+}
+
+export async function postGithubReview(
+  token: string,
+  record: PrReviewRecord,
+  payload: GithubReviewPayload
+): Promise<{ ok: true; url: string } | { ok: false; error: string }> {
+  const res = await githubApi<{ html_url?: string; message?: string; errors?: string[] }>(
+    token, 'POST', `/repos/${record.repo}/pulls/${record.number}/reviews`, payload
+  );
+  if (res.ok && res.data?.html_url) return { ok: true, url: res.data.html_url };
+  return { ok: false, error: res.data?.errors?.[0] || res.data?.message || `GitHub returned HTTP ${res.status}` };
+}
+
+/* ── Diff anchoring ───────────────────────────── */
+
+/**
+ * New-side line numbers per file that GitHub accepts review comments on:
+ * added and context lines inside a hunk.
+ */
+export function commentableLines(diff: string): Map<string, Set<number>> {
+  const files = new Map<string, Set<number>>();
+  let lines: Set<number> | null = null;
+  let inHeader = false;
+  let next = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      inHeader = true;
+      lines = null;
+    } else if (inHeader && line.startsWith('+++ ')) {
+      const path = line.slice(4).replace(/^b\//, '');
+      lines = path === '/dev/null' ? null : new Set();
+      if (lines) files.set(path, lines);
+    } else if (line.startsWith('@@')) {
+      inHeader = false;
+      const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      next = match ? parseInt(match[1], 10) : 0;
+    } else if (!inHeader && lines && (line.startsWith('+') || line.startsWith(' '))) {
+      lines.add(next++);
+    }
+  }
+  return files;
+}
+
+/* ── Review ───────────────────────────────────── */
+
+const REVIEW_PROMPT = [
+  'You are reviewing a pull request as a careful senior engineer.',
+  'Look for bugs, security problems, missing error handling, missing tests and unclear code in the changed lines.',
+  'Anchor every issue to the file path from the diff header and, when it concerns a specific line, the line number in the new version of the file.',
+  'Use error for defects that must be fixed, warning for likely problems and info for minor points.',
+  'Do not comment on unchanged code unless the change breaks it.',
+  'Rate complexity of the change from 1 (trivial) to 10 (extremely complex).',
+  'Recommend request_changes only for errors, approve only when you found nothing worth fixing.',
+].join(' ');
+
+export async function reviewPullRequest(
+  model: LanguageModel,
+  input: { title: string; body?: string | null; diff: string }
+): Promise<PullRequestReview | null> {
+  const truncated = input.diff.length > MAX_REVIEWED_DIFF;
+  const prompt = [
+    `Title: ${input.title}`,
+    ...(input.body ? ['', 'Description:', input.body] : []),
+    '',
+    truncated ? `Diff (first ${MAX_REVIEWED_DIFF} characters):` : 'Diff:',
+    '```diff',
+    input.diff.slice(0, MAX_REVIEWED_DIFF),
+    '```',
+  ].join('\n');
+
+  const result = await generateText({
+    model,
+    system: REVIEW_PROMPT,
+    prompt,
+    output: Output.object({ schema: PullRequestReviewSchema }),
+  });
+  return result.output ?? null;
+}
+
+/**
+ * Turn the selected issues into a GitHub review: anchored issues become
+ * inline comments, everything else is listed in the body.
+ */
+export function buildGithubReview(
+  record: PrReviewRecord & { review: PullRequestReview },
+  include: number[],
+  event: ReviewEvent
+): GithubReviewPayload {
+  const anchors = commentableLines(record.diff ?? '');
+  const comments: GithubReviewPayload['comments'] = [];
+  const general: string[] = [];
+
+  for (const index of include) {
+    const issue = record.review.issues[index];
+    if (!issue) continue;
+    const text = `**${issue.severity}:** ${issue.message}`;
+    if (issue.line && anchors.get(issue.file)?.has(issue.line)) {
+      comments.push({ path: issue.file, line: issue.line, side: 'RIGHT', body: text });
+    } else {
+      general.push(`- \`${issue.file}${issue.line ? `:${issue.line}` : ''}\` ${text}`);
+    }
+  }
+
+  const body = [record.review.summary];
+  if (general.length > 0) body.push('', '### Notes', '', ...general);
+  if (record.review.suggestions.length > 0) {
+    body.push('', '### Suggestions', '', ...record.review.suggestions.map((s) => `- **${s.title}** — ${s.description}`));
+  }
+  body.push('', '<sub>First-pass review from VaporForge</sub>');
+
+  return { commit_id: record.headSha, event, body: body.join('\n'), comments };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseGithubRemote, statusNote, summarizeChecks, type PullRequestRecord, type PullRequestStatus } from './pull-requests';
+
+const record: PullRequestRecord = {
+  repo: 'acme/app',
+  number: 12,
+  url: 'https://github.com/acme/app/pull/12',
+  title: 'Fix save crash',
+  branch: 'fix-save',
+  base: 'main',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+function status(overrides: Partial<PullRequestStatus> = {}): PullRequestStatus {
+  return {
+    state: 'open',
+    draft: false,
+    mergeable: true,
+    headSha: 'abc',
+    checks: summarizeChecks(null, null),
+    ...overrides,
+  };
+}
+
+describe('pull requests', () => {
+  it('parses GitHub remotes in every URL form', () => {
+    expect(parseGithubRemote('https://github.com/acme/app.git\n')).toBe('acme/app');
+    expect(parseGithubRemote('https://x-access-token:t@github.com/acme/app')).toBe('acme/app');
+    expect(parseGithubRemote('git@github.com:acme/my.app.git')).toBe('acme/my.app');
+    expect(parseGithubRemote('ssh://git@github.com/acme/app.git')).toBe('acme/app');
+    expect(parseGithubRemote('https://gitlab.com/acme/app.git')).toBeNull();
+  });
+
+  it('folds statuses and check runs into one state', () => {
+    const runs = {
+      check_runs: [
+        { name: 'test', status: 'completed', conclusion: 'success', html_url: null },
+        { name: 'lint', status: 'completed', conclusion: 'skipped', html_url: null },
+      ],
+    };
+    expect(summarizeChecks(null, runs)).toMatchObject({ state: 'success', passed: 2 });
+    expect(summarizeChecks({ statuses: [{ context: 'ci', state: 'pending', target_url: null }] }, runs).state).toBe('pending');
+    expect(summarizeChecks({ statuses: [{ context: 'ci', state: 'error', target_url: null }] }, runs))
+      .toMatchObject({ state: 'failure', failed: 1, passed: 2 });
+    expect(summarizeChecks(null, null).state).toBe('none');
+  });
+
+  it('reports settled checks and merges once', () => {
+    const failed = status({
+      checks: summarizeChecks(null, { check_runs: [{ name: 'test', status: 'completed', conclusion: 'failure', html_url: null }] }),
+    });
+    expect(statusNote(record, failed)).toBe('Checks failed on PR #12: test.');
+    expect(statusNote({ ...record, reported: { sha: 'abc', state: 'open', checks: 'failure' } }, failed)).toBeNull();
+    expect(statusNote({ ...record, reported: { sha: 'old', state: 'open', checks: 'failure' } }, failed)).not.toBeNull();
+    expect(statusNote(record, status())).toBeNull();
+    expect(statusNote(record, status({ state: 'merged' }))).toBe('PR #12 was merged into main.');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Pull requests opened from a session.
+ *
+ * The git route pushes the session branch and opens the PR; this module
+ * holds the pieces around it: turning the session summary and diff into a
+ * description, reading PR state and CI checks back from GitHub, and posting
+ * what changed into the session as system messages so the transcript (and
+ * the agent, on its next turn) sees it.
+ */
+import { generateText, Output, type LanguageModel } from 'ai';
+import { githubApi } from './github-client';
+import { PullRequestDescriptionSchema, type PullRequestDescription } from './ai-schemas';
+
+/* ── Types ────────────────────────────────────── */
+
+export type ChecksState = 'none' | 'pending' | 'success' | 'failure';
+
+export interface CheckResult {
+  name: string;
+  state: Exclude<ChecksState, 'none'>;
+  url?: string;
+}
+
+export interface ChecksSummary {
+  state: ChecksState;
+  passed: number;
+  failed: number;
+  pending: number;
+  checks: CheckResult[];
+}
+
+export interface PullRequestStatus {
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  /** null while GitHub is still computing it */
+  mergeable: boolean | null;
+  headSha: string;
+  checks: ChecksSummary;
+}
+
+/** Stored at session-pr:{sessionId} in SESSIONS_KV. */
+export interface PullRequestRecord {
+  /** owner/name */
+  repo: string;
+  number: number;
+  url: string;
+  title: string;
+  branch: string;
+  base: string;
+  createdAt: string;
+  /** Last state posted into the session, so each change is reported once */
+  reported?: { sha: string; state: PullRequestStatus['state']; checks: ChecksState };
+}
+
+/* ── KV ───────────────────────────────────────── */
+
+function recordKey(sessionId: string): string {
+  return `session-pr:${sessionId}`;
+}
+
+export async function getPullRequest(kv: KVNamespace, sessionId: string): Promise<PullRequestRecord | null> {
+  return kv.get<PullRequestRecord>(recordKey(sessionId), 'json');
+}
+
+export async function savePullRequest(kv: KVNamespace, sessionId: string, record: PullRequestRecord): Promise<void> {
+  await kv.put(recordKey(sessionId), JSON.stringify(record));
+}
+
+export async function deletePullRequest(kv: KVNamespace, sessionId: string): Promise<void> {
+  await kv.delete(recordKey(sessionId));
+}
+
+/** Append a system message to the session transcript. */
+export async function postSessionNote(kv: KVNamespace, sessionId: string, content: string): Promise<void> {
+  const id = crypto.randomUUID();
+  await kv.put(
+    `message:${sessionId}:${id}`,
+    JSON.stringify({ id, sessionId, role: 'system', content, timestamp: new Date().toISOString() }),
+    { expirationTtl: 7 * 24 * 60 * 60 }
+  );
+}
+
+/* ── Remotes ──────────────────────────────────── */
+
+/** owner/name for a github.com remote URL (https, ssh or scp-style), else null. */
+export function parseGithubRemote(url: string): string | null {
+  const match = url.trim().match(
+    /^(?:https?:\/\/(?:[^@/]+@)?github\.com\/|ssh:\/\/git@github\.com\/|git@github\.com:)([\w.-]+\/[\w.-]+?)(?:\.git)?\/?$/
+  );
+  return match ? match[1] : null;
+}
+
+/* ── Descriptions ─────────────────────────────── */
+
+const DESCRIBE_PROMPT = [
+  'You write pull request descriptions.',
+  'Use the session summary for intent and the diff and commit log for what actually changed.',
+  'The title is imperative, capitalized, with no trailing period, under 72 characters.',
+  'List changes a reviewer should know about, not every file touched.',
+  'Only fill in testing if the summary or diff shows how the change was verified.',
+  'Only set breaking to true if the change breaks backward compatibility.',
+].join(' ');
+
+export async function describePullRequest(
+  model: LanguageModel,
+  input: { summary?: string; log: string; diff: string }
+): Promise<PullRequestDescription | null> {
+  const prompt = [
+    ...(input.summary ? ['Session summary:', input.summary, ''] : []),
+    'Commits:',
+    input.log,
+    '',
+    'Diff:',
+    '```',
+    input.diff.slice(0, 50_000),
+    '```',
+  ].join('\n');
+
+  const result = await generateText({
+    model,
+    system: DESCRIBE_PROMPT,
+    prompt,
+    output: Output.object({ schema: PullRequestDescriptionSchema }),
+  });
+  return result.output ?? null;
+}
+
+export function renderPullRequestBody(description: PullRequestDescription, sessionId: string): string {
+  const lines = [description.summary, ''];
+  if (description.changes.length > 0) {
+    lines.push('## Changes', '', ...description.changes.map((c) => `- ${c}`), '');
+  }
+  if (description.testing) lines.push('## Testing', '', description.testing, '');
+  if (description.breaking) lines.push('> **Breaking change**', '');
+  lines.push(`<sub>Opened from VaporForge session \`${sessionId.slice(0, 8)}\`</sub>`);
+  return lines.join('\n');
+}
+
+/* ── Status ───────────────────────────────────── */
+
+interface CombinedStatus {
+  statuses: { context: string; state: string; target_url: string | null }[];
+}
+
+interface CheckRuns {
+  check_runs: { name: string; status: string; conclusion: string | null; html_url: string | null }[];
+}
+
+/** Fold commit statuses and check runs into one pass/fail/pending view. */
+export function summarizeChecks(status: CombinedStatus | null, runs: CheckRuns | null): ChecksSummary {
+  const checks: CheckResult[] = [
+    ...(status?.statuses ?? []).map((s): CheckResult => ({
+      name: s.context,
+      state: s.state === 'success' ? 'success' : s.state === 'pending' ? 'pending' : 'failure',
+      ...(s.target_url ? { url: s.target_url } : {}),
+    })),
+    ...(runs?.check_runs ?? []).map((r): CheckResult => ({
+      name: r.name,
+      state: r.status !== 'completed'
+        ? 'pending'
+        : ['success', 'neutral', 'skipped'].includes(r.conclusion ?? '') ? 'success' : 'failure',
+      ...(r.html_url ? { url: r.html_url } : {}),
+    })),
+  ];
+
+  const count = (state: CheckResult['state']) => checks.filter((c) => c.state === state).length;
+  const passed = count('success');
+  const failed = count('failure');
+  const pending = count('pending');
+  const state: ChecksState = checks.length === 0
+    ? 'none'
+    : failed > 0 ? 'failure' : pending > 0 ? 'pending' : 'success';
+  return { state, passed, failed, pending, checks };
+}
+
+export async function fetchPullRequestStatus(
+  token: string,
+  repo: string,
+  number: number
+): Promise<PullRequestStatus | null> {
+  const pull = await githubApi<{
+    state: 'open' | 'closed';
+    merged: boolean;
+    draft: boolean;
+    mergeable: boolean | null;
+    head: { sha: string };
+  }>(token, 'GET', `/repos/${repo}/pulls/${number}`);
+  if (!pull.ok || !pull.data) return null;
+
+  const sha = pull.data.head.sha;
+  const [status, runs] = await Promise.all([
+    githubApi<CombinedStatus>(token, 'GET', `/repos/${repo}/commits/${sha}/status`),
+    githubApi<CheckRuns>(token, 'GET', `/repos/${repo}/commits/${sha}/check-runs?per_page=100`),
+  ]);
+
+  return {
+    state: pull.data.merged ? 'merged' : pull.data.state,
+    draft: pull.data.draft,
+    mergeable: pull.data.mergeable,
+    headSha: sha,
+    checks: summarizeChecks(status.ok ? status.data : null, runs.ok ? runs.data : null),
+  };
+}
+
+/**
+ * The note to post for a status the session hasn't seen yet, or null.
+ * Pending checks aren't reported — only the result they settle on.
+ */
+export function statusNote(record: PullRequestRecord, status: PullRequestStatus): string | null {
+  const last = record.reported;
+  const ref = `PR #${record.number}`;
+
+  if (status.state !== 'open') {
+    if (last?.state === status.state) return null;
+    return status.state === 'merged' ? `${ref} was merged into ${record.base}.` : `${ref} was closed without merging.`;
+  }
+
+  const settled = status.checks.state === 'success' || status.checks.state === 'failure';
+  if (!settled || (last?.sha === status.headSha && last.checks === status.checks.state)) return null;
+
+  if (status.checks.state === 'success') {
+    return `Checks passed on ${ref} (${status.checks.passed}/${status.checks.checks.length}).`;
+  }
+  const failing = status.checks.checks.filter((c) => c.state === 'failure').map((c) => c.name);
+  return `Checks failed on ${ref}: ${failing.join(', ')}.`;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ScheduleError,
+  assertMinInterval,
+  completeJobRun,
+  getJob,
+  listDueJobs,
+  nextRunTime,
+  parseCron,
+  recordRun,
+  saveJob,
+  type ScheduledJob,
+} from './scheduled-jobs';
+import { memoryKv } from '../test-utils/memory-kv';
+
+describe('cron schedules', () => {
+  it('finds the next weekday 7am in the job timezone', () => {
+    const spec = parseCron('0 7 * * MON-FRI');
+    // Friday 2026-03-06 12:00 UTC → next is Monday 07:00 New York (EST, UTC-5)
+    expect(nextRunTime(spec, 'America/New_York', new Date('2026-03-06T12:00:00Z'))?.toISOString())
+      .toBe('2026-03-09T11:00:00.000Z');
+    // Across the DST change: Monday 07:00 EDT is UTC-4
+    expect(nextRunTime(spec, 'America/New_York', new Date('2026-03-09T11:00:00Z'))?.toISOString())
+      .toBe('2026-03-10T11:00:00.000Z');
+  });
+
+  it('ORs day-of-month and day-of-week when both are restricted', () => {
+    const spec = parseCron('30 9 1 * 0');
+    // Thursday 2026-01-01 is the 1st; the following Sunday is the 4th
+    const first = nextRunTime(spec, 'UTC', new Date('2025-12-31T12:00:00Z'));
+    expect(first?.toISOString()).toBe('2026-01-01T09:30:00.000Z');
+    expect(nextRunTime(spec, 'UTC', first!)?.toISOString()).toBe('2026-01-04T09:30:00.000Z');
+    expect(nextRunTime(parseCron('0 0 30 2 *'), 'UTC', new Date())).toBeNull();
+  });
+
+  it('rejects malformed and too-frequent schedules', () => {
+    expect(() => parseCron('* * *')).toThrow(ScheduleError);
+    expect(() => parseCron('60 * * * *')).toThrow(/out of range/);
+    expect(() => assertMinInterval(parseCron('*/5 * * * *'))).toThrow(/at most every 15 minutes/);
+    expect(() => assertMinInterval(parseCron('0,50 * * * *'))).toThrow(ScheduleError);
+    expect(() => assertMinInterval(parseCron('*/15 * * * *'))).not.toThrow();
+  });
+});
+
+describe('due index', () => {
+  it('lists due jobs and moves the entry when a job is rescheduled', async () => {
+    const kv = memoryKv();
+    const job: ScheduledJob = {
+      id: 'j1',
+      userId: 'u1',
+      name: 'Audit',
+      schedule: '0 7 * * *',
+      timezone: 'UTC',
+      prompt: '/dependency-audit',
+      enabled: true,
+      notify: { channels: ['in-app'], delivery: {} },
+      createdAt: '',
+      updatedAt: '',
+    };
+    const saved = await saveJob(kv, job);
+    const at = new Date(saved.nextRunAt!);
+
+    expect(await listDueJobs(kv, new Date(at.getTime() - 1))).toEqual([]);
+    expect(await listDueJobs(kv, at)).toEqual([
+      expect.objectContaining({ userId: 'u1', jobId: 'j1', nextRunAt: saved.nextRunAt }),
+    ]);
+
+    await saveJob(kv, { ...saved, enabled: false }, saved);
+    expect(await listDueJobs(kv, at)).toEqual([]);
+  });
+});
+
+describe('completeJobRun', () => {
+  it('keeps edits made during the run and leaves a newer run\'s job alone', async () => {
+    const kv = memoryKv();
+    const env = { SESSIONS_KV: kv } as unknown as Env;
+    const job: ScheduledJob = {
+      id: 'j1',
+      userId: 'u1',
+      name: 'Audit',
+      schedule: '0 7 * * *',
+      timezone: 'UTC',
+      prompt: '/dependency-audit',
+      enabled: true,
+      notify: { channels: ['in-app'], delivery: {} },
+      createdAt: '',
+      updatedAt: '',
+    };
+    const saved = await saveJob(kv, job);
+    const ref = { userId: 'u1', jobId: 'j1', runId: 'r1' };
+    await recordRun(kv, { id: 'r1', jobId: 'j1', trigger: 'manual', status: 'running', startedAt: '2026-03-10T07:00:00Z' });
+    await saveJob(kv, { ...saved, name: 'Weekly audit' }, saved);
+
+    await completeJobRun(env, ref, { status: 'succeeded' });
+    expect(await getJob(kv, 'u1', 'j1')).toMatchObject({ name: 'Weekly audit', lastStatus: 'succeeded' });
+
+    await recordRun(kv, { id: 'r2', jobId: 'j1', trigger: 'manual', status: 'running', startedAt: '2026-03-10T08:00:00Z' });
+    await recordRun(kv, { id: 'r3', jobId: 'j1', trigger: 'manual', status: 'running', startedAt: '2026-03-10T09:00:00Z' });
+    await completeJobRun(env, { ...ref, runId: 'r2' }, { status: 'failed', error: 'boom' });
+    expect((await getJob(kv, 'u1', 'j1'))?.lastStatus).toBe('succeeded');
+  });
+});
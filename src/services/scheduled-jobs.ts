@@ -0,0 +1,379 @@
+/**
+ * Scheduled agent runs: user-defined cron jobs that send a prompt through
+ * the ChatSessionAgent prompt queue in autonomous mode.
+ *
+ * Jobs live in SESSIONS_KV next to a due index keyed by next run time, so the
+ * cron trigger finds what is due with one ordered list() instead of scanning
+ * every user's jobs. Runs are started by the worker and completed by the DO
+ * when the agent finishes (see completeJobRun).
+ */
+import {
+  deliverMessage,
+  type AlertChannel,
+  type AlertDeliveryConfig,
+} from './alert-delivery';
+
+/* ── Types ────────────────────────────────────── */
+
+export interface ScheduledJob {
+  id: string;
+  userId: string;
+  name: string;
+  /** Five-field cron expression, evaluated in `timezone` */
+  schedule: string;
+  timezone: string;
+  prompt: string;
+  /** Run in this existing session; otherwise each run gets a fresh one */
+  sessionId?: string;
+  gitRepo?: string;
+  branch?: string;
+  model?: string;
+  enabled: boolean;
+  notify: { channels: AlertChannel[]; delivery: AlertDeliveryConfig };
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastStatus?: JobRunStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  sessionId?: string;
+  startedAt: string;
+  endedAt?: string;
+  error?: string;
+  /** Final assistant reply, truncated */
+  resultText?: string;
+  costUsd?: number;
+}
+
+export interface DueEntry {
+  key: string;
+  nextRunAt: string;
+  userId: string;
+  jobId: string;
+}
+
+/** Carried through the DO queue so the agent can report back on completion. */
+export interface JobRunRef {
+  userId: string;
+  jobId: string;
+  runId: string;
+}
+
+export class ScheduleError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+/* ── Constants ────────────────────────────────── */
+
+export const MAX_JOBS_PER_USER = 20;
+/** The cron trigger fires every 5 minutes; anything tighter would just be late */
+const MIN_INTERVAL_MINUTES = 15;
+const MAX_RUNS_KEPT = 50;
+const MAX_RESULT_LENGTH = 20_000;
+/** A run the agent never reported back on is failed after this long */
+const RUN_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+const SEARCH_HORIZON_MS = 366 * 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/* ── KV keys (SESSIONS_KV) ────────────────────── */
+
+function jobKey(userId: string, jobId: string): string {
+  return `sched-job:${userId}:${jobId}`;
+}
+
+function dueKey(job: Pick<ScheduledJob, 'userId' | 'id' | 'nextRunAt'>): string {
+  return `sched-due:${job.nextRunAt}:${job.userId}:${job.id}`;
+}
+
+function runsKey(jobId: string): string {
+  return `sched-runs:${jobId}`;
+}
+
+/* ── Cron ─────────────────────────────────────── */
+
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Vixie cron: when both day fields are restricted, either may match */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+function parseValue(raw: string, names?: string[], offset = 0): number {
+  const named = names?.indexOf(raw.toUpperCase()) ?? -1;
+  if (named >= 0) return named + offset;
+  if (!/^\d+$/.test(raw)) throw new ScheduleError(`Invalid cron value "${raw}"`);
+  return Number(raw);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], offset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new ScheduleError(`Invalid cron step "${part}"`);
+
+    let lo = min;
+    let hi = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-');
+      lo = parseValue(a, names, offset);
+      hi = b === undefined ? (stepRaw === undefined ? lo : max) : parseValue(b, names, offset);
+    }
+    if (lo < min || hi > max || lo > hi) throw new ScheduleError(`Cron value out of range in "${part}"`);
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSpec {
+  const fields = (SHORTCUTS[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) throw new ScheduleError('Schedule must be a five-field cron expression');
+  const [minute, hour, day, month, weekday] = fields;
+
+  const weekdays = parseField(weekday, 0, 7, DAY_NAMES);
+  // 7 is an alias for Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    days: parseField(day, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    weekdays,
+    daysRestricted: day !== '*',
+    weekdaysRestricted: weekday !== '*',
+  };
+}
+
+/** Reject schedules that would fire more often than the trigger can honor. */
+export function assertMinInterval(spec: CronSpec): void {
+  const minutes = [...spec.minutes].sort((a, b) => a - b);
+  const gaps = minutes.map((m, i) => (i === 0 ? 60 - minutes[minutes.length - 1] + m : m - minutes[i - 1]));
+  if (Math.min(...gaps) < MIN_INTERVAL_MINUTES) {
+    throw new ScheduleError(`Jobs can run at most every ${MIN_INTERVAL_MINUTES} minutes`);
+  }
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: DAY_NAMES.indexOf(get('weekday').toUpperCase()),
+  };
+}
+
+function dayMatches(spec: CronSpec, day: number, weekday: number): boolean {
+  const byDay = spec.days.has(day);
+  const byWeekday = spec.weekdays.has(weekday);
+  if (spec.daysRestricted && spec.weekdaysRestricted) return byDay || byWeekday;
+  return byDay && byWeekday;
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, or null if it
+ * never does within a year (e.g. Feb 30). Walks wall-clock time in the job's
+ * timezone, skipping whole days and hours that cannot match.
+ */
+export function nextRunTime(spec: CronSpec, timeZone: string, after: Date): Date | null {
+  const MINUTE = 60_000;
+  let t = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  const limit = after.getTime() + SEARCH_HORIZON_MS;
+
+  while (t <= limit) {
+    const p = zonedParts(new Date(t), timeZone);
+    if (!spec.months.has(p.month) || !dayMatches(spec, p.day, p.weekday)) {
+      t += ((23 - p.hour) * 60 + (60 - p.minute)) * MINUTE;
+    } else if (!spec.hours.has(p.hour)) {
+      t += (60 - p.minute) * MINUTE;
+    } else if (!spec.minutes.has(p.minute)) {
+      t += MINUTE;
+    } else {
+      return new Date(t);
+    }
+  }
+  return null;
+}
+
+/** Next run for a job's schedule after `after`, as an ISO string. */
+export function computeNextRun(job: Pick<ScheduledJob, 'schedule' | 'timezone'>, after = new Date()): string | undefined {
+  return nextRunTime(parseCron(job.schedule), job.timezone, after)?.toISOString();
+}
+
+/* ── Jobs ─────────────────────────────────────── */
+
+export async function listJobs(kv: KVNamespace, userId: string): Promise<ScheduledJob[]> {
+  const page = await kv.list({ prefix: `sched-job:${userId}:` });
+  const jobs = await Promise.all(page.keys.map((key) => kv.get<ScheduledJob>(key.name, 'json')));
+  return jobs
+    .filter((j): j is ScheduledJob => j !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getJob(kv: KVNamespace, userId: string, jobId: string): Promise<ScheduledJob | null> {
+  return kv.get<ScheduledJob>(jobKey(userId, jobId), 'json');
+}
+
+/**
+ * Persist a job and move its due-index entry. Disabled jobs and schedules
+ * that never fire are kept out of the index.
+ */
+export async function saveJob(kv: KVNamespace, job: ScheduledJob, previous?: ScheduledJob | null): Promise<ScheduledJob> {
+  const nextRunAt = job.enabled ? computeNextRun(job) : undefined;
+  const saved: ScheduledJob = { ...job, nextRunAt, updatedAt: new Date().toISOString() };
+
+  if (previous?.nextRunAt && previous.nextRunAt !== nextRunAt) await kv.delete(dueKey(previous));
+  await kv.put(jobKey(job.userId, job.id), JSON.stringify(saved));
+  if (nextRunAt) await kv.put(dueKey(saved), '');
+  return saved;
+}
+
+export async function deleteJob(kv: KVNamespace, job: ScheduledJob): Promise<void> {
+  if (job.nextRunAt) await kv.delete(dueKey(job));
+  await kv.delete(jobKey(job.userId, job.id));
+  await kv.delete(runsKey(job.id));
+}
+
+/** Jobs whose next run is at or before `now`, in due order. */
+export async function listDueJobs(kv: KVNamespace, now: Date): Promise<DueEntry[]> {
+  const due: DueEntry[] = [];
+  const cutoff = now.toISOString();
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: 'sched-due:', ...(cursor ? { cursor } : {}) });
+    for (const { name } of page.keys) {
+      // sched-due:{iso}:{userId}:{jobId} — ISO timestamps contain colons, so split from the right
+      const rest = name.slice('sched-due:'.length);
+      const jobSep = rest.lastIndexOf(':');
+      const userSep = rest.lastIndexOf(':', jobSep - 1);
+      const nextRunAt = rest.slice(0, userSep);
+      if (nextRunAt > cutoff) return due;
+      due.push({ key: name, nextRunAt, userId: rest.slice(userSep + 1, jobSep), jobId: rest.slice(jobSep + 1) });
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return due;
+}
+
+/* ── Runs ─────────────────────────────────────── */
+
+export async function listRuns(kv: KVNamespace, jobId: string): Promise<JobRun[]> {
+  return (await kv.get<JobRun[]>(runsKey(jobId), 'json')) ?? [];
+}
+
+/** Insert or replace a run by id, newest first, capped at MAX_RUNS_KEPT. */
+export async function recordRun(kv: KVNamespace, run: JobRun): Promise<void> {
+  const runs = await listRuns(kv, run.jobId);
+  const merged = [run, ...runs.filter((r) => r.id !== run.id)]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, MAX_RUNS_KEPT);
+  await kv.put(runsKey(run.jobId), JSON.stringify(merged));
+}
+
+/** Fail runs the agent never reported back on, so history doesn't show them running forever. */
+export function expireStaleRuns(runs: JobRun[], now = Date.now()): JobRun[] {
+  return runs.map((r) =>
+    r.status === 'running' && now - Date.parse(r.startedAt) > RUN_TIMEOUT_MS
+      ? { ...r, status: 'failed', error: 'Run did not report completion', endedAt: new Date(now).toISOString() }
+      : r
+  );
+}
+
+/**
+ * Merge a finished run's status into its job, read fresh so edits made
+ * while the run was going are kept. Left alone when a newer run has started.
+ */
+async function recordLastStatus(kv: KVNamespace, ref: JobRunRef, run: JobRun): Promise<ScheduledJob | null> {
+  const [newest] = await listRuns(kv, ref.jobId);
+  const job = await getJob(kv, ref.userId, ref.jobId);
+  if (!job || (newest && newest.id !== run.id)) return job;
+  const updated: ScheduledJob = { ...job, lastStatus: run.status };
+  await kv.put(jobKey(job.userId, job.id), JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Finish a run, update the job's last-run fields and notify. Idempotent —
+ * the first outcome reported for a run wins. Never throws.
+ */
+export async function completeJobRun(
+  env: Env,
+  ref: JobRunRef,
+  outcome: { status: 'succeeded' | 'failed'; error?: string; resultText?: string; costUsd?: number; sessionId?: string }
+): Promise<void> {
+  try {
+    const kv = env.SESSIONS_KV;
+    const run = (await listRuns(kv, ref.jobId)).find((r) => r.id === ref.runId);
+    if (!run || run.status !== 'running') return;
+
+    const finished: JobRun = {
+      ...run,
+      status: outcome.status,
+      endedAt: new Date().toISOString(),
+      ...(outcome.sessionId ? { sessionId: outcome.sessionId } : {}),
+      ...(outcome.error ? { error: outcome.error } : {}),
+      ...(outcome.resultText ? { resultText: outcome.resultText.slice(0, MAX_RESULT_LENGTH) } : {}),
+      ...(outcome.costUsd !== undefined ? { costUsd: outcome.costUsd } : {}),
+    };
+    await recordRun(kv, finished);
+
+    const job = await recordLastStatus(kv, ref, finished);
+    if (!job) return;
+
+    const verb = finished.status === 'succeeded' ? 'completed' : 'failed';
+    const text = `Scheduled job "${job.name}" ${verb}`
+      + (finished.error ? `: ${finished.error}` : '.')
+      + (finished.sessionId ? ` Session ${finished.sessionId.slice(0, 8)}.` : '');
+    await deliverMessage(env, job.notify.channels, job.notify.delivery, {
+      subject: `Scheduled job ${verb}: ${job.name}`,
+      text,
+      body: JSON.stringify({ text, event: 'schedule.run', job: { id: job.id, name: job.name }, run: finished }),
+    });
+  } catch (err) {
+    console.error('[schedules] completing run failed:', err);
+  }
+}
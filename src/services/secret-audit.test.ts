@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { createRedactor, redactDelta, redactSecrets } from './secret-audit';
+
+describe('redactSecrets', () => {
+  const redactor = createRedactor({
+    STRIPE_KEY: 'sk_live_abc123456',
+    QUOTED: 'pa"ss\\word!',
+    SHORT: 'abc',
+  });
+
+  it('masks raw and JSON-escaped values in an NDJSON line', () => {
+    const line = JSON.stringify({ type: 'text-delta', text: 'key=sk_live_abc123456 pw=pa"ss\\word!' });
+    const { text, names } = redactSecrets(redactor, line);
+    expect(names).toEqual(['STRIPE_KEY', 'QUOTED']);
+    expect(text).not.toContain('sk_live_abc123456');
+    expect(JSON.parse(text).text).toBe('key=[REDACTED:STRIPE_KEY] pw=[REDACTED:QUOTED]');
+  });
+
+  it('ignores values too short to match reliably', () => {
+    expect(redactSecrets(redactor, 'abc abc').names).toEqual([]);
+  });
+});
+
+describe('redactDelta', () => {
+  it('masks a value split across streamed pieces', () => {
+    const redactor = createRedactor({ STRIPE_KEY: 'sk_live_abc123456' });
+    const first = redactDelta(redactor, '', 'key=sk_live_');
+    const second = redactDelta(redactor, first.held, 'abc123456 done');
+    const last = redactDelta(redactor, second.held, '', true);
+    const streamed = first.text + second.text + last.text;
+    expect(streamed).toBe('key=[REDACTED:STRIPE_KEY] done');
+    expect(second.names).toEqual(['STRIPE_KEY']);
+    expect(last.held).toBe('');
+  });
+});
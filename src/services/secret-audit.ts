@@ -0,0 +1,156 @@
+import { readUserSecrets } from './user-secrets';
+
+/* ── Types ────────────────────────────────────── */
+
+/** Where secrets entered (or were caught leaving) a session. */
+export type SecretAuditSource =
+  | 'session-create'
+  | 'exec'
+  | 'exec-stream'
+  | 'sdk-stream'
+  | 'sdk-ws'
+  | 'agent'
+  | 'chat-output'
+  | 'git-diff'
+  | 'git-commit'
+  | 'git-pr'
+  | 'pr-review';
+
+export interface SecretAuditEntry {
+  id: string;
+  userId: string;
+  sessionId: string;
+  /**
+   * `injected` — names handed to the sandbox; `redacted` — values masked in
+   * output; `blocked` — an action refused because it would publish a value
+   */
+  kind: 'injected' | 'redacted' | 'blocked';
+  source: SecretAuditSource;
+  names: string[];
+  at: string;
+}
+
+/** Compiled matcher over a user's stored secret values. */
+export interface SecretRedactor {
+  patterns: Array<{ name: string; forms: string[] }>;
+}
+
+export interface RedactionResult {
+  text: string;
+  /** Names whose values were masked */
+  names: string[];
+}
+
+/* ── Constants ────────────────────────────────── */
+
+/** Audit entries are kept for 90 days */
+const AUDIT_TTL = 90 * 24 * 60 * 60;
+const MAX_AUDIT_ENTRIES = 200;
+/** Shorter values match too much ordinary text to be worth masking */
+const MIN_SECRET_LENGTH = 8;
+
+/* ── Audit log ────────────────────────────────── */
+
+/** `secret-audit:{sessionId}:{at}:{id}` in SESSIONS_KV — lists oldest first per session. */
+function auditPrefix(sessionId: string): string {
+  return `secret-audit:${sessionId}:`;
+}
+
+/** Record an audit entry. Never throws — auditing must not break a run. */
+export async function recordSecretAudit(
+  kv: KVNamespace,
+  entry: Omit<SecretAuditEntry, 'id' | 'at'>
+): Promise<void> {
+  if (entry.names.length === 0) return;
+  const full: SecretAuditEntry = { ...entry, id: crypto.randomUUID(), at: new Date().toISOString() };
+  try {
+    await kv.put(`${auditPrefix(entry.sessionId)}${full.at}:${full.id}`, JSON.stringify(full), {
+      expirationTtl: AUDIT_TTL,
+    });
+  } catch (err) {
+    console.error('[secret-audit] record failed:', err);
+  }
+}
+
+/** Newest entries first, capped at MAX_AUDIT_ENTRIES. */
+export async function listSecretAudit(kv: KVNamespace, sessionId: string): Promise<SecretAuditEntry[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: auditPrefix(sessionId), ...(cursor ? { cursor } : {}) });
+    for (const key of page.keys) names.push(key.name);
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const newest = names.slice(-MAX_AUDIT_ENTRIES).reverse();
+  const entries = await Promise.all(newest.map((name) => kv.get<SecretAuditEntry>(name, 'json')));
+  return entries.filter((e): e is SecretAuditEntry => e !== null);
+}
+
+/* ── Redaction ────────────────────────────────── */
+
+export function redactionMarker(name: string): string {
+  return `[REDACTED:${name}]`;
+}
+
+/**
+ * Build a matcher for a secrets map. Each value is matched raw and in its
+ * JSON-escaped form, so NDJSON lines are caught without parsing them.
+ * Longer values are tried first so one secret containing another masks whole.
+ */
+export function createRedactor(secrets: Record<string, string>): SecretRedactor {
+  const patterns = Object.entries(secrets)
+    .filter(([, value]) => value.length >= MIN_SECRET_LENGTH)
+    .map(([name, value]) => ({ name, forms: [...new Set([value, JSON.stringify(value).slice(1, -1)])] }))
+    .sort((a, b) => Math.max(...b.forms.map((f) => f.length)) - Math.max(...a.forms.map((f) => f.length)));
+  return { patterns };
+}
+
+export function redactSecrets(redactor: SecretRedactor, text: string): RedactionResult {
+  const names: string[] = [];
+  let result = text;
+  for (const { name, forms } of redactor.patterns) {
+    for (const form of forms) {
+      if (!result.includes(form)) continue;
+      result = result.split(form).join(redactionMarker(name));
+      if (!names.includes(name)) names.push(name);
+    }
+  }
+  return { text: result, names };
+}
+
+/**
+ * Redact one piece of streamed text that may continue in the next piece.
+ * `held` is what the previous call kept back. The last `longest - 1`
+ * characters are kept back again, so a value split across pieces is still
+ * whole when it is matched; pass `final` to release everything.
+ */
+export function redactDelta(
+  redactor: SecretRedactor,
+  held: string,
+  text: string,
+  final = false
+): RedactionResult & { held: string } {
+  const { text: redacted, names } = redactSecrets(redactor, held + text);
+  const longest = Math.max(0, ...redactor.patterns.flatMap((p) => p.forms.map((f) => f.length)));
+  const keep = final ? 0 : Math.min(redacted.length, Math.max(0, longest - 1));
+  return {
+    text: redacted.slice(0, redacted.length - keep),
+    held: redacted.slice(redacted.length - keep),
+    names,
+  };
+}
+
+/** Redactor over the user's stored secrets plus any extra values (e.g. the GitHub token). */
+export async function loadRedactor(
+  env: Env,
+  userId: string,
+  extra: Record<string, string> = {}
+): Promise<SecretRedactor> {
+  return createRedactor({ ...(await readUserSecrets(env, userId)), ...extra });
+}
+
+/** The NDJSON event the browser receives when output was masked. */
+export function secretRedactedEvent(names: string[], source: SecretAuditSource): Record<string, unknown> {
+  return { type: 'secret-redacted', names, source };
+}
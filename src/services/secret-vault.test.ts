@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dropPreviousDataKey,
+  isSealed,
+  openSecret,
+  readKeyring,
+  rewrapKeyring,
+  rotateDataKey,
+  sealSecret,
+  SecretVaultError,
+} from './secret-vault';
+import {
+  matchesRepoPattern,
+  readScopedUserSecrets,
+  readUserSecrets,
+  selectSecretNames,
+  userSecretNames,
+  userSecretsKey,
+  writeUserSecrets,
+} from './user-secrets';
+import { memoryKv } from '../test-utils/memory-kv';
+
+function makeEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    AUTH_KV: memoryKv(),
+    SESSIONS_KV: memoryKv(),
+    SECRETS_MASTER_KEY: 'master-one',
+    ...overrides,
+  } as unknown as Env;
+}
+
+describe('sealSecret / openSecret', () => {
+  it('round-trips and never stores the plaintext', async () => {
+    const env = makeEnv();
+    const sealed = await sealSecret(env, 'u1', 'sk-live-123');
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain('sk-live-123');
+    expect(await openSecret(env, 'u1', sealed)).toBe('sk-live-123');
+  });
+
+  it('passes legacy plaintext through unchanged', async () => {
+    expect(await openSecret(makeEnv(), 'u1', 'ghp_legacy')).toBe('ghp_legacy');
+  });
+
+  it('seals parallel first writes under one data key', async () => {
+    const env = makeEnv();
+    const sealed = await Promise.all(['a', 'b', 'c'].map((v) => sealSecret(env, 'u-parallel', v)));
+    expect(await Promise.all(sealed.map((v) => openSecret(env, 'u-parallel', v)))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('refuses to seal without a master key', async () => {
+    await expect(sealSecret(makeEnv({ SECRETS_MASTER_KEY: undefined }), 'u1', 'x'))
+      .rejects.toBeInstanceOf(SecretVaultError);
+  });
+});
+
+describe('rotation', () => {
+  it('rewraps data keys under a new master key', async () => {
+    const authKv = memoryKv();
+    const before = makeEnv({ AUTH_KV: authKv });
+    const sealed = await sealSecret(before, 'u1', 'value');
+
+    const after = makeEnv({ AUTH_KV: authKv, SECRETS_MASTER_KEY: 'master-two', SECRETS_MASTER_KEY_PREVIOUS: 'master-one' });
+    expect(await rewrapKeyring(after, 'u1')).toBe(true);
+    expect(await rewrapKeyring(after, 'u1')).toBe(false);
+
+    // Old master retired entirely — the rewrapped DEK still opens the value
+    const retired = makeEnv({ AUTH_KV: authKv, SECRETS_MASTER_KEY: 'master-two' });
+    expect(await openSecret(retired, 'u1', sealed)).toBe('value');
+  });
+
+  it('keeps values under the previous data key readable until dropped', async () => {
+    const env = makeEnv();
+    const old = await sealSecret(env, 'u1', 'old');
+    await rotateDataKey(env, 'u1');
+    await expect(rotateDataKey(env, 'u1')).rejects.toBeInstanceOf(SecretVaultError);
+    expect(await openSecret(env, 'u1', old)).toBe('old');
+
+    await dropPreviousDataKey(env, 'u1');
+    expect((await readKeyring(env, 'u1'))?.previous).toBeUndefined();
+    await expect(openSecret(env, 'u1', old)).rejects.toBeInstanceOf(SecretVaultError);
+  });
+});
+
+describe('user secrets', () => {
+  it('lists names without a master key and reads legacy maps', async () => {
+    const env = makeEnv();
+    await writeUserSecrets(env, 'u1', { OPENAI_API_KEY: 'sk-1' });
+    expect(await userSecretNames(env.SESSIONS_KV, 'u1')).toEqual(['OPENAI_API_KEY']);
+    expect(await env.SESSIONS_KV.get(userSecretsKey('u1'))).not.toContain('sk-1');
+    expect(await readUserSecrets(env, 'u1')).toEqual({ OPENAI_API_KEY: 'sk-1' });
+
+    await env.SESSIONS_KV.put(userSecretsKey('u2'), JSON.stringify({ LEGACY: 'plain', BAD: 1 }));
+    expect(await readUserSecrets(env, 'u2')).toEqual({ LEGACY: 'plain' });
+  });
+});
+
+describe('secret scopes', () => {
+  it('matches repo patterns across URL variants', () => {
+    expect(matchesRepoPattern('github.com/acme/*', 'https://github.com/Acme/app.git')).toBe(true);
+    expect(matchesRepoPattern('github.com/acme/*', 'https://github.com/acme/app/tree')).toBe(false);
+    expect(matchesRepoPattern('github.com/acme/**', 'https://github.com/acme/app/tree')).toBe(true);
+    expect(matchesRepoPattern('https://github.com/acme/app', 'https://github.com/acme/app-two')).toBe(false);
+  });
+
+  it('selects by scope unless the session picked explicitly', async () => {
+    const env = makeEnv();
+    await writeUserSecrets(env, 'u1', { GLOBAL: 'g', STRIPE_KEY: 's', ONE_OFF: 'o' }, {
+      STRIPE_KEY: { scope: 'project', gitRepo: 'github.com/acme/billing' },
+      ONE_OFF: { scope: 'manual' },
+    });
+    const scoped = await readScopedUserSecrets(env, 'u1');
+
+    expect(selectSecretNames(scoped, { gitRepo: 'https://github.com/acme/playground' })).toEqual(['GLOBAL']);
+    expect(selectSecretNames(scoped, { gitRepo: 'https://github.com/acme/billing' })).toEqual(['GLOBAL', 'STRIPE_KEY']);
+    expect(selectSecretNames(scoped, { names: ['ONE_OFF', 'DELETED'] })).toEqual(['ONE_OFF']);
+  });
+});
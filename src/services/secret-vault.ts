@@ -0,0 +1,298 @@
+/**
+ * Envelope encryption for credentials at rest in KV.
+ *
+ * Each user gets a random AES-GCM data key (DEK). The DEK is stored in
+ * AUTH_KV wrapped by a key-encryption key derived from the worker secret
+ * SECRETS_MASTER_KEY, so a KV dump alone reveals nothing. Sealed values are
+ * tagged strings (`vfenc:v1:{dekId}:{iv}:{ciphertext}`); anything without
+ * the tag is a legacy plaintext record and is returned unchanged, which lets
+ * readers work before and after migration.
+ *
+ * Rotation:
+ * - Master key: deploy the new secret as SECRETS_MASTER_KEY and the old one
+ *   as SECRETS_MASTER_KEY_PREVIOUS, then rewrap every user's DEK.
+ * - Data key: rotateDataKey() mints a new DEK and keeps the old one as
+ *   `previous` so values sealed under it still open until they are resealed.
+ */
+
+/* ── Types ────────────────────────────────────── */
+
+/** A user's data key, wrapped by the master key identified by `kid`. */
+export interface WrappedDataKey {
+  id: string;
+  /** Fingerprint of the master key that wrapped this DEK */
+  kid: string;
+  iv: string;
+  wrapped: string;
+  createdAt: string;
+}
+
+export interface UserKeyring {
+  current: WrappedDataKey;
+  /** Kept after a DEK rotation until every record is resealed */
+  previous?: WrappedDataKey;
+}
+
+interface MasterKey {
+  kid: string;
+  key: CryptoKey;
+}
+
+export class SecretVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretVaultError';
+  }
+}
+
+/* ── Constants ────────────────────────────────── */
+
+const SEALED_PREFIX = 'vfenc:v1:';
+const KEK_INFO = 'vaporforge-secret-vault-kek';
+const IV_BYTES = 12;
+
+/* ── KV keys ──────────────────────────────────── */
+
+export function keyringKey(userId: string): string {
+  return `user-dek:${userId}`;
+}
+
+/* ── Encoding ─────────────────────────────────── */
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(str: string): Uint8Array {
+  const binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+function randomId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(4)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/* ── Master keys ──────────────────────────────── */
+
+const masterCache = new Map<string, Promise<MasterKey>>();
+
+function deriveMasterKey(secret: string): Promise<MasterKey> {
+  let cached = masterCache.get(secret);
+  if (!cached) {
+    cached = (async () => {
+      const encoder = new TextEncoder();
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(secret)));
+      const kid = Array.from(digest.slice(0, 4)).map((b) => b.toString(16).padStart(2, '0')).join('');
+      const base = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+      const key = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(KEK_INFO) },
+        base,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      return { kid, key };
+    })();
+    masterCache.set(secret, cached);
+  }
+  return cached;
+}
+
+async function currentMaster(env: Env): Promise<MasterKey> {
+  if (!env.SECRETS_MASTER_KEY) {
+    throw new SecretVaultError('SECRETS_MASTER_KEY is not configured');
+  }
+  return deriveMasterKey(env.SECRETS_MASTER_KEY);
+}
+
+async function masterFor(env: Env, kid: string): Promise<MasterKey> {
+  for (const secret of [env.SECRETS_MASTER_KEY, env.SECRETS_MASTER_KEY_PREVIOUS]) {
+    if (!secret) continue;
+    const master = await deriveMasterKey(secret);
+    if (master.kid === kid) return master;
+  }
+  throw new SecretVaultError(`No master key available for kid ${kid}`);
+}
+
+/* ── Data keys ────────────────────────────────── */
+
+async function wrapDataKey(master: MasterKey, raw: Uint8Array, id: string): Promise<WrappedDataKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrapped = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, master.key, raw));
+  return { id, kid: master.kid, iv: toBase64Url(iv), wrapped: toBase64Url(wrapped), createdAt: new Date().toISOString() };
+}
+
+async function unwrapRaw(env: Env, dek: WrappedDataKey): Promise<Uint8Array> {
+  const master = await masterFor(env, dek.kid);
+  return new Uint8Array(await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(dek.iv) },
+    master.key,
+    fromBase64Url(dek.wrapped)
+  ));
+}
+
+/** Unwrapped DEKs per isolate, keyed by the wrapped blob so a rewrap or rotation misses. */
+const dataKeyCache = new Map<string, Promise<CryptoKey>>();
+
+function unwrapDataKey(env: Env, dek: WrappedDataKey): Promise<CryptoKey> {
+  let cached = dataKeyCache.get(dek.wrapped);
+  if (!cached) {
+    cached = unwrapRaw(env, dek).then((raw) =>
+      crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt'])
+    );
+    cached.catch(() => dataKeyCache.delete(dek.wrapped));
+    dataKeyCache.set(dek.wrapped, cached);
+  }
+  return cached;
+}
+
+async function mintDataKey(env: Env): Promise<WrappedDataKey> {
+  const raw = crypto.getRandomValues(new Uint8Array(32));
+  return wrapDataKey(await currentMaster(env), raw, randomId());
+}
+
+export async function readKeyring(env: Env, userId: string): Promise<UserKeyring | null> {
+  return env.AUTH_KV.get<UserKeyring>(keyringKey(userId), 'json');
+}
+
+/** Keyring lookups in flight per isolate, so parallel first seals share one creation. */
+const keyringLookups = new Map<string, Promise<UserKeyring>>();
+
+async function readOrCreateKeyring(env: Env, userId: string): Promise<UserKeyring> {
+  const existing = await readKeyring(env, userId);
+  if (existing) return existing;
+  const keyring: UserKeyring = { current: await mintDataKey(env) };
+  await env.AUTH_KV.put(keyringKey(userId), JSON.stringify(keyring));
+  return keyring;
+}
+
+/**
+ * Return the user's keyring, creating it on first use. KV has no
+ * put-if-absent and a read right after a put may still miss it, so two
+ * writers racing here would each mint a DEK and whatever the loser sealed
+ * could never be opened. Creation is funnelled through one lookup per
+ * isolate, so concurrent first seals all land under the same DEK.
+ */
+export function ensureKeyring(env: Env, userId: string): Promise<UserKeyring> {
+  let lookup = keyringLookups.get(userId);
+  if (!lookup) {
+    lookup = readOrCreateKeyring(env, userId);
+    const clear = () => keyringLookups.delete(userId);
+    lookup.then(clear, clear);
+    keyringLookups.set(userId, lookup);
+  }
+  return lookup;
+}
+
+/* ── Seal / open ──────────────────────────────── */
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+/** Encrypt a value under the user's current data key (created on first use). */
+export async function sealSecret(env: Env, userId: string, plaintext: string): Promise<string> {
+  const { current } = await ensureKeyring(env, userId);
+  const key = await unwrapDataKey(env, current);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  ));
+  return `${SEALED_PREFIX}${current.id}:${toBase64Url(iv)}:${toBase64Url(ciphertext)}`;
+}
+
+/** Decrypt a sealed value. Legacy plaintext (no tag) is returned as-is. */
+export async function openSecret(env: Env, userId: string, stored: string): Promise<string> {
+  if (!isSealed(stored)) return stored;
+  const [dekId, iv, ciphertext] = stored.slice(SEALED_PREFIX.length).split(':');
+  const keyring = await readKeyring(env, userId);
+  const dek = [keyring?.current, keyring?.previous].find((k) => k?.id === dekId);
+  if (!dek) throw new SecretVaultError(`Data key ${dekId} not found for user`);
+
+  const key = await unwrapDataKey(env, dek);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(iv) },
+    key,
+    fromBase64Url(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+export async function sealJson(env: Env, userId: string, value: unknown): Promise<string> {
+  return sealSecret(env, userId, JSON.stringify(value));
+}
+
+/** Open a sealed or legacy-plaintext JSON record. Returns null when unparseable. */
+export async function openJson<T>(env: Env, userId: string, stored: string): Promise<T | null> {
+  const text = await openSecret(env, userId, stored);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+/* ── Rotation ─────────────────────────────────── */
+
+/**
+ * Re-wrap a user's data keys under the current master key. Run for every
+ * user after promoting a new SECRETS_MASTER_KEY; sealed values are untouched.
+ * Returns true when anything was rewritten.
+ */
+export async function rewrapKeyring(env: Env, userId: string): Promise<boolean> {
+  const keyring = await readKeyring(env, userId);
+  if (!keyring) return false;
+  const master = await currentMaster(env);
+
+  let changed = false;
+  const rewrap = async (dek: WrappedDataKey): Promise<WrappedDataKey> => {
+    if (dek.kid === master.kid) return dek;
+    changed = true;
+    return { ...(await wrapDataKey(master, await unwrapRaw(env, dek), dek.id)), createdAt: dek.createdAt };
+  };
+
+  const next: UserKeyring = {
+    current: await rewrap(keyring.current),
+    ...(keyring.previous ? { previous: await rewrap(keyring.previous) } : {}),
+  };
+  if (changed) await env.AUTH_KV.put(keyringKey(userId), JSON.stringify(next));
+  return changed;
+}
+
+/**
+ * Mint a new data key for the user. The old key stays readable as
+ * `previous`; the caller reseals the user's records, then calls
+ * dropPreviousDataKey(). A second rotation before that would orphan
+ * values sealed under the key it drops, so it is refused.
+ */
+export async function rotateDataKey(env: Env, userId: string): Promise<UserKeyring> {
+  const keyring = await readKeyring(env, userId);
+  if (keyring?.previous) {
+    throw new SecretVaultError('A previous data key is still in use; finish resealing first');
+  }
+  const next: UserKeyring = {
+    current: await mintDataKey(env),
+    ...(keyring ? { previous: keyring.current } : {}),
+  };
+  await env.AUTH_KV.put(keyringKey(userId), JSON.stringify(next));
+  return next;
+}
+
+export async function dropPreviousDataKey(env: Env, userId: string): Promise<void> {
+  const keyring = await readKeyring(env, userId);
+  if (!keyring?.previous) return;
+  await env.AUTH_KV.put(keyringKey(userId), JSON.stringify({ current: keyring.current }));
+}
+
+/** True when the value is plaintext or sealed under something other than the current DEK. */
+export async function needsReseal(env: Env, userId: string, stored: string): Promise<boolean> {
+  if (!isSealed(stored)) return true;
+  const keyring = await readKeyring(env, userId);
+  return stored.slice(SEALED_PREFIX.length).split(':')[0] !== keyring?.current.id;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseViewerMessage, presenceList, removeQueued, type QueuedPrompt, type ViewerInfo } from './session-presence';
+
+function viewer(userId: string, joinedAt: string, typing = false): ViewerInfo {
+  return { userId, email: `${userId}@example.com`, access: 'collaborator', typing, joinedAt };
+}
+
+function queued(id: string, userId: string): QueuedPrompt {
+  return { id, userId, email: `${userId}@example.com`, prompt: 'p', queuedAt: '' };
+}
+
+describe('session presence', () => {
+  it('parses viewer frames and drops malformed ones', () => {
+    expect(parseViewerMessage('{"type":"typing","typing":true}')).toEqual({ type: 'typing', typing: true });
+    expect(parseViewerMessage('{"type":"enqueue","prompt":"  fix it  ","model":""}')).toEqual({
+      type: 'enqueue', prompt: 'fix it', mode: undefined, model: undefined, autonomy: undefined,
+    });
+    expect(parseViewerMessage('{"type":"enqueue","prompt":"   "}')).toBeNull();
+    expect(parseViewerMessage('{"type":"cancel"}')).toBeNull();
+    expect(parseViewerMessage('not json')).toBeNull();
+  });
+
+  it('lists each user once, typing if any tab is', () => {
+    const list = presenceList([
+      viewer('bob', '2026-01-01T00:02:00Z'),
+      viewer('alice', '2026-01-01T00:01:00Z'),
+      viewer('bob', '2026-01-01T00:00:30Z', true),
+    ]);
+    expect(list.map((v) => [v.userId, v.typing])).toEqual([['bob', true], ['alice', false]]);
+  });
+
+  it('lets members withdraw only their own prompts unless they own the session', () => {
+    const queue = [queued('q1', 'alice'), queued('q2', 'bob')];
+    expect(removeQueued(queue, 'q1', { userId: 'bob', access: 'collaborator' })).toBeNull();
+    expect(removeQueued(queue, 'q2', { userId: 'bob', access: 'collaborator' })?.map((q) => q.id)).toEqual(['q1']);
+    expect(removeQueued(queue, 'q2', { userId: 'alice', access: 'owner' })?.map((q) => q.id)).toEqual(['q1']);
+  });
+});
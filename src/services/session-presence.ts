@@ -0,0 +1,127 @@
+/**
+ * Presence and prompt-queue state for sessions with several viewers.
+ *
+ * ChatSessionAgent holds one hibernatable "watch" socket per open browser
+ * tab. Each socket carries a ViewerInfo attachment; the agent fans every
+ * stream line out to them and relays typing, queue and approval updates.
+ * Prompts sent while another run is in flight are queued and dispatched in
+ * order as each run ends, always under the queuing member's own account.
+ */
+import type { SessionAccess } from './orgs';
+import type { JobRunRef } from './scheduled-jobs';
+import type { GithubTaskRef } from './github-triggers';
+
+/* ── Types ────────────────────────────────────── */
+
+export interface ViewerInfo {
+  userId: string;
+  email: string;
+  access: SessionAccess;
+  typing: boolean;
+  joinedAt: string;
+}
+
+export interface QueuedPrompt {
+  id: string;
+  userId: string;
+  email: string;
+  prompt: string;
+  mode?: string;
+  model?: string;
+  autonomy?: string;
+  /** Set when a scheduled job queued the prompt */
+  jobRun?: JobRunRef;
+  /** Set when a GitHub webhook trigger queued the prompt */
+  githubTask?: GithubTaskRef;
+  queuedAt: string;
+}
+
+/** Frames the agent sends down a watch socket. */
+export type WatchFrame =
+  | { type: 'presence'; viewers: ViewerInfo[] }
+  | { type: 'queue'; items: QueuedPrompt[] }
+  | { type: 'run'; state: 'started' | 'ended'; executionId: string; userId: string }
+  | { type: 'line'; line: string }
+  | { type: 'approval-resolved'; approvalId: string; approved: boolean; userId?: string }
+  | { type: 'error'; error: string };
+
+/** Messages a viewer may send up a watch socket. */
+export type ViewerMessage =
+  | { type: 'typing'; typing: boolean }
+  | { type: 'enqueue'; prompt: string; mode?: string; model?: string; autonomy?: string }
+  | { type: 'cancel'; id: string };
+
+/* ── Constants ────────────────────────────────── */
+
+export const MAX_QUEUE_LENGTH = 20;
+const MAX_QUEUED_PROMPT_LENGTH = 50_000;
+
+/* ── Helpers ──────────────────────────────────── */
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/** Validate a raw viewer frame. Unknown or malformed frames are dropped. */
+export function parseViewerMessage(raw: string): ViewerMessage | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+
+  switch (data.type) {
+    case 'typing':
+      return { type: 'typing', typing: data.typing === true };
+    case 'enqueue': {
+      const prompt = typeof data.prompt === 'string' ? data.prompt.trim() : '';
+      if (!prompt || prompt.length > MAX_QUEUED_PROMPT_LENGTH) return null;
+      return {
+        type: 'enqueue',
+        prompt,
+        mode: optionalString(data.mode),
+        model: optionalString(data.model),
+        autonomy: optionalString(data.autonomy),
+      };
+    }
+    case 'cancel':
+      return typeof data.id === 'string' ? { type: 'cancel', id: data.id } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * One entry per user — a member with two tabs open shows once, typing if
+ * either tab is. Ordered by who arrived first.
+ */
+export function presenceList(sockets: ViewerInfo[]): ViewerInfo[] {
+  const byUser = new Map<string, ViewerInfo>();
+  for (const viewer of sockets) {
+    const seen = byUser.get(viewer.userId);
+    if (!seen) {
+      byUser.set(viewer.userId, { ...viewer });
+      continue;
+    }
+    seen.typing ||= viewer.typing;
+    if (viewer.joinedAt < seen.joinedAt) seen.joinedAt = viewer.joinedAt;
+  }
+  return [...byUser.values()].sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+}
+
+/** Viewers cannot drive the session; collaborators and the owner can. */
+export function canDrive(access: SessionAccess): boolean {
+  return access !== 'viewer';
+}
+
+/** A member may withdraw their own queued prompt; the owner may withdraw any. */
+export function removeQueued(
+  queue: QueuedPrompt[],
+  id: string,
+  by: Pick<ViewerInfo, 'userId' | 'access'>
+): QueuedPrompt[] | null {
+  const item = queue.find((q) => q.id === id);
+  if (!item || (item.userId !== by.userId && by.access !== 'owner')) return null;
+  return queue.filter((q) => q.id !== id);
+}
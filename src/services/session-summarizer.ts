@@ -80,10 +80,11 @@ function buildRuleBasedSummary(
  * Returns null if the session has fewer than MIN_MESSAGES messages.
  */
 export async function summarizeSession(
-  kv: KVNamespace,
+  env: Env,
   userId: string,
   sessionId: string
 ): Promise<string | null> {
+  const kv = env.SESSIONS_KV;
   const prefix = `message:${sessionId}:`;
   const list = await kv.list({ prefix });
 
@@ -101,7 +102,7 @@ export async function summarizeSession(
 
   let credentials: ProviderCredentials | undefined;
   try {
-    credentials = await getProviderCredentials(kv, userId);
+    credentials = await getProviderCredentials(env, userId);
   } catch {}
 
   return buildSessionSummary(messages, credentials);
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createRedactor } from './secret-audit';
+import {
+  HIDDEN_CONTENT,
+  createShareLink,
+  redactSharedTranscript,
+  resolveShareLink,
+  revokeShareLink,
+} from './share-links';
+import type { Transcript } from './transcript-export';
+import { memoryKv } from '../test-utils/memory-kv';
+
+const SECRET = 'test-signing-secret';
+
+function transcript(): Transcript {
+  return {
+    session: { id: 's1', createdAt: '', lastActiveAt: '' },
+    exportedAt: '',
+    summary: { text: 'Rotated sk-live-abcdef123456', updatedAt: '', messageCount: 2 },
+    usage: { totals: { prompts: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }, runs: [] },
+    messages: [{
+      id: 'm1',
+      sessionId: 's1',
+      role: 'assistant',
+      content: 'Used sk-live-abcdef123456',
+      timestamp: '',
+      toolCalls: [
+        { id: 't1', name: 'Read', input: { file_path: '/workspace/.env' }, output: 'KEY=private' },
+        { id: 't2', name: 'Write', input: { file_path: '/workspace/src/a.ts', content: 'export const a = 1;' } },
+        { id: 't3', name: 'Write', input: { file_path: '/workspace/notes.txt', content: 'private notes' } },
+      ],
+    }],
+  };
+}
+
+describe('share links', () => {
+  it('resolves a minted link until it is revoked', async () => {
+    const kv = memoryKv();
+    const { link, token } = await createShareLink(kv, SECRET, { id: 's1' }, 'u1', {
+      ttlHours: 1,
+      includeFileContents: false,
+    });
+
+    expect((await resolveShareLink(kv, SECRET, token))?.id).toBe(link.id);
+    expect(await resolveShareLink(kv, 'other-secret', token)).toBeNull();
+
+    await revokeShareLink(kv, 's1', link.id);
+    expect(await resolveShareLink(kv, SECRET, token)).toBeNull();
+  });
+
+  it('masks secrets and hides file contents outside the diff by default', () => {
+    const redactor = createRedactor({ STRIPE_KEY: 'sk-live-abcdef123456' });
+    const diff = 'diff --git a/src/a.ts b/src/a.ts\n+export const a = 1;\n';
+    const shared = redactSharedTranscript(transcript(), redactor, { includeFileContents: false, diff });
+
+    const [message] = shared.messages;
+    expect(message.content).toBe('Used [REDACTED:STRIPE_KEY]');
+    expect(shared.summary?.text).toBe('Rotated [REDACTED:STRIPE_KEY]');
+    expect(message.toolCalls?.[0].output).toBe(HIDDEN_CONTENT);
+    expect(message.toolCalls?.[1].input.content).toBe('export const a = 1;');
+    expect(message.toolCalls?.[2].input).toEqual({ file_path: '/workspace/notes.txt', content: HIDDEN_CONTENT });
+
+    const full = redactSharedTranscript(transcript(), redactor, { includeFileContents: true });
+    expect(full.messages[0].toolCalls?.[0].output).toBe('KEY=private');
+  });
+});
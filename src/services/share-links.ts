@@ -0,0 +1,181 @@
+/**
+ * Read-only share links for session transcripts.
+ *
+ * A link is a signed token (see utils/jwt) naming a record in SESSIONS_KV.
+ * The signature makes links unguessable and self-expiring; the record makes
+ * them revocable — deleting it kills the link before its token expires.
+ * Transcripts are rendered live from the message entries and rolling summary,
+ * with the working-tree diff snapshotted when the link is minted.
+ */
+import type { Session } from '../types';
+import { signShareToken, verifyShareToken } from '../utils/jwt';
+import { redactSecrets, type SecretRedactor } from './secret-audit';
+import type { Transcript } from './transcript-export';
+
+/* ── Types ────────────────────────────────────── */
+
+export interface ShareLink {
+  id: string;
+  sessionId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Off by default: tool output and written files outside the diff are hidden */
+  includeFileContents: boolean;
+  diff?: string;
+}
+
+export type ShareLinkInfo = Omit<ShareLink, 'diff'> & { hasDiff: boolean };
+
+/* ── Constants ────────────────────────────────── */
+
+export const DEFAULT_SHARE_TTL_HOURS = 7 * 24;
+export const MAX_SHARE_TTL_HOURS = 30 * 24;
+const MAX_LINKS_PER_SESSION = 20;
+/** KV values cap at 25 MB; a share page has no use for diffs anywhere near that */
+const MAX_SHARE_DIFF_BYTES = 256 * 1024;
+
+export const HIDDEN_CONTENT = '[hidden in shared view]';
+
+/** Tools whose input carries file contents, keyed to the field holding the path. */
+const FILE_WRITE_TOOLS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+export class ShareLinkError extends Error {
+  constructor(message: string, public status: 404 | 409 = 409) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+/* ── KV keys (SESSIONS_KV) ────────────────────── */
+
+function shareKey(sessionId: string, id: string): string {
+  return `share-link:${sessionId}:${id}`;
+}
+
+/* ── Links ────────────────────────────────────── */
+
+function toInfo({ diff, ...info }: ShareLink): ShareLinkInfo {
+  return { ...info, hasDiff: !!diff };
+}
+
+export async function listShareLinks(kv: KVNamespace, sessionId: string): Promise<ShareLinkInfo[]> {
+  const page = await kv.list({ prefix: `share-link:${sessionId}:` });
+  const links = await Promise.all(page.keys.map((key) => kv.get<ShareLink>(key.name, 'json')));
+  return links
+    .filter((l): l is ShareLink => l !== null)
+    .map(toInfo)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function createShareLink(
+  kv: KVNamespace,
+  secret: string,
+  session: Pick<Session, 'id'>,
+  createdBy: string,
+  options: { ttlHours: number; includeFileContents: boolean; diff?: string }
+): Promise<{ link: ShareLinkInfo; token: string }> {
+  const existing = await kv.list({ prefix: `share-link:${session.id}:` });
+  if (existing.keys.length >= MAX_LINKS_PER_SESSION) {
+    throw new ShareLinkError(`A session can have at most ${MAX_LINKS_PER_SESSION} active share links`);
+  }
+
+  const ttlSeconds = Math.round(options.ttlHours * 60 * 60);
+  const now = new Date();
+  const diff = options.diff && options.diff.length <= MAX_SHARE_DIFF_BYTES ? options.diff : undefined;
+  const link: ShareLink = {
+    id: crypto.randomUUID(),
+    sessionId: session.id,
+    createdBy,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    includeFileContents: options.includeFileContents,
+    ...(diff ? { diff } : {}),
+  };
+  await kv.put(shareKey(session.id, link.id), JSON.stringify(link), { expirationTtl: ttlSeconds });
+
+  const token = await signShareToken(link.id, session.id, secret, ttlSeconds);
+  return { link: toInfo(link), token };
+}
+
+export async function revokeShareLink(kv: KVNamespace, sessionId: string, id: string): Promise<void> {
+  const key = shareKey(sessionId, id);
+  if (!(await kv.get(key))) throw new ShareLinkError('Share link not found', 404);
+  await kv.delete(key);
+}
+
+/** The link a token names — null if forged, expired or revoked. */
+export async function resolveShareLink(kv: KVNamespace, secret: string, token: string): Promise<ShareLink | null> {
+  const payload = await verifyShareToken(token, secret);
+  if (!payload) return null;
+  return kv.get<ShareLink>(shareKey(payload.sessionId, payload.shareId), 'json');
+}
+
+/* ── Redaction ────────────────────────────────── */
+
+/** Paths touched by a unified diff, from its `diff --git a/… b/…` headers. */
+export function diffPaths(diff: string): string[] {
+  const paths = new Set<string>();
+  for (const match of diff.matchAll(/^diff --git a\/(.+?) b\/(.+)$/gm)) {
+    paths.add(match[1]);
+    paths.add(match[2]);
+  }
+  return [...paths];
+}
+
+function inDiff(filePath: string, paths: string[]): boolean {
+  return paths.some((p) => filePath === p || filePath.endsWith(`/${p}`));
+}
+
+function redactValue<T>(redactor: SecretRedactor, value: T): T {
+  return JSON.parse(redactSecrets(redactor, JSON.stringify(value)).text) as T;
+}
+
+/**
+ * Prepare a transcript for viewers without an account. Secrets are always
+ * masked. Unless the link opts in, tool output is hidden and file-writing
+ * tool calls keep their contents only for files that appear in the diff.
+ */
+export function redactSharedTranscript(
+  t: Transcript,
+  redactor: SecretRedactor,
+  link: Pick<ShareLink, 'includeFileContents' | 'diff'>
+): Transcript {
+  const paths = link.diff ? diffPaths(link.diff) : [];
+
+  const messages = t.messages.map((message) => ({
+    ...message,
+    content: redactSecrets(redactor, message.content).text,
+    ...(message.toolCalls ? {
+      toolCalls: message.toolCalls.map((call) => {
+        let input = call.input;
+        let output = call.output;
+        if (!link.includeFileContents) {
+          const pathField = FILE_WRITE_TOOLS[call.name];
+          const filePath = pathField ? input[pathField] : undefined;
+          if (pathField && !(typeof filePath === 'string' && inDiff(filePath, paths))) {
+            input = Object.fromEntries(Object.entries(input).map(([k, v]) => [k, k === pathField ? v : HIDDEN_CONTENT]));
+          }
+          if (output) output = HIDDEN_CONTENT;
+        }
+        return {
+          ...call,
+          input: redactValue(redactor, input),
+          ...(output !== undefined ? { output: redactSecrets(redactor, output).text } : {}),
+        };
+      }),
+    } : {}),
+  }));
+
+  return {
+    ...t,
+    summary: t.summary ? { ...t.summary, text: redactSecrets(redactor, t.summary.text).text } : null,
+    messages,
+    ...(link.diff ? { diff: redactSecrets(redactor, link.diff).text } : {}),
+  };
+}
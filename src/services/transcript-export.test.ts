@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { Session } from '../types';
+import { buildTranscript, renderHtml, renderMarkdown } from './transcript-export';
+
+function memoryKv(entries: Record<string, unknown>, metadata: Record<string, unknown> = {}): KVNamespace {
+  return {
+    get: async (k: string, type?: string) => {
+      if (!(k in entries)) return null;
+      return type === 'json' ? entries[k] : JSON.stringify(entries[k]);
+    },
+    list: async ({ prefix }: { prefix: string }) => ({
+      keys: Object.keys(entries)
+        .filter((k) => k.startsWith(prefix))
+        .map((name) => ({ name, metadata: metadata[name] })),
+      list_complete: true,
+    }),
+  } as unknown as KVNamespace;
+}
+
+const session: Session = {
+  id: 'sess-1234abcd',
+  userId: 'u1',
+  status: 'active',
+  gitRepo: 'https://github.com/acme/app',
+  createdAt: '2026-03-01T00:00:00.000Z',
+  lastActiveAt: '2026-03-01T01:00:00.000Z',
+  metadata: { name: 'Fix login <bug>' },
+};
+
+const now = new Date().toISOString();
+
+async function transcript() {
+  const sessionsKv = memoryKv({
+    'message:sess-1234abcd:b': {
+      id: 'b', sessionId: session.id, role: 'assistant', content: 'Done.', timestamp: '2026-03-01T00:02:00.000Z',
+      toolCalls: [{ id: 't1', name: 'Edit', input: { file_path: 'src/login.ts' }, output: 'ok' }],
+    },
+    'message:sess-1234abcd:a': {
+      id: 'a', sessionId: session.id, role: 'user', content: 'Fix the login bug', timestamp: '2026-03-01T00:01:00.000Z',
+    },
+    'summary:sess-1234abcd': { text: 'Fixed login.', updatedAt: now, messageCount: 10 },
+  });
+  const run = { promptId: 'p1', userId: 'u1', model: 'sonnet', inputTokens: 10, outputTokens: 5, timestamp: now };
+  const authKv = memoryKv(
+    { [`usage:u1:${now.slice(0, 7)}:p1`]: 1, [`usage:u1:${now.slice(0, 7)}:p2`]: 1 },
+    {
+      [`usage:u1:${now.slice(0, 7)}:p1`]: { ...run, sessionId: session.id, costUsd: 0.5 },
+      [`usage:u1:${now.slice(0, 7)}:p2`]: { ...run, promptId: 'p2', sessionId: 'other', costUsd: 9 },
+    }
+  );
+  return buildTranscript(sessionsKv, authKv, session);
+}
+
+describe('buildTranscript', () => {
+  it('orders messages and keeps only ledger runs from this session', async () => {
+    const t = await transcript();
+    expect(t.messages.map((m) => m.id)).toEqual(['a', 'b']);
+    expect(t.usage.runs.map((r) => r.promptId)).toEqual(['p1']);
+    expect(t.usage.totals.costUsd).toBeCloseTo(0.5);
+    expect(t.summary?.text).toBe('Fixed login.');
+  });
+
+  it('counts runs by other members of a shared session', async () => {
+    const run = { model: 'sonnet', inputTokens: 10, outputTokens: 5, timestamp: now, sessionId: session.id };
+    const ownerRun = { ...run, promptId: 'p1', userId: 'u1', costUsd: 0.5 };
+    const memberRun = { ...run, promptId: 'p3', userId: 'u2', costUsd: 0.25 };
+    const authKv = memoryKv(
+      { [`usage:u1:${now.slice(0, 7)}:p1`]: 1, 'usage-session:sess-1234abcd:p1': 1, 'usage-session:sess-1234abcd:p3': 1 },
+      {
+        [`usage:u1:${now.slice(0, 7)}:p1`]: ownerRun,
+        'usage-session:sess-1234abcd:p1': ownerRun,
+        'usage-session:sess-1234abcd:p3': memberRun,
+      }
+    );
+
+    const t = await buildTranscript(memoryKv({}), authKv, session);
+    expect(t.usage.runs.map((r) => r.userId).sort()).toEqual(['u1', 'u2']);
+    expect(t.usage.totals.costUsd).toBeCloseTo(0.75);
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('includes tool calls, summary and cost', async () => {
+    const md = renderMarkdown(await transcript());
+    expect(md).toContain('# Fix login <bug>');
+    expect(md).toContain('## Summary');
+    expect(md).toContain('<summary>Tool: Edit</summary>');
+    expect(md).toContain('"file_path": "src/login.ts"');
+    expect(md).toContain('Cost: $0.50 over 1 run(s)');
+  });
+});
+
+describe('renderHtml', () => {
+  it('escapes user content', async () => {
+    const html = renderHtml(await transcript());
+    expect(html).toContain('<title>Fix login &lt;bug&gt;</title>');
+    expect(html).not.toContain('<bug>');
+  });
+});
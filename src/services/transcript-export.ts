@@ -0,0 +1,261 @@
+import type { Message, Session } from '../types';
+import { listSessionUsage, listUsage, summarizeUsage, type UsageEntry, type UsageTotals } from './usage-ledger';
+
+/* ── Types ────────────────────────────────────── */
+
+export type TranscriptFormat = 'md' | 'json' | 'html';
+
+export interface SessionSummary {
+  text: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+/** Everything an export contains — the JSON format returns this as-is. */
+export interface Transcript {
+  session: {
+    id: string;
+    name?: string;
+    gitRepo?: string;
+    createdAt: string;
+    lastActiveAt: string;
+  };
+  exportedAt: string;
+  summary: SessionSummary | null;
+  usage: {
+    totals: UsageTotals;
+    runs: UsageEntry[];
+  };
+  messages: Message[];
+  /** Working-tree diff captured when a share link was minted */
+  diff?: string;
+}
+
+/* ── Constants ────────────────────────────────── */
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['md', 'json', 'html'];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+/** Ledger entries expire after 400 days; never list further back than that */
+const LEDGER_LOOKBACK_MS = 400 * 24 * 60 * 60 * 1000;
+
+const ROLE_LABEL: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+/* ── Loading ──────────────────────────────────── */
+
+async function loadMessages(kv: KVNamespace, sessionId: string): Promise<Message[]> {
+  const messages: Message[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: `message:${sessionId}:`, ...(cursor ? { cursor } : {}) });
+    const batch = await Promise.all(page.keys.map((key) => kv.get<Message>(key.name, 'json')));
+    for (const message of batch) if (message) messages.push(message);
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Gather messages, the rolling summary and the session's ledger entries.
+ * Messages and summary live in SESSIONS_KV; per-run costs in AUTH_KV, from
+ * the session index (every member's runs) plus the owner's own ledger for
+ * runs recorded before that index existed.
+ */
+export async function buildTranscript(
+  sessionsKv: KVNamespace,
+  authKv: KVNamespace,
+  session: Session
+): Promise<Transcript> {
+  const now = new Date();
+  const from = new Date(Math.max(new Date(session.createdAt).getTime(), now.getTime() - LEDGER_LOOKBACK_MS));
+
+  const [messages, summary, ownerEntries, sessionEntries] = await Promise.all([
+    loadMessages(sessionsKv, session.id),
+    sessionsKv.get<SessionSummary>(`summary:${session.id}`, 'json'),
+    listUsage(authKv, session.userId, from, now),
+    listSessionUsage(authKv, session.id),
+  ]);
+
+  const byPrompt = new Map<string, UsageEntry>();
+  for (const e of [...ownerEntries, ...sessionEntries]) {
+    if (e.sessionId === session.id) byPrompt.set(e.promptId, e);
+  }
+  const runs = [...byPrompt.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const name = session.metadata?.name;
+
+  return {
+    session: {
+      id: session.id,
+      ...(typeof name === 'string' && name ? { name } : {}),
+      ...(session.gitRepo ? { gitRepo: session.gitRepo } : {}),
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt,
+    },
+    exportedAt: now.toISOString(),
+    summary,
+    usage: { totals: summarizeUsage(runs, 'session').totals, runs },
+    messages,
+  };
+}
+
+/* ── Rendering ────────────────────────────────── */
+
+function title(t: Transcript): string {
+  return t.session.name || `Session ${t.session.id.slice(0, 8)}`;
+}
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+}
+
+function toolInput(input: Record<string, unknown>): string {
+  return JSON.stringify(input, null, 2);
+}
+
+/** A code fence longer than any backtick run in the body, so content can't close it early. */
+function fence(body: string, lang = ''): string {
+  const longest = Math.max(2, ...(body.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${body}\n${ticks}`;
+}
+
+export function renderMarkdown(t: Transcript): string {
+  const lines: string[] = [`# ${title(t)}`, ''];
+  lines.push(`- Session: \`${t.session.id}\``);
+  if (t.session.gitRepo) lines.push(`- Repository: ${t.session.gitRepo}`);
+  lines.push(`- Created: ${t.session.createdAt}`);
+  lines.push(`- Exported: ${t.exportedAt}`);
+  const { totals } = t.usage;
+  lines.push(
+    `- Cost: ${formatCost(totals.costUsd)} over ${totals.prompts} run(s) · `
+      + `${totals.inputTokens.toLocaleString('en-US')} in / ${totals.outputTokens.toLocaleString('en-US')} out tokens`,
+    ''
+  );
+
+  if (t.summary) {
+    lines.push('## Summary', '', t.summary.text.trim(), '');
+  }
+
+  lines.push('## Transcript', '');
+  for (const message of t.messages) {
+    lines.push(`### ${ROLE_LABEL[message.role]} · ${message.timestamp}`, '', message.content.trim() || '_(empty)_', '');
+    for (const call of message.toolCalls ?? []) {
+      lines.push('<details>', `<summary>Tool: ${call.name}</summary>`, '', fence(toolInput(call.input), 'json'), '');
+      if (call.output) lines.push(fence(call.output), '');
+      lines.push('</details>', '');
+    }
+  }
+
+  if (t.diff) {
+    lines.push('## Changes', '', fence(t.diff, 'diff'), '');
+  }
+
+  if (t.usage.runs.length > 0) {
+    lines.push('## Usage', '', '| Time | Model | Input | Output | Cost |', '| --- | --- | ---: | ---: | ---: |');
+    for (const run of t.usage.runs) {
+      lines.push(`| ${run.timestamp} | ${run.model} | ${run.inputTokens} | ${run.outputTokens} | ${formatCost(run.costUsd)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+body{font:14px/1.5 system-ui,sans-serif;max-width:860px;margin:2rem auto;padding:0 1rem;color:#1f2328}
+h1{font-size:1.5rem}h2{font-size:1.15rem;margin-top:2rem;border-bottom:1px solid #d0d7de}
+.meta{color:#59636e;font-size:13px}.msg{border:1px solid #d0d7de;border-radius:6px;margin:1rem 0;padding:.75rem 1rem}
+.msg.user{background:#f6f8fa}.role{font-weight:600;font-size:12px;color:#59636e}
+.content{white-space:pre-wrap;word-wrap:break-word}pre{background:#f6f8fa;padding:.5rem;overflow-x:auto;font-size:12px}
+details{margin-top:.5rem}table{border-collapse:collapse;font-size:13px}td,th{border:1px solid #d0d7de;padding:4px 8px;text-align:left}
+`;
+
+/** Self-contained page (inline CSS, no scripts) so it can be attached as a file. */
+export function renderHtml(t: Transcript): string {
+  const { totals } = t.usage;
+  const parts: string[] = [
+    '<!doctype html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(title(t))}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head><body>',
+    `<h1>${escapeHtml(title(t))}</h1>`,
+    '<p class="meta">',
+    `Session <code>${escapeHtml(t.session.id)}</code>`,
+    t.session.gitRepo ? ` · ${escapeHtml(t.session.gitRepo)}` : '',
+    ` · created ${escapeHtml(t.session.createdAt)} · exported ${escapeHtml(t.exportedAt)}<br>`,
+    `Cost ${formatCost(totals.costUsd)} over ${totals.prompts} run(s) · `,
+    `${totals.inputTokens} in / ${totals.outputTokens} out tokens`,
+    '</p>',
+  ];
+
+  if (t.summary) {
+    parts.push('<h2>Summary</h2>', `<div class="content">${escapeHtml(t.summary.text.trim())}</div>`);
+  }
+
+  parts.push('<h2>Transcript</h2>');
+  for (const message of t.messages) {
+    parts.push(
+      `<div class="msg ${message.role}">`,
+      `<div class="role">${ROLE_LABEL[message.role]} · ${escapeHtml(message.timestamp)}</div>`,
+      `<div class="content">${escapeHtml(message.content)}</div>`
+    );
+    for (const call of message.toolCalls ?? []) {
+      parts.push(
+        `<details><summary>Tool: ${escapeHtml(call.name)}</summary>`,
+        `<pre>${escapeHtml(toolInput(call.input))}</pre>`,
+        call.output ? `<pre>${escapeHtml(call.output)}</pre>` : '',
+        '</details>'
+      );
+    }
+    parts.push('</div>');
+  }
+
+  if (t.diff) {
+    parts.push('<h2>Changes</h2>', `<pre>${escapeHtml(t.diff)}</pre>`);
+  }
+
+  if (t.usage.runs.length > 0) {
+    parts.push('<h2>Usage</h2>', '<table><tr><th>Time</th><th>Model</th><th>Input</th><th>Output</th><th>Cost</th></tr>');
+    for (const run of t.usage.runs) {
+      parts.push(
+        `<tr><td>${escapeHtml(run.timestamp)}</td><td>${escapeHtml(run.model)}</td>`
+          + `<td>${run.inputTokens}</td><td>${run.outputTokens}</td><td>${formatCost(run.costUsd)}</td></tr>`
+      );
+    }
+    parts.push('</table>');
+  }
+
+  parts.push('</body></html>');
+  return parts.join('\n');
+}
+
+export function renderTranscript(t: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'md':
+      return renderMarkdown(t);
+    case 'html':
+      return renderHtml(t);
+    case 'json':
+      return JSON.stringify(t, null, 2);
+  }
+}
@@ -0,0 +1,126 @@
+import type { AlertConfig } from '../api/billing';
+import { deliverAlert } from './alert-delivery';
+import { getMaxBudgetUsd } from './budget';
+import { getWindowSpend, spendPeriod, type SpendWindow } from './usage-ledger';
+
+/* ── KV keys ──────────────────────────────────── */
+
+const ALERT_FIRED_TTL = 40 * 24 * 60 * 60;
+
+/** Alerts fire once per period of their window (session, day or month). */
+function alertFiredKey(userId: string, window: SpendWindow, period: string): string {
+  return window === 'session'
+    ? `session-alert-fired:${period}`
+    : `billing-alert-fired:${userId}:${window}:${period}`;
+}
+
+/** Triggered alerts the session's browser has not shown yet */
+function noticesKey(userId: string, sessionId: string): string {
+  return `alert-notices:${userId}:${sessionId}`;
+}
+
+const NOTICES_TTL = 7 * 24 * 60 * 60;
+
+/* ── Triggering ───────────────────────────────── */
+
+/**
+ * Fire alerts whose threshold the current spend has crossed. Called right
+ * after a run's usage reaches the ledger, whatever started the run, so
+ * unattended runs alert too. Triggered alerts are also queued for the
+ * session's browser (takeAlertNotices); webhook/email delivery runs in
+ * `ctx.waitUntil`.
+ */
+export async function checkUsageAlerts(
+  env: Env,
+  ctx: Pick<ExecutionContext, 'waitUntil'>,
+  userId: string,
+  sessionId: string
+): Promise<AlertConfig[]> {
+  const maxBudgetUsd = await getMaxBudgetUsd(env.SESSIONS_KV, userId);
+  if (!maxBudgetUsd) return [];
+
+  // Load user's billing alerts
+  const alertsRaw = await env.AUTH_KV.get(`billing-alerts:${userId}`);
+  if (!alertsRaw) return [];
+  const alerts = JSON.parse(alertsRaw) as AlertConfig[];
+
+  const nowIso = new Date().toISOString();
+  const newlyTriggered: AlertConfig[] = [];
+  // Spend comes from the usage ledger's counters, one read per window in use
+  const spendByWindow = new Map<SpendWindow, number>();
+  const firedByKey = new Map<string, string[]>();
+  const dirtyFiredKeys = new Set<string>();
+
+  for (const alert of alerts) {
+    if (!alert.enabled) continue;
+    const window = alert.window ?? 'session';
+
+    const firedKey = alertFiredKey(userId, window, spendPeriod(window, sessionId, nowIso));
+    let firedIds = firedByKey.get(firedKey);
+    if (!firedIds) {
+      const raw = await env.SESSIONS_KV.get(firedKey);
+      firedIds = raw ? (JSON.parse(raw) as string[]) : [];
+      firedByKey.set(firedKey, firedIds);
+    }
+    if (firedIds.includes(alert.id)) continue;
+
+    let spend = spendByWindow.get(window);
+    if (spend === undefined) {
+      spend = await getWindowSpend(env.AUTH_KV, userId, window, sessionId);
+      spendByWindow.set(window, spend);
+    }
+    if ((spend / maxBudgetUsd) * 100 < alert.thresholdPct) continue;
+
+    // Threshold crossed — mark as triggered
+    alert.triggeredAt = nowIso;
+    alert.triggeredCount += 1;
+    newlyTriggered.push({ ...alert });
+    firedIds.push(alert.id);
+    dirtyFiredKeys.add(firedKey);
+  }
+
+  if (newlyTriggered.length === 0) return [];
+
+  // Persist updated alert records, fired sets and the browser's notices
+  const notices = await env.SESSIONS_KV.get<AlertConfig[]>(noticesKey(userId, sessionId), 'json') ?? [];
+  await Promise.all([
+    env.AUTH_KV.put(`billing-alerts:${userId}`, JSON.stringify(alerts)),
+    env.SESSIONS_KV.put(
+      noticesKey(userId, sessionId),
+      JSON.stringify([...notices, ...newlyTriggered]),
+      { expirationTtl: NOTICES_TTL }
+    ),
+    ...[...dirtyFiredKeys].map((key) =>
+      env.SESSIONS_KV.put(key, JSON.stringify(firedByKey.get(key)), { expirationTtl: ALERT_FIRED_TTL })
+    ),
+  ]);
+
+  for (const alert of newlyTriggered) {
+    const window = alert.window ?? 'session';
+    ctx.waitUntil(deliverAlert(env, userId, alert.channels, alert.delivery ?? {}, {
+      alertId: alert.id,
+      label: alert.label,
+      thresholdPct: alert.thresholdPct,
+      window,
+      spentUsd: spendByWindow.get(window) ?? 0,
+      capUsd: maxBudgetUsd,
+      sessionId,
+      firedAt: nowIso,
+    }));
+  }
+
+  return newlyTriggered;
+}
+
+/** Alerts fired for this session since the last call, oldest first — read once */
+export async function takeAlertNotices(
+  kv: KVNamespace,
+  userId: string,
+  sessionId: string
+): Promise<AlertConfig[]> {
+  const key = noticesKey(userId, sessionId);
+  const notices = await kv.get<AlertConfig[]>(key, 'json');
+  if (!notices) return [];
+  await kv.delete(key);
+  return notices;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWindowSpend,
+  listUsage,
+  recordUsage,
+  summarizeUsage,
+  usageFromDoneEvent,
+  type UsageEntry,
+} from './usage-ledger';
+import { memoryKv } from '../test-utils/memory-kv';
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    promptId: crypto.randomUUID(),
+    userId: 'u1',
+    sessionId: 's1',
+    model: 'claude-sonnet-4-6',
+    inputTokens: 100,
+    outputTokens: 50,
+    costUsd: 0.01,
+    timestamp: '2026-03-10T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('usageFromDoneEvent', () => {
+  const context = { promptId: 'p1', userId: 'u1', sessionId: 's1', model: 'claude-opus-4-6' };
+
+  it('prefers the model reported by the container', () => {
+    const result = usageFromDoneEvent(
+      { type: 'done', model: 'claude-haiku-4-5-20251001', usage: { inputTokens: 10, outputTokens: 5 }, costUsd: 0.002 },
+      { ...context, gitRepo: 'https://github.com/acme/app.git' }
+    );
+    expect(result).toMatchObject({
+      model: 'claude-haiku-4-5-20251001',
+      inputTokens: 10,
+      outputTokens: 5,
+      costUsd: 0.002,
+      repo: 'github.com/acme/app',
+    });
+  });
+
+  it('skips runs with no usage or cost', () => {
+    expect(usageFromDoneEvent({ type: 'done', sessionId: '', fullText: '' }, context)).toBeNull();
+  });
+});
+
+describe('listUsage', () => {
+  it('returns entries inside the window across month buckets', async () => {
+    const kv = memoryKv();
+    await recordUsage(kv, entry({ timestamp: '2026-02-27T00:00:00.000Z' }));
+    await recordUsage(kv, entry({ timestamp: '2026-03-02T00:00:00.000Z' }));
+    await recordUsage(kv, entry({ timestamp: '2026-04-01T00:00:00.000Z' }));
+    await recordUsage(kv, entry({ userId: 'u2', timestamp: '2026-03-02T00:00:00.000Z' }));
+
+    const entries = await listUsage(
+      kv, 'u1', new Date('2026-02-28T00:00:00.000Z'), new Date('2026-03-31T23:59:59.999Z')
+    );
+    expect(entries.map((e) => e.timestamp)).toEqual(['2026-03-02T00:00:00.000Z']);
+  });
+});
+
+describe('recordUsage', () => {
+  it('bumps session, day and month counters once per prompt', async () => {
+    const kv = memoryKv();
+    const now = new Date('2026-03-10T18:00:00.000Z');
+    const first = entry({ promptId: 'p1', costUsd: 0.25 });
+    await recordUsage(kv, first);
+    await recordUsage(kv, first);
+    await recordUsage(kv, entry({ promptId: 'p2', sessionId: 's2', costUsd: 0.5 }));
+
+    expect(await getWindowSpend(kv, 'u1', 'session', 's1', now)).toBeCloseTo(0.25);
+    expect(await getWindowSpend(kv, 'u1', 'day', 's1', now)).toBeCloseTo(0.75);
+    expect(await getWindowSpend(kv, 'u1', 'month', 's1', now)).toBeCloseTo(0.75);
+    expect(await getWindowSpend(kv, 'u1', 'day', 's1', new Date('2026-03-11T00:00:00.000Z'))).toBe(0);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const entries = [
+    entry({ model: 'opus', costUsd: 0.5, timestamp: '2026-03-02T10:00:00.000Z' }),
+    entry({ model: 'sonnet', costUsd: 0.1, timestamp: '2026-03-01T10:00:00.000Z' }),
+    entry({ model: 'opus', costUsd: 0.25, timestamp: '2026-03-01T11:00:00.000Z', repo: 'github.com/acme/app' }),
+  ];
+
+  it('groups by model, highest spend first', () => {
+    const { totals, groups } = summarizeUsage(entries, 'model');
+    expect(totals.prompts).toBe(3);
+    expect(totals.costUsd).toBeCloseTo(0.85);
+    expect(groups.map((g) => [g.key, g.prompts])).toEqual([['opus', 2], ['sonnet', 1]]);
+  });
+
+  it('groups by day in date order', () => {
+    const { groups } = summarizeUsage(entries, 'day');
+    expect(groups.map((g) => g.key)).toEqual(['2026-03-01', '2026-03-02']);
+  });
+
+  it('buckets sessions without a repo under (none)', () => {
+    const { groups } = summarizeUsage(entries, 'repo');
+    expect(groups.map((g) => g.key)).toEqual(['(none)', 'github.com/acme/app']);
+  });
+});
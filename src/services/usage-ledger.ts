@@ -0,0 +1,263 @@
+import { normalizeRepoUrl } from './embeddings';
+
+/* ── Types ────────────────────────────────────── */
+
+/** One completed agent run (a `done` event carrying usage or cost). */
+export interface UsageEntry {
+  /** Execution/prompt ID — the ledger key, so a re-delivered `done` is idempotent */
+  promptId: string;
+  userId: string;
+  sessionId: string;
+  /** Normalized repo URL when the session was cloned from one */
+  repo?: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  timestamp: string;
+}
+
+export type UsageGroupBy = 'model' | 'session' | 'day' | 'repo';
+
+/** Period a spend counter covers — used by budget caps and alert thresholds. */
+export type SpendWindow = 'session' | 'day' | 'month';
+
+export interface UsageTotals {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  prompts: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  totals: UsageTotals;
+  groups: UsageGroup[];
+}
+
+/* ── Constants ────────────────────────────────── */
+
+/** 13 months — enough for month-over-month and same-month-last-year reports */
+const LEDGER_TTL = 400 * 24 * 60 * 60;
+/** Longest window a single report may span (bounds KV list calls) */
+export const MAX_RANGE_DAYS = 366;
+const NO_REPO = '(none)';
+/** Counters outlive their period a little so late reads still see the total */
+const COUNTER_TTL: Record<SpendWindow, number> = {
+  session: 30 * 24 * 60 * 60,
+  day: 3 * 24 * 60 * 60,
+  month: 40 * 24 * 60 * 60,
+};
+
+/* ── KV keys ──────────────────────────────────── */
+
+/**
+ * `usage:{userId}:{YYYY-MM}:{promptId}` — bucketed by month so a report
+ * lists one prefix per month in range. The entry rides in list metadata,
+ * so reports never need per-key reads.
+ */
+function entryKey(userId: string, timestamp: string, promptId: string): string {
+  return `${monthPrefix(userId, timestamp.slice(0, 7))}${promptId}`;
+}
+
+/**
+ * `usage-session:{sessionId}:{promptId}` — the same entry indexed by session,
+ * so a shared session's transcript sees every member's runs.
+ */
+function sessionEntryKey(sessionId: string, promptId: string): string {
+  return `usage-session:${sessionId}:${promptId}`;
+}
+
+function monthPrefix(userId: string, month: string): string {
+  return `usage:${userId}:${month}:`;
+}
+
+/** The period a timestamp falls in for a window: session ID, YYYY-MM-DD or YYYY-MM. */
+export function spendPeriod(window: SpendWindow, sessionId: string, timestamp: string): string {
+  switch (window) {
+    case 'session':
+      return sessionId;
+    case 'day':
+      return timestamp.slice(0, 10);
+    case 'month':
+      return timestamp.slice(0, 7);
+  }
+}
+
+function spendKey(userId: string, window: SpendWindow, period: string): string {
+  return `usage-spend:${userId}:${window}:${period}`;
+}
+
+/** Every YYYY-MM between two timestamps, inclusive. */
+function monthsBetween(from: Date, to: Date): string[] {
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1));
+  while (cursor <= to) {
+    months.push(cursor.toISOString().slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+/* ── Recording ────────────────────────────────── */
+
+/**
+ * Normalize a container `done` event into a ledger entry. Returns null for
+ * runs that carry neither usage nor cost (errors, aborted runs).
+ */
+export function usageFromDoneEvent(
+  event: Record<string, unknown>,
+  context: { promptId: string; userId: string; sessionId: string; model?: string; gitRepo?: string }
+): UsageEntry | null {
+  const usage = (event.usage ?? {}) as { inputTokens?: unknown; outputTokens?: unknown };
+  const inputTokens = typeof usage.inputTokens === 'number' ? usage.inputTokens : 0;
+  const outputTokens = typeof usage.outputTokens === 'number' ? usage.outputTokens : 0;
+  const costUsd = typeof event.costUsd === 'number' ? event.costUsd : 0;
+  if (inputTokens === 0 && outputTokens === 0 && costUsd === 0) return null;
+
+  return {
+    promptId: context.promptId,
+    userId: context.userId,
+    sessionId: context.sessionId,
+    ...(context.gitRepo ? { repo: normalizeRepoUrl(context.gitRepo) } : {}),
+    // The container reports the model it actually ran (after any fallback)
+    model: (typeof event.model === 'string' && event.model) || context.model || 'unknown',
+    inputTokens,
+    outputTokens,
+    costUsd,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Append an entry and bump the session/day/month spend counters. Counters
+ * are read-modify-write, so concurrent runs by one user can undercount
+ * slightly — fine for budget checks, while reports sum the ledger itself.
+ */
+export async function recordUsage(kv: KVNamespace, entry: UsageEntry): Promise<void> {
+  const key = entryKey(entry.userId, entry.timestamp, entry.promptId);
+  if (await kv.get(key)) return;
+  await Promise.all([key, sessionEntryKey(entry.sessionId, entry.promptId)].map((k) =>
+    kv.put(k, JSON.stringify(entry), { expirationTtl: LEDGER_TTL, metadata: entry })
+  ));
+
+  if (entry.costUsd <= 0) return;
+  const windows: SpendWindow[] = ['session', 'day', 'month'];
+  await Promise.all(windows.map(async (window) => {
+    const counter = spendKey(
+      entry.userId, window, spendPeriod(window, entry.sessionId, entry.timestamp)
+    );
+    const prev = parseFloat((await kv.get(counter)) || '0') || 0;
+    await kv.put(counter, String(prev + entry.costUsd), { expirationTtl: COUNTER_TTL[window] });
+  }));
+}
+
+/** Spend so far in the current period of a window. */
+export async function getWindowSpend(
+  kv: KVNamespace,
+  userId: string,
+  window: SpendWindow,
+  sessionId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const raw = await kv.get(spendKey(userId, window, spendPeriod(window, sessionId, now.toISOString())));
+  return raw ? parseFloat(raw) || 0 : 0;
+}
+
+/* ── Querying ─────────────────────────────────── */
+
+export async function listUsage(
+  kv: KVNamespace,
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<UsageEntry[]> {
+  const entries: UsageEntry[] = [];
+  for (const month of monthsBetween(from, to)) {
+    let cursor: string | undefined;
+    do {
+      const page = await kv.list<UsageEntry>({
+        prefix: monthPrefix(userId, month),
+        ...(cursor ? { cursor } : {}),
+      });
+      for (const key of page.keys) {
+        const entry = key.metadata;
+        if (!entry) continue;
+        const t = new Date(entry.timestamp);
+        if (t >= from && t <= to) entries.push(entry);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+  }
+  return entries;
+}
+
+/** Every run recorded against a session, whichever member started it. */
+export async function listSessionUsage(kv: KVNamespace, sessionId: string): Promise<UsageEntry[]> {
+  const entries: UsageEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<UsageEntry>({
+      prefix: sessionEntryKey(sessionId, ''),
+      ...(cursor ? { cursor } : {}),
+    });
+    for (const key of page.keys) if (key.metadata) entries.push(key.metadata);
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return entries;
+}
+
+function groupKey(entry: UsageEntry, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'model':
+      return entry.model;
+    case 'session':
+      return entry.sessionId;
+    case 'day':
+      return entry.timestamp.slice(0, 10);
+    case 'repo':
+      return entry.repo || NO_REPO;
+  }
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry): void {
+  totals.costUsd += entry.costUsd;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.prompts += 1;
+}
+
+/**
+ * Aggregate entries into per-key totals. Days sort chronologically;
+ * every other grouping sorts by spend, highest first.
+ */
+export function summarizeUsage(entries: UsageEntry[], groupBy: UsageGroupBy): {
+  totals: UsageTotals;
+  groups: UsageGroup[];
+} {
+  const totals: UsageTotals = { costUsd: 0, inputTokens: 0, outputTokens: 0, prompts: 0 };
+  const byKey = new Map<string, UsageGroup>();
+
+  for (const entry of entries) {
+    addTo(totals, entry);
+    const key = groupKey(entry, groupBy);
+    let group = byKey.get(key);
+    if (!group) {
+      group = { key, costUsd: 0, inputTokens: 0, outputTokens: 0, prompts: 0 };
+      byKey.set(key, group);
+    }
+    addTo(group, entry);
+  }
+
+  const groups = [...byKey.values()];
+  groups.sort(groupBy === 'day'
+    ? (a, b) => a.key.localeCompare(b.key)
+    : (a, b) => b.costUsd - a.costUsd);
+  return { totals, groups };
+}
@@ -0,0 +1,160 @@
+import { normalizeRepoUrl } from './embeddings';
+import { isSealed, needsReseal, openJson, sealJson } from './secret-vault';
+
+/**
+ * Which sessions receive a secret:
+ * - global:  every session (the default, and what legacy records get)
+ * - project: sessions whose gitRepo matches the `gitRepo` pattern
+ * - manual:  only sessions that pick it explicitly at creation
+ */
+export type SecretScopeKind = 'global' | 'project' | 'manual';
+
+export interface SecretScope {
+  scope: SecretScopeKind;
+  /** Repo pattern for 'project' scope, e.g. `github.com/acme/*` */
+  gitRepo?: string;
+}
+
+export interface ScopedUserSecrets {
+  secrets: Record<string, string>;
+  /** Only non-global scopes are stored */
+  scopes: Record<string, SecretScope>;
+}
+
+/** What a session asks for: its repo, plus the explicit pick made at creation (if any). */
+export interface SecretSelection {
+  gitRepo?: string;
+  names?: string[];
+}
+
+/**
+ * `user-secrets:{userId}` in SESSIONS_KV. Current format keeps the names and
+ * scopes in the clear next to the sealed name→value map, so presence checks
+ * (config assembly on every wake) never decrypt. Legacy records are a
+ * plaintext map.
+ */
+interface SealedSecretsRecord {
+  names: string[];
+  scopes?: Record<string, SecretScope>;
+  sealed: string;
+}
+
+export function userSecretsKey(userId: string): string {
+  return `user-secrets:${userId}`;
+}
+
+function isSealedRecord(value: unknown): value is SealedSecretsRecord {
+  const record = value as SealedSecretsRecord | null;
+  return typeof record === 'object' && record !== null
+    && Array.isArray(record.names) && typeof record.sealed === 'string' && isSealed(record.sealed);
+}
+
+/** Keep string values only — the map is injected as env vars. */
+function stringEntries(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null) return {};
+  const result: Record<string, string> = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (typeof v === 'string') result[k] = v;
+  }
+  return result;
+}
+
+function parse(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** Read a user's secrets and their scopes (empty on missing/invalid). Opens legacy plaintext too. */
+export async function readScopedUserSecrets(env: Env, userId: string): Promise<ScopedUserSecrets> {
+  const parsed = parse(await env.SESSIONS_KV.get(userSecretsKey(userId)));
+  if (!isSealedRecord(parsed)) return { secrets: stringEntries(parsed), scopes: {} };
+  return {
+    secrets: stringEntries(await openJson(env, userId, parsed.sealed)),
+    scopes: parsed.scopes ?? {},
+  };
+}
+
+/** Read a user's secrets map regardless of scope. */
+export async function readUserSecrets(env: Env, userId: string): Promise<Record<string, string>> {
+  return (await readScopedUserSecrets(env, userId)).secrets;
+}
+
+export async function writeUserSecrets(
+  env: Env,
+  userId: string,
+  secrets: Record<string, string>,
+  scopes: Record<string, SecretScope> = {}
+): Promise<void> {
+  const kept: Record<string, SecretScope> = {};
+  for (const [name, scope] of Object.entries(scopes)) {
+    if (name in secrets && scope.scope !== 'global') kept[name] = scope;
+  }
+  const record: SealedSecretsRecord = {
+    names: Object.keys(secrets),
+    ...(Object.keys(kept).length > 0 ? { scopes: kept } : {}),
+    sealed: await sealJson(env, userId, secrets),
+  };
+  await env.SESSIONS_KV.put(userSecretsKey(userId), JSON.stringify(record));
+}
+
+/** Secret names without decrypting — enough to tell whether a provider key is set. */
+export async function userSecretNames(kv: KVNamespace, userId: string): Promise<string[]> {
+  const parsed = parse(await kv.get(userSecretsKey(userId)));
+  if (isSealedRecord(parsed)) return parsed.names;
+  return Object.keys(stringEntries(parsed));
+}
+
+/** Seal a legacy record, or reseal one under a retired data key. Returns true when rewritten. */
+export async function resealUserSecrets(env: Env, userId: string): Promise<boolean> {
+  const parsed = parse(await env.SESSIONS_KV.get(userSecretsKey(userId)));
+  if (parsed === null) return false;
+  if (isSealedRecord(parsed) && !(await needsReseal(env, userId, parsed.sealed))) return false;
+  const { secrets, scopes } = await readScopedUserSecrets(env, userId);
+  await writeUserSecrets(env, userId, secrets, scopes);
+  return true;
+}
+
+/* ── Scope matching ───────────────────────────── */
+
+/** Patterns may omit the scheme (`github.com/acme/*`); URLs must not. */
+function normalizeRepo(repo: string): string {
+  const trimmed = repo.trim();
+  return normalizeRepoUrl(trimmed.includes('://') ? trimmed : `https://${trimmed}`);
+}
+
+/**
+ * Match a session repo against a project-scope pattern. `*` matches within
+ * one path segment and `**` across segments; a pattern without wildcards
+ * must name the repo exactly.
+ */
+export function matchesRepoPattern(pattern: string, gitRepo: string): boolean {
+  const source = normalizeRepo(pattern)
+    .split('**')
+    .map((part) => part.split('*').map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(normalizeRepo(gitRepo));
+}
+
+/** Whether a secret is injected by default for a session on `gitRepo`. */
+export function scopeMatches(scope: SecretScope | undefined, gitRepo?: string): boolean {
+  if (!scope || scope.scope === 'global') return true;
+  if (scope.scope === 'manual') return false;
+  return !!scope.gitRepo && !!gitRepo && matchesRepoPattern(scope.gitRepo, gitRepo);
+}
+
+/**
+ * Names a session receives. An explicit pick made at creation wins (limited
+ * to secrets that still exist); otherwise each secret's scope decides.
+ */
+export function selectSecretNames(
+  { secrets, scopes }: ScopedUserSecrets,
+  selection: SecretSelection
+): string[] {
+  const names = Object.keys(secrets);
+  if (selection.names) return names.filter((name) => selection.names!.includes(name));
+  return names.filter((name) => scopeMatches(scopes[name], selection.gitRepo));
+}
@@ -0,0 +1,177 @@
+import { cosineSimilarity } from 'ai';
+
+/* ── Types ────────────────────────────────────── */
+
+/** Chunk metadata stored alongside each vector. */
+export interface VectorMetadata {
+  path: string;
+  startLine: number;
+  endLine: number;
+  snippet: string;
+  language: string;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+/**
+ * Storage for embedding vectors, scoped to one namespace (a session's
+ * workspace, or a repo shared by that user's sessions).
+ * The KV manifest in services/embeddings.ts tracks which ids exist; the store
+ * only holds vectors and answers similarity queries.
+ */
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  deleteByIds(ids: string[]): Promise<void>;
+  /** `keep` narrows candidates before the topK cut, e.g. to one session's chunks in a shared scope. */
+  query(vector: number[], topK: number, keep?: (id: string) => boolean): Promise<VectorMatch[]>;
+}
+
+/* ── Constants ────────────────────────────────── */
+
+/** Vectorize caps upsert/delete batches at 1000 ids. */
+const VECTORIZE_BATCH = 1000;
+/** Vectorize's topK ceiling when returning metadata. */
+const VECTORIZE_MAX_TOP_K = 50;
+/** Vectorize's topK ceiling for id-only queries. */
+const VECTORIZE_MAX_ID_TOP_K = 100;
+
+/* ── Vectorize implementation ─────────────────── */
+
+/**
+ * Cloudflare Vectorize-backed store. Each index lives in its own Vectorize
+ * namespace (max 64 bytes — callers pass a session ID or hashed repo scope).
+ */
+export class VectorizeStore implements VectorStore {
+  constructor(
+    private index: Vectorize,
+    private namespace: string
+  ) {}
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (let i = 0; i < records.length; i += VECTORIZE_BATCH) {
+      const batch = records.slice(i, i + VECTORIZE_BATCH);
+      await this.index.upsert(
+        batch.map((r) => ({
+          id: r.id,
+          values: r.values,
+          namespace: this.namespace,
+          metadata: { ...r.metadata },
+        }))
+      );
+    }
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += VECTORIZE_BATCH) {
+      await this.index.deleteByIds(ids.slice(i, i + VECTORIZE_BATCH));
+    }
+  }
+
+  async query(vector: number[], topK: number, keep?: (id: string) => boolean): Promise<VectorMatch[]> {
+    if (keep) return this.queryKept(vector, topK, keep);
+    const result = await this.index.query(vector, {
+      topK: Math.min(topK, VECTORIZE_MAX_TOP_K),
+      namespace: this.namespace,
+      returnMetadata: 'all',
+    });
+    return result.matches
+      .filter((m) => m.metadata)
+      .map((m) => ({
+        id: m.id,
+        score: m.score,
+        metadata: m.metadata as unknown as VectorMetadata,
+      }));
+  }
+
+  /**
+   * Filtered query: rank ids only (Vectorize allows a deeper topK without
+   * metadata), keep the wanted ones, then fetch metadata for the survivors.
+   */
+  private async queryKept(vector: number[], topK: number, keep: (id: string) => boolean): Promise<VectorMatch[]> {
+    const result = await this.index.query(vector, {
+      topK: VECTORIZE_MAX_ID_TOP_K,
+      namespace: this.namespace,
+      returnMetadata: 'none',
+    });
+    const kept = result.matches.filter((m) => keep(m.id)).slice(0, topK);
+    if (kept.length === 0) return [];
+    const vectors = await this.index.getByIds(kept.map((m) => m.id));
+    const metadata = new Map(vectors.map((v) => [v.id, v.metadata]));
+    return kept
+      .filter((m) => metadata.get(m.id))
+      .map((m) => ({
+        id: m.id,
+        score: m.score,
+        metadata: metadata.get(m.id) as unknown as VectorMetadata,
+      }));
+  }
+}
+
+/* ── In-memory implementation ─────────────────── */
+
+/** Brute-force cosine store for tests and deployments without a Vectorize binding. */
+export class MemoryVectorStore implements VectorStore {
+  private records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const r of records) this.records.set(r.id, r);
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    for (const id of ids) this.records.delete(id);
+  }
+
+  async query(vector: number[], topK: number, keep?: (id: string) => boolean): Promise<VectorMatch[]> {
+    const records = [...this.records.values()].filter((r) => !keep || keep(r.id));
+    const scored = records.map((r) => ({
+      id: r.id,
+      score: cosineSimilarity(vector, r.values),
+      metadata: r.metadata,
+    }));
+    scored.sort((a, b) => b.score - a.score);
+    return scored.slice(0, topK);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+}
+
+/* ── Factory ──────────────────────────────────── */
+
+/**
+ * Per-isolate fallback stores, used when EMBEDDINGS_INDEX is not bound
+ * (local `wrangler dev` without Vectorize). Not durable — vectors vanish
+ * when the isolate is recycled, and searches then return nothing until
+ * the next re-index.
+ */
+const localStores = new Map<string, MemoryVectorStore>();
+
+/** Opens the store for one namespace (a session ID or shared repo scope). */
+export type VectorStoreFactory = (namespace: string) => VectorStore;
+
+export function createVectorStore(env: Env, namespace: string): VectorStore {
+  if (env.EMBEDDINGS_INDEX) {
+    return new VectorizeStore(env.EMBEDDINGS_INDEX, namespace);
+  }
+  let store = localStores.get(namespace);
+  if (!store) {
+    store = new MemoryVectorStore();
+    localStores.set(namespace, store);
+  }
+  return store;
+}
+
+export function vectorStoreFactory(env: Env): VectorStoreFactory {
+  return (namespace) => createVectorStore(env, namespace);
+}
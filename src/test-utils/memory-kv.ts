@@ -0,0 +1,30 @@
+/**
+ * In-memory KVNamespace for service tests. Covers get (text or json), put
+ * with metadata, delete and a single-page prefix list in key order. Pass
+ * `store` to seed values or inspect what a test wrote.
+ */
+export function memoryKv(store = new Map<string, string>()): KVNamespace {
+  const metadata = new Map<string, unknown>();
+  return {
+    get: async (k: string, type?: string) => {
+      const v = store.get(k);
+      if (v === undefined) return null;
+      return type === 'json' ? JSON.parse(v) : v;
+    },
+    put: async (k: string, v: string, opts?: { metadata?: unknown }) => {
+      store.set(k, v);
+      metadata.set(k, opts?.metadata);
+    },
+    delete: async (k: string) => {
+      store.delete(k);
+      metadata.delete(k);
+    },
+    list: async ({ prefix = '' }: { prefix?: string } = {}) => ({
+      keys: [...store.keys()]
+        .filter((k) => k.startsWith(prefix))
+        .sort()
+        .map((name) => ({ name, metadata: metadata.get(name) })),
+      list_complete: true,
+    }),
+  } as unknown as KVNamespace;
+}
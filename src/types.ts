@@ -12,6 +12,12 @@ export const SessionSchema = z.object({
   lastActiveAt: z.string(),
   sdkSessionId: z.string().optional(), // Claude SDK session ID for conversation continuity
   containerBuild: z.string().optional(), // VF_CONTAINER_BUILD when sdkSessionId was last set
+  // Shared with an organization: members can view ('read') or also act in it ('collaborate')
+  sharing: z.object({
+    orgId: z.string(),
+    access: z.enum(['read', 'collaborate']),
+    sharedAt: z.string(),
+  }).optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
@@ -122,6 +128,8 @@ export const WSMessageSchema = z.discriminatedUnion('type', [
     requestId: z.string(),
     body: z.record(z.unknown()),
     error: z.string().optional(),
+    /** A notification streamed ahead of the response; more messages follow */
+    partial: z.boolean().optional(),
   }),
 ]);
 
@@ -208,12 +216,15 @@ export const McpServerConfigSchema = z.object({
     /^[a-zA-Z0-9_-]+$/,
     'Name must be alphanumeric, dashes, or underscores'
   ),
-  transport: z.enum(['http', 'stdio', 'relay']),
+  /** 'sse' is the legacy HTTP+SSE transport (GET event stream + POST endpoint) */
+  transport: z.enum(['http', 'sse', 'stdio', 'relay']),
   url: z.string().url().optional(),
   command: z.string().min(1).optional(),
   args: z.array(z.string()).optional(),
   /** Local URL for relay transport (e.g. http://localhost:9222) */
   localUrl: z.string().url().optional(),
+  /** What the local relay server speaks — 'sse' also covers stdio servers behind an SSE bridge */
+  localTransport: z.enum(['http', 'sse']).optional(),
   /** HTTP headers for auth (e.g. { Authorization: "Bearer ..." }) */
   headers: z.record(z.string()).optional(),
   /** Env vars for stdio servers (e.g. { GITHUB_TOKEN: "ghp_..." }) */
@@ -233,6 +244,25 @@ export const McpServerConfigSchema = z.object({
     description: z.string().optional(),
     inputSchema: z.record(z.unknown()).optional(),
   })).optional(),
+  /** Resources from last ping, when the server offers any */
+  resources: z.array(z.object({
+    uri: z.string(),
+    name: z.string(),
+    description: z.string().optional(),
+    mimeType: z.string().optional(),
+  })).optional(),
+  /** Prompt templates from last ping, when the server offers any */
+  prompts: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    arguments: z.array(z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      required: z.boolean().optional(),
+    })).optional(),
+  })).optional(),
+  /** Per-tool policy keyed by tool name; tools not listed are allowed */
+  toolPolicy: z.record(z.enum(['allow', 'deny', 'ask'])).optional(),
   /** When the MCP server tools are available to the agent */
   mode: z.enum(['always', 'on-demand', 'auto']).optional(),
   /** Session scope for this MCP server */
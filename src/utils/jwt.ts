@@ -5,6 +5,14 @@ export interface ExecutionTokenPayload {
   exp: number;
 }
 
+/** Claims of a read-only session share link. */
+export interface ShareTokenPayload {
+  shareId: string;
+  sessionId: string;
+  iat: number;
+  exp: number;
+}
+
 const ALGORITHM = { name: 'HMAC', hash: 'SHA-256' };
 const DEFAULT_TTL_SECONDS = 660; // 60s margin over the 10-minute bridge timeout
 
@@ -26,21 +34,9 @@ async function importKey(secret: string): Promise<CryptoKey> {
   return crypto.subtle.importKey('raw', keyData, ALGORITHM, false, ['sign', 'verify']);
 }
 
-export async function signExecutionToken(
-  executionId: string,
-  sessionId: string,
-  secret: string,
-  ttlSeconds: number = DEFAULT_TTL_SECONDS
-): Promise<string> {
-  const now = Math.floor(Date.now() / 1000);
+/** Sign an HS256 JWT over an arbitrary claims object. */
+async function signToken(payload: object, secret: string): Promise<string> {
   const header = { alg: 'HS256', typ: 'JWT' };
-  const payload: ExecutionTokenPayload = {
-    executionId,
-    sessionId,
-    iat: now,
-    exp: now + ttlSeconds,
-  };
-
   const headerB64 = base64UrlEncode(new TextEncoder().encode(JSON.stringify(header)));
   const payloadB64 = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
   const signingInput = `${headerB64}.${payloadB64}`;
@@ -51,10 +47,8 @@ export async function signExecutionToken(
   return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
 }
 
-export async function verifyExecutionToken(
-  token: string,
-  secret: string
-): Promise<ExecutionTokenPayload | null> {
+/** Verify signature and expiry; returns the claims or null. */
+async function verifyToken<T extends { exp: number }>(token: string, secret: string): Promise<T | null> {
   try {
     const parts = token.split('.');
     if (parts.length !== 3) return null;
@@ -73,7 +67,7 @@ export async function verifyExecutionToken(
     );
     if (!valid) return null;
 
-    const payload: ExecutionTokenPayload = JSON.parse(
+    const payload: T = JSON.parse(
       new TextDecoder().decode(base64UrlDecode(payloadB64))
     );
 
@@ -85,3 +79,52 @@ export async function verifyExecutionToken(
     return null;
   }
 }
+
+export async function signExecutionToken(
+  executionId: string,
+  sessionId: string,
+  secret: string,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: ExecutionTokenPayload = {
+    executionId,
+    sessionId,
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+  return signToken(payload, secret);
+}
+
+export async function verifyExecutionToken(
+  token: string,
+  secret: string
+): Promise<ExecutionTokenPayload | null> {
+  const payload = await verifyToken<ExecutionTokenPayload>(token, secret);
+  // Share tokens are signed with the same secret — never accept one here
+  return payload && typeof payload.executionId === 'string' ? payload : null;
+}
+
+export async function signShareToken(
+  shareId: string,
+  sessionId: string,
+  secret: string,
+  ttlSeconds: number
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: ShareTokenPayload = {
+    shareId,
+    sessionId,
+    iat: now,
+    exp: now + ttlSeconds,
+  };
+  return signToken(payload, secret);
+}
+
+export async function verifyShareToken(
+  token: string,
+  secret: string
+): Promise<ShareTokenPayload | null> {
+  const payload = await verifyToken<ShareTokenPayload>(token, secret);
+  return payload && typeof payload.shareId === 'string' ? payload : null;
+}
@@ -1,4 +1,5 @@
 import type { WSMessage } from './types';
+import { isToolCall, rateLimitedResult, takeCallSlot } from './services/mcp-policy';
 
 export class WebSocketHandler {
   private connections: Map<string, WebSocket> = new Map();
@@ -159,21 +160,32 @@ export class WebSocketHandler {
   }
 }
 
-/** Pending MCP relay request awaiting browser response */
+/**
+ * Pending MCP relay request awaiting browser response. The browser may
+ * stream notifications (`partial`) ahead of the response; each one restarts
+ * the timeout.
+ */
 interface PendingRelayRequest {
-  resolve: (body: Record<string, unknown>) => void;
-  reject: (error: Error) => void;
-  timeout: ReturnType<typeof setTimeout>;
+  deliver: (body: Record<string, unknown>, partial: boolean) => void;
+  timeout?: ReturnType<typeof setTimeout>;
+  /** JSON-RPC id of the relayed request, for errors the DO answers itself */
+  rpcId: unknown;
 }
 
 const RELAY_TIMEOUT_MS = 30000;
 
+function relayEvent(body: Record<string, unknown>): string {
+  return `event: message\ndata: ${JSON.stringify(body)}\n\n`;
+}
+
 // Durable Object for WebSocket state persistence
 export class SessionDurableObject {
   private state: DurableObjectState;
   private wsHandler: WebSocketHandler;
   private sessions: Map<string, { userId: string; createdAt: string }> = new Map();
   private pendingRelayRequests: Map<string, PendingRelayRequest> = new Map();
+  /** Recent tools/call timestamps per session:server, for relay rate limits */
+  private relayCallTimes: Map<string, number[]> = new Map();
 
   constructor(state: DurableObjectState) {
     this.state = state;
@@ -215,15 +227,21 @@ export class SessionDurableObject {
           if (data.type === 'mcp_relay_response' && data.requestId) {
             const pending = this.pendingRelayRequests.get(data.requestId);
             if (pending) {
-              clearTimeout(pending.timeout);
-              this.pendingRelayRequests.delete(data.requestId);
+              const partial = data.partial === true && !data.error;
+              if (partial) {
+                this.armRelayTimeout(data.requestId, pending);
+              } else {
+                clearTimeout(pending.timeout);
+                this.pendingRelayRequests.delete(data.requestId);
+              }
               if (data.error) {
-                pending.resolve({
+                pending.deliver({
                   jsonrpc: '2.0',
+                  id: pending.rpcId ?? null,
                   error: { code: -32603, message: data.error },
-                });
+                }, false);
               } else {
-                pending.resolve(data.body || {});
+                pending.deliver(data.body || {}, partial);
               }
             }
           }
@@ -271,8 +289,23 @@ export class SessionDurableObject {
         sessionId: string;
         serverName: string;
         body: Record<string, unknown>;
+        maxPerMinute?: number;
       };
 
+      if (body.maxPerMinute && isToolCall(body.body)) {
+        const key = `${body.sessionId}:${body.serverName}`;
+        const calls = this.relayCallTimes.get(key) ?? [];
+        this.relayCallTimes.set(key, calls);
+        const retryMs = takeCallSlot(calls, body.maxPerMinute, Date.now());
+        if (retryMs > 0) {
+          return new Response(JSON.stringify(
+            rateLimitedResult(body.body.id, body.serverName, body.maxPerMinute, retryMs)
+          ), {
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
       if (!this.wsHandler.hasActiveConnections(body.sessionId)) {
         return new Response(JSON.stringify({
           jsonrpc: '2.0',
@@ -286,16 +319,13 @@ export class SessionDurableObject {
       const requestId = crypto.randomUUID();
 
       // Create a Promise that will be resolved by the WS message handler
-      const result = await new Promise<Record<string, unknown>>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          this.pendingRelayRequests.delete(requestId);
-          resolve({
-            jsonrpc: '2.0',
-            error: { code: -32603, message: 'Relay request timed out (30s)' },
-          });
-        }, RELAY_TIMEOUT_MS);
-
-        this.pendingRelayRequests.set(requestId, { resolve, reject, timeout });
+      const first = await new Promise<{ body: Record<string, unknown>; partial: boolean }>((resolve) => {
+        const pending: PendingRelayRequest = {
+          deliver: (result, partial) => resolve({ body: result, partial }),
+          rpcId: body.body.id,
+        };
+        this.pendingRelayRequests.set(requestId, pending);
+        this.armRelayTimeout(requestId, pending);
 
         // Send relay request to the first connected browser client
         this.wsHandler.broadcastToSession(body.sessionId, {
@@ -306,11 +336,49 @@ export class SessionDurableObject {
         } as WSMessage);
       });
 
-      return new Response(JSON.stringify(result), {
-        headers: { 'Content-Type': 'application/json' },
+      if (!first.partial) {
+        return new Response(JSON.stringify(first.body), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Notifications came first — stream them, then the response
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const writer = writable.getWriter();
+      const encoder = new TextEncoder();
+      const write = (message: Record<string, unknown>) => {
+        writer.write(encoder.encode(relayEvent(message))).catch(() => {});
+      };
+      write(first.body);
+
+      const pending = this.pendingRelayRequests.get(requestId);
+      if (pending) {
+        pending.deliver = (result, partial) => {
+          write(result);
+          if (!partial) writer.close().catch(() => {});
+        };
+      } else {
+        writer.close().catch(() => {});
+      }
+
+      return new Response(readable, {
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
       });
     }
 
     return new Response('Not found', { status: 404 });
   }
+
+  /** (Re)start the wait for the browser's next message on a relay request */
+  private armRelayTimeout(requestId: string, pending: PendingRelayRequest): void {
+    clearTimeout(pending.timeout);
+    pending.timeout = setTimeout(() => {
+      this.pendingRelayRequests.delete(requestId);
+      pending.deliver({
+        jsonrpc: '2.0',
+        id: pending.rpcId ?? null,
+        error: { code: -32603, message: 'Relay request timed out (30s)' },
+      }, false);
+    }, RELAY_TIMEOUT_MS);
+  }
 }
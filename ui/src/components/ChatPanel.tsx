@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { AnimatePresence, motion } from 'motion/react';
 import { cn } from '@/lib/utils';
 import {
@@ -6,8 +6,10 @@ import {
   Flame, Eye, Zap, Bookmark,
 } from 'lucide-react';
 import { useSandboxStore, useMessageCount } from '@/hooks/useSandbox';
-import { filesApi } from '@/lib/api';
+import { filesApi, mcpApi } from '@/lib/api';
 import { useKeyboard } from '@/hooks/useKeyboard';
+import { useAuthStore } from '@/hooks/useAuth';
+import { useSessionPresence, usePresenceStore } from '@/hooks/useSessionPresence';
 import { useDebugLog } from '@/hooks/useDebugLog';
 import { toast } from '@/hooks/useToast';
 
@@ -15,6 +17,7 @@ import { BorderTrail } from '@/components/motion-primitives/border-trail';
 import { SandboxIsland } from '@/components/chat/SandboxIsland';
 import { useReforge } from '@/hooks/useReforge';
 import { ReforgeModal } from '@/components/chat/ReforgeModal';
+import { PresenceBar } from '@/components/chat/PresenceBar';
 import {
   PromptInput,
   PromptInputBody,
@@ -62,6 +65,13 @@ import { ArrowUp, Square } from 'lucide-react';
 import { MessageList } from '@/components/chat/MessageList';
 import { PillsRow } from '@/components/chat/PillsRow';
 import { useSlashCommands } from '@/hooks/useSlashCommands';
+import {
+  McpResourcePicker,
+  ResourceDraftStrip,
+  type ResourceAttachment,
+} from '@/components/chat/McpResourcePicker';
+import { resourceBase64, resourceFilename } from '@/lib/mcp-content';
+import type { McpResource } from '@/lib/types';
 import { useEffect } from 'react';
 import { useQuickChat } from '@/hooks/useQuickChat';
 
@@ -88,6 +98,15 @@ export function ChatPanel({
   const setMode = useSandboxStore((s) => s.setMode);
   const sessionId = useSandboxStore((s) => s.currentSession?.id);
   const messagesById = useSandboxStore((s) => s.messagesById);
+  const isShared = useSandboxStore((s) => !!s.currentSession?.sharing);
+  const userId = useAuthStore((s) => s.user?.id);
+
+  // Shared sessions: presence, prompt queue and shared approvals
+  useSessionPresence(sessionId, isShared, userId);
+  const setTyping = usePresenceStore((s) => s.setTyping);
+  const enqueuePrompt = usePresenceStore((s) => s.enqueue);
+  const othersBusy = usePresenceStore((s) =>
+    (s.run !== null && s.run.userId !== userId) || s.queue.length > 0);
 
   const sessionCostUsd = useMemo(() => {
     let total = 0;
@@ -117,8 +136,56 @@ export function ChatPanel({
     menuIndex,
     handleSlashSelect,
     handleSlashKeyDown,
+    submitMcpPrompt,
   } = useSlashCommands(input, setInput, sendMessage);
 
+  // ---------------------------------------------------------------------------
+  // MCP resource attachments — read via the Worker, uploaded like images
+  // ---------------------------------------------------------------------------
+
+  const [resourceAttachments, setResourceAttachments] = useState<ResourceAttachment[]>([]);
+
+  const removeResource = useCallback((id: string) => {
+    setResourceAttachments((prev) => prev.filter((a) => a.id !== id));
+  }, []);
+
+  /** Reads still uploading, so a submit can wait for them instead of dropping them */
+  const resourceUploads = useRef(new Map<string, Promise<string[] | null>>());
+
+  const attachResource = useCallback(
+    (server: string, resource: McpResource) => {
+      if (!sessionId) return;
+      const id = crypto.randomUUID();
+      setResourceAttachments((prev) => [...prev, { id, server, resource }]);
+      const pending = (async () => {
+        try {
+          const read = await mcpApi.readResource(server, resource.uri);
+          const contents = read.data?.contents ?? [];
+          if (contents.length === 0) throw new Error('Resource is empty');
+          const paths: string[] = [];
+          for (const content of contents) {
+            const upload = await filesApi.uploadBase64(
+              sessionId,
+              resourceFilename(content.uri || resource.uri, resource.name),
+              resourceBase64(content),
+            );
+            if (upload.data) paths.push(upload.data.path);
+          }
+          setResourceAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, paths } : a)));
+          return paths;
+        } catch (err) {
+          removeResource(id);
+          toast.error(`${resource.name}: ${err instanceof Error ? err.message : 'Could not attach resource'}`);
+          return null;
+        } finally {
+          resourceUploads.current.delete(id);
+        }
+      })();
+      resourceUploads.current.set(id, pending);
+    },
+    [sessionId, removeResource],
+  );
+
   // ---------------------------------------------------------------------------
   // Image upload + submit handler
   // ---------------------------------------------------------------------------
@@ -154,10 +221,22 @@ export function ChatPanel({
   const handlePromptSubmit = useCallback(
     async (message: PromptInputMessage) => {
       if (!message.text && !message.files?.length) return;
+      if (!message.files?.length && submitMcpPrompt(message.text)) return;
       haptics.light();
       let text = message.text;
       let submittedImages: ImageAttachment[] | undefined;
 
+      // Wait for resources still uploading rather than send without them
+      const attached = await Promise.all(resourceAttachments.map(async (a) => ({
+        ...a,
+        paths: a.paths ?? (await resourceUploads.current.get(a.id)) ?? [],
+      })));
+      const resourceRefs = attached
+        .flatMap((a) => a.paths.map((path) =>
+          `[MCP resource attached: ${path} (${a.server}: ${a.resource.uri})]`))
+        .join('\n');
+      if (resourceRefs) text = text ? `${resourceRefs}\n\n${text}` : resourceRefs;
+
       if (message.files?.length && sessionId) {
         const uploaded: ImageAttachment[] = [];
         for (const file of message.files) {
@@ -181,10 +260,21 @@ export function ChatPanel({
       }
 
       if (!text) return;
+      // Someone else is driving (or prompts are waiting) — take a turn in the queue
+      if (isShared && othersBusy) {
+        if (enqueuePrompt(text)) {
+          toast.info('Queued — it runs when the current turn finishes', 4000);
+          setInput('');
+        } else {
+          toast.error('Not connected to the session — try again in a moment', 4000);
+        }
+        return;
+      }
       sendMessage(text, submittedImages);
       setInput('');
+      setResourceAttachments([]);
     },
-    [sendMessage, uploadImage, sessionId],
+    [sendMessage, uploadImage, sessionId, isShared, othersBusy, enqueuePrompt, submitMcpPrompt, resourceAttachments],
   );
 
   // ---------------------------------------------------------------------------
@@ -202,6 +292,11 @@ export function ChatPanel({
 
   const promptInput = (
     <div className="relative">
+      {isShared && sessionId && (
+        <div className="mb-2">
+          <PresenceBar sessionId={sessionId} userId={userId} />
+        </div>
+      )}
       {menuOpen && (
         <SlashCommandMenu
           commands={filteredCommands}
@@ -236,9 +331,13 @@ export function ChatPanel({
 
         <PromptInputBody>
           <AttachmentDraftStrip />
+          <ResourceDraftStrip attachments={resourceAttachments} onRemove={removeResource} />
           <PromptInputTextarea
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => {
+              setInput(e.target.value);
+              if (isShared) setTyping(e.target.value.length > 0);
+            }}
             onKeyDown={handleSlashKeyDown}
             placeholder="Ask anything..."
             disabled={!sessionId}
@@ -276,6 +375,12 @@ export function ChatPanel({
             >
               {sdkMode === 'plan' ? <Eye className="size-5" /> : <Zap className="size-5" />}
             </button>
+            <McpResourcePicker
+              onPick={attachResource}
+              disabled={!sessionId}
+              className="flex size-10 items-center justify-center rounded-lg text-muted-foreground/70 hover:bg-primary/10 hover:text-muted-foreground active:scale-95 transition-colors"
+              iconClassName="size-5"
+            />
             <button
               type="button"
               aria-label="Attach file"
@@ -333,7 +438,13 @@ export function ChatPanel({
         </PromptInputFooter>
 
         {/* Desktop submit row */}
-        <PromptInputFooter className="hidden md:flex justify-end px-2 pb-2">
+        <PromptInputFooter className="hidden md:flex justify-between px-2 pb-2">
+          <McpResourcePicker
+            onPick={attachResource}
+            disabled={!sessionId}
+            className="flex h-9 w-9 items-center justify-center rounded-full text-muted-foreground/70 transition-colors hover:bg-primary/10 hover:text-muted-foreground"
+            iconClassName="h-4 w-4"
+          />
           {isStreaming ? (
             <button
               type="button"
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useFocusTrap } from '@/hooks/useFocusTrap';
-import { Star, Search, X, RefreshCw } from 'lucide-react';
+import { Star, Search, X, RefreshCw, Key, ChevronDown, ChevronRight } from 'lucide-react';
 import { useSandboxStore } from '@/hooks/useSandbox';
 import { useFavoritesStore, type FavoriteRepo } from '@/hooks/useFavorites';
 import { useGithubRepos, type GitHubRepo } from '@/hooks/useGithubRepos';
+import { secretsApi, type SecretEntry } from '@/lib/api';
+import { isPullRequestUrl, usePrReview } from '@/hooks/usePrReview';
 
 type Tab = 'url' | 'favorites' | 'github';
 
@@ -35,6 +37,8 @@ export function CloneRepoModal({ isOpen, onClose }: CloneRepoModalProps) {
   const [branch, setBranch] = useState('');
   const [isCloning, setIsCloning] = useState(false);
   const [error, setError] = useState('');
+  // Explicit secret pick for the URL tab; undefined = scope defaults
+  const [secretPick, setSecretPick] = useState<string[] | undefined>(undefined);
 
   // GitHub tab state
   const [ghUsernameInput, setGhUsernameInput] = useState(ghUsername);
@@ -87,6 +91,8 @@ export function CloneRepoModal({ isOpen, onClose }: CloneRepoModalProps) {
 
   const handleClone = async (url?: string, cloneBranch?: string) => {
     const targetUrl = url || repoUrl.trim();
+    // The picker only applies to the repo typed in the URL tab
+    const secrets = url ? undefined : secretPick;
     const targetBranch = cloneBranch || branch.trim();
 
     if (!targetUrl) {
@@ -104,11 +110,25 @@ export function CloneRepoModal({ isOpen, onClose }: CloneRepoModalProps) {
     setIsCloning(true);
     setError('');
 
+    // A pull request URL starts a review session on the PR head
+    if (isPullRequestUrl(fullUrl)) {
+      try {
+        await usePrReview.getState().startFromUrl(fullUrl);
+        handleClose();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to start review');
+      } finally {
+        setIsCloning(false);
+      }
+      return;
+    }
+
     try {
       const session = await createSession(
         undefined,
         fullUrl,
-        targetBranch || undefined
+        targetBranch || undefined,
+        secrets
       );
       if (!session) {
         setError('Failed to create session');
@@ -134,6 +154,7 @@ export function CloneRepoModal({ isOpen, onClose }: CloneRepoModalProps) {
     setRepoUrl('');
     setBranch('');
     setError('');
+    setSecretPick(undefined);
     setIsCloning(false);
     onClose();
   };
@@ -224,6 +245,9 @@ export function CloneRepoModal({ isOpen, onClose }: CloneRepoModalProps) {
               onClose={handleClose}
               recents={recents}
               onCloneRecent={(repo) => handleClone(repo.url)}
+              secretRepo={isValidUrl(repoUrl.trim()) ? normalizeUrl(repoUrl) : ''}
+              secretPick={secretPick}
+              setSecretPick={setSecretPick}
             />
           )}
 
@@ -272,6 +296,9 @@ function UrlTab({
   onClose,
   recents,
   onCloneRecent,
+  secretRepo,
+  secretPick,
+  setSecretPick,
 }: {
   repoUrl: string;
   setRepoUrl: (v: string) => void;
@@ -284,12 +311,17 @@ function UrlTab({
   onClose: () => void;
   recents: FavoriteRepo[];
   onCloneRecent: (repo: FavoriteRepo) => void;
+  secretRepo: string;
+  secretPick: string[] | undefined;
+  setSecretPick: (v: string[] | undefined) => void;
 }) {
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !isCloning) onClone();
     if (e.key === 'Escape') onClose();
   };
 
+  const isPullRequest = isPullRequestUrl(repoUrl);
+
   return (
     <div className="space-y-4" onKeyDown={handleKeyDown}>
       <div className="space-y-2">
@@ -303,29 +335,41 @@ function UrlTab({
             setRepoUrl(e.target.value);
             setError('');
           }}
-          placeholder="https://github.com/user/repo or user/repo"
+          placeholder="https://github.com/user/repo, user/repo or a pull request URL"
           className="w-full rounded-lg border border-border bg-muted px-4 py-3 font-mono text-sm text-foreground placeholder:text-muted-foreground focus-visible:border-primary focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary transition-colors"
           autoFocus
           disabled={isCloning}
         />
       </div>
 
-      <div className="space-y-2">
-        <label className="text-xs font-display font-bold uppercase tracking-wider text-muted-foreground">
-          Branch
-          <span className="ml-2 font-normal normal-case tracking-normal text-muted-foreground/60">
-            (optional)
-          </span>
-        </label>
-        <input
-          type="text"
-          value={branch}
-          onChange={(e) => setBranch(e.target.value)}
-          placeholder="main"
-          className="w-full rounded-lg border border-border bg-muted px-4 py-3 font-mono text-sm text-foreground placeholder:text-muted-foreground focus-visible:border-primary focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary transition-colors"
-          disabled={isCloning}
-        />
-      </div>
+      {isPullRequest && (
+        <p className="text-xs text-muted-foreground">
+          Opens a session on the pull request&apos;s head and runs a first-pass review you can post back to GitHub.
+        </p>
+      )}
+
+      {!isPullRequest && (
+        <div className="space-y-2">
+          <label className="text-xs font-display font-bold uppercase tracking-wider text-muted-foreground">
+            Branch
+            <span className="ml-2 font-normal normal-case tracking-normal text-muted-foreground/60">
+              (optional)
+            </span>
+          </label>
+          <input
+            type="text"
+            value={branch}
+            onChange={(e) => setBranch(e.target.value)}
+            placeholder="main"
+            className="w-full rounded-lg border border-border bg-muted px-4 py-3 font-mono text-sm text-foreground placeholder:text-muted-foreground focus-visible:border-primary focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary transition-colors"
+            disabled={isCloning}
+          />
+        </div>
+      )}
+
+      {secretRepo && !isPullRequest && (
+        <SecretPicker gitRepo={secretRepo} value={secretPick} onChange={setSecretPick} disabled={isCloning} />
+      )}
 
       {error && <p className="text-sm text-error animate-fade-up">{error}</p>}
 
@@ -341,10 +385,10 @@ function UrlTab({
           {isCloning ? (
             <>
               <span className="h-4 w-4 animate-spin rounded-full border-2 border-primary-foreground border-t-transparent" />
-              Cloning...
+              {isPullRequest ? 'Starting review...' : 'Cloning...'}
             </>
           ) : (
-            'Clone'
+            isPullRequest ? 'Review' : 'Clone'
           )}
         </button>
       </div>
@@ -374,6 +418,81 @@ function UrlTab({
   );
 }
 
+/* -- Secret Picker -------------------------------------------- */
+
+function SecretPicker({
+  gitRepo,
+  value,
+  onChange,
+  disabled,
+}: {
+  gitRepo: string;
+  value: string[] | undefined;
+  onChange: (v: string[] | undefined) => void;
+  disabled: boolean;
+}) {
+  const [secrets, setSecrets] = useState<SecretEntry[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  // Re-evaluate scope matches as the URL changes; a new repo resets the pick
+  useEffect(() => {
+    onChange(undefined);
+    const timer = setTimeout(() => {
+      secretsApi.list(gitRepo)
+        .then((result) => setSecrets(result.data ?? []))
+        .catch(() => setSecrets([]));
+    }, 400);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gitRepo]);
+
+  if (secrets.length === 0) return null;
+
+  const selected = value ?? secrets.filter((s) => s.matches).map((s) => s.name);
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter((n) => n !== name) : [...selected, name]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 text-xs font-display font-bold uppercase tracking-wider text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        Secrets
+        <span className="font-normal normal-case tracking-normal text-muted-foreground/60">
+          ({selected.length} of {secrets.length} injected)
+        </span>
+      </button>
+      {expanded && (
+        <div className="max-h-40 overflow-y-auto space-y-0.5 rounded-lg border border-border p-2">
+          {secrets.map((secret) => (
+            <label
+              key={secret.name}
+              className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-primary/10 transition-colors cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(secret.name)}
+                onChange={() => toggle(secret.name)}
+                disabled={disabled}
+                className="accent-primary"
+              />
+              <Key className="h-3 w-3 flex-shrink-0 text-primary" />
+              <span className="font-mono truncate flex-1">{secret.name}</span>
+              <span className="text-[10px] text-muted-foreground truncate">
+                {secret.scope === 'project' ? secret.gitRepo : secret.scope === 'manual' ? 'when picked' : 'all sessions'}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* -- Favorites Tab -------------------------------------------- */
 
 function FavoritesTab({
@@ -309,7 +309,7 @@ function ComplexityMeter({
   );
 }
 
-function SeverityIcon({ severity }: { severity: string }) {
+export function SeverityIcon({ severity }: { severity: string }) {
   if (severity === 'error')
     return <AlertCircle className="h-4 w-4 shrink-0 text-red-400 mt-0.5" />;
   if (severity === 'warning')
@@ -319,7 +319,7 @@ function SeverityIcon({ severity }: { severity: string }) {
   return <Info className="h-4 w-4 shrink-0 text-blue-400 mt-0.5" />;
 }
 
-function SeverityBadge({ severity }: { severity: string }) {
+export function SeverityBadge({ severity }: { severity: string }) {
   const styles: Record<string, string> = {
     error: 'bg-red-500/10 text-red-400 border-red-500/30',
     warning: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
@@ -266,7 +266,7 @@ export function CommitMessageCard() {
 
 /* ── Sub-components ─────────────────────────── */
 
-function ProviderToggle({
+export function ProviderToggle({
   selected,
   available,
   onClick,
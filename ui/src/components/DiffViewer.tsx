@@ -46,30 +46,88 @@ export function DiffViewer({ file, staged = false }: DiffViewerProps) {
     );
   }
 
+  return <UnifiedDiff diff={diff} />;
+}
+
+/** A note shown under a new-side line of a unified diff */
+export interface DiffComment {
+  file: string;
+  line: number;
+  content: React.ReactNode;
+}
+
+// Colorized unified diff body — shared by git, checkpoint and review diffs
+export function UnifiedDiff({
+  diff,
+  className = '',
+  comments = [],
+}: {
+  diff: string;
+  className?: string;
+  comments?: DiffComment[];
+}) {
+  const lines = diff.split('\n');
+  const anchors = comments.length > 0 ? newSideAnchors(lines) : [];
+
   return (
-    <div className="h-full overflow-auto bg-background p-4 font-mono text-sm">
-      {diff.split('\n').map((line, index) => (
-        <div
-          key={index}
-          className={`whitespace-pre ${
-            line.startsWith('+')
-              ? 'bg-green-500/10 text-green-500'
-              : line.startsWith('-')
-                ? 'bg-red-500/10 text-red-500'
-                : line.startsWith('@@')
-                  ? 'text-blue-500'
-                  : line.startsWith('diff') || line.startsWith('index')
-                    ? 'text-muted-foreground'
-                    : ''
-          }`}
-        >
-          {line}
-        </div>
-      ))}
+    <div className={`h-full overflow-auto bg-background p-4 font-mono text-sm ${className}`}>
+      {lines.map((line, index) => {
+        const anchor = anchors[index];
+        const pinned = anchor
+          ? comments.filter((c) => c.file === anchor.file && c.line === anchor.line)
+          : [];
+        return (
+          <div key={index}>
+            <div
+              className={`whitespace-pre ${
+                line.startsWith('+')
+                  ? 'bg-green-500/10 text-green-500'
+                  : line.startsWith('-')
+                    ? 'bg-red-500/10 text-red-500'
+                    : line.startsWith('@@')
+                      ? 'text-blue-500'
+                      : line.startsWith('diff') || line.startsWith('index')
+                        ? 'text-muted-foreground'
+                        : ''
+              }`}
+            >
+              {line}
+            </div>
+            {pinned.map((c, i) => (
+              <div key={i} className="my-1 font-sans">
+                {c.content}
+              </div>
+            ))}
+          </div>
+        );
+      })}
     </div>
   );
 }
 
+/** File and new-side line number for each added or context line of a diff. */
+function newSideAnchors(lines: string[]): Array<{ file: string; line: number } | null> {
+  let file = '';
+  let next = 0;
+  let inHeader = false;
+
+  return lines.map((line) => {
+    if (line.startsWith('diff --git ')) {
+      inHeader = true;
+      file = '';
+    } else if (inHeader && line.startsWith('+++ ')) {
+      file = line.slice(4).replace(/^b\//, '');
+    } else if (line.startsWith('@@')) {
+      inHeader = false;
+      const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+      next = match ? parseInt(match[1], 10) : 0;
+    } else if (!inHeader && file && (line.startsWith('+') || line.startsWith(' '))) {
+      return { file, line: next++ };
+    }
+    return null;
+  });
+}
+
 // Side-by-side diff viewer
 export function SideBySideDiff({ file }: { file?: string }) {
   const { currentSession } = useSandboxStore();
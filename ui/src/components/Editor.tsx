@@ -1,4 +1,4 @@
-import { useCallback, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import MonacoEditor from '@monaco-editor/react';
 import type { editor as MonacoEditorType } from 'monaco-editor';
 import { X, Circle } from 'lucide-react';
@@ -40,6 +40,15 @@ function getLanguage(path: string): string {
   return langMap[ext] || 'plaintext';
 }
 
+/** Scroll to the line requested via openFile(path, line), then clear the request. */
+function revealPendingLine(editor: MonacoEditorType.IStandaloneCodeEditor) {
+  const { revealLine, clearRevealLine } = useSandboxStore.getState();
+  if (!revealLine) return;
+  editor.revealLineInCenter(revealLine);
+  editor.setPosition({ lineNumber: revealLine, column: 1 });
+  clearRevealLine();
+}
+
 export function Editor() {
   const {
     openFiles,
@@ -50,10 +59,16 @@ export function Editor() {
     closeFile,
     setActiveFile,
     currentSession,
+    revealLine,
   } = useSandboxStore();
 
   const editorRef = useRef<MonacoEditorType.IStandaloneCodeEditor | null>(null);
 
+  // Jump-to-line for files opened from search results (editor already mounted)
+  useEffect(() => {
+    if (revealLine && editorRef.current) revealPendingLine(editorRef.current);
+  }, [revealLine, fileContent]);
+
   // Reload active file when Claude modifies it (only if not dirty)
   useFileWatcher({
     sessionId: currentSession?.id ?? null,
@@ -123,6 +138,7 @@ export function Editor() {
   const handleEditorMount = useCallback(
     (editor: MonacoEditorType.IStandaloneCodeEditor) => {
       editorRef.current = editor;
+      revealPendingLine(editor);
 
       // Add "Transform with AI" context menu action
       editor.addAction({
@@ -21,6 +21,8 @@ import { QuickChatPanel } from './QuickChatPanel';
 import { CodeTransformPanel } from './CodeTransformPanel';
 import { CodeAnalysisPanel } from './CodeAnalysisPanel';
 import { CommitMessageCard } from './CommitMessageCard';
+import { PullRequestCard } from './PullRequestCard';
+import { PrReviewPanel } from './PrReviewPanel';
 import { TestResultsOverlay } from './TestResultsOverlay';
 import { StackTraceOverlay } from './StackTraceOverlay';
 import { AgencyDashboard } from './agency/AgencyDashboard';
@@ -338,6 +340,8 @@ export function Layout() {
         <CodeTransformPanel />
         <CodeAnalysisPanel />
         <CommitMessageCard />
+        <PullRequestCard />
+        <PrReviewPanel />
         <TestResultsOverlay />
         <StackTraceOverlay />
         <IssueTracker />
@@ -356,6 +360,8 @@ export function Layout() {
         <CodeTransformPanel />
         <CodeAnalysisPanel />
         <CommitMessageCard />
+        <PullRequestCard />
+        <PrReviewPanel />
         <TestResultsOverlay />
         <StackTraceOverlay />
         <IssueTracker />
@@ -519,6 +525,8 @@ export function Layout() {
       <CodeTransformPanel />
       <CodeAnalysisPanel />
       <CommitMessageCard />
+      <PullRequestCard />
+      <PrReviewPanel />
       <TestResultsOverlay />
       <StackTraceOverlay />
       <IssueTracker />
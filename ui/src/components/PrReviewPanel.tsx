@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { useFocusTrap } from '@/hooks/useFocusTrap';
+import {
+  X,
+  Loader2,
+  GitPullRequest,
+  Crown,
+  Sparkles,
+  Bot,
+  RefreshCw,
+  ExternalLink,
+  Send,
+} from 'lucide-react';
+import { usePrReview } from '@/hooks/usePrReview';
+import { useQuickChat } from '@/hooks/useQuickChat';
+import { UnifiedDiff, type DiffComment } from './DiffViewer';
+import { ProviderToggle } from './CommitMessageCard';
+import { SeverityBadge, SeverityIcon } from './CodeAnalysisPanel';
+import type { ReviewEvent, ReviewIssue } from '@/lib/types';
+
+const EVENTS: Array<{ value: ReviewEvent; label: string }> = [
+  { value: 'COMMENT', label: 'Comment' },
+  { value: 'APPROVE', label: 'Approve' },
+  { value: 'REQUEST_CHANGES', label: 'Request changes' },
+];
+
+const VERDICT_EVENTS: Record<string, ReviewEvent> = {
+  approve: 'APPROVE',
+  comment: 'COMMENT',
+  request_changes: 'REQUEST_CHANGES',
+};
+
+export function PrReviewPanel() {
+  const {
+    isOpen,
+    isRunning,
+    isPosting,
+    record,
+    dismissed,
+    error,
+    provider,
+    run,
+    toggleIssue,
+    post,
+    close,
+    setProvider,
+  } = usePrReview();
+
+  const availableProviders = useQuickChat((s) => s.availableProviders);
+  const focusTrapRef = useFocusTrap(isOpen, close);
+  const [event, setEvent] = useState<ReviewEvent>('COMMENT');
+
+  // Default the GitHub event to the model's verdict for each new review
+  const verdict = record?.review?.verdict;
+  useEffect(() => {
+    if (verdict) setEvent(VERDICT_EVENTS[verdict] ?? 'COMMENT');
+  }, [verdict, record?.reviewedAt]);
+
+  if (!isOpen) return null;
+
+  const available = (p: 'claude' | 'gemini' | 'openai') =>
+    availableProviders.length === 0 || availableProviders.includes(p);
+  const review = record?.review;
+  const included = review ? review.issues.length - dismissed.length : 0;
+
+  const comments: DiffComment[] = (review?.issues ?? []).flatMap((issue, index) =>
+    issue.line
+      ? [{
+          file: issue.file,
+          line: issue.line,
+          content: (
+            <IssueNote
+              issue={issue}
+              included={!dismissed.includes(index)}
+              onToggle={() => toggleIssue(index)}
+            />
+          ),
+        }]
+      : []
+  );
+
+  return (
+    <div
+      ref={focusTrapRef as React.RefObject<HTMLDivElement>}
+      className="fixed inset-0 z-50 flex items-center justify-center px-4 py-4"
+      onClick={close}
+    >
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+      <div
+        className="glass-card relative w-full max-w-5xl p-4 sm:p-6 space-y-4 animate-scale-in max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex min-w-0 items-start gap-3">
+            <GitPullRequest className="h-5 w-5 shrink-0 text-primary mt-0.5" />
+            <div className="min-w-0">
+              <h2 className="font-display text-base sm:text-lg font-bold uppercase tracking-wider text-primary">
+                PR Review
+              </h2>
+              {record && (
+                <a
+                  href={record.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <span className="truncate">
+                    {record.repo}#{record.number} · {record.title}
+                  </span>
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={close}
+            className="rounded p-1.5 hover:bg-primary/10 transition-colors"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* Provider toggle + run */}
+        <div className="flex flex-wrap items-center gap-2">
+          <ProviderToggle
+            provider="claude"
+            selected={provider === 'claude'}
+            available={available('claude')}
+            onClick={() => setProvider('claude')}
+            icon={<Crown className="h-3.5 w-3.5" />}
+            label="Claude"
+          />
+          <ProviderToggle
+            provider="gemini"
+            selected={provider === 'gemini'}
+            available={available('gemini')}
+            onClick={() => setProvider('gemini')}
+            icon={<Sparkles className="h-3.5 w-3.5" />}
+            label="Gemini"
+          />
+          <ProviderToggle
+            provider="openai"
+            selected={provider === 'openai'}
+            available={available('openai')}
+            onClick={() => setProvider('openai')}
+            icon={<Bot className="h-3.5 w-3.5" />}
+            label="OpenAI"
+          />
+          <button
+            onClick={run}
+            disabled={isRunning || !record}
+            className="ml-auto flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs text-muted-foreground hover:bg-primary/10 hover:text-foreground transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-3 w-3 ${isRunning ? 'animate-spin' : ''}`} />
+            {review ? 'Re-review' : 'Review'}
+          </button>
+        </div>
+
+        {/* Loading */}
+        {isRunning && (
+          <div className="flex items-center justify-center py-8">
+            <div className="text-center space-y-3">
+              <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+              <p className="text-sm text-muted-foreground">Reviewing the diff...</p>
+            </div>
+          </div>
+        )}
+
+        {/* Review */}
+        {review && !isRunning && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+            <div className="space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                  Summary
+                </span>
+                <span className="rounded-full border border-border px-2 py-0.5 text-[10px] uppercase text-muted-foreground">
+                  {review.verdict.replace('_', ' ')}
+                </span>
+                <span className="text-[10px] text-muted-foreground">
+                  complexity {review.complexity.score}/10
+                </span>
+              </div>
+              <p className="text-sm text-foreground leading-relaxed">{review.summary}</p>
+            </div>
+
+            {review.issues.length > 0 && (
+              <div className="space-y-1.5">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                  Issues ({included}/{review.issues.length} selected)
+                </span>
+                {review.issues.map((issue, index) => (
+                  <IssueNote
+                    key={index}
+                    issue={issue}
+                    included={!dismissed.includes(index)}
+                    onToggle={() => toggleIssue(index)}
+                    showLocation
+                  />
+                ))}
+              </div>
+            )}
+
+            {record?.diff && (
+              <div className="rounded-lg border border-border overflow-hidden">
+                <UnifiedDiff diff={record.diff} comments={comments} className="max-h-[50vh] text-xs" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {!review && !isRunning && !error && (
+          <p className="text-sm text-muted-foreground">No review yet.</p>
+        )}
+
+        {/* Error */}
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/5 px-3 py-2 text-xs text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Post to GitHub */}
+        {review && !isRunning && (
+          <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t border-border">
+            {record?.posted && (
+              <a
+                href={record.posted.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mr-auto flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                Posted {new Date(record.posted.at).toLocaleString()}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+            <select
+              value={event}
+              onChange={(e) => setEvent(e.target.value as ReviewEvent)}
+              className="rounded-lg border border-border bg-muted px-2 py-1.5 text-xs text-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary"
+            >
+              {EVENTS.map((e) => (
+                <option key={e.value} value={e.value}>
+                  {e.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => post(event)}
+              disabled={isPosting}
+              className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {isPosting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+              Post to GitHub
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ── Sub-components ─────────────────────────── */
+
+function IssueNote({
+  issue,
+  included,
+  onToggle,
+  showLocation = false,
+}: {
+  issue: ReviewIssue;
+  included: boolean;
+  onToggle: () => void;
+  showLocation?: boolean;
+}) {
+  return (
+    <div
+      className={`flex items-start gap-2 rounded-lg border border-border bg-card px-3 py-2 transition-opacity ${
+        included ? '' : 'opacity-50'
+      }`}
+    >
+      <SeverityIcon severity={issue.severity} />
+      <div className="flex-1 min-w-0">
+        {showLocation && (
+          <p className="text-[11px] font-mono text-muted-foreground truncate">
+            {issue.file}
+            {issue.line ? `:${issue.line}` : ''}
+          </p>
+        )}
+        <p className="text-sm text-foreground whitespace-normal">{issue.message}</p>
+      </div>
+      <SeverityBadge severity={issue.severity} />
+      <label className="flex items-center gap-1 text-[10px] text-muted-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked={included}
+          onChange={onToggle}
+          className="rounded border-border accent-primary"
+        />
+        Post
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import {
+  X,
+  Loader2,
+  GitPullRequest,
+  Crown,
+  Sparkles,
+  Bot,
+  RefreshCw,
+  ExternalLink,
+  CheckCircle2,
+  XCircle,
+  Circle,
+} from 'lucide-react';
+import { usePullRequest } from '@/hooks/usePullRequest';
+import { useQuickChat } from '@/hooks/useQuickChat';
+import { useSandboxStore } from '@/hooks/useSandbox';
+import { ProviderToggle } from './CommitMessageCard';
+import type { ChecksState, PullRequestStatus } from '@/lib/types';
+
+const STATE_STYLES: Record<PullRequestStatus['state'], string> = {
+  open: 'bg-green-500/10 text-green-400',
+  merged: 'bg-purple-500/10 text-purple-400',
+  closed: 'bg-red-500/10 text-red-400',
+};
+
+export function PullRequestCard() {
+  const {
+    isOpen,
+    isLoading,
+    isCreating,
+    pullRequest,
+    status,
+    error,
+    provider,
+    base,
+    draft,
+    refresh,
+    create,
+    dismiss,
+    setProvider,
+    setBase,
+    setDraft,
+  } = usePullRequest();
+
+  const availableProviders = useQuickChat((s) => s.availableProviders);
+  const branch = useSandboxStore((s) => s.gitStatus?.branch);
+
+  if (!isOpen) return null;
+
+  const available = (p: 'claude' | 'gemini' | 'openai') => availableProviders.length === 0 || availableProviders.includes(p);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center px-4 py-4"
+      onClick={dismiss}
+    >
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+      <div
+        className="glass-card relative w-full max-w-lg p-4 sm:p-6 space-y-4 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <GitPullRequest className="h-5 w-5 text-primary" />
+            <h2 className="font-display text-base sm:text-lg font-bold uppercase tracking-wider text-primary">
+              Pull Request
+            </h2>
+          </div>
+          <button
+            onClick={dismiss}
+            className="rounded p-1.5 hover:bg-primary/10 transition-colors"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* Loading */}
+        {(isLoading || isCreating) && !pullRequest && (
+          <div className="flex items-center justify-center py-8">
+            <div className="text-center space-y-3">
+              <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+              <p className="text-sm text-muted-foreground">
+                {isCreating ? 'Pushing and writing the description...' : 'Checking for a pull request...'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* New pull request */}
+        {!pullRequest && !isLoading && !isCreating && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Pushes <span className="font-mono text-foreground">{branch || 'the current branch'}</span> and
+              opens a pull request with a title and description written from the session and its diff.
+            </p>
+
+            <div className="flex items-center gap-2">
+              <ProviderToggle
+                provider="claude"
+                selected={provider === 'claude'}
+                available={available('claude')}
+                onClick={() => setProvider('claude')}
+                icon={<Crown className="h-3.5 w-3.5" />}
+                label="Claude"
+              />
+              <ProviderToggle
+                provider="gemini"
+                selected={provider === 'gemini'}
+                available={available('gemini')}
+                onClick={() => setProvider('gemini')}
+                icon={<Sparkles className="h-3.5 w-3.5" />}
+                label="Gemini"
+              />
+              <ProviderToggle
+                provider="openai"
+                selected={provider === 'openai'}
+                available={available('openai')}
+                onClick={() => setProvider('openai')}
+                icon={<Bot className="h-3.5 w-3.5" />}
+                label="OpenAI"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                Base branch (optional)
+              </label>
+              <input
+                value={base}
+                onChange={(e) => setBase(e.target.value)}
+                placeholder="Repository default"
+                className="w-full rounded-lg border border-border bg-muted px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus-visible:border-primary focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft}
+                onChange={(e) => setDraft(e.target.checked)}
+                className="rounded border-border accent-primary"
+              />
+              <span className="text-xs text-muted-foreground">Open as draft</span>
+            </label>
+
+            <div className="flex items-center justify-end gap-2 pt-2 border-t border-border">
+              <button
+                onClick={dismiss}
+                className="rounded-lg border border-border px-3 py-1.5 text-xs text-muted-foreground hover:bg-primary/10 hover:text-foreground transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={create}
+                className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 transition-colors"
+              >
+                <GitPullRequest className="h-3 w-3" />
+                Open pull request
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Existing pull request */}
+        {pullRequest && (
+          <div className="space-y-3">
+            <a
+              href={pullRequest.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-start gap-2 rounded-lg border border-border bg-muted/30 px-3 py-2 hover:border-primary/40 transition-colors"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-foreground">{pullRequest.title}</p>
+                <p className="mt-0.5 text-[11px] font-mono text-muted-foreground">
+                  {pullRequest.repo}#{pullRequest.number} · {pullRequest.branch} → {pullRequest.base}
+                </p>
+              </div>
+              <ExternalLink className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            </a>
+
+            {status ? (
+              <>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className={`rounded-full px-2.5 py-0.5 font-medium capitalize ${STATE_STYLES[status.state]}`}>
+                    {status.draft && status.state === 'open' ? 'draft' : status.state}
+                  </span>
+                  {status.state === 'open' && status.mergeable === false && (
+                    <span className="text-amber-400">Merge conflicts</span>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                    Checks
+                  </span>
+                  {status.checks.checks.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No checks reported</p>
+                  ) : (
+                    status.checks.checks.map((check) => (
+                      <div key={check.name} className="flex items-center gap-2 text-xs">
+                        <CheckIcon state={check.state} />
+                        {check.url ? (
+                          <a
+                            href={check.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="truncate text-foreground hover:text-primary"
+                          >
+                            {check.name}
+                          </a>
+                        ) : (
+                          <span className="truncate text-foreground">{check.name}</span>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            ) : (
+              !isLoading && (
+                <p className="text-xs text-muted-foreground">Status unavailable — is GitHub still connected?</p>
+              )
+            )}
+
+            <div className="flex items-center justify-end gap-2 pt-2 border-t border-border">
+              <button
+                onClick={refresh}
+                disabled={isLoading}
+                className="flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs text-muted-foreground hover:bg-primary/10 hover:text-foreground transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`h-3 w-3 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Error */}
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/5 px-3 py-2 text-xs text-red-400">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ── Sub-components ─────────────────────────── */
+
+function CheckIcon({ state }: { state: Exclude<ChecksState, 'none'> }) {
+  if (state === 'success') return <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-green-400" />;
+  if (state === 'failure') return <XCircle className="h-3.5 w-3.5 shrink-0 text-red-400" />;
+  return <Circle className="h-3.5 w-3.5 shrink-0 text-amber-400" />;
+}
@@ -40,7 +40,7 @@ import { QuestionFlow } from './ai-elements/QuestionFlow';
 import { Plan, PlanHeader, PlanTitle, PlanContent, PlanTrigger } from './ai-elements/plan';
 import { Sources, SourcesTrigger, SourcesContent } from './ai-elements/sources';
 
-type SourceFile = { path: string; score: number };
+type SourceFile = { path: string; score: number; startLine?: number; endLine?: number };
 import { embeddingsApi } from '@/lib/api';
 import { extractRepoName } from '@/lib/session-names';
 import {
@@ -836,14 +836,15 @@ function extractSourcesFromParts(parts: UIMessage['parts']): SourceFile[] {
     if (toolPart.state !== 'output-available') continue;
     if (!('output' in toolPart) || typeof toolPart.output !== 'string') continue;
 
-    // Parse lines like: [87%] /workspace/src/auth.ts
+    // Parse lines like: [87%] /workspace/src/auth.ts:120-168 (range absent on older output)
     const lines = (toolPart.output as string).split('\n');
     for (const line of lines) {
-      const match = line.match(/^\[(\d+)%\]\s+(.+)$/);
+      const match = line.match(/^\[(\d+)%\]\s+(.+?)(?::(\d+)-(\d+))?$/);
       if (match) {
         sources.push({
           path: match[2].trim(),
           score: parseInt(match[1], 10) / 100,
+          ...(match[3] ? { startLine: parseInt(match[3], 10), endLine: parseInt(match[4], 10) } : {}),
         });
       }
     }
@@ -916,8 +917,8 @@ function QuickChatMessage({
   // Rich path: iterate parts for tool calls, reasoning, and text
   const sources = extractSourcesFromParts(msg.parts);
 
-  const handleSourceClick = (path: string) => {
-    useSandboxStore.getState().openFile(path);
+  const handleSourceClick = (source: SourceFile) => {
+    useSandboxStore.getState().openFile(source.path, source.startLine);
   };
 
   return (
@@ -1099,12 +1100,15 @@ function QuickChatMessage({
           <SourcesContent>
             {sources.map((s) => (
               <button
-                key={s.path}
+                key={`${s.path}:${s.startLine ?? 0}`}
                 type="button"
-                onClick={() => handleSourceClick(s.path)}
+                onClick={() => handleSourceClick(s)}
                 className="flex items-center gap-2 text-xs text-primary hover:underline"
               >
-                <span className="font-medium">{s.path}</span>
+                <span className="font-medium">
+                  {s.path}
+                  {s.startLine != null && `:${s.startLine}-${s.endLine}`}
+                </span>
                 {s.score != null && (
                   <span className="text-muted-foreground">{Math.round(s.score * 100)}%</span>
                 )}
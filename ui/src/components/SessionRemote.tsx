@@ -1,8 +1,10 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { Bookmark, X } from 'lucide-react';
+import { Bookmark, GitCompare, X } from 'lucide-react';
 import { checkpointsApi } from '@/lib/api';
 import { toast } from '@/hooks/useToast';
-import type { Checkpoint } from '@/lib/types';
+import { useSandboxStore } from '@/hooks/useSandbox';
+import { UnifiedDiff } from '@/components/DiffViewer';
+import type { Checkpoint, CheckpointDiff } from '@/lib/types';
 
 interface SessionRemoteProps {
   sessionId: string | undefined;
@@ -11,7 +13,9 @@ interface SessionRemoteProps {
   iconOnly?: boolean;
 }
 
-type View = 'menu' | 'checkpoint' | 'restore';
+type View = 'menu' | 'checkpoint' | 'restore' | 'compare';
+
+const LIVE_TREE = 'live';
 
 function formatRelative(iso: string): string {
   const diff = Date.now() - new Date(iso).getTime();
@@ -30,6 +34,10 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
   const [summary, setSummary] = useState('');
   const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
   const [saving, setSaving] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<Checkpoint | null>(null);
+  const [compareTo, setCompareTo] = useState(LIVE_TREE);
+  const [diff, setDiff] = useState<CheckpointDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
 
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -96,8 +104,12 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
     if (!sessionId) return;
     const name = `Wrap up · ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
     try {
-      await checkpointsApi.create({ name, sessionId, summary: '' });
-      toast('Session wrapped up and saved', 'success');
+      const result = await checkpointsApi.create({ name, sessionId, summary: '' });
+      if (result.success) {
+        toast('Session wrapped up and saved', 'success');
+      } else {
+        toast(result.error || 'Wrap up failed', 'error');
+      }
     } catch {
       toast('Wrap up failed', 'error');
     }
@@ -105,7 +117,29 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
   }, [sessionId, close]);
 
   const handlePickCheckpoint = useCallback(
-    (cp: Checkpoint) => {
+    async (cp: Checkpoint) => {
+      // Snapshot checkpoints roll files + conversation back server-side
+      if (cp.snapshotCommit) {
+        setSaving(true);
+        try {
+          const result = await checkpointsApi.restore(cp.id);
+          if (result.success) {
+            toast(`Restored "${cp.name}"`, 'success');
+            // Reload chat history — messages after the checkpoint were removed
+            await useSandboxStore.getState().selectSession(cp.sessionId);
+            close();
+          } else {
+            toast(result.error || 'Failed to restore checkpoint', 'error');
+          }
+        } catch {
+          toast('Failed to restore checkpoint', 'error');
+        } finally {
+          setSaving(false);
+        }
+        return;
+      }
+
+      // Legacy note-only checkpoints: prefill the prompt with the summary
       const date = new Date(cp.timestamp).toLocaleDateString([], {
         month: 'short',
         day: 'numeric',
@@ -124,6 +158,42 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
     [onSetPrompt, close],
   );
 
+  const loadDiff = useCallback(async (from: Checkpoint, to: string) => {
+    setDiffLoading(true);
+    setDiff(null);
+    try {
+      const result = await checkpointsApi.diff(from.id, to);
+      if (result.success && result.data) {
+        setDiff(result.data);
+      } else {
+        toast(result.error || 'Failed to load diff', 'error');
+      }
+    } catch {
+      toast('Failed to load diff', 'error');
+    } finally {
+      setDiffLoading(false);
+    }
+  }, []);
+
+  const handleCompare = useCallback(
+    (cp: Checkpoint) => {
+      setCompareFrom(cp);
+      setCompareTo(LIVE_TREE);
+      setView('compare');
+      loadDiff(cp, LIVE_TREE);
+    },
+    [loadDiff],
+  );
+
+  const handleCompareTarget = useCallback(
+    (to: string) => {
+      if (!compareFrom) return;
+      setCompareTo(to);
+      loadDiff(compareFrom, to);
+    },
+    [compareFrom, loadDiff],
+  );
+
   const handleNew = useCallback(() => {
     onSetPrompt('');
     close();
@@ -158,11 +228,21 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
 
       {/* Popup */}
       {open && (
-        <div className="absolute bottom-full left-0 mb-2 z-50 w-72 rounded-xl border border-white/10 bg-[#1a1a1e] p-3 shadow-xl">
+        <div
+          className={`absolute bottom-full left-0 mb-2 z-50 rounded-xl border border-white/10 bg-[#1a1a1e] p-3 shadow-xl ${
+            view === 'compare' ? 'w-[32rem] max-w-[90vw]' : 'w-72'
+          }`}
+        >
           {/* Header */}
           <div className="mb-2 flex items-center justify-between">
             <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
-              {view === 'menu' ? 'Session' : view === 'checkpoint' ? 'Save Checkpoint' : 'Restore'}
+              {view === 'menu'
+                ? 'Session'
+                : view === 'checkpoint'
+                  ? 'Save Checkpoint'
+                  : view === 'compare'
+                    ? 'Compare'
+                    : 'Restore'}
             </span>
             <button
               type="button"
@@ -270,15 +350,30 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
                 <p className="py-4 text-center text-xs text-muted-foreground">No checkpoints yet</p>
               ) : (
                 checkpoints.map((cp) => (
-                  <button
-                    key={cp.id}
-                    type="button"
-                    onClick={() => handlePickCheckpoint(cp)}
-                    className="flex flex-col rounded-lg px-3 py-2 text-left hover:bg-white/5 transition-colors"
-                  >
-                    <span className="truncate text-xs font-medium text-foreground">{cp.name}</span>
-                    <span className="text-[10px] text-muted-foreground">{formatRelative(cp.timestamp)}</span>
-                  </button>
+                  <div key={cp.id} className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => handlePickCheckpoint(cp)}
+                      disabled={saving}
+                      className="flex min-w-0 flex-1 flex-col rounded-lg px-3 py-2 text-left hover:bg-white/5 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                      <span className="truncate text-xs font-medium text-foreground">{cp.name}</span>
+                      <span className="text-[10px] text-muted-foreground">
+                        {formatRelative(cp.timestamp)}
+                        {cp.snapshotCommit ? ' · files + chat' : ' · notes only'}
+                      </span>
+                    </button>
+                    {cp.snapshotCommit && (
+                      <button
+                        type="button"
+                        onClick={() => handleCompare(cp)}
+                        title="Compare with current workspace"
+                        className="rounded p-1.5 text-muted-foreground hover:bg-white/5 hover:text-foreground transition-colors"
+                      >
+                        <GitCompare className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
                 ))
               )}
               <button
@@ -290,6 +385,56 @@ export function SessionRemote({ sessionId, onSetPrompt, iconOnly = false }: Sess
               </button>
             </div>
           )}
+
+          {/* Compare sub-view */}
+          {view === 'compare' && compareFrom && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                <span className="truncate font-medium text-foreground">{compareFrom.name}</span>
+                <span>→</span>
+                <select
+                  value={compareTo}
+                  onChange={(e) => handleCompareTarget(e.target.value)}
+                  className="min-w-0 flex-1 rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-foreground focus-visible:outline-none"
+                >
+                  <option value={LIVE_TREE}>Current workspace</option>
+                  {checkpoints
+                    .filter(
+                      (cp) =>
+                        cp.id !== compareFrom.id &&
+                        cp.sessionId === compareFrom.sessionId &&
+                        cp.snapshotCommit,
+                    )
+                    .map((cp) => (
+                      <option key={cp.id} value={cp.id}>
+                        {cp.name} ({formatRelative(cp.timestamp)})
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div className="max-h-80 overflow-hidden rounded-lg border border-white/10">
+                {diffLoading ? (
+                  <div className="flex h-24 items-center justify-center">
+                    <div className="h-5 w-5 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                  </div>
+                ) : diff && diff.diff ? (
+                  <UnifiedDiff diff={diff.diff} className="max-h-80" />
+                ) : (
+                  <p className="py-6 text-center text-xs text-muted-foreground">No changes</p>
+                )}
+              </div>
+              {diff?.truncated && (
+                <p className="text-[10px] text-muted-foreground">Diff truncated — too large to show in full</p>
+              )}
+              <button
+                type="button"
+                onClick={() => setView('restore')}
+                className="rounded-lg border border-white/10 py-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Back
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
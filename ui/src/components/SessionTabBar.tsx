@@ -5,6 +5,8 @@ import {
   Home,
   GitBranch,
   GitCommitHorizontal,
+  GitPullRequest,
+  ScanSearch,
   Moon,
   Sun,
   Settings,
@@ -12,6 +14,7 @@ import {
   Bug,
   MessageSquare,
   Globe,
+  Users,
 } from 'lucide-react';
 import { useSandboxStore } from '@/hooks/useSandbox';
 import { useAuthStore } from '@/hooks/useAuth';
@@ -32,6 +35,8 @@ import { useAgencyStore } from '@/hooks/useAgencyStore';
 import { useQuickChat } from '@/hooks/useQuickChat';
 import { useDevChangelog } from '@/hooks/useDevChangelog';
 import { triggerCommitMessage } from '@/hooks/useCommitMessage';
+import { usePullRequest } from '@/hooks/usePullRequest';
+import { usePrReview } from '@/hooks/usePrReview';
 import { McpRelayStatus } from '@/components/McpRelayStatus';
 import { APP_VERSION } from '@/lib/version';
 import { BUILD_HASH, BUILD_TIMESTAMP } from '@/lib/generated/build-info';
@@ -57,7 +62,7 @@ export function SessionTabBar() {
     renameSession,
     gitStatus,
   } = useSandboxStore();
-  const { logout } = useAuthStore();
+  const { logout, user } = useAuthStore();
   const { isDark, toggleTheme } = useTheme();
   const { openSettings } = useSettingsStore();
 
@@ -207,8 +212,17 @@ export function SessionTabBar() {
                 </button>
               )}
 
-              {/* C3 HIG fix: Close button — min 44px touch target via full-height flex */}
-              {!isEditing && (
+              {/* Shared into or out of an org */}
+              {session.sharing && (
+                <Users
+                  className="size-3 shrink-0 text-primary/70"
+                  aria-label={session.userId === user?.id ? 'Shared with your team' : 'Shared by a teammate'}
+                />
+              )}
+
+              {/* C3 HIG fix: Close button — min 44px touch target via full-height flex.
+                  Only the owner can close a shared session. */}
+              {!isEditing && session.userId === user?.id && (
                 <button
                   onClick={(e) => handleDelete(e, session.id)}
                   disabled={deletingId === session.id}
@@ -263,9 +277,33 @@ export function SessionTabBar() {
                 <span className="hidden lg:inline">AI Commit</span>
               </button>
             )}
+            {gitStatus.branch && (
+              <button
+                onClick={() => usePullRequest.getState().open()}
+                className="flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium text-primary hover:bg-primary/10 transition-colors"
+                title="Open a pull request for this branch"
+                aria-label="Open pull request"
+              >
+                <GitPullRequest className="size-3" />
+                <span className="hidden lg:inline">PR</span>
+              </button>
+            )}
           </div>
         )}
 
+        {/* Review of the PR this session was started from */}
+        {currentSession?.metadata?.pullRequest != null && (
+          <button
+            onClick={() => usePrReview.getState().open(currentSession.id)}
+            className="hidden md:flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium text-primary hover:bg-primary/10 transition-colors"
+            title="Show the pull request review"
+            aria-label="Show pull request review"
+          >
+            <ScanSearch className="size-3" />
+            <span className="hidden lg:inline">Review</span>
+          </button>
+        )}
+
         {/* Session status */}
         {currentSession && (
           <div className="hidden sm:flex items-center gap-1 text-[10px] text-muted-foreground px-1.5">
@@ -17,6 +17,8 @@ import {
   Sparkles,
   Hammer,
   CreditCard,
+  Users,
+  CalendarClock,
 } from 'lucide-react';
 import { useSettingsStore } from '@/hooks/useSettings';
 import type { SettingsTab } from '@/hooks/useSettings';
@@ -40,6 +42,8 @@ import { VaporFilesTab } from '@/components/settings/VaporFilesTab';
 import { AIProvidersTab } from '@/components/settings/AIProvidersTab';
 import { DevToolsTab } from '@/components/settings/DevToolsTab';
 import { BillingTab } from '@/components/settings/BillingTab';
+import { TeamTab } from '@/components/settings/TeamTab';
+import { SchedulesTab } from '@/components/settings/SchedulesTab';
 
 /* ─── Tab definitions ─── */
 
@@ -74,6 +78,7 @@ const TAB_GROUPS: TabGroup[] = [
       { id: 'ai-providers', label: 'AI Providers', icon: <Sparkles className="size-4" /> },
       { id: 'command-center', label: 'Command Center', icon: <Shield className="size-4" /> },
       { id: 'files', label: 'Files', icon: <HardDrive className="size-4" /> },
+      { id: 'schedules', label: 'Schedules', icon: <CalendarClock className="size-4" /> },
     ],
   },
   {
@@ -81,6 +86,7 @@ const TAB_GROUPS: TabGroup[] = [
     tabs: [
       { id: 'account', label: 'Account', icon: <User className="size-4" /> },
       { id: 'billing', label: 'Billing', icon: <CreditCard className="size-4" /> },
+      { id: 'team', label: 'Team', icon: <Users className="size-4" /> },
     ],
   },
   {
@@ -114,6 +120,8 @@ const TAB_CONTENT: Record<SettingsTab, () => JSX.Element> = {
   files: VaporFilesTab,
   account: AccountTab,
   billing: BillingTab,
+  team: TeamTab,
+  schedules: SchedulesTab,
   'dev-tools': DevToolsTab,
   guide: GuideTab,
   about: AboutTab,
@@ -1,10 +1,48 @@
 import { useState, useEffect } from 'react';
-import { Bell, BellOff, Plus, Trash2, Zap, Loader2 } from 'lucide-react';
-import { billingApi, maxBudgetApi, type AlertConfig } from '@/lib/api';
+import { Bell, BellOff, Plus, Trash2, Zap, Loader2, Send, RotateCw } from 'lucide-react';
+import {
+  billingApi,
+  maxBudgetApi,
+  type AlertChannel,
+  type AlertConfig,
+  type AlertDeliveryInput,
+  type AlertDeliveryRecord,
+  type SpendWindow,
+} from '@/lib/api';
 import { cn } from '@/lib/utils';
 
 const PRESET_THRESHOLDS = [50, 75, 80, 90];
 
+const WINDOWS: Array<{ value: SpendWindow; label: string }> = [
+  { value: 'session', label: 'Per session' },
+  { value: 'day', label: 'Daily' },
+  { value: 'month', label: 'Monthly' },
+];
+
+const CHANNELS: Array<{ value: AlertChannel; label: string }> = [
+  { value: 'in-app', label: 'In-App' },
+  { value: 'webhook', label: 'Webhook' },
+  { value: 'email', label: 'Email' },
+];
+
+/** Recent deliveries shown under the alert list */
+const DELIVERY_LOG_LIMIT = 5;
+
+const INPUT_CLASS =
+  'w-full rounded-md border border-border bg-muted/30 px-3 py-1.5 text-xs text-foreground placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary';
+
+function channelLabel(channel: AlertChannel): string {
+  return CHANNELS.find((c) => c.value === channel)?.label ?? channel;
+}
+
+function parseEmails(raw: string): string[] {
+  return raw.split(/[\s,;]+/).map((e) => e.trim()).filter(Boolean);
+}
+
+function windowLabel(window: SpendWindow | undefined): string {
+  return WINDOWS.find((w) => w.value === (window ?? 'session'))?.label ?? 'Per session';
+}
+
 function formatThreshold(pct: number, budgetUsd: number | null): string {
   if (budgetUsd) {
     const dollar = ((pct / 100) * budgetUsd).toFixed(2);
@@ -23,7 +61,7 @@ function formatTriggered(alert: AlertConfig): string {
 
 interface CreateFormProps {
   budgetUsd: number | null;
-  onSave: (thresholdPct: number, label: string) => Promise<void>;
+  onSave: (thresholdPct: number, label: string, window: SpendWindow, delivery: AlertDeliveryInput) => Promise<void>;
   onCancel: () => void;
   saving: boolean;
 }
@@ -32,9 +70,20 @@ function CreateForm({ budgetUsd, onSave, onCancel, saving }: CreateFormProps) {
   const [selected, setSelected] = useState<number>(80);
   const [custom, setCustom] = useState('');
   const [useCustom, setUseCustom] = useState(false);
+  const [spendWindow, setSpendWindow] = useState<SpendWindow>('session');
+  const [channels, setChannels] = useState<AlertChannel[]>(['in-app']);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [emailTo, setEmailTo] = useState('');
 
   const effectivePct = useCustom ? Number(custom) : selected;
-  const invalid = useCustom && (isNaN(effectivePct) || effectivePct < 1 || effectivePct > 99);
+  const invalid = (useCustom && (isNaN(effectivePct) || effectivePct < 1 || effectivePct > 99))
+    || channels.length === 0
+    || (channels.includes('webhook') && !webhookUrl.trim())
+    || (channels.includes('email') && parseEmails(emailTo).length === 0);
+
+  const toggleChannel = (channel: AlertChannel) => {
+    setChannels((prev) => (prev.includes(channel) ? prev.filter((c) => c !== channel) : [...prev, channel]));
+  };
 
   return (
     <div className="rounded-lg border border-border bg-muted/20 p-4 space-y-4">
@@ -85,17 +134,75 @@ function CreateForm({ budgetUsd, onSave, onCancel, saving }: CreateFormProps) {
         </div>
       )}
 
-      {/* Channel info */}
-      <div className="flex items-center gap-1.5">
+      {/* Spend window */}
+      <div className="flex flex-wrap gap-2">
+        {WINDOWS.map((w) => (
+          <button
+            key={w.value}
+            onClick={() => setSpendWindow(w.value)}
+            className={cn(
+              'rounded-full px-3 py-1 text-xs font-medium border transition-colors',
+              spendWindow === w.value
+                ? 'border-primary bg-primary/10 text-primary'
+                : 'border-border bg-muted/30 text-muted-foreground hover:border-primary/50'
+            )}
+          >
+            {w.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Channels */}
+      <div className="flex flex-wrap items-center gap-1.5">
         <span className="text-[10px] text-muted-foreground">Notify via:</span>
-        <span className="rounded-full bg-indigo-500/10 border border-indigo-500/30 px-2 py-0.5 text-[10px] font-medium text-indigo-400">
-          In-App
-        </span>
+        {CHANNELS.map((ch) => (
+          <button
+            key={ch.value}
+            onClick={() => toggleChannel(ch.value)}
+            className={cn(
+              'rounded-full px-2 py-0.5 text-[10px] font-medium border transition-colors',
+              channels.includes(ch.value)
+                ? 'bg-indigo-500/10 border-indigo-500/30 text-indigo-400'
+                : 'border-border bg-muted/30 text-muted-foreground hover:border-indigo-500/30'
+            )}
+          >
+            {ch.label}
+          </button>
+        ))}
       </div>
 
+      {channels.includes('webhook') && (
+        <div className="space-y-1">
+          <input
+            type="url"
+            placeholder="https://hooks.slack.com/services/..."
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            className={INPUT_CLASS}
+          />
+          <p className="text-[10px] text-muted-foreground">
+            Slack incoming webhooks work as-is. Requests are signed with a per-alert secret.
+          </p>
+        </div>
+      )}
+
+      {channels.includes('email') && (
+        <input
+          type="text"
+          placeholder="lead@example.com, oncall@example.com"
+          value={emailTo}
+          onChange={(e) => setEmailTo(e.target.value)}
+          className={INPUT_CLASS}
+        />
+      )}
+
       <div className="flex gap-2">
         <button
-          onClick={() => onSave(effectivePct, `Alert at ${effectivePct}%`)}
+          onClick={() => onSave(effectivePct, `Alert at ${effectivePct}%`, spendWindow, {
+            channels,
+            ...(channels.includes('webhook') ? { webhookUrl: webhookUrl.trim() } : {}),
+            ...(channels.includes('email') ? { emailTo: parseEmails(emailTo) } : {}),
+          })}
           disabled={saving || invalid || (useCustom && !custom)}
           className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground transition-opacity hover:opacity-90 disabled:opacity-40 disabled:cursor-not-allowed"
         >
@@ -119,11 +226,15 @@ interface AlertCardProps {
   budgetUsd: number | null;
   onToggle: () => void;
   onDelete: () => void;
+  onTest: () => void;
   toggling: boolean;
   deleting: boolean;
+  testing: boolean;
 }
 
-function AlertCard({ alert, budgetUsd, onToggle, onDelete, toggling, deleting }: AlertCardProps) {
+function AlertCard({ alert, budgetUsd, onToggle, onDelete, onTest, toggling, deleting, testing }: AlertCardProps) {
+  const hasExternal = alert.channels.some((ch) => ch !== 'in-app');
+
   return (
     <div
       className={cn(
@@ -146,7 +257,7 @@ function AlertCard({ alert, budgetUsd, onToggle, onDelete, toggling, deleting }:
           <div className="min-w-0">
             <p className="text-sm font-medium text-foreground truncate">{alert.label}</p>
             <p className="text-xs text-muted-foreground">
-              {formatThreshold(alert.thresholdPct, budgetUsd)}
+              {formatThreshold(alert.thresholdPct, budgetUsd)} · {windowLabel(alert.window)}
             </p>
           </div>
         </div>
@@ -170,11 +281,24 @@ function AlertCard({ alert, budgetUsd, onToggle, onDelete, toggling, deleting }:
             key={ch}
             className="rounded-full bg-indigo-500/10 border border-indigo-500/20 px-2 py-0.5 text-[10px] font-medium text-indigo-400"
           >
-            {ch === 'in-app' ? 'In-App' : ch}
+            {channelLabel(ch)}
           </span>
         ))}
       </div>
 
+      {/* Delivery targets */}
+      {(alert.delivery?.webhook || alert.delivery?.email) && (
+        <div className="space-y-0.5 text-[11px] text-muted-foreground">
+          {alert.delivery.webhook && (
+            <p className="truncate">
+              Webhook {new URL(alert.delivery.webhook.url).host} · secret{' '}
+              <code className="font-mono text-[10px] text-foreground/80 select-all">{alert.delivery.webhook.secret}</code>
+            </p>
+          )}
+          {alert.delivery.email && <p className="truncate">Email {alert.delivery.email.to.join(', ')}</p>}
+        </div>
+      )}
+
       {/* Trigger history */}
       <div className="flex items-center gap-1.5">
         <Zap className={cn('h-3 w-3 flex-shrink-0', alert.triggeredCount > 0 ? 'text-amber-400' : 'text-muted-foreground')} />
@@ -191,6 +315,19 @@ function AlertCard({ alert, budgetUsd, onToggle, onDelete, toggling, deleting }:
           {toggling ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
           {alert.enabled ? 'Pause' : 'Enable'}
         </button>
+        {hasExternal && (
+          <>
+            <span className="text-border">·</span>
+            <button
+              onClick={onTest}
+              disabled={testing}
+              className="flex items-center gap-1.5 text-[11px] font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-40"
+            >
+              {testing ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+              Send test
+            </button>
+          </>
+        )}
         <span className="text-border">·</span>
         <button
           onClick={onDelete}
@@ -208,6 +345,51 @@ function AlertCard({ alert, budgetUsd, onToggle, onDelete, toggling, deleting }:
   );
 }
 
+interface DeliveryLogProps {
+  deliveries: AlertDeliveryRecord[];
+  alerts: AlertConfig[];
+  retryingId: string | null;
+  onRetry: (id: string) => void;
+}
+
+function DeliveryLog({ deliveries, alerts, retryingId, onRetry }: DeliveryLogProps) {
+  if (deliveries.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[11px] font-medium text-muted-foreground">Recent deliveries</p>
+      {deliveries.slice(0, DELIVERY_LOG_LIMIT).map((d) => (
+        <div key={d.id} className="flex items-center gap-2 text-[11px]">
+          <span className={cn(
+            'rounded-full px-1.5 py-0.5 text-[10px] font-medium border',
+            d.status === 'delivered'
+              ? 'bg-green-500/10 text-green-400 border-green-500/30'
+              : 'bg-red-500/10 text-red-400 border-red-500/30'
+          )}>
+            {d.status}
+          </span>
+          <span className="min-w-0 flex-1 truncate text-muted-foreground">
+            {alerts.find((a) => a.id === d.alertId)?.label ?? 'Deleted alert'} · {channelLabel(d.channel)} {d.target}
+            {d.error ? ` · ${d.error}` : ''}
+          </span>
+          <span className="flex-shrink-0 text-muted-foreground/60">
+            {new Date(d.updatedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+          </span>
+          {d.status === 'failed' && (
+            <button
+              onClick={() => onRetry(d.id)}
+              disabled={retryingId === d.id}
+              title="Retry delivery"
+              className="flex-shrink-0 text-muted-foreground transition-colors hover:text-foreground disabled:opacity-40"
+            >
+              <RotateCw className={cn('h-3 w-3', retryingId === d.id && 'animate-spin')} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function UsageAlertsCard() {
   const [alerts, setAlerts] = useState<AlertConfig[]>([]);
   const [budgetUsd, setBudgetUsd] = useState<number | null>(null);
@@ -216,32 +398,42 @@ export function UsageAlertsCard() {
   const [saving, setSaving] = useState(false);
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<AlertDeliveryRecord[]>([]);
   const [error, setError] = useState('');
 
   useEffect(() => {
     Promise.all([
       billingApi.alerts.list(),
       maxBudgetApi.get(),
+      billingApi.alerts.deliveries(),
     ])
-      .then(([alertsRes, budgetRes]) => {
+      .then(([alertsRes, budgetRes, deliveriesRes]) => {
         if (alertsRes.success && alertsRes.data) setAlerts(alertsRes.data.alerts);
         if (budgetRes.success && budgetRes.data) setBudgetUsd(budgetRes.data.maxBudgetUsd);
+        if (deliveriesRes.success && deliveriesRes.data) setDeliveries(deliveriesRes.data.deliveries);
       })
       .catch(() => setError('Failed to load alerts'))
       .finally(() => setLoading(false));
   }, []);
 
-  const handleCreate = async (thresholdPct: number, label: string) => {
+  const handleCreate = async (
+    thresholdPct: number,
+    label: string,
+    spendWindow: SpendWindow,
+    delivery: AlertDeliveryInput
+  ) => {
     setSaving(true);
     setError('');
     try {
-      const res = await billingApi.alerts.create({ thresholdPct, label });
+      const res = await billingApi.alerts.create({ thresholdPct, label, window: spendWindow, ...delivery });
       if (res.success && res.data) {
         setAlerts((prev) => [...prev, res.data!.alert]);
         setShowCreate(false);
       }
-    } catch {
-      setError('Failed to create alert');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create alert');
     } finally {
       setSaving(false);
     }
@@ -275,6 +467,36 @@ export function UsageAlertsCard() {
     }
   };
 
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    setError('');
+    try {
+      const res = await billingApi.alerts.test(id);
+      if (res.success && res.data) {
+        setDeliveries((prev) => [...res.data!.deliveries, ...prev]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test alert');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      const res = await billingApi.alerts.retryDelivery(id);
+      if (res.success && res.data) {
+        const updated = res.data.delivery;
+        setDeliveries((prev) => [updated, ...prev.filter((d) => d.id !== id)]);
+      }
+    } catch {
+      setError('Failed to retry delivery');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
   return (
     <section className="space-y-4">
       {/* Header */}
@@ -340,11 +562,20 @@ export function UsageAlertsCard() {
                 budgetUsd={budgetUsd}
                 onToggle={() => handleToggle(alert.id)}
                 onDelete={() => handleDelete(alert.id)}
+                onTest={() => handleTest(alert.id)}
                 toggling={togglingId === alert.id}
                 deleting={deletingId === alert.id}
+                testing={testingId === alert.id}
               />
             ))
           )}
+
+          <DeliveryLog
+            deliveries={deliveries}
+            alerts={alerts}
+            retryingId={retryingId}
+            onRetry={handleRetry}
+          />
         </div>
       )}
 
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { Database, Loader2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { mcpApi } from '@/lib/api';
+import type { McpResource, McpServerConfig } from '@/lib/types';
+
+/** An MCP resource attached to the message being written */
+export interface ResourceAttachment {
+  id: string;
+  server: string;
+  resource: McpResource;
+  /** Sandbox paths of the uploaded contents; undefined while reading */
+  paths?: string[];
+}
+
+interface McpResourcePickerProps {
+  onPick: (server: string, resource: McpResource) => void;
+  disabled?: boolean;
+  className?: string;
+  iconClassName?: string;
+}
+
+/** Prompt-bar button listing the resources of MCP servers the Worker can read */
+export function McpResourcePicker({ onPick, disabled, className, iconClassName }: McpResourcePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [servers, setServers] = useState<McpServerConfig[] | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setServers(null);
+    mcpApi.list()
+      .then((result) => {
+        setServers((result.data ?? []).filter(
+          (s) => s.enabled && (s.transport === 'http' || s.transport === 'sse') && s.resources?.length,
+        ));
+      })
+      .catch(() => setServers([]));
+  }, [open]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setOpen((v) => !v)}
+        aria-label="Attach MCP resource"
+        title="Attach MCP resource"
+        className={cn(className, open && 'text-primary bg-primary/10')}
+      >
+        <Database className={iconClassName} />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full left-0 z-50 mb-2 max-h-[272px] w-72 overflow-y-auto rounded-lg border border-border/60 bg-card shadow-lg backdrop-blur-sm">
+          {servers === null ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+              <Loader2 className="size-3 animate-spin" /> Loading resources...
+            </div>
+          ) : servers.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-muted-foreground">
+              No MCP resources — ping an HTTP or SSE server in Integrations to list them
+            </div>
+          ) : (
+            servers.map((server) => (
+              <div key={server.name}>
+                <div className="sticky top-0 bg-card px-3 pt-2 pb-1 text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+                  {server.name}
+                </div>
+                {server.resources!.map((resource) => (
+                  <button
+                    key={resource.uri}
+                    type="button"
+                    className="flex w-full flex-col px-3 py-1.5 text-left transition-colors hover:bg-primary/10"
+                    onClick={() => {
+                      onPick(server.name, resource);
+                      setOpen(false);
+                    }}
+                  >
+                    <span className="truncate text-sm text-foreground">{resource.name}</span>
+                    <span className="truncate text-[10px] text-muted-foreground">
+                      {resource.description || resource.uri}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Attached resources above the textarea, with remove buttons */
+export function ResourceDraftStrip({
+  attachments,
+  onRemove,
+}: {
+  attachments: ResourceAttachment[];
+  onRemove: (id: string) => void;
+}) {
+  if (attachments.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2 px-3 pt-2">
+      {attachments.map((a) => (
+        <div
+          key={a.id}
+          title={`${a.server}: ${a.resource.uri}`}
+          className="flex max-w-[220px] items-center gap-1.5 rounded-lg border border-border bg-muted/30 px-2 py-1 text-xs text-foreground"
+        >
+          {a.paths ? (
+            <Database className="size-3 shrink-0 text-primary" />
+          ) : (
+            <Loader2 className="size-3 shrink-0 animate-spin text-muted-foreground" />
+          )}
+          <span className="truncate">{a.resource.name}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(a.id)}
+            className="shrink-0 text-muted-foreground hover:text-foreground"
+            aria-label="Remove resource"
+          >
+            <X className="size-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
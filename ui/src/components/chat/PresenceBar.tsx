@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Eye, Loader2, ShieldQuestion, X } from 'lucide-react';
+import { approveToolUse } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { usePresenceStore } from '@/hooks/useSessionPresence';
+
+function initials(email: string): string {
+  return (email.split('@')[0] || '?').slice(0, 2).toUpperCase();
+}
+
+function nameOf(email: string): string {
+  return email.split('@')[0] || email;
+}
+
+/**
+ * Who else is in a shared session: viewers and typing, the member currently
+ * driving (with a live preview), queued prompts, and tool approvals any
+ * collaborator can answer.
+ */
+export function PresenceBar({ sessionId, userId }: { sessionId: string; userId: string | undefined }) {
+  const { viewers, queue, run, preview, approvals, error, cancel, clearError } = usePresenceStore();
+  const [answering, setAnswering] = useState<string | null>(null);
+
+  const me = viewers.find((v) => v.userId === userId);
+  const others = viewers.filter((v) => v.userId !== userId);
+  const typing = others.filter((v) => v.typing);
+  const driver = run && run.userId !== userId ? viewers.find((v) => v.userId === run.userId) : undefined;
+  const canApprove = me !== undefined && me.access !== 'viewer';
+
+  if (others.length === 0 && queue.length === 0 && approvals.length === 0 && !error) return null;
+
+  const answer = async (approvalId: string, approved: boolean) => {
+    setAnswering(approvalId);
+    try {
+      await approveToolUse(sessionId, approvalId, approved);
+    } catch (err) {
+      usePresenceStore.setState({ error: err instanceof Error ? err.message : 'Approval failed' });
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5 rounded-xl border border-border/60 bg-card/60 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <div className="flex -space-x-1.5">
+          {others.map((v) => (
+            <span
+              key={v.userId}
+              title={`${v.email} (${v.access})`}
+              className={cn(
+                'flex h-5 w-5 items-center justify-center rounded-full border border-background bg-primary/20 text-[9px] font-semibold text-primary',
+                v.typing && 'ring-1 ring-primary',
+              )}
+            >
+              {initials(v.email)}
+            </span>
+          ))}
+        </div>
+        <span className="truncate text-muted-foreground">
+          {driver
+            ? `${nameOf(driver.email)} is driving`
+            : typing.length > 0
+              ? `${typing.map((v) => nameOf(v.email)).join(', ')} typing…`
+              : `${others.length} watching`}
+        </span>
+        {me?.access === 'viewer' && (
+          <span className="ml-auto flex items-center gap-1 text-muted-foreground/70">
+            <Eye className="h-3 w-3" />
+            View only
+          </span>
+        )}
+      </div>
+
+      {driver && preview && (
+        <p className="line-clamp-2 whitespace-pre-wrap text-muted-foreground/80">{preview.slice(-300)}</p>
+      )}
+
+      {approvals.map((a) => (
+        <div key={a.approvalId} className="flex items-center gap-2 rounded-lg bg-amber-500/10 px-2 py-1">
+          <ShieldQuestion className="h-3.5 w-3.5 shrink-0 text-amber-500" />
+          <span className="flex-1 truncate">
+            Approve <span className="font-mono">{a.toolName}</span>?
+          </span>
+          {canApprove ? (
+            answering === a.approvalId ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <>
+                <button
+                  onClick={() => void answer(a.approvalId, true)}
+                  className="rounded px-2 py-0.5 font-medium text-primary hover:bg-primary/10 transition-colors"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => void answer(a.approvalId, false)}
+                  className="rounded px-2 py-0.5 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+                >
+                  Deny
+                </button>
+              </>
+            )
+          ) : (
+            <span className="text-muted-foreground/70">Waiting for a collaborator</span>
+          )}
+        </div>
+      ))}
+
+      {queue.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] uppercase tracking-wider text-muted-foreground/70">Queued</p>
+          {queue.map((q, i) => (
+            <div key={q.id} className="flex items-center gap-2">
+              <span className="tabular-nums text-muted-foreground/70">{i + 1}.</span>
+              <span className="flex-1 truncate">
+                <span className="text-muted-foreground">{nameOf(q.email)}:</span> {q.prompt}
+              </span>
+              {(q.userId === userId || me?.access === 'owner') && (
+                <button
+                  onClick={() => cancel(q.id)}
+                  className="rounded p-0.5 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+                  aria-label="Remove from queue"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-400">
+          <span className="flex-1 truncate">{error}</span>
+          <button onClick={clearError} className="rounded p-0.5 hover:bg-red-500/10" aria-label="Dismiss">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,8 @@ import {
   BookOpen,
   Info,
   ChevronRight,
+  Users,
+  CalendarClock,
 } from 'lucide-react';
 import { useSandboxStore } from '@/hooks/useSandbox';
 import { useAuthStore } from '@/hooks/useAuth';
@@ -98,8 +100,10 @@ const SETTINGS_ICONS: Record<SettingsTab, React.ReactNode> = {
   'ai-providers': <Sparkles className="size-4" />,
   'command-center': <Shield className="size-4" />,
   files: <HardDrive className="size-4" />,
+  schedules: <CalendarClock className="size-4" />,
   account: <User className="size-4" />,
   billing: <CreditCard className="size-4" />,
+  team: <Users className="size-4" />,
   'dev-tools': <Hammer className="size-4" />,
   guide: <BookOpen className="size-4" />,
   about: <Info className="size-4" />,
@@ -130,6 +134,7 @@ const SETTINGS_GROUPS: readonly SettingsGroup[] = [
       { id: 'ai-providers', label: 'AI Providers' },
       { id: 'command-center', label: 'Command Center' },
       { id: 'files', label: 'Files' },
+      { id: 'schedules', label: 'Schedules' },
     ],
   },
   {
@@ -137,6 +142,7 @@ const SETTINGS_GROUPS: readonly SettingsGroup[] = [
     tabs: [
       { id: 'account', label: 'Account' },
       { id: 'billing', label: 'Billing' },
+      { id: 'team', label: 'Team' },
     ],
   },
   {
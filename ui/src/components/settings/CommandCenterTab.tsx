@@ -15,7 +15,18 @@ import {
   FileText,
   DollarSign,
 } from 'lucide-react';
-import { vfRulesApi, autoContextApi, maxBudgetApi } from '@/lib/api';
+import { vfRulesApi, autoContextApi, maxBudgetApi, type BudgetPolicy } from '@/lib/api';
+
+const DEFAULT_POLICY: BudgetPolicy = { action: 'warn', window: 'session', downgradeModel: 'haiku' };
+
+const WINDOW_LABELS: Record<BudgetPolicy['window'], string> = {
+  session: 'per session',
+  day: 'per day',
+  month: 'per month',
+};
+
+const SELECT_CLASS =
+  'rounded-lg border border-border bg-muted px-2 py-1.5 text-xs text-foreground focus-visible:border-primary focus-visible:outline-none';
 
 const SYSTEM_PROMPT =
   'You are working in a cloud sandbox. Always create, edit, and manage files in /workspace (your cwd). Never use /tmp unless explicitly asked.';
@@ -34,6 +45,7 @@ export function CommandCenterTab() {
   const [maxBudgetLoading, setMaxBudgetLoading] = useState(true);
   const [maxBudgetSaving, setMaxBudgetSaving] = useState(false);
   const [maxBudgetResult, setMaxBudgetResult] = useState<string | null>(null);
+  const [budgetPolicy, setBudgetPolicy] = useState<BudgetPolicy>(DEFAULT_POLICY);
 
   const loadAutoContext = useCallback(async () => {
     setAutoContextLoading(true);
@@ -55,6 +67,7 @@ export function CommandCenterTab() {
       const result = await maxBudgetApi.get();
       if (result.success && result.data) {
         setMaxBudget(result.data.maxBudgetUsd !== null ? String(result.data.maxBudgetUsd) : '');
+        if (result.data.policy) setBudgetPolicy(result.data.policy);
       }
     } catch {
       // Ignore — leave empty (no limit)
@@ -72,9 +85,11 @@ export function CommandCenterTab() {
         setMaxBudgetResult('Enter a positive number or leave blank for no limit');
         return;
       }
-      const result = await maxBudgetApi.set(parsed);
+      const result = await maxBudgetApi.set(parsed, budgetPolicy);
       if (result.success) {
-        setMaxBudgetResult(parsed ? `Limit set to $${parsed} per session` : 'Limit cleared — no cap');
+        setMaxBudgetResult(
+          parsed ? `Limit set to $${parsed} ${WINDOW_LABELS[budgetPolicy.window]}` : 'Limit cleared — no cap'
+        );
         setTimeout(() => setMaxBudgetResult(null), 4000);
       }
     } catch {
@@ -328,8 +343,9 @@ export function CommandCenterTab() {
         </div>
 
         <p className="text-xs text-muted-foreground leading-relaxed">
-          Set a per-session USD spend limit. Claude stops when this amount is reached.
-          Leave blank for no cap. Changes apply to <strong>new sessions only</strong>.
+          Set a USD spend limit per session, day or month, and choose what happens to new
+          runs once it is reached: warn, switch to a cheaper model, or refuse the run.
+          Leave blank for no cap.
         </p>
 
         <div className="flex items-center gap-2">
@@ -347,7 +363,40 @@ export function CommandCenterTab() {
               className="w-32 rounded-lg border border-border bg-muted px-3 py-1.5 text-sm text-foreground focus-visible:border-primary focus-visible:outline-none"
             />
           )}
-          <span className="text-xs text-muted-foreground">USD per session</span>
+          <select
+            value={budgetPolicy.window}
+            onChange={(e) => setBudgetPolicy({ ...budgetPolicy, window: e.target.value as BudgetPolicy['window'] })}
+            className={SELECT_CLASS}
+          >
+            <option value="session">USD per session</option>
+            <option value="day">USD per day</option>
+            <option value="month">USD per month</option>
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">When reached:</span>
+          <select
+            value={budgetPolicy.action}
+            onChange={(e) => setBudgetPolicy({ ...budgetPolicy, action: e.target.value as BudgetPolicy['action'] })}
+            className={SELECT_CLASS}
+          >
+            <option value="warn">Warn only</option>
+            <option value="downgrade">Switch to cheaper model</option>
+            <option value="refuse">Refuse new runs</option>
+          </select>
+          {budgetPolicy.action === 'downgrade' && (
+            <select
+              value={budgetPolicy.downgradeModel}
+              onChange={(e) =>
+                setBudgetPolicy({ ...budgetPolicy, downgradeModel: e.target.value as BudgetPolicy['downgradeModel'] })
+              }
+              className={SELECT_CLASS}
+            >
+              <option value="haiku">Haiku</option>
+              <option value="sonnet">Sonnet</option>
+            </select>
+          )}
         </div>
 
         {maxBudgetResult && (
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Loader2, Play, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { schedulesApi, type AlertChannel, type JobRun, type ScheduledJob } from '@/lib/api';
+
+const SCHEDULE_PRESETS = [
+  { cron: '0 7 * * 1-5', label: 'Weekdays at 7:00' },
+  { cron: '0 9 * * *', label: 'Daily at 9:00' },
+  { cron: '0 9 * * 1', label: 'Mondays at 9:00' },
+  { cron: '0 * * * *', label: 'Every hour' },
+];
+
+const STATUS_CLASS: Record<JobRun['status'], string> = {
+  running: 'text-primary',
+  succeeded: 'text-green-500',
+  failed: 'text-red-400',
+};
+
+function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Run history for one job, newest first. */
+function JobRuns({ jobId }: { jobId: string }) {
+  const [runs, setRuns] = useState<JobRun[] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    schedulesApi.runs(jobId)
+      .then((result) => setRuns(result.data?.runs ?? []))
+      .catch(() => setRuns([]));
+  }, [jobId]);
+
+  if (!runs) return <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />;
+  if (runs.length === 0) return <p className="text-[11px] text-muted-foreground">No runs yet.</p>;
+
+  return (
+    <div className="space-y-1">
+      {runs.map((run) => (
+        <div key={run.id} className="text-[11px]">
+          <button
+            onClick={() => setExpanded(expanded === run.id ? null : run.id)}
+            className="flex w-full items-center gap-1.5 text-left"
+          >
+            {expanded === run.id ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            <span className="tabular-nums text-muted-foreground">{new Date(run.startedAt).toLocaleString()}</span>
+            <span className={STATUS_CLASS[run.status]}>{run.status}</span>
+            {run.trigger === 'manual' && <span className="text-muted-foreground/70">manual</span>}
+            {run.costUsd !== undefined && (
+              <span className="ml-auto tabular-nums text-muted-foreground">${run.costUsd.toFixed(2)}</span>
+            )}
+          </button>
+          {expanded === run.id && (
+            <div className="ml-4 mt-1 space-y-1">
+              {run.sessionId && <p className="text-muted-foreground">Session {run.sessionId.slice(0, 8)}</p>}
+              {run.error && <p className="text-red-400">{run.error}</p>}
+              {run.resultText && (
+                <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded bg-muted p-2">{run.resultText}</pre>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SchedulesTab() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openJob, setOpenJob] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [schedule, setSchedule] = useState(SCHEDULE_PRESETS[0].cron);
+  const [prompt, setPrompt] = useState('');
+  const [gitRepo, setGitRepo] = useState('');
+  const [channel, setChannel] = useState<AlertChannel>('in-app');
+  const [target, setTarget] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const result = await schedulesApi.list();
+      if (result.success && result.data) setJobs(result.data.jobs);
+    } catch {
+      // Failed to load
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    await schedulesApi.create({
+      name: name.trim(),
+      schedule: schedule.trim(),
+      timezone: localTimezone(),
+      prompt: prompt.trim(),
+      ...(gitRepo.trim() ? { gitRepo: gitRepo.trim() } : {}),
+      channels: channel === 'in-app' ? ['in-app'] : ['in-app', channel],
+      ...(channel === 'webhook' ? { webhookUrl: target.trim() } : {}),
+      ...(channel === 'email' ? { emailTo: target.split(',').map((s) => s.trim()).filter(Boolean) } : {}),
+    });
+    setName('');
+    setPrompt('');
+    setTarget('');
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 font-display text-sm font-bold uppercase tracking-wider text-foreground">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        Schedules
+      </h3>
+
+      <p className="text-xs text-muted-foreground leading-relaxed">
+        Run a prompt on a schedule in autonomous mode. Each run starts a fresh
+        session on the repository (or none), and its transcript is kept like any
+        other session. Times use your local timezone ({localTimezone()}).
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="space-y-2 rounded-lg border border-border p-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. Dependency audit"
+          className="w-full rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+        />
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="Prompt, e.g. /dependency-audit"
+          rows={3}
+          className="w-full rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+        />
+        <input
+          value={gitRepo}
+          onChange={(e) => setGitRepo(e.target.value)}
+          placeholder="https://github.com/owner/repo (optional)"
+          className="w-full rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+        />
+        <div className="flex items-center gap-2">
+          <select
+            value={SCHEDULE_PRESETS.some((p) => p.cron === schedule) ? schedule : ''}
+            onChange={(e) => e.target.value && setSchedule(e.target.value)}
+            aria-label="Schedule preset"
+            className="rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+          >
+            {SCHEDULE_PRESETS.map((p) => <option key={p.cron} value={p.cron}>{p.label}</option>)}
+            <option value="">Custom</option>
+          </select>
+          <input
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value)}
+            aria-label="Cron expression"
+            className="flex-1 rounded border border-border bg-muted px-2 py-1 font-mono text-xs focus-visible:border-primary focus-visible:outline-none"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={channel}
+            onChange={(e) => setChannel(e.target.value as AlertChannel)}
+            aria-label="Notify via"
+            className="rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+          >
+            <option value="in-app">Run history only</option>
+            <option value="webhook">Webhook</option>
+            <option value="email">Email</option>
+          </select>
+          {channel !== 'in-app' && (
+            <input
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder={channel === 'webhook' ? 'https://hooks.slack.com/…' : 'you@example.com'}
+              className="flex-1 rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+            />
+          )}
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={busy || !name.trim() || !prompt.trim()}
+          className="btn-primary px-2 py-1 text-xs disabled:opacity-50"
+        >
+          Create schedule
+        </button>
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No scheduled jobs yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {jobs.map((job) => (
+            <div key={job.id} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setOpenJob(openJob === job.id ? null : job.id)}
+                  className="flex min-w-0 flex-1 items-center gap-1.5 text-left text-xs font-medium text-foreground"
+                >
+                  {openJob === job.id ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                  <span className="truncate">{job.name}</span>
+                  <code className="text-[11px] text-muted-foreground">{job.schedule}</code>
+                </button>
+                <label className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={job.enabled}
+                    disabled={busy}
+                    onChange={(e) => run(() => schedulesApi.update(job.id, { enabled: e.target.checked }))}
+                  />
+                  Enabled
+                </label>
+                <button
+                  onClick={() => run(async () => {
+                    await schedulesApi.runNow(job.id);
+                    setOpenJob(null);
+                  })}
+                  disabled={busy}
+                  className="rounded p-1 hover:bg-primary/10 transition-colors"
+                  aria-label="Run now"
+                  title="Run now"
+                >
+                  <Play className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => run(() => schedulesApi.remove(job.id))}
+                  disabled={busy}
+                  className="rounded p-1 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+                  aria-label="Delete schedule"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              <p className="text-[11px] text-muted-foreground">
+                {job.enabled && job.nextRunAt ? `Next ${new Date(job.nextRunAt).toLocaleString()}` : 'Paused'}
+                {job.lastStatus && (
+                  <> · last run <span className={STATUS_CLASS[job.lastStatus]}>{job.lastStatus}</span></>
+                )}
+                {job.gitRepo ? ` · ${job.gitRepo.replace('https://github.com/', '')}` : ''}
+              </p>
+              {openJob === job.id && <JobRuns jobId={job.id} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Plus, Trash2, Key, Loader2, X, Eye, EyeOff, RefreshCw } from 'lucide-react';
-import { secretsApi } from '@/lib/api';
+import { secretsApi, type SecretEntry, type SecretScopeKind } from '@/lib/api';
 
-interface SecretEntry {
-  name: string;
-  hint: string;
+const SCOPE_OPTIONS: Array<{ value: SecretScopeKind; label: string; hint: string }> = [
+  { value: 'global', label: 'All sessions', hint: 'Injected into every session' },
+  { value: 'project', label: 'Matching repos', hint: 'Only sessions whose repo matches the pattern' },
+  { value: 'manual', label: 'When picked', hint: 'Only when selected while creating a session' },
+];
+
+function scopeLabel(secret: SecretEntry): string {
+  if (secret.scope === 'project') return secret.gitRepo || 'project';
+  return SCOPE_OPTIONS.find((o) => o.value === secret.scope)?.label ?? 'All sessions';
 }
 
 export function SecretsTab() {
@@ -14,7 +20,10 @@ export function SecretsTab() {
   const [newName, setNewName] = useState('');
   const [newValue, setNewValue] = useState('');
   const [showValue, setShowValue] = useState(false);
+  const [newScope, setNewScope] = useState<SecretScopeKind>('global');
+  const [newRepo, setNewRepo] = useState('');
   const [isAdding, setIsAdding] = useState(false);
+  const [repoEdit, setRepoEdit] = useState<{ name: string; value: string } | null>(null);
   const [error, setError] = useState('');
 
   const loadSecrets = useCallback(async () => {
@@ -40,11 +49,16 @@ export function SecretsTab() {
     setIsAdding(true);
     setError('');
     try {
-      const result = await secretsApi.add(newName, newValue);
+      const result = await secretsApi.add(newName, newValue, {
+        scope: newScope,
+        ...(newScope === 'project' ? { gitRepo: newRepo.trim() } : {}),
+      });
       if (result.success) {
         setShowAdd(false);
         setNewName('');
         setNewValue('');
+        setNewScope('global');
+        setNewRepo('');
         setShowValue(false);
         await loadSecrets();
       } else {
@@ -66,6 +80,25 @@ export function SecretsTab() {
     }
   };
 
+  const saveScope = async (name: string, scope: SecretScopeKind, gitRepo?: string) => {
+    try {
+      await secretsApi.updateScope(name, { scope, ...(gitRepo ? { gitRepo } : {}) });
+      setRepoEdit(null);
+      await loadSecrets();
+    } catch {
+      // Scope update failed
+    }
+  };
+
+  const handleScopeChange = (secret: SecretEntry, scope: SecretScopeKind) => {
+    // Project scope needs a pattern first — open the inline editor
+    if (scope === 'project') {
+      setRepoEdit({ name: secret.name, value: secret.gitRepo || '' });
+      return;
+    }
+    void saveScope(secret.name, scope);
+  };
+
   const handleNameChange = (value: string) => {
     // Auto-uppercase and strip invalid chars for env var names
     setNewName(value.toUpperCase().replace(/[^A-Z0-9_]/g, ''));
@@ -101,8 +134,8 @@ export function SecretsTab() {
       </div>
 
       <p className="text-xs text-muted-foreground leading-relaxed">
-        Secrets injected as env vars into every session.
-        Available in terminal and to Claude via{' '}
+        Secrets injected as env vars into sessions, limited by each
+        secret&apos;s scope. Available in terminal and to Claude via{' '}
         <code className="text-primary">$SECRET_NAME</code>.
       </p>
 
@@ -170,12 +203,30 @@ export function SecretsTab() {
               )}
             </button>
           </div>
+          <select
+            value={newScope}
+            onChange={(e) => setNewScope(e.target.value as SecretScopeKind)}
+            className="w-full rounded border border-border bg-muted px-3 py-2 text-sm focus-visible:border-primary focus-visible:outline-none"
+          >
+            {SCOPE_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label} — {o.hint}</option>
+            ))}
+          </select>
+          {newScope === 'project' && (
+            <input
+              type="text"
+              value={newRepo}
+              onChange={(e) => setNewRepo(e.target.value)}
+              placeholder="github.com/acme/* or github.com/acme/app"
+              className="w-full rounded border border-border bg-muted px-3 py-2 text-sm font-mono focus-visible:border-primary focus-visible:outline-none"
+            />
+          )}
           {error && (
             <p className="text-xs text-red-400">{error}</p>
           )}
           <button
             onClick={handleAdd}
-            disabled={!newName || !newValue || isAdding}
+            disabled={!newName || !newValue || (newScope === 'project' && !newRepo.trim()) || isAdding}
             className="btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
           >
             {isAdding ? (
@@ -195,27 +246,64 @@ export function SecretsTab() {
       ) : (
         <div className="space-y-1">
           {secrets.map((secret) => (
-            <div
-              key={secret.name}
-              className="group flex items-center justify-between rounded-lg px-3 py-2.5 hover:bg-primary/10 transition-colors"
-            >
-              <div className="min-w-0 flex-1">
-                <div className="flex items-center gap-2">
-                  <Key className="h-3.5 w-3.5 flex-shrink-0 text-primary" />
-                  <span className="text-sm font-medium font-mono truncate">
-                    {secret.name}
-                  </span>
+            <div key={secret.name}>
+              <div
+                className="group flex items-center justify-between rounded-lg px-3 py-2.5 hover:bg-primary/10 transition-colors"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <Key className="h-3.5 w-3.5 flex-shrink-0 text-primary" />
+                    <span className="text-sm font-medium font-mono truncate">
+                      {secret.name}
+                    </span>
+                  </div>
+                  <p className="mt-0.5 truncate pl-[22px] text-[10px] text-muted-foreground font-mono">
+                    {secret.hint} · {scopeLabel(secret)}
+                  </p>
                 </div>
-                <p className="mt-0.5 truncate pl-[22px] text-[10px] text-muted-foreground font-mono">
-                  {secret.hint}
-                </p>
+                <select
+                  value={repoEdit?.name === secret.name ? 'project' : secret.scope}
+                  onChange={(e) => handleScopeChange(secret, e.target.value as SecretScopeKind)}
+                  aria-label={`Scope for ${secret.name}`}
+                  className="ml-2 flex-shrink-0 rounded border border-border bg-muted px-1.5 py-1 text-[10px] focus-visible:border-primary focus-visible:outline-none"
+                >
+                  {SCOPE_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRemove(secret.name)}
+                  className="ml-2 flex-shrink-0 rounded p-1 opacity-0 group-hover:opacity-100 hover:bg-red-500/10 hover:text-red-500 transition-all"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
               </div>
-              <button
-                onClick={() => handleRemove(secret.name)}
-                className="ml-2 flex-shrink-0 rounded p-1 opacity-0 group-hover:opacity-100 hover:bg-red-500/10 hover:text-red-500 transition-all"
-              >
-                <Trash2 className="h-3.5 w-3.5" />
-              </button>
+              {repoEdit?.name === secret.name && (
+                <div className="flex items-center gap-2 px-3 pb-2 pl-[34px]">
+                  <input
+                    type="text"
+                    value={repoEdit.value}
+                    onChange={(e) => setRepoEdit({ name: secret.name, value: e.target.value })}
+                    placeholder="github.com/acme/*"
+                    autoFocus
+                    className="flex-1 rounded border border-border bg-muted px-2 py-1 text-xs font-mono focus-visible:border-primary focus-visible:outline-none"
+                  />
+                  <button
+                    onClick={() => saveScope(secret.name, 'project', repoEdit.value.trim())}
+                    disabled={!repoEdit.value.trim()}
+                    className="btn-primary px-2 py-1 text-xs disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setRepoEdit(null)}
+                    className="rounded p-1 hover:bg-primary/10 transition-colors"
+                    aria-label="Cancel"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,398 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Users, Plus, Loader2, Copy, Check, LogOut, Trash2, Share2, Link } from 'lucide-react';
+import { orgsApi, sessionsApi, type Org, type OrgRole, type ShareLinkInfo } from '@/lib/api';
+import { useAuthStore } from '@/hooks/useAuth';
+import { useSandboxStore } from '@/hooks/useSandbox';
+
+const ROLE_OPTIONS: OrgRole[] = ['owner', 'admin', 'member'];
+
+function rank(role: OrgRole | undefined): number {
+  return role ? ROLE_OPTIONS.length - 1 - ROLE_OPTIONS.indexOf(role) : -1;
+}
+
+const LINK_EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 7 * 24, label: '7 days' },
+  { hours: 30 * 24, label: '30 days' },
+];
+
+/** Public read-only links to the current session's transcript. */
+function ShareLinksSection({ sessionId }: { sessionId: string }) {
+  const [links, setLinks] = useState<ShareLinkInfo[]>([]);
+  const [expiresInHours, setExpiresInHours] = useState(7 * 24);
+  const [includeFileContents, setIncludeFileContents] = useState(false);
+  const [created, setCreated] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const result = await sessionsApi.listShareLinks(sessionId);
+      if (result.success && result.data) setLinks(result.data);
+    } catch {
+      // Failed to load
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setCreated(null);
+    loadLinks();
+  }, [loadLinks]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await loadLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyUrl = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <p className="flex items-center gap-1.5 text-xs font-medium text-foreground">
+        <Link className="h-3.5 w-3.5 text-primary" />
+        Public link
+      </p>
+      <p className="text-[11px] text-muted-foreground leading-relaxed">
+        Anyone with the link can read the transcript, tool calls, diff and summary
+        without signing in. Secrets are always masked.
+      </p>
+      <div className="flex items-center gap-2">
+        <select
+          value={expiresInHours}
+          onChange={(e) => setExpiresInHours(Number(e.target.value))}
+          aria-label="Link expiry"
+          className="rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+        >
+          {LINK_EXPIRY_OPTIONS.map((o) => <option key={o.hours} value={o.hours}>{o.label}</option>)}
+        </select>
+        <label className="flex flex-1 items-center gap-1.5 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={includeFileContents}
+            onChange={(e) => setIncludeFileContents(e.target.checked)}
+          />
+          Include file contents
+        </label>
+        <button
+          onClick={() => run(async () => {
+            const result = await sessionsApi.createShareLink(sessionId, { expiresInHours, includeFileContents });
+            if (result.data) setCreated(result.data.url);
+          })}
+          disabled={busy}
+          className="btn-primary px-2 py-1 text-xs disabled:opacity-50"
+        >
+          Create
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {created && (
+        <div className="flex items-center gap-2 rounded bg-muted px-2 py-1">
+          <code className="flex-1 truncate text-xs text-primary">{created}</code>
+          <button
+            onClick={() => copyUrl(created)}
+            className="rounded p-0.5 hover:bg-primary/10 transition-colors"
+            aria-label="Copy share link"
+          >
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          </button>
+        </div>
+      )}
+
+      {links.map((link) => (
+        <div key={link.id} className="flex items-center justify-between text-xs">
+          <span className="truncate text-muted-foreground">
+            Expires {new Date(link.expiresAt).toLocaleString()}
+            {link.includeFileContents ? ' · with file contents' : ''}
+          </span>
+          <button
+            onClick={() => run(async () => {
+              await sessionsApi.revokeShareLink(sessionId, link.id);
+              setCreated(null);
+            })}
+            disabled={busy}
+            className="rounded px-2 py-0.5 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+          >
+            Revoke
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TeamTab() {
+  const userId = useAuthStore((s) => s.user?.id);
+  const { currentSession, shareSession } = useSandboxStore();
+  const [orgs, setOrgs] = useState<Org[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [invites, setInvites] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState<string | null>(null);
+  const [shareOrgId, setShareOrgId] = useState('');
+  const [shareAccess, setShareAccess] = useState<'read' | 'collaborate'>('read');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadOrgs = useCallback(async () => {
+    try {
+      const result = await orgsApi.list();
+      if (result.success && result.data) setOrgs(result.data);
+    } catch {
+      // Failed to load
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOrgs();
+  }, [loadOrgs]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await loadOrgs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = (orgId: string) => run(async () => {
+    const result = await orgsApi.invite(orgId);
+    if (result.data) setInvites((prev) => ({ ...prev, [orgId]: result.data!.code }));
+  });
+
+  const copyCode = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    setCopied(code);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  const ownsCurrent = !!currentSession && currentSession.userId === userId;
+  const sharedWith = orgs.find((o) => o.id === currentSession?.sharing?.orgId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 font-display text-sm font-bold uppercase tracking-wider text-foreground">
+        <Users className="h-4 w-4 text-primary" />
+        Team
+      </h3>
+
+      <p className="text-xs text-muted-foreground leading-relaxed">
+        Members of an organization can open sessions shared with it and inherit
+        its MCP servers, plugins and rules. Shared sessions always run with the
+        acting member&apos;s own secrets and credentials.
+      </p>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {ownsCurrent && <ShareLinksSection sessionId={currentSession!.id} />}
+
+      {/* Share the current session */}
+      {ownsCurrent && orgs.length > 0 && (
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <p className="flex items-center gap-1.5 text-xs font-medium text-foreground">
+            <Share2 className="h-3.5 w-3.5 text-primary" />
+            {sharedWith
+              ? `Current session shared with ${sharedWith.name} (${currentSession!.sharing!.access === 'collaborate' ? 'collaborate' : 'view only'})`
+              : 'Share current session'}
+          </p>
+          <div className="flex items-center gap-2">
+            <select
+              value={shareOrgId || sharedWith?.id || orgs[0].id}
+              onChange={(e) => setShareOrgId(e.target.value)}
+              aria-label="Organization"
+              className="flex-1 rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+            >
+              {orgs.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+            </select>
+            <select
+              value={shareAccess}
+              onChange={(e) => setShareAccess(e.target.value as 'read' | 'collaborate')}
+              aria-label="Access"
+              className="rounded border border-border bg-muted px-2 py-1 text-xs focus-visible:border-primary focus-visible:outline-none"
+            >
+              <option value="read">View only</option>
+              <option value="collaborate">Collaborate</option>
+            </select>
+            <button
+              onClick={() => run(() => shareSession(currentSession!.id, {
+                orgId: shareOrgId || sharedWith?.id || orgs[0].id,
+                access: shareAccess,
+              }))}
+              disabled={busy}
+              className="btn-primary px-2 py-1 text-xs disabled:opacity-50"
+            >
+              Share
+            </button>
+            {sharedWith && (
+              <button
+                onClick={() => run(() => shareSession(currentSession!.id, null))}
+                disabled={busy}
+                className="rounded px-2 py-1 text-xs hover:bg-red-500/10 hover:text-red-500 transition-colors"
+              >
+                Stop
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Create / join */}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New organization name"
+          maxLength={100}
+          className="flex-1 rounded border border-border bg-muted px-3 py-1.5 text-sm focus-visible:border-primary focus-visible:outline-none"
+        />
+        <button
+          onClick={() => run(async () => { await orgsApi.create(newName.trim()); setNewName(''); })}
+          disabled={!newName.trim() || busy}
+          className="btn-primary flex items-center gap-1.5 px-3 py-1.5 text-xs disabled:opacity-50"
+        >
+          <Plus className="h-3 w-3" />
+          Create
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={joinCode}
+          onChange={(e) => setJoinCode(e.target.value)}
+          placeholder="Invite code"
+          className="flex-1 rounded border border-border bg-muted px-3 py-1.5 text-sm font-mono focus-visible:border-primary focus-visible:outline-none"
+        />
+        <button
+          onClick={() => run(async () => { await orgsApi.join(joinCode.trim()); setJoinCode(''); })}
+          disabled={!joinCode.trim() || busy}
+          className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium hover:bg-primary/10 transition-colors disabled:opacity-50"
+        >
+          Join
+        </button>
+      </div>
+
+      {orgs.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">
+          Not a member of any organization
+        </p>
+      ) : (
+        orgs.map((org) => {
+          const myRole = org.members.find((m) => m.userId === userId)?.role;
+          const isAdmin = rank(myRole) >= rank('admin');
+          return (
+            <div key={org.id} className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{org.name}</span>
+                <div className="flex items-center gap-1">
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleInvite(org.id)}
+                      disabled={busy}
+                      className="rounded-lg px-2 py-1 text-xs font-medium hover:bg-primary/10 transition-colors"
+                    >
+                      Invite
+                    </button>
+                  )}
+                  {myRole === 'owner' ? (
+                    <button
+                      onClick={() => run(() => orgsApi.remove(org.id))}
+                      disabled={busy}
+                      className="rounded p-1 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+                      aria-label={`Delete ${org.name}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => run(() => orgsApi.removeMember(org.id, userId!))}
+                      disabled={busy}
+                      className="rounded p-1 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+                      aria-label={`Leave ${org.name}`}
+                    >
+                      <LogOut className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {invites[org.id] && (
+                <div className="flex items-center gap-2 rounded bg-muted px-2 py-1">
+                  <code className="flex-1 truncate text-xs text-primary">{invites[org.id]}</code>
+                  <button
+                    onClick={() => copyCode(invites[org.id])}
+                    className="rounded p-0.5 hover:bg-primary/10 transition-colors"
+                    aria-label="Copy invite code"
+                  >
+                    {copied === invites[org.id] ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                  </button>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                {org.members.map((m) => (
+                  <div key={m.userId} className="flex items-center justify-between text-xs">
+                    <span className="truncate text-muted-foreground">{m.email}</span>
+                    {isAdmin && m.userId !== userId && rank(myRole) >= rank(m.role) ? (
+                      <div className="flex items-center gap-1">
+                        <select
+                          value={m.role}
+                          onChange={(e) => run(() => orgsApi.setRole(org.id, m.userId, e.target.value as OrgRole))}
+                          aria-label={`Role for ${m.email}`}
+                          className="rounded border border-border bg-muted px-1.5 py-0.5 text-[10px] focus-visible:border-primary focus-visible:outline-none"
+                        >
+                          {ROLE_OPTIONS.filter((r) => rank(r) <= rank(myRole)).map((r) => (
+                            <option key={r} value={r}>{r}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => run(() => orgsApi.removeMember(org.id, m.userId))}
+                          className="rounded p-0.5 hover:bg-red-500/10 hover:text-red-500 transition-colors"
+                          aria-label={`Remove ${m.email}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{m.role}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
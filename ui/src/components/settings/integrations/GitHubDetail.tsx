@@ -1,6 +1,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { githubApi } from '@/lib/api';
 import { toast } from '@/hooks/useToast';
+import { GitHubTriggers } from './GitHubTriggers';
 
 interface GitHubConnection {
   connected: boolean;
@@ -196,6 +197,8 @@ export function GitHubDetail() {
               </button>
             </div>
 
+            <GitHubTriggers />
+
             {/* Repos section */}
             <div className="flex flex-col gap-3">
               <div className="flex items-center justify-between">
@@ -0,0 +1,127 @@
+import { useEffect, useState, useCallback } from 'react';
+import { githubApi, type GithubTrigger } from '@/lib/api';
+import { toast } from '@/hooks/useToast';
+
+/** Webhook details to configure by hand when installing the hook failed. */
+interface ManualSetup {
+  repo: string;
+  webhookUrl: string;
+  secret: string;
+}
+
+/**
+ * Repos that start agent sessions from GitHub: an issue labeled with the
+ * trigger label, or a collaborator's comment starting with the command.
+ */
+export function GitHubTriggers() {
+  const [triggers, setTriggers] = useState<GithubTrigger[]>([]);
+  const [repo, setRepo] = useState('');
+  const [manual, setManual] = useState<ManualSetup | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadTriggers = useCallback(async () => {
+    try {
+      const res = await githubApi.triggers();
+      if (res.success && res.data) setTriggers(res.data.triggers);
+    } catch {
+      // Failed to load
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTriggers();
+  }, [loadTriggers]);
+
+  const handleAdd = async () => {
+    setBusy(true);
+    try {
+      const res = await githubApi.createTrigger({ repo: repo.trim() });
+      if (res.data) {
+        const { trigger, secret, installed } = res.data;
+        setManual(installed ? null : { repo: trigger.repo, webhookUrl: trigger.webhookUrl, secret });
+        toast(installed ? `Webhook installed on ${trigger.repo}` : 'Add the webhook on GitHub to finish', installed ? 'success' : 'info');
+      }
+      setRepo('');
+      await loadTriggers();
+    } catch (err) {
+      toast(err instanceof Error ? err.message : 'Failed to add trigger', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setBusy(true);
+    try {
+      await githubApi.deleteTrigger(id);
+      await loadTriggers();
+    } catch {
+      toast('Failed to remove trigger', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="font-['Space_Mono'] text-[11px] font-semibold uppercase tracking-[1px] text-[#8b949e]">
+        Issue &amp; comment triggers ({triggers.length})
+      </span>
+      <p className="font-['Space_Mono'] text-[10px] text-[#8b949e] leading-relaxed">
+        Label an issue <code className="text-[#cdd9e5]">vaporforge</code> or comment{' '}
+        <code className="text-[#cdd9e5]">/vf fix this</code> on an issue or PR to start an agent session.
+        Results come back as a comment, or as a pull request for issue fixes.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="owner/repo"
+          value={repo}
+          onChange={(e) => setRepo(e.target.value)}
+          className="flex-1 rounded border border-[#30363d] bg-[#0d1117] px-3 py-2 font-['Space_Mono'] text-[11px] text-[#cdd9e5] placeholder-[#484f58] outline-none focus:border-[#58a6ff]"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={busy || !repo.trim()}
+          className="rounded border border-[#30363d] bg-[#21262d] px-3 py-1 font-['Space_Mono'] text-[10px] text-[#cdd9e5] transition-all hover:border-[#8b949e] disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {manual && (
+        <div className="flex flex-col gap-1 rounded border border-[#d29922]/40 bg-[#d29922]/10 p-3 font-['Space_Mono'] text-[10px] text-[#cdd9e5]">
+          <span>
+            Couldn&apos;t install the webhook on {manual.repo}. Add it under Settings → Webhooks with
+            content type <code>application/json</code>, issue and comment events, and:
+          </span>
+          <code className="break-all">Payload URL: {manual.webhookUrl}</code>
+          <code className="break-all">Secret: {manual.secret}</code>
+        </div>
+      )}
+
+      {triggers.map((t) => (
+        <div
+          key={t.id}
+          className="flex items-center justify-between rounded border border-[#21262d] px-3 py-2"
+        >
+          <div className="flex min-w-0 flex-col gap-0.5">
+            <span className="truncate font-['Space_Mono'] text-[11px] font-semibold text-[#58a6ff]">{t.repo}</span>
+            <span className="font-['Space_Mono'] text-[10px] text-[#8b949e]">
+              label {t.label} · {t.command}
+              {t.githubHookId ? '' : ' · webhook not installed'}
+            </span>
+          </div>
+          <button
+            onClick={() => handleRemove(t.id)}
+            disabled={busy}
+            className="rounded border border-[#30363d] bg-transparent px-2.5 py-1 font-['Space_Mono'] text-[10px] text-[#f85149] transition-all hover:border-[#f85149]/40 hover:bg-[#f85149]/10 disabled:opacity-50"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
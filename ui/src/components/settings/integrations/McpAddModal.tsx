@@ -3,7 +3,8 @@ import { useIntegrationsStore } from '@/hooks/useIntegrationsStore';
 import type { McpServerConfig } from '@/lib/types';
 import { mcpApi } from '@/lib/api';
 
-type Transport = 'stdio' | 'http' | 'relay';
+type Transport = 'stdio' | 'http' | 'sse' | 'relay';
+type LocalTransport = 'http' | 'sse';
 type Mode = 'always' | 'on-demand' | 'auto';
 
 export function McpAddModal() {
@@ -15,6 +16,7 @@ export function McpAddModal() {
   const [command, setCommand] = useState('');
   const [url, setUrl] = useState('');
   const [localUrl, setLocalUrl] = useState('');
+  const [localTransport, setLocalTransport] = useState<LocalTransport>('http');
   const [mode, setMode] = useState<Mode>('always');
   const [saving, setSaving] = useState(false);
 
@@ -26,6 +28,7 @@ export function McpAddModal() {
     setCommand('');
     setUrl('');
     setLocalUrl('');
+    setLocalTransport('http');
     setMode('always');
     setSaving(false);
   };
@@ -45,9 +48,9 @@ export function McpAddModal() {
       name: trimmed,
       transport,
       mode,
-      ...(transport === 'http' ? { url: url.trim() } : {}),
+      ...(transport === 'http' || transport === 'sse' ? { url: url.trim() } : {}),
       ...(transport === 'stdio' ? { command: command.trim() } : {}),
-      ...(transport === 'relay' ? { localUrl: localUrl.trim() } : {}),
+      ...(transport === 'relay' ? { localUrl: localUrl.trim(), localTransport } : {}),
     };
 
     await addMcpServer(server);
@@ -73,7 +76,7 @@ export function McpAddModal() {
   const canSave =
     name.trim() &&
     !saving &&
-    (transport === 'http' ? url.trim() : true) &&
+    (transport === 'http' || transport === 'sse' ? url.trim() : true) &&
     (transport === 'stdio' ? command.trim() : true) &&
     (transport === 'relay' ? localUrl.trim() : true);
 
@@ -129,7 +132,7 @@ export function McpAddModal() {
               Transport
             </label>
             <div className="flex gap-3">
-              {(['http', 'stdio', 'relay'] as const).map((t) => (
+              {(['http', 'sse', 'stdio', 'relay'] as const).map((t) => (
                 <button
                   key={t}
                   className={`rounded-full border px-3 py-1 font-['Space_Mono'] text-[11px] transition-all ${
@@ -139,14 +142,14 @@ export function McpAddModal() {
                   }`}
                   onClick={() => setTransport(t)}
                 >
-                  {t === 'http' ? 'HTTP' : t === 'stdio' ? 'Stdio' : 'Relay'}
+                  {t === 'http' ? 'HTTP' : t === 'sse' ? 'SSE' : t === 'stdio' ? 'Stdio' : 'Relay'}
                 </button>
               ))}
             </div>
           </div>
 
           {/* Transport-specific field */}
-          {transport === 'http' && (
+          {(transport === 'http' || transport === 'sse') && (
             <div className="flex flex-col gap-1.5">
               <label className="font-['Space_Mono'] text-[11px] font-semibold text-foreground">
                 Server URL
@@ -155,11 +158,13 @@ export function McpAddModal() {
                 type="text"
                 value={url}
                 onChange={(e) => setUrl(e.target.value)}
-                placeholder="https://mcp.example.com"
+                placeholder={transport === 'sse' ? 'https://mcp.example.com/sse' : 'https://mcp.example.com'}
                 className="w-full rounded-md border border-border bg-background px-3 py-2 font-['Space_Mono'] text-xs text-foreground transition-colors placeholder:text-muted-foreground focus-visible:border-primary focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-primary"
               />
               <p className="font-['Space_Mono'] text-[10px] text-muted-foreground">
-                The HTTP endpoint for the MCP server
+                {transport === 'sse'
+                  ? 'The event stream URL of a legacy HTTP+SSE MCP server'
+                  : 'The HTTP endpoint for the MCP server'}
               </p>
             </div>
           )}
@@ -197,6 +202,24 @@ export function McpAddModal() {
               <p className="font-['Space_Mono'] text-[10px] text-muted-foreground">
                 Relay tunnels your local MCP server through VaporForge
               </p>
+              <div className="flex gap-3">
+                {(['http', 'sse'] as const).map((t) => (
+                  <button
+                    key={t}
+                    className={`rounded-full border px-3 py-1 font-['Space_Mono'] text-[11px] transition-all ${
+                      localTransport === t
+                        ? 'border-primary/30 bg-primary/5 text-foreground'
+                        : 'border-border bg-card text-muted-foreground hover:text-foreground'
+                    }`}
+                    onClick={() => setLocalTransport(t)}
+                  >
+                    {t === 'http' ? 'Streamable HTTP' : 'SSE'}
+                  </button>
+                ))}
+              </div>
+              <p className="font-['Space_Mono'] text-[10px] text-muted-foreground">
+                Use SSE for legacy servers and stdio servers behind an SSE bridge
+              </p>
             </div>
           )}
 
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useIntegrationsStore } from '@/hooks/useIntegrationsStore';
 import { STATUS_CONFIG } from './types';
 import { Toggle, RemoveButton, PillGroup, Chevron } from './shared';
+import { McpInspector } from './McpInspector';
 import type { McpServerConfig } from '@/lib/types';
 import { mcpApi, secretsApi } from '@/lib/api';
 import { toast } from '@/hooks/useToast';
@@ -22,6 +23,20 @@ const SCOPE_OPTIONS = [
   { value: 'project', label: 'This Repo' },
 ];
 
+type ToolPolicy = NonNullable<McpServerConfig['toolPolicy']>[string];
+
+const TOOL_POLICY_OPTIONS = [
+  { value: 'allow', label: 'Allow' },
+  { value: 'ask', label: 'Ask every time' },
+  { value: 'deny', label: 'Deny' },
+];
+
+const TOOL_POLICY_BADGE: Record<ToolPolicy, { label: string; className: string }> = {
+  allow: { label: 'allowed', className: 'border-[#30363d] bg-[#161b22] text-[#768390]' },
+  ask: { label: 'approval', className: 'border-[#e3b341] bg-[#e3b341] text-[#0d1117]' },
+  deny: { label: 'denied', className: 'border-[#f85149] bg-[#f85149] text-[#0d1117]' },
+};
+
 /** Inline uppercase section label matching Pencil design */
 function SectionLabel({ children, color = '#4b535d' }: { children: React.ReactNode; color?: string }) {
   return (
@@ -202,16 +217,51 @@ export function McpDetail({ server }: McpDetailProps) {
   const currentSession = useSandboxStore((s) => s.currentSession);
 
   const [expandedTool, setExpandedTool] = useState<string | null>(null);
+  const [inspectTool, setInspectTool] = useState<string | null>(null);
   const [isPinging, setIsPinging] = useState(false);
   const [editingCreds, setEditingCreds] = useState(false);
   const [credEntries, setCredEntries] = useState<Array<{ key: string; value: string }>>([]);
   const [isSavingCreds, setIsSavingCreds] = useState(false);
   const [repoPath, setRepoPath] = useState(server.gitRepo ?? currentSession?.gitRepo ?? '');
+  const [rateLimit, setRateLimit] = useState(server.rateLimit?.maxPerMinute?.toString() ?? '');
+  const [toolPolicy, setToolPolicy] = useState<Record<string, ToolPolicy>>(server.toolPolicy ?? {});
 
   useEffect(() => {
     setRepoPath(server.gitRepo ?? currentSession?.gitRepo ?? '');
+    setRateLimit(server.rateLimit?.maxPerMinute?.toString() ?? '');
+    setToolPolicy(server.toolPolicy ?? {});
+    setInspectTool(null);
   }, [server.name]);
 
+  async function updateToolPolicy(tool: string, policy: ToolPolicy) {
+    const prev = toolPolicy;
+    const next = { ...toolPolicy, [tool]: policy };
+    setToolPolicy(next);
+    try {
+      await mcpApi.patch(server.name, { toolPolicy: next });
+      await loadMcpServers();
+    } catch {
+      setToolPolicy(prev);
+      toast('Failed to update tool policy', 'error');
+    }
+  }
+
+  async function saveRateLimit() {
+    const value = rateLimit.trim();
+    if (value === (server.rateLimit?.maxPerMinute?.toString() ?? '')) return;
+    const maxPerMinute = Number(value);
+    if (value && (!Number.isInteger(maxPerMinute) || maxPerMinute < 1 || maxPerMinute > 600)) {
+      toast('Rate limit must be 1–600 calls per minute', 'error');
+      return;
+    }
+    try {
+      await mcpApi.patch(server.name, { rateLimit: value ? { maxPerMinute } : null });
+      await loadMcpServers();
+    } catch {
+      toast('Failed to update rate limit', 'error');
+    }
+  }
+
   function startEditingCreds() {
     const existing = Object.entries(server.env ?? {}).map(([key, value]) => ({ key, value }));
     setCredEntries(existing.length > 0 ? existing : [{ key: '', value: '' }]);
@@ -342,6 +392,7 @@ export function McpDetail({ server }: McpDetailProps) {
         <span className="font-['Space_Mono'] text-[11px] text-[#8b949e]">Transport</span>
         <span className="rounded-[3px] border border-[#a371f733] bg-[#a371f70a] px-[10px] py-[4px] font-['Space_Mono'] text-[11px] font-bold text-[#a371f7]">
           {server.transport}
+          {server.transport === 'relay' && server.localTransport === 'sse' && ' · sse'}
         </span>
       </div>
 
@@ -488,6 +539,9 @@ export function McpDetail({ server }: McpDetailProps) {
           value={mcpModes[server.name] ?? server.mode ?? 'always'}
           onChange={(v) => setMcpMode(server.name, v as 'always' | 'on-demand' | 'auto')}
         />
+        <span className="font-['Space_Mono'] text-[9px] text-[#8b949e]">
+          On-demand tools load only when the agent asks for them; Auto does this once a server has more than 15 tools
+        </span>
       </div>
 
       {/* Scope Section */}
@@ -511,7 +565,7 @@ export function McpDetail({ server }: McpDetailProps) {
               onChange={(e) => setRepoPath(e.target.value)}
               onBlur={async () => {
                 try {
-                  await mcpApi.update(server.name, { gitRepo: repoPath || undefined });
+                  await mcpApi.patch(server.name, { gitRepo: repoPath || null });
                 } catch { /* non-critical */ }
               }}
             />
@@ -522,6 +576,25 @@ export function McpDetail({ server }: McpDetailProps) {
         </span>
       </div>
 
+      {/* Rate Limit Section */}
+      <div className="flex flex-col gap-[6px]">
+        <SectionLabel>RATE LIMIT</SectionLabel>
+        <div className="flex items-center gap-[8px] rounded-[6px] border border-[#30363d] bg-[#161b22] px-[12px] py-[8px] focus-within:border-[#a371f733]">
+          <input
+            className="w-[64px] bg-transparent font-['Space_Mono'] text-[10px] text-[#cdd9e5] placeholder-[#4b535d] focus:outline-none"
+            inputMode="numeric"
+            placeholder="none"
+            value={rateLimit}
+            onChange={(e) => setRateLimit(e.target.value.replace(/[^0-9]/g, ''))}
+            onBlur={saveRateLimit}
+          />
+          <span className="font-['Space_Mono'] text-[10px] text-[#768390]">tool calls / minute</span>
+        </div>
+        <span className="font-['Space_Mono'] text-[9px] text-[#8b949e]">
+          Calls over the limit fail with a rate-limit error the agent can see
+        </span>
+      </div>
+
       {/* Divider */}
       <div className="h-px bg-[#21262d]" />
 
@@ -566,15 +639,28 @@ export function McpDetail({ server }: McpDetailProps) {
                       }`}>
                         {isPinging ? 'arriving' : 'active'}
                       </span>
-                      {/* Approval badge */}
-                      <span className="rounded-[3px] border border-[#e3b341] bg-[#e3b341] px-[6px] py-[2px] font-['Space_Mono'] text-[8px] font-bold uppercase text-[#0d1117]">
-                        approval
+                      {/* Tool policy badge */}
+                      <span className={`rounded-[3px] border px-[6px] py-[2px] font-['Space_Mono'] text-[8px] font-bold uppercase ${TOOL_POLICY_BADGE[toolPolicy[tool.name] ?? 'allow'].className}`}>
+                        {TOOL_POLICY_BADGE[toolPolicy[tool.name] ?? 'allow'].label}
                       </span>
                     </div>
                   </button>
 
                   {/* Tool body */}
                   <div className="flex flex-col gap-[6px] px-[12px] pb-[10px]">
+                    <div className="flex items-center justify-between gap-[8px]">
+                      <PillGroup
+                        options={TOOL_POLICY_OPTIONS}
+                        value={toolPolicy[tool.name] ?? 'allow'}
+                        onChange={(v) => updateToolPolicy(tool.name, v as ToolPolicy)}
+                      />
+                      <button
+                        className="shrink-0 rounded-[3px] border border-[#a371f733] bg-[#a371f70a] px-[8px] py-[3px] font-['Space_Mono'] text-[9px] font-semibold text-[#a371f7] transition-colors hover:bg-[#a371f71a]"
+                        onClick={() => setInspectTool(tool.name)}
+                      >
+                        Inspect
+                      </button>
+                    </div>
                     {tool.description && (
                       <p className="font-['Space_Mono'] text-[9px] leading-[1.5] text-[#768390]">
                         {tool.description}
@@ -619,7 +705,13 @@ export function McpDetail({ server }: McpDetailProps) {
                 return (
                   <button
                     key={tool.name}
-                    className="rounded-[3px] border border-[#30363d] bg-[#161b22] px-[8px] py-[4px] font-['Space_Mono'] text-[9px] text-[#768390] transition-colors hover:border-[#a371f733] hover:text-[#cdd9e5]"
+                    className={`rounded-[3px] border border-[#30363d] bg-[#161b22] px-[8px] py-[4px] font-['Space_Mono'] text-[9px] transition-colors hover:border-[#a371f733] hover:text-[#cdd9e5] ${
+                      toolPolicy[tool.name] === 'deny'
+                        ? 'text-[#f85149] line-through'
+                        : toolPolicy[tool.name] === 'ask'
+                          ? 'text-[#e3b341]'
+                          : 'text-[#768390]'
+                    }`}
                     onClick={() => setExpandedTool(tool.name)}
                   >
                     {tool.name}
@@ -659,6 +751,84 @@ export function McpDetail({ server }: McpDetailProps) {
         )}
       </div>
 
+      {/* Resources Section (only renders when the server offers resources) */}
+      {server.resources && server.resources.length > 0 && (
+        <div className="flex flex-col gap-[10px]">
+          <SectionLabel color="#cdd9e5">RESOURCES ({server.resources.length})</SectionLabel>
+          <p className="font-['Space_Mono'] text-[9px] text-[#768390]">
+            Attach a resource to a chat message from the prompt bar
+          </p>
+          {server.resources.map((resource) => (
+            <div
+              key={resource.uri}
+              className="flex flex-col gap-[4px] rounded-[6px] border border-[#30363d] bg-[#161b22] px-[12px] py-[8px]"
+            >
+              <div className="flex items-center justify-between gap-[8px]">
+                <span className="font-['Space_Mono'] text-[11px] font-semibold text-[#cdd9e5]">
+                  {resource.name}
+                </span>
+                {resource.mimeType && (
+                  <span className="rounded-[2px] border border-[#30363d] bg-[#0d1117] px-[4px] py-[1px] font-['Space_Mono'] text-[8px] text-[#768390]">
+                    {resource.mimeType}
+                  </span>
+                )}
+              </div>
+              <span className="truncate font-['Space_Mono'] text-[9px] text-[#4b535d]" title={resource.uri}>
+                {resource.uri}
+              </span>
+              {resource.description && (
+                <p className="font-['Space_Mono'] text-[9px] leading-[1.5] text-[#768390]">
+                  {resource.description}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Prompts Section (only renders when the server offers prompts) */}
+      {server.prompts && server.prompts.length > 0 && (
+        <div className="flex flex-col gap-[10px]">
+          <SectionLabel color="#cdd9e5">PROMPTS ({server.prompts.length})</SectionLabel>
+          <p className="font-['Space_Mono'] text-[9px] text-[#768390]">
+            Available in chat as slash commands
+          </p>
+          {server.prompts.map((prompt) => (
+            <div
+              key={prompt.name}
+              className="flex flex-col gap-[4px] rounded-[6px] border border-[#30363d] bg-[#161b22] px-[12px] py-[8px]"
+            >
+              <span className="font-['Space_Mono'] text-[11px] font-semibold text-[#cdd9e5]">
+                /{prompt.name}
+              </span>
+              {prompt.description && (
+                <p className="font-['Space_Mono'] text-[9px] leading-[1.5] text-[#768390]">
+                  {prompt.description}
+                </p>
+              )}
+              {prompt.arguments && prompt.arguments.length > 0 && (
+                <div className="flex flex-wrap gap-[6px]">
+                  {prompt.arguments.map((arg) => (
+                    <span
+                      key={arg.name}
+                      title={arg.description}
+                      className="rounded-[2px] border border-[#30363d] bg-[#0d1117] px-[4px] py-[1px] font-['Space_Mono'] text-[8px] text-[#768390]"
+                    >
+                      {arg.name}
+                      {arg.required && <span className="text-[#f85149]">*</span>}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {inspectTool && (
+        <McpInspector server={server} initialTool={inspectTool} onClose={() => setInspectTool(null)} />
+      )}
+
       {/* Added date */}
       {server.addedAt && (
         <div className="font-['Space_Mono'] text-[11px] text-[#8b949e] opacity-60">
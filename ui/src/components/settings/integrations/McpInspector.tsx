@@ -0,0 +1,297 @@
+import { useMemo, useState } from 'react';
+import type { McpExchange, McpServerConfig } from '@/lib/types';
+import { mcpApi } from '@/lib/api';
+import { callLocalTool } from '@/lib/mcp-relay-client';
+import { buildToolArguments, toolFields, type ToolField } from '@/lib/mcp-inspector';
+import { PillGroup } from './shared';
+
+interface McpInspectorProps {
+  server: McpServerConfig;
+  initialTool: string;
+  onClose: () => void;
+}
+
+const INPUT_MODE_OPTIONS = [
+  { value: 'form', label: 'Form' },
+  { value: 'json', label: 'JSON' },
+];
+
+const INPUT_CLASS =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-3 py-2 font-['Space_Mono'] text-[11px] text-[#cdd9e5] transition-colors placeholder:text-[#4b535d] focus-visible:border-[#a371f7] focus-visible:outline-none";
+
+/** How a call reaches the server — the same hop the sandbox makes */
+function callPath(server: McpServerConfig): string | null {
+  if (server.transport === 'relay') return `browser → ${server.localUrl}`;
+  if (server.transport === 'http' || server.transport === 'sse') {
+    return `worker → ${server.url}${server.transport === 'sse' ? ' (SSE)' : ''}`;
+  }
+  return null;
+}
+
+function FieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: ToolField;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  if (field.enum || field.type === 'boolean') {
+    const options = field.enum ?? ['true', 'false'];
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASS}>
+        <option value="">{field.required ? 'Select…' : '(not set)'}</option>
+        {options.map((opt) => (
+          <option key={opt} value={opt}>{opt}</option>
+        ))}
+      </select>
+    );
+  }
+  if (field.type === 'json') {
+    return (
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="JSON value"
+        rows={3}
+        className={`${INPUT_CLASS} resize-y`}
+      />
+    );
+  }
+  return (
+    <input
+      type={field.type === 'string' ? 'text' : 'number'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={INPUT_CLASS}
+    />
+  );
+}
+
+function JsonPane({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="flex min-w-0 flex-1 flex-col gap-[6px]">
+      <span className="font-['Space_Mono'] text-[9px] font-bold uppercase tracking-[1.2px] text-[#4b535d]">
+        {label}
+      </span>
+      <pre className="max-h-[260px] overflow-auto rounded-[6px] border border-[#30363d] bg-[#161b22] p-[10px] font-['Space_Mono'] text-[10px] leading-[1.5] text-[#cdd9e5]">
+        {value === null ? 'No response' : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Call a server's tools by hand: a form built from the cached inputSchema
+ * (or raw JSON arguments), sent through the path the sandbox uses, with
+ * the raw JSON-RPC request and response shown alongside the latency.
+ */
+export function McpInspector({ server, initialTool, onClose }: McpInspectorProps) {
+  const toolSchemas = server.toolSchemas ?? [];
+  const [toolName, setToolName] = useState(initialTool);
+  const [inputMode, setInputMode] = useState<'form' | 'json'>('form');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [json, setJson] = useState('{}');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [calling, setCalling] = useState(false);
+  const [exchange, setExchange] = useState<McpExchange | null>(null);
+  const [callError, setCallError] = useState<string | null>(null);
+
+  const tool = toolSchemas.find((t) => t.name === toolName);
+  const fields = useMemo(() => toolFields(tool?.inputSchema), [tool]);
+  const path = callPath(server);
+  const denied = server.toolPolicy?.[toolName] === 'deny';
+
+  const selectTool = (name: string) => {
+    setToolName(name);
+    setValues({});
+    setJson('{}');
+    setErrors([]);
+    setExchange(null);
+    setCallError(null);
+  };
+
+  const switchMode = (mode: 'form' | 'json') => {
+    // Carry what was filled in over to the JSON editor
+    if (mode === 'json') setJson(JSON.stringify(buildToolArguments(fields, values).args, null, 2));
+    setInputMode(mode);
+  };
+
+  const callTool = async () => {
+    // The Worker refuses denied tools, but relay calls go straight from the browser
+    if (denied) {
+      setCallError(`${toolName} is denied by this server's tool policy`);
+      return;
+    }
+    let args: Record<string, unknown>;
+    if (inputMode === 'form') {
+      const built = buildToolArguments(fields, values);
+      setErrors(built.errors);
+      if (built.errors.length > 0) return;
+      args = built.args;
+    } else {
+      try {
+        const parsed = JSON.parse(json);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          setErrors(['Arguments must be a JSON object']);
+          return;
+        }
+        args = parsed;
+        setErrors([]);
+      } catch {
+        setErrors(['Arguments are not valid JSON']);
+        return;
+      }
+    }
+
+    setCalling(true);
+    setCallError(null);
+    setExchange(null);
+    try {
+      if (server.transport === 'relay') {
+        setExchange(await callLocalTool(server, toolName, args));
+      } else {
+        const result = await mcpApi.callTool(server.name, toolName, args);
+        setExchange(result.data ?? null);
+      }
+    } catch (err) {
+      setCallError(err instanceof Error ? err.message : 'Call failed');
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  const response = exchange?.response;
+  const failed = !!response?.error || (response?.result as { isError?: boolean } | undefined)?.isError === true;
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] flex items-center justify-center bg-black/65"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="flex max-h-[85vh] w-[760px] max-w-[95vw] flex-col overflow-hidden rounded-md border border-border bg-[#0d1117] shadow-2xl animate-in fade-in zoom-in-95 duration-150">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-border px-6 py-4">
+          <div className="flex flex-col gap-[2px]">
+            <span className="font-['Space_Mono'] text-sm font-semibold text-foreground">
+              Inspect {server.name}
+            </span>
+            {path && (
+              <span className="font-['Space_Mono'] text-[10px] text-[#768390]">{path}</span>
+            )}
+          </div>
+          <button
+            className="text-muted-foreground transition-colors hover:text-foreground"
+            onClick={onClose}
+            aria-label="Close inspector"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-[16px] overflow-y-auto px-6 py-5">
+          {/* Tool picker */}
+          <div className="flex flex-col gap-[6px]">
+            <select value={toolName} onChange={(e) => selectTool(e.target.value)} className={INPUT_CLASS}>
+              {toolSchemas.map((t) => (
+                <option key={t.name} value={t.name}>{t.name}</option>
+              ))}
+            </select>
+            {tool?.description && (
+              <p className="font-['Space_Mono'] text-[10px] leading-[1.5] text-[#768390]">{tool.description}</p>
+            )}
+          </div>
+
+          {/* Arguments */}
+          <div className="flex flex-col gap-[10px]">
+            <PillGroup
+              options={INPUT_MODE_OPTIONS}
+              value={inputMode}
+              onChange={(v) => switchMode(v as 'form' | 'json')}
+            />
+            {inputMode === 'form' ? (
+              fields.length > 0 ? (
+                fields.map((field) => (
+                  <div key={field.name} className="flex flex-col gap-[4px]">
+                    <label className="flex items-center gap-[6px] font-['Space_Mono'] text-[10px] font-semibold text-[#cdd9e5]">
+                      {field.name}
+                      <span className="font-normal text-[#768390]">{field.type}</span>
+                      {field.required && <span className="font-normal text-[#f85149]">required</span>}
+                    </label>
+                    <FieldInput
+                      field={field}
+                      value={values[field.name] ?? ''}
+                      onChange={(v) => setValues((prev) => ({ ...prev, [field.name]: v }))}
+                    />
+                    {field.description && (
+                      <span className="font-['Space_Mono'] text-[9px] text-[#4b535d]">{field.description}</span>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <span className="font-['Space_Mono'] text-[10px] text-[#768390]">This tool takes no arguments</span>
+              )
+            ) : (
+              <textarea
+                value={json}
+                onChange={(e) => setJson(e.target.value)}
+                rows={8}
+                spellCheck={false}
+                className={`${INPUT_CLASS} resize-y`}
+              />
+            )}
+            {errors.map((error) => (
+              <span key={error} className="font-['Space_Mono'] text-[10px] text-[#f85149]">{error}</span>
+            ))}
+          </div>
+
+          {/* Call */}
+          <div className="flex items-center gap-[12px]">
+            <button
+              className="rounded border border-primary/30 bg-primary/10 px-4 py-1.5 font-['Space_Mono'] text-[11px] font-semibold text-primary transition-colors hover:bg-primary/20 disabled:opacity-50"
+              onClick={callTool}
+              disabled={calling || !path || !tool || denied}
+            >
+              {calling ? 'Calling...' : 'Call tool'}
+            </button>
+            {!path && (
+              <span className="font-['Space_Mono'] text-[10px] text-[#768390]">
+                Stdio servers run inside the sandbox — call them from a session
+              </span>
+            )}
+            {denied && (
+              <span className="font-['Space_Mono'] text-[10px] text-[#f85149]">
+                Denied by this server's tool policy
+              </span>
+            )}
+            {exchange && (
+              <span className="font-['Space_Mono'] text-[10px] text-[#768390]">
+                <span className={failed ? 'text-[#f85149]' : 'text-[#3fb950]'}>{failed ? 'error' : 'ok'}</span>
+                {' · '}{exchange.latencyMs}ms
+                {' · handshake '}{exchange.pingMs}ms
+                {exchange.httpStatus !== undefined && ` · HTTP ${exchange.httpStatus}`}
+              </span>
+            )}
+          </div>
+          {callError && (
+            <span className="font-['Space_Mono'] text-[10px] text-[#f85149]">{callError}</span>
+          )}
+
+          {/* Raw exchange */}
+          {exchange && (
+            <div className="flex gap-[12px]">
+              <JsonPane label="Request" value={exchange.request} />
+              <JsonPane label="Response" value={exchange.response} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { configApi, pluginsApi } from '@/lib/api';
+import { configApi, pluginsApi, mcpApi } from '@/lib/api';
+import type { McpPrompt } from '@/lib/types';
 
 export interface CommandEntry {
   name: string;
@@ -9,6 +10,8 @@ export interface CommandEntry {
   source: 'user' | string;
   content: string;
   kind: 'command' | 'agent';
+  /** Set for MCP prompts — rendered via prompts/get instead of sending `content` */
+  mcpPrompt?: { server: string; prompt: McpPrompt };
 }
 
 /**
@@ -39,10 +42,12 @@ export function useCommandRegistry() {
   const load = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [configCmds, configAgents, pluginsResult] = await Promise.all([
+      const [configCmds, configAgents, pluginsResult, mcpResult] = await Promise.all([
         configApi.list('commands'),
         configApi.list('agents'),
         pluginsApi.list(),
+        // MCP prompts are optional — a failing MCP list must not hide other commands
+        mcpApi.list().catch(() => null),
       ]);
 
       const entries: CommandEntry[] = [];
@@ -108,6 +113,24 @@ export function useCommandRegistry() {
         }
       }
 
+      // MCP prompts (cached by the last ping of each server)
+      if (mcpResult?.success && mcpResult.data) {
+        for (const server of mcpResult.data) {
+          if (!server.enabled) continue;
+          for (const prompt of server.prompts ?? []) {
+            entries.push({
+              name: prompt.name,
+              filename: '',
+              description: prompt.description ?? '',
+              source: `mcp:${server.name}`,
+              content: '',
+              kind: 'command',
+              mcpPrompt: { server: server.name, prompt },
+            });
+          }
+        }
+      }
+
       entries.sort((a, b) => a.name.localeCompare(b.name));
       setCommands(entries);
     } catch (err) {
@@ -272,6 +272,10 @@ export const useIntegrationsStore = create<IntegrationsState>((set, get) => ({
                   tools: result.data!.tools ?? s.tools,
                   toolCount: result.data!.toolCount ?? s.toolCount,
                   toolSchemas: result.data!.toolSchemas ?? s.toolSchemas,
+                  // A successful listing is authoritative — servers may stop offering these
+                  ...(result.data!.toolSchemas
+                    ? { resources: result.data!.resources, prompts: result.data!.prompts }
+                    : {}),
                 }
               : s
           ),
@@ -1,22 +1,60 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { mcpApi } from '@/lib/api';
+import { LocalMcpClient, type RelaySink } from '@/lib/mcp-relay-client';
 import type { McpServerConfig, WSMessage } from '@/lib/types';
 
-const RELAY_TIMEOUT_MS = 25000;
+/** Coalesces a burst of tools/list_changed into one refresh */
+const TOOLS_REFRESH_DELAY_MS = 1000;
 
 /**
  * useMcpRelay — handles MCP relay requests from the WebSocket.
  *
  * When the DO sends an `mcp_relay_request` message, this hook:
  * 1. Looks up the server's localUrl from the cached relay server config
- * 2. Forwards the JSON-RPC body to the local MCP server
- * 3. Sends the response back as `mcp_relay_response` via WebSocket
+ * 2. Forwards the JSON-RPC body to the local MCP server (Streamable HTTP,
+ *    or legacy SSE when the server's localTransport is 'sse')
+ * 3. Sends the response back as `mcp_relay_response` via WebSocket,
+ *    preceded by `partial` ones for notifications streamed ahead of it
+ *
+ * When a local server announces tools/list_changed, the hook lists its
+ * tools again and stores them as the server's cached tool list.
  */
 export function useMcpRelay(
   send: (message: WSMessage) => boolean,
   isConnected: boolean
 ) {
   const relayServersRef = useRef<McpServerConfig[]>([]);
+  const refreshTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const clientRef = useRef<LocalMcpClient | null>(null);
+
+  const refreshTools = useCallback((serverName: string) => {
+    const server = relayServersRef.current.find((s) => s.name === serverName);
+    if (!server || !clientRef.current) return;
+    clientRef.current.relay(
+      server,
+      { jsonrpc: '2.0', id: `vf-tools-${Date.now()}`, method: 'tools/list', params: {} },
+      {
+        partial: () => {},
+        final: (message) => {
+          const result = message.result as { tools?: unknown; nextCursor?: unknown } | undefined;
+          if (!Array.isArray(result?.tools) || result.nextCursor) return;
+          void mcpApi.cacheTools(serverName, result.tools as NonNullable<McpServerConfig['toolSchemas']>);
+        },
+        error: () => {},
+      }
+    );
+  }, []);
+
+  if (!clientRef.current) {
+    clientRef.current = new LocalMcpClient((serverName) => {
+      const timers = refreshTimersRef.current;
+      if (timers.has(serverName)) return;
+      timers.set(serverName, setTimeout(() => {
+        timers.delete(serverName);
+        refreshTools(serverName);
+      }, TOOLS_REFRESH_DELAY_MS));
+    });
+  }
 
   // Load relay servers on mount and when connection changes
   useEffect(() => {
@@ -31,6 +69,16 @@ export function useMcpRelay(
     });
   }, [isConnected]);
 
+  // Drop local connections (legacy SSE streams) when the relay goes away
+  useEffect(() => {
+    const timers = refreshTimersRef.current;
+    return () => {
+      clientRef.current?.close();
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    };
+  }, []);
+
   const handleRelayRequest = useCallback(
     async (requestId: string, serverName: string, body: Record<string, unknown>) => {
       const server = relayServersRef.current.find((s) => s.name === serverName);
@@ -45,40 +93,12 @@ export function useMcpRelay(
         return;
       }
 
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), RELAY_TIMEOUT_MS);
-
-      try {
-        const response = await fetch(server.localUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body),
-          signal: controller.signal,
-        });
-
-        const result = await response.json();
-
-        send({
-          type: 'mcp_relay_response',
-          requestId,
-          body: result as Record<string, unknown>,
-        });
-      } catch (err) {
-        const message = err instanceof Error
-          ? err.name === 'AbortError'
-            ? 'Local MCP server timed out (25s)'
-            : err.message
-          : 'Unknown relay error';
-
-        send({
-          type: 'mcp_relay_response',
-          requestId,
-          body: {},
-          error: message,
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
+      const sink: RelaySink = {
+        partial: (message) => send({ type: 'mcp_relay_response', requestId, body: message, partial: true }),
+        final: (message) => send({ type: 'mcp_relay_response', requestId, body: message }),
+        error: (message) => send({ type: 'mcp_relay_response', requestId, body: {}, error: message }),
+      };
+      await clientRef.current!.relay(server, body, sink);
     },
     [send]
   );
@@ -0,0 +1,121 @@
+import { create } from 'zustand';
+import { useQuickChat } from '@/hooks/useQuickChat';
+import { useSandboxStore } from '@/hooks/useSandbox';
+import { prReviewApi } from '@/lib/api';
+import type { PrReviewRecord, ReviewEvent } from '@/lib/types';
+
+type ProviderName = 'claude' | 'gemini' | 'openai';
+
+const PR_URL_RE = /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/pull\/\d+/;
+
+/** Whether a clone-modal URL should start a review instead of a plain clone. */
+export function isPullRequestUrl(url: string): boolean {
+  return PR_URL_RE.test(url.trim());
+}
+
+interface PrReviewState {
+  isOpen: boolean;
+  isRunning: boolean;
+  isPosting: boolean;
+  record: PrReviewRecord | null;
+  /** Issue indices left out of the GitHub review */
+  dismissed: number[];
+  error: string | null;
+  provider: ProviderName;
+
+  // Actions
+  startFromUrl: (url: string) => Promise<void>;
+  open: (sessionId: string) => Promise<void>;
+  run: () => Promise<void>;
+  toggleIssue: (index: number) => void;
+  post: (event: ReviewEvent) => Promise<void>;
+  close: () => void;
+  setProvider: (provider: ProviderName) => void;
+}
+
+export const usePrReview = create<PrReviewState>((set, get) => ({
+  isOpen: false,
+  isRunning: false,
+  isPosting: false,
+  record: null,
+  dismissed: [],
+  error: null,
+  provider: 'claude',
+
+  startFromUrl: async (url) => {
+    const result = await prReviewApi.start(url.trim());
+    if (!result.data) throw new Error(result.error || 'Failed to start review');
+    const { session, review } = result.data;
+
+    useSandboxStore.setState((state) => ({ sessions: [session, ...state.sessions] }));
+    await useSandboxStore.getState().selectSession(session.id);
+
+    set({ isOpen: true, record: review, dismissed: [], error: null });
+    void get().run();
+  },
+
+  open: async (sessionId) => {
+    set({ isOpen: true, error: null });
+    if (get().record?.sessionId === sessionId) return;
+    set({ record: null, dismissed: [] });
+    try {
+      const result = await prReviewApi.get(sessionId);
+      set({ record: result.data ?? null });
+    } catch (err) {
+      set({ error: err instanceof Error ? err.message : 'Failed to load review' });
+    }
+  },
+
+  run: async () => {
+    const { record, provider } = get();
+    if (!record) return;
+
+    const { availableProviders } = useQuickChat.getState();
+    if (availableProviders.length > 0 && !availableProviders.includes(provider)) {
+      const name = provider === 'claude' ? 'Claude' : provider === 'openai' ? 'OpenAI' : 'Gemini';
+      set({ error: `No API key for ${name}. Add one in Settings > AI Providers.` });
+      return;
+    }
+
+    set({ isRunning: true, error: null });
+    try {
+      const result = await prReviewApi.run(record.sessionId, provider);
+      set({ record: result.data ?? record, dismissed: [], isRunning: false });
+    } catch (err) {
+      set({
+        error: err instanceof Error ? err.message : 'Review failed',
+        isRunning: false,
+      });
+    }
+  },
+
+  toggleIssue: (index) => {
+    const { dismissed } = get();
+    set({
+      dismissed: dismissed.includes(index)
+        ? dismissed.filter((i) => i !== index)
+        : [...dismissed, index],
+    });
+  },
+
+  post: async (event) => {
+    const { record, dismissed } = get();
+    if (!record?.review) return;
+
+    const issues = record.review.issues.map((_, i) => i).filter((i) => !dismissed.includes(i));
+    set({ isPosting: true, error: null });
+    try {
+      const result = await prReviewApi.post(record.sessionId, event, issues);
+      set({ record: result.data ?? record, isPosting: false });
+    } catch (err) {
+      set({
+        error: err instanceof Error ? err.message : 'Failed to post review',
+        isPosting: false,
+      });
+    }
+  },
+
+  close: () => set({ isOpen: false, error: null }),
+
+  setProvider: (provider) => set({ provider }),
+}));
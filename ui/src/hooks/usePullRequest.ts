@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import { useQuickChat } from '@/hooks/useQuickChat';
+import { useSandboxStore } from '@/hooks/useSandbox';
+import { gitApi } from '@/lib/api';
+import type { PullRequestRecord, PullRequestStatus } from '@/lib/types';
+
+type ProviderName = 'claude' | 'gemini' | 'openai';
+
+interface PullRequestState {
+  isOpen: boolean;
+  isLoading: boolean;
+  isCreating: boolean;
+  pullRequest: PullRequestRecord | null;
+  status: PullRequestStatus | null;
+  error: string | null;
+  provider: ProviderName;
+  base: string;
+  draft: boolean;
+
+  // Actions
+  open: () => Promise<void>;
+  refresh: () => Promise<void>;
+  create: () => Promise<void>;
+  dismiss: () => void;
+  setProvider: (provider: ProviderName) => void;
+  setBase: (base: string) => void;
+  setDraft: (draft: boolean) => void;
+}
+
+export const usePullRequest = create<PullRequestState>((set, get) => ({
+  isOpen: false,
+  isLoading: false,
+  isCreating: false,
+  pullRequest: null,
+  status: null,
+  error: null,
+  provider: 'claude',
+  base: '',
+  draft: false,
+
+  open: async () => {
+    set({ isOpen: true, pullRequest: null, status: null, error: null });
+    await get().refresh();
+  },
+
+  refresh: async () => {
+    const { currentSession } = useSandboxStore.getState();
+    if (!currentSession) return;
+
+    set({ isLoading: true });
+    try {
+      const result = await gitApi.pullRequest(currentSession.id);
+      set({
+        pullRequest: result.data?.pullRequest ?? null,
+        status: result.data?.status ?? null,
+        isLoading: false,
+      });
+    } catch {
+      // No pull request for this session yet
+      set({ isLoading: false });
+    }
+  },
+
+  create: async () => {
+    const { currentSession } = useSandboxStore.getState();
+    if (!currentSession) return;
+    const { provider, base, draft } = get();
+
+    // Without a key for the chosen provider the server falls back to commit
+    // subjects, so only steer the provider when one is available
+    const { availableProviders } = useQuickChat.getState();
+    const usable = availableProviders.length === 0 || availableProviders.includes(provider);
+
+    set({ isCreating: true, error: null });
+    try {
+      const result = await gitApi.createPullRequest(currentSession.id, {
+        base: base.trim() || undefined,
+        draft,
+        ...(usable ? { provider } : {}),
+      });
+      set({ pullRequest: result.data?.pullRequest ?? null, isCreating: false });
+      await get().refresh();
+    } catch (err) {
+      set({
+        error: err instanceof Error ? err.message : 'Failed to open pull request',
+        isCreating: false,
+      });
+    }
+  },
+
+  dismiss: () => {
+    set({ isOpen: false, error: null, isCreating: false, isLoading: false });
+  },
+
+  setProvider: (provider) => set({ provider }),
+  setBase: (base) => set({ base }),
+  setDraft: (draft) => set({ draft }),
+}));
@@ -36,6 +36,8 @@ interface SandboxState {
   // Editor state
   openFiles: Array<{ path: string; content: string; isDirty: boolean }>;
   activeFileIndex: number;
+  /** Line the editor should scroll to once the active file is shown (1-based) */
+  revealLine: number | null;
 
   // Chat state (normalized: O(1) per-message lookup, stable references)
   messagesById: Record<string, Message>;
@@ -79,7 +81,7 @@ interface SandboxState {
 
   // Actions
   loadSessions: () => Promise<void>;
-  createSession: (name?: string, gitRepo?: string, branch?: string) => Promise<Session | null>;
+  createSession: (name?: string, gitRepo?: string, branch?: string, secrets?: string[]) => Promise<Session | null>;
   selectSession: (sessionId: string) => Promise<void>;
   deselectSession: () => void;
   terminateSession: (sessionId: string) => Promise<void>;
@@ -87,10 +89,13 @@ interface SandboxState {
   purgeSession: (sessionId: string) => Promise<void>;
 
   renameSession: (sessionId: string, name: string) => Promise<void>;
+  /** Share with an org, or stop sharing when `sharing` is null */
+  shareSession: (sessionId: string, sharing: { orgId: string; access: 'read' | 'collaborate' } | null) => Promise<void>;
 
   loadFiles: (path?: string) => Promise<void>;
   navigateTo: (path: string) => Promise<void>;
-  openFile: (path: string) => Promise<void>;
+  openFile: (path: string, line?: number) => Promise<void>;
+  clearRevealLine: () => void;
   closeFile: (index: number) => void;
   setActiveFile: (index: number) => void;
   updateFileContent: (content: string) => void;
@@ -152,6 +157,7 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
 
   openFiles: [],
   activeFileIndex: -1,
+  revealLine: null,
 
   messagesById: {},
   messageIds: [],
@@ -194,7 +200,7 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
     }
   },
 
-  createSession: async (name?: string, gitRepo?: string, branch?: string) => {
+  createSession: async (name?: string, gitRepo?: string, branch?: string, secrets?: string[]) => {
     let sessionName: string;
     if (name) {
       sessionName = name;
@@ -209,7 +215,7 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
     }
     set({ isCreatingSession: true });
     try {
-      const result = await sessionsApi.create({ name: sessionName, gitRepo, branch });
+      const result = await sessionsApi.create({ name: sessionName, gitRepo, branch, secrets });
       if (result.success && result.data) {
         const session = result.data;
         set((state) => ({
@@ -348,6 +354,23 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
     }
   },
 
+  shareSession: async (sessionId, sharing) => {
+    const result = sharing
+      ? await sessionsApi.share(sessionId, sharing.orgId, sharing.access)
+      : await sessionsApi.unshare(sessionId);
+    if (result.success && result.data) {
+      set((state) => ({
+        sessions: state.sessions.map((s) =>
+          s.id === sessionId ? result.data! : s
+        ),
+        currentSession:
+          state.currentSession?.id === sessionId
+            ? result.data!
+            : state.currentSession,
+      }));
+    }
+  },
+
   terminateSession: async (sessionId: string) => {
     try {
       const result = await sessionsApi.terminate(sessionId);
@@ -443,14 +466,14 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
     }
   },
 
-  openFile: async (path: string) => {
+  openFile: async (path: string, line?: number) => {
     const session = get().currentSession;
     if (!session) return;
 
     // Check if already open
     const existingIndex = get().openFiles.findIndex((f) => f.path === path);
     if (existingIndex !== -1) {
-      set({ activeFileIndex: existingIndex });
+      set({ activeFileIndex: existingIndex, revealLine: line ?? null });
       return;
     }
 
@@ -463,6 +486,7 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
             { path, content: result.data!.content, isDirty: false },
           ],
           activeFileIndex: state.openFiles.length,
+          revealLine: line ?? null,
           fileContent: result.data!.content,
           currentFile: { path, name: path.split('/').pop() || '', type: 'file' },
         }));
@@ -493,6 +517,8 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
     });
   },
 
+  clearRevealLine: () => set({ revealLine: null }),
+
   setActiveFile: (index: number) => {
     const state = get();
     if (index >= 0 && index < state.openFiles.length) {
@@ -686,6 +712,22 @@ const createSandboxStore: StateCreator<SandboxState> = (set, get) => ({
           continue;
         }
 
+        // Spend cap reached — the run continues (warn/downgrade); refusals arrive as errors
+        if (chunk.type === 'budget') {
+          const b = chunk as Record<string, unknown>;
+          toast.warning(String(b.message), 8000);
+          debugLog('sandbox', 'warn', `Budget ${b.action}: $${b.spentUsd} of $${b.capUsd} (${b.window})`);
+          continue;
+        }
+
+        // Agent output contained a stored secret value — it was masked before display/storage
+        if (chunk.type === 'secret-redacted') {
+          const names = ((chunk as Record<string, unknown>).names as string[] | undefined) ?? [];
+          toast.warning(`Secret value masked in output: ${names.join(', ')}`, 8000);
+          debugLog('sandbox', 'warn', `Redacted secrets in agent output: ${names.join(', ')}`);
+          continue;
+        }
+
         // SDK is auto-compacting context (emitted during the long silence)
         if (chunk.type === 'system-status' && (chunk as Record<string, unknown>).status === 'compacting') {
           set({ isCompacting: true });
@@ -0,0 +1,248 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { chatApi } from '@/lib/api';
+import type { Message } from '@/lib/types';
+import { useSandboxStore } from './useSandbox';
+import { fetchWsTicket } from './useVfChatWs';
+
+/**
+ * Live presence for shared sessions (backend: ChatSessionAgent DO /watch).
+ *
+ * Every open tab of a shared session holds one watch socket. It reports who
+ * is watching and typing, mirrors the run another member is driving, carries
+ * the prompt queue, and surfaces tool approvals any collaborator can answer.
+ */
+
+export type ViewerAccess = 'owner' | 'collaborator' | 'viewer';
+
+export interface Viewer {
+  userId: string;
+  email: string;
+  access: ViewerAccess;
+  typing: boolean;
+  joinedAt: string;
+}
+
+export interface QueuedPrompt {
+  id: string;
+  userId: string;
+  email: string;
+  prompt: string;
+  queuedAt: string;
+}
+
+export interface SharedApproval {
+  approvalId: string;
+  toolName: string;
+  input: unknown;
+}
+
+type WatchFrame =
+  | { type: 'presence'; viewers: Viewer[] }
+  | { type: 'queue'; items: QueuedPrompt[] }
+  | { type: 'run'; state: 'started' | 'ended'; executionId: string; userId: string }
+  | { type: 'line'; line: string }
+  | { type: 'approval-resolved'; approvalId: string; approved: boolean }
+  | { type: 'error'; error: string };
+
+/** Stop showing "typing" this long after the last keystroke. */
+const TYPING_IDLE_MS = 4000;
+const RECONNECT_DELAY_MS = 3000;
+
+interface PresenceState {
+  sessionId: string | null;
+  isConnected: boolean;
+  viewers: Viewer[];
+  queue: QueuedPrompt[];
+  /** The run in flight, whoever is driving it */
+  run: { executionId: string; userId: string } | null;
+  /** Text of a run another member is driving, as it streams */
+  preview: string;
+  approvals: SharedApproval[];
+  error: string | null;
+  setTyping: (typing: boolean) => void;
+  enqueue: (prompt: string) => boolean;
+  cancel: (id: string) => void;
+  clearError: () => void;
+}
+
+let socket: WebSocket | null = null;
+let typingTimer: ReturnType<typeof setTimeout> | null = null;
+let sentTyping = false;
+
+function send(payload: Record<string, unknown>): boolean {
+  if (socket?.readyState !== WebSocket.OPEN) return false;
+  socket.send(JSON.stringify(payload));
+  return true;
+}
+
+export const usePresenceStore = create<PresenceState>((set) => ({
+  sessionId: null,
+  isConnected: false,
+  viewers: [],
+  queue: [],
+  run: null,
+  preview: '',
+  approvals: [],
+  error: null,
+
+  setTyping: (typing) => {
+    if (typingTimer) clearTimeout(typingTimer);
+    typingTimer = typing
+      ? setTimeout(() => usePresenceStore.getState().setTyping(false), TYPING_IDLE_MS)
+      : null;
+    // Only send on change — keystrokes just push the idle timer back
+    if (typing !== sentTyping && send({ type: 'typing', typing })) sentTyping = typing;
+  },
+
+  enqueue: (prompt) => {
+    const { sdkMode, selectedModel, autonomyMode } = useSandboxStore.getState();
+    sentTyping = false;
+    return send({
+      type: 'enqueue',
+      prompt,
+      mode: sdkMode,
+      ...(selectedModel && selectedModel !== 'auto' ? { model: selectedModel } : {}),
+      autonomy: autonomyMode,
+    });
+  },
+
+  cancel: (id) => {
+    send({ type: 'cancel', id });
+  },
+
+  clearError: () => set({ error: null }),
+}));
+
+/** Reload persisted history once someone else's run has finished. */
+async function reloadHistory(sessionId: string): Promise<void> {
+  const sandbox = useSandboxStore.getState();
+  if (sandbox.isStreaming || sandbox.currentSession?.id !== sessionId) return;
+  try {
+    const result = await chatApi.history(sessionId);
+    if (!result.success || !result.data) return;
+    const byId: Record<string, Message> = {};
+    const ids: string[] = [];
+    for (const msg of result.data) {
+      byId[msg.id] = msg;
+      ids.push(msg.id);
+    }
+    useSandboxStore.setState({ messagesById: byId, messageIds: ids });
+  } catch {
+    // Best-effort — the next session load picks it up
+  }
+}
+
+/** Mark a confirmation answered by another collaborator in the local stream. */
+function markResolved(approvalId: string, approved: boolean): void {
+  const { streamingParts } = useSandboxStore.getState();
+  if (!streamingParts.some((p) => p.confirmation?.approvalId === approvalId)) return;
+  useSandboxStore.setState({
+    streamingParts: streamingParts.map((p) =>
+      p.confirmation?.approvalId === approvalId && !p.confirmation.responded
+        ? { ...p, confirmation: { ...p.confirmation, responded: approved ? 'approved' : 'denied' } }
+        : p
+    ),
+  });
+}
+
+function handleFrame(frame: WatchFrame, sessionId: string, myUserId: string | undefined): void {
+  const set = usePresenceStore.setState;
+  switch (frame.type) {
+    case 'presence':
+      set({ viewers: frame.viewers });
+      return;
+    case 'queue':
+      set({ queue: frame.items });
+      return;
+    case 'run':
+      if (frame.state === 'started') {
+        set({ run: { executionId: frame.executionId, userId: frame.userId }, preview: '', approvals: [] });
+      } else {
+        set({ run: null, preview: '', approvals: [] });
+        if (frame.userId !== myUserId) void reloadHistory(sessionId);
+      }
+      return;
+    case 'line': {
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(frame.line) as Record<string, unknown>;
+      } catch {
+        return;
+      }
+      if (event.type === 'text-delta' && typeof event.text === 'string') {
+        // Our own run already renders through the chat stream
+        const { run } = usePresenceStore.getState();
+        if (run && run.userId !== myUserId) set((s) => ({ preview: s.preview + event.text }));
+      } else if (event.type === 'confirmation' && typeof event.approvalId === 'string') {
+        const approval: SharedApproval = {
+          approvalId: event.approvalId,
+          toolName: String(event.toolName ?? ''),
+          input: event.input,
+        };
+        set((s) => s.approvals.some((a) => a.approvalId === approval.approvalId)
+          ? s
+          : { approvals: [...s.approvals, approval] });
+      } else if (event.type === 'error' && typeof event.error === 'string') {
+        set({ error: event.error });
+      }
+      return;
+    }
+    case 'approval-resolved':
+      set((s) => ({ approvals: s.approvals.filter((a) => a.approvalId !== frame.approvalId) }));
+      markResolved(frame.approvalId, frame.approved);
+      return;
+    case 'error':
+      set({ error: frame.error });
+      return;
+  }
+}
+
+/**
+ * Hold a watch socket for the session while it is shared. Reconnects on drop;
+ * closes when the session changes or stops being shared.
+ */
+export function useSessionPresence(sessionId: string | undefined, shared: boolean, myUserId: string | undefined) {
+  useEffect(() => {
+    if (!sessionId || !shared) return;
+    let disposed = false;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = async () => {
+      const token = localStorage.getItem('session_token');
+      if (!token || disposed) return;
+      const ticket = await fetchWsTicket(token);
+      if (disposed) return;
+      const base = window.location.origin.replace(/^http/, 'ws');
+      const auth = ticket ? `ticket=${encodeURIComponent(ticket.ticket)}` : `token=${encodeURIComponent(token)}`;
+      const ws = new WebSocket(`${base}/api/v15/watch?sessionId=${encodeURIComponent(sessionId)}&${auth}`);
+      socket = ws;
+
+      ws.onopen = () => usePresenceStore.setState({ isConnected: true });
+      ws.onmessage = (e: MessageEvent<string>) => {
+        try {
+          handleFrame(JSON.parse(e.data) as WatchFrame, sessionId, myUserId);
+        } catch { /* ignore malformed frames */ }
+      };
+      ws.onclose = () => {
+        if (socket === ws) socket = null;
+        usePresenceStore.setState({ isConnected: false });
+        if (!disposed) retry = setTimeout(() => void connect(), RECONNECT_DELAY_MS);
+      };
+    };
+
+    usePresenceStore.setState({
+      sessionId, viewers: [], queue: [], run: null, preview: '', approvals: [], error: null,
+    });
+    sentTyping = false;
+    void connect();
+
+    return () => {
+      disposed = true;
+      if (retry) clearTimeout(retry);
+      socket?.close(1000, 'Session changed');
+      socket = null;
+      usePresenceStore.setState({ sessionId: null, isConnected: false, viewers: [], queue: [], run: null });
+    };
+  }, [sessionId, shared, myUserId]);
+}
@@ -14,6 +14,8 @@ export type SettingsTab =
   | 'files'
   | 'account'
   | 'billing'
+  | 'team'
+  | 'schedules'
   | 'guide'
   | 'about'
   | 'dev-tools';
@@ -1,7 +1,10 @@
 import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { useCommandRegistry, type CommandEntry } from '@/hooks/useCommandRegistry';
 import { useSettingsStore } from '@/hooks/useSettings';
+import { toast } from '@/hooks/useToast';
+import { mcpApi } from '@/lib/api';
 import { haptics } from '@/lib/haptics';
+import { parsePromptArguments, promptToText, promptUsage } from '@/lib/mcp-content';
 
 interface SlashMenuState {
   kind: 'command' | 'agent';
@@ -15,6 +18,14 @@ interface UseSlashCommandsReturn {
   menuIndex: number;
   handleSlashSelect: (cmd: CommandEntry) => void;
   handleSlashKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  /** Runs an armed MCP prompt if `text` invokes it; returns whether it did */
+  submitMcpPrompt: (text: string) => boolean;
+}
+
+/** An MCP prompt picked from the menu, waiting for its arguments */
+interface ArmedPrompt {
+  cmd: CommandEntry;
+  textBefore: string;
 }
 
 export function useSlashCommands(
@@ -26,6 +37,7 @@ export function useSlashCommands(
   const settingsOpen = useSettingsStore((s) => s.isOpen);
   const prevSettingsOpenRef = useRef(settingsOpen);
   const [menuIndex, setMenuIndex] = useState(0);
+  const [armedPrompt, setArmedPrompt] = useState<ArmedPrompt | null>(null);
 
   useEffect(() => {
     if (prevSettingsOpenRef.current && !settingsOpen) {
@@ -68,11 +80,76 @@ export function useSlashCommands(
     setMenuIndex(0);
   }, [menuState?.query, menuState?.kind]);
 
+  // Forget an armed prompt once its /name is edited away
+  useEffect(() => {
+    if (armedPrompt && !input.startsWith(`/${armedPrompt.cmd.name}`)) setArmedPrompt(null);
+  }, [input, armedPrompt]);
+
+  const runMcpPrompt = useCallback(
+    async (cmd: CommandEntry, args: Record<string, string>, textBefore: string) => {
+      const { server, prompt } = cmd.mcpPrompt!;
+      try {
+        const result = await mcpApi.getPrompt(server, prompt.name, args);
+        if (!result.data) return;
+        const body = promptToText(result.data);
+        sendMessage(textBefore
+          ? `${textBefore}\n\n[command:/${cmd.name}]\n${body}`
+          : `[command:/${cmd.name}]\n${body}`);
+      } catch (err) {
+        toast.error(`/${cmd.name}: ${err instanceof Error ? err.message : 'MCP prompt failed'}`);
+      }
+    },
+    [sendMessage],
+  );
+
+  /** Put `/name ` in the input so the user can type the prompt's arguments */
+  const armMcpPrompt = useCallback(
+    (cmd: CommandEntry, textBefore: string) => {
+      setArmedPrompt({ cmd, textBefore });
+      setInput(`/${cmd.name} `);
+      setMenuIndex(0);
+      toast.info(`Usage: ${promptUsage(cmd.mcpPrompt!.prompt)}`, 6000);
+    },
+    [setInput],
+  );
+
+  const submitMcpPrompt = useCallback(
+    (text: string) => {
+      if (!armedPrompt) return false;
+      const { cmd, textBefore } = armedPrompt;
+      const match = text.match(new RegExp(`^/${cmd.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\s+([\\s\\S]*))?$`));
+      if (!match) return false;
+
+      const { args, missing } = parsePromptArguments(cmd.mcpPrompt!.prompt, match[1] ?? '');
+      if (missing.length > 0) {
+        toast.error(`Missing ${missing.join(', ')} — usage: ${promptUsage(cmd.mcpPrompt!.prompt)}`);
+        return true;
+      }
+      setArmedPrompt(null);
+      setInput('');
+      haptics.light();
+      void runMcpPrompt(cmd, args, textBefore);
+      return true;
+    },
+    [armedPrompt, runMcpPrompt, setInput],
+  );
+
   const handleSlashSelect = useCallback(
     (cmd: CommandEntry) => {
       const prefixChar = cmd.kind === 'agent' ? '@' : '/';
       const pattern = new RegExp(`(?:^|\\s)[${prefixChar}]\\S*$`);
       const textBefore = input.replace(pattern, '').trim();
+      if (cmd.mcpPrompt) {
+        if (cmd.mcpPrompt.prompt.arguments?.length) {
+          armMcpPrompt(cmd, textBefore);
+          return;
+        }
+        setInput('');
+        setMenuIndex(0);
+        haptics.light();
+        void runMcpPrompt(cmd, {}, textBefore);
+        return;
+      }
       const prefix = cmd.kind === 'agent' ? 'agent' : 'command';
       const fullMessage = textBefore
         ? `${textBefore}\n\n[${prefix}:/${cmd.name}]\n${cmd.content}`
@@ -82,7 +159,7 @@ export function useSlashCommands(
       setMenuIndex(0);
       haptics.light();
     },
-    [sendMessage, input, setInput],
+    [sendMessage, input, setInput, armMcpPrompt, runMcpPrompt],
   );
 
   const handleSlashKeyDown = useCallback(
@@ -99,7 +176,9 @@ export function useSlashCommands(
       } else if (e.key === 'Tab') {
         e.preventDefault();
         const selected = filteredCommands[menuIndex];
-        if (selected) {
+        if (selected?.mcpPrompt) {
+          armMcpPrompt(selected, input.replace(/(?:^|\s)\/\S*$/, '').trim());
+        } else if (selected) {
           const pfx = menuState?.kind === 'agent' ? '@' : '/';
           const replacement = `${pfx}${selected.name} `;
           const pat = new RegExp(`(?:^|\\s)[${pfx}]\\S*$`);
@@ -119,7 +198,7 @@ export function useSlashCommands(
         setInput('');
       }
     },
-    [menuOpen, menuIndex, filteredCommands, menuState, input, setInput, handleSlashSelect],
+    [menuOpen, menuIndex, filteredCommands, menuState, input, setInput, handleSlashSelect, armMcpPrompt],
   );
 
   return {
@@ -129,5 +208,6 @@ export function useSlashCommands(
     menuIndex,
     handleSlashSelect,
     handleSlashKeyDown,
+    submitMcpPrompt,
   };
 }
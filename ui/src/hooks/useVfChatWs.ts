@@ -97,7 +97,7 @@ function parseUIStreamFrame(data: string): VfStreamEvent | null {
  * which would expose it in CF access logs and browser history.
  * Falls back to the raw token if the ticket fetch fails.
  */
-async function fetchWsTicket(token: string): Promise<{ ticket: string } | null> {
+export async function fetchWsTicket(token: string): Promise<{ ticket: string } | null> {
   try {
     const res = await fetch('/api/v15/ws-ticket', {
       method: 'POST',
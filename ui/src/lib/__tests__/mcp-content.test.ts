@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parsePromptArguments, promptToText, promptUsage, resourceBase64 } from '../mcp-content';
+import type { McpPrompt } from '../types';
+
+const review: McpPrompt = {
+  name: 'review',
+  arguments: [
+    { name: 'file', required: true },
+    { name: 'focus' },
+  ],
+};
+
+describe('mcp-content', () => {
+  it('describes prompt usage', () => {
+    expect(promptUsage(review)).toBe('/review <file> [focus]');
+  });
+
+  it('maps words onto arguments, extra words going to the last one', () => {
+    expect(parsePromptArguments(review, '"src/my file.ts" error handling and naming')).toEqual({
+      args: { file: 'src/my file.ts', focus: 'error handling and naming' },
+      missing: [],
+    });
+    expect(parsePromptArguments(review, '   ')).toEqual({ args: {}, missing: ['file'] });
+  });
+
+  it('flattens prompt messages into one text', () => {
+    expect(promptToText({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Review this file' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.ts', text: 'const a = 1;' } } },
+        { role: 'user', content: { type: 'image' } },
+      ],
+    })).toBe('Review this file\n\nfile:///a.ts\n```\nconst a = 1;\n```\n\n[image content omitted]');
+  });
+
+  it('base64-encodes text resources as UTF-8', () => {
+    expect(atob(resourceBase64({ uri: 'x', text: 'héllo' }))).toBe('hÃ©llo');
+    expect(resourceBase64({ uri: 'x', blob: 'AAEC' })).toBe('AAEC');
+  });
+});
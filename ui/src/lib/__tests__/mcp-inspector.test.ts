@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildToolArguments, toolFields } from '../mcp-inspector';
+
+const schema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', description: 'Search text' },
+    limit: { type: 'integer' },
+    order: { type: 'string', enum: ['asc', 'desc'] },
+    exact: { type: ['boolean', 'null'] },
+    filters: { type: 'object' },
+  },
+  required: ['query'],
+};
+
+describe('mcp-inspector', () => {
+  it('derives form fields from an inputSchema', () => {
+    expect(toolFields(schema)).toEqual([
+      { name: 'query', type: 'string', required: true, description: 'Search text' },
+      { name: 'limit', type: 'integer', required: false },
+      { name: 'order', type: 'string', required: false, enum: ['asc', 'desc'] },
+      { name: 'exact', type: 'boolean', required: false },
+      { name: 'filters', type: 'json', required: false },
+    ]);
+    expect(toolFields(undefined)).toEqual([]);
+  });
+
+  it('converts values and leaves out empty optional fields', () => {
+    const fields = toolFields(schema);
+    expect(buildToolArguments(fields, { query: 'mcp', limit: '5', exact: 'false', filters: '{"lang":"ts"}', order: '' })).toEqual({
+      args: { query: 'mcp', limit: 5, exact: false, filters: { lang: 'ts' } },
+      errors: [],
+    });
+  });
+
+  it('reports missing and malformed values', () => {
+    const fields = toolFields(schema);
+    expect(buildToolArguments(fields, { limit: '2.5', filters: '{' }).errors).toEqual([
+      'query is required',
+      'limit must be an integer',
+      'filters must be valid JSON',
+    ]);
+  });
+});
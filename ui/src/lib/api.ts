@@ -1,4 +1,4 @@
-import type { ApiResponse, Session, Message, FileInfo, GitStatus, GitCommit, User, McpServerConfig, Plugin, ConfigFile, ConfigCategory, AIProviderConfig, Checkpoint } from './types';
+import type { ApiResponse, Session, SessionSharing, Message, FileInfo, GitStatus, GitCommit, PullRequestRecord, PullRequestStatus, PrReviewRecord, ReviewEvent, User, McpServerConfig, McpResource, McpResourceContent, McpPrompt, McpPromptResult, McpExchange, Plugin, ConfigFile, ConfigCategory, AIProviderConfig, Checkpoint, CheckpointDiff } from './types';
 import { useDebugLog } from '@/hooks/useDebugLog';
 
 const API_BASE = '/api';
@@ -135,7 +135,7 @@ export const sessionsApi = {
 
   get: (sessionId: string) => request<Session>(`/sessions/${sessionId}`),
 
-  create: (data: { name?: string; gitRepo?: string; branch?: string }) =>
+  create: (data: { name?: string; gitRepo?: string; branch?: string; secrets?: string[] }) =>
     request<Session>('/sessions/create', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -200,6 +200,34 @@ export const sessionsApi = {
       method: 'POST',
     }),
 
+  share: (sessionId: string, orgId: string, access: SessionSharing['access']) =>
+    request<Session>(`/sessions/${sessionId}/sharing`, {
+      method: 'PUT',
+      body: JSON.stringify({ orgId, access }),
+    }),
+
+  unshare: (sessionId: string) =>
+    request<Session>(`/sessions/${sessionId}/sharing`, {
+      method: 'DELETE',
+    }),
+
+  createShareLink: (
+    sessionId: string,
+    options: { expiresInHours?: number; includeFileContents?: boolean; includeDiff?: boolean } = {}
+  ) =>
+    request<ShareLinkInfo & { url: string }>(`/sessions/${sessionId}/share`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    }),
+
+  listShareLinks: (sessionId: string) =>
+    request<ShareLinkInfo[]>(`/sessions/${sessionId}/shares`),
+
+  revokeShareLink: (sessionId: string, shareId: string) =>
+    request<{ revoked: boolean }>(`/sessions/${sessionId}/shares/${shareId}`, {
+      method: 'DELETE',
+    }),
+
   execStream: async function* (
     sessionId: string,
     command: string,
@@ -885,14 +913,23 @@ export const autoContextApi = {
 };
 
 // Per-session budget ceiling API
+export type BudgetAction = 'warn' | 'downgrade' | 'refuse';
+export type SpendWindow = 'session' | 'day' | 'month';
+
+export interface BudgetPolicy {
+  action: BudgetAction;
+  window: SpendWindow;
+  downgradeModel: 'haiku' | 'sonnet';
+}
+
 export const maxBudgetApi = {
   get: () =>
-    request<{ maxBudgetUsd: number | null }>('/user/max-budget'),
+    request<{ maxBudgetUsd: number | null; policy: BudgetPolicy }>('/user/max-budget'),
 
-  set: (maxBudgetUsd: number | null) =>
-    request<{ maxBudgetUsd: number | null }>('/user/max-budget', {
+  set: (maxBudgetUsd: number | null, policy?: Partial<BudgetPolicy>) =>
+    request<{ maxBudgetUsd: number | null; policy: BudgetPolicy }>('/user/max-budget', {
       method: 'PUT',
-      body: JSON.stringify({ maxBudgetUsd }),
+      body: JSON.stringify({ maxBudgetUsd, ...(policy ? { policy } : {}) }),
     }),
 };
 
@@ -914,14 +951,37 @@ export const vfRulesApi = {
 };
 
 // Secrets API
+export type SecretScopeKind = 'global' | 'project' | 'manual';
+
+export interface SecretScopeInput {
+  scope: SecretScopeKind;
+  /** Repo pattern for 'project' scope, e.g. github.com/acme/* */
+  gitRepo?: string;
+}
+
+export interface SecretEntry extends SecretScopeInput {
+  name: string;
+  hint: string;
+  /** Injected by default for the repo passed to list() */
+  matches?: boolean;
+}
+
 export const secretsApi = {
-  list: () =>
-    request<Array<{ name: string; hint: string }>>('/secrets'),
+  list: (gitRepo?: string) =>
+    request<SecretEntry[]>(
+      `/secrets${gitRepo ? `?gitRepo=${encodeURIComponent(gitRepo)}` : ''}`
+    ),
 
-  add: (name: string, value: string) =>
-    request<{ name: string; hint: string }>('/secrets', {
+  add: (name: string, value: string, scope?: SecretScopeInput) =>
+    request<SecretEntry>('/secrets', {
       method: 'POST',
-      body: JSON.stringify({ name, value }),
+      body: JSON.stringify({ name, value, ...scope }),
+    }),
+
+  updateScope: (name: string, scope: SecretScopeInput) =>
+    request<SecretEntry>(`/secrets/${encodeURIComponent(name)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(scope),
     }),
 
   remove: (name: string) =>
@@ -930,6 +990,162 @@ export const secretsApi = {
     }),
 };
 
+// Share links — public read-only transcripts
+export interface ShareLinkInfo {
+  id: string;
+  sessionId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  includeFileContents: boolean;
+  hasDiff: boolean;
+}
+
+// Orgs API
+export type OrgRole = 'owner' | 'admin' | 'member';
+
+export interface OrgMember {
+  userId: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: string;
+}
+
+export interface Org {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  members: OrgMember[];
+}
+
+export interface OrgInvite {
+  code: string;
+  orgId: string;
+  role: Exclude<OrgRole, 'owner'>;
+  expiresAt: string;
+}
+
+export const orgsApi = {
+  list: () => request<Org[]>('/orgs'),
+
+  create: (name: string) =>
+    request<Org>('/orgs', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    }),
+
+  join: (code: string) =>
+    request<Org>('/orgs/join', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    }),
+
+  rename: (orgId: string, name: string) =>
+    request<Org>(`/orgs/${orgId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    }),
+
+  remove: (orgId: string) =>
+    request<{ deleted: boolean }>(`/orgs/${orgId}`, {
+      method: 'DELETE',
+    }),
+
+  invite: (orgId: string, role: OrgInvite['role'] = 'member') =>
+    request<OrgInvite>(`/orgs/${orgId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ role }),
+    }),
+
+  setRole: (orgId: string, userId: string, role: OrgRole) =>
+    request<Org>(`/orgs/${orgId}/members/${encodeURIComponent(userId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }),
+
+  removeMember: (orgId: string, userId: string) =>
+    request<Org>(`/orgs/${orgId}/members/${encodeURIComponent(userId)}`, {
+      method: 'DELETE',
+    }),
+};
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  schedule: string;
+  timezone: string;
+  prompt: string;
+  sessionId?: string;
+  gitRepo?: string;
+  branch?: string;
+  model?: string;
+  enabled: boolean;
+  notify: {
+    channels: AlertChannel[];
+    delivery: {
+      webhook?: { url: string; secret: string };
+      email?: { to: string[] };
+    };
+  };
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastStatus?: JobRunStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  trigger: 'schedule' | 'manual';
+  status: JobRunStatus;
+  sessionId?: string;
+  startedAt: string;
+  endedAt?: string;
+  error?: string;
+  resultText?: string;
+  costUsd?: number;
+}
+
+export type ScheduledJobInput = {
+  name: string;
+  schedule: string;
+  timezone?: string;
+  prompt: string;
+  sessionId?: string;
+  gitRepo?: string;
+  branch?: string;
+  model?: string;
+  enabled?: boolean;
+} & AlertDeliveryInput;
+
+export const schedulesApi = {
+  list: () => request<{ jobs: ScheduledJob[] }>('/schedules'),
+
+  create: (data: ScheduledJobInput) =>
+    request<{ job: ScheduledJob }>('/schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (jobId: string, data: Partial<ScheduledJobInput>) =>
+    request<{ job: ScheduledJob }>(`/schedules/${jobId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  remove: (jobId: string) =>
+    request<{ deleted: true }>(`/schedules/${jobId}`, { method: 'DELETE' }),
+
+  runs: (jobId: string) => request<{ runs: JobRun[] }>(`/schedules/${jobId}/runs`),
+
+  runNow: (jobId: string) =>
+    request<{ run: JobRun }>(`/schedules/${jobId}/run`, { method: 'POST' }),
+};
+
 // MCP API
 export const mcpApi = {
   list: () =>
@@ -972,7 +1188,18 @@ export const mcpApi = {
       method: 'DELETE',
     }),
 
-  patch: (name: string, data: { mode?: McpServerConfig['mode']; scope?: McpServerConfig['scope'] }) =>
+  patch: (
+    name: string,
+    data: {
+      mode?: McpServerConfig['mode'];
+      scope?: McpServerConfig['scope'];
+      gitRepo?: string | null;
+      /** null removes the limit */
+      rateLimit?: { maxPerMinute: number } | null;
+      /** Replaces the whole map */
+      toolPolicy?: McpServerConfig['toolPolicy'];
+    }
+  ) =>
     request<McpServerConfig>(`/mcp/${encodeURIComponent(name)}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -983,6 +1210,13 @@ export const mcpApi = {
       method: 'PUT',
     }),
 
+  /** Replace the cached tool list with one read from a local relay server */
+  cacheTools: (name: string, tools: NonNullable<McpServerConfig['toolSchemas']>) =>
+    request<{ toolCount: number }>(`/mcp/${encodeURIComponent(name)}/tools`, {
+      method: 'PUT',
+      body: JSON.stringify({ tools }),
+    }),
+
   /** Batch health-check all enabled HTTP servers */
   ping: () =>
     request<Record<string, {
@@ -1002,11 +1236,34 @@ export const mcpApi = {
       tools?: string[];
       toolCount?: number;
       toolSchemas?: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }>;
+      resources?: McpResource[];
+      prompts?: McpPrompt[];
       pingMs?: number;
     }>(`/mcp/${encodeURIComponent(name)}/ping`, {
       method: 'POST',
     }),
 
+  /** Read an MCP resource (HTTP and SSE servers) */
+  readResource: (name: string, uri: string) =>
+    request<{ contents: McpResourceContent[] }>(`/mcp/${encodeURIComponent(name)}/resources/read`, {
+      method: 'POST',
+      body: JSON.stringify({ uri }),
+    }),
+
+  /** Render an MCP prompt template with its arguments (HTTP and SSE servers) */
+  getPrompt: (name: string, prompt: string, args: Record<string, string>) =>
+    request<McpPromptResult>(`/mcp/${encodeURIComponent(name)}/prompts/get`, {
+      method: 'POST',
+      body: JSON.stringify({ name: prompt, arguments: args }),
+    }),
+
+  /** Inspector: call one tool by hand on an HTTP or SSE server */
+  callTool: (name: string, tool: string, args: Record<string, unknown>) =>
+    request<McpExchange>(`/mcp/${encodeURIComponent(name)}/tools/call`, {
+      method: 'POST',
+      body: JSON.stringify({ tool, arguments: args }),
+    }),
+
   /** Start OAuth flow — returns the provider's authUrl to open in a new tab */
   oauthStart: (name: string) =>
     request<{ authUrl: string }>(`/mcp/${encodeURIComponent(name)}/oauth/start`),
@@ -1168,6 +1425,16 @@ export const favoritesApi = {
 };
 
 // GitHub API
+export interface GithubTrigger {
+  id: string;
+  repo: string;
+  label: string;
+  command: string;
+  githubHookId?: number;
+  webhookUrl: string;
+  createdAt: string;
+}
+
 export const githubApi = {
   /** Redirect to GitHub OAuth — includes JWT for auth (browser redirect can't carry headers) */
   getAuthUrl: () => {
@@ -1205,6 +1472,20 @@ export const githubApi = {
       `/github/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/branches`
     ),
 
+  /** Repos whose labeled issues and `/vf` comments start agent sessions */
+  triggers: () =>
+    request<{ triggers: GithubTrigger[] }>('/github/triggers'),
+
+  /** Register a repo and install its webhook — the secret is only returned here */
+  createTrigger: (data: { repo: string; label?: string; command?: string }) =>
+    request<{ trigger: GithubTrigger; secret: string; installed: boolean }>('/github/triggers', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  deleteTrigger: (id: string) =>
+    request<{ deleted: boolean }>(`/github/triggers/${id}`, { method: 'DELETE' }),
+
   /** Legacy: get saved username */
   getUsername: () =>
     request<{ username: string }>('/github/username'),
@@ -1272,7 +1553,14 @@ export const vaporFilesApi = {
 // Embeddings API (semantic search)
 export const embeddingsApi = {
   index: (sessionId: string) =>
-    request<{ fileCount: number; duration: number; model: string }>(
+    request<{
+      fileCount: number;
+      chunkCount: number;
+      duration: number;
+      model: string;
+      commitSha?: string;
+      baseSha?: string;
+    }>(
       '/embeddings/index',
       { method: 'POST', body: JSON.stringify({ sessionId }) }
     ),
@@ -1283,11 +1571,22 @@ export const embeddingsApi = {
       fileCount: number;
       lastIndexedAt: string | null;
       indexing: boolean;
+      commitSha?: string;
     }>(`/embeddings/status?sessionId=${encodeURIComponent(sessionId)}`),
 
   search: (sessionId: string, query: string, topK?: number) =>
     request<{
-      results: Array<{ path: string; score: number; snippet: string; language: string }>;
+      results: Array<{
+        path: string;
+        score: number;
+        snippet: string;
+        language: string;
+        startLine: number;
+        endLine: number;
+        /** Present in hybrid mode (the default) */
+        matchedBy?: Array<'semantic' | 'grep'>;
+        grepHits?: number;
+      }>;
       queryTime: number;
     }>('/embeddings/search', {
       method: 'POST',
@@ -1479,6 +1778,18 @@ export const checkpointsApi = {
       body: JSON.stringify(data),
     }),
 
+  restore: (id: string) =>
+    request<{ checkpoint: Checkpoint; removedMessages: number }>(
+      `/checkpoints/${encodeURIComponent(id)}/restore`,
+      { method: 'POST' },
+    ),
+
+  /** Diff checkpoint `from` against checkpoint `to` ('live' = current workspace) */
+  diff: (from: string, to: string = 'live') =>
+    request<CheckpointDiff>(
+      `/checkpoints/${encodeURIComponent(from)}/diff/${encodeURIComponent(to)}`,
+    ),
+
   delete: (id: string) =>
     request<{ id: string }>(`/checkpoints/${encodeURIComponent(id)}`, {
       method: 'DELETE',
@@ -1542,6 +1853,44 @@ export const gitApi = {
       method: 'POST',
       body: JSON.stringify({ branch, create }),
     }),
+
+  createPullRequest: (
+    sessionId: string,
+    options: { base?: string; draft?: boolean; provider?: 'claude' | 'gemini' | 'openai' } = {}
+  ) =>
+    request<{ pullRequest: PullRequestRecord; created: boolean; redactedSecrets?: string[] }>(
+      `/git/pr/${sessionId}`,
+      { method: 'POST', body: JSON.stringify(options) }
+    ),
+
+  pullRequest: (sessionId: string) =>
+    request<{ pullRequest: PullRequestRecord; status: PullRequestStatus | null }>(
+      `/git/pr/${sessionId}`
+    ),
+};
+
+// Pull request review API
+export const prReviewApi = {
+  start: (url: string) =>
+    request<{ session: Session; review: PrReviewRecord }>('/pr-review', {
+      method: 'POST',
+      body: JSON.stringify({ url }),
+    }),
+
+  get: (sessionId: string) =>
+    request<PrReviewRecord>(`/pr-review/${sessionId}`),
+
+  run: (sessionId: string, provider: 'claude' | 'gemini' | 'openai') =>
+    request<PrReviewRecord>(`/pr-review/${sessionId}/run`, {
+      method: 'POST',
+      body: JSON.stringify({ provider }),
+    }),
+
+  post: (sessionId: string, event: ReviewEvent, issues: number[]) =>
+    request<PrReviewRecord>(`/pr-review/${sessionId}/post`, {
+      method: 'POST',
+      body: JSON.stringify({ event, issues }),
+    }),
 };
 
 // Billing API
@@ -1574,18 +1923,42 @@ export const billingApi = {
     list: () =>
       request<{ alerts: AlertConfig[] }>('/billing/alerts'),
 
-    create: (data: { label?: string; thresholdPct: number; channels?: Array<'in-app'> }) =>
+    create: (data: { label?: string; thresholdPct: number; window?: SpendWindow } & AlertDeliveryInput) =>
       request<{ alert: AlertConfig }>('/billing/alerts', {
         method: 'POST',
         body: JSON.stringify(data),
       }),
 
+    updateDelivery: (id: string, data: AlertDeliveryInput) =>
+      request<{ alert: AlertConfig }>(`/billing/alerts/${id}/delivery`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
+
+    test: (id: string) =>
+      request<{ deliveries: AlertDeliveryRecord[] }>(`/billing/alerts/${id}/test`, { method: 'POST' }),
+
+    deliveries: () =>
+      request<{ deliveries: AlertDeliveryRecord[] }>('/billing/alerts/deliveries'),
+
+    retryDelivery: (id: string) =>
+      request<{ delivery: AlertDeliveryRecord }>(`/billing/alerts/deliveries/${id}/retry`, { method: 'POST' }),
+
     toggle: (id: string) =>
       request<{ alert: AlertConfig }>(`/billing/alerts/${id}/toggle`, { method: 'PATCH' }),
 
     delete: (id: string) =>
       request<Record<string, never>>(`/billing/alerts/${id}`, { method: 'DELETE' }),
   },
+
+  usage: (params: { from?: string; to?: string; groupBy?: UsageGroupBy } = {}) => {
+    const query = new URLSearchParams();
+    if (params.from) query.set('from', params.from);
+    if (params.to) query.set('to', params.to);
+    if (params.groupBy) query.set('groupBy', params.groupBy);
+    const qs = query.toString();
+    return request<UsageReport>(`/billing/usage${qs ? `?${qs}` : ''}`);
+  },
 };
 
 export const summaryApi = {
@@ -1599,13 +1972,56 @@ export interface AlertConfig {
   id: string;
   label: string;
   thresholdPct: number;
+  window?: SpendWindow;
   enabled: boolean;
-  channels: Array<'in-app'>;
+  channels: AlertChannel[];
+  delivery?: {
+    webhook?: { url: string; secret: string };
+    email?: { to: string[] };
+  };
   triggeredAt: string | null;
   triggeredCount: number;
   createdAt: string;
 }
 
+export type AlertChannel = 'in-app' | 'webhook' | 'email';
+
+export interface AlertDeliveryInput {
+  channels?: AlertChannel[];
+  webhookUrl?: string;
+  emailTo?: string[];
+}
+
+export interface AlertDeliveryRecord {
+  id: string;
+  alertId: string;
+  channel: 'webhook' | 'email';
+  target: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UsageGroupBy = 'model' | 'session' | 'day' | 'repo';
+
+export interface UsageTotals {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  prompts: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  totals: UsageTotals;
+  groups: Array<UsageTotals & { key: string }>;
+}
+
 /** Submit a tool approval/denial for a pending Standard-mode permission request. */
 export async function approveToolUse(
   sessionId: string,
@@ -1,6 +1,6 @@
 export interface ParsedServer {
   name: string;
-  transport: 'http' | 'stdio' | 'relay';
+  transport: 'http' | 'sse' | 'stdio' | 'relay';
   url?: string;
   command?: string;
   args?: string[];
@@ -94,9 +94,9 @@ function extractServer(
   const headers = extractRecord(config.headers);
   const env = extractRecord(config.env);
 
-  // HTTP: has url or type=http
+  // HTTP: has url; type=sse marks the legacy HTTP+SSE transport
   if (config.url && typeof config.url === 'string') {
-    return { name, transport: 'http', url: config.url, headers };
+    return { name, transport: config.type === 'sse' ? 'sse' : 'http', url: config.url, headers };
   }
 
   // stdio: has command
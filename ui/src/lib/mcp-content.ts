@@ -0,0 +1,69 @@
+import type { McpPrompt, McpPromptResult, McpResourceContent } from './types';
+
+/** `/name <required> [optional]` — shown when a prompt needs arguments */
+export function promptUsage(prompt: McpPrompt): string {
+  const args = (prompt.arguments ?? []).map((a) => (a.required ? `<${a.name}>` : `[${a.name}]`));
+  return [`/${prompt.name}`, ...args].join(' ');
+}
+
+/** Split on whitespace, keeping "double quoted" runs together */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(/"([^"]*)"|(\S+)/g)) {
+    tokens.push(match[1] ?? match[2]);
+  }
+  return tokens;
+}
+
+/**
+ * Map what the user typed after `/name` onto the prompt's arguments in order.
+ * Extra words go to the last argument, so a trailing free-text argument
+ * needs no quotes.
+ */
+export function parsePromptArguments(
+  prompt: McpPrompt,
+  text: string,
+): { args: Record<string, string>; missing: string[] } {
+  const defs = prompt.arguments ?? [];
+  const tokens = tokenize(text.trim());
+  const args: Record<string, string> = {};
+  defs.forEach((def, i) => {
+    const value = i === defs.length - 1 ? tokens.slice(i).join(' ') : tokens[i];
+    if (value) args[def.name] = value;
+  });
+  const missing = defs.filter((d) => d.required && !args[d.name]).map((d) => d.name);
+  return { args, missing };
+}
+
+/** Flatten a prompts/get result into the text of one chat message */
+export function promptToText(result: McpPromptResult): string {
+  return result.messages
+    .map(({ content }) => {
+      if (content.type === 'text') return content.text ?? '';
+      if (content.type === 'resource' && content.resource?.text !== undefined) {
+        return `${content.resource.uri}\n\`\`\`\n${content.resource.text}\n\`\`\``;
+      }
+      return `[${content.type} content omitted]`;
+    })
+    .filter((text) => text.trim())
+    .join('\n\n');
+}
+
+/** Base64 of a resource's contents, ready for files upload-base64 */
+export function resourceBase64(content: McpResourceContent): string {
+  if (content.blob !== undefined) return content.blob;
+  const bytes = new TextEncoder().encode(content.text ?? '');
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/** A safe upload filename derived from the resource's URI or name */
+export function resourceFilename(uri: string, name: string): string {
+  const last = uri.split(/[/\\]/).filter(Boolean).pop() ?? '';
+  const base = (last.includes(':') ? name : last || name)
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^[-.]+/, '')
+    .slice(0, 80);
+  return `mcp-${crypto.randomUUID().slice(0, 8)}-${base || 'resource'}`;
+}
@@ -0,0 +1,87 @@
+/** One input of the inspector form, derived from a tool's inputSchema property */
+export interface ToolField {
+  name: string;
+  /** 'json' covers objects, arrays and anything without a simple type */
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'json';
+  description?: string;
+  required: boolean;
+  enum?: string[];
+}
+
+interface SchemaProperty {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+}
+
+function fieldType(prop: SchemaProperty): ToolField['type'] {
+  const types = Array.isArray(prop.type) ? prop.type.filter((t) => t !== 'null') : [prop.type];
+  const [type] = types;
+  if (types.length === 1 && (type === 'string' || type === 'number' || type === 'integer' || type === 'boolean')) {
+    return type;
+  }
+  return 'json';
+}
+
+/** Form fields for a tool's top-level inputSchema properties */
+export function toolFields(inputSchema?: Record<string, unknown>): ToolField[] {
+  const properties = (inputSchema?.properties ?? {}) as Record<string, SchemaProperty>;
+  const required = Array.isArray(inputSchema?.required) ? inputSchema.required as string[] : [];
+  return Object.entries(properties).map(([name, prop]) => {
+    const type = fieldType(prop);
+    const enumValues = type === 'string' && Array.isArray(prop.enum)
+      ? prop.enum.filter((v): v is string => typeof v === 'string')
+      : [];
+    return {
+      name,
+      type,
+      required: required.includes(name),
+      ...(prop.description ? { description: prop.description } : {}),
+      ...(enumValues.length > 0 ? { enum: enumValues } : {}),
+    };
+  });
+}
+
+/**
+ * Turn the form's text values into tool arguments. Empty optional fields
+ * are left out; each value that can't be converted yields an error.
+ */
+export function buildToolArguments(
+  fields: ToolField[],
+  values: Record<string, string>,
+): { args: Record<string, unknown>; errors: string[] } {
+  const args: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const field of fields) {
+    const raw = values[field.name] ?? '';
+    if (!raw.trim()) {
+      if (field.required) errors.push(`${field.name} is required`);
+      continue;
+    }
+    switch (field.type) {
+      case 'string':
+        args[field.name] = raw;
+        break;
+      case 'number':
+      case 'integer': {
+        const value = Number(raw);
+        if (Number.isNaN(value) || (field.type === 'integer' && !Number.isInteger(value))) {
+          errors.push(`${field.name} must be ${field.type === 'integer' ? 'an integer' : 'a number'}`);
+        } else {
+          args[field.name] = value;
+        }
+        break;
+      }
+      case 'boolean':
+        args[field.name] = raw === 'true';
+        break;
+      default:
+        try {
+          args[field.name] = JSON.parse(raw);
+        } catch {
+          errors.push(`${field.name} must be valid JSON`);
+        }
+    }
+  }
+  return { args, errors };
+}
@@ -0,0 +1,367 @@
+import type { McpExchange, McpServerConfig } from './types';
+
+type JsonRpc = Record<string, unknown>;
+
+/** Max quiet time on a relayed request — each streamed notification restarts it */
+export const RELAY_TIMEOUT_MS = 25000;
+
+const LIST_CHANGED = 'notifications/tools/list_changed';
+
+/**
+ * Where the answers to one relayed message go: notifications the local
+ * server sends first (progress) as partials, then the response.
+ */
+export interface RelaySink {
+  partial: (message: JsonRpc) => void;
+  final: (message: JsonRpc) => void;
+  error: (message: string) => void;
+}
+
+type LocalServer = Pick<McpServerConfig, 'name' | 'localUrl' | 'localTransport'>;
+
+/** Incremental text/event-stream parser — returns a feed(chunk) function */
+function eventParser(onEvent: (event: string, data: string) => void): (chunk: string) => void {
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  return (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) onEvent(event || 'message', data.join('\n'));
+        event = '';
+        data = [];
+      } else if (!line.startsWith(':')) {
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+      }
+    }
+  };
+}
+
+function parseMessage(data: string): JsonRpc | null {
+  try {
+    const message = JSON.parse(data);
+    return typeof message === 'object' && message !== null ? message as JsonRpc : null;
+  } catch {
+    return null;
+  }
+}
+
+function isResponse(message: JsonRpc): boolean {
+  return !message.method && message.id !== undefined && ('result' in message || 'error' in message);
+}
+
+function progressToken(body: JsonRpc): unknown {
+  const params = body.params as { _meta?: { progressToken?: unknown } } | undefined;
+  return params?._meta?.progressToken;
+}
+
+/** A restartable timer that fails the request when the local server goes quiet */
+function idleTimer(onExpire: () => void) {
+  let timer = setTimeout(onExpire, RELAY_TIMEOUT_MS);
+  return {
+    touch() {
+      clearTimeout(timer);
+      timer = setTimeout(onExpire, RELAY_TIMEOUT_MS);
+    },
+    stop() {
+      clearTimeout(timer);
+    },
+  };
+}
+
+interface PendingRequest {
+  /** The client's own id, restored on the answer */
+  id: unknown;
+  sink: RelaySink;
+  token: unknown;
+  timer: ReturnType<typeof idleTimer>;
+  initialize: boolean;
+}
+
+/**
+ * One connection to a legacy HTTP+SSE server: an EventSource that announces
+ * the POST endpoint and carries every answer. Shared by all relayed
+ * clients (the SDK and the catalog), so request ids are remapped and the
+ * initialize handshake is answered from cache after the first one.
+ */
+class LegacySession {
+  private source: EventSource;
+  private endpoint: Promise<string>;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private initResult: JsonRpc | null = null;
+  private initialized = false;
+  closed = false;
+
+  constructor(
+    server: LocalServer,
+    private onNotification: (message: JsonRpc) => void
+  ) {
+    const base = new URL(server.localUrl!);
+    this.source = new EventSource(base.href);
+    this.endpoint = new Promise((resolve, reject) => {
+      this.source.addEventListener('endpoint', (event) => {
+        const endpoint = new URL((event as MessageEvent<string>).data.trim(), base);
+        // The stream decides where requests go — never let it point elsewhere
+        if (endpoint.origin !== base.origin) reject(new Error('Local server announced an endpoint on another origin'));
+        else resolve(endpoint.href);
+      });
+      this.source.addEventListener('error', () => reject(new Error('Local MCP server event stream failed')));
+    });
+    this.endpoint.catch(() => {});
+
+    this.source.addEventListener('message', (event) => {
+      const message = parseMessage((event as MessageEvent<string>).data);
+      if (message) this.dispatch(message);
+    });
+    // EventSource would reconnect into a new server-side session — start over instead
+    this.source.addEventListener('error', () => this.close('Local MCP server event stream closed'));
+  }
+
+  private dispatch(message: JsonRpc): void {
+    if (isResponse(message)) {
+      const entry = this.pending.get(message.id as number);
+      if (!entry) return;
+      this.pending.delete(message.id as number);
+      entry.timer.stop();
+      if (entry.initialize && message.result) this.initResult = message.result as JsonRpc;
+      entry.sink.final({ ...message, id: entry.id });
+      return;
+    }
+    if (typeof message.method !== 'string') return;
+
+    if (message.id !== undefined) {
+      // Server-to-client requests (sampling, roots) have no client to answer them here
+      void this.post(message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `${message.method} is not supported` } }
+      ).catch(() => {});
+      return;
+    }
+
+    const token = (message.params as { progressToken?: unknown } | undefined)?.progressToken;
+    if (token !== undefined) {
+      for (const entry of this.pending.values()) {
+        if (entry.token === token) {
+          entry.timer.touch();
+          entry.sink.partial(message);
+          return;
+        }
+      }
+    }
+    this.onNotification(message);
+  }
+
+  private async post(message: JsonRpc): Promise<void> {
+    const res = await fetch(await this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!res.ok) throw new Error(`Local MCP server rejected the message (HTTP ${res.status})`);
+  }
+
+  async send(body: JsonRpc, sink: RelaySink): Promise<void> {
+    if (body.id === undefined) {
+      if (body.method === 'notifications/initialized') {
+        if (this.initialized) return sink.final({});
+        this.initialized = true;
+      }
+      try {
+        await this.post(body);
+        sink.final({});
+      } catch (err) {
+        sink.error(err instanceof Error ? err.message : 'Relay error');
+      }
+      return;
+    }
+
+    if (body.method === 'initialize' && this.initResult) {
+      sink.final({ jsonrpc: '2.0', id: body.id, result: this.initResult });
+      return;
+    }
+
+    const id = this.nextId++;
+    const timer = idleTimer(() => {
+      this.pending.delete(id);
+      sink.error(`Local MCP server timed out (${RELAY_TIMEOUT_MS / 1000}s)`);
+    });
+    this.pending.set(id, {
+      id: body.id,
+      sink,
+      token: progressToken(body),
+      timer,
+      initialize: body.method === 'initialize',
+    });
+    try {
+      await this.post({ ...body, id });
+    } catch (err) {
+      if (this.pending.delete(id)) {
+        timer.stop();
+        sink.error(err instanceof Error ? err.message : 'Relay error');
+      }
+    }
+  }
+
+  close(reason = 'Relay closed'): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.source.close();
+    for (const entry of this.pending.values()) {
+      entry.timer.stop();
+      entry.sink.error(reason);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Talks to the user's local MCP servers on behalf of the relay. Streamable
+ * HTTP servers get one POST per message, with event-stream answers passed
+ * on as they arrive; legacy SSE servers (and stdio servers behind an SSE
+ * bridge) share one LegacySession each.
+ */
+export class LocalMcpClient {
+  private sessionIds = new Map<string, string>();
+  private legacy = new Map<string, LegacySession>();
+
+  /** `onToolsChanged` fires when a server announces notifications/tools/list_changed */
+  constructor(private onToolsChanged: (serverName: string) => void) {}
+
+  private notification(serverName: string, message: JsonRpc): void {
+    if (message.method === LIST_CHANGED) this.onToolsChanged(serverName);
+  }
+
+  relay(server: LocalServer, body: JsonRpc, sink: RelaySink): Promise<void> {
+    if (server.localTransport === 'sse') {
+      let session = this.legacy.get(server.name);
+      if (!session || session.closed) {
+        session = new LegacySession(server, (message) => this.notification(server.name, message));
+        this.legacy.set(server.name, session);
+      }
+      return session.send(body, sink);
+    }
+    return this.relayHttp(server, body, sink);
+  }
+
+  private async relayHttp(server: LocalServer, body: JsonRpc, sink: RelaySink): Promise<void> {
+    const controller = new AbortController();
+    const timer = idleTimer(() => controller.abort());
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    const sessionId = this.sessionIds.get(server.name);
+    if (sessionId && body.method !== 'initialize') headers['Mcp-Session-Id'] = sessionId;
+
+    try {
+      const response = await fetch(server.localUrl!, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      const newSessionId = response.headers.get('Mcp-Session-Id');
+      if (newSessionId) this.sessionIds.set(server.name, newSessionId);
+
+      if (!(response.headers.get('Content-Type') ?? '').includes('text/event-stream') || !response.body) {
+        const text = await response.text();
+        sink.final(text.trim() ? JSON.parse(text) as JsonRpc : {});
+        return;
+      }
+
+      let answered = false;
+      const feed = eventParser((event, data) => {
+        const message = event === 'message' ? parseMessage(data) : null;
+        if (!message || answered) return;
+        if (isResponse(message) && message.id === body.id) {
+          answered = true;
+          sink.final(message);
+          return;
+        }
+        this.notification(server.name, message);
+        sink.partial(message);
+      });
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      while (!answered) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        timer.touch();
+        feed(value);
+      }
+      if (answered) reader.cancel().catch(() => {});
+      else sink.error('Local MCP server ended the stream without a response');
+    } catch (err) {
+      sink.error(err instanceof Error
+        ? err.name === 'AbortError'
+          ? `Local MCP server timed out (${RELAY_TIMEOUT_MS / 1000}s)`
+          : err.message
+        : 'Unknown relay error');
+    } finally {
+      timer.stop();
+    }
+  }
+
+  close(): void {
+    for (const session of this.legacy.values()) session.close();
+    this.legacy.clear();
+    this.sessionIds.clear();
+  }
+}
+
+/** Relay one message and wait for its answer */
+function relayOnce(client: LocalMcpClient, server: LocalServer, body: JsonRpc): Promise<JsonRpc> {
+  return new Promise((resolve, reject) => {
+    void client.relay(server, body, {
+      partial: () => {},
+      final: resolve,
+      error: (message) => reject(new Error(message)),
+    });
+  });
+}
+
+/**
+ * Call one tool on a local relay server straight from the browser — the
+ * same hop the relay makes for the sandbox — on a fresh connection.
+ */
+export async function callLocalTool(
+  server: LocalServer,
+  tool: string,
+  args: Record<string, unknown>
+): Promise<McpExchange> {
+  const client = new LocalMcpClient(() => {});
+  try {
+    const handshakeStart = Date.now();
+    const init = await relayOnce(client, server, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'vaporforge-inspector', version: '1.0.0' },
+      },
+    });
+    const pingMs = Date.now() - handshakeStart;
+    if (!init.result) {
+      const error = init.error as { message?: string } | undefined;
+      throw new Error(error?.message ?? 'Local MCP server handshake failed');
+    }
+    await relayOnce(client, server, { jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    const request: JsonRpc = { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: tool, arguments: args } };
+    const start = Date.now();
+    const response = await relayOnce(client, server, request);
+    return { request, response, pingMs, latencyMs: Date.now() - start };
+  } finally {
+    client.close();
+  }
+}
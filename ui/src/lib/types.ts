@@ -8,9 +8,17 @@ export interface Session {
   status: 'creating' | 'active' | 'sleeping' | 'terminated' | 'pending-delete';
   createdAt: string;
   lastActiveAt: string;
+  /** Shared with an org — members can view ('read') or also act in it ('collaborate') */
+  sharing?: SessionSharing;
   metadata?: Record<string, unknown>;
 }
 
+export interface SessionSharing {
+  orgId: string;
+  access: 'read' | 'collaborate';
+  sharedAt: string;
+}
+
 /** A single step in a chain-of-thought reasoning block */
 export interface ChainOfThoughtStep {
   title: string;
@@ -154,6 +162,32 @@ export interface GitCommit {
   date: string;
 }
 
+export interface PullRequestRecord {
+  repo: string;
+  number: number;
+  url: string;
+  title: string;
+  branch: string;
+  base: string;
+  createdAt: string;
+}
+
+export type ChecksState = 'none' | 'pending' | 'success' | 'failure';
+
+export interface PullRequestStatus {
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  mergeable: boolean | null;
+  headSha: string;
+  checks: {
+    state: ChecksState;
+    passed: number;
+    failed: number;
+    pending: number;
+    checks: Array<{ name: string; state: Exclude<ChecksState, 'none'>; url?: string }>;
+  };
+}
+
 // User types
 export type UserRole = 'user' | 'admin';
 
@@ -186,15 +220,65 @@ export interface ImageAttachment {
   uploadedPath?: string;
 }
 
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+/** One entry of a resources/read result — text or base64 blob */
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/** A prompts/get result: the rendered conversation to send */
+export interface McpPromptResult {
+  description?: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: {
+      type: string;
+      text?: string;
+      resource?: McpResourceContent;
+    };
+  }>;
+}
+
+/** One manual tool call from the MCP inspector, with its raw JSON-RPC messages */
+export interface McpExchange {
+  request: Record<string, unknown>;
+  /** Null when the server gave no response */
+  response: Record<string, unknown> | null;
+  /** Status of the initialize request (direct servers only) */
+  httpStatus?: number;
+  /** Handshake round trip */
+  pingMs: number;
+  /** Round trip of the call itself */
+  latencyMs: number;
+}
+
 // MCP Server config
 export interface McpServerConfig {
   name: string;
-  transport: 'http' | 'stdio' | 'relay';
+  /** 'sse' is the legacy HTTP+SSE transport */
+  transport: 'http' | 'sse' | 'stdio' | 'relay';
   url?: string;
   command?: string;
   args?: string[];
   /** Local URL for relay transport (e.g. http://localhost:9222) */
   localUrl?: string;
+  /** What the local relay server speaks — 'sse' also covers stdio servers behind an SSE bridge */
+  localTransport?: 'http' | 'sse';
   /** HTTP headers for auth (e.g. { Authorization: "Bearer ..." }) */
   headers?: Record<string, string>;
   /** Env vars for stdio servers (e.g. { GITHUB_TOKEN: "ghp_..." }) */
@@ -211,6 +295,12 @@ export interface McpServerConfig {
     description?: string;
     inputSchema?: Record<string, unknown>;
   }>;
+  /** Resources from last ping, when the server offers any */
+  resources?: McpResource[];
+  /** Prompt templates from last ping, when the server offers any */
+  prompts?: McpPrompt[];
+  /** Per-tool policy keyed by tool name; tools not listed are allowed */
+  toolPolicy?: Record<string, 'allow' | 'deny' | 'ask'>;
   /** When the MCP server tools are available to the agent */
   mode?: 'always' | 'on-demand' | 'auto';
   /** Session scope for this MCP server */
@@ -310,6 +400,38 @@ export interface CodeAnalysis {
   }>;
 }
 
+// Pull request review (CodeAnalysis with file-anchored issues)
+export interface ReviewIssue {
+  file: string;
+  line?: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface PullRequestReview extends Omit<CodeAnalysis, 'issues'> {
+  verdict: 'approve' | 'comment' | 'request_changes';
+  issues: ReviewIssue[];
+}
+
+export type ReviewEvent = 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+
+export interface PrReviewRecord {
+  sessionId: string;
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+  author: string;
+  base: string;
+  head: string;
+  headSha: string;
+  createdAt: string;
+  diff?: string;
+  review?: PullRequestReview;
+  reviewedAt?: string;
+  posted?: { at: string; url: string; event: ReviewEvent };
+}
+
 // Commit Message (structured AI output)
 export interface CommitMessage {
   type: string;
@@ -348,7 +470,8 @@ export type WSMessage =
   | { type: 'ping' }
   | { type: 'pong' }
   | { type: 'mcp_relay_request'; requestId: string; serverName: string; body: Record<string, unknown> }
-  | { type: 'mcp_relay_response'; requestId: string; body: Record<string, unknown>; error?: string };
+  /** `partial` responses are notifications streamed ahead of the final one */
+  | { type: 'mcp_relay_response'; requestId: string; body: Record<string, unknown>; error?: string; partial?: boolean };
 
 // Session checkpoint — saved to KV for cross-device persistence
 export interface Checkpoint {
@@ -357,4 +480,16 @@ export interface Checkpoint {
   sessionId: string;
   timestamp: string;
   summary: string;
+  /** Present when the checkpoint holds a restorable /workspace snapshot */
+  snapshotCommit?: string;
+  gitHead?: string;
+  sdkSessionId?: string;
+}
+
+export interface CheckpointDiff {
+  from: string;
+  /** Checkpoint ID, or 'live' for the current workspace */
+  to: string;
+  diff: string;
+  truncated: boolean;
 }
@@ -12,6 +12,9 @@ declare global {
     // R2 Buckets
     FILES_BUCKET: R2Bucket;
 
+    // Vectorize (semantic code search) — optional, in-memory fallback when unbound
+    EMBEDDINGS_INDEX?: Vectorize;
+
     // Durable Objects
     SESSIONS: DurableObjectNamespace;
     CHAT_SESSIONS: DurableObjectNamespace;
@@ -29,6 +32,15 @@ declare global {
     // Stripe public config (safe to commit)
     STRIPE_PRO_PRICE_ID: string;
 
+    // Envelope encryption for credentials in KV (see services/secret-vault.ts).
+    // PREVIOUS is only set while rewrapping data keys after a rotation.
+    SECRETS_MASTER_KEY?: string;
+    SECRETS_MASTER_KEY_PREVIOUS?: string;
+
+    // Usage alert email (Resend) — email channel is disabled when unset
+    RESEND_API_KEY?: string;
+    ALERT_EMAIL_FROM?: string;
+
     // 1Password service account — gives sandbox access to App Dev vault
     OP_SERVICE_ACCOUNT_TOKEN?: string;
 